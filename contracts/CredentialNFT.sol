@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Minimal ERC-721 for QwiXVault credentials. Each token is one credential,
+// keyed by the document's uniqueId: minting the same credential twice reverts,
+// and tokenOfCredential finds a token from the id printed on the document.
+// The issuer (the minter that minted it) is kept per token and emitted with
+// the metadata URI, so the history can be rebuilt from the event log alone.
+// Only minters the admin allows can mint, so a credential id can't be claimed
+// by anyone else first; the deployer is the admin and the first minter.
+//
+// Compiled into src/contracts/credentialNFT.ts with solc 0.8.26, optimizer on
+// (200 runs) and evmVersion "paris", so it deploys to chains without PUSH0.
+
+interface IERC721Receiver {
+    function onERC721Received(address operator, address from, uint256 tokenId, bytes calldata data)
+        external
+        returns (bytes4);
+}
+
+contract CredentialNFT {
+    string public constant name = "QwiXVault Credential";
+    string public constant symbol = "QXVC";
+
+    uint256 public totalSupply;
+    address public admin;
+
+    mapping(address => bool) public isMinter;
+
+    mapping(uint256 => address) private _owners;
+    mapping(address => uint256) private _balances;
+    mapping(uint256 => address) private _tokenApprovals;
+    mapping(address => mapping(address => bool)) private _operatorApprovals;
+    mapping(uint256 => string) private _tokenURIs;
+    mapping(uint256 => address) private _issuers;
+    // keccak256(credentialId) => tokenId; token ids start at 1
+    mapping(bytes32 => uint256) private _credentialTokens;
+
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
+    event MinterUpdated(address indexed account, bool allowed);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event CredentialMinted(
+        uint256 indexed tokenId,
+        address indexed issuer,
+        address indexed to,
+        string credentialId,
+        string tokenURI
+    );
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "CredentialNFT: caller is not the admin");
+        _;
+    }
+
+    modifier onlyMinter() {
+        require(isMinter[msg.sender], "CredentialNFT: caller is not a minter");
+        _;
+    }
+
+    constructor() {
+        admin = msg.sender;
+        isMinter[msg.sender] = true;
+        emit AdminTransferred(address(0), msg.sender);
+        emit MinterUpdated(msg.sender, true);
+    }
+
+    function setMinter(address account, bool allowed) external onlyAdmin {
+        isMinter[account] = allowed;
+        emit MinterUpdated(account, allowed);
+    }
+
+    function transferAdmin(address newAdmin) external onlyAdmin {
+        require(newAdmin != address(0), "CredentialNFT: new admin is the zero address");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == 0x01ffc9a7 // ERC-165
+            || interfaceId == 0x80ac58cd // ERC-721
+            || interfaceId == 0x5b5e139f; // ERC-721 Metadata
+    }
+
+    function mint(address to, string calldata credentialId, string calldata uri)
+        external
+        onlyMinter
+        returns (uint256 tokenId)
+    {
+        require(to != address(0), "CredentialNFT: mint to the zero address");
+        require(bytes(credentialId).length > 0, "CredentialNFT: empty credential id");
+        bytes32 key = keccak256(bytes(credentialId));
+        require(_credentialTokens[key] == 0, "CredentialNFT: credential already minted");
+
+        tokenId = ++totalSupply;
+        _credentialTokens[key] = tokenId;
+        _owners[tokenId] = to;
+        _balances[to] += 1;
+        _tokenURIs[tokenId] = uri;
+        _issuers[tokenId] = msg.sender;
+
+        emit Transfer(address(0), to, tokenId);
+        emit CredentialMinted(tokenId, msg.sender, to, credentialId, uri);
+    }
+
+    function tokenOfCredential(string calldata credentialId) external view returns (uint256 tokenId) {
+        tokenId = _credentialTokens[keccak256(bytes(credentialId))];
+        require(tokenId != 0, "CredentialNFT: unknown credential");
+    }
+
+    function issuerOf(uint256 tokenId) external view returns (address) {
+        ownerOf(tokenId);
+        return _issuers[tokenId];
+    }
+
+    function tokenURI(uint256 tokenId) external view returns (string memory) {
+        ownerOf(tokenId);
+        return _tokenURIs[tokenId];
+    }
+
+    function balanceOf(address owner) external view returns (uint256) {
+        require(owner != address(0), "CredentialNFT: balance of the zero address");
+        return _balances[owner];
+    }
+
+    function ownerOf(uint256 tokenId) public view returns (address owner) {
+        owner = _owners[tokenId];
+        require(owner != address(0), "CredentialNFT: nonexistent token");
+    }
+
+    function approve(address to, uint256 tokenId) external {
+        address owner = ownerOf(tokenId);
+        require(
+            msg.sender == owner || _operatorApprovals[owner][msg.sender],
+            "CredentialNFT: not the owner or an approved operator"
+        );
+        _tokenApprovals[tokenId] = to;
+        emit Approval(owner, to, tokenId);
+    }
+
+    function getApproved(uint256 tokenId) external view returns (address) {
+        ownerOf(tokenId);
+        return _tokenApprovals[tokenId];
+    }
+
+    function setApprovalForAll(address operator, bool approved) external {
+        _operatorApprovals[msg.sender][operator] = approved;
+        emit ApprovalForAll(msg.sender, operator, approved);
+    }
+
+    function isApprovedForAll(address owner, address operator) external view returns (bool) {
+        return _operatorApprovals[owner][operator];
+    }
+
+    function transferFrom(address from, address to, uint256 tokenId) public {
+        address owner = ownerOf(tokenId);
+        require(owner == from, "CredentialNFT: transfer from the wrong owner");
+        require(to != address(0), "CredentialNFT: transfer to the zero address");
+        require(
+            msg.sender == owner || _tokenApprovals[tokenId] == msg.sender || _operatorApprovals[owner][msg.sender],
+            "CredentialNFT: not the owner or approved"
+        );
+
+        delete _tokenApprovals[tokenId];
+        _balances[from] -= 1;
+        _balances[to] += 1;
+        _owners[tokenId] = to;
+
+        emit Transfer(from, to, tokenId);
+    }
+
+    function safeTransferFrom(address from, address to, uint256 tokenId) external {
+        safeTransferFrom(from, to, tokenId, "");
+    }
+
+    function safeTransferFrom(address from, address to, uint256 tokenId, bytes memory data) public {
+        transferFrom(from, to, tokenId);
+        if (to.code.length > 0) {
+            require(
+                IERC721Receiver(to).onERC721Received(msg.sender, from, tokenId, data)
+                    == IERC721Receiver.onERC721Received.selector,
+                "CredentialNFT: transfer to a non ERC721Receiver"
+            );
+        }
+    }
+}
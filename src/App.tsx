@@ -59,6 +59,8 @@ import HRDashboardInterviews from "@/pages/HRDashboard/Interviews";
 import HRDashboardAnalytics from "@/pages/HRDashboard/Analytics";
 import HRDashboardSettings from "@/pages/HRDashboard/Settings";
 import HRDashboardProfile from "@/pages/HRDashboard/Profile";
+import BulkResumeParser from "@/pages/organization/ResumeParser";
+import BlockchainVerification from "@/pages/organization/BlockchainVerification";
 
 function App() {
   const [isLoading, setIsLoading] = useState(true);
@@ -199,6 +201,22 @@ function App() {
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/hr-dashboard/resume-parser"
+                  element={
+                    <ProtectedRoute allowedRoles={['organization', 'admin']}>
+                      <BulkResumeParser />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/hr-dashboard/documents"
+                  element={
+                    <ProtectedRoute allowedRoles={['organization', 'admin']}>
+                      <BlockchainVerification />
+                    </ProtectedRoute>
+                  }
+                />
                 <Route
                   path="/hr-dashboard/ai-agents"
                   element={
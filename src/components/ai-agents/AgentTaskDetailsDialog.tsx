@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchTaskDecisions, TASK_LABELS, type AiAgentDecision, type AiAgentTask } from "@/utils/aiAgentsApi";
+
+interface SourcingMatch {
+  candidateId: string;
+  name: string;
+  score: number;
+  reason: string;
+}
+
+interface UnscheduledApplication {
+  applicationId: string;
+  candidateName: string;
+  jobTitle: string;
+  inStageSince: string;
+}
+
+interface AgentTaskDetailsDialogProps {
+  task: AiAgentTask | null;
+  onClose: () => void;
+}
+
+const DecisionBadge = ({ decision }: { decision: string | null }) => (
+  <span className={cn(
+    "px-2 py-0.5 rounded-full text-xs font-medium",
+    decision === "advance" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+  )}>
+    {decision === "advance" ? "Advance" : "Reject"}
+  </span>
+);
+
+// What a task produced: per-candidate calls with HR's outcome, sourcing
+// matches, or interviews that still need scheduling
+export const AgentTaskDetailsDialog = ({ task, onClose }: AgentTaskDetailsDialogProps) => {
+  const [decisions, setDecisions] = useState<AiAgentDecision[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!task) return;
+
+    const loadDecisions = async () => {
+      setLoading(true);
+      try {
+        const rows = await fetchTaskDecisions(task.id);
+        setDecisions(rows);
+
+        const candidateIds = [...new Set(rows.map(row => row.candidate_id).filter(Boolean))] as string[];
+        if (candidateIds.length > 0) {
+          const { data } = await supabase.from('candidates').select('id, first_name, last_name').in('id', candidateIds);
+          setNames(Object.fromEntries((data || []).map(candidate => [candidate.id, `${candidate.first_name} ${candidate.last_name}`])));
+        }
+      } catch (error) {
+        console.error("Error loading agent decisions:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDecisions();
+  }, [task]);
+
+  const result = (task?.result ?? {}) as { matches?: SourcingMatch[]; unscheduled?: UnscheduledApplication[] };
+  const scored = decisions.filter(decision => decision.hr_decision);
+  const agreed = scored.filter(decision => decision.hr_decision === decision.decision).length;
+
+  return (
+    <Dialog open={!!task} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{task ? TASK_LABELS[task.task_type] : "Task"}</DialogTitle>
+          <DialogDescription>
+            {task?.error ? `Last error: ${task.error}` : task?.finished_at ? `Finished ${new Date(task.finished_at).toLocaleString()}` : "In progress"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            {decisions.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  {scored.length > 0
+                    ? `HR agreed with ${agreed} of the ${scored.length} calls it has acted on so far.`
+                    : "HR hasn't acted on any of these candidates yet."}
+                </p>
+                {decisions.map(decision => (
+                  <div key={decision.id} className="rounded-md border p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{(decision.candidate_id && names[decision.candidate_id]) || "Candidate"}</span>
+                      <div className="flex items-center gap-2">
+                        {decision.score !== null && <span className="text-gray-500">{decision.score}/100</span>}
+                        <DecisionBadge decision={decision.decision} />
+                      </div>
+                    </div>
+                    {decision.rationale && <p className="text-gray-600">{decision.rationale}</p>}
+                    <p className="text-xs text-gray-500">
+                      {decision.confidence !== null && `${Math.round(decision.confidence * 100)}% confident · `}
+                      {decision.hr_decision
+                        ? decision.hr_decision === decision.decision ? "HR agreed" : "HR overrode this call"
+                        : "Awaiting HR"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {result.matches && (
+              result.matches.length === 0 ? (
+                <p className="text-sm text-gray-500">No talent pool candidates matched this job.</p>
+              ) : (
+                <div className="space-y-3">
+                  {result.matches.map(match => (
+                    <div key={match.candidateId} className="rounded-md border p-3 text-sm">
+                      <div className="flex justify-between font-medium">
+                        <span>{match.name}</span>
+                        <span className="text-gray-500">{match.score}/100</span>
+                      </div>
+                      <p className="text-gray-600 mt-1">{match.reason}</p>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+
+            {result.unscheduled && (
+              result.unscheduled.length === 0 ? (
+                <p className="text-sm text-gray-500">Every candidate in Interviewing has an interview on the calendar.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {result.unscheduled.map(application => (
+                    <li key={application.applicationId} className="flex justify-between rounded-md border p-3">
+                      <span>
+                        <span className="font-medium">{application.candidateName}</span> · {application.jobTitle}
+                      </span>
+                      <span className="text-gray-500">since {new Date(application.inStageSince).toLocaleDateString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+
+            {decisions.length === 0 && !result.matches && !result.unscheduled && (
+              <p className="text-sm text-gray-500">This task has no results yet.</p>
+            )}
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AgentTaskDetailsDialog;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { queueAgentTask, TASK_TYPES_BY_AGENT, type AiAgent, type AiAgentTaskType } from "@/utils/aiAgentsApi";
+
+interface RunAgentTaskDialogProps {
+  agent: AiAgent | null;
+  onClose: () => void;
+}
+
+// Queue one of the tasks the agent's type supports
+export const RunAgentTaskDialog = ({ agent, onClose }: RunAgentTaskDialogProps) => {
+  const [jobs, setJobs] = useState<{ id: string; title: string }[]>([]);
+  const [taskType, setTaskType] = useState<AiAgentTaskType | "">("");
+  const [jobId, setJobId] = useState("");
+  const [queueing, setQueueing] = useState(false);
+  const { toast } = useToast();
+
+  const options = agent?.agent_type ? TASK_TYPES_BY_AGENT[agent.agent_type] : [];
+  const selected = options.find(option => option.type === taskType);
+
+  useEffect(() => {
+    if (!agent) return;
+    setTaskType(agent.agent_type ? TASK_TYPES_BY_AGENT[agent.agent_type][0]?.type ?? "" : "");
+    setJobId("");
+
+    const fetchJobs = async () => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('id, title')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error("Error fetching jobs:", error);
+        return;
+      }
+      setJobs(data || []);
+    };
+
+    fetchJobs();
+  }, [agent]);
+
+  const handleQueue = async () => {
+    if (!agent || !taskType) return;
+
+    setQueueing(true);
+    try {
+      await queueAgentTask(agent, taskType, jobId ? { jobId } : {});
+      toast({
+        title: "Task queued",
+        description: `${agent.agent_name} will start shortly.`
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to queue the task",
+        variant: "destructive"
+      });
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!agent} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Run {agent?.agent_name}</DialogTitle>
+          <DialogDescription>
+            The agent makes recommendations only; candidates move when HR moves them, and its accuracy is measured against those moves.
+          </DialogDescription>
+        </DialogHeader>
+
+        {options.length === 0 ? (
+          <p className="text-sm text-gray-500">This agent has no tasks it can run.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Task</Label>
+              <Select value={taskType} onValueChange={(value) => setTaskType(value as AiAgentTaskType)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map(option => (
+                    <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selected && <p className="text-xs text-gray-500">{selected.description}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Job{selected?.needsJob ? "" : " (optional)"}</Label>
+              <Select value={jobId} onValueChange={setJobId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={selected?.needsJob ? "Choose a job" : "All jobs"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobs.map(job => (
+                    <SelectItem key={job.id} value={job.id}>{job.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleQueue} disabled={queueing || !selected || (selected.needsJob && !jobId)}>
+            {queueing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Queue task
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RunAgentTaskDialog;
@@ -12,6 +12,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { BlockchainDocument, DocumentUploadParams } from '@/types/blockchain';
 import { useAuth } from '@/context/AuthContext';
 import { saveDocumentToUserVault } from '@/utils/blockchainDocuments';
+import { CredentialChainError } from '@/utils/credentialNFT';
 
 interface DocumentUploaderProps {
   onUploadComplete: () => void;
@@ -166,7 +167,9 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({ onUploadComp
         ipfsUri: ipfsResult.ipfsUri,
         verificationUrl: mintResult.verificationUrl,
         isVerified: true,
-        tokenId: mintResult.tokenId
+        tokenId: mintResult.tokenId,
+        contractAddress: mintResult.contractAddress,
+        chainId: mintResult.chainId
       };
       
       // Save to user's vault in storage
@@ -197,7 +200,7 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({ onUploadComp
       console.error('Upload error:', error);
       toast({
         title: "Upload failed",
-        description: "There was an error uploading your document",
+        description: error instanceof CredentialChainError ? error.message : "There was an error uploading your document",
         variant: "destructive"
       });
       setIsUploading(false);
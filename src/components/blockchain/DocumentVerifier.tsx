@@ -3,11 +3,12 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Loader2, Search, CheckCircle, XCircle, Calendar, FileText, Fingerprint, Shield } from "lucide-react";
+import { Loader2, Search, CheckCircle, XCircle, Calendar, FileText, Fingerprint, Shield, Ban, Building2, Coins } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { useBlockchain } from "@/context/BlockchainContext";
 import { verifyDocument } from "@/utils/blockchain";
 import { BlockchainDocument, DocumentVerification } from "@/types/blockchain";
+import { REGISTRY_STATUS_LABELS } from "@/utils/revocationRegistry";
 
 interface DocumentVerifierProps {
   uniqueId?: string;
@@ -55,8 +56,8 @@ const DocumentVerifier = ({ uniqueId: initialUniqueId }: DocumentVerifierProps)
       
       setVerificationResult(result);
       
-      if (result.isValid && result.document) {
-        setDocument(result.document);
+      if (result.isValid) {
+        setDocument(result.document ?? null);
         
         toast({
           title: "Verification Successful",
@@ -94,6 +95,10 @@ const DocumentVerifier = ({ uniqueId: initialUniqueId }: DocumentVerifierProps)
     });
   };
   
+  const registryEntry = verificationResult?.registryEntry;
+  const isWithdrawn = !!registryEntry && registryEntry.status !== 'active';
+  const onChain = verificationResult?.onChain;
+  
   return (
     <div className="space-y-6">
       <Card>
@@ -133,6 +138,8 @@ const DocumentVerifier = ({ uniqueId: initialUniqueId }: DocumentVerifierProps)
             <div className={`rounded-full p-2 ${verificationResult.isValid ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"}`}>
               {verificationResult.isValid ? (
                 <CheckCircle className="h-6 w-6" />
+              ) : isWithdrawn ? (
+                <Ban className="h-6 w-6" />
               ) : (
                 <XCircle className="h-6 w-6" />
               )}
@@ -141,15 +148,137 @@ const DocumentVerifier = ({ uniqueId: initialUniqueId }: DocumentVerifierProps)
           
           <CardHeader className="pt-8">
             <CardTitle className={verificationResult.isValid ? "text-green-700" : "text-red-700"}>
-              {verificationResult.isValid ? "Document Verified" : "Verification Failed"}
+              {verificationResult.isValid
+                ? "Document Verified"
+                : isWithdrawn ? `Document ${REGISTRY_STATUS_LABELS[registryEntry.status]}` : "Verification Failed"}
             </CardTitle>
             <CardDescription>
               {verificationResult.isValid 
-                ? "This document is authentic and has been verified on the blockchain"
+                ? registryEntry
+                  ? `This document was registered by ${registryEntry.issuerName} and has not been revoked`
+                  : "This document is authentic, but no issuer has registered it for revocation checks"
                 : verificationResult.error || "This document could not be verified"}
             </CardDescription>
           </CardHeader>
           
+          {registryEntry && (
+            <CardContent className="space-y-4">
+              <div className={`border rounded-lg p-4 ${isWithdrawn ? "border-red-200 bg-red-50" : ""}`}>
+                <div className="flex items-center mb-4">
+                  <div className="h-12 w-12 bg-slate-100 rounded-lg flex items-center justify-center mr-4">
+                    <Building2 className="h-6 w-6 text-slate-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium">{registryEntry.label}</h3>
+                    <p className="text-sm text-muted-foreground">Issued by {registryEntry.issuerName}</p>
+                  </div>
+                </div>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground mb-1">Registered</p>
+                    <p className="flex items-center">
+                      <Calendar className="h-4 w-4 mr-1" />
+                      {formatDate(registryEntry.registeredAt)}
+                    </p>
+                  </div>
+                  
+                  <div>
+                    <p className="text-muted-foreground mb-1">Status</p>
+                    <p className={isWithdrawn ? "text-red-700 font-medium" : "text-green-700 font-medium"}>
+                      {REGISTRY_STATUS_LABELS[registryEntry.status]}
+                    </p>
+                  </div>
+                  
+                  {registryEntry.revokedAt && (
+                    <div>
+                      <p className="text-muted-foreground mb-1">{REGISTRY_STATUS_LABELS[registryEntry.status]} On</p>
+                      <p>{formatDate(registryEntry.revokedAt)}{registryEntry.revokedBy && ` by ${registryEntry.revokedBy}`}</p>
+                    </div>
+                  )}
+                  
+                  {registryEntry.reason && (
+                    <div>
+                      <p className="text-muted-foreground mb-1">Reason</p>
+                      <p>{registryEntry.reason}</p>
+                    </div>
+                  )}
+                  
+                  {registryEntry.supersededBy && (
+                    <div>
+                      <p className="text-muted-foreground mb-1">Replaced By</p>
+                      <a href={`/verify-document/${registryEntry.supersededBy}`} className="font-mono text-xs underline break-all">
+                        {registryEntry.supersededBy}
+                      </a>
+                    </div>
+                  )}
+                  
+                  {registryEntry.contentHash && (
+                    <div>
+                      <p className="text-muted-foreground mb-1">File SHA-256</p>
+                      <p className="font-mono text-xs truncate" title={registryEntry.contentHash}>{registryEntry.contentHash}</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          )}
+          
+          {onChain && (
+            <CardContent className="space-y-4">
+              <div className="border rounded-lg p-4">
+                <div className="flex items-center mb-4">
+                  <div className="h-12 w-12 bg-slate-100 rounded-lg flex items-center justify-center mr-4">
+                    <Coins className="h-6 w-6 text-slate-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium">Credential Token #{onChain.tokenId}</h3>
+                    <p className="text-sm text-muted-foreground">ERC-721 on chain {onChain.chainId}</p>
+                  </div>
+                </div>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground mb-1">Contract</p>
+                    <p className="font-mono text-xs truncate" title={onChain.contractAddress}>{onChain.contractAddress}</p>
+                  </div>
+                  
+                  <div>
+                    <p className="text-muted-foreground mb-1">Held By</p>
+                    <p className="font-mono text-xs truncate" title={onChain.owner}>{onChain.owner}</p>
+                  </div>
+                  
+                  <div>
+                    <p className="text-muted-foreground mb-1">Minted By</p>
+                    <p className="font-mono text-xs truncate" title={onChain.issuer}>{onChain.issuer}</p>
+                  </div>
+                  
+                  <div>
+                    <p className="text-muted-foreground mb-1">Token URI</p>
+                    <p className="font-mono text-xs truncate" title={onChain.tokenURI}>{onChain.tokenURI}</p>
+                  </div>
+                </div>
+                
+                {verificationResult.onChainHistory?.length > 0 && (
+                  <div className="mt-4 pt-4 border-t space-y-2 text-sm">
+                    <p className="text-muted-foreground">History</p>
+                    {verificationResult.onChainHistory.map((event) => (
+                      <div key={`${event.txHash}-${event.to}`} className="flex justify-between gap-4">
+                        <span>
+                          {event.type === 'minted' ? "Minted to " : "Transferred to "}
+                          <span className="font-mono text-xs">{event.to}</span>
+                        </span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {event.timestamp ? formatDate(event.timestamp) : `Block ${event.blockNumber}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          )}
+          
           {verificationResult.isValid && document && (
             <CardContent className="space-y-4">
               <div className="border rounded-lg p-4">
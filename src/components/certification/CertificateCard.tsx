@@ -2,9 +2,10 @@ import React, { useState, useRef } from 'react';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Award, Download, Share2, Link, Eye, EyeOff, QrCode, Loader2 } from "lucide-react";
+import { Calendar, Award, Download, Share2, Link, Eye, EyeOff, QrCode, Loader2, FileJson } from "lucide-react";
 import { Certificate } from "@/types/certification";
 import { generateCertificatePDF, shareCertificate } from "@/utils/blockchain";
+import { CredentialFormat, downloadCredential, exportCertificateCredential } from "@/utils/verifiableCredentials";
 import { useToast } from "@/components/ui/use-toast";
 import { 
   DropdownMenu,
@@ -24,6 +25,7 @@ const CertificateCard = ({ certificate, onUpdateVisibility }: CertificateCardPro
   const [showQR, setShowQR] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<CredentialFormat | null>(null);
   const certificateRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   
@@ -176,6 +178,32 @@ const CertificateCard = ({ certificate, onUpdateVisibility }: CertificateCardPro
     }
   };
 
+  const handleExportCredential = async (format: CredentialFormat) => {
+    setExportingFormat(format);
+
+    try {
+      const credential = await exportCertificateCredential(id, format);
+      const suffix = format === 'openbadge' ? 'OpenBadge' : 'Credential';
+      downloadCredential(credential, `${title.replace(/\s+/g, '_')}_${suffix}.json`);
+
+      toast({
+        title: "Credential Exported",
+        description: format === 'openbadge'
+          ? "Import the Open Badge into your wallet or badge backpack"
+          : "Import the Verifiable Credential into your digital wallet",
+      });
+    } catch (error) {
+      console.error("Error exporting credential:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export the credential",
+        variant: "destructive"
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   return (
     <Card className="w-full">
       <CardHeader className="pb-2">
@@ -277,6 +305,27 @@ const CertificateCard = ({ certificate, onUpdateVisibility }: CertificateCardPro
               )}
               Share Certificate
             </DropdownMenuItem>
+            {/* Only issuer-signed certificates can be exported as credentials */}
+            {certificate.signature && (
+              <>
+                <DropdownMenuItem onClick={() => handleExportCredential('vc')} disabled={!!exportingFormat}>
+                  {exportingFormat === 'vc' ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FileJson className="h-4 w-4 mr-2" />
+                  )}
+                  Export Verifiable Credential
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportCredential('openbadge')} disabled={!!exportingFormat}>
+                  {exportingFormat === 'openbadge' ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Award className="h-4 w-4 mr-2" />
+                  )}
+                  Export Open Badge
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </CardFooter>
@@ -6,35 +6,31 @@ import { Loader2, Award, CheckCircle, FileCheck, User, Mail, FileText } from "lu
 import { useToast } from "@/components/ui/use-toast";
 import { Progress } from "@/components/ui/progress";
 import { Certificate } from "@/types/blockchain";
-import { generateCertificate } from "@/utils/blockchain";
+import { issueExamCertificate } from "@/utils/certificationExams";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useBlockchain } from "@/context/BlockchainContext";
 import { useAuth } from "@/context/AuthContext";
 
 interface CertificateGeneratorProps {
-  testId: string;
+  // The passed attempt the server issues the certificate for
+  attemptId: string;
   testTitle: string;
   score: number;
   onComplete: (certificate: Certificate) => void;
 }
 
-const CertificateGenerator = ({ testId, testTitle, score, onComplete }: CertificateGeneratorProps) => {
+const CertificateGenerator = ({ attemptId, testTitle, score, onComplete }: CertificateGeneratorProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
   const [step, setStep] = useState(0);
   const [recipientName, setRecipientName] = useState("");
   const [recipientEmail, setRecipientEmail] = useState("");
   const { toast } = useToast();
-  const { saveCertificateToVault, generateCertificate: generateBlockchainCertificate } = useBlockchain();
   const { user } = useAuth();
   
   const steps = [
-    "Preparing certificate data",
-    "Creating blockchain transaction",
-    "Waiting for confirmation",
-    "Minting NFT certificate",
-    "Finalizing certificate"
+    "Verifying your result and issuing the certificate",
+    "Saving to your QwixVault"
   ];
 
   const handleGenerate = async () => {
@@ -50,95 +46,35 @@ const CertificateGenerator = ({ testId, testTitle, score, onComplete }: Certific
       return;
     }
     
-    if (!recipientEmail.trim() || !recipientEmail.includes('@')) {
-      toast({
-        title: "Valid Email Required",
-        description: "Please enter a valid email address.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
     setIsGenerating(true);
     setProgress(0);
     setStep(0);
     
     try {
-      // Step 1: Prepare certificate data
-      await simulateStep(1);
-      
-      // Step 2: Create blockchain transaction
-      await simulateStep(2);
-      
-      // Step 3: Wait for confirmation
-      await simulateStep(3);
-      
-      // Step 4: Mint NFT certificate
-      await simulateStep(4);
-      
-      // Step 5: Finalize certificate
-      await simulateStep(5);
+      // The server checks the attempt passed and records the certificate
+      const certificate = await issueExamCertificate(attemptId, recipientName.trim());
       
-      // Generate the certificate using blockchain
-      let certificate;
-      
-      // Try to use the blockchain context first for proper activity tracking
-      if (generateBlockchainCertificate) {
-        certificate = await generateBlockchainCertificate(
-          testId,
-          score,
-          testTitle
-        );
-      } 
-      
-      // If blockchain generation failed or not available, use the utility function
-      if (!certificate) {
-        certificate = await generateCertificate(
-          testId, 
-          testTitle, 
-          score, 
-          recipientName,
-          recipientEmail
-        );
-        
-        // Save to vault manually if using utility function
-        if (certificate) {
-          await saveCertificateToVault(certificate);
-        }
-      }
-      
-      if (!certificate) {
-        throw new Error("Failed to generate certificate");
-      }
+      setStep(1);
+      setProgress(50);
       
       toast({
         title: "Certificate Generated",
-        description: "Your blockchain certificate has been successfully created!",
+        description: "Your certificate has been issued successfully!",
       });
       
       // Pass the certificate back
+      setProgress(100);
       onComplete(certificate);
       
     } catch (error) {
       toast({
         title: "Generation Failed",
-        description: "Failed to generate your certificate. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to generate your certificate. Please try again.",
         variant: "destructive"
       });
       setIsGenerating(false);
     }
   };
-  
-  const simulateStep = async (stepNumber: number) => {
-    setStep(stepNumber - 1);
-    const baseProgress = (stepNumber - 1) * 20;
-    
-    // Simulate progress within step
-    for (let i = 0; i < 20; i += 4) {
-      setProgress(baseProgress + i);
-      await new Promise(resolve => setTimeout(resolve, 300));
-    }
-  };
 
   // Prefill with user data if available
   React.useEffect(() => {
@@ -153,7 +89,7 @@ const CertificateGenerator = ({ testId, testTitle, score, onComplete }: Certific
       <CardHeader>
         <CardTitle className="flex items-center justify-center">
           <Award className="h-6 w-6 text-modern-blue-500 mr-2" />
-          Generate Blockchain Certificate
+          Generate Certificate
         </CardTitle>
       </CardHeader>
       
@@ -161,8 +97,8 @@ const CertificateGenerator = ({ testId, testTitle, score, onComplete }: Certific
         <div className="text-center">
           <h3 className="text-lg font-semibold mb-2">{testTitle}</h3>
           <p className="text-muted-foreground">
-            Congratulations on passing with a score of {score}%! 
-            Generate your verifiable blockchain certificate to showcase your achievement.
+            Congratulations on passing with a score of {score}/100! 
+            Generate your verifiable certificate to showcase your achievement.
           </p>
         </div>
         
@@ -192,9 +128,8 @@ const CertificateGenerator = ({ testId, testTitle, score, onComplete }: Certific
                     id="email" 
                     type="email"
                     value={recipientEmail} 
-                    onChange={(e) => setRecipientEmail(e.target.value)}
-                    placeholder="Enter your email address"
-                    disabled={isGenerating}
+                    placeholder="Your account email"
+                    disabled
                   />
                 </div>
               </div>
@@ -238,8 +173,8 @@ const CertificateGenerator = ({ testId, testTitle, score, onComplete }: Certific
           <p className="flex items-start">
             <FileCheck className="h-5 w-5 text-blue-500 mr-2 mt-0.5" />
             <span>
-              Your certificate will be permanently recorded on the Polygon blockchain, making it tamper-proof 
-              and allowing employers to verify its authenticity with a simple link or QR code.
+              Your certificate is issued for the account you took the test with and is recorded with a tamper-evident 
+              hash, allowing employers to verify its authenticity with a simple link or QR code.
             </span>
           </p>
         </div>
@@ -2,17 +2,25 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Shield, Search, QrCode, AlertCircle, CheckCircle, XCircle, Loader2, 
-  ExternalLink, Info, Calendar, FileText, Download, Share2, File, Upload
+  ExternalLink, Info, Calendar, FileText, Download, Share2, FileJson, Upload
 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import { Certificate, BlockchainTransaction, VerificationMethod } from "@/types/certification";
-import { verifyCertificate, verifyCertificateFromFile, generateCertificatePDF, shareCertificate, getUserCertificates } from "@/utils/blockchain";
+import { Certificate, VerificationMethod } from "@/types/certification";
+import { verifyCertificate, generateCertificatePDF, shareCertificate } from "@/utils/blockchain";
+import { CertificateVerificationResult } from "@/utils/certificateVerification";
+import {
+  CREDENTIAL_STATUS_LABELS,
+  CredentialVerificationResult,
+  parseCredential,
+  verifyCredential
+} from "@/utils/verifiableCredentials";
 import QRCode from 'qrcode.react';
 
 interface CertificateVerifierProps {
@@ -26,7 +34,9 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
   const [verificationMethod, setVerificationMethod] = useState<VerificationMethod>('certHash');
   const [activeTab, setActiveTab] = useState('input');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
+  const [credentialText, setCredentialText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [credentialResult, setCredentialResult] = useState<CredentialVerificationResult | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const certificateRef = useRef<HTMLDivElement>(null);
@@ -34,19 +44,12 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
   const [result, setResult] = useState<{
     isValid: boolean;
     certificate?: Certificate;
-    transaction?: BlockchainTransaction;
+    verification?: CertificateVerificationResult;
     error?: string;
   } | null>(null);
   
   const { toast } = useToast();
 
-  // Debug log certificates when component mounts
-  useEffect(() => {
-    const certificates = getUserCertificates();
-    console.log("Available certificates:", certificates);
-    console.log("Initial hash:", initialHash);
-  }, [initialHash]);
-
   // Auto-verify if initialHash is provided
   useEffect(() => {
     if (initialHash && initialHash.trim() !== '') {
@@ -55,8 +58,8 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
     }
   }, [initialHash]);
 
-  const handleVerify = async () => {
-    if (!certHash.trim()) {
+  const handleVerify = async (identifier = certHash, method = verificationMethod) => {
+    if (!identifier.trim()) {
       toast({
         title: "Error",
         description: "Please enter a certificate identifier",
@@ -67,15 +70,16 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
     
     setIsVerifying(true);
     setResult(null);
+    setCredentialResult(null);
     
     try {
-      console.log("Verifying with:", { certHash, method: verificationMethod });
+      console.log("Verifying with:", { identifier, method });
       
-      // Clean up the certHash to remove any whitespace
-      const cleanCertHash = certHash.trim();
+      // Clean up the identifier to remove any whitespace
+      const cleanCertHash = identifier.trim();
       
       // Only use valid verification methods for the verifyCertificate function
-      const validMethod = verificationMethod === 'file' ? 'certHash' : verificationMethod;
+      const validMethod = method === 'file' ? 'certHash' : method;
       const verificationResult = await verifyCertificate(cleanCertHash, validMethod);
       
       console.log("Verification result:", verificationResult);
@@ -90,7 +94,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
       } else {
         toast({
           title: "Certificate Verified",
-          description: "This certificate has been successfully verified on the blockchain",
+          description: "The issuer's signature on this certificate has been verified",
         });
       }
     } catch (error) {
@@ -102,7 +106,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
       
       toast({
         title: "Verification Error",
-        description: "An error occurred during verification",
+        description: error instanceof Error ? error.message : "An error occurred during verification",
         variant: "destructive"
       });
     } finally {
@@ -110,57 +114,66 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
     }
   };
   
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
+      setCredentialText(await e.target.files[0].text());
     }
   };
   
-  const handleFileUpload = async () => {
-    if (!selectedFile) {
+  // Verified in the browser against the issuer's published keys; nothing
+  // about the credential is sent to the server
+  const handleImportCredential = async () => {
+    if (!credentialText.trim()) {
       toast({
         title: "Error",
-        description: "Please select a certificate file",
+        description: "Please select or paste a credential",
         variant: "destructive"
       });
       return;
     }
     
-    setIsUploading(true);
+    setIsImporting(true);
     setResult(null);
+    setCredentialResult(null);
     
     try {
-      const verificationResult = await verifyCertificateFromFile(selectedFile);
-      setResult(verificationResult);
+      const verification = await verifyCredential(parseCredential(credentialText));
+      setCredentialResult(verification);
       
-      if (!verificationResult.isValid) {
+      if (!verification.valid) {
         toast({
           title: "Verification Failed",
-          description: verificationResult.error || "Could not verify this certificate file",
+          description: CREDENTIAL_STATUS_LABELS[verification.status],
           variant: "destructive"
         });
       } else {
         toast({
-          title: "Certificate Verified",
-          description: "This certificate file has been successfully verified",
+          title: "Credential Verified",
+          description: "The issuer's proof on this credential has been verified",
         });
       }
     } catch (error) {
-      setResult({
-        isValid: false,
-        error: "Failed to verify the certificate file. Try again later."
-      });
+      setCredentialResult({ valid: false, status: 'malformed' });
       
       toast({
         title: "Verification Error",
-        description: "An error occurred during file verification",
+        description: error instanceof SyntaxError ? "The credential is not valid JSON" : CREDENTIAL_STATUS_LABELS.malformed,
         variant: "destructive"
       });
     } finally {
-      setIsUploading(false);
+      setIsImporting(false);
     }
   };
   
+  // Revocation can't be seen offline; look the certificate up by its id
+  const handleCheckOnline = (certificateId: string) => {
+    setVerificationMethod('uniqueId');
+    setCertHash(certificateId);
+    setActiveTab('input');
+    handleVerify(certificateId, 'uniqueId');
+  };
+  
   const handleDownloadPDF = async () => {
     if (!result?.certificate) return;
     
@@ -233,8 +246,6 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
   
   const verificationMethodOptions = [
     { value: 'certHash', label: 'Certificate Hash' },
-    { value: 'txHash', label: 'Transaction Hash' },
-    { value: 'blockId', label: 'Block ID' },
     { value: 'uniqueId', label: 'Certificate ID' }
   ];
 
@@ -251,7 +262,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
           <CardTitle>Certificate Verification</CardTitle>
         </div>
         <CardDescription>
-          Verify the authenticity of a QwiXCertChain certificate using blockchain technology
+          Verify the authenticity of a QwiXCertChain certificate against its issuer's digital signature
         </CardDescription>
       </CardHeader>
       
@@ -265,7 +276,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
               </TabsTrigger>
               <TabsTrigger value="upload" className="flex items-center">
                 <Upload className="h-4 w-4 mr-2" />
-                Verify Certificate File
+                Import Credential
               </TabsTrigger>
             </TabsList>
             
@@ -296,7 +307,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                   />
                 </div>
                 <div className="flex gap-2">
-                  <Button onClick={handleVerify} disabled={isVerifying} className="flex-1">
+                  <Button onClick={() => handleVerify()} disabled={isVerifying} className="flex-1">
                     {isVerifying ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
@@ -328,7 +339,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                 <input
                   type="file"
                   id="certificate-file"
-                  accept=".pdf"
+                  accept=".json,.jsonld,application/json,application/ld+json"
                   className="hidden"
                   onChange={handleFileChange}
                 />
@@ -336,10 +347,10 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                   htmlFor="certificate-file" 
                   className="cursor-pointer flex flex-col items-center justify-center"
                 >
-                  <File className="h-10 w-10 text-muted-foreground mb-2" />
-                  <p className="text-sm font-medium mb-1">Drop certificate file or click to browse</p>
+                  <FileJson className="h-10 w-10 text-muted-foreground mb-2" />
+                  <p className="text-sm font-medium mb-1">Drop credential file or click to browse</p>
                   <p className="text-xs text-muted-foreground">
-                    Upload a QwiXCert certificate PDF to verify
+                    A Verifiable Credential or Open Badge exported from QwiXCert, checked on this device
                   </p>
                 </label>
                 
@@ -352,21 +363,106 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                 )}
               </div>
               
+              <Textarea
+                placeholder="...or paste the credential JSON"
+                value={credentialText}
+                onChange={(e) => setCredentialText(e.target.value)}
+                className="font-mono text-xs min-h-[120px]"
+              />
+              
               <Button 
-                onClick={handleFileUpload} 
-                disabled={isUploading || !selectedFile}
+                onClick={handleImportCredential} 
+                disabled={isImporting || !credentialText.trim()}
                 className="w-full"
               >
-                {isUploading ? (
+                {isImporting ? (
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
                 ) : (
                   <Upload className="h-4 w-4 mr-2" />
                 )}
-                Verify Certificate File
+                Verify Credential
               </Button>
             </TabsContent>
           </Tabs>
           
+          {credentialResult && (
+            <div className="mt-6 space-y-4">
+              <Alert
+                variant={credentialResult.valid ? undefined : "destructive"}
+                className={credentialResult.valid ? "bg-green-50 border-green-200" : undefined}
+              >
+                {credentialResult.valid ? (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                ) : (
+                  <XCircle className="h-4 w-4" />
+                )}
+                <AlertTitle className={credentialResult.valid ? "text-green-800" : undefined}>
+                  {credentialResult.valid ? "Credential Verified" : "Invalid Credential"}
+                </AlertTitle>
+                <AlertDescription className={credentialResult.valid ? "text-green-700" : undefined}>
+                  {CREDENTIAL_STATUS_LABELS[credentialResult.status]}
+                </AlertDescription>
+              </Alert>
+              
+              {credentialResult.summary && (
+                <Card>
+                  <CardContent className="pt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-muted-foreground">
+                        {credentialResult.summary.format === 'openbadge' ? "Open Badge 3.0" : "Verifiable Credential"}
+                      </h4>
+                      <p className="font-semibold">{credentialResult.summary.title}</p>
+                      {credentialResult.summary.recipientName && (
+                        <p className="text-sm">Awarded to {credentialResult.summary.recipientName}</p>
+                      )}
+                      {credentialResult.summary.score !== undefined && (
+                        <p className="text-sm">Score: {credentialResult.summary.score}/100</p>
+                      )}
+                      {credentialResult.summary.issuedAt && (
+                        <p className="text-sm">Issued on {formatDate(credentialResult.summary.issuedAt)}</p>
+                      )}
+                      <p className="text-sm">Issuer: {credentialResult.summary.issuerName ?? "Unknown"}</p>
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-muted-foreground">Checks</h4>
+                      {credentialResult.checks && (
+                        <ul className="space-y-1 text-sm">
+                          <li>{credentialResult.checks.proof ? "✓" : "✗"} Issuer proof is valid</li>
+                          <li>{credentialResult.checks.issuer ? "✓" : "✗"} Signing key is published by the issuer</li>
+                          <li>{credentialResult.checks.validity ? "✓" : "✗"} Within its validity period</li>
+                        </ul>
+                      )}
+                      {credentialResult.issuerKey && (
+                        <p className="text-xs text-muted-foreground break-all">
+                          Key {credentialResult.issuerKey.id} ({credentialResult.issuerKey.algorithm})
+                        </p>
+                      )}
+                      {credentialResult.keysFetchedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Issuer keys as of {formatDate(credentialResult.keysFetchedAt)}
+                        </p>
+                      )}
+                    </div>
+                  </CardContent>
+                  {credentialResult.valid && credentialResult.summary.certificateId && (
+                    <CardFooter>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCheckOnline(credentialResult.summary!.certificateId!)}
+                        disabled={isVerifying}
+                      >
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Check Revocation Online
+                      </Button>
+                    </CardFooter>
+                  )}
+                </Card>
+              )}
+            </div>
+          )}
+          
           {result && (
             <div className="mt-6">
               {result.error ? (
@@ -381,7 +477,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                     <CheckCircle className="h-4 w-4 text-green-600" />
                     <AlertTitle className="text-green-800">Certificate Verified</AlertTitle>
                     <AlertDescription className="text-green-700">
-                      This certificate is authentic and has been verified on the blockchain.
+                      This certificate is authentic: the issuer's signature is valid and it has not been revoked.
                     </AlertDescription>
                   </Alert>
                   
@@ -420,7 +516,7 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                           <div className="flex justify-between items-center mb-4">
                             <h2 className="text-xl font-bold">QwiXCertChain</h2>
                             <Badge variant="outline" className="bg-white/20 text-white border-white/40">
-                              Blockchain Verified
+                              Signature Verified
                             </Badge>
                           </div>
                           <h3 className="text-2xl font-bold mb-2">{result.certificate.title}</h3>
@@ -476,68 +572,40 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                             
                             <div className="space-y-3">
                               <div>
-                                <h4 className="text-sm font-medium text-muted-foreground">Blockchain Verification</h4>
+                                <h4 className="text-sm font-medium text-muted-foreground">Signature Verification</h4>
                                 <div className="space-y-2 mt-2">
                                   <div className="flex justify-between">
-                                    <span className="text-sm font-medium">Network:</span>
-                                    <span className="text-sm">{result.certificate.blockchainNetwork}</span>
+                                    <span className="text-sm font-medium">Issuer:</span>
+                                    <span className="text-sm">{result.verification?.issuerKey?.issuer ?? result.certificate.issuer}</span>
                                   </div>
                                   <div className="flex justify-between">
-                                    <span className="text-sm font-medium">Transaction:</span>
-                                    <a 
-                                      href={`https://polygonscan.com/tx/${result.certificate.txHash}`}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-blue-600 hover:underline text-sm font-mono flex items-center"
-                                    >
-                                      {result.certificate.txHash.substring(0, 6)}...
-                                      <ExternalLink className="h-3 w-3 ml-1" />
-                                    </a>
+                                    <span className="text-sm font-medium">Algorithm:</span>
+                                    <span className="text-sm">{result.verification?.issuerKey?.algorithm}</span>
                                   </div>
                                   <div className="flex justify-between">
-                                    <span className="text-sm font-medium">Block ID:</span>
-                                    <a 
-                                      href={`https://polygonscan.com/block/${result.certificate.blockId}`}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-blue-600 hover:underline text-sm font-mono flex items-center"
-                                    >
-                                      {result.certificate.blockId}
-                                      <ExternalLink className="h-3 w-3 ml-1" />
-                                    </a>
+                                    <span className="text-sm font-medium">Issuer Key:</span>
+                                    <span className="text-sm font-mono" title={result.certificate.issuerKeyId}>
+                                      {result.certificate.issuerKeyId?.substring(0, 12)}...
+                                    </span>
                                   </div>
                                   <div className="flex justify-between">
-                                    <span className="text-sm font-medium">Contract:</span>
-                                    <a 
-                                      href={`https://polygonscan.com/address/${result.certificate.contractAddress}`}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-blue-600 hover:underline text-sm font-mono flex items-center"
-                                    >
-                                      {result.certificate.contractAddress?.substring(0, 6)}...
-                                      <ExternalLink className="h-3 w-3 ml-1" />
-                                    </a>
+                                    <span className="text-sm font-medium">Signature:</span>
+                                    <span className="text-sm font-mono" title={result.certificate.signature}>
+                                      {result.certificate.signature?.substring(0, 12)}...
+                                    </span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-sm font-medium">Certificate Hash:</span>
+                                    <span className="text-sm font-mono" title={result.certificate.certHash}>
+                                      {result.certificate.certHash.substring(0, 12)}...
+                                    </span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-sm font-medium">Status:</span>
+                                    <Badge variant="default" className="text-xs">
+                                      {result.verification?.revocation ? "revoked" : "active"}
+                                    </Badge>
                                   </div>
-                                  {result.certificate.smartContractStandard && (
-                                    <div className="flex justify-between">
-                                      <span className="text-sm font-medium">Standard:</span>
-                                      <span className="text-sm">{result.certificate.smartContractStandard}</span>
-                                    </div>
-                                  )}
-                                  {result.transaction && (
-                                    <>
-                                      <div className="flex justify-between">
-                                        <span className="text-sm font-medium">Confirmations:</span>
-                                        <span className="text-sm">{result.transaction.confirmations}</span>
-                                      </div>
-                                      <div className="flex justify-between">
-                                        <span className="text-sm font-medium">Status:</span>
-                                        <Badge variant={result.transaction.status === 'confirmed' ? 'default' : 'outline'} className="text-xs">
-                                          {result.transaction.status}
-                                        </Badge>
-                                      </div>
-                                    </>
-                                  )}
                                 </div>
                               </div>
                             </div>
@@ -559,16 +627,8 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
                         <Info className="h-4 w-4" />
                         <AlertTitle>How to Verify</AlertTitle>
                         <AlertDescription>
-                          This certificate has been cryptographically secured on the {result.certificate.blockchainNetwork}.
-                          You can verify its authenticity by checking the transaction on{' '}
-                          <a 
-                            href={`https://polygonscan.com/tx/${result.certificate.txHash}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 hover:underline font-medium"
-                          >
-                            Polygonscan
-                          </a>.
+                          The issuer signed this certificate's data with its published {result.verification?.issuerKey?.algorithm} key.
+                          Anyone can check the signature from this page or by opening the verification link on another device.
                         </AlertDescription>
                       </Alert>
                     </>
@@ -591,8 +651,8 @@ const CertificateVerifier = ({ initialHash }: CertificateVerifierProps) => {
       <CardFooter className="flex-col space-y-4">
         <div className="w-full h-px bg-border"></div>
         <div className="text-sm text-muted-foreground text-center">
-          QwiXCertChain uses blockchain technology to ensure certificates are tamper-proof and verifiable.
-          Each certificate is minted as a digital asset on the blockchain network.
+          QwiXCertChain certificates are digitally signed by their issuer, so any change to a certificate
+          breaks its signature and it can be verified from any device.
         </div>
       </CardFooter>
     </Card>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
@@ -7,48 +7,60 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ClockIcon, AlertCircle, CheckCircle2, ChevronRight, Loader2 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import { Question } from "@/types/certification";
+import { ExamQuestion } from "@/types/certification";
 
 interface MCQTestProps {
-  testId: string;
   testTitle: string;
-  questions: Question[];
-  timeLimit: number; // in minutes
-  passingScore: number;
-  onTestComplete: (score: number, passed: boolean, answers: Record<number, string>) => void;
+  questions: ExamQuestion[];
+  // When the server stops accepting this attempt
+  expiresAt: string;
+  // Grading happens on the server; answers are option indexes by question id
+  onSubmit: (answers: Record<string, number>) => Promise<void>;
+  // Adaptive attempts: `questions` holds those served so far and the last one
+  // is being asked. Each answer goes to the server, which serves the next
+  // question or ends the test once the score is precise enough.
+  adaptive?: {
+    answeredCount: number;
+    maxQuestions: number;
+    onAnswer: (questionId: string, selectedIndex: number) => Promise<void>;
+  };
 }
 
+const secondsUntil = (timestamp: string) =>
+  Math.max(0, Math.floor((new Date(timestamp).getTime() - Date.now()) / 1000));
+
 const MCQTest = ({ 
-  testId, 
   testTitle, 
   questions, 
-  timeLimit, 
-  passingScore, 
-  onTestComplete 
+  expiresAt, 
+  onSubmit,
+  adaptive
 }: MCQTestProps) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, string>>({});
-  const [timeRemaining, setTimeRemaining] = useState(timeLimit * 60); // convert to seconds
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [timeRemaining, setTimeRemaining] = useState(() => secondsUntil(expiresAt));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
+  // The timer submits from a stale closure, so it reads answers from here
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
   const { toast } = useToast();
 
   useEffect(() => {
     if (timeRemaining <= 0 || isCompleted) return;
     
+    // Count down against the server's deadline so a resumed attempt keeps its clock
     const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          handleTimeUp();
-          return 0;
-        }
-        return prev - 1;
-      });
+      const remaining = secondsUntil(expiresAt);
+      setTimeRemaining(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        handleTimeUp();
+      }
     }, 1000);
     
     return () => clearInterval(timer);
-  }, [timeRemaining, isCompleted]);
+  }, [expiresAt, isCompleted]);
 
   const handleTimeUp = () => {
     toast({
@@ -69,7 +81,7 @@ const MCQTest = ({
   const handleSelectAnswer = (value: string) => {
     setAnswers(prev => ({
       ...prev,
-      [currentQuestionIndex]: value
+      [questions[currentQuestionIndex].id]: Number(value)
     }));
   };
 
@@ -85,17 +97,22 @@ const MCQTest = ({
     }
   };
 
-  const calculateScore = () => {
-    let correctAnswers = 0;
+  const handleSubmitAnswer = async () => {
+    if (!adaptive || isSubmitting) return;
     
-    questions.forEach((question, index) => {
-      if (answers[index] === question.correctAnswer) {
-        correctAnswers++;
-      }
-    });
+    setIsSubmitting(true);
     
-    const scorePercentage = Math.round((correctAnswers / questions.length) * 100);
-    return scorePercentage;
+    try {
+      await adaptive.onAnswer(currentQuestion.id, currentAnswer);
+    } catch (error) {
+      toast({
+        title: "Error submitting answer",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleSubmitTest = async () => {
@@ -104,24 +121,12 @@ const MCQTest = ({
     setIsSubmitting(true);
     
     try {
-      const score = calculateScore();
-      const passed = score >= passingScore;
-      
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
+      await onSubmit(answersRef.current);
       setIsCompleted(true);
-      onTestComplete(score, passed, answers);
-      
-      if (!passed) {
-        const cooldownEnd = new Date();
-        cooldownEnd.setHours(cooldownEnd.getHours() + 24);
-        localStorage.setItem(`test_cooldown_${testId}`, cooldownEnd.toISOString());
-      }
-      
     } catch (error) {
       toast({
         title: "Error submitting test",
-        description: "Please try again later.",
+        description: error instanceof Error ? error.message : "Please try again later.",
         variant: "destructive"
       });
     } finally {
@@ -129,9 +134,14 @@ const MCQTest = ({
     }
   };
 
-  const currentQuestion = questions[currentQuestionIndex];
-  const isLastQuestion = currentQuestionIndex === questions.length - 1;
-  const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
+  // Adaptive tests always show the newest question
+  const questionIndex = adaptive ? questions.length - 1 : currentQuestionIndex;
+  const currentQuestion = questions[questionIndex];
+  const currentAnswer = answers[currentQuestion.id];
+  const isLastQuestion = questionIndex === questions.length - 1;
+  const progress = adaptive
+    ? (adaptive.answeredCount / adaptive.maxQuestions) * 100
+    : ((currentQuestionIndex + 1) / questions.length) * 100;
   const isTimeWarning = timeRemaining <= 60; // Warning when 1 minute left
 
   return (
@@ -147,7 +157,9 @@ const MCQTest = ({
           </div>
         </div>
         <CardDescription>
-          Question {currentQuestionIndex + 1} of {questions.length}
+          {adaptive
+            ? `Question ${adaptive.answeredCount + 1} of at most ${adaptive.maxQuestions} · the test ends once your score is measured precisely`
+            : `Question ${currentQuestionIndex + 1} of ${questions.length}`}
         </CardDescription>
         <Progress value={progress} className="h-2" />
       </CardHeader>
@@ -157,12 +169,12 @@ const MCQTest = ({
           <h3 className="text-lg font-medium mb-4">{currentQuestion.text}</h3>
           
           <RadioGroup 
-            value={answers[currentQuestionIndex] || ''} 
+            value={currentAnswer === undefined ? '' : String(currentAnswer)} 
             onValueChange={handleSelectAnswer}
           >
             {currentQuestion.options.map((option, idx) => (
               <div key={idx} className="flex items-start space-x-2 mb-3">
-                <RadioGroupItem value={option} id={`option-${idx}`} />
+                <RadioGroupItem value={String(idx)} id={`option-${idx}`} />
                 <Label htmlFor={`option-${idx}`} className="font-normal text-base">{option}</Label>
               </div>
             ))}
@@ -181,16 +193,37 @@ const MCQTest = ({
       </CardContent>
       
       <CardFooter className="justify-between">
-        <Button 
-          variant="outline"
-          onClick={handlePrevQuestion}
-          disabled={currentQuestionIndex === 0 || isSubmitting}
-        >
-          Previous
-        </Button>
+        {adaptive ? (
+          <Button 
+            variant="outline"
+            onClick={handleSubmitTest}
+            disabled={isSubmitting}
+          >
+            End Test
+          </Button>
+        ) : (
+          <Button 
+            variant="outline"
+            onClick={handlePrevQuestion}
+            disabled={currentQuestionIndex === 0 || isSubmitting}
+          >
+            Previous
+          </Button>
+        )}
         
         <div>
-          {isLastQuestion ? (
+          {adaptive ? (
+            <Button 
+              onClick={handleSubmitAnswer} 
+              disabled={currentAnswer === undefined || isSubmitting}
+            >
+              {isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : null}
+              Submit Answer
+              <ChevronRight className="ml-2 h-4 w-4" />
+            </Button>
+          ) : isLastQuestion ? (
             <Button 
               onClick={handleSubmitTest} 
               disabled={isSubmitting}
@@ -211,7 +244,7 @@ const MCQTest = ({
           ) : (
             <Button 
               onClick={handleNextQuestion} 
-              disabled={!answers[currentQuestionIndex]}
+              disabled={currentAnswer === undefined}
             >
               Next Question
               <ChevronRight className="ml-2 h-4 w-4" />
@@ -5,38 +5,34 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ClockIcon, Award, Trophy, AlertTriangle, Lock, ExternalLink, User, Download } from "lucide-react";
-import { Question } from "@/types/certification";
+import { ExamQuestion, ExamResult } from "@/types/certification";
 import { Link } from 'react-router-dom';
 
 interface TestResultsProps {
-  testId: string;
   testTitle: string;
-  score: number;
-  passingScore: number;
-  questions: Question[];
-  userAnswers: Record<number, string>;
+  questions: ExamQuestion[];
+  // The graded attempt from the certification-exams function
+  result: ExamResult;
   onGenerate?: () => void;
   onRetry?: () => void;
 }
 
 const TestResults = ({ 
-  testId, 
   testTitle, 
-  score, 
-  passingScore, 
   questions, 
-  userAnswers,
+  result,
   onGenerate,
   onRetry
 }: TestResultsProps) => {
   const [showDetails, setShowDetails] = useState(false);
-  const isPassed = score >= passingScore;
+  const { score, passingScore, passed: isPassed, ability } = result;
   
-  // Calculate cooldown info if test failed
-  const cooldownEndISOString = localStorage.getItem(`test_cooldown_${testId}`);
-  const cooldownEnd = cooldownEndISOString ? new Date(cooldownEndISOString) : null;
+  // The server enforces the retake cooldown; this only displays it
+  const cooldownEnd = result.retryAt ? new Date(result.retryAt) : null;
   const cooldownActive = cooldownEnd && cooldownEnd > new Date();
   
+  const formatTheta = (value: number) => (value >= 0 ? '+' : '') + value.toFixed(2);
+
   const formatCooldownTime = () => {
     if (!cooldownEnd) return '';
     
@@ -65,13 +61,18 @@ const TestResults = ({
       </CardHeader>
       
       <CardContent className="space-y-6">
-        {/* Score display */}
+        {/* Score display: the percentile of the ability estimate, with its
+            95% interval shaded over the bar */}
         <div className="relative pt-5">
           <div className="flex justify-between mb-2">
             <span className="text-sm font-medium">Your Score</span>
-            <span className="text-sm font-medium">{score}%</span>
+            <span className="text-sm font-medium">{score} / 100</span>
           </div>
           <Progress value={score} className="h-3" />
+          <div 
+            className="absolute bottom-0 h-3 rounded bg-blue-300/40 border-x border-blue-500" 
+            style={{ left: `${ability.scoreLower}%`, width: `${ability.scoreUpper - ability.scoreLower}%` }}
+          />
           {/* Passing score marker */}
           <div 
             className="absolute bottom-0 w-0.5 h-3 bg-red-500" 
@@ -81,10 +82,35 @@ const TestResults = ({
             className="absolute -bottom-5 text-xs text-red-500" 
             style={{ left: `${passingScore}%`, transform: 'translateX(-50%)' }}
           >
-            Pass ({passingScore}%)
+            Pass ({passingScore})
           </div>
         </div>
         
+        {/* Ability estimate */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-4 text-sm">
+          <div className="border rounded-lg p-3">
+            <p className="text-muted-foreground">Ability estimate</p>
+            <p className="text-lg font-semibold">θ {formatTheta(ability.theta)}</p>
+            <p className="text-xs text-muted-foreground">± {ability.standardError.toFixed(2)} standard error</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-muted-foreground">95% confidence interval</p>
+            <p className="text-lg font-semibold">{formatTheta(ability.lower)} to {formatTheta(ability.upper)}</p>
+            <p className="text-xs text-muted-foreground">Score {ability.scoreLower}–{ability.scoreUpper}</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-muted-foreground">{result.mode === 'adaptive' ? "Adaptive test" : "Answers"}</p>
+            <p className="text-lg font-semibold">{result.correctCount} of {result.questionCount} correct</p>
+            <p className="text-xs text-muted-foreground">
+              {result.mode === 'adaptive' ? "Questions were matched to your level" : "Scored by each question's difficulty"}
+            </p>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Your score is the share of test takers your estimated ability is above. 
+          An ability of 0 is average; each point is one standard deviation.
+        </p>
+        
         {/* Passed view */}
         {isPassed && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center">
@@ -112,7 +138,7 @@ const TestResults = ({
               <div>
                 <h3 className="text-md font-bold text-red-800 mb-1">Test Failed</h3>
                 <p className="text-sm text-red-700 mb-2">
-                  You need to score at least {passingScore}% to receive a certificate.
+                  You need a score of at least {passingScore} to receive a certificate.
                 </p>
                 
                 {cooldownActive ? (
@@ -145,12 +171,14 @@ const TestResults = ({
           {showDetails ? "Hide" : "Show"} Detailed Results
         </Button>
         
-        {/* Answers detail */}
+        {/* Answers detail. Correct options are not revealed so the question
+            bank stays usable for retakes. */}
         {showDetails && (
           <div className="border rounded-lg divide-y">
             {questions.map((question, idx) => {
-              const userAnswer = userAnswers[idx] || "Not answered";
-              const isCorrect = userAnswer === question.correctAnswer;
+              const graded = result.review.find(item => item.questionId === question.id);
+              const userAnswer = graded?.selectedIndex != null ? question.options[graded.selectedIndex] : "Not answered";
+              const isCorrect = !!graded?.correct;
               
               return (
                 <div key={idx} className={`p-4 ${isCorrect ? 'bg-green-50' : 'bg-red-50'}`}>
@@ -163,12 +191,12 @@ const TestResults = ({
                       </span>
                     </div>
                     
-                    {!isCorrect && (
-                      <div className="flex justify-between">
-                        <span className="text-gray-700">Correct answer:</span>
-                        <span className="text-green-700 font-medium">{question.correctAnswer}</span>
-                      </div>
-                    )}
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">Result:</span>
+                      <span className={isCorrect ? 'text-green-700 font-medium' : 'text-red-700'}>
+                        {isCorrect ? "Correct" : "Incorrect"}
+                      </span>
+                    </div>
                   </div>
                 </div>
               );
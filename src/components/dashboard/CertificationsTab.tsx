@@ -6,7 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Award, BookOpen, AlertTriangle, Loader2 } from "lucide-react";
 import CertificateCard from "@/components/certification/CertificateCard";
 import { Certificate } from "@/types/certification";
-import { getUserCertificates, updateCertificateVisibility } from "@/utils/blockchain";
+import { updateCertificateVisibility } from "@/utils/blockchain";
+import { fetchIssuedCertificates, setCertificateVisibility } from "@/utils/certificationExams";
 import { Link } from 'react-router-dom';
 
 const CertificationsTab = () => {
@@ -15,10 +16,10 @@ const CertificationsTab = () => {
   
   useEffect(() => {
     // Fetch user certificates
-    const fetchCertificates = () => {
+    const fetchCertificates = async () => {
       setIsLoading(true);
       try {
-        const userCerts = getUserCertificates();
+        const userCerts = await fetchIssuedCertificates();
         setCertificates(userCerts);
       } catch (error) {
         console.error("Error fetching certificates:", error);
@@ -30,7 +31,14 @@ const CertificationsTab = () => {
     fetchCertificates();
   }, []);
   
-  const handleUpdateVisibility = (certificateId: string, isPublic: boolean) => {
+  const handleUpdateVisibility = async (certificateId: string, isPublic: boolean) => {
+    try {
+      await setCertificateVisibility(certificateId, isPublic);
+    } catch (error) {
+      console.error("Error updating certificate visibility:", error);
+      return;
+    }
+    // Keep the locally cached copy in step
     updateCertificateVisibility(certificateId, isPublic);
     
     // Update local state
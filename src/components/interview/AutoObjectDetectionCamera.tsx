@@ -7,7 +7,8 @@ import { Loader2, Camera, Scan } from 'lucide-react';
 import { drawRect } from '../../utils/objectDetectionUtils';
 
 interface AutoObjectDetectionCameraProps {
-  onDetectionChange?: (detections: any[]) => void;
+  // The video element is passed along so callers can grab the analysed frame
+  onDetectionChange?: (detections: any[], video?: HTMLVideoElement) => void;
   embedded?: boolean; // when true, render minimal view without Card/header/status
 }
 
@@ -58,7 +59,7 @@ export const AutoObjectDetectionCamera: React.FC<AutoObjectDetectionCameraProps>
 
         const predictions = await net.detect(video);
         setDetections(predictions);
-        if (onDetectionChange) onDetectionChange(predictions);
+        if (onDetectionChange) onDetectionChange(predictions, video);
 
         const ctx = canvasRef.current?.getContext('2d');
         if (ctx) {
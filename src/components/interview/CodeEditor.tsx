@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Code, 
   Play, 
@@ -23,24 +24,44 @@ import {
   Settings,
   Terminal
 } from 'lucide-react';
+import {
+  runInSandbox,
+  SANDBOX_LANGUAGES,
+  SANDBOX_LANGUAGE_LABELS,
+  type SandboxLanguage,
+  type SandboxStatus
+} from '@/utils/codeSandbox';
 
 interface CodeChallenge {
   id: string;
   title: string;
   description: string;
   difficulty: 'easy' | 'medium' | 'hard';
-  language: string;
-  initialCode: string;
+  initialCode: Record<SandboxLanguage, string>;
+  // Function each test case calls, per language
+  entryPoint: Record<SandboxLanguage, string>;
   testCases: TestCase[];
   timeLimit: number; // in minutes
 }
 
 interface TestCase {
-  input: string;
-  expectedOutput: string;
+  input: string; // JSON of the argument
+  expectedOutput: string; // JSON of the return value
   description: string;
 }
 
+const STATUS_LABELS: Record<SandboxStatus, string> = {
+  ok: 'Finished',
+  error: 'Error',
+  timeout: 'Time limit exceeded',
+  'memory-limit': 'Memory limit exceeded',
+  'output-limit': 'Output limit exceeded'
+};
+
+// JavaScript keeps the original key so code saved before other languages existed still loads
+const savedCodeKey = (challengeId: string, language: SandboxLanguage) =>
+  language === 'javascript' ? `code_${challengeId}` : `code_${challengeId}_${language}`;
+
 interface CodeEditorProps {
   onCodeReview?: (code: string, analysis: string) => void;
   isInterviewActive?: boolean;
@@ -50,9 +71,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   onCodeReview, 
   isInterviewActive = false 
 }) => {
-  const [selectedLanguage, setSelectedLanguage] = useState('javascript');
+  const [selectedLanguage, setSelectedLanguage] = useState<SandboxLanguage>('javascript');
   const [code, setCode] = useState('');
   const [output, setOutput] = useState('');
+  const [errorOutput, setErrorOutput] = useState('');
+  const [runStatus, setRunStatus] = useState<SandboxStatus | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [executionTime, setExecutionTime] = useState(0);
@@ -69,9 +92,9 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
       title: 'Reverse String',
       description: 'Write a function that reverses a string without using built-in reverse methods.',
       difficulty: 'easy',
-      language: 'javascript',
       timeLimit: 10,
-      initialCode: `function reverseString(str) {
+      initialCode: {
+        javascript: `function reverseString(str) {
   // Your code here
   return str;
 }
@@ -79,6 +102,23 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
 // Test your function
 console.log(reverseString("hello")); // Should output: "olleh"
 console.log(reverseString("world")); // Should output: "dlrow"`,
+        typescript: `function reverseString(str: string): string {
+  // Your code here
+  return str;
+}
+
+// Test your function
+console.log(reverseString("hello")); // Should output: "olleh"
+console.log(reverseString("world")); // Should output: "dlrow"`,
+        python: `def reverse_string(s):
+    # Your code here
+    return s
+
+# Test your function
+print(reverse_string("hello"))  # Should output: olleh
+print(reverse_string("world"))  # Should output: dlrow`
+      },
+      entryPoint: { javascript: 'reverseString', typescript: 'reverseString', python: 'reverse_string' },
       testCases: [
         { input: '"hello"', expectedOutput: '"olleh"', description: 'Basic string reversal' },
         { input: '"world"', expectedOutput: '"dlrow"', description: 'Another basic test' },
@@ -90,9 +130,17 @@ console.log(reverseString("world")); // Should output: "dlrow"`,
       title: 'Find Missing Number',
       description: 'Given an array containing n distinct numbers taken from 0 to n, find the missing number.',
       difficulty: 'medium',
-      language: 'javascript',
       timeLimit: 15,
-      initialCode: `function findMissingNumber(nums) {
+      initialCode: {
+        javascript: `function findMissingNumber(nums) {
+  // Your code here
+  return 0;
+}
+
+// Test your function
+console.log(findMissingNumber([3, 0, 1])); // Should output: 2
+console.log(findMissingNumber([9, 6, 4, 2, 3, 5, 7, 0, 1])); // Should output: 8`,
+        typescript: `function findMissingNumber(nums: number[]): number {
   // Your code here
   return 0;
 }
@@ -100,6 +148,15 @@ console.log(reverseString("world")); // Should output: "dlrow"`,
 // Test your function
 console.log(findMissingNumber([3, 0, 1])); // Should output: 2
 console.log(findMissingNumber([9, 6, 4, 2, 3, 5, 7, 0, 1])); // Should output: 8`,
+        python: `def find_missing_number(nums):
+    # Your code here
+    return 0
+
+# Test your function
+print(find_missing_number([3, 0, 1]))  # Should output: 2
+print(find_missing_number([9, 6, 4, 2, 3, 5, 7, 0, 1]))  # Should output: 8`
+      },
+      entryPoint: { javascript: 'findMissingNumber', typescript: 'findMissingNumber', python: 'find_missing_number' },
       testCases: [
         { input: '[3, 0, 1]', expectedOutput: '2', description: 'Missing number is 2' },
         { input: '[9, 6, 4, 2, 3, 5, 7, 0, 1]', expectedOutput: '8', description: 'Missing number is 8' },
@@ -111,9 +168,18 @@ console.log(findMissingNumber([9, 6, 4, 2, 3, 5, 7, 0, 1])); // Should output: 8
       title: 'Valid Parentheses',
       description: 'Given a string containing just the characters "(", ")", "{", "}", "[" and "]", determine if the input string is valid.',
       difficulty: 'hard',
-      language: 'javascript',
       timeLimit: 20,
-      initialCode: `function isValid(s) {
+      initialCode: {
+        javascript: `function isValid(s) {
+  // Your code here
+  return false;
+}
+
+// Test your function
+console.log(isValid("()")); // Should output: true
+console.log(isValid("()[]{}")); // Should output: true
+console.log(isValid("(]")); // Should output: false`,
+        typescript: `function isValid(s: string): boolean {
   // Your code here
   return false;
 }
@@ -122,6 +188,16 @@ console.log(findMissingNumber([9, 6, 4, 2, 3, 5, 7, 0, 1])); // Should output: 8
 console.log(isValid("()")); // Should output: true
 console.log(isValid("()[]{}")); // Should output: true
 console.log(isValid("(]")); // Should output: false`,
+        python: `def is_valid(s):
+    # Your code here
+    return False
+
+# Test your function
+print(is_valid("()"))  # Should output: True
+print(is_valid("()[]{}"))  # Should output: True
+print(is_valid("(]"))  # Should output: False`
+      },
+      entryPoint: { javascript: 'isValid', typescript: 'isValid', python: 'is_valid' },
       testCases: [
         { input: '"()"', expectedOutput: 'true', description: 'Simple parentheses' },
         { input: '"()[]{}"', expectedOutput: 'true', description: 'Mixed brackets' },
@@ -133,112 +209,80 @@ console.log(isValid("(]")); // Should output: false`,
 
   useEffect(() => {
     if (selectedChallenge) {
-      setCode(selectedChallenge.initialCode);
+      setCode(selectedChallenge.initialCode[selectedLanguage]);
       setOutput('');
+      setErrorOutput('');
+      setRunStatus(null);
       setTestResults([]);
       setExecutionTime(0);
     }
-  }, [selectedChallenge]);
+  }, [selectedChallenge, selectedLanguage]);
 
   // Auto-save functionality
   useEffect(() => {
     if (autoSave && code) {
       const timeoutId = setTimeout(() => {
-        localStorage.setItem(`code_${selectedChallenge?.id || 'default'}`, code);
+        localStorage.setItem(savedCodeKey(selectedChallenge?.id || 'default', selectedLanguage), code);
       }, 1000);
       return () => clearTimeout(timeoutId);
     }
-  }, [code, autoSave, selectedChallenge]);
+  }, [code, autoSave, selectedChallenge, selectedLanguage]);
 
   // Load saved code
   useEffect(() => {
     if (selectedChallenge) {
-      const savedCode = localStorage.getItem(`code_${selectedChallenge.id}`);
+      const savedCode = localStorage.getItem(savedCodeKey(selectedChallenge.id, selectedLanguage));
       if (savedCode) {
         setCode(savedCode);
       }
     }
-  }, [selectedChallenge]);
+  }, [selectedChallenge, selectedLanguage]);
 
   const runCode = async () => {
     if (!code.trim()) return;
 
     setIsRunning(true);
     setShowOutput(true);
-    const startTime = Date.now();
+    setTestResults([]);
 
     try {
-      // Create a safe execution environment
-      const safeEval = new Function(`
-        const console = {
-          log: (...args) => {
-            window.outputLog.push(args.map(arg => 
-              typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-            ).join(' '));
-          }
-        };
-        ${code}
-      `);
-
-      // Capture console output
-      (window as any).outputLog = [];
-      safeEval();
-      const logs = (window as any).outputLog;
-      setOutput(logs.join('\n'));
-      setExecutionTime(Date.now() - startTime);
-
-      // Run test cases if available
+      // Runs in a Web Worker with time, memory and output limits
+      const result = await runInSandbox({
+        language: selectedLanguage,
+        code,
+        entryPoint: selectedChallenge?.entryPoint[selectedLanguage],
+        tests: selectedChallenge?.testCases.map(testCase => ({
+          args: [JSON.parse(testCase.input)],
+          expected: testCase.expectedOutput
+        }))
+      });
+
+      setOutput(result.stdout.trimEnd());
+      setErrorOutput(
+        [result.stderr.trimEnd(), result.error && `${STATUS_LABELS[result.status]}: ${result.error}`]
+          .filter(Boolean)
+          .join('\n')
+      );
+      setRunStatus(result.status);
+      setExecutionTime(result.durationMs);
+
       if (selectedChallenge) {
-        await runTestCases();
+        setTestResults(selectedChallenge.testCases.map((testCase, index) => {
+          const testResult = result.tests.find(test => test.index === index);
+          return {
+            testCase,
+            passed: testResult?.passed ?? false,
+            actual: testResult ? (testResult.error ? 'Error' : testResult.actual) : 'Not run',
+            expected: testCase.expectedOutput,
+            error: testResult?.error
+          };
+        }));
       }
-    } catch (error) {
-      setOutput(`Error: ${error.message}`);
     } finally {
       setIsRunning(false);
     }
   };
 
-  const runTestCases = async () => {
-    if (!selectedChallenge) return;
-
-    const results = [];
-    for (const testCase of selectedChallenge.testCases) {
-      try {
-        // Create test function
-        const testFunction = new Function(`
-          ${code}
-          return ${testCase.input.includes('[') ? 
-            `findMissingNumber(${testCase.input})` : 
-            testCase.input.includes('"') ? 
-              `reverseString(${testCase.input})` :
-              `isValid(${testCase.input})`
-          };
-        `);
-
-        const result = testFunction();
-        const expected = testCase.expectedOutput.includes('"') ? 
-          testCase.expectedOutput.slice(1, -1) : 
-          testCase.expectedOutput;
-
-        results.push({
-          testCase,
-          passed: String(result) === expected,
-          actual: result,
-          expected: expected
-        });
-      } catch (error) {
-        results.push({
-          testCase,
-          passed: false,
-          actual: 'Error',
-          expected: testCase.expectedOutput,
-          error: error.message
-        });
-      }
-    }
-    setTestResults(results);
-  };
-
   const analyzeCode = async () => {
     if (!code.trim() || !onCodeReview) return;
 
@@ -276,7 +320,7 @@ console.log(isValid("(]")); // Should output: false`,
 
   const resetCode = () => {
     if (selectedChallenge) {
-      setCode(selectedChallenge.initialCode);
+      setCode(selectedChallenge.initialCode[selectedLanguage]);
     }
   };
 
@@ -314,7 +358,7 @@ console.log(isValid("(]")); // Should output: false`,
                           {challenge.difficulty}
                         </Badge>
                         <Badge variant="outline">
-                          {challenge.language}
+                          {SANDBOX_LANGUAGES.map(language => SANDBOX_LANGUAGE_LABELS[language]).join(' / ')}
                         </Badge>
                       </div>
                       <p className="text-sm text-gray-600 mb-2">{challenge.description}</p>
@@ -344,6 +388,22 @@ console.log(isValid("(]")); // Should output: false`,
                     <p className="text-sm text-gray-600">{selectedChallenge.description}</p>
                   </div>
                   <div className="flex items-center gap-2">
+                    <Select
+                      value={selectedLanguage}
+                      onValueChange={(value) => setSelectedLanguage(value as SandboxLanguage)}
+                      disabled={isRunning}
+                    >
+                      <SelectTrigger className="w-36 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SANDBOX_LANGUAGES.map(language => (
+                          <SelectItem key={language} value={language}>
+                            {SANDBOX_LANGUAGE_LABELS[language]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <Button
                       variant="outline"
                       size="sm"
@@ -402,7 +462,9 @@ console.log(isValid("(]")); // Should output: false`,
                     ) : (
                       <Play className="h-4 w-4" />
                     )}
-                    {isRunning ? 'Running...' : 'Run Code'}
+                    {isRunning
+                      ? selectedLanguage === 'python' ? 'Running (first run loads Python)...' : 'Running...'
+                      : 'Run Code'}
                   </Button>
                   
                   <Button
@@ -434,21 +496,37 @@ console.log(isValid("(]")); // Should output: false`,
               <>
                 <div className="flex items-center justify-between">
                   <h3 className="font-semibold">Output & Results</h3>
-                  {executionTime > 0 && (
-                    <span className="text-sm text-gray-500">
-                      Execution time: {executionTime}ms
-                    </span>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {runStatus && (
+                      <Badge variant={runStatus === 'ok' ? 'outline' : 'destructive'}>
+                        {STATUS_LABELS[runStatus]}
+                      </Badge>
+                    )}
+                    {executionTime > 0 && (
+                      <span className="text-sm text-gray-500">
+                        Execution time: {executionTime}ms
+                      </span>
+                    )}
+                  </div>
                 </div>
 
                 <div className="space-y-4">
                   <div>
                     <h4 className="font-medium mb-2">Console Output</h4>
-                    <div className="bg-gray-900 text-green-400 p-4 rounded-lg font-mono text-sm h-32 overflow-auto">
+                    <div className="bg-gray-900 text-green-400 p-4 rounded-lg font-mono text-sm h-32 overflow-auto whitespace-pre-wrap">
                       {output || 'No output yet. Run your code to see results.'}
                     </div>
                   </div>
 
+                  {errorOutput && (
+                    <div>
+                      <h4 className="font-medium mb-2">Errors</h4>
+                      <div className="bg-gray-900 text-red-400 p-4 rounded-lg font-mono text-sm max-h-32 overflow-auto whitespace-pre-wrap">
+                        {errorOutput}
+                      </div>
+                    </div>
+                  )}
+
                   {testResults.length > 0 && (
                     <div>
                       <h4 className="font-medium mb-2">Test Results</h4>
@@ -12,12 +12,16 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Mic, MicOff, Play, Clock, User, Briefcase, MessageSquare, CheckCircle, Bot, Volume2, VolumeX, SkipForward, StopCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { callGeminiAI } from '@/utils/ai/geminiService';
+import { streamUnifiedAI } from '@/utils/ai/unifiedAIService';
+import { chunkSentences } from '@/utils/ai/sentenceChunker';
+import { EnterpriseSpeechManager, DEFAULT_SPEECH_CONFIG } from '@/utils/enterpriseSpeechSystem';
 
 interface InterviewMessage {
   role: 'hr' | 'candidate';
   content: string;
   timestamp: Date;
+  provider?: string;
+  latencyMs?: number;
 }
 
 const GeminiInterviewSimulation: React.FC = () => {
@@ -28,6 +32,8 @@ const GeminiInterviewSimulation: React.FC = () => {
   const [isInterviewComplete, setIsInterviewComplete] = useState(false);
   const [messages, setMessages] = useState<InterviewMessage[]>([]);
   const [currentResponse, setCurrentResponse] = useState('');
+  // Interviewer's turn as it streams in
+  const [streamingResponse, setStreamingResponse] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
@@ -40,6 +46,17 @@ const GeminiInterviewSimulation: React.FC = () => {
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const speechManagerRef = useRef<EnterpriseSpeechManager | null>(null);
+  const aiStreamAbortRef = useRef<AbortController | null>(null);
+
+  // Text-to-speech for the interviewer; stop talking when leaving the page
+  useEffect(() => {
+    speechManagerRef.current = new EnterpriseSpeechManager(DEFAULT_SPEECH_CONFIG);
+    return () => {
+      aiStreamAbortRef.current?.abort();
+      speechManagerRef.current?.stopSpeaking();
+    };
+  }, []);
 
   // Timer effect for elapsed time and time remaining
   useEffect(() => {
@@ -100,7 +117,7 @@ const GeminiInterviewSimulation: React.FC = () => {
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingResponse]);
 
   const scrollToBottom = () => {
     if (messagesEndRef.current) {
@@ -151,6 +168,61 @@ Respond naturally as an HR interviewer would.`;
     }
   };
 
+  // Stream the interviewer's turn: tokens show as they arrive and finished
+  // sentences are spoken while the rest is still being generated. Null when
+  // the interview was reset or left mid-turn.
+  const streamInterviewerTurn = async (prompt: string): Promise<InterviewMessage | null> => {
+    const abortController = new AbortController();
+    aiStreamAbortRef.current = abortController;
+    let content = '';
+
+    try {
+      const response = await streamUnifiedAI(prompt, 'gemini', {
+        feature: 'interview',
+        signal: abortController.signal
+      });
+      console.log(`Interviewer turn streaming from ${response.provider} after ${response.latencyMs}ms`);
+
+      async function* trackTokens() {
+        for await (const token of response.tokens) {
+          content += token;
+          setStreamingResponse(content);
+          yield token;
+        }
+      }
+      if (!isMuted && speechManagerRef.current) {
+        await speechManagerRef.current.speakStream(chunkSentences(trackTokens()), {}, abortController.signal);
+      } else {
+        const tokens = trackTokens();
+        while (!(await tokens.next()).done) { /* text only */ }
+      }
+      if (abortController.signal.aborted) return null;
+
+      return {
+        role: 'hr',
+        content: content.trim(),
+        timestamp: new Date(),
+        provider: response.provider,
+        latencyMs: response.latencyMs
+      };
+    } catch (error) {
+      if (abortController.signal.aborted) return null;
+      throw error;
+    } finally {
+      if (aiStreamAbortRef.current === abortController) {
+        aiStreamAbortRef.current = null;
+      }
+      setStreamingResponse('');
+    }
+  };
+
+  const toggleMute = () => {
+    if (!isMuted) {
+      speechManagerRef.current?.stopSpeaking();
+    }
+    setIsMuted(!isMuted);
+  };
+
   const startInterview = async () => {
     if (!candidateName.trim() || !jobTitle) {
       toast({
@@ -167,22 +239,16 @@ Respond naturally as an HR interviewer would.`;
       const prompt = generateHRPrompt(true);
       console.log('Generated prompt:', prompt);
       
-      const response = await callGeminiAI(prompt);
-      console.log('Received response:', response);
-      
-      const hrResponse = response.text();
-      console.log('HR response text:', hrResponse);
-      
-      const firstMessage: InterviewMessage = {
-        role: 'hr',
-        content: hrResponse,
-        timestamp: new Date()
-      };
-      
-      setMessages([firstMessage]);
+      // Open the interview screen right away so the greeting streams into it
       setIsInterviewStarted(true);
       setInterviewStartTime(new Date());
       setTimeRemaining(duration * 60);
+
+      const firstMessage = await streamInterviewerTurn(prompt);
+      if (!firstMessage) return;
+      console.log('HR response text:', firstMessage.content);
+      
+      setMessages([firstMessage]);
       setQuestionCount(1);
       
       toast({
@@ -191,6 +257,8 @@ Respond naturally as an HR interviewer would.`;
       });
     } catch (error) {
       console.error('Error starting interview:', error);
+      setIsInterviewStarted(false);
+      setInterviewStartTime(null);
       toast({
         title: "Error",
         description: `Failed to start the interview: ${error.message || 'Unknown error'}`,
@@ -223,15 +291,9 @@ Respond naturally as an HR interviewer would.`;
 
     try {
       const prompt = generateHRPrompt(false, updatedMessages);
-      const response = await callGeminiAI(prompt);
-      const hrResponse = response.text();
-      
-      const hrMessage: InterviewMessage = {
-        role: 'hr',
-        content: hrResponse,
-        timestamp: new Date()
-      };
-      
+      const hrMessage = await streamInterviewerTurn(prompt);
+      if (!hrMessage) return;
+
       setMessages(prev => [...prev, hrMessage]);
       setQuestionCount(prev => prev + 1);
     } catch (error) {
@@ -275,15 +337,9 @@ Respond naturally as an HR interviewer would.`;
 
 Keep it brief and natural.`;
       
-      const response = await callGeminiAI(wrapUpPrompt);
-      const hrResponse = response.text();
-      
-      const finalMessage: InterviewMessage = {
-        role: 'hr',
-        content: hrResponse,
-        timestamp: new Date()
-      };
-      
+      const finalMessage = await streamInterviewerTurn(wrapUpPrompt);
+      if (!finalMessage) return;
+
       setMessages(prev => [...prev, finalMessage]);
       setIsInterviewComplete(true);
       
@@ -299,6 +355,9 @@ Keep it brief and natural.`;
   };
 
   const resetInterview = () => {
+    aiStreamAbortRef.current?.abort();
+    speechManagerRef.current?.stopSpeaking();
+    setIsLoading(false);
     setIsInterviewStarted(false);
     setIsInterviewComplete(false);
     setMessages([]);
@@ -419,7 +478,7 @@ Keep it brief and natural.`;
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setIsMuted(!isMuted)}
+                  onClick={toggleMute}
                 >
                   {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
                 </Button>
@@ -452,6 +511,7 @@ Keep it brief and natural.`;
                   }`}>
                     <div className="text-xs text-muted-foreground mb-1">
                       {message.role === 'hr' ? 'HR Interviewer' : 'You'} • {message.timestamp.toLocaleTimeString()}
+                      {message.provider && ` • via ${message.provider} (${message.latencyMs}ms)`}
                     </div>
                     <p className="text-sm">{message.content}</p>
                   </div>
@@ -462,11 +522,15 @@ Keep it brief and natural.`;
               <div className="flex justify-start">
                 <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
                   <div className="text-xs text-muted-foreground mb-1">HR Interviewer</div>
-                  <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></div>
-                    <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse delay-100"></div>
-                    <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse delay-200"></div>
-                  </div>
+                  {streamingResponse ? (
+                    <p className="text-sm">{streamingResponse}</p>
+                  ) : (
+                    <div className="flex space-x-1">
+                      <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></div>
+                      <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse delay-100"></div>
+                      <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse delay-200"></div>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -600,7 +664,7 @@ Keep it brief and natural.`;
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setIsMuted(!isMuted)}
+                onClick={toggleMute}
                 className="w-full"
               >
                 {isMuted ? (
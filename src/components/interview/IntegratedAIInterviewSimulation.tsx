@@ -9,7 +9,7 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Mic, MicOff, Play, Clock, User, Bot, Volume2, VolumeX, SkipForward, StopCircle, Camera, Hand, Eye, Activity } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { callGeminiAI } from '@/utils/ai/geminiService';
+import { callUnifiedAI } from '@/utils/ai/unifiedAIService';
 import { useCamera } from "@/hooks/useCamera";
 import { useMediapipe } from "@/hooks/useMediaPipe";
 import { useMetrics } from "@/context/MetricsContext";
@@ -259,7 +259,7 @@ Respond naturally as an HR interviewer would.`;
     setIsLoading(true);
     try {
       const prompt = generateHRPrompt(true);
-      const response = await callGeminiAI(prompt);
+      const response = await callUnifiedAI(prompt, 'gemini', { feature: 'interview' });
       const hrResponse = response.text();
       
       const firstMessage: InterviewMessage = {
@@ -321,7 +321,7 @@ Respond naturally as an HR interviewer would.`;
 
     try {
       const prompt = generateHRPrompt(false, updatedMessages);
-      const response = await callGeminiAI(prompt);
+      const response = await callUnifiedAI(prompt, 'gemini', { feature: 'interview' });
       const hrResponse = response.text();
       
       const hrMessage: InterviewMessage = {
@@ -406,7 +406,7 @@ Respond naturally as an HR interviewer would.`;
 
 Keep it brief and natural.`;
       
-      const response = await callGeminiAI(wrapUpPrompt);
+      const response = await callUnifiedAI(wrapUpPrompt, 'gemini', { feature: 'interview' });
       const hrResponse = response.text();
       
       const finalMessage: InterviewMessage = {
@@ -11,7 +11,8 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Mic, MicOff, Play, Clock, User, Briefcase, Bot, Volume2, VolumeX, StopCircle, Camera, Send, Scan, BarChart3, Target, History, Square, FileText, Code, Eye, Brain, Sparkles, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { callUnifiedAI, type AIBackend } from '@/utils/ai/unifiedAIService';
+import { callUnifiedAI, streamUnifiedAI, type AIBackend } from '@/utils/ai/unifiedAIService';
+import { chunkSentences } from '@/utils/ai/sentenceChunker';
 import { EnterpriseSpeechManager, DEFAULT_SPEECH_CONFIG } from '@/utils/enterpriseSpeechSystem';
 import ObservationCamera, { ObservationMetrics } from './ObservationCamera';
 import CleanTrackingOverlay from './CleanTrackingOverlay';
@@ -33,6 +34,9 @@ import { InterviewUpload } from './InterviewUpload';
 import AvatarStage from './avatar3d/AvatarStage';
 import NewTalkingHeadAvatar from './avatar3d/NewTalkingHeadAvatar';
 import { createDetectionManager, type DetectionSnapshot } from '@/utils/unifiedDetectionManager';
+import { DEFAULT_PROCTORING_POLICY, parseProctoringPolicy, type ProctoringPolicy } from '@/utils/proctoringPolicy';
+import { supabase } from '@/integrations/supabase/client';
+import { captureSnapshot, createEvidenceLog, type EvidenceDetection } from '@/utils/proctoringEvidence';
 
 /**
  * IMPROVEMENTS MADE TO PHONE DETECTION SYSTEM:
@@ -74,10 +78,20 @@ const DEV_TTS_OPTIONS = {
   volume: 0.9
 };
 
+// Words the candidate must say over Ava before her answer is cut off
+const BARGE_IN_MIN_WORDS = 2;
+
+// coco-ssd classes that count as a second screen or reading material
+const SECOND_SCREEN_CLASSES = ['tv', 'laptop', 'monitor'];
+const BOOK_CLASSES = ['book'];
+
 interface Message {
   role: 'hr' | 'candidate';
   content: string;
   timestamp: Date;
+  // AI provider that answered and how long it took (hr messages only)
+  provider?: string;
+  latencyMs?: number;
 }
 
 const IntegratedAIInterviewWithTracking: React.FC = () => {
@@ -145,6 +159,9 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
   const speechManagerRef = useRef<EnterpriseSpeechManager | null>(null);
   const autoSubmitTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const conversationHistoryRef = useRef<string>('');
+  // Set while Ava's answer is streaming/being spoken; aborting it is a barge-in
+  const aiStreamAbortRef = useRef<AbortController | null>(null);
+  const [streamingResponse, setStreamingResponse] = useState('');
   // Enhanced speech recognition handling
   const [confirmedResponse, setConfirmedResponse] = useState('');
   const [interimResponse, setInterimResponse] = useState('');
@@ -158,6 +175,18 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
 
   // Detection manager (scratch logic)
   const detectionManagerRef = useRef<ReturnType<typeof createDetectionManager> | null>(null);
+  // Latest value of every proctoring signal; each source updates its own fields
+  const proctoringSignalsRef = useRef<Omit<DetectionSnapshot, 'now'>>({
+    isInterviewStarted: false,
+    phoneDetected: false,
+    peopleCount: 1
+  });
+  const [proctoringPolicy, setProctoringPolicy] = useState<ProctoringPolicy>(DEFAULT_PROCTORING_POLICY);
+  const [linkedJob, setLinkedJob] = useState<{ id: string; title: string } | null>(null);
+  // Hash-chained evidence for every strike: the detections and frame behind the decision
+  const evidenceLogRef = useRef<ReturnType<typeof createEvidenceLog> | null>(null);
+  const lastDetectionsRef = useRef<EvidenceDetection[]>([]);
+  const detectionVideoRef = useRef<HTMLVideoElement | null>(null);
 
   // Response time tracking for Live Performance
   const [lastResponseTime, setLastResponseTime] = useState<Date | null>(null);
@@ -294,9 +323,32 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
     }
   };
 
-  // Cleanup timeout on unmount
+  // Interviews opened from a job (?jobId=) use that job's proctoring policy
+  useEffect(() => {
+    const jobId = new URLSearchParams(window.location.search).get('jobId');
+    if (!jobId) return;
+
+    const loadJobPolicy = async () => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('id, title, proctoring_policy')
+        .eq('id', jobId)
+        .maybeSingle();
+      if (error || !data) {
+        console.error('❌ Failed to load job proctoring policy:', error);
+        return;
+      }
+      setLinkedJob({ id: data.id, title: data.title });
+      setJobTitle(data.title);
+      setProctoringPolicy(parseProctoringPolicy(data.proctoring_policy));
+      console.log('🛡️ Using proctoring policy from job:', data.title);
+    };
+
+    loadJobPolicy();
+  }, []);
+
+  // (Re)create the detection manager whenever the policy changes
   useEffect(() => {
-    // init detection manager
     detectionManagerRef.current = createDetectionManager(
       {
         onWarning: (type, nextCount, message) => {
@@ -306,14 +358,12 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
           if (type === 'phone') {
             setPhoneWarningCount(nextCount);
             setIsPhoneWarningActive(true);
-          } else {
+          } else if (type === 'multiplePeople') {
             setMultiplePeopleWarningCount(nextCount);
             setIsMultiplePeopleWarningActive(true);
           }
           // speak
           speechManagerRef.current?.speak(message.replace('⚠️','').trim(), { ...DEV_TTS_OPTIONS, voice: DEV_TTS_OPTIONS.voice });
-          // global pause
-          startDetectionPause(5000);
           // auto-hide overlay after 5s
           const t = setTimeout(() => {
             setIsWarningActive(false);
@@ -326,13 +376,54 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
         onResume: () => {
           // nothing special; detections resume automatically
         },
+        onPause: (pauseMs) => {
+          startDetectionPause(pauseMs);
+        },
+        onFlag: (type, count, message) => {
+          toast({
+            title: "Flagged for Review",
+            description: message,
+            variant: "destructive"
+          });
+        },
+        onViolation: (event) => {
+          console.log('🛡️ Proctoring violation:', event);
+          const evidence = evidenceLogRef.current?.append(
+            event,
+            lastDetectionsRef.current,
+            captureSnapshot(detectionVideoRef.current)
+          );
+          interviewDataStorage.addProctoringEvent(event, evidence?.hash);
+        },
         onTerminate: (type, count, message) => {
           terminateInterview(message);
         }
       },
-      { pauseMs: 5000 }
+      { policy: proctoringPolicy }
     );
+  }, [proctoringPolicy]);
+
+  // Tab switches are reported by the browser rather than the cameras
+  useEffect(() => {
+    proctoringSignalsRef.current.isInterviewStarted = isInterviewStarted;
+    if (!isInterviewStarted) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        runProctoringCheck({ tabHidden: true });
+      } else {
+        // Detection frames are throttled while hidden, so settle the grace
+        // window for the whole absence before clearing the signal
+        runProctoringCheck({ tabHidden: true });
+        runProctoringCheck({ tabHidden: false });
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [isInterviewStarted]);
 
+  // Cleanup timeout on unmount
+  useEffect(() => {
     return () => {
       if (speechTimeout) {
         clearTimeout(speechTimeout);
@@ -565,6 +656,7 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
 
       // Update live performance based on behavior
       handleBehaviorAnalysis(behaviorData);
+      runProctoringCheck({ lookingAway: !behaviorData.eyeContact });
     }
   }, [observationMetrics, sessionId]);
 
@@ -623,6 +715,12 @@ const IntegratedAIInterviewWithTracking: React.FC = () => {
     speechManagerRef.current.on('interim', (result: any) => {
       console.log('🎤 Interim transcript:', result.transcript);
       setSpeechRecognitionWorking(true);
+      // Candidate started talking over Ava: stop generating and speaking
+      const spokenWords = (result.transcript || '').trim().split(/\s+/).filter(Boolean).length;
+      if (aiStreamAbortRef.current && spokenWords >= BARGE_IN_MIN_WORDS) {
+        console.log('🛑 Barge-in detected, interrupting Ava');
+        aiStreamAbortRef.current.abort();
+      }
       handleContinuousSpeech(result.transcript, false);
     });
 
@@ -1029,11 +1127,7 @@ Keep it conversational and natural!`;
     // Reset phone warning countdown
     setPhoneWarningCountdown(null);
     
-    // Reset person detection timeout
-    if (personDetectionTimeout) {
-      clearTimeout(personDetectionTimeout);
-      setPersonDetectionTimeout(null);
-    }
+    // Reset person detection
     setLastPersonDetectionTime(Date.now());
     
     // Reset multiple people detection states
@@ -1064,19 +1158,32 @@ Keep it conversational and natural!`;
       candidateName: candidateName.trim(),
       jobTitle,
       duration,
-      aiBackend
+      aiBackend,
+      proctoringPolicy,
+      proctoringEvents: [],
+      violationCounts: {},
+      flaggedForReview: false
     });
     setSessionId(newSessionId);
+    evidenceLogRef.current = createEvidenceLog({
+      sessionId: newSessionId,
+      candidateName: candidateName.trim(),
+      jobId: linkedJob?.title === jobTitle ? linkedJob.id : null,
+      jobTitle
+    });
     
     try {
       const prompt = generateAvaPrompt(true);
-      const response = await callUnifiedAI(prompt, aiBackend);
+      const response = await callUnifiedAI(prompt, aiBackend, { feature: 'interview' });
       const hrResponse = response.text();
+      console.log(`🤖 Interview opening answered by ${response.provider} in ${response.latencyMs}ms`);
       
       const firstMessage: Message = {
         role: 'hr',
         content: hrResponse,
-        timestamp: new Date()
+        timestamp: new Date(),
+        provider: response.provider,
+        latencyMs: response.latencyMs
       };
       
       setMessages([firstMessage]);
@@ -1088,7 +1195,9 @@ Keep it conversational and natural!`;
       interviewDataStorage.addMessage({
         role: 'hr',
         content: hrResponse,
-        timestamp: new Date()
+        timestamp: new Date(),
+        provider: response.provider,
+        latencyMs: response.latencyMs
       });
       
       // Update conversation history
@@ -1176,14 +1285,53 @@ Keep it conversational and natural!`;
       }
 
       const prompt = generateAvaPrompt(false, updatedMessages);
-      const aiResponse = await callUnifiedAI(prompt, aiBackend);
-      const hrResponse = aiResponse.text();
-      
+      const abortController = new AbortController();
+      aiStreamAbortRef.current = abortController;
+      const aiResponse = await streamUnifiedAI(prompt, aiBackend, {
+        feature: 'interview',
+        signal: abortController.signal
+      });
+      console.log(`🤖 Interview turn streaming from ${aiResponse.provider} after ${aiResponse.latencyMs}ms`);
+
+      // Show tokens as they arrive and hand finished sentences to TTS
+      let hrResponse = '';
+      async function* trackTokens() {
+        for await (const token of aiResponse.tokens) {
+          hrResponse += token;
+          setStreamingResponse(hrResponse);
+          yield token;
+        }
+      }
+      setIsLoading(false);
+      try {
+        if (!isMuted && speechManagerRef.current) {
+          await speechManagerRef.current.speakStream(chunkSentences(trackTokens()), {
+            ...DEV_TTS_OPTIONS,
+            voice: DEV_TTS_OPTIONS.voice
+          }, abortController.signal);
+        } else {
+          const tokens = trackTokens();
+          while (!(await tokens.next()).done) { /* text only */ }
+        }
+      } catch (error) {
+        // An interrupted stream keeps whatever Ava managed to say
+        if (!abortController.signal.aborted) throw error;
+      } finally {
+        aiStreamAbortRef.current = null;
+        setStreamingResponse('');
+      }
+      hrResponse = hrResponse.trim();
+      if (abortController.signal.aborted && hrResponse) {
+        hrResponse += ' …';
+      }
+
       if (hrResponse) {
         const aiMessage: Message = {
           role: 'hr',
           content: hrResponse,
           timestamp: new Date(),
+          provider: aiResponse.provider,
+          latencyMs: aiResponse.latencyMs
         };
         setMessages(prevMessages => [...prevMessages, aiMessage]);
         setQuestionCount(prev => prev + 1);
@@ -1193,20 +1341,15 @@ Keep it conversational and natural!`;
           interviewDataStorage.addMessage({
             role: 'hr',
             content: hrResponse,
-            timestamp: new Date()
+            timestamp: new Date(),
+            provider: aiResponse.provider,
+            latencyMs: aiResponse.latencyMs
           });
         }
         
         // Update conversation history
         conversationHistoryRef.current += `\nAva: ${hrResponse}`;
         
-        if (!isMuted && speechManagerRef.current) {
-          await speechManagerRef.current.speak(hrResponse, {
-            ...DEV_TTS_OPTIONS,
-            voice: DEV_TTS_OPTIONS.voice
-          });
-        }
-        
         // Start waiting for user response after AI speaks
         startWaitingForResponse();
       }
@@ -1388,11 +1531,7 @@ Keep it conversational and natural!`;
       setWarningTimeout(null);
     }
     
-    // Clear person detection timeout
-    if (personDetectionTimeout) {
-      clearTimeout(personDetectionTimeout);
-      setPersonDetectionTimeout(null);
-    }
+    // Reset person detection
     setLastPersonDetectionTime(Date.now());
     
     // Reset multiple people detection states
@@ -1579,30 +1718,22 @@ Keep it conversational and natural!`;
 
   // (Removed legacy phone/multiple-people warning handlers in favor of unified detectionManager)
 
-  // Monitor face visibility
+  // Feed the latest proctoring signals to the detection manager
+  const runProctoringCheck = (signals: Partial<Omit<DetectionSnapshot, 'now'>>) => {
+    Object.assign(proctoringSignalsRef.current, signals);
+    if (!detectionManagerRef.current) return;
+    const snap: DetectionSnapshot = { ...proctoringSignalsRef.current, now: Date.now() };
+    detectionManagerRef.current.process(snap);
+    detectionManagerRef.current.tick(snap.now);
+  };
+
+  // Monitor face visibility (thresholds come from the proctoring policy)
   const monitorFaceVisibility = (isFaceVisible: boolean) => {
-    if (!isFaceVisible) {
-      setViolationCounts(prev => ({
-        ...prev,
-        faceNotVisibleCount: Math.min(2, prev.faceNotVisibleCount + 1)
-      }));
-      
-      // Issue warning on first detection
-      if (violationCounts.faceNotVisibleCount === 0) {
-        issueWarning('face');
-      }
-      
-      // Terminate after 2 violations
-      if (violationCounts.faceNotVisibleCount >= 1) {
-        terminateInterview("Face not visible - interview terminated due to repeated violations.");
-      }
-    } else {
-      // Reset count when face becomes visible
-      setViolationCounts(prev => ({
-        ...prev,
-        faceNotVisibleCount: 0
-      }));
-    }
+    setViolationCounts(prev => ({
+      ...prev,
+      faceNotVisibleCount: isFaceVisible ? 0 : prev.faceNotVisibleCount + 1
+    }));
+    runProctoringCheck({ faceVisible: isFaceVisible });
   };
 
   // Add new state for phone and people detection
@@ -1615,7 +1746,6 @@ Keep it conversational and natural!`;
 
   // Monitor object detection with unified detection manager only
   const monitorObjectDetection = (detectedObjects: any[]) => {
-    if (!detectionManagerRef.current) return;
     const phoneDetected = detectedObjects.some(obj => (
       obj.class === 'cell phone' || obj.class === 'mobile phone' || obj.class === 'phone' || obj.class === 'smartphone'
     ) && obj.score > 0.5);
@@ -1624,18 +1754,18 @@ Keep it conversational and natural!`;
       const hasGoodConfidence = obj.score > 0.3;
       return isPerson && hasGoodConfidence;
     });
-    const snap: DetectionSnapshot = {
-      now: Date.now(),
+    const hasConfidentObject = (classes: string[]) =>
+      detectedObjects.some(obj => classes.includes(obj.class) && obj.score > 0.5);
+    runProctoringCheck({
       isInterviewStarted,
       phoneDetected,
-      peopleCount: peopleDetected.length
-    };
-    detectionManagerRef.current.process(snap);
-    detectionManagerRef.current.tick(snap.now);
+      peopleCount: peopleDetected.length,
+      secondScreenDetected: hasConfidentObject(SECOND_SCREEN_CLASSES),
+      bookDetected: hasConfidentObject(BOOK_CLASSES)
+    });
   };
 
-  // Monitor person detection with 7-second delay
-  const [personDetectionTimeout, setPersonDetectionTimeout] = useState<NodeJS.Timeout | null>(null);
+  // Monitor person detection
   const [lastPersonDetectionTime, setLastPersonDetectionTime] = useState<number>(Date.now());
 
   const monitorPersonDetection = (isPersonDetected: boolean) => {
@@ -1643,7 +1773,6 @@ Keep it conversational and natural!`;
     
     console.log('👤 Person detection monitoring:', {
       isPersonDetected,
-      hasTimeout: !!personDetectionTimeout,
       timeSinceLastDetection: currentTime - lastPersonDetectionTime
     });
     
@@ -1653,30 +1782,10 @@ Keep it conversational and natural!`;
     }));
     
     if (!isPersonDetected) {
-      // Clear any existing timeout
-      if (personDetectionTimeout) {
-        clearTimeout(personDetectionTimeout);
-      }
-      
-      console.log('⚠️ Person not detected - starting 7-second countdown');
-      
-      // Set 7-second timeout before termination, cancel if person returns sooner
-      const timeout = setTimeout(() => {
-        // Only terminate if still absent
-        if (!violationCounts.personDetected) {
-          console.log('⚠️ No person detected for 7 seconds - terminating interview');
-          terminateInterview("No person detected in frame for 7 seconds - interview terminated.");
-        }
-      }, 7000);
-      
-      setPersonDetectionTimeout(timeout);
+      // Nobody in frame means no face either; the policy's grace window decides when it counts
+      console.log('⚠️ Person not detected');
+      runProctoringCheck({ faceVisible: false });
     } else {
-      // Person detected - clear timeout and update last detection time
-      if (personDetectionTimeout) {
-        console.log('✅ Person detected - clearing timeout');
-        clearTimeout(personDetectionTimeout);
-        setPersonDetectionTimeout(null);
-      }
       setLastPersonDetectionTime(currentTime);
     }
   };
@@ -1787,6 +1896,9 @@ Keep it conversational and natural!`;
                     <SelectValue placeholder="Select position" />
                   </SelectTrigger>
                   <SelectContent className="max-h-60">
+                    {linkedJob && (
+                      <SelectItem value={linkedJob.title}>{linkedJob.title}</SelectItem>
+                    )}
                     <SelectItem value="Software Engineer">Software Engineer</SelectItem>
                     <SelectItem value="Product Manager">Product Manager</SelectItem>
                     <SelectItem value="Data Scientist">Data Scientist</SelectItem>
@@ -1797,6 +1909,7 @@ Keep it conversational and natural!`;
                     <SelectItem value="Project Manager">Project Manager</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-slate-500">Proctoring policy: {proctoringPolicy.name}</p>
               </div>
             </div>
 
@@ -2001,8 +2114,10 @@ Keep it conversational and natural!`;
           </CardHeader>
           <CardContent className="p-2 flex items-center justify-center flex-1">
             <div className="w-full h-[193px] flex items-center justify-center rounded-lg overflow-hidden">
-              <AutoObjectDetectionCamera embedded onDetectionChange={(detections) => {
+              <AutoObjectDetectionCamera embedded onDetectionChange={(detections, video) => {
                 setObjectDetections(detections);
+                detectionVideoRef.current = video ?? null;
+                lastDetectionsRef.current = detections.map(d => ({ class: d.class, score: d.score, bbox: d.bbox }));
                 
                 // Monitor for interview violations
                 monitorObjectDetection(detections);
@@ -2194,10 +2309,22 @@ Keep it conversational and natural!`;
                         }`}
                       >
                         <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                        {message.provider && (
+                          <p className="text-[10px] text-blue-700/70 mt-1">
+                            via {message.provider} · {message.latencyMs}ms
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
                                       <div ref={messagesEndRef} />
+                  {streamingResponse && (
+                    <div className="flex justify-start mt-2">
+                      <div className="max-w-[70%] rounded-lg px-3 py-2 break-words overflow-hidden bg-blue-100 text-blue-900">
+                        <p className="text-sm whitespace-pre-wrap leading-relaxed">{streamingResponse}</p>
+                      </div>
+                    </div>
+                  )}
                   {isLoading && (
                       <div className="flex justify-start mt-2">
                         <div className="bg-blue-100 text-blue-900 rounded-lg px-3 py-2 max-w-[70%]">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -13,8 +13,10 @@ import {
   Trash2,
   Eye,
   Calendar,
-  Timer
+  Timer,
+  Upload
 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
 import { interviewDataStorage } from '@/utils/interviewDataStorage';
 import type { InterviewSession } from '@/utils/interviewDataStorage';
 
@@ -22,9 +24,14 @@ const InterviewHistory: React.FC = () => {
   const [sessions, setSessions] = useState<InterviewSession[]>([]);
   const [selectedSession, setSelectedSession] = useState<InterviewSession | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     loadSessions();
+    // Stored and synced sessions arrive after the first render
+    return interviewDataStorage.subscribe(loadSessions);
   }, []);
 
   const loadSessions = () => {
@@ -32,14 +39,20 @@ const InterviewHistory: React.FC = () => {
     setSessions(allSessions);
   };
 
-  const handleExportSession = (sessionId: string) => {
-    const exportData = interviewDataStorage.exportSession(sessionId);
-    if (exportData) {
-      const blob = new Blob([exportData], { type: 'application/json' });
+  // Completed sessions are kept as summaries; the detail view needs their raw samples
+  const handleShowDetails = async (session: InterviewSession) => {
+    const loaded = await interviewDataStorage.loadSessionStreams(session.sessionId);
+    setSelectedSession(loaded ? { ...loaded } : session);
+    setShowDetails(true);
+  };
+
+  const handleExportSession = async (sessionId: string) => {
+    const blob = await interviewDataStorage.exportArchive(sessionId);
+    if (blob) {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `interview-session-${sessionId}.json`;
+      a.download = `interview-session-${sessionId}.${blob.type === 'application/zip' ? 'zip' : 'json'}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -47,6 +60,33 @@ const InterviewHistory: React.FC = () => {
     }
   };
 
+  // Archives shared by a coach or exported on another device (.json or .zip with media)
+  const handleImportArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const result = await interviewDataStorage.importArchive(file);
+      toast({
+        title: "Interview imported",
+        description: result.verified
+          ? `${result.session.candidateName} – ${result.session.jobTitle} (integrity verified)`
+          : `${result.session.candidateName} – ${result.session.jobTitle} (converted from format v${result.sourceVersion}, no integrity hash)`
+      });
+    } catch (error) {
+      console.error('Error importing interview archive:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : 'Could not read this archive',
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleDeleteSession = (sessionId: string) => {
     // For now, we'll just clear all data since we don't have individual session deletion
     if (confirm('Are you sure you want to delete all interview data? This cannot be undone.')) {
@@ -83,9 +123,26 @@ const InterviewHistory: React.FC = () => {
 
   return (
     <div className="p-6 max-w-6xl mx-auto">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold text-slate-800 mb-2">Interview History</h1>
-        <p className="text-slate-600">View and manage your stored interview sessions</p>
+      <div className="mb-6 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-800 mb-2">Interview History</h1>
+          <p className="text-slate-600">View and manage your stored interview sessions</p>
+        </div>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.zip,application/json,application/zip"
+          className="hidden"
+          onChange={handleImportArchive}
+        />
+        <Button
+          variant="outline"
+          onClick={() => importInputRef.current?.click()}
+          disabled={isImporting}
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          {isImporting ? 'Importing...' : 'Import Archive'}
+        </Button>
       </div>
 
       {sessions.length === 0 ? (
@@ -118,10 +175,7 @@ const InterviewHistory: React.FC = () => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => {
-                          setSelectedSession(session);
-                          setShowDetails(true);
-                        }}
+                        onClick={() => handleShowDetails(session)}
                       >
                         <Eye className="h-4 w-4 mr-1" />
                         Details
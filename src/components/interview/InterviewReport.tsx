@@ -20,7 +20,8 @@ import {
   Tooltip as ChartTooltip, 
   Legend 
 } from 'chart.js';
-import { Bar, Pie, Radar } from 'react-chartjs-2';
+import { Bar, Line, Pie, Radar } from 'react-chartjs-2';
+import type { TurnArc } from '@/utils/interviewTimeSeries';
 
 // Register ChartJS components
 ChartJS.register(
@@ -60,6 +61,8 @@ interface InterviewReportProps {
     };
     improvements: string[];
     strengths: string[];
+    // Downsampled emotion/behavior windows per question (see alignToTurns)
+    emotionArcs?: TurnArc[];
   };
 }
 
@@ -120,6 +123,42 @@ const InterviewReport: React.FC<InterviewReportProps> = ({ data }) => {
     };
   }, [data.scores]);
   
+  // Per-question emotional arc: mean confidence per window with eye contact alongside
+  const arcChartData = (arc: TurnArc) => {
+    const eyeContactAt = new Map(arc.behavior.map(bucket => [bucket.start, bucket.eyeContactRatio]));
+    return {
+      labels: arc.emotions.map(bucket => `${Math.round((bucket.start - arc.start) / 1000)}s`),
+      datasets: [
+        {
+          label: 'Confidence',
+          data: arc.emotions.map(bucket => Math.round(bucket.confidence.mean * 100)),
+          borderColor: 'rgba(153, 102, 255, 1)',
+          backgroundColor: 'rgba(153, 102, 255, 0.2)',
+          tension: 0.3
+        },
+        {
+          label: 'Eye Contact',
+          data: arc.emotions.map(bucket => {
+            const ratio = eyeContactAt.get(bucket.start);
+            return ratio === undefined ? null : Math.round(ratio * 100);
+          }),
+          borderColor: 'rgba(75, 192, 192, 1)',
+          backgroundColor: 'rgba(75, 192, 192, 0.2)',
+          tension: 0.3
+        }
+      ]
+    };
+  };
+
+  const arcChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: { y: { min: 0, max: 100 } },
+    plugins: {
+      legend: { position: 'bottom' as const }
+    }
+  };
+
   // Generate pie chart data for overall skill breakdown
   const pieChartData = useMemo(() => {
     return {
@@ -615,6 +654,20 @@ const InterviewReport: React.FC<InterviewReportProps> = ({ data }) => {
                         </p>
                       </div>
 
+                      {data.emotionArcs?.[index]?.emotions.length ? (
+                        <div className="mt-3 p-3 border rounded-md">
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium">Emotional Arc:</p>
+                            {data.emotionArcs[index].dominant && (
+                              <Badge variant="outline" className="capitalize">{data.emotionArcs[index].dominant}</Badge>
+                            )}
+                          </div>
+                          <div className="h-40 mt-2">
+                            <Line data={arcChartData(data.emotionArcs[index])} options={arcChartOptions} />
+                          </div>
+                        </div>
+                      ) : null}
+
                       {getVideoForQuestion(index) && (
                         <div className="mt-3">
                           <Button 
@@ -5,6 +5,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileText, Upload } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
+import { extractResumeText, isSupportedResumeFile, RESUME_ACCEPT } from "@/utils/resumeParser";
 
 interface InterviewUploadProps {
   resumeText: string;
@@ -20,93 +21,15 @@ export const InterviewUpload = ({
   const [progress, setProgress] = useState<string>("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  // Dynamically load an external script once
-  const loadScript = (src: string) => new Promise<void>((resolve, reject) => {
-    const existing = document.querySelector(`script[src="${src}"]`) as HTMLScriptElement | null;
-    if (existing) {
-      existing.addEventListener('load', () => resolve());
-      if ((existing as any).loaded) return resolve();
-    }
-    const script = document.createElement('script');
-    script.src = src;
-    script.async = true;
-    script.onload = () => {
-      (script as any).loaded = true;
-      resolve();
-    };
-    script.onerror = () => reject(new Error(`Failed to load script: ${src}`));
-    document.body.appendChild(script);
-  });
-
-  const ensurePdfJs = async () => {
-    // pdf.js UMD build
-    const pdfJsCdnBase = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build';
-    await loadScript(`${pdfJsCdnBase}/pdf.min.js`);
-    // Configure worker
-    const w = window as any;
-    if (w.pdfjsLib) {
-      w.pdfjsLib.GlobalWorkerOptions.workerSrc = `${pdfJsCdnBase}/pdf.worker.min.js`;
-    } else {
-      throw new Error('pdfjsLib not available');
-    }
-  };
-
-  const ensureTesseract = async () => {
-    // Tesseract.js UMD build
-    await loadScript('https://cdn.jsdelivr.net/npm/tesseract.js@4/dist/tesseract.min.js');
-    const w = window as any;
-    if (!w.Tesseract) throw new Error('Tesseract not available');
-  };
-
-  const ocrPdfFile = async (file: File): Promise<string> => {
-    setProgress('Loading libraries...');
-    await ensurePdfJs();
-    await ensureTesseract();
-    const w = window as any;
-    const pdfjsLib = w.pdfjsLib;
-    const { Tesseract } = w;
-
-    setProgress('Reading PDF...');
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
-
-    let fullText = '';
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      setProgress(`Rendering page ${pageNum} of ${pdf.numPages}...`);
-      const page = await pdf.getPage(pageNum);
-      const viewport = page.getViewport({ scale: 2 });
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      if (!context) throw new Error('Failed to create canvas context');
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
-      await page.render({ canvasContext: context, viewport }).promise;
-
-      setProgress(`Extracting text (OCR) from page ${pageNum}...`);
-      const dataUrl = canvas.toDataURL('image/png');
-      const { data } = await Tesseract.recognize(dataUrl, 'eng', {
-        logger: (m: any) => {
-          if (m.status && m.progress != null) {
-            setProgress(`${m.status} (page ${pageNum}): ${Math.round(m.progress * 100)}%`);
-          }
-        }
-      });
-      fullText += (data?.text || '').trim() + '\n\n';
-    }
-
-    return fullText.trim();
-  };
-  
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
     // Check file type
-    if (file.type !== 'application/pdf' && file.type !== 'text/plain') {
+    if (!isSupportedResumeFile(file)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a PDF or TXT file",
+        description: "Please upload a PDF, DOCX or TXT file",
         variant: "destructive"
       });
       return;
@@ -125,16 +48,8 @@ export const InterviewUpload = ({
     setIsUploading(true);
     
     try {
-      let content = "";
-      if (file.type === 'text/plain') {
-        content = await file.text();
-      } else if (file.type === 'application/pdf') {
-        content = await ocrPdfFile(file);
-      }
-
-      if (!content || content.trim().length === 0) {
-        throw new Error('No text could be extracted.');
-      }
+      // Text layer first, OCR for scanned PDFs
+      const content = await extractResumeText(file, setProgress);
 
       onResumeTextChange(content.trim());
       toast({
@@ -177,7 +92,7 @@ export const InterviewUpload = ({
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf,.txt"
+              accept={RESUME_ACCEPT}
               className="hidden"
               onChange={handleFileUpload}
             />
@@ -186,7 +101,7 @@ export const InterviewUpload = ({
             
             <h4 className="font-medium mb-2">Upload your Resume</h4>
             <p className="text-sm text-muted-foreground mb-4">
-              Upload your resume in PDF or TXT format
+              Upload your resume in PDF, DOCX or TXT format
             </p>
             
             <Button 
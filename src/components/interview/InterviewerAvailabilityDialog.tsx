@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  browserTimeZone,
+  fetchInterviewerAvailability,
+  fetchInterviewers,
+  saveInterviewerAvailability,
+  WEEKDAY_NAMES,
+  type WeeklyHours
+} from "@/utils/interviewScheduling";
+
+interface InterviewerAvailabilityDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Monday to Friday, nine to five
+const DEFAULT_HOURS: WeeklyHours[] = [1, 2, 3, 4, 5].map(weekday => ({ weekday, startTime: "09:00", endTime: "17:00" }));
+
+export const InterviewerAvailabilityDialog = ({ open, onClose }: InterviewerAvailabilityDialogProps) => {
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [hours, setHours] = useState<WeeklyHours[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadHours = async () => {
+      setLoading(true);
+      try {
+        const { currentMemberId } = await fetchInterviewers();
+        setMemberId(currentMemberId);
+        if (!currentMemberId) return;
+
+        const saved = await fetchInterviewerAvailability(currentMemberId);
+        setHours(saved.length > 0
+          ? saved.map(slot => ({ weekday: slot.weekday, startTime: slot.start_time.slice(0, 5), endTime: slot.end_time.slice(0, 5) }))
+          : DEFAULT_HOURS);
+      } catch (error) {
+        console.error("Error loading availability:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHours();
+  }, [open]);
+
+  const updateSlot = (index: number, changes: Partial<WeeklyHours>) => {
+    setHours(prev => prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const handleSave = async () => {
+    if (!memberId) return;
+
+    setSaving(true);
+    try {
+      await saveInterviewerAvailability(memberId, hours);
+      toast({
+        title: "Availability saved",
+        description: hours.length > 0 ? "Interviews can only be booked inside these hours." : "You can now be booked at any time."
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save availability",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>My Interview Availability</DialogTitle>
+          <DialogDescription>
+            Weekly hours in {browserTimeZone()}. Leave the list empty to be bookable at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !memberId ? (
+          <p className="text-sm text-gray-500">Only HR team members can set interview availability.</p>
+        ) : (
+          <div className="space-y-2">
+            {hours.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={String(slot.weekday)} onValueChange={(value) => updateSlot(index, { weekday: Number(value) })}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_NAMES.map((name, weekday) => (
+                      <SelectItem key={name} value={String(weekday)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input type="time" value={slot.startTime} onChange={(e) => updateSlot(index, { startTime: e.target.value })} />
+                <span className="text-gray-500">to</span>
+                <Input type="time" value={slot.endTime} onChange={(e) => updateSlot(index, { endTime: e.target.value })} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove hours"
+                  onClick={() => setHours(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setHours(prev => [...prev, { weekday: 1, startTime: "09:00", endTime: "17:00" }])}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add hours
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !memberId}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InterviewerAvailabilityDialog;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { format } from "date-fns";
+import { VIOLATION_LABELS } from "@/utils/proctoringPolicy";
+import {
+  fetchEvidenceHead,
+  fetchEvidenceLog,
+  verifyEvidenceChain,
+  type EvidenceEntry,
+  type EvidenceVerification
+} from "@/utils/proctoringEvidence";
+
+interface ProctoringEvidenceDialogProps {
+  sessionId: string | null;
+  // The candidate whose chain this is; session ids are only unique per user
+  userId: string | null;
+  candidateName?: string;
+  onClose: () => void;
+}
+
+export const ProctoringEvidenceDialog = ({ sessionId, userId, candidateName, onClose }: ProctoringEvidenceDialogProps) => {
+  const [entries, setEntries] = useState<EvidenceEntry[]>([]);
+  const [headHash, setHeadHash] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<EvidenceVerification | null>(null);
+
+  useEffect(() => {
+    if (!sessionId || !userId) return;
+
+    const loadEvidence = async () => {
+      setLoading(true);
+      setError(null);
+      setVerification(null);
+      try {
+        const [log, head] = await Promise.all([fetchEvidenceLog(sessionId, userId), fetchEvidenceHead(sessionId, userId)]);
+        setEntries(log);
+        setHeadHash(head);
+      } catch (err) {
+        console.error("Error loading proctoring evidence:", err);
+        setError("Could not load the evidence log for this session.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvidence();
+  }, [sessionId, userId]);
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Proctoring Evidence{candidateName ? ` — ${candidateName}` : ""}</DialogTitle>
+          <DialogDescription>
+            Every entry is hashed together with the previous one, and the session records the last one, so any edited or missing entry breaks the chain.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-40">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-10 text-red-600">{error}</div>
+        ) : (
+          <ScrollArea className="h-[60vh] pr-4">
+            <div className="space-y-3">
+              {entries.map((entry) => (
+                <div
+                  key={entry.sequence}
+                  className={`flex gap-4 border rounded-lg p-3 ${
+                    verification?.brokenAt === entry.sequence ? "border-red-400 bg-red-50" : "border-gray-200"
+                  }`}
+                >
+                  {entry.snapshot ? (
+                    <img
+                      src={entry.snapshot}
+                      alt={`Frame for entry ${entry.sequence}`}
+                      className="w-40 h-auto rounded border object-cover"
+                    />
+                  ) : (
+                    <div className="w-40 h-24 rounded border bg-gray-50 flex items-center justify-center text-xs text-gray-400">
+                      No frame
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0 space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">#{entry.sequence} {VIOLATION_LABELS[entry.event.type] ?? entry.event.type}</span>
+                      <Badge variant={entry.event.action === "terminate" ? "destructive" : "outline"}>
+                        {entry.event.action}
+                      </Badge>
+                      {entry.event.flagged && <Badge variant="destructive">Flagged</Badge>}
+                    </div>
+                    <p className="text-gray-500">
+                      {format(new Date(entry.timestamp), "MMM dd, yyyy HH:mm:ss")} • strike {entry.event.strikes} • score {entry.event.score}
+                    </p>
+                    <p className="text-gray-700">{entry.event.message}</p>
+                    {entry.detections.length > 0 && (
+                      <p className="text-gray-500">
+                        Detections: {entry.detections.map((d) => `${d.class} (${Math.round(d.score * 100)}%)`).join(", ")}
+                      </p>
+                    )}
+                    <p className="font-mono text-xs text-gray-400 truncate" title={entry.hash}>
+                      {entry.hash}
+                    </p>
+                  </div>
+                </div>
+              ))}
+              {entries.length === 0 && (
+                <div className="text-center py-10 text-gray-500">No evidence recorded for this session.</div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="flex items-center sm:justify-between gap-2">
+          {verification ? (
+            verification.valid ? (
+              <span className="flex items-center text-sm text-green-700">
+                <ShieldCheck className="h-4 w-4 mr-1" />
+                Chain intact ({verification.checked} entries verified)
+              </span>
+            ) : (
+              <span className="flex items-center text-sm text-red-700">
+                <ShieldAlert className="h-4 w-4 mr-1" />
+                Chain broken at entry #{verification.brokenAt}: {verification.reason}
+              </span>
+            )
+          ) : (
+            <span />
+          )}
+          <Button
+            onClick={() => setVerification(verifyEvidenceChain(entries, headHash))}
+            disabled={loading || entries.length === 0}
+          >
+            <ShieldCheck className="mr-2 h-4 w-4" /> Verify Chain
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProctoringEvidenceDialog;
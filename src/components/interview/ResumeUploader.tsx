@@ -4,7 +4,7 @@ import { Upload, File, Check, X } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/components/ui/use-toast";
-import { parseResume } from '@/utils/interviewApiService';
+import { extractResumeText, isSupportedResumeFile, RESUME_ACCEPT } from '@/utils/resumeParser';
 
 interface ResumeUploaderProps {
   onResumeProcessed: (resumeText: string, resumeFileName: string) => void;
@@ -21,10 +21,10 @@ const ResumeUploader = ({ onResumeProcessed, isProcessing }: ResumeUploaderProps
     const files = e.target.files;
     if (files && files.length > 0) {
       const selectedFile = files[0];
-      if (selectedFile.type !== 'application/pdf') {
+      if (!isSupportedResumeFile(selectedFile)) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a PDF file",
+          description: "Please upload a PDF, DOCX or TXT file",
           variant: "destructive"
         });
         return;
@@ -45,102 +45,35 @@ const ResumeUploader = ({ onResumeProcessed, isProcessing }: ResumeUploaderProps
   };
 
   const processResume = async (file: File) => {
-    // Reset progress
-    setUploadProgress(0);
-    setProcessingText('Starting upload...');
-    
+    setUploadProgress(10);
+    setProcessingText('Reading file...');
+
     try {
-      // Simulate upload progress
-      for (let i = 1; i <= 10; i++) {
-        await new Promise(r => setTimeout(r, 100)); // Faster animation
-        setUploadProgress(i * 10);
-        
-        if (i === 3) setProcessingText('Uploading file...');
-        if (i === 6) setProcessingText('Processing PDF...');
-        if (i === 8) setProcessingText('Analyzing with AI...');
-      }
-      
-      // Convert file to base64
-      const base64 = await fileToBase64(file);
-      
-      // Now process the resume
-      try {
-        // For development, we'll skip the actual API call
-        // In production, uncomment this line to use the real parser
-        // const resumeData = await parseResume(base64);
-        
-        // Extract text from PDF
-        const pdfText = await extractTextFromPDF(file);
-        
-        setProcessingText('Analysis complete!');
-        onResumeProcessed(pdfText, file.name);
-        
-        toast({
-          title: "Resume processed successfully",
-          description: "Your resume has been analyzed and is ready for your interview",
-        });
-      } catch (error) {
-        console.error("Error parsing resume:", error);
-        // Fall back to simpler text extraction
-        extractTextFromPDF(file)
-          .then(text => {
-            onResumeProcessed(text, file.name);
-            toast({
-              title: "Resume processed",
-              description: "Basic resume text extracted for your interview",
-            });
-          })
-          .catch(extractError => {
-            console.error("Error extracting text:", extractError);
-            toast({
-              title: "Processing failed",
-              description: "Could not process your resume. Please try again.",
-              variant: "destructive"
-            });
-          });
-      }
+      const text = await extractResumeText(file, message => {
+        setProcessingText(message);
+        setUploadProgress(progress => Math.min(90, progress + 10));
+      });
+
+      setUploadProgress(100);
+      setProcessingText('Analysis complete!');
+      onResumeProcessed(text, file.name);
+
+      toast({
+        title: "Resume processed successfully",
+        description: "Your resume has been analyzed and is ready for your interview",
+      });
     } catch (error) {
       console.error("Error processing resume:", error);
+      setUploadProgress(0);
+      setFile(null);
       toast({
         title: "Processing failed",
-        description: "Failed to process the PDF",
+        description: error instanceof Error ? error.message : "Could not process your resume. Please try again.",
         variant: "destructive"
       });
     }
   };
 
-  // Convert file to base64
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
-        const base64String = result.split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = error => reject(error);
-    });
-  };
-
-  // Extract text from PDF using a basic approach
-  const extractTextFromPDF = async (file: File): Promise<string> => {
-    // In a real implementation, we would use a PDF parsing library
-    // For now, we'll use a simplified approach for demo purposes
-    const arrayBuffer = await file.arrayBuffer();
-    const decoder = new TextDecoder('utf-8');
-    let text = decoder.decode(arrayBuffer.slice(0, 5000));
-    
-    // Clean up binary data for better readability
-    text = text.replace(/[^\x20-\x7E\r\n]/g, ' ').trim();
-    
-    // Simulate processing time
-    await new Promise(r => setTimeout(r, 500)); // Faster processing
-    
-    return text;
-  };
-
   return (
     <div className="p-4 border rounded-lg bg-card">
       <div className="flex flex-col items-center text-center">
@@ -151,18 +84,18 @@ const ResumeUploader = ({ onResumeProcessed, isProcessing }: ResumeUploaderProps
               <p className="text-sm font-medium mb-1">Upload your resume</p>
               <p className="text-xs text-muted-foreground mb-4">Drag and drop or click to browse</p>
               <Button variant="outline" className="relative">
-                Select PDF
+                Select File
                 <input
                   type="file"
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                  accept=".pdf"
+                  accept={RESUME_ACCEPT}
                   onChange={handleFileChange}
                   disabled={isProcessing}
                 />
               </Button>
             </div>
             <p className="text-xs text-muted-foreground">
-              Supported format: PDF up to 5MB
+              Supported formats: PDF, DOCX or TXT up to 5MB
             </p>
           </>
         ) : (
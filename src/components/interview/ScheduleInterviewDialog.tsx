@@ -0,0 +1,378 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import {
+  DEFAULT_INTERVIEW_MINUTES,
+  emailInterviewInvite,
+  fetchBusyIntervals,
+  fetchCandidateAvailability,
+  fetchInterviewerAvailability,
+  fetchInterviewers,
+  findOpenSlots,
+  rescheduleInterview,
+  scheduleInterview,
+  slotProblem,
+  type BusyInterval,
+  type CandidateAvailability,
+  type Interviewer,
+  type InterviewerAvailability,
+  type InterviewType
+} from "@/utils/interviewScheduling";
+
+export interface SchedulableInterview {
+  id: string;
+  applicationId: string;
+  candidateId: string;
+  candidateName: string;
+  interviewerId: string | null;
+  scheduledDate: string;
+  duration: number;
+  interviewType: InterviewType;
+  videoLink: string | null;
+}
+
+interface SchedulableApplication {
+  id: string;
+  candidateId: string;
+  label: string;
+}
+
+interface ScheduleInterviewDialogProps {
+  open: boolean;
+  // Reschedules this interview; schedules a new one when omitted
+  interview?: SchedulableInterview | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const DURATIONS = [30, 45, 60, 90];
+const NO_INTERVIEWER = "none";
+// Applications at these stages are finished and can't be interviewed
+const CLOSED_STAGES = "(Hired,Rejected,Withdrawn,Offer Rejected)";
+
+export const ScheduleInterviewDialog = ({ open, interview, onClose, onSaved }: ScheduleInterviewDialogProps) => {
+  const [applications, setApplications] = useState<SchedulableApplication[]>([]);
+  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
+  const [applicationId, setApplicationId] = useState("");
+  const [interviewerId, setInterviewerId] = useState(NO_INTERVIEWER);
+  const [interviewType, setInterviewType] = useState<InterviewType>("Technical");
+  const [duration, setDuration] = useState(DEFAULT_INTERVIEW_MINUTES);
+  const [day, setDay] = useState("");
+  const [time, setTime] = useState("");
+  const [videoLink, setVideoLink] = useState("");
+  const [sendInvite, setSendInvite] = useState(true);
+  const [interviewerHours, setInterviewerHours] = useState<InterviewerAvailability[]>([]);
+  const [candidateWindows, setCandidateWindows] = useState<CandidateAvailability[]>([]);
+  const [busy, setBusy] = useState<BusyInterval[]>([]);
+  const [loadingCalendar, setLoadingCalendar] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const isReschedule = !!interview;
+  const candidateId = interview?.candidateId ?? applications.find(app => app.id === applicationId)?.candidateId ?? null;
+  const selectedInterviewer = interviewerId === NO_INTERVIEWER ? null : interviewerId;
+
+  // Reset the form and load people whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const start = interview ? new Date(interview.scheduledDate) : null;
+    setApplicationId(interview?.applicationId ?? "");
+    setInterviewerId(interview?.interviewerId ?? NO_INTERVIEWER);
+    setInterviewType(interview?.interviewType ?? "Technical");
+    setDuration(interview?.duration ?? DEFAULT_INTERVIEW_MINUTES);
+    setDay(format(start ?? addDays(new Date(), 1), "yyyy-MM-dd"));
+    setTime(start ? format(start, "HH:mm") : "");
+    setVideoLink(interview?.videoLink ?? "");
+    setSendInvite(true);
+
+    const loadPeople = async () => {
+      try {
+        const { interviewers: members, currentMemberId } = await fetchInterviewers();
+        setInterviewers(members);
+        if (!interview && currentMemberId) setInterviewerId(currentMemberId);
+
+        if (!interview) {
+          const { data, error } = await supabase
+            .from("applications")
+            .select("id, candidate_id, candidates!applications_candidate_id_fkey ( first_name, last_name ), jobs ( title )")
+            .not("pipeline_stage", "in", CLOSED_STAGES)
+            .order("updated_at", { ascending: false });
+          if (error) throw error;
+
+          setApplications((data || []).map(app => ({
+            id: app.id,
+            candidateId: app.candidate_id,
+            label: `${app.candidates?.first_name ?? "Unknown"} ${app.candidates?.last_name ?? ""} — ${app.jobs?.title ?? "Unknown position"}`
+          })));
+        }
+      } catch (error) {
+        console.error("Error loading scheduling data:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load interviewers and candidates",
+          variant: "destructive"
+        });
+      }
+    };
+
+    loadPeople();
+  }, [open, interview, toast]);
+
+  // Calendars of both people for the chosen day
+  useEffect(() => {
+    if (!open || !candidateId || !day) return;
+
+    const loadCalendar = async () => {
+      setLoadingCalendar(true);
+      try {
+        const dayStart = new Date(`${day}T00:00`);
+        const [hours, windows, intervals] = await Promise.all([
+          selectedInterviewer ? fetchInterviewerAvailability(selectedInterviewer) : Promise.resolve([]),
+          fetchCandidateAvailability(candidateId),
+          fetchBusyIntervals({
+            interviewerId: selectedInterviewer,
+            candidateId,
+            from: dayStart,
+            to: addDays(dayStart, 1),
+            excludeInterviewId: interview?.id
+          })
+        ]);
+        setInterviewerHours(hours);
+        setCandidateWindows(windows);
+        setBusy(intervals);
+      } catch (error) {
+        console.error("Error loading availability:", error);
+      } finally {
+        setLoadingCalendar(false);
+      }
+    };
+
+    loadCalendar();
+  }, [open, candidateId, selectedInterviewer, day, interview?.id]);
+
+  const context = { interviewerHours, candidateWindows, busy };
+  const openSlots = useMemo(
+    () => (day ? findOpenSlots({ day: new Date(`${day}T00:00`), durationMinutes: duration, interviewerHours, candidateWindows, busy }) : []),
+    [day, duration, interviewerHours, candidateWindows, busy]
+  );
+
+  const start = day && time ? new Date(`${day}T${time}`) : null;
+  const problem = start ? slotProblem(start, new Date(start.getTime() + duration * 60000), context) : null;
+
+  const handleSave = async () => {
+    if (!start || (!isReschedule && !applicationId)) return;
+
+    setSaving(true);
+    try {
+      const saved = interview
+        ? await rescheduleInterview(interview.id, {
+            scheduledDate: start,
+            durationMinutes: duration,
+            interviewerId: selectedInterviewer,
+            videoLink
+          })
+        : await scheduleInterview({
+            applicationId,
+            interviewerId: selectedInterviewer,
+            scheduledDate: start,
+            durationMinutes: duration,
+            interviewType,
+            videoLink
+          });
+
+      toast({
+        title: isReschedule ? "Interview rescheduled" : "Interview scheduled",
+        description: format(start, "EEE, MMM d 'at' HH:mm")
+      });
+
+      if (sendInvite) {
+        try {
+          const recipients = await emailInterviewInvite(saved.id);
+          toast({ title: "Invite sent", description: recipients.join(", ") });
+        } catch (error) {
+          toast({
+            title: "Invite not sent",
+            description: error instanceof Error ? error.message : "The invite email could not be sent",
+            variant: "destructive"
+          });
+        }
+      }
+
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Error saving interview:", error);
+      toast({
+        title: isReschedule ? "Could not reschedule" : "Could not schedule",
+        description: error instanceof Error ? error.message : "Failed to save the interview",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{isReschedule ? `Reschedule ${interview.candidateName}` : "Schedule Interview"}</DialogTitle>
+          <DialogDescription>
+            Suggested times fit the interviewer's working hours and the candidate's availability, and avoid their other interviews.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          {!isReschedule && (
+            <div className="grid gap-2">
+              <Label>Candidate</Label>
+              <Select value={applicationId} onValueChange={setApplicationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an application" />
+                </SelectTrigger>
+                <SelectContent>
+                  {applications.map(app => (
+                    <SelectItem key={app.id} value={app.id}>{app.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Interviewer</Label>
+              <Select value={interviewerId} onValueChange={setInterviewerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_INTERVIEWER}>Unassigned</SelectItem>
+                  {interviewers.map(member => (
+                    <SelectItem key={member.id} value={member.id}>{member.first_name} {member.last_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select value={interviewType} onValueChange={(value) => setInterviewType(value as InterviewType)} disabled={isReschedule}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Constants.public.Enums.interview_type_option.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="interview-day">Date</Label>
+              <Input id="interview-day" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="interview-time">Time</Label>
+              <Input id="interview-time" type="time" step={300} value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label>Duration</Label>
+              <Select value={String(duration)} onValueChange={(value) => setDuration(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {candidateId && (
+            <div className="grid gap-2">
+              <Label>Open times</Label>
+              {loadingCalendar ? (
+                <div className="flex items-center text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Checking calendars...
+                </div>
+              ) : openSlots.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {openSlots.map(slot => (
+                    <Button
+                      key={slot.getTime()}
+                      type="button"
+                      size="sm"
+                      variant={time === format(slot, "HH:mm") ? "default" : "outline"}
+                      onClick={() => setTime(format(slot, "HH:mm"))}
+                    >
+                      {format(slot, "HH:mm")}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No open times on this day.</p>
+              )}
+            </div>
+          )}
+
+          {problem && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+              {problem}
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="interview-link">Video link</Label>
+            <Input
+              id="interview-link"
+              type="url"
+              placeholder="https://meet.example.com/..."
+              value={videoLink}
+              onChange={(e) => setVideoLink(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="interview-invite" checked={sendInvite} onCheckedChange={(checked) => setSendInvite(checked === true)} />
+            <Label htmlFor="interview-invite" className="font-normal">
+              Email the calendar invite to the candidate and interviewer
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !start || !!problem || (!isReschedule && !applicationId)}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isReschedule ? "Reschedule" : "Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleInterviewDialog;
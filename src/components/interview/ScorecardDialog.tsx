@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchInterviewers, type InterviewType } from "@/utils/interviewScheduling";
+import {
+  fetchScorecards,
+  fetchScorecardTemplate,
+  RATING_SCALE,
+  RECOMMENDATIONS,
+  saveScorecard,
+  type CompetencyRating,
+  type ScorecardRecommendation,
+  type ScorecardTemplate
+} from "@/utils/interviewScorecards";
+
+export interface ScorecardInterview {
+  id: string;
+  candidateName: string;
+  interviewType: InterviewType;
+}
+
+interface ScorecardDialogProps {
+  interview: ScorecardInterview | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// The current HR member's scorecard for an interview
+export const ScorecardDialog = ({ interview, onClose, onSaved }: ScorecardDialogProps) => {
+  const [template, setTemplate] = useState<ScorecardTemplate | null>(null);
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [ratings, setRatings] = useState<Record<string, CompetencyRating>>({});
+  const [recommendation, setRecommendation] = useState<ScorecardRecommendation | null>(null);
+  const [notes, setNotes] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!interview) return;
+
+    const loadScorecard = async () => {
+      setLoading(true);
+      setRatings({});
+      setRecommendation(null);
+      setNotes("");
+      setSubmitted(false);
+      try {
+        const [{ currentMemberId }, { scorecards, templates }] = await Promise.all([
+          fetchInterviewers(),
+          fetchScorecards([interview.id])
+        ]);
+        setMemberId(currentMemberId);
+
+        const own = scorecards.find(scorecard => scorecard.interviewerId === currentMemberId);
+        if (own) {
+          // Keep the template the draft was started on
+          setTemplate(templates.get(own.templateId) ?? null);
+          setRatings(own.ratings);
+          setRecommendation(own.recommendation);
+          setNotes(own.notes);
+          setSubmitted(own.status === "submitted");
+        } else {
+          setTemplate(await fetchScorecardTemplate(interview.interviewType));
+        }
+      } catch (error) {
+        console.error("Error loading scorecard:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the scorecard",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadScorecard();
+  }, [interview, toast]);
+
+  const setRating = (key: string, changes: Partial<CompetencyRating>) => {
+    setRatings(prev => ({ ...prev, [key]: { rating: 0, notes: "", ...prev[key], ...changes } }));
+  };
+
+  const handleSave = async (submit: boolean) => {
+    if (!interview || !template || !memberId) return;
+
+    setSaving(true);
+    try {
+      await saveScorecard({
+        interviewId: interview.id,
+        templateId: template.id,
+        interviewerId: memberId,
+        recommendation,
+        notes,
+        ratings: Object.fromEntries(Object.entries(ratings).filter(([, value]) => value.rating > 0)),
+        submit
+      });
+      toast({
+        title: submit ? "Scorecard submitted" : "Draft saved",
+        description: submit ? "Your scorecard is now part of the panel's recommendation." : undefined
+      });
+      onSaved();
+      if (submit) onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the scorecard",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const allRated = !!template && template.competencies.every(competency => (ratings[competency.key]?.rating ?? 0) > 0);
+
+  return (
+    <Dialog open={!!interview} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Scorecard{interview ? ` — ${interview.candidateName}` : ""}</DialogTitle>
+          <DialogDescription>
+            {template ? `${template.name}. ` : ""}Rate each competency against its rubric. Submitted scorecards can't be changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !memberId ? (
+          <p className="text-sm text-gray-500">Only HR team members can fill in scorecards.</p>
+        ) : !template ? (
+          <p className="text-sm text-gray-500">There is no scorecard template for {interview?.interviewType} interviews.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <div className="space-y-6">
+              {template.competencies.map(competency => {
+                const current = ratings[competency.key];
+                return (
+                  <div key={competency.key} className="space-y-2">
+                    <div className="flex justify-between items-baseline">
+                      <h4 className="font-medium">{competency.label}</h4>
+                      <span className="text-xs text-gray-500">Weight {competency.weight}</span>
+                    </div>
+                    <p className="text-sm text-gray-500">{competency.description}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {RATING_SCALE.map(rating => (
+                        <button
+                          key={rating}
+                          type="button"
+                          disabled={submitted}
+                          onClick={() => setRating(competency.key, { rating })}
+                          className={cn(
+                            "rounded-md border p-2 text-left text-xs transition-colors disabled:cursor-not-allowed",
+                            current?.rating === rating ? "border-primary bg-primary/10" : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                          )}
+                        >
+                          <div className="font-semibold text-sm mb-1">{rating}</div>
+                          {competency.anchors[rating - 1]}
+                        </button>
+                      ))}
+                    </div>
+                    <Input
+                      placeholder="Evidence for this rating (optional)"
+                      value={current?.notes ?? ""}
+                      disabled={submitted}
+                      onChange={(e) => setRating(competency.key, { notes: e.target.value })}
+                    />
+                  </div>
+                );
+              })}
+
+              <div className="space-y-2">
+                <Label>Recommendation</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {RECOMMENDATIONS.map(option => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      size="sm"
+                      disabled={submitted}
+                      variant={recommendation === option.value ? "default" : "outline"}
+                      onClick={() => setRecommendation(option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="scorecard-notes">Overall notes</Label>
+                <Textarea
+                  id="scorecard-notes"
+                  rows={3}
+                  value={notes}
+                  disabled={submitted}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {submitted ? (
+            <p className="text-sm text-gray-500 mr-auto self-center">You submitted this scorecard; it can no longer be changed.</p>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleSave(false)} disabled={saving || !template || !memberId}>
+                Save draft
+              </Button>
+              <Button onClick={() => handleSave(true)} disabled={saving || !allRated || !recommendation}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScorecardDialog;
@@ -0,0 +1,104 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RECOMMENDATIONS, type PanelDecision, type ScorecardAggregate } from "@/utils/interviewScorecards";
+
+const DECISION_STYLES: Record<PanelDecision, { label: string; className: string }> = {
+  hire: { label: "Hire", className: "bg-green-100 text-green-700" },
+  no_hire: { label: "No hire", className: "bg-red-100 text-red-700" },
+  mixed: { label: "Mixed — debrief needed", className: "bg-yellow-100 text-yellow-700" },
+  pending: { label: "Awaiting scorecards", className: "bg-gray-100 text-gray-700" }
+};
+
+const recommendationLabel = (value: string | null) =>
+  RECOMMENDATIONS.find(option => option.value === value)?.label ?? "No recommendation";
+
+export const ScorecardDecisionBadge = ({ decision }: { decision: PanelDecision }) => (
+  <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", DECISION_STYLES[decision].className)}>
+    {DECISION_STYLES[decision].label}
+  </span>
+);
+
+// Panel view of the submitted scorecards: the recommendation, every
+// panelist's rating per competency, and where they disagree
+export const ScorecardSummary = ({ aggregate }: { aggregate: ScorecardAggregate }) => {
+  if (aggregate.panelists === 0) {
+    return <p className="text-sm text-gray-500">No scorecards have been submitted yet.</p>;
+  }
+
+  const panelists = aggregate.scorecards.map(scorecard => scorecard.interviewerName);
+  const uniquePanelists = [...new Set(panelists)];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <ScorecardDecisionBadge decision={aggregate.decision} />
+        <span className="text-sm text-gray-600">
+          {aggregate.weightedAverage.toFixed(1)} / 4 weighted average from {aggregate.panelists} panelist{aggregate.panelists === 1 ? "" : "s"}
+        </span>
+        <span className="text-sm text-gray-500">
+          {RECOMMENDATIONS.filter(option => aggregate.votes[option.value] > 0)
+            .map(option => `${aggregate.votes[option.value]} ${option.label.toLowerCase()}`)
+            .join(" · ")}
+        </span>
+      </div>
+
+      {aggregate.recommendationsDisagree && (
+        <div className="flex items-center gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          Panelists are split between hire and no hire.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium">Competency</th>
+              {uniquePanelists.map(name => (
+                <th key={name} className="py-2 px-2 font-medium text-center">{name}</th>
+              ))}
+              <th className="py-2 pl-2 font-medium text-center">Average</th>
+            </tr>
+          </thead>
+          <tbody>
+            {aggregate.competencies.map(competency => (
+              <tr key={competency.key} className={cn("border-b", competency.disagreement && "bg-yellow-50")}>
+                <td className="py-2 pr-4">
+                  <div className="flex items-center gap-1">
+                    {competency.label}
+                    {competency.disagreement && (
+                      <AlertTriangle className="h-3.5 w-3.5 text-yellow-600" aria-label="Panelists disagree" />
+                    )}
+                  </div>
+                </td>
+                {uniquePanelists.map(name => {
+                  const ratings = competency.ratings.filter(rating => rating.interviewerName === name);
+                  return (
+                    <td key={name} className="py-2 px-2 text-center" title={ratings.map(rating => rating.notes).filter(Boolean).join("\n")}>
+                      {ratings.length > 0 ? ratings.map(rating => rating.rating).join(", ") : "—"}
+                    </td>
+                  );
+                })}
+                <td className="py-2 pl-2 text-center font-medium">{competency.average.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-3">
+        {aggregate.scorecards.map(scorecard => (
+          <div key={scorecard.id} className="text-sm">
+            <div className="font-medium">
+              {scorecard.interviewerName}: {recommendationLabel(scorecard.recommendation)}
+            </div>
+            {scorecard.notes && <p className="text-gray-600 mt-1">{scorecard.notes}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScorecardSummary;
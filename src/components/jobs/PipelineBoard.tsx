@@ -0,0 +1,339 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ArrowRight, ClipboardList, GripVertical, History, MoreVertical } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import ScorecardSummary from "@/components/interview/ScorecardSummary";
+import {
+  aggregateScorecards,
+  fetchApplicationScorecards,
+  type ScorecardAggregate
+} from "@/utils/interviewScorecards";
+import {
+  fetchJobPipeline,
+  fetchPipelineTransitions,
+  fetchTransitionHistory,
+  moveApplicationStage,
+  PIPELINE_STAGES,
+  type PipelineApplication,
+  type PipelineStage,
+  type PipelineTransitionLog,
+  type PipelineTransitions
+} from "@/utils/pipelineApi";
+
+interface PipelineBoardProps {
+  jobId: string;
+}
+
+const STAGE_COLORS: Partial<Record<PipelineStage, string>> = {
+  Hired: "border-t-green-500",
+  "Offer Accepted": "border-t-green-400",
+  "Offer Extended": "border-t-emerald-400",
+  Rejected: "border-t-red-500",
+  "Offer Rejected": "border-t-red-400",
+  Withdrawn: "border-t-gray-400",
+  "On Hold": "border-t-amber-400"
+};
+
+const stageOf = (application: PipelineApplication): PipelineStage => application.pipeline_stage ?? "Applied";
+
+const candidateName = (application: PipelineApplication) =>
+  application.candidate
+    ? `${application.candidate.first_name} ${application.candidate.last_name === "-" ? "" : application.candidate.last_name}`.trim()
+    : "Unknown candidate";
+
+const TransitionHistoryDialog = ({
+  application,
+  onClose
+}: {
+  application: PipelineApplication | null;
+  onClose: () => void;
+}) => {
+  const [history, setHistory] = useState<PipelineTransitionLog[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!application) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        const logs = await fetchTransitionHistory(application.id);
+        setHistory(logs);
+
+        const actorIds = [...new Set(logs.map(log => log.actorId).filter(Boolean))] as string[];
+        if (actorIds.length > 0) {
+          const { data } = await supabase.from("profiles").select("id, full_name").in("id", actorIds);
+          setActors(Object.fromEntries((data ?? []).map(profile => [profile.id, profile.full_name || "HR member"])));
+        }
+      } catch (error) {
+        console.error("Error loading pipeline history:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [application]);
+
+  return (
+    <Dialog open={!!application} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{application ? `${candidateName(application)}: stage history` : "Stage history"}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This application has not moved yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {history.map(log => (
+              <li key={log.id} className="text-sm border-l-2 border-primary/40 pl-3">
+                <div className="flex items-center gap-2 font-medium">
+                  {log.fromStage} <ArrowRight className="h-3 w-3" /> {log.toStage}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(log.timestamp).toLocaleString()} by {log.actorId ? actors[log.actorId] || "HR member" : "system"}
+                </p>
+                {log.note && <p className="text-xs mt-1">{log.note}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const ApplicationScorecardsDialog = ({
+  application,
+  onClose
+}: {
+  application: PipelineApplication | null;
+  onClose: () => void;
+}) => {
+  const [aggregate, setAggregate] = useState<ScorecardAggregate | null>(null);
+
+  useEffect(() => {
+    if (!application) return;
+
+    setAggregate(null);
+    fetchApplicationScorecards(application.id)
+      .then(({ scorecards, templates }) => setAggregate(aggregateScorecards(scorecards, templates)))
+      .catch(error => console.error("Error loading scorecards:", error));
+  }, [application]);
+
+  return (
+    <Dialog open={!!application} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{application ? `${candidateName(application)}: interview scorecards` : "Interview scorecards"}</DialogTitle>
+        </DialogHeader>
+        {aggregate ? (
+          <ScorecardSummary aggregate={aggregate} />
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading scorecards...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Drag-and-drop board of a job's applications by pipeline stage. Columns a
+// card cannot move to are dimmed while it is dragged; the database makes the
+// final call and the card snaps back if the move is refused.
+export const PipelineBoard = ({ jobId }: PipelineBoardProps) => {
+  const [applications, setApplications] = useState<PipelineApplication[]>([]);
+  const [transitions, setTransitions] = useState<PipelineTransitions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<PipelineStage | null>(null);
+  const [historyFor, setHistoryFor] = useState<PipelineApplication | null>(null);
+  const [scorecardsFor, setScorecardsFor] = useState<PipelineApplication | null>(null);
+  const { toast } = useToast();
+
+  const loadBoard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rows, allowed] = await Promise.all([fetchJobPipeline(jobId), fetchPipelineTransitions()]);
+      setApplications(rows);
+      setTransitions(allowed);
+    } catch (error) {
+      console.error("Error loading pipeline:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the hiring pipeline",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const canMove = (application: PipelineApplication, toStage: PipelineStage) =>
+    !!transitions?.[stageOf(application)].includes(toStage);
+
+  const moveTo = async (application: PipelineApplication, toStage: PipelineStage) => {
+    const fromStage = stageOf(application);
+    if (fromStage === toStage) return;
+
+    if (!canMove(application, toStage)) {
+      toast({
+        title: "Move not allowed",
+        description: `Applications can't go from ${fromStage} to ${toStage}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Optimistic; reverted below if the database refuses
+    setApplications(prev => prev.map(app => (app.id === application.id ? { ...app, pipeline_stage: toStage } : app)));
+    try {
+      const updated = await moveApplicationStage(application.id, toStage);
+      setApplications(prev => prev.map(app => (app.id === application.id ? { ...app, ...updated } : app)));
+      toast({
+        title: "Stage updated",
+        description: `${candidateName(application)} moved to ${toStage}`
+      });
+    } catch (error) {
+      console.error("Error moving application:", error);
+      setApplications(prev => prev.map(app => (app.id === application.id ? { ...app, pipeline_stage: fromStage } : app)));
+      toast({
+        title: "Could not move application",
+        description: error instanceof Error ? error.message : "Failed to update the stage",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const draggedApplication = applications.find(app => app.id === draggingId) ?? null;
+
+  const handleDrop = (event: React.DragEvent, stage: PipelineStage) => {
+    event.preventDefault();
+    const application = applications.find(app => app.id === event.dataTransfer.getData("text/plain"));
+    setDraggingId(null);
+    setDropTarget(null);
+    if (application) moveTo(application, stage);
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading pipeline...</div>;
+  }
+
+  return (
+    <>
+      <div className="flex gap-3 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map(stage => {
+          const cards = applications.filter(app => stageOf(app) === stage);
+          const allowed = !draggedApplication || stageOf(draggedApplication) === stage || canMove(draggedApplication, stage);
+
+          return (
+            <div
+              key={stage}
+              className={`w-64 shrink-0 rounded-lg border border-t-4 bg-muted/40 transition-opacity ${
+                STAGE_COLORS[stage] ?? "border-t-primary"
+              } ${allowed ? "" : "opacity-40"} ${dropTarget === stage ? "ring-2 ring-primary" : ""}`}
+              onDragOver={(event) => {
+                if (draggedApplication && allowed && stageOf(draggedApplication) !== stage) {
+                  event.preventDefault();
+                  setDropTarget(stage);
+                }
+              }}
+              onDragLeave={() => setDropTarget(current => (current === stage ? null : current))}
+              onDrop={(event) => handleDrop(event, stage)}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <h3 className="text-sm font-semibold">{stage}</h3>
+                <Badge variant="secondary">{cards.length}</Badge>
+              </div>
+              <div className="space-y-2 px-2 pb-2 min-h-[120px]">
+                {cards.map(application => (
+                  <div
+                    key={application.id}
+                    draggable
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData("text/plain", application.id);
+                      event.dataTransfer.effectAllowed = "move";
+                      setDraggingId(application.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    className={`rounded-md border bg-background p-3 shadow-sm cursor-grab active:cursor-grabbing ${
+                      draggingId === application.id ? "opacity-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <GripVertical className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{candidateName(application)}</p>
+                        <p className="text-xs text-muted-foreground truncate">{application.candidate?.email}</p>
+                      </div>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Application actions">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                          {(transitions?.[stage] ?? []).map(target => (
+                            <DropdownMenuItem key={target} onSelect={() => moveTo(application, target)}>
+                              {target}
+                            </DropdownMenuItem>
+                          ))}
+                          {(transitions?.[stage] ?? []).length === 0 && (
+                            <DropdownMenuItem disabled>No further stages</DropdownMenuItem>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onSelect={() => setHistoryFor(application)}>
+                            <History className="h-4 w-4 mr-2" />
+                            Stage history
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => setScorecardsFor(application)}>
+                            <ClipboardList className="h-4 w-4 mr-2" />
+                            Interview scorecards
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                    <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                      {application.ai_score != null ? (
+                        <Badge variant="outline" className="text-xs">ATS {application.ai_score}%</Badge>
+                      ) : (
+                        <span />
+                      )}
+                      <span>{new Date(application.updated_at).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <TransitionHistoryDialog application={historyFor} onClose={() => setHistoryFor(null)} />
+      <ApplicationScorecardsDialog application={scorecardsFor} onClose={() => setScorecardsFor(null)} />
+    </>
+  );
+};
+
+export default PipelineBoard;
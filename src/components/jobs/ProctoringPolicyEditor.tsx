@@ -0,0 +1,160 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  PROCTORING_POLICY_PRESETS,
+  VIOLATION_LABELS,
+  VIOLATION_TYPES,
+  findPolicyPreset,
+  type ProctoringPolicy,
+  type ViolationRule,
+  type ViolationType
+} from "@/utils/proctoringPolicy";
+
+interface ProctoringPolicyEditorProps {
+  value: ProctoringPolicy;
+  onChange: (policy: ProctoringPolicy) => void;
+}
+
+const CUSTOM = "custom";
+
+const ProctoringPolicyEditor: React.FC<ProctoringPolicyEditorProps> = ({ value, onChange }) => {
+  const preset = findPolicyPreset(value) ?? CUSTOM;
+
+  const updateRule = (type: ViolationType, changes: Partial<ViolationRule>) => {
+    onChange({
+      ...value,
+      // Any manual tweak turns a preset into a custom policy
+      name: "Custom",
+      rules: { ...value.rules, [type]: { ...value.rules[type], ...changes } }
+    });
+  };
+
+  const updateSetting = (field: "pauseMs" | "strikeDecayMs" | "flagAtScore" | "terminateAtScore", fieldValue: number) => {
+    onChange({ ...value, name: "Custom", [field]: Number.isFinite(fieldValue) ? Math.max(0, fieldValue) : 0 });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold text-slate-700">Policy</Label>
+          <Select
+            value={preset}
+            onValueChange={(key) => key !== CUSTOM && onChange(PROCTORING_POLICY_PRESETS[key])}
+          >
+            <SelectTrigger className="h-12">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROCTORING_POLICY_PRESETS).map(([key, policy]) => (
+                <SelectItem key={key} value={key}>{policy.name}</SelectItem>
+              ))}
+              <SelectItem value={CUSTOM} disabled>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-slate-700">Pause (s)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={value.pauseMs / 1000}
+              onChange={(e) => updateSetting("pauseMs", parseFloat(e.target.value) * 1000)}
+              className="h-12"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-slate-700">Strike decay (min, 0 = never)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={value.strikeDecayMs / 60000}
+              onChange={(e) => updateSetting("strikeDecayMs", parseFloat(e.target.value) * 60000)}
+              className="h-12"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-slate-700">Flag at score</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.5"
+              value={value.flagAtScore}
+              onChange={(e) => updateSetting("flagAtScore", parseFloat(e.target.value))}
+              className="h-12"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-slate-700">Terminate at score</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.5"
+              value={value.terminateAtScore}
+              onChange={(e) => updateSetting("terminateAtScore", parseFloat(e.target.value))}
+              className="h-12"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="border border-slate-200 rounded-xl overflow-hidden">
+        <div className="grid grid-cols-12 gap-2 px-4 py-2 bg-slate-50 text-xs font-semibold text-slate-600">
+          <span className="col-span-3">Violation</span>
+          <span className="col-span-2">Grace (s)</span>
+          <span className="col-span-2">Weight</span>
+          <span className="col-span-5">Escalation</span>
+        </div>
+        {VIOLATION_TYPES.map((type) => {
+          const rule = value.rules[type];
+          return (
+            <div key={type} className="grid grid-cols-12 gap-2 items-center px-4 py-2 border-t border-slate-100">
+              <div className="col-span-3 flex items-center gap-2">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateRule(type, { enabled })}
+                />
+                <span className="text-sm text-slate-800">{VIOLATION_LABELS[type]}</span>
+              </div>
+              <Input
+                type="number"
+                min="0"
+                value={rule.graceMs / 1000}
+                disabled={!rule.enabled}
+                onChange={(e) => updateRule(type, { graceMs: Math.max(0, parseFloat(e.target.value) || 0) * 1000 })}
+                className="col-span-2 h-9"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={rule.weight}
+                disabled={!rule.enabled}
+                onChange={(e) => updateRule(type, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="col-span-2 h-9"
+              />
+              <div className="col-span-5 flex flex-wrap gap-1">
+                {rule.escalation.map((step) => (
+                  <Badge
+                    key={step.atStrike}
+                    variant={step.action === "terminate" ? "destructive" : "outline"}
+                    className="text-xs"
+                  >
+                    {step.atStrike}: {step.action}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProctoringPolicyEditor;
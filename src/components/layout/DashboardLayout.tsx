@@ -5,7 +5,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { 
   Briefcase, Calendar, ChevronLeft, ChevronRight, Cog, CpuIcon, Home, 
-  BarChart, LogOut, Users, Bell, Search, Menu, X
+  BarChart, LogOut, Users, Bell, Search, Menu, X, ShieldCheck
 } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
 import { cn } from "@/lib/utils";
@@ -40,6 +40,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
     { name: "Candidates", icon: Users, path: "/hr-dashboard/candidates" },
     { name: "AI Agents", icon: CpuIcon, path: "/hr-dashboard/ai-agents" },
     { name: "Interviews", icon: Calendar, path: "/hr-dashboard/interviews" },
+    { name: "Documents", icon: ShieldCheck, path: "/hr-dashboard/documents" },
     { name: "Analytics", icon: BarChart, path: "/hr-dashboard/analytics" },
     { name: "Settings", icon: Cog, path: "/hr-dashboard/settings" },
   ];
@@ -2,7 +2,8 @@
 import React, { useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Check, AlertCircle, Target, FileText, Key, Layout } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Check, AlertCircle, Target, FileText, Key, Layout, ListChecks } from "lucide-react";
 import { ATSScoreData } from "@/utils/atsScoreApi";
 import * as THREE from "three";
 
@@ -133,6 +134,13 @@ const ATSScoreGauge = ({ score }: { score: number }) => {
   );
 };
 
+// How the displayed numbers were produced, see generateATSScore
+const describeScoringMode = (scoreData: ATSScoreData) => {
+  if (scoreData.scoringMode === "rules") return "Rule-based score";
+  const rulesShare = Math.round((scoreData.rulesWeight ?? 0) * 100);
+  return `${rulesShare}% rules · ${100 - rulesShare}% AI`;
+};
+
 export const ATSScoreDisplay = ({ scoreData, isLoading }: ATSScoreDisplayProps) => {
   if (isLoading) {
     return (
@@ -243,6 +251,48 @@ export const ATSScoreDisplay = ({ scoreData, isLoading }: ATSScoreDisplayProps)
           </div>
         </div>
 
+        {scoreData.breakdown && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-modern-blue-800 flex items-center font-sf-pro">
+                <ListChecks className="h-4 w-4 text-modern-blue-500 mr-2" />
+                Score Breakdown:
+              </h3>
+              <Badge variant="outline" className="font-poppins">{describeScoringMode(scoreData)}</Badge>
+            </div>
+            <div className="space-y-2">
+              {scoreData.breakdown.rules.map((rule) => (
+                <div key={rule.id} className="glassmorphism p-3 rounded-lg space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm flex items-center font-poppins">
+                      {rule.passed ? (
+                        <Check className="h-4 w-4 text-green-500 mr-2" />
+                      ) : (
+                        <AlertCircle className="h-4 w-4 text-amber-500 mr-2" />
+                      )}
+                      {rule.label}
+                    </span>
+                    <span className={`text-sm font-semibold ${getScoreColor(rule.score)} font-poppins`}>
+                      {rule.score}%
+                    </span>
+                  </div>
+                  <Progress value={rule.score} className="h-1.5" {...getProgressProps(rule.score)} />
+                  <p className="text-xs text-gray-600 font-poppins">{rule.detail}</p>
+                  {rule.evidence.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {rule.evidence.map((item) => (
+                        <Badge key={item} variant="secondary" className="text-xs font-normal">
+                          {item}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-2">
           <h3 className="text-sm font-semibold text-modern-blue-800 flex items-center font-sf-pro">
             <AlertCircle className="h-4 w-4 text-amber-500 mr-2" />
@@ -0,0 +1,75 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScanText } from "lucide-react";
+import type { ParsedResume, ResumeParserResponse } from "@/types/interview";
+
+interface ParsedResumeSummaryProps {
+  resume: ParsedResume;
+}
+
+const FIELD_LABELS: Record<keyof ResumeParserResponse, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  skills: "Skills",
+  workExperience: "Experience",
+  education: "Education",
+  certifications: "Certifications"
+};
+
+const confidenceBadge = (confidence: number) => {
+  if (confidence >= 0.8) return "bg-green-100 text-green-800";
+  if (confidence >= 0.5) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+};
+
+const describeField = (resume: ResumeParserResponse, field: keyof ResumeParserResponse): string => {
+  switch (field) {
+    case "skills":
+      return resume.skills.join(", ");
+    case "workExperience":
+      return resume.workExperience
+        .map((job) => [job.position, job.company].filter(Boolean).join(" at ") + (job.duration ? ` (${job.duration})` : ""))
+        .join("; ");
+    case "education":
+      return resume.education
+        .map((entry) => [entry.degree, entry.field].filter(Boolean).join(" in ") + (entry.institution ? `, ${entry.institution}` : ""))
+        .join("; ");
+    case "certifications":
+      return resume.certifications.join("; ");
+    default:
+      return resume[field] || "";
+  }
+};
+
+// What the parser read from a resume, so low-confidence fields can be checked by hand
+export const ParsedResumeSummary = ({ resume }: ParsedResumeSummaryProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <ScanText className="h-5 w-5" />
+        Extracted From Your Resume
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-3">
+      {(Object.keys(FIELD_LABELS) as (keyof ResumeParserResponse)[]).map((field) => {
+        const confidence = resume.confidence[field];
+        const value = describeField(resume.data, field);
+        return (
+          <div key={field} className="flex items-start gap-3 text-sm">
+            <span className="w-28 shrink-0 font-medium text-gray-700">{FIELD_LABELS[field]}</span>
+            <span className={`flex-1 ${value ? "text-gray-600" : "text-gray-400 italic"}`}>
+              {value || "Not found"}
+            </span>
+            <Badge className={confidenceBadge(confidence)}>
+              {Math.round(confidence * 100)}%
+            </Badge>
+          </div>
+        );
+      })}
+    </CardContent>
+  </Card>
+);
+
+export default ParsedResumeSummary;
@@ -12,6 +12,15 @@ import {
   UserActivity
 } from '@/types/blockchain';
 import { hasWeb3Support } from '@/utils/qwixMaskWallet';
+import { issueCertificateForExam } from '@/utils/certificationExams';
+import { checkDocumentOnChain, checkDocumentRegistry } from '@/utils/blockchain';
+import {
+  CREDENTIAL_CHAIN_MODE,
+  CredentialChainError,
+  getCredentialNFTClient,
+  isDevChainMissing
+} from '@/utils/credentialNFT';
+import { attachCertificateAnchors, queueCertificateAnchor, withAnchor } from '@/utils/certificateAnchoring';
 import QRCode from 'qrcode';
 
 interface BlockchainContextType {
@@ -27,7 +36,7 @@ interface BlockchainContextType {
   getUserDocuments: () => Promise<BlockchainDocument[]>;
   getUserQwixVaultId: () => string;
   getUserCertificates: () => Promise<Certificate[]>;
-  generateCertificate: (testId: string, score: number, title: string) => Promise<Certificate | null>;
+  generateCertificate: (testId: string) => Promise<Certificate | null>;
   saveCertificateToVault: (certificate: Certificate) => Promise<boolean>;
   getVaultUser: () => QwixVaultUser | null;
   generateQrCodeForDocument?: (document: BlockchainDocument) => Promise<string>;
@@ -196,12 +205,31 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
   };
 
   const mintDocumentAsNFT = async (ipfsUri: string, uniqueId: string) => {
+    const verificationUrl = `${window.location.origin}/verify-document/${uniqueId}`;
+
     try {
+      if (CREDENTIAL_CHAIN_MODE === 'chain') {
+        try {
+          const minted = await getCredentialNFTClient().mint(account, uniqueId, ipfsUri);
+
+          return {
+            success: true,
+            txHash: minted.txHash,
+            tokenId: minted.tokenId,
+            contractAddress: minted.contractAddress,
+            chainId: minted.chainId,
+            verificationUrl
+          };
+        } catch (error) {
+          if (!isDevChainMissing(error)) throw error;
+          console.warn('No dev chain running, simulating the mint:', error);
+        }
+      }
+
       await new Promise(resolve => setTimeout(resolve, 1500));
       
       const txHash = `0x${Array(64).fill(0).map(() => Math.random().toString(16)[2]).join('')}`;
       const tokenId = Math.floor(Math.random() * 10000000);
-      const verificationUrl = `${window.location.origin}/verify-document/${uniqueId}`;
       
       return {
         success: true,
@@ -211,14 +239,13 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
       };
     } catch (error) {
       console.error("Error minting NFT:", error);
+      if (error instanceof CredentialChainError) throw error;
       throw new Error("Failed to mint document as NFT");
     }
   };
 
   const verifyDocument = async (uniqueId: string): Promise<DocumentVerification> => {
     try {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
       let foundDocument: BlockchainDocument | null = null;
       
       if (vaultUser) {
@@ -248,22 +275,12 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
         }
       }
       
-      if (foundDocument) {
-        return {
-          isValid: true,
-          document: foundDocument
-        };
-      } else {
-        return {
-          isValid: false,
-          error: "Document not found or has been revoked"
-        };
-      }
+      return await checkDocumentOnChain(uniqueId, await checkDocumentRegistry(uniqueId, foundDocument));
     } catch (error) {
       console.error("Error verifying document:", error);
       return {
         isValid: false,
-        error: "Verification process failed"
+        error: error instanceof CredentialChainError ? error.message : "Verification process failed"
       };
     }
   };
@@ -300,7 +317,19 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
       await new Promise(resolve => setTimeout(resolve, 500));
       
       if (vaultUser) {
-        return [...vaultUser.certificates];
+        // Pick up inclusion proofs for certificates anchored since they were saved
+        const certificates = await attachCertificateAnchors(vaultUser.certificates);
+        if (user && certificates.some((certificate, index) => certificate !== vaultUser.certificates[index])) {
+          const vaultUsersStr = localStorage.getItem('qwixvault_users');
+          const vaultUsers = vaultUsersStr ? JSON.parse(vaultUsersStr) : {};
+          
+          if (vaultUsers[user.email]) {
+            vaultUsers[user.email].certificates = certificates;
+            localStorage.setItem('qwixvault_users', JSON.stringify(vaultUsers));
+            setVaultUser(vaultUsers[user.email]);
+          }
+        }
+        return [...certificates];
       }
       
       return [];
@@ -310,11 +339,19 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
     }
   };
 
-  const generateCertificate = async (
-    testId: string, 
-    score: number, 
-    title: string
-  ): Promise<Certificate | null> => {
+  // Queue a certificate's digest for the next anchored batch. Anchoring is
+  // background work: a certificate that can't be queued now is picked up later.
+  const anchorFor = async (certificate: Certificate) => {
+    try {
+      return await queueCertificateAnchor(certificate.id);
+    } catch (error) {
+      console.warn("Could not queue certificate for anchoring:", error);
+      return null;
+    }
+  };
+
+  // Issued and signed by the server for the user's passed attempt at the test
+  const generateCertificate = async (testId: string): Promise<Certificate | null> => {
     if (!vaultUser || !isConnected) {
       toast({
         title: "Vault not connected",
@@ -325,35 +362,9 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
     }
     
     try {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const certHash = `QC${Date.now().toString(36)}-${uuidv4().substring(0, 8)}`;
-      const txHash = `0x${Array(64).fill(0).map(() => Math.random().toString(16)[2]).join('')}`;
-      const blockId = Math.floor(Math.random() * 10000000);
-      const uniqueId = `cert-${Date.now().toString(36)}-${uuidv4().substring(0, 8)}`;
-      
-      const newCertificate: Certificate = {
-        id: uuidv4(),
-        testId,
-        title,
-        score,
-        issuedDate: new Date().toISOString(),
-        isPublic: true,
-        certHash,
-        txHash,
-        blockId,
-        issuerName: "QwixCert Authority",
-        holderName: user?.name || "Verified Holder",
-        holderEmail: user?.email || "",
-        vaultId: vaultUser.vaultId,
-        recipientName: user?.name || "Verified Holder",
-        recipientEmail: user?.email || "",
-        uniqueId,
-        blockchainNetwork: "Polygon",
-        issuer: "QwixCert Authority",
-        contractAddress: `0x${Array(40).fill(0).map(() => Math.random().toString(16)[2]).join('')}`,
-        smartContractStandard: "ERC-721"
-      };
+      const issued = await issueCertificateForExam(testId, user?.name || "Verified Holder");
+      const newCertificate = withAnchor(issued, await anchorFor(issued));
+      const { title, score } = newCertificate;
 
       const activity: UserActivity = {
         id: uuidv4(),
@@ -407,6 +418,10 @@ export const BlockchainProvider: React.FC<BlockchainProviderProps> = ({ children
     }
     
     try {
+      if (!certificate.anchor && certificate.signature) {
+        certificate = withAnchor(certificate, await anchorFor(certificate));
+      }
+      
       const vaultUsersStr = localStorage.getItem('qwixvault_users');
       const vaultUsers = vaultUsersStr ? JSON.parse(vaultUsersStr) : {};
       
@@ -0,0 +1,35 @@
+// ABI and creation bytecode of contracts/CredentialNFT.sol. Regenerate both
+// when the contract changes (solc 0.8.26, optimizer 200 runs, evmVersion paris).
+
+export const CREDENTIAL_NFT_ABI = [
+  'event AdminTransferred(address indexed previousAdmin, address indexed newAdmin)',
+  'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+  'event CredentialMinted(uint256 indexed tokenId, address indexed issuer, address indexed to, string credentialId, string tokenURI)',
+  'event MinterUpdated(address indexed account, bool allowed)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'function admin() view returns (address)',
+  'function approve(address to, uint256 tokenId)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function getApproved(uint256 tokenId) view returns (address)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+  'function isMinter(address) view returns (bool)',
+  'function issuerOf(uint256 tokenId) view returns (address)',
+  'function mint(address to, string credentialId, string uri) returns (uint256 tokenId)',
+  'function name() view returns (string)',
+  'function ownerOf(uint256 tokenId) view returns (address owner)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function setMinter(address account, bool allowed)',
+  'function supportsInterface(bytes4 interfaceId) pure returns (bool)',
+  'function symbol() view returns (string)',
+  'function tokenOfCredential(string credentialId) view returns (uint256 tokenId)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+  'function totalSupply() view returns (uint256)',
+  'function transferAdmin(address newAdmin)',
+  'function transferFrom(address from, address to, uint256 tokenId)'
+] as const;
+
+export const CREDENTIAL_NFT_BYTECODE =
+  '0x6080604052348015600f57600080fd5b50600180546001600160a01b031916339081178255600081815260026020526040808220805460ff191690941790935591519091907ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec6908290a36040516001815233907fb21afb9ce9be0a676f8f317ff0ca072fb89a4f8ce2d1b6fe80f8755c14f1cb199060200160405180910390a2611664806100ae6000396000f3fe608060405234801561001057600080fd5b50600436106101375760003560e01c806375829def116100b8578063aa271e1a1161007c578063aa271e1a146102c9578063b88d4fde146102ec578063c87b56dd146102ff578063cf456ae714610312578063e985e9c514610325578063f851a4401461036157600080fd5b806375829def1461025a57806395d89b411461026d5780639907119014610290578063a22cb465146102a3578063a4e2ee11146102b657600080fd5b806318160ddd116100ff57806318160ddd1461020557806323b872dd1461020e57806342842e0e146102215780636352211e1461023457806370a082311461024757600080fd5b806301ffc9a71461013c57806303de1d8a1461016457806306fdde0314610185578063081812fc146101c5578063095ea7b3146101f0575b600080fd5b61014f61014a366004610fdd565b610374565b60405190151581526020015b60405180910390f35b61017761017236600461104a565b6103c6565b60405190815260200161015b565b6101b860405180604001604052806014815260200173145dda5615985d5b1d0810dc9959195b9d1a585b60621b81525081565b60405161015b91906110d2565b6101d86101d33660046110e5565b610454565b6040516001600160a01b03909116815260200161015b565b6102036101fe366004611115565b61047c565b005b61017760005481565b61020361021c36600461113f565b610588565b61020361022f36600461113f565b610800565b6101d86102423660046110e5565b610820565b61017761025536600461117c565b61088a565b61020361026836600461117c565b610911565b6101b8604051806040016040528060048152602001635158564360e01b81525081565b61017761029e366004611197565b610a02565b6102036102b136600461121d565b610cf6565b6101d86102c43660046110e5565b610d62565b61014f6102d736600461117c565b60026020526000908152604090205460ff1681565b6102036102fa36600461126f565b610d8a565b6101b861030d3660046110e5565b610e91565b61020361032036600461121d565b610f3b565b61014f610333366004611353565b6001600160a01b03918216600090815260066020908152604080832093909416825291909152205460ff1690565b6001546101d8906001600160a01b031681565b60006301ffc9a760e01b6001600160e01b0319831614806103a557506380ac58cd60e01b6001600160e01b03198316145b806103c05750635b5e139f60e01b6001600160e01b03198316145b92915050565b60006009600084846040516103dc929190611386565b60405180910390208152602001908152602001600020549050806000036103c05760405162461bcd60e51b815260206004820152602160248201527f43726564656e7469616c4e46543a20756e6b6e6f776e2063726564656e7469616044820152601b60fa1b60648201526084015b60405180910390fd5b600061045f82610820565b50506000908152600560205260409020546001600160a01b031690565b600061048782610820565b9050336001600160a01b03821614806104c357506001600160a01b038116600090815260066020908152604080832033845290915290205460ff165b61052c5760405162461bcd60e51b815260206004820152603460248201527f43726564656e7469616c4e46543a206e6f7420746865206f776e6572206f722060448201527330b71030b8383937bb32b21037b832b930ba37b960611b606482015260840161044b565b60008281526005602052604080822080546001600160a01b0319166001600160a01b0387811691821790925591518593918516917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92591a4505050565b600061059382610820565b9050836001600160a01b0316816001600160a01b03161461060b5760405162461bcd60e51b815260206004820152602c60248201527f43726564656e7469616c4e46543a207472616e736665722066726f6d2074686560448201526b103bb937b7339037bbb732b960a11b606482015260840161044b565b6001600160a01b0383166106755760405162461bcd60e51b815260206004820152602b60248201527f43726564656e7469616c4e46543a207472616e7366657220746f20746865207a60448201526a65726f206164647265737360a81b606482015260840161044b565b336001600160a01b03821614806106a257506000828152600560205260409020546001600160a01b031633145b806106d057506001600160a01b038116600090815260066020908152604080832033845290915290205460ff165b61072d5760405162461bcd60e51b815260206004820152602860248201527f43726564656e7469616c4e46543a206e6f7420746865206f776e6572206f7220604482015267185c1c1c9bdd995960c21b606482015260840161044b565b600082815260056020908152604080832080546001600160a01b03191690556001600160a01b0387168352600490915281208054600192906107709084906113ac565b90915550506001600160a01b038316600090815260046020526040812080546001929061079e9084906113bf565b909155505060008281526003602052604080822080546001600160a01b0319166001600160a01b0387811691821790925591518593918816917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a450505050565b61081b83838360405180602001604052806000815250610d8a565b505050565b6000818152600360205260409020546001600160a01b0316806108855760405162461bcd60e51b815260206004820181905260248201527f43726564656e7469616c4e46543a206e6f6e6578697374656e7420746f6b656e604482015260640161044b565b919050565b60006001600160a01b0382166108f55760405162461bcd60e51b815260206004820152602a60248201527f43726564656e7469616c4e46543a2062616c616e6365206f6620746865207a65604482015269726f206164647265737360b01b606482015260840161044b565b506001600160a01b031660009081526004602052604090205490565b6001546001600160a01b0316331461093b5760405162461bcd60e51b815260040161044b906113d2565b6001600160a01b0381166109a65760405162461bcd60e51b815260206004820152602c60248201527f43726564656e7469616c4e46543a206e65772061646d696e206973207468652060448201526b7a65726f206164647265737360a01b606482015260840161044b565b6001546040516001600160a01b038084169216907ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec690600090a3600180546001600160a01b0319166001600160a01b0392909216919091179055565b3360009081526002602052604081205460ff16610a6f5760405162461bcd60e51b815260206004820152602560248201527f43726564656e7469616c4e46543a2063616c6c6572206973206e6f742061206d60448201526434b73a32b960d91b606482015260840161044b565b6001600160a01b038616610ad55760405162461bcd60e51b815260206004820152602760248201527f43726564656e7469616c4e46543a206d696e7420746f20746865207a65726f206044820152666164647265737360c81b606482015260840161044b565b83610b2d5760405162461bcd60e51b815260206004820152602260248201527f43726564656e7469616c4e46543a20656d7074792063726564656e7469616c206044820152611a5960f21b606482015260840161044b565b60008585604051610b3f929190611386565b604051809103902090506009600082815260200190815260200160002054600014610bbd5760405162461bcd60e51b815260206004820152602860248201527f43726564656e7469616c4e46543a2063726564656e7469616c20616c726561646044820152671e481b5a5b9d195960c21b606482015260840161044b565b6000808154610bcb90611418565b918290555060008281526009602090815260408083208490558383526003825280832080546001600160a01b0319166001600160a01b038d169081179091558352600490915281208054929450600192909190610c299084906113bf565b90915550506000828152600760205260409020610c478486836114b9565b5060008281526008602052604080822080546001600160a01b031916331790555183916001600160a01b038a16917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908290a4866001600160a01b0316336001600160a01b0316837f72ce36b3642cdb7e30427ad9c1731f81e7d21e296f97a71401fdc7f1f2c0821e89898989604051610ce494939291906115a2565b60405180910390a45095945050505050565b3360008181526006602090815260408083206001600160a01b03871680855290835292819020805460ff191686151590811790915590519081529192917f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910160405180910390a35050565b6000610d6d82610820565b50506000908152600860205260409020546001600160a01b031690565b610d95848484610588565b6001600160a01b0383163b15610e8b57604051630a85bd0160e11b808252906001600160a01b0385169063150b7a0290610dd99033908990889088906004016115d4565b6020604051808303816000875af1158015610df8573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610e1c9190611611565b6001600160e01b03191614610e8b5760405162461bcd60e51b815260206004820152602f60248201527f43726564656e7469616c4e46543a207472616e7366657220746f2061206e6f6e60448201526e1022a9219b9918a932b1b2b4bb32b960891b606482015260840161044b565b50505050565b6060610e9c82610820565b5060008281526007602052604090208054610eb690611431565b80601f0160208091040260200160405190810160405280929190818152602001828054610ee290611431565b8015610f2f5780601f10610f0457610100808354040283529160200191610f2f565b820191906000526020600020905b815481529060010190602001808311610f1257829003601f168201915b50505050509050919050565b6001546001600160a01b03163314610f655760405162461bcd60e51b815260040161044b906113d2565b6001600160a01b038216600081815260026020908152604091829020805460ff191685151590811790915591519182527fb21afb9ce9be0a676f8f317ff0ca072fb89a4f8ce2d1b6fe80f8755c14f1cb19910160405180910390a25050565b6001600160e01b031981168114610fda57600080fd5b50565b600060208284031215610fef57600080fd5b8135610ffa81610fc4565b9392505050565b60008083601f84011261101357600080fd5b50813567ffffffffffffffff81111561102b57600080fd5b60208301915083602082850101111561104357600080fd5b9250929050565b6000806020838503121561105d57600080fd5b823567ffffffffffffffff81111561107457600080fd5b61108085828601611001565b90969095509350505050565b6000815180845260005b818110156110b257602081850181015186830182015201611096565b506000602082860101526020601f19601f83011685010191505092915050565b602081526000610ffa602083018461108c565b6000602082840312156110f757600080fd5b5035919050565b80356001600160a01b038116811461088557600080fd5b6000806040838503121561112857600080fd5b611131836110fe565b946020939093013593505050565b60008060006060848603121561115457600080fd5b61115d846110fe565b925061116b602085016110fe565b929592945050506040919091013590565b60006020828403121561118e57600080fd5b610ffa826110fe565b6000806000806000606086880312156111af57600080fd5b6111b8866110fe565b9450602086013567ffffffffffffffff8111156111d457600080fd5b6111e088828901611001565b909550935050604086013567ffffffffffffffff81111561120057600080fd5b61120c88828901611001565b969995985093965092949392505050565b6000806040838503121561123057600080fd5b611239836110fe565b91506020830135801515811461124e57600080fd5b809150509250929050565b634e487b7160e01b600052604160045260246000fd5b6000806000806080858703121561128557600080fd5b61128e856110fe565b935061129c602086016110fe565b925060408501359150606085013567ffffffffffffffff8111156112bf57600080fd5b8501601f810187136112d057600080fd5b803567ffffffffffffffff8111156112ea576112ea611259565b604051601f8201601f19908116603f0116810167ffffffffffffffff8111828210171561131957611319611259565b60405281815282820160200189101561133157600080fd5b8160208401602083013760006020838301015280935050505092959194509250565b6000806040838503121561136657600080fd5b61136f836110fe565b915061137d602084016110fe565b90509250929050565b8183823760009101908152919050565b634e487b7160e01b600052601160045260246000fd5b818103818111156103c0576103c0611396565b808201808211156103c0576103c0611396565b60208082526026908201527f43726564656e7469616c4e46543a2063616c6c6572206973206e6f74207468656040820152651030b236b4b760d11b606082015260800190565b60006001820161142a5761142a611396565b5060010190565b600181811c9082168061144557607f821691505b60208210810361146557634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561081b57806000526020600020601f840160051c810160208510156114925750805b601f840160051c820191505b818110156114b2576000815560010161149e565b5050505050565b67ffffffffffffffff8311156114d1576114d1611259565b6114e5836114df8354611431565b8361146b565b6000601f84116001811461151957600085156115015750838201355b600019600387901b1c1916600186901b1783556114b2565b600083815260209020601f19861690835b8281101561154a578685013582556020948501946001909201910161152a565b50868210156115675760001960f88860031b161c19848701351681555b505060018560011b0183555050505050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b6040815260006115b6604083018688611579565b82810360208401526115c9818587611579565b979650505050505050565b6001600160a01b03858116825284166020820152604081018390526080606082018190526000906116079083018461108c565b9695505050505050565b60006020828403121561162357600080fd5b8151610ffa81610fc456fea26469706673582212204ae43e7829ebae746e951ede5c6954087b77eef43544d79f608c596a0347acfc64736f6c634300081a0033';
@@ -8,7 +8,6 @@ import {
   generateInterviewFeedback,
   generateEnhancedPDF 
 } from "@/utils/interviewAI";
-import { apiKeys } from "@/utils/apiKeys";
 
 export const useInterviewSimulator = () => {
   const { toast } = useToast();
@@ -50,9 +49,6 @@ export const useInterviewSimulator = () => {
     setIsLoading(true);
     
     try {
-      // For demo purposes, use a predefined Gemini API key or simulated data
-      const geminiKey = apiKeys.GEMINI_API_KEY || 'demo-key';
-      
       const generatedQuestions = await analyzeResumeAndGenerateQuestions({
         jobTitle: jobRole,
         jobLevel: 'mid',  // Default to mid-level
@@ -61,7 +57,7 @@ export const useInterviewSimulator = () => {
         duration: timePerQuestion * 8 / 60, // Estimate total duration based on questions
         difficulty: 'medium',
         interviewType: 'mixed'
-      }, geminiKey);
+      });
       
       if (!generatedQuestions || generatedQuestions.length === 0) {
         throw new Error("Failed to generate interview questions");
@@ -193,16 +189,12 @@ export const useInterviewSimulator = () => {
       // Get AI feedback
       const currentQuestion = questions[currentQuestionIndex];
       
-      // For demo purposes, use a predefined Gemini API key
-      const geminiKey = apiKeys.GEMINI_API_KEY || 'demo-key';
-      
       // Generate feedback
       const feedbackText = await evaluateAnswer(
         currentQuestion.question,
         answer,
         jobRole,
-        'mid-level',  // Default level
-        geminiKey
+        'mid-level'  // Default level
       );
       
       // Create feedback object
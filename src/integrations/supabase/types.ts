@@ -53,6 +53,161 @@ export type Database = {
           },
         ]
       }
+      ai_agent_decisions: {
+        Row: {
+          agent_id: string
+          application_id: string | null
+          candidate_id: string | null
+          confidence: number | null
+          created_at: string
+          decision: string
+          hr_decided_at: string | null
+          hr_decision: string | null
+          id: string
+          rationale: string | null
+          score: number | null
+          task_id: string
+        }
+        Insert: {
+          agent_id: string
+          application_id?: string | null
+          candidate_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          decision: string
+          hr_decided_at?: string | null
+          hr_decision?: string | null
+          id?: string
+          rationale?: string | null
+          score?: number | null
+          task_id: string
+        }
+        Update: {
+          agent_id?: string
+          application_id?: string | null
+          candidate_id?: string | null
+          confidence?: number | null
+          created_at?: string
+          decision?: string
+          hr_decided_at?: string | null
+          hr_decision?: string | null
+          id?: string
+          rationale?: string | null
+          score?: number | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_agent_decisions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_agent_decisions_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_agent_decisions_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_agent_decisions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agent_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_agent_tasks: {
+        Row: {
+          agent_id: string
+          attempts: number
+          company_id: string
+          created_at: string
+          created_by: string | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          locked_at: string | null
+          max_attempts: number
+          params: Json
+          progress_done: number
+          progress_total: number | null
+          result: Json | null
+          run_after: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["ai_agent_task_status"]
+          task_type: string
+          updated_at: string
+        }
+        Insert: {
+          agent_id: string
+          attempts?: number
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          locked_at?: string | null
+          max_attempts?: number
+          params?: Json
+          progress_done?: number
+          progress_total?: number | null
+          result?: Json | null
+          run_after?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["ai_agent_task_status"]
+          task_type: string
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          attempts?: number
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          locked_at?: string | null
+          max_attempts?: number
+          params?: Json
+          progress_done?: number
+          progress_total?: number | null
+          result?: Json | null
+          run_after?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["ai_agent_task_status"]
+          task_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_agent_tasks_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_agent_tasks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_agents: {
         Row: {
           accuracy_rate: number | null
@@ -96,6 +251,39 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_gateway_usage: {
+        Row: {
+          created_at: string
+          id: string
+          latency_ms: number | null
+          model: string | null
+          prompt_chars: number
+          provider: string
+          response_chars: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          latency_ms?: number | null
+          model?: string | null
+          prompt_chars?: number
+          provider: string
+          response_chars?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          latency_ms?: number | null
+          model?: string | null
+          prompt_chars?: number
+          provider?: string
+          response_chars?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       analytics_metrics: {
         Row: {
           category: string | null
@@ -134,6 +322,50 @@ export type Database = {
           },
         ]
       }
+      anchor_batches: {
+        Row: {
+          anchored_at: string
+          id: string
+          key_id: string
+          leaf_count: number
+          previous_hash: string | null
+          root: string
+          sequence: number
+          signature: string
+          statement: Json
+        }
+        Insert: {
+          anchored_at?: string
+          id?: string
+          key_id: string
+          leaf_count: number
+          previous_hash?: string | null
+          root: string
+          sequence: number
+          signature: string
+          statement: Json
+        }
+        Update: {
+          anchored_at?: string
+          id?: string
+          key_id?: string
+          leaf_count?: number
+          previous_hash?: string | null
+          root?: string
+          sequence?: number
+          signature?: string
+          statement?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "anchor_batches_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "certificate_issuer_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       applications: {
         Row: {
           ai_score: number | null
@@ -273,16 +505,19 @@ export type Database = {
       }
       ats_scan_results: {
         Row: {
+          application_id: string | null
           content_score: number
           created_at: string | null
           file_name: string
           file_size: number | null
           format_score: number
           id: string
+          job_id: string | null
           job_match: string | null
           keyword_score: number
           overall_score: number
           scan_date: string | null
+          scoring_method: string | null
           strengths: string[] | null
           suggestions: string[]
           updated_at: string | null
@@ -290,16 +525,19 @@ export type Database = {
           weaknesses: string[] | null
         }
         Insert: {
+          application_id?: string | null
           content_score: number
           created_at?: string | null
           file_name: string
           file_size?: number | null
           format_score: number
           id?: string
+          job_id?: string | null
           job_match?: string | null
           keyword_score: number
           overall_score: number
           scan_date?: string | null
+          scoring_method?: string | null
           strengths?: string[] | null
           suggestions: string[]
           updated_at?: string | null
@@ -307,23 +545,73 @@ export type Database = {
           weaknesses?: string[] | null
         }
         Update: {
+          application_id?: string | null
           content_score?: number
           created_at?: string | null
           file_name?: string
           file_size?: number | null
           format_score?: number
           id?: string
+          job_id?: string | null
           job_match?: string | null
           keyword_score?: number
           overall_score?: number
           scan_date?: string | null
+          scoring_method?: string | null
           strengths?: string[] | null
           suggestions?: string[]
           updated_at?: string | null
           user_id?: string
           weaknesses?: string[] | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "ats_scan_results_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ats_scan_results_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_availability: {
+        Row: {
+          candidate_id: string
+          created_at: string
+          ends_at: string
+          id: string
+          starts_at: string
+        }
+        Insert: {
+          candidate_id: string
+          created_at?: string
+          ends_at: string
+          id?: string
+          starts_at: string
+        }
+        Update: {
+          candidate_id?: string
+          created_at?: string
+          ends_at?: string
+          id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_availability_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       candidates: {
         Row: {
@@ -390,6 +678,295 @@ export type Database = {
           },
         ]
       }
+      certificate_anchors: {
+        Row: {
+          batch_id: string | null
+          cert_hash: string
+          certificate_id: string
+          leaf_index: number | null
+          proof: Json | null
+          queued_at: string
+        }
+        Insert: {
+          batch_id?: string | null
+          cert_hash: string
+          certificate_id: string
+          leaf_index?: number | null
+          proof?: Json | null
+          queued_at?: string
+        }
+        Update: {
+          batch_id?: string | null
+          cert_hash?: string
+          certificate_id?: string
+          leaf_index?: number | null
+          proof?: Json | null
+          queued_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_anchors_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "anchor_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificate_anchors_certificate_id_fkey"
+            columns: ["certificate_id"]
+            isOneToOne: true
+            referencedRelation: "issued_certificates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificate_issuer_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          id: string
+          issuer: string
+          public_jwk: Json
+          retired_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          id: string
+          issuer: string
+          public_jwk: Json
+          retired_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          id?: string
+          issuer?: string
+          public_jwk?: Json
+          retired_at?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      certification_attempts: {
+        Row: {
+          ability: number | null
+          ability_standard_error: number | null
+          answers: Json | null
+          correct_count: number | null
+          created_at: string
+          exam_id: string
+          expires_at: string
+          id: string
+          mode: string
+          passed: boolean | null
+          question_ids: string[]
+          score: number | null
+          started_at: string
+          status: string
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ability?: number | null
+          ability_standard_error?: number | null
+          answers?: Json | null
+          correct_count?: number | null
+          created_at?: string
+          exam_id: string
+          expires_at: string
+          id?: string
+          mode?: string
+          passed?: boolean | null
+          question_ids: string[]
+          score?: number | null
+          started_at?: string
+          status?: string
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ability?: number | null
+          ability_standard_error?: number | null
+          answers?: Json | null
+          correct_count?: number | null
+          created_at?: string
+          exam_id?: string
+          expires_at?: string
+          id?: string
+          mode?: string
+          passed?: boolean | null
+          question_ids?: string[]
+          score?: number | null
+          started_at?: string
+          status?: string
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_attempts_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "certification_exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certification_exams: {
+        Row: {
+          adaptive: boolean
+          category: string
+          cooldown_hours: number
+          created_at: string
+          description: string
+          id: string
+          is_active: boolean
+          min_questions: number
+          passing_score: number
+          question_count: number
+          target_standard_error: number
+          time_limit_minutes: number
+          title: string
+          topics: string[]
+        }
+        Insert: {
+          adaptive?: boolean
+          category: string
+          cooldown_hours?: number
+          created_at?: string
+          description: string
+          id: string
+          is_active?: boolean
+          min_questions?: number
+          passing_score: number
+          question_count: number
+          target_standard_error?: number
+          time_limit_minutes: number
+          title: string
+          topics?: string[]
+        }
+        Update: {
+          adaptive?: boolean
+          category?: string
+          cooldown_hours?: number
+          created_at?: string
+          description?: string
+          id?: string
+          is_active?: boolean
+          min_questions?: number
+          passing_score?: number
+          question_count?: number
+          target_standard_error?: number
+          time_limit_minutes?: number
+          title?: string
+          topics?: string[]
+        }
+        Relationships: []
+      }
+      certification_questions: {
+        Row: {
+          calibrated_at: string | null
+          correct_option_index: number
+          created_at: string
+          difficulty: number
+          discrimination: number
+          exam_id: string
+          explanation: string | null
+          id: string
+          is_active: boolean
+          options: Json
+          response_count: number
+          text: string
+          topic: string | null
+        }
+        Insert: {
+          calibrated_at?: string | null
+          correct_option_index: number
+          created_at?: string
+          difficulty?: number
+          discrimination?: number
+          exam_id: string
+          explanation?: string | null
+          id?: string
+          is_active?: boolean
+          options: Json
+          response_count?: number
+          text: string
+          topic?: string | null
+        }
+        Update: {
+          calibrated_at?: string | null
+          correct_option_index?: number
+          created_at?: string
+          difficulty?: number
+          discrimination?: number
+          exam_id?: string
+          explanation?: string | null
+          id?: string
+          is_active?: boolean
+          options?: Json
+          response_count?: number
+          text?: string
+          topic?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_questions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "certification_exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certification_responses: {
+        Row: {
+          answered_at: string
+          attempt_id: string
+          correct: boolean
+          id: string
+          question_id: string
+          selected_index: number | null
+          user_id: string
+        }
+        Insert: {
+          answered_at?: string
+          attempt_id: string
+          correct: boolean
+          id?: string
+          question_id: string
+          selected_index?: number | null
+          user_id: string
+        }
+        Update: {
+          answered_at?: string
+          attempt_id?: string
+          correct?: boolean
+          id?: string
+          question_id?: string
+          selected_index?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_responses_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "certification_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certification_responses_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "certification_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       certifications: {
         Row: {
           ai_extracted_data: Json | null
@@ -612,80 +1189,277 @@ export type Database = {
         }
         Relationships: []
       }
-      hr_members: {
+      hr_members: {
+        Row: {
+          bio: string | null
+          company_id: string
+          created_at: string
+          department: string | null
+          email: string
+          first_name: string
+          hire_date: string | null
+          id: string
+          last_name: string
+          performance_score: number | null
+          phone: string | null
+          profile_photo_url: string | null
+          role: Database["public"]["Enums"]["hr_member_role_option"] | null
+          settings: Json | null
+          specializations: string[] | null
+          status: Database["public"]["Enums"]["hr_member_status_option"] | null
+          updated_at: string
+          user_profile_id: string | null
+        }
+        Insert: {
+          bio?: string | null
+          company_id: string
+          created_at?: string
+          department?: string | null
+          email: string
+          first_name: string
+          hire_date?: string | null
+          id?: string
+          last_name: string
+          performance_score?: number | null
+          phone?: string | null
+          profile_photo_url?: string | null
+          role?: Database["public"]["Enums"]["hr_member_role_option"] | null
+          settings?: Json | null
+          specializations?: string[] | null
+          status?: Database["public"]["Enums"]["hr_member_status_option"] | null
+          updated_at?: string
+          user_profile_id?: string | null
+        }
+        Update: {
+          bio?: string | null
+          company_id?: string
+          created_at?: string
+          department?: string | null
+          email?: string
+          first_name?: string
+          hire_date?: string | null
+          id?: string
+          last_name?: string
+          performance_score?: number | null
+          phone?: string | null
+          profile_photo_url?: string | null
+          role?: Database["public"]["Enums"]["hr_member_role_option"] | null
+          settings?: Json | null
+          specializations?: string[] | null
+          status?: Database["public"]["Enums"]["hr_member_status_option"] | null
+          updated_at?: string
+          user_profile_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_members_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hr_members_user_profile_id_fkey"
+            columns: ["user_profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_scorecards: {
+        Row: {
+          created_at: string
+          id: string
+          interview_id: string
+          interviewer_id: string
+          notes: string | null
+          recommendation: string | null
+          status: string
+          submitted_at: string | null
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interview_id: string
+          interviewer_id: string
+          notes?: string | null
+          recommendation?: string | null
+          status?: string
+          submitted_at?: string | null
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interview_id?: string
+          interviewer_id?: string
+          notes?: string | null
+          recommendation?: string | null
+          status?: string
+          submitted_at?: string | null
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_scorecards_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_interviewer_id_fkey"
+            columns: ["interviewer_id"]
+            isOneToOne: false
+            referencedRelation: "hr_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "scorecard_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_session_records: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          recorded_at: string
+          seq: number
+          session_id: string
+          stream: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data: Json
+          id: string
+          recorded_at: string
+          seq: number
+          session_id: string
+          stream: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          recorded_at?: string
+          seq?: number
+          session_id?: string
+          stream?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_session_records_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "interview_sessions"
+            referencedColumns: ["session_id"]
+          },
+        ]
+      }
+      interview_sessions: {
+        Row: {
+          ai_backend: string | null
+          attentiveness_score: number | null
+          candidate_name: string | null
+          confidence_score: number | null
+          created_at: string
+          duration: number | null
+          ended_at: string | null
+          engagement_score: number | null
+          is_complete: boolean
+          job_title: string | null
+          metadata: Json
+          question_count: number
+          session_id: string
+          started_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ai_backend?: string | null
+          attentiveness_score?: number | null
+          candidate_name?: string | null
+          confidence_score?: number | null
+          created_at?: string
+          duration?: number | null
+          ended_at?: string | null
+          engagement_score?: number | null
+          is_complete?: boolean
+          job_title?: string | null
+          metadata?: Json
+          question_count?: number
+          session_id: string
+          started_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ai_backend?: string | null
+          attentiveness_score?: number | null
+          candidate_name?: string | null
+          confidence_score?: number | null
+          created_at?: string
+          duration?: number | null
+          ended_at?: string | null
+          engagement_score?: number | null
+          is_complete?: boolean
+          job_title?: string | null
+          metadata?: Json
+          question_count?: number
+          session_id?: string
+          started_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      interviewer_availability: {
         Row: {
-          bio: string | null
-          company_id: string
           created_at: string
-          department: string | null
-          email: string
-          first_name: string
-          hire_date: string | null
+          end_time: string
+          hr_member_id: string
           id: string
-          last_name: string
-          performance_score: number | null
-          phone: string | null
-          profile_photo_url: string | null
-          role: Database["public"]["Enums"]["hr_member_role_option"] | null
-          settings: Json | null
-          specializations: string[] | null
-          status: Database["public"]["Enums"]["hr_member_status_option"] | null
-          updated_at: string
-          user_profile_id: string | null
+          start_time: string
+          timezone: string
+          weekday: number
         }
         Insert: {
-          bio?: string | null
-          company_id: string
           created_at?: string
-          department?: string | null
-          email: string
-          first_name: string
-          hire_date?: string | null
+          end_time: string
+          hr_member_id: string
           id?: string
-          last_name: string
-          performance_score?: number | null
-          phone?: string | null
-          profile_photo_url?: string | null
-          role?: Database["public"]["Enums"]["hr_member_role_option"] | null
-          settings?: Json | null
-          specializations?: string[] | null
-          status?: Database["public"]["Enums"]["hr_member_status_option"] | null
-          updated_at?: string
-          user_profile_id?: string | null
+          start_time: string
+          timezone?: string
+          weekday: number
         }
         Update: {
-          bio?: string | null
-          company_id?: string
           created_at?: string
-          department?: string | null
-          email?: string
-          first_name?: string
-          hire_date?: string | null
+          end_time?: string
+          hr_member_id?: string
           id?: string
-          last_name?: string
-          performance_score?: number | null
-          phone?: string | null
-          profile_photo_url?: string | null
-          role?: Database["public"]["Enums"]["hr_member_role_option"] | null
-          settings?: Json | null
-          specializations?: string[] | null
-          status?: Database["public"]["Enums"]["hr_member_status_option"] | null
-          updated_at?: string
-          user_profile_id?: string | null
+          start_time?: string
+          timezone?: string
+          weekday?: number
         }
         Relationships: [
           {
-            foreignKeyName: "hr_members_company_id_fkey"
-            columns: ["company_id"]
+            foreignKeyName: "interviewer_availability_hr_member_id_fkey"
+            columns: ["hr_member_id"]
             isOneToOne: false
-            referencedRelation: "companies"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "hr_members_user_profile_id_fkey"
-            columns: ["user_profile_id"]
-            isOneToOne: true
-            referencedRelation: "profiles"
+            referencedRelation: "hr_members"
             referencedColumns: ["id"]
           },
         ]
@@ -693,9 +1467,13 @@ export type Database = {
       interviews: {
         Row: {
           application_id: string
+          cancellation_reason: string | null
           created_at: string
           duration_minutes: number | null
+          ends_at: string | null
           feedback: string | null
+          ics_sequence: number
+          ics_uid: string
           id: string
           interview_type:
             | Database["public"]["Enums"]["interview_type_option"]
@@ -709,9 +1487,13 @@ export type Database = {
         }
         Insert: {
           application_id: string
+          cancellation_reason?: string | null
           created_at?: string
           duration_minutes?: number | null
+          ends_at?: string | null
           feedback?: string | null
+          ics_sequence?: number
+          ics_uid?: string
           id?: string
           interview_type?:
             | Database["public"]["Enums"]["interview_type_option"]
@@ -725,9 +1507,13 @@ export type Database = {
         }
         Update: {
           application_id?: string
+          cancellation_reason?: string | null
           created_at?: string
           duration_minutes?: number | null
+          ends_at?: string | null
           feedback?: string | null
+          ics_sequence?: number
+          ics_uid?: string
           id?: string
           interview_type?:
             | Database["public"]["Enums"]["interview_type_option"]
@@ -756,6 +1542,82 @@ export type Database = {
           },
         ]
       }
+      issued_certificates: {
+        Row: {
+          attempt_id: string
+          cert_hash: string
+          exam_id: string
+          id: string
+          is_public: boolean
+          issued_at: string
+          issuer: string
+          key_id: string | null
+          payload: Json
+          recipient_email: string
+          recipient_name: string
+          score: number
+          signature: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          attempt_id: string
+          cert_hash: string
+          exam_id: string
+          id?: string
+          is_public?: boolean
+          issued_at?: string
+          issuer: string
+          key_id?: string | null
+          payload: Json
+          recipient_email: string
+          recipient_name: string
+          score: number
+          signature?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          attempt_id?: string
+          cert_hash?: string
+          exam_id?: string
+          id?: string
+          is_public?: boolean
+          issued_at?: string
+          issuer?: string
+          key_id?: string | null
+          payload?: Json
+          recipient_email?: string
+          recipient_name?: string
+          score?: number
+          signature?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issued_certificates_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: true
+            referencedRelation: "certification_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issued_certificates_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "certification_exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issued_certificates_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "certificate_issuer_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       job_applications: {
         Row: {
           application_status: string | null
@@ -941,6 +1803,7 @@ export type Database = {
           location: string | null
           min_ats_score: number | null
           posted_date: string | null
+          proctoring_policy: Json | null
           requirements: string | null
           salary_max: number | null
           salary_min: number | null
@@ -974,6 +1837,7 @@ export type Database = {
           location?: string | null
           min_ats_score?: number | null
           posted_date?: string | null
+          proctoring_policy?: Json | null
           requirements?: string | null
           salary_max?: number | null
           salary_min?: number | null
@@ -1007,6 +1871,7 @@ export type Database = {
           location?: string | null
           min_ats_score?: number | null
           posted_date?: string | null
+          proctoring_policy?: Json | null
           requirements?: string | null
           salary_max?: number | null
           salary_min?: number | null
@@ -1076,6 +1941,83 @@ export type Database = {
           },
         ]
       }
+      pipeline_stage_transitions: {
+        Row: {
+          from_stage: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+          to_stage: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+        }
+        Insert: {
+          from_stage: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+          to_stage: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+        }
+        Update: {
+          from_stage?: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+          to_stage?: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+        }
+        Relationships: []
+      }
+      proctoring_evidence: {
+        Row: {
+          candidate_name: string | null
+          created_at: string
+          detections: Json
+          event: Json
+          hash: string
+          id: string
+          job_id: string | null
+          job_title: string | null
+          previous_hash: string
+          recorded_at: string
+          sequence: number
+          session_id: string
+          snapshot: string | null
+          snapshot_hash: string | null
+          user_id: string
+        }
+        Insert: {
+          candidate_name?: string | null
+          created_at?: string
+          detections?: Json
+          event: Json
+          hash: string
+          id?: string
+          job_id?: string | null
+          job_title?: string | null
+          previous_hash: string
+          recorded_at: string
+          sequence: number
+          session_id: string
+          snapshot?: string | null
+          snapshot_hash?: string | null
+          user_id: string
+        }
+        Update: {
+          candidate_name?: string | null
+          created_at?: string
+          detections?: Json
+          event?: Json
+          hash?: string
+          id?: string
+          job_id?: string | null
+          job_title?: string | null
+          previous_hash?: string
+          recorded_at?: string
+          sequence?: number
+          session_id?: string
+          snapshot?: string | null
+          snapshot_hash?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctoring_evidence_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profile_analytics: {
         Row: {
           contact_requests: number | null
@@ -1310,6 +2252,114 @@ export type Database = {
         }
         Relationships: []
       }
+      revocation_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          created_at: string
+          entry_id: string
+          id: string
+          reason: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+          entry_id: string
+          id?: string
+          reason?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          created_at?: string
+          entry_id?: string
+          id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "revocation_events_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "status_list_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scorecard_ratings: {
+        Row: {
+          competency_key: string
+          id: string
+          notes: string | null
+          rating: number
+          scorecard_id: string
+        }
+        Insert: {
+          competency_key: string
+          id?: string
+          notes?: string | null
+          rating: number
+          scorecard_id: string
+        }
+        Update: {
+          competency_key?: string
+          id?: string
+          notes?: string | null
+          rating?: number
+          scorecard_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scorecard_ratings_scorecard_id_fkey"
+            columns: ["scorecard_id"]
+            isOneToOne: false
+            referencedRelation: "interview_scorecards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scorecard_templates: {
+        Row: {
+          company_id: string | null
+          competencies: Json
+          created_at: string
+          id: string
+          interview_type: Database["public"]["Enums"]["interview_type_option"]
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id?: string | null
+          competencies: Json
+          created_at?: string
+          id?: string
+          interview_type: Database["public"]["Enums"]["interview_type_option"]
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string | null
+          competencies?: Json
+          created_at?: string
+          id?: string
+          interview_type?: Database["public"]["Enums"]["interview_type_option"]
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scorecard_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       skills: {
         Row: {
           assessment_score: number | null
@@ -1382,6 +2432,105 @@ export type Database = {
         }
         Relationships: []
       }
+      status_list_entries: {
+        Row: {
+          content_hash: string | null
+          id: string
+          issuer_company_id: string | null
+          issuer_name: string
+          label: string
+          list_id: string
+          list_index: number
+          registered_at: string
+          registered_by: string | null
+          revocation_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          revoked_by_name: string | null
+          status: string
+          subject_id: string
+          subject_type: string
+          superseded_by: string | null
+        }
+        Insert: {
+          content_hash?: string | null
+          id?: string
+          issuer_company_id?: string | null
+          issuer_name: string
+          label: string
+          list_id: string
+          list_index: number
+          registered_at?: string
+          registered_by?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          revoked_by_name?: string | null
+          status?: string
+          subject_id: string
+          subject_type: string
+          superseded_by?: string | null
+        }
+        Update: {
+          content_hash?: string | null
+          id?: string
+          issuer_company_id?: string | null
+          issuer_name?: string
+          label?: string
+          list_id?: string
+          list_index?: number
+          registered_at?: string
+          registered_by?: string | null
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          revoked_by_name?: string | null
+          status?: string
+          subject_id?: string
+          subject_type?: string
+          superseded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_list_entries_issuer_company_id_fkey"
+            columns: ["issuer_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_list_entries_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "status_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      status_lists: {
+        Row: {
+          created_at: string
+          id: string
+          next_index: number
+          purpose: string
+          size: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          next_index?: number
+          purpose?: string
+          size?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          next_index?: number
+          purpose?: string
+          size?: number
+        }
+        Relationships: []
+      }
       user_analytics: {
         Row: {
           applications_count: number | null
@@ -1486,7 +2635,52 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      allocate_status_list_index: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          list_id: string
+          list_index: number
+        }[]
+      }
+      claim_ai_agent_task: {
+        Args: {
+          p_lock_timeout?: unknown
+        }
+        Returns: Database["public"]["Tables"]["ai_agent_tasks"]["Row"]
+      }
+      move_application_stage: {
+        Args: {
+          p_application_id: string
+          p_to_stage: Database["public"]["Enums"]["candidate_pipeline_status_type"]
+          p_note?: string
+        }
+        Returns: Database["public"]["Tables"]["applications"]["Row"]
+      }
+      proctoring_evidence_head: {
+        Args: {
+          p_session_id: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      refresh_ai_agent_stats: {
+        Args: {
+          p_agent_id: string
+        }
+        Returns: undefined
+      }
+      reserve_ai_gateway_usage: {
+        Args: {
+          p_user_id: string
+          p_provider: string
+          p_prompt_chars: number
+          p_limit: number
+        }
+        Returns: {
+          usage_id: string | null
+          used: number
+        }[]
+      }
     }
     Enums: {
       ai_agent_status_option:
@@ -1495,6 +2689,12 @@ export type Database = {
         | "Training"
         | "Error"
         | "Maintenance"
+      ai_agent_task_status:
+        | "queued"
+        | "running"
+        | "succeeded"
+        | "failed"
+        | "cancelled"
       ai_agent_type_option:
         | "ResumeScreener"
         | "InterviewScheduler"
@@ -1690,6 +2890,13 @@ export const Constants = {
         "Error",
         "Maintenance",
       ],
+      ai_agent_task_status: [
+        "queued",
+        "running",
+        "succeeded",
+        "failed",
+        "cancelled",
+      ],
       ai_agent_type_option: [
         "ResumeScreener",
         "InterviewScheduler",
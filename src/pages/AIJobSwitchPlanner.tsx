@@ -12,7 +12,6 @@ import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
-import { GEMINI_API_KEY } from '@/utils/apiKeys';
 import { ArrowRight, Calendar, CheckCircle, Clock, FileHeart, FileText, Lightbulb, Puzzle } from 'lucide-react';
 
 const AIJobSwitchPlanner: React.FC = () => {
@@ -41,7 +40,7 @@ const AIJobSwitchPlanner: React.FC = () => {
     });
 
     // For demo purposes, generate a mock plan
-    // In a real application, this would use the GEMINI_API_KEY to call the API
+    // In a real application, this would call the API through the ai-gateway
     setTimeout(() => {
       const mockPlan = {
         summary: `Transitioning from ${currentRole} to ${targetRole} will take approximately 8-10 months with focused effort.`,
@@ -143,7 +142,7 @@ const AIJobSwitchPlanner: React.FC = () => {
 
   // Generate METTA-based task scheduler using SingularityNET concepts
   const generateTaskScheduler = (plan: any) => {
-    // In a real app, this would call an API using the GEMINI_API_KEY
+    // In a real app, this would call the API through the ai-gateway
     // For demo purposes, generate a mock task schedule
     const mockTaskSchedule = {
       weeks: [
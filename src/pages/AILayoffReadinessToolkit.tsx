@@ -94,8 +94,8 @@ const AILayoffReadinessToolkit = () => {
       `;
 
       try {
-        // Try to use the API with the layoff-specific API key
-        const response = await generateQwiXProContent(prompt, 'layoff');
+        // Try the API first; fall back to mock data below
+        const response = await generateQwiXProContent(prompt, 'careerPath');
         
         // Extract the JSON object from the response
         const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) || 
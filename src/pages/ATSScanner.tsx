@@ -3,25 +3,55 @@ import { Link } from "react-router-dom";
 import StudentDashboardLayout from "@/components/layout/StudentDashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trash2, Upload, FileText, CheckCircle, AlertCircle, Zap, Download, Target, Info, Briefcase } from "lucide-react";
 import { ATSScoreDisplay } from "@/components/resume/ATSScoreDisplay";
+import { ParsedResumeSummary } from "@/components/resume/ParsedResumeSummary";
 import { generateATSScore, ATSScoreData } from "@/utils/atsScoreApi";
+import { isSupportedResumeFile, resumeParser, RESUME_ACCEPT, toATSResumeInput } from "@/utils/resumeParser";
+import type { ParsedResume } from "@/types/interview";
 import { toast } from "@/components/ui/use-toast";
 import * as THREE from "three";
 import { getJobRecommendations } from "@/utils/jobBoardApi";
 import { JobListing } from "@/types/job";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type TargetJob = Pick<Tables<"jobs">, "id" | "title" | "company_name" | "skills_required" | "requirements">;
 
 const ATSScanner = () => {
   const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [atsScore, setAtsScore] = useState<ATSScoreData | null>(null);
+  const [parsedResume, setParsedResume] = useState<ParsedResume | null>(null);
   const [jobRecommendations, setJobRecommendations] = useState<JobListing[]>([]);
   const [isLoadingJobs, setIsLoadingJobs] = useState(false);
+  const [targetJobs, setTargetJobs] = useState<TargetJob[]>([]);
+  const [targetJobId, setTargetJobId] = useState("none");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scannerRef = useRef<HTMLDivElement>(null);
   
+  // Open jobs the resume can be checked against for keyword coverage
+  useEffect(() => {
+    const fetchTargetJobs = async () => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("id, title, company_name, skills_required, requirements")
+        .eq("status", "Open")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error("Error fetching jobs for ATS targeting:", error);
+        return;
+      }
+      setTargetJobs(data || []);
+    };
+
+    fetchTargetJobs();
+  }, []);
+
   useEffect(() => {
     if (!scannerRef.current) return;
     
@@ -158,9 +188,7 @@ const ATSScanner = () => {
   };
   
   const validateAndSetFile = (file: File) => {
-    const validTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    
-    if (validTypes.includes(file.type)) {
+    if (isSupportedResumeFile(file)) {
       setFile(file);
       toast({
         title: "File uploaded",
@@ -169,7 +197,7 @@ const ATSScanner = () => {
     } else {
       toast({
         title: "Invalid file type",
-        description: "Please upload a PDF or Word document.",
+        description: "Please upload a PDF, DOCX or TXT file.",
         variant: "destructive"
       });
     }
@@ -178,6 +206,7 @@ const ATSScanner = () => {
   const removeFile = () => {
     setFile(null);
     setAtsScore(null);
+    setParsedResume(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -251,67 +280,42 @@ const ATSScanner = () => {
     setJobRecommendations([]);
     
     try {
-      setTimeout(async () => {
-        const mockResumeData = {
-          personalInfo: {
-            firstName: "John",
-            lastName: "Doe",
-            jobTitle: "Software Engineer",
-            email: "john.doe@example.com",
-            phone: "+1 123-456-7890",
-            location: "San Francisco, CA"
-          },
-          education: [{
-            id: "1",
-            school: "University of Technology",
-            degree: "Bachelor of Science in Computer Science",
-            graduationDate: "2019"
-          }],
-          experience: [{
-            id: "1",
-            jobTitle: "Software Engineer",
-            companyName: "Tech Corp",
-            startDate: "Jan 2020",
-            description: "Developed and maintained web applications using React and Node.js."
-          }],
-          skills: {
-            professional: "Project Management, Business Analysis",
-            technical: "JavaScript, React, Node.js, TypeScript",
-            soft: "Communication, Teamwork, Problem Solving"
-          }
-        };
-        
-        const score = await generateATSScore(mockResumeData);
-        setAtsScore(score);
-        setIsAnalyzing(false);
-        
-        // Save to database
-        await saveATSResultToDatabase(score, file.name, file.size);
-        
-        setIsLoadingJobs(true);
-        try {
-          const skills = mockResumeData.skills.technical.split(', ');
-          const jobTitle = mockResumeData.personalInfo.jobTitle;
-          const location = mockResumeData.personalInfo.location;
-          
-          const recommendations = await getJobRecommendations(skills, jobTitle, location);
-          setJobRecommendations(recommendations);
-        } catch (error) {
-          console.error("Error fetching job recommendations:", error);
-        } finally {
-          setIsLoadingJobs(false);
-        }
-        
-        toast({
-          title: "Analysis complete",
-          description: "Your resume has been analyzed successfully!",
-        });
-      }, 3000);
+      const parsed = await resumeParser(file);
+      setParsedResume(parsed);
+
+      const resumeData = toATSResumeInput(parsed);
+      const targetJob = targetJobs.find(job => job.id === targetJobId);
+      const score = await generateATSScore(resumeData, { job: targetJob, text: parsed.text });
+      setAtsScore(score);
+      setIsAnalyzing(false);
+      
+      // Save to database
+      await saveATSResultToDatabase(score, file.name, file.size);
+      
+      setIsLoadingJobs(true);
+      try {
+        const recommendations = await getJobRecommendations(
+          parsed.data.skills,
+          resumeData.personalInfo.jobTitle,
+          resumeData.personalInfo.location
+        );
+        setJobRecommendations(recommendations);
+      } catch (error) {
+        console.error("Error fetching job recommendations:", error);
+      } finally {
+        setIsLoadingJobs(false);
+      }
+      
+      toast({
+        title: "Analysis complete",
+        description: "Your resume has been analyzed successfully!",
+      });
     } catch (error) {
+      console.error("Error analyzing resume:", error);
       setIsAnalyzing(false);
       toast({
         title: "Analysis failed",
-        description: "There was an error analyzing your resume. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error analyzing your resume. Please try again.",
         variant: "destructive"
       });
     }
@@ -389,7 +393,7 @@ const ATSScanner = () => {
                   <div>
                     <p className="text-lg font-medium">Drop your resume here</p>
                     <p className="text-sm text-gray-500">
-                      or click to browse (PDF, DOC, DOCX)
+                      or click to browse (PDF, DOCX, TXT)
                     </p>
                   </div>
                   <Button onClick={() => fileInputRef.current?.click()}>
@@ -398,13 +402,30 @@ const ATSScanner = () => {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".pdf,.doc,.docx"
+                    accept={RESUME_ACCEPT}
                     onChange={handleFileInput}
                     className="hidden"
                   />
                 </div>
               )}
             </div>
+
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+              <label className="text-sm font-medium">Target job (optional):</label>
+              <Select value={targetJobId} onValueChange={setTargetJobId}>
+                <SelectTrigger className="sm:w-80">
+                  <SelectValue placeholder="General ATS check" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">General ATS check</SelectItem>
+                  {targetJobs.map(job => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}{job.company_name ? ` at ${job.company_name}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardContent>
         </Card>
 
@@ -430,6 +451,8 @@ const ATSScanner = () => {
               scoreData={atsScore}
               isLoading={false}
             />
+
+            {parsedResume && <ParsedResumeSummary resume={parsedResume} />}
             
             {/* Job Recommendations */}
             <Card>
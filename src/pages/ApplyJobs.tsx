@@ -11,7 +11,7 @@ import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import StudentDashboardLayout from "@/components/layout/StudentDashboardLayout";
 import ResumeDropzone from "@/components/ui/ResumeDropzone";
-import { generateATSScore } from "@/utils/atsScoreApi";
+import { submitScreenedApplication, ATSScreeningError } from "@/utils/atsScreeningApi";
 
 const ApplyJobs = () => {
   const { toast } = useToast();
@@ -124,71 +124,6 @@ const ApplyJobs = () => {
     }
   };
 
-  const performATSScanning = async (jobId: string, resumeData: any, job: any) => {
-    try {
-      console.log("Starting ATS scan for job:", jobId);
-      
-      // Mock resume data structure for ATS scanning
-      const mockResumeData = {
-        personalInfo: {
-          firstName: "Candidate",
-          lastName: "Name",
-          jobTitle: "Professional",
-          email: "candidate@email.com",
-          phone: "+1-234-567-8900",
-          location: "City, State",
-          linkedinUrl: "",
-          githubUrl: ""
-        },
-        education: [{
-          degree: "Bachelor's Degree",
-          school: "University",
-          graduationDate: "2020",
-          score: ""
-        }],
-        experience: [{
-          jobTitle: "Previous Role",
-          companyName: "Previous Company", 
-          startDate: "2020",
-          endDate: "2023",
-          description: "Professional experience in relevant field with key responsibilities and achievements."
-        }],
-        skills: {
-          professional: job.skills_required?.slice(0, 3).join(", ") || "Professional skills",
-          technical: job.skills_required?.slice(3, 6).join(", ") || "Technical skills", 
-          soft: "Communication, Leadership, Problem-solving"
-        },
-        objective: `Seeking ${job.title} position at ${job.company_name || 'a leading company'}`
-      };
-
-      const atsResult = await generateATSScore(mockResumeData);
-      
-      // Ensure the overall score is calculated out of 100
-      const normalizedScore = Math.min(100, Math.max(0, Math.round(atsResult.overallScore)));
-      
-      const normalizedResult = {
-        ...atsResult,
-        overallScore: normalizedScore,
-        keywordScore: Math.min(100, Math.max(0, Math.round(atsResult.keywordScore))),
-        formatScore: Math.min(100, Math.max(0, Math.round(atsResult.formatScore))),
-        contentScore: Math.min(100, Math.max(0, Math.round(atsResult.contentScore)))
-      };
-      
-      console.log("ATS scan completed:", normalizedResult);
-      
-      // Store ATS results
-      setAtsResults(prev => ({
-        ...prev,
-        [jobId]: normalizedResult
-      }));
-
-      return normalizedResult;
-    } catch (error) {
-      console.error("Error during ATS scanning:", error);
-      throw error;
-    }
-  };
-
   const handleApply = async (jobId: string) => {
     const selectedResume = selectedResumes[jobId];
     
@@ -223,102 +158,24 @@ const ApplyJobs = () => {
     setProcessingApplications(prev => ({ ...prev, [jobId]: true }));
 
     try {
-      // Step 1: Perform ATS scanning
-      console.log("Starting ATS scanning process...");
+      // Screening, scoring and filing the application all happen server-side
+      console.log("Starting ATS screening for job:", jobId);
       toast({
         title: "Processing Application",
         description: "Running ATS scan on your resume...",
       });
 
-      const atsResult = await performATSScanning(jobId, selectedResume, job);
-      
-      // Step 2: Check if ATS score meets minimum threshold (score >= minimum required)
-      const minimumScore = job.ats_minimum_score || 70;
-      const candidateScore = atsResult.overallScore;
-      const passesATSCheck = candidateScore >= minimumScore;
-      
-      console.log(`ATS Score: ${candidateScore}/100, Minimum Required: ${minimumScore}/100, Passes: ${passesATSCheck}`);
+      const { ats, passed: passesATSCheck, minimumScore } = await submitScreenedApplication(jobId, selectedResume);
+      const candidateScore = ats.overallScore;
 
-      // Step 3: Determine application status based on ATS score
-      const applicationStatus = passesATSCheck ? 'approved' : 'rejected';
-      const status = passesATSCheck ? 'ATS Approved' : 'ATS Rejected';
-      const progress = passesATSCheck ? 40 : 10;
-
-      // Step 4: Submit application to database
-      const { data: applicationData, error: applicationError } = await supabase
-        .from('job_applications')
-        .insert([
-          {
-            user_id: user.id,
-            job_id: jobId,
-            job_title: job.title,
-            company: job.company_name || 'Unknown Company',
-            location: job.location,
-            status: status,
-            progress: progress,
-            resume_file_path: selectedResume.path,
-            resume_file_name: selectedResume.name,
-            application_status: applicationStatus,
-            rating: candidateScore
-          }
-        ])
-        .select()
-        .single();
-        
-      if (applicationError) {
-        console.error("Error submitting application:", applicationError);
-        toast({
-          title: "Application failed",
-          description: applicationError.message,
-          variant: "destructive"
-        });
-        return;
-      }
-
-      // Step 5: Store ATS scan results
-      const { error: atsError } = await supabase
-        .from('ats_scan_results')
-        .insert([
-          {
-            user_id: user.id,
-            file_name: selectedResume.name,
-            overall_score: candidateScore,
-            keyword_score: atsResult.keywordScore,
-            format_score: atsResult.formatScore,
-            content_score: atsResult.contentScore,
-            suggestions: atsResult.suggestions,
-            job_match: atsResult.jobMatch,
-            file_size: 0
-          }
-        ]);
-
-      if (atsError) {
-        console.error("Error storing ATS results:", atsError);
-      }
-
-      // Step 6: Notify HR members if application is approved
-      if (passesATSCheck) {
-        const { data: hrMembers } = await supabase
-          .from('hr_members')
-          .select('user_profile_id')
-          .eq('company_id', job.company_id);
+      console.log(`ATS Score: ${candidateScore}/100, Minimum Required: ${minimumScore}/100, Passes: ${passesATSCheck}`);
 
-        if (hrMembers && hrMembers.length > 0) {
-          const notifications = hrMembers.map(hr => ({
-            user_id: hr.user_profile_id,
-            title: 'New Qualified Application',
-            message: `New application received for ${job.title} position (ATS Score: ${candidateScore}/100)`,
-            type: 'info' as const,
-            related_application_id: applicationData.id
-          }));
+      setAtsResults(prev => ({
+        ...prev,
+        [jobId]: ats
+      }));
 
-          await supabase
-            .from('notifications')
-            .insert(notifications);
-        }
-      }
-      
-      // Step 7: Show appropriate success/rejection message
+      // Show appropriate success/rejection message
       if (passesATSCheck) {
         toast({
           title: "Application submitted successfully!",
@@ -340,10 +197,12 @@ const ApplyJobs = () => {
       });
 
     } catch (err) {
-      console.error("Unexpected error:", err);
+      console.error("Error submitting application:", err);
       toast({
         title: "Application failed",
-        description: "An unexpected error occurred during ATS processing",
+        description: err instanceof ATSScreeningError && err.status < 500
+          ? err.message
+          : "An unexpected error occurred during ATS processing",
         variant: "destructive"
       });
     } finally {
@@ -5,7 +5,7 @@ import QwiXCertHeader from '@/components/certification/QwiXCertHeader';
 import WalletConnect from '@/components/blockchain/WalletConnect';
 import MCQTestList from '@/components/certification/MCQTestList';
 import { TestInfo } from "@/types/certification";
-import { getUserCertificates } from '@/utils/blockchain';
+import { fetchExams, fetchIssuedCertificates } from '@/utils/certificationExams';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -21,84 +21,30 @@ const CertificationCenter = () => {
 
   useEffect(() => {
     // Fetch test data
-    const fetchTestData = () => {
-      // In a real app, this would be an API call
-      const testData: TestInfo[] = [
-        {
-          id: "resume-01",
-          title: "Professional Resume Building",
-          description: "Master the art of creating ATS-friendly resumes",
-          timeLimit: 20,
-          questionCount: 15,
-          topics: ["Resume Structure", "ATS Optimization", "Content Writing", "Formatting"],
-          passingScore: 70,
-          category: "Career Development"
-        },
-        {
-          id: "ats-02",
-          title: "ATS Optimization Specialist",
-          description: "Learn advanced techniques for beating ATS systems",
-          timeLimit: 30,
-          questionCount: 20,
-          topics: ["Keyword Optimization", "ATS Algorithms", "Format Compatibility", "Parsing Technology"],
-          passingScore: 75,
-          category: "Technical Skills"
-        },
-        {
-          id: "career-03",
-          title: "Career Development Fundamentals",
-          description: "Essential strategies for career growth and advancement",
-          timeLimit: 25,
-          questionCount: 18,
-          topics: ["Networking", "Professional Development", "Industry Trends", "Job Search Strategy"],
-          passingScore: 70,
-          category: "Career Development"
-        },
-        {
-          id: "interview-04",
-          title: "Interview Mastery",
-          description: "Ace your interviews with proven techniques",
-          timeLimit: 20,
-          questionCount: 15,
-          topics: ["Common Questions", "STAR Method", "Body Language", "Follow-up Strategy"],
-          passingScore: 75,
-          category: "Soft Skills"
-        },
-        {
-          id: "web3-05",
-          title: "Blockchain & Web3 Basics",
-          description: "Essential knowledge for modern technology careers",
-          timeLimit: 30,
-          questionCount: 20,
-          topics: ["Blockchain Fundamentals", "Cryptocurrency", "Smart Contracts", "Decentralized Apps"],
-          passingScore: 70,
-          category: "Technical Skills"
-        },
-        {
-          id: "aiml-06",
-          title: "AI & Machine Learning Essentials",
-          description: "Key concepts in artificial intelligence for your resume",
-          timeLimit: 40,
-          questionCount: 25,
-          topics: ["ML Fundamentals", "Neural Networks", "NLP", "AI Applications"],
-          passingScore: 75,
-          category: "Technical Skills"
-        }
-      ];
-      
-      setTests(testData);
-      
-      // Provide feedback to the user that tests are loaded
-      toast({
-        title: "Tests Loaded",
-        description: `${testData.length} certification tests are available`,
-      });
+    const fetchTestData = async () => {
+      try {
+        const testData = await fetchExams();
+        setTests(testData);
+        
+        // Provide feedback to the user that tests are loaded
+        toast({
+          title: "Tests Loaded",
+          description: `${testData.length} certification tests are available`,
+        });
+      } catch (error) {
+        console.error("Error fetching certification tests:", error);
+        toast({
+          title: "Error Loading Tests",
+          description: "The certification tests could not be loaded. Please try again.",
+          variant: "destructive"
+        });
+      }
     };
     
     // Fetch user's certificates
-    const fetchUserCertificates = () => {
+    const fetchUserCertificates = async () => {
       try {
-        const certificates = getUserCertificates();
+        const certificates = await fetchIssuedCertificates();
         const certifiedTestIds = certificates.map(cert => cert.testId);
         setUserCertificates(certifiedTestIds);
       } catch (error) {
@@ -10,214 +10,18 @@ import MCQTest from '@/components/certification/MCQTest';
 import TestResults from '@/components/certification/TestResults';
 import CertificateGenerator from '@/components/certification/CertificateGenerator';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, FileText, AlertTriangle } from 'lucide-react';
-import { TestInfo, Question } from "@/types/certification";
+import { Loader2, FileText, AlertTriangle, ClockIcon } from 'lucide-react';
+import { TestInfo, ExamAttempt, ExamQuestion, ExamResult } from "@/types/certification";
 import { Certificate, UserActivity } from "@/types/blockchain";
 import { v4 as uuidv4 } from 'uuid';
-
-const TESTS: Record<string, TestInfo> = {
-  "resume-01": {
-    id: "resume-01",
-    title: "Professional Resume Building",
-    description: "Master the art of creating ATS-friendly resumes",
-    timeLimit: 20,
-    questionCount: 15,
-    topics: ["Resume Structure", "ATS Optimization", "Content Writing", "Formatting"],
-    passingScore: 70,
-    category: "Career Development"
-  },
-  "ats-02": {
-    id: "ats-02",
-    title: "ATS Optimization Specialist",
-    description: "Learn advanced techniques for beating ATS systems",
-    timeLimit: 30,
-    questionCount: 20,
-    topics: ["Keyword Optimization", "ATS Algorithms", "Format Compatibility", "Parsing Technology"],
-    passingScore: 75,
-    category: "Technical Skills"
-  },
-  "career-03": {
-    id: "career-03",
-    title: "Career Development Fundamentals",
-    description: "Essential strategies for career growth and advancement",
-    timeLimit: 25,
-    questionCount: 18,
-    topics: ["Networking", "Professional Development", "Industry Trends", "Job Search Strategy"],
-    passingScore: 70,
-    category: "Career Development"
-  },
-  "interview-04": {
-    id: "interview-04",
-    title: "Interview Mastery",
-    description: "Ace your interviews with proven techniques",
-    timeLimit: 20,
-    questionCount: 15,
-    topics: ["Common Questions", "STAR Method", "Body Language", "Follow-up Strategy"],
-    passingScore: 75,
-    category: "Soft Skills"
-  },
-  "web3-05": {
-    id: "web3-05",
-    title: "Blockchain & Web3 Basics",
-    description: "Essential knowledge for modern technology careers",
-    timeLimit: 30,
-    questionCount: 20,
-    topics: ["Blockchain Fundamentals", "Cryptocurrency", "Smart Contracts", "Decentralized Apps"],
-    passingScore: 70,
-    category: "Technical Skills"
-  },
-  "aiml-06": {
-    id: "aiml-06",
-    title: "AI & Machine Learning Essentials",
-    description: "Key concepts in artificial intelligence for your resume",
-    timeLimit: 40,
-    questionCount: 25,
-    topics: ["ML Fundamentals", "Neural Networks", "NLP", "AI Applications"],
-    passingScore: 75,
-    category: "Technical Skills"
-  }
-};
-
-const TEST_QUESTIONS: Record<string, Question[]> = {
-  "resume-01": [
-    {
-      id: "q1",
-      text: "What is the recommended length for a professional resume?",
-      options: ["1 page", "1-2 pages", "3-4 pages", "5+ pages"],
-      correctOptionIndex: 1,
-      correctAnswer: "1-2 pages"
-    },
-    {
-      id: "q2",
-      text: "Which of the following should NOT be included in a modern resume?",
-      options: ["Skills section", "Professional experience", "Objective statement", "Education"],
-      correctOptionIndex: 2,
-      correctAnswer: "Objective statement"
-    },
-    {
-      id: "q3",
-      text: "What format do most Applicant Tracking Systems (ATS) prefer?",
-      options: [".pdf", ".docx", ".txt", "Any format is fine"],
-      correctOptionIndex: 0,
-      correctAnswer: ".pdf"
-    },
-    {
-      id: "q4",
-      text: "What is the purpose of using keywords in your resume?",
-      options: [
-        "To make it look more professional",
-        "To match ATS search parameters",
-        "To impress hiring managers",
-        "To fill up space"
-      ],
-      correctOptionIndex: 1,
-      correctAnswer: "To match ATS search parameters"
-    },
-    {
-      id: "q5",
-      text: "Which resume section should typically come first?",
-      options: [
-        "Educational background",
-        "Work experience",
-        "Contact information and summary",
-        "References"
-      ],
-      correctOptionIndex: 2,
-      correctAnswer: "Contact information and summary"
-    }
-  ],
-  "web3-05": [
-    {
-      id: "q1",
-      text: "What is blockchain technology primarily designed to provide?",
-      options: [
-        "Faster internet speeds",
-        "Decentralized, tamper-proof record-keeping",
-        "Advanced artificial intelligence",
-        "Cross-platform mobile applications"
-      ],
-      correctOptionIndex: 1,
-      correctAnswer: "Decentralized, tamper-proof record-keeping"
-    },
-    {
-      id: "q2",
-      text: "What is a smart contract?",
-      options: [
-        "A legally binding document",
-        "A physical contract with embedded microchips",
-        "Self-executing code stored on a blockchain",
-        "An AI-negotiated agreement"
-      ],
-      correctOptionIndex: 2,
-      correctAnswer: "Self-executing code stored on a blockchain"
-    },
-    {
-      id: "q3",
-      text: "What does NFT stand for?",
-      options: [
-        "New Financial Technology",
-        "Network File Transfer",
-        "Non-Fungible Token",
-        "National FinTech Treasury"
-      ],
-      correctOptionIndex: 2,
-      correctAnswer: "Non-Fungible Token"
-    },
-    {
-      id: "q4",
-      text: "Which of these is NOT a feature of decentralized applications (dApps)?",
-      options: [
-        "Open-source code",
-        "Uses blockchain technology",
-        "Centralized control",
-        "Token-based incentives"
-      ],
-      correctOptionIndex: 2,
-      correctAnswer: "Centralized control"
-    },
-    {
-      id: "q5",
-      text: "What is the main purpose of cryptocurrency wallets?",
-      options: [
-        "To store actual coins digitally",
-        "To secure private keys and manage digital assets",
-        "To mine new cryptocurrencies",
-        "To convert between different currencies"
-      ],
-      correctOptionIndex: 1,
-      correctAnswer: "To secure private keys and manage digital assets"
-    }
-  ]
-};
-
-const generateQuestionsForTest = (testId: string): Question[] => {
-  if (TEST_QUESTIONS[testId] && TEST_QUESTIONS[testId].length >= 5) {
-    return TEST_QUESTIONS[testId];
-  }
-  
-  const testInfo = TESTS[testId];
-  const questions: Question[] = [];
-  
-  for (let i = 0; i < 10; i++) {
-    questions.push({
-      id: `q${i+1}`,
-      text: `Question ${i+1}: What is the most important aspect of ${testInfo.title}?`,
-      options: [
-        "Strategic planning and implementation",
-        "Technical knowledge and expertise",
-        "Communication and stakeholder management",
-        "Continuous learning and adaptation"
-      ],
-      correctOptionIndex: i % 4,
-      correctAnswer: ["Strategic planning and implementation", 
-                     "Technical knowledge and expertise", 
-                     "Communication and stakeholder management", 
-                     "Continuous learning and adaptation"][i % 4]
-    });
-  }
-  
-  return questions;
-};
+import {
+  answerExamQuestion,
+  CertificationExamError,
+  fetchAttemptScore,
+  fetchExam,
+  startExam,
+  submitExam
+} from '@/utils/certificationExams';
 
 const CertificationTest = () => {
   const { testId } = useParams<{ testId: string }>();
@@ -228,41 +32,52 @@ const CertificationTest = () => {
   
   const [loading, setLoading] = useState(true);
   const [testInfo, setTestInfo] = useState<TestInfo | null>(null);
-  const [testQuestions, setTestQuestions] = useState<Question[]>([]);
-  const [testCompleted, setTestCompleted] = useState(false);
-  const [testScore, setTestScore] = useState(0);
-  const [testPassed, setTestPassed] = useState(false);
-  const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
+  const [attempt, setAttempt] = useState<ExamAttempt | null>(null);
+  const [testQuestions, setTestQuestions] = useState<ExamQuestion[]>([]);
+  const [result, setResult] = useState<ExamResult | null>(null);
+  // Set when the exam can't be taken right now (cooldown, already certified)
+  const [blocked, setBlocked] = useState<{ message: string; retryAt?: string } | null>(null);
+  // A passed attempt the certificate will be issued for
+  const [passedAttempt, setPassedAttempt] = useState<{ id: string; score: number } | null>(null);
   const [showCertificateGenerator, setShowCertificateGenerator] = useState(false);
   
   useEffect(() => {
     const loadTest = async () => {
       setLoading(true);
       
-      if (!testId || !TESTS[testId]) {
-        toast({
-          title: "Test Not Found",
-          description: "The certification test you requested could not be found.",
-          variant: "destructive"
-        });
-        navigate("/certification-center");
-        return;
-      }
-      
       try {
-        const test = TESTS[testId];
+        const test = testId ? await fetchExam(testId) : null;
+        if (!test) {
+          toast({
+            title: "Test Not Found",
+            description: "The certification test you requested could not be found.",
+            variant: "destructive"
+          });
+          navigate("/certification-center");
+          return;
+        }
         setTestInfo(test);
         
-        const questions = generateQuestionsForTest(testId);
+        const { attempt, questions } = await startExam(test.id);
+        setAttempt(attempt);
         setTestQuestions(questions);
         
       } catch (error) {
-        console.error("Error loading test:", error);
-        toast({
-          title: "Error Loading Test",
-          description: "There was a problem loading the certification test. Please try again.",
-          variant: "destructive"
-        });
+        if (error instanceof CertificationExamError && error.attemptId) {
+          // Passed earlier without claiming the certificate
+          const score = await fetchAttemptScore(error.attemptId).catch(() => null);
+          setPassedAttempt({ id: error.attemptId, score: score ?? 0 });
+          setShowCertificateGenerator(true);
+        } else if (error instanceof CertificationExamError && (error.status === 409 || error.status === 429)) {
+          setBlocked({ message: error.message, retryAt: error.retryAt });
+        } else {
+          console.error("Error loading test:", error);
+          toast({
+            title: "Error Loading Test",
+            description: "There was a problem loading the certification test. Please try again.",
+            variant: "destructive"
+          });
+        }
       } finally {
         setLoading(false);
       }
@@ -271,11 +86,28 @@ const CertificationTest = () => {
     loadTest();
   }, [testId, navigate, toast]);
   
-  const handleTestComplete = (score: number, passed: boolean, answers: Record<number, string>) => {
-    setTestScore(score);
-    setTestPassed(passed);
-    setUserAnswers(answers);
-    setTestCompleted(true);
+  const handleSubmitAnswers = async (answers: Record<string, number>) => {
+    if (!attempt) return;
+    handleResult(await submitExam(attempt.id, answers));
+  };
+  
+  const handleAdaptiveAnswer = async (questionId: string, selectedIndex: number) => {
+    if (!attempt) return;
+    const step = await answerExamQuestion(attempt.id, questionId, selectedIndex);
+    if ('result' in step) {
+      handleResult(step.result);
+      return;
+    }
+    setTestQuestions(prev => [...prev, step.question]);
+    setAttempt(prev => prev && { ...prev, answeredCount: step.answeredCount });
+  };
+  
+  const handleResult = (graded: ExamResult) => {
+    const { score, passed } = graded;
+    setResult(graded);
+    if (passed) {
+      setPassedAttempt({ id: graded.attemptId, score });
+    }
 
     // Record this activity in the user's QwixVault
     if (testInfo) {
@@ -343,14 +175,14 @@ const CertificationTest = () => {
     );
   }
   
-  if (showCertificateGenerator && testInfo) {
+  if (showCertificateGenerator && testInfo && passedAttempt) {
     return (
       <MainLayout>
         <div className="container max-w-4xl py-8">
           <CertificateGenerator
-            testId={testInfo.id}
+            attemptId={passedAttempt.id}
             testTitle={testInfo.title}
-            score={testScore}
+            score={passedAttempt.score}
             onComplete={handleCertificateComplete}
           />
         </div>
@@ -358,17 +190,14 @@ const CertificationTest = () => {
     );
   }
   
-  if (testCompleted && testInfo) {
+  if (result && testInfo) {
     return (
       <MainLayout>
         <div className="container max-w-4xl py-8">
           <TestResults
-            testId={testInfo.id}
             testTitle={testInfo.title}
-            score={testScore}
-            passingScore={testInfo.passingScore}
             questions={testQuestions}
-            userAnswers={userAnswers}
+            result={result}
             onGenerate={handleGenerateCertificate}
             onRetry={handleRetryTest}
           />
@@ -377,7 +206,40 @@ const CertificationTest = () => {
     );
   }
   
-  if (testInfo && testQuestions.length > 0) {
+  if (blocked && testInfo) {
+    return (
+      <MainLayout>
+        <div className="container max-w-4xl py-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ClockIcon className="h-5 w-5 mr-2 text-amber-500" />
+                {testInfo.title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-center py-8">
+              <p className="text-lg font-medium mb-2">{blocked.message}</p>
+              {blocked.retryAt && (
+                <p className="text-muted-foreground mb-6">
+                  You can retake this test after {new Date(blocked.retryAt).toLocaleString()}.
+                </p>
+              )}
+              <div className="flex justify-center gap-3">
+                <Button variant="outline" onClick={() => navigate('/certification-center')}>
+                  Return to Certification Center
+                </Button>
+                <Button onClick={() => navigate('/dashboard')}>
+                  Go to Dashboard
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </MainLayout>
+    );
+  }
+  
+  if (testInfo && attempt && testQuestions.length > 0) {
     return (
       <MainLayout>
         <div className="container max-w-4xl py-8">
@@ -387,12 +249,15 @@ const CertificationTest = () => {
           </div>
           
           <MCQTest
-            testId={testInfo.id}
             testTitle={testInfo.title}
             questions={testQuestions}
-            timeLimit={testInfo.timeLimit}
-            passingScore={testInfo.passingScore}
-            onTestComplete={handleTestComplete}
+            expiresAt={attempt.expiresAt}
+            onSubmit={handleSubmitAnswers}
+            adaptive={attempt.mode === 'adaptive' ? {
+              answeredCount: attempt.answeredCount,
+              maxQuestions: attempt.maxQuestions,
+              onAnswer: handleAdaptiveAnswer
+            } : undefined}
           />
         </div>
       </MainLayout>
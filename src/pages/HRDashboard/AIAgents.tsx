@@ -1,124 +1,188 @@
-import React, { useState, useEffect } from "react";
-import { CpuIcon, Settings, Power, RotateCw, AlertCircle, CheckCircle, Clock, Zap } from "lucide-react";
+import React, { useState, useEffect, useCallback } from "react";
+import { CpuIcon, Settings, Power, RotateCw, AlertCircle, CheckCircle, Clock, Zap, XCircle, Play } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
 import DashboardLayout from "@/components/layout/DashboardLayout";
+import RunAgentTaskDialog from "@/components/ai-agents/RunAgentTaskDialog";
+import AgentTaskDetailsDialog from "@/components/ai-agents/AgentTaskDetailsDialog";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
+import {
+  cancelAgentTask,
+  fetchAgents,
+  fetchAgentTasks,
+  runAgentWorker,
+  setAgentStatus,
+  subscribeToAgentTasks,
+  TASK_LABELS,
+  type AiAgent,
+  type AiAgentTask,
+  type AiAgentTaskStatus
+} from "@/utils/aiAgentsApi";
+
+// Tasks listed on each agent card
+const TASKS_PER_CARD = 5;
 
 const AIAgents = () => {
-  const [agents, setAgents] = useState([]);
-  const [systemStats, setSystemStats] = useState({
-    activeAgents: 0,
-    systemLoad: 0,
-    averageAccuracy: 0
-  });
+  const [agents, setAgents] = useState<AiAgent[]>([]);
+  const [tasks, setTasks] = useState<AiAgentTask[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [runAgent, setRunAgent] = useState<AiAgent | null>(null);
+  const [detailsTask, setDetailsTask] = useState<AiAgentTask | null>(null);
+  const { toast } = useToast();
+
+  const loadAgents = useCallback(async () => {
+    try {
+      const [agentRows, taskRows] = await Promise.all([fetchAgents(), fetchAgentTasks()]);
+      setAgents(agentRows);
+      setTasks(taskRows);
+    } catch (error) {
+      console.error("Error fetching AI agents:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load AI agents",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
 
   useEffect(() => {
-    async function fetchAIAgents() {
-      setLoading(true);
-      try {
-        const { data, error } = await supabase
-          .from('ai_agents')
-          .select('*');
+    loadAgents();
+  }, [loadAgents]);
 
-        if (error) {
-          console.error("Error fetching AI agents:", error);
-        } else if (data) {
-          // Process agents data to add tasks (which would be in a separate table in a real app)
-          // For now, we'll generate mock tasks for each agent
-          const processedAgents = data.map(agent => {
-            const mockTasks = [
-              { id: `${agent.id}-1`, name: `${agent.agent_name} Task 1`, status: getRandomStatus() },
-              { id: `${agent.id}-2`, name: `${agent.agent_name} Task 2`, status: getRandomStatus() },
-              { id: `${agent.id}-3`, name: `${agent.agent_name} Task 3`, status: getRandomStatus() }
-            ];
-            
-            return {
-              ...agent,
-              tasks: mockTasks
-            };
-          });
-          
-          setAgents(processedAgents);
-          
-          // Calculate system statistics
-          const activeCount = data.filter(agent => agent.status === 'Active').length;
-          
-          // Make sure accuracy_rate is treated as a number with a default of 0 if null
-          const avgAccuracy = data.length > 0 ? 
-            data.reduce((sum, agent) => sum + (typeof agent.accuracy_rate === 'number' ? agent.accuracy_rate : 0), 0) / data.length : 
-            0;
-          
-          setSystemStats({
-            activeAgents: activeCount,
-            systemLoad: Math.floor(Math.random() * 30) + 50, // Random load between 50-80%
-            averageAccuracy: Math.round(avgAccuracy)
-          });
-        }
-      } catch (error) {
-        console.error("Error in fetching AI agents:", error);
-      } finally {
-        setLoading(false);
+  // Live task status; a finished task also changes its agent's stats
+  useEffect(() => {
+    return subscribeToAgentTasks((task) => {
+      setTasks(prev => [task, ...prev.filter(existing => existing.id !== task.id)]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)));
+      setDetailsTask(current => (current?.id === task.id ? task : current));
+      if (task.status === "succeeded" || task.status === "failed") {
+        fetchAgents().then(setAgents).catch(error => console.error("Error fetching AI agents:", error));
       }
+    });
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadAgents();
+    setRefreshing(false);
+  };
+
+  const handleRunQueue = async () => {
+    try {
+      await runAgentWorker();
+      toast({ title: "Queue processed", description: "Agents have worked through their pending tasks." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run the agents",
+        variant: "destructive"
+      });
     }
+  };
 
-    fetchAIAgents();
-  }, []);
+  const handleTogglePower = async (agent: AiAgent) => {
+    const status = agent.status === "Active" || agent.status === "Error" ? "Inactive" : "Active";
+    try {
+      await setAgentStatus(agent.id, status);
+      setAgents(prev => prev.map(existing => (existing.id === agent.id ? { ...existing, status } : existing)));
+      toast({
+        title: status === "Active" ? "Agent started" : "Agent stopped",
+        description: status === "Active" ? `${agent.agent_name} will pick up queued tasks.` : `${agent.agent_name}'s queued tasks will wait until it is started again.`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change the agent's status",
+        variant: "destructive"
+      });
+    }
+  };
 
-  const getRandomStatus = () => {
-    const statuses = ['done', 'in-progress', 'error', 'queued'];
-    return statuses[Math.floor(Math.random() * statuses.length)];
+  const handleCancelTask = async (task: AiAgentTask) => {
+    try {
+      await cancelAgentTask(task.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel the task",
+        variant: "destructive"
+      });
+    }
   };
 
-  const getStatusColor = (status) => {
+  const activeAgents = agents.filter(agent => agent.status === "Active").length;
+  const runningTasks = tasks.filter(task => task.status === "running").length;
+  const queuedTasks = tasks.filter(task => task.status === "queued").length;
+  // Only agents HR has scored count towards the average
+  const scoredAgents = agents.filter(agent => typeof agent.accuracy_rate === "number");
+  const averageAccuracy = scoredAgents.length > 0
+    ? Math.round(scoredAgents.reduce((sum, agent) => sum + (agent.accuracy_rate ?? 0), 0) / scoredAgents.length)
+    : 0;
+
+  const getStatusColor = (status: AiAgent["status"]) => {
     switch (status) {
       case 'Active':
         return 'bg-green-500';
       case 'Inactive':
+        return 'bg-gray-400';
+      case 'Error':
         return 'bg-red-500';
-      case 'Processing':
+      case 'Training':
+      case 'Maintenance':
         return 'bg-yellow-500';
       default:
         return 'bg-gray-500';
     }
   };
 
-  const getTaskStatusIcon = (status) => {
+  const getTaskStatusIcon = (status: AiAgentTaskStatus) => {
     switch (status) {
-      case 'done':
+      case 'succeeded':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
-      case 'in-progress':
+      case 'running':
         return <RotateCw className="h-4 w-4 text-blue-500 animate-spin" />;
-      case 'error':
+      case 'failed':
         return <AlertCircle className="h-4 w-4 text-red-500" />;
-      case 'pending':
       case 'queued':
         return <Clock className="h-4 w-4 text-yellow-500" />;
+      case 'cancelled':
+        return <XCircle className="h-4 w-4 text-gray-400" />;
       default:
         return null;
     }
   };
 
   // Format timestamp to relative time (e.g., "5 minutes ago")
-  const getRelativeTime = (timestamp) => {
-    if (!timestamp) return 'Unknown';
-    
+  const getRelativeTime = (timestamp: string | null) => {
+    if (!timestamp) return 'Never';
+
     const now = new Date();
     const activityTime = new Date(timestamp);
     const diffInMinutes = Math.floor((now.getTime() - activityTime.getTime()) / (1000 * 60));
-    
+
     if (diffInMinutes < 1) return 'Just now';
     if (diffInMinutes < 60) return `${diffInMinutes} minute${diffInMinutes > 1 ? 's' : ''} ago`;
-    
+
     const diffInHours = Math.floor(diffInMinutes / 60);
     if (diffInHours < 24) return `${diffInHours} hour${diffInHours > 1 ? 's' : ''} ago`;
-    
+
     const diffInDays = Math.floor(diffInHours / 24);
     return `${diffInDays} day${diffInDays > 1 ? 's' : ''} ago`;
   };
 
+  const getTaskDetail = (task: AiAgentTask) => {
+    if (task.status === 'queued' && task.error) {
+      return `Will retry at ${new Date(task.run_after).toLocaleTimeString()}: ${task.error}`;
+    }
+    if (task.status === 'failed') return task.error || 'Failed';
+    if (task.progress_total) return `${task.progress_done}/${task.progress_total}`;
+    return null;
+  };
+
   return (
     <DashboardLayout>
       <div className="flex flex-col gap-6">
@@ -134,13 +198,13 @@ const AIAgents = () => {
             </p>
           </div>
           <div className="flex gap-3">
-            <Button variant="outline">
-              <RotateCw className="mr-1.5 h-4 w-4" />
+            <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+              <RotateCw className={cn("mr-1.5 h-4 w-4", refreshing && "animate-spin")} />
               Refresh
             </Button>
-            <Button className="bg-[#3b82f6] hover:bg-blue-700">
+            <Button className="bg-[#3b82f6] hover:bg-blue-700" onClick={handleRunQueue} disabled={queuedTasks === 0}>
               <Zap className="mr-1.5 h-4 w-4" />
-              Optimize All
+              Run Queue
             </Button>
           </div>
         </div>
@@ -156,27 +220,27 @@ const AIAgents = () => {
               <div className="flex justify-between items-center">
                 <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Active Agents</h4>
                 <span className="text-lg font-bold text-green-600 dark:text-green-400">
-                  {loading ? "..." : `${systemStats.activeAgents}/${agents.length}`}
+                  {loading ? "..." : `${activeAgents}/${agents.length}`}
                 </span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 h-1.5 mt-2 rounded-full">
-                <div 
-                  className="bg-green-500 h-1.5 rounded-full" 
-                  style={{ width: loading ? '0%' : `${(systemStats.activeAgents / agents.length) * 100}%` }}
+                <div
+                  className="bg-green-500 h-1.5 rounded-full"
+                  style={{ width: loading || agents.length === 0 ? '0%' : `${(activeAgents / agents.length) * 100}%` }}
                 ></div>
               </div>
             </div>
             <div className="bg-gray-50 dark:bg-gray-900/50 p-4 rounded-lg">
               <div className="flex justify-between items-center">
-                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">System Load</h4>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Task Queue</h4>
                 <span className="text-lg font-bold text-yellow-600 dark:text-yellow-400">
-                  {loading ? "..." : `${systemStats.systemLoad}%`}
+                  {loading ? "..." : `${runningTasks} running · ${queuedTasks} queued`}
                 </span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 h-1.5 mt-2 rounded-full">
-                <div 
-                  className="bg-yellow-500 h-1.5 rounded-full" 
-                  style={{ width: loading ? '0%' : `${systemStats.systemLoad}%` }}
+                <div
+                  className="bg-yellow-500 h-1.5 rounded-full"
+                  style={{ width: loading || runningTasks + queuedTasks === 0 ? '0%' : `${(runningTasks / (runningTasks + queuedTasks)) * 100}%` }}
                 ></div>
               </div>
             </div>
@@ -184,13 +248,13 @@ const AIAgents = () => {
               <div className="flex justify-between items-center">
                 <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Average Accuracy</h4>
                 <span className="text-lg font-bold text-blue-600 dark:text-blue-400">
-                  {loading ? "..." : `${systemStats.averageAccuracy}%`}
+                  {loading ? "..." : scoredAgents.length > 0 ? `${averageAccuracy}%` : "Not scored"}
                 </span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 h-1.5 mt-2 rounded-full">
-                <div 
-                  className="bg-blue-500 h-1.5 rounded-full" 
-                  style={{ width: loading ? '0%' : `${systemStats.averageAccuracy}%` }}
+                <div
+                  className="bg-blue-500 h-1.5 rounded-full"
+                  style={{ width: loading ? '0%' : `${averageAccuracy}%` }}
                 ></div>
               </div>
             </div>
@@ -202,70 +266,144 @@ const AIAgents = () => {
           {loading ? (
             <div className="col-span-full text-center py-10">Loading AI agents...</div>
           ) : agents.length > 0 ? (
-            agents.map(agent => (
-              <Card key={agent.id} className={cn(
-                "bg-white dark:bg-gray-800 border-l-4",
-                agent.status === 'Active' ? "border-l-green-500" :
-                agent.status === 'Inactive' ? "border-l-red-500" :
-                "border-l-yellow-500"
-              )}>
-                <CardHeader className="pb-2">
-                  <div className="flex justify-between items-center">
-                    <div className="flex items-center gap-2">
-                      <div className={`h-2.5 w-2.5 rounded-full ${getStatusColor(agent.status)}`}></div>
-                      <CardTitle className="text-base">{agent.agent_name}</CardTitle>
-                    </div>
-                    <div className="flex gap-1">
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                        <Power className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                        <Settings className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                  <CardDescription>{agent.agent_type}</CardDescription>
-                </CardHeader>
-                <CardContent className="pb-2">
-                  <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5 mb-3">
-                    <div className="flex justify-between">
-                      <span>Last Activity:</span>
-                      <span className="text-gray-700 dark:text-gray-300">
-                        {getRelativeTime(agent.last_activity)}
-                      </span>
+            agents.map(agent => {
+              const agentTasks = tasks.filter(task => task.agent_id === agent.id);
+              const lastFailure = agentTasks.find(task => task.status === 'failed');
+              const configuration = agent.configuration as { version?: string } | null;
+
+              return (
+                <Card key={agent.id} className={cn(
+                  "bg-white dark:bg-gray-800 border-l-4",
+                  agent.status === 'Active' ? "border-l-green-500" :
+                  agent.status === 'Error' ? "border-l-red-500" :
+                  agent.status === 'Inactive' ? "border-l-gray-400" :
+                  "border-l-yellow-500"
+                )}>
+                  <CardHeader className="pb-2">
+                    <div className="flex justify-between items-center">
+                      <div className="flex items-center gap-2">
+                        <div className={`h-2.5 w-2.5 rounded-full ${getStatusColor(agent.status)}`}></div>
+                        <CardTitle className="text-base">{agent.agent_name}</CardTitle>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title={agent.status === 'Active' || agent.status === 'Error' ? "Stop agent" : "Start agent"}
+                          onClick={() => handleTogglePower(agent)}
+                        >
+                          <Power className={cn("h-4 w-4", agent.status === 'Active' && "text-green-600")} />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                          <Settings className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Version:</span>
-                      <span className="text-gray-700 dark:text-gray-300">
-                        {agent.configuration?.version || "1.0.0"}
-                      </span>
+                    <CardDescription>{agent.agent_type} · {agent.status}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="pb-2">
+                    {agent.status === 'Error' && (
+                      <div className="flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-900/20 p-2.5 mb-3 text-xs text-red-700 dark:text-red-300">
+                        <AlertCircle className="h-4 w-4 shrink-0" />
+                        <span>{lastFailure?.error ? `Last task failed: ${lastFailure.error}` : "The last task failed."} The agent recovers once a task succeeds.</span>
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5 mb-3">
+                      <div className="flex justify-between">
+                        <span>Last Activity:</span>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {getRelativeTime(agent.last_activity)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Version:</span>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {configuration?.version || "1.0.0"}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Tasks Completed:</span>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {agent.tasks_completed ?? 0}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Agreement with HR:</span>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {typeof agent.accuracy_rate === 'number' ? `${Math.round(agent.accuracy_rate)}%` : "Not scored yet"}
+                        </span>
+                      </div>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Performance:</span>
-                      <span className="text-gray-700 dark:text-gray-300">
-                        {Math.round(agent.accuracy_rate)}%
-                      </span>
+                    <div className="space-y-2">
+                      <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400">Recent Tasks</h4>
+                      {agentTasks.length === 0 ? (
+                        <p className="text-sm text-gray-500">No tasks yet.</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {agentTasks.slice(0, TASKS_PER_CARD).map(task => {
+                            const detail = getTaskDetail(task);
+                            return (
+                              <li key={task.id} className="text-sm bg-gray-50 dark:bg-gray-700/30 px-2.5 py-1.5 rounded">
+                                <div className="flex justify-between items-center gap-2">
+                                  <button
+                                    type="button"
+                                    className="truncate text-left hover:underline"
+                                    onClick={() => setDetailsTask(task)}
+                                  >
+                                    {TASK_LABELS[task.task_type] ?? task.task_type}
+                                  </button>
+                                  <div className="flex items-center gap-1.5 shrink-0">
+                                    {(task.status === 'queued' || task.status === 'running') && (
+                                      <button
+                                        type="button"
+                                        className="text-xs text-gray-500 hover:text-red-600"
+                                        onClick={() => handleCancelTask(task)}
+                                      >
+                                        Cancel
+                                      </button>
+                                    )}
+                                    {getTaskStatusIcon(task.status)}
+                                  </div>
+                                </div>
+                                {task.status === 'running' && task.progress_total ? (
+                                  <div className="w-full bg-gray-200 dark:bg-gray-700 h-1 mt-1.5 rounded-full">
+                                    <div
+                                      className="bg-blue-500 h-1 rounded-full"
+                                      style={{ width: `${(task.progress_done / task.progress_total) * 100}%` }}
+                                    ></div>
+                                  </div>
+                                ) : null}
+                                {detail && (
+                                  <p className={cn(
+                                    "text-xs mt-0.5 truncate",
+                                    task.error ? "text-red-600 dark:text-red-400" : "text-gray-500"
+                                  )} title={detail}>
+                                    {detail}
+                                  </p>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400">Current Tasks</h4>
-                    <ul className="space-y-1">
-                      {agent.tasks.map(task => (
-                        <li key={task.id} className="flex justify-between items-center text-sm bg-gray-50 dark:bg-gray-700/30 px-2.5 py-1.5 rounded">
-                          <span>{task.name}</span>
-                          {getTaskStatusIcon(task.status)}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                </CardContent>
-                <CardFooter className="pt-2">
-                  <Button variant="outline" size="sm" className="w-full">
-                    View Details
-                  </Button>
-                </CardFooter>
-              </Card>
-            ))
+                  </CardContent>
+                  <CardFooter className="pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setRunAgent(agent)}
+                      disabled={agent.status === 'Training' || agent.status === 'Maintenance'}
+                    >
+                      <Play className="mr-1.5 h-4 w-4" />
+                      Run Task
+                    </Button>
+                  </CardFooter>
+                </Card>
+              );
+            })
           ) : (
             <div className="col-span-full text-center py-10">
               No AI agents found. Add your first agent to get started.
@@ -273,6 +411,9 @@ const AIAgents = () => {
           )}
         </div>
       </div>
+
+      <RunAgentTaskDialog agent={runAgent} onClose={() => setRunAgent(null)} />
+      <AgentTaskDetailsDialog task={detailsTask} onClose={() => setDetailsTask(null)} />
     </DashboardLayout>
   );
 };
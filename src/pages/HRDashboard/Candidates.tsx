@@ -1,12 +1,15 @@
 
 import React, { useState, useEffect } from "react";
-import { Users, Search, Eye, CheckCircle, XCircle, Star } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Users, Search, Eye, CheckCircle, XCircle, Star, Upload } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import PipelineBoard from "@/components/jobs/PipelineBoard";
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
@@ -36,12 +39,30 @@ const Candidates = () => {
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [jobs, setJobs] = useState<{ id: string; title: string }[]>([]);
+  const [boardJobId, setBoardJobId] = useState("");
   const { toast } = useToast();
 
   useEffect(() => {
     fetchApplications();
+    fetchJobs();
   }, []);
 
+  const fetchJobs = async () => {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('id, title')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching jobs:", error);
+      return;
+    }
+
+    setJobs(data || []);
+    if (data && data.length > 0) setBoardJobId(current => current || data[0].id);
+  };
+
   const fetchApplications = async () => {
     setLoading(true);
     try {
@@ -268,8 +289,38 @@ const Candidates = () => {
               Manage candidate applications and resumes
             </p>
           </div>
+          <Button asChild variant="outline">
+            <Link to="/hr-dashboard/resume-parser">
+              <Upload className="h-4 w-4 mr-2" />
+              Bulk Import Resumes
+            </Link>
+          </Button>
         </div>
 
+        {/* Hiring Pipeline Board */}
+        <Card className="bg-white dark:bg-gray-800">
+          <CardHeader className="pb-2 flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle className="text-lg">Hiring Pipeline</CardTitle>
+            <Select value={boardJobId} onValueChange={setBoardJobId} disabled={jobs.length === 0}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select a job" />
+              </SelectTrigger>
+              <SelectContent>
+                {jobs.map(job => (
+                  <SelectItem key={job.id} value={job.id}>{job.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {boardJobId ? (
+              <PipelineBoard key={boardJobId} jobId={boardJobId} />
+            ) : (
+              <div className="text-center py-4 text-gray-500">Post a job to start tracking its candidates here.</div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Application Pipeline Stats */}
         <Card className="bg-white dark:bg-gray-800">
           <CardHeader className="pb-2">
@@ -10,8 +10,11 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/layout/DashboardLayout";
-import { Loader2, Plus, X, Briefcase, Building, MapPin, Users, DollarSign, Calendar, Mail, Phone, Award, GraduationCap, Star, Sparkles, Target, Brain } from "lucide-react";
+import { Loader2, Plus, X, Briefcase, Building, MapPin, Users, DollarSign, Calendar, Mail, Phone, Award, GraduationCap, Star, Sparkles, Target, Brain, ShieldCheck } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import ProctoringPolicyEditor from "@/components/jobs/ProctoringPolicyEditor";
+import { DEFAULT_PROCTORING_POLICY, type ProctoringPolicy } from "@/utils/proctoringPolicy";
+import type { Json } from "@/integrations/supabase/types";
 
 const CreateJob = () => {
   const { toast } = useToast();
@@ -19,6 +22,7 @@ const CreateJob = () => {
   const [loading, setLoading] = useState(false);
   const [skills, setSkills] = useState<string[]>([]);
   const [skillInput, setSkillInput] = useState("");
+  const [proctoringPolicy, setProctoringPolicy] = useState<ProctoringPolicy>(DEFAULT_PROCTORING_POLICY);
   
   const [jobData, setJobData] = useState({
     company_name: "",
@@ -213,7 +217,8 @@ const CreateJob = () => {
           company_id: companyId,
           assigned_hr_id: hrMemberId,
           status: 'Open',
-          ats_minimum_score: parseInt(jobData.ats_minimum_score)
+          ats_minimum_score: parseInt(jobData.ats_minimum_score),
+          proctoring_policy: proctoringPolicy as unknown as Json
         })
         .select()
         .single();
@@ -660,6 +665,24 @@ const CreateJob = () => {
                 </CardContent>
               </Card>
 
+              {/* Proctoring Policy Section */}
+              <Card className="bg-white/80 backdrop-blur-sm shadow-2xl border-0 rounded-3xl overflow-hidden">
+                <CardHeader className="bg-gradient-to-r from-rose-50 to-red-50 border-b border-rose-100/50">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-gradient-to-r from-rose-500 to-red-600 rounded-2xl flex items-center justify-center">
+                      <ShieldCheck className="h-6 w-6 text-white" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-2xl font-bold text-slate-900">AI Interview Proctoring</CardTitle>
+                      <CardDescription className="text-slate-600">Choose which violations are monitored and how strictly they are enforced</CardDescription>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-8">
+                  <ProctoringPolicyEditor value={proctoringPolicy} onChange={setProctoringPolicy} />
+                </CardContent>
+              </Card>
+
               {/* Contact & Additional Information Section */}
               <Card className="bg-white/80 backdrop-blur-sm shadow-2xl border-0 rounded-3xl overflow-hidden">
                 <CardHeader className="bg-gradient-to-r from-orange-50 to-amber-50 border-b border-orange-100/50">
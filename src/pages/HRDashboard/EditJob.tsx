@@ -11,7 +11,10 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/layout/DashboardLayout";
-import { Loader2, Save, ArrowLeft, Briefcase, MapPin, DollarSign, Calendar, Users, Target, Brain } from "lucide-react";
+import { Loader2, Save, ArrowLeft, Briefcase, MapPin, DollarSign, Calendar, Users, Target, Brain, ShieldCheck } from "lucide-react";
+import ProctoringPolicyEditor from "@/components/jobs/ProctoringPolicyEditor";
+import { DEFAULT_PROCTORING_POLICY, parseProctoringPolicy, type ProctoringPolicy } from "@/utils/proctoringPolicy";
+import type { Json } from "@/integrations/supabase/types";
 
 type JobStatus = "Open" | "Closed" | "On Hold" | "Draft" | "Filled";
 
@@ -22,6 +25,7 @@ const EditJob = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [job, setJob] = useState(null);
+  const [proctoringPolicy, setProctoringPolicy] = useState<ProctoringPolicy>(DEFAULT_PROCTORING_POLICY);
   const [formData, setFormData] = useState({
     title: "",
     description: "",
@@ -72,6 +76,7 @@ const EditJob = () => {
           ats_minimum_score: data.ats_minimum_score || 70,
           status: (data.status as JobStatus) || "Open"
         });
+        setProctoringPolicy(parseProctoringPolicy(data.proctoring_policy));
       } catch (err) {
         console.error("Error fetching job:", err);
       } finally {
@@ -112,6 +117,7 @@ const EditJob = () => {
           application_deadline: formData.application_deadline,
           ats_minimum_score: formData.ats_minimum_score,
           status: formData.status,
+          proctoring_policy: proctoringPolicy as unknown as Json,
           updated_at: new Date().toISOString()
         })
         .eq('id', id);
@@ -297,6 +303,20 @@ const EditJob = () => {
               </div>
             </div>
 
+            {/* Proctoring Policy */}
+            <div className="bg-gradient-to-r from-rose-50 to-red-50 p-6 rounded-xl border-2 border-rose-200">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-10 h-10 bg-rose-500 rounded-xl flex items-center justify-center">
+                  <ShieldCheck className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <Label className="text-lg font-bold text-gray-900">AI Interview Proctoring</Label>
+                  <p className="text-sm text-gray-600">Violations monitored during AI interviews for this job</p>
+                </div>
+              </div>
+              <ProctoringPolicyEditor value={proctoringPolicy} onChange={setProctoringPolicy} />
+            </div>
+
             {/* Description and Requirements */}
             <div className="space-y-6">
               <div className="space-y-2">
@@ -4,13 +4,34 @@ import DashboardLayout from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
 import { 
-  Calendar, ChevronLeft, ChevronRight, Clock, Download, Plus, Star,
-  Video, FileText, Loader2, CheckCircle, RotateCw, AlertCircle
+  Calendar, ChevronLeft, ChevronRight, Clock, Download, Plus,
+  Video, FileText, Loader2, CheckCircle, RotateCw, AlertCircle, ShieldAlert,
+  CalendarClock, Mail, MoreVertical, UserX, XCircle, ClipboardList
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format, startOfWeek, addDays, addWeeks, subWeeks, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
+import ProctoringEvidenceDialog from "@/components/interview/ProctoringEvidenceDialog";
+import ScheduleInterviewDialog from "@/components/interview/ScheduleInterviewDialog";
+import InterviewerAvailabilityDialog from "@/components/interview/InterviewerAvailabilityDialog";
+import ScorecardDialog from "@/components/interview/ScorecardDialog";
+import ScorecardSummary, { ScorecardDecisionBadge } from "@/components/interview/ScorecardSummary";
+import { aggregateScorecards, fetchScorecards } from "@/utils/interviewScorecards";
+import {
+  cancelInterview,
+  downloadInterviewInvite,
+  emailInterviewInvite,
+  updateInterviewStatus
+} from "@/utils/interviewScheduling";
 
 const HRDashboardInterviews = () => {
   const [activeTab, setActiveTab] = useState("upcoming");
@@ -19,6 +40,17 @@ const HRDashboardInterviews = () => {
   const [interviews, setInterviews] = useState([]);
   const [loading, setLoading] = useState(true);
   const [feedbackData, setFeedbackData] = useState([]);
+  const [proctoredSessions, setProctoredSessions] = useState([]);
+  const [evidenceSession, setEvidenceSession] = useState(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [scheduling, setScheduling] = useState(false);
+  const [rescheduling, setRescheduling] = useState(null);
+  const [cancelling, setCancelling] = useState(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [availabilityOpen, setAvailabilityOpen] = useState(false);
+  const [scoring, setScoring] = useState(null);
+  const [reviewing, setReviewing] = useState(null);
+  const { toast } = useToast();
 
   const startOfCurrentWeek = startOfWeek(currentDate, { weekStartsOn: 1 });
   
@@ -83,6 +115,12 @@ const HRDashboardInterviews = () => {
             
             return {
               id: interview.id,
+              applicationId: interview.application_id,
+              candidateId: interview.applications?.candidate_id,
+              interviewerId: interview.interviewer_id,
+              scheduledDate: interview.scheduled_date,
+              interviewType: interview.interview_type || "Technical",
+              videoLink: interview.video_link,
               candidateName,
               position,
               date: format(parseISO(interview.scheduled_date), "yyyy-MM-dd"),
@@ -98,23 +136,25 @@ const HRDashboardInterviews = () => {
           
           setInterviews(processedInterviews);
           
-          // Create feedback data from interviews with feedback
-          const feedbacks = processedInterviews
-            .filter(interview => interview.feedback && interview.score)
-            .map(interview => ({
-              id: interview.id,
-              candidateName: interview.candidateName,
-              position: interview.position,
-              date: interview.date,
-              interviewer: interview.interviewers[0],
-              rating: interview.score ? Math.min(Math.max(Math.floor(interview.score / 20), 1), 5) : 3,
-              strengths: "Strong technical knowledge, excellent problem-solving skills",
-              weaknesses: "Could improve communication skills",
-              notes: interview.feedback || "No detailed feedback provided",
-              decision: interview.score >= 70 ? "advance" : interview.score >= 50 ? "consider" : "reject"
-            }));
-            
-          setFeedbackData(feedbacks);
+          // Interviews that have happened, with their panel's scorecards
+          const reviewable = processedInterviews
+            .filter(interview => interview.status !== "cancelled" &&
+              (interview.status === "completed" || parseISO(interview.scheduledDate) < new Date()))
+            .reverse();
+          const { scorecards, templates } = await fetchScorecards(reviewable.map(interview => interview.id));
+
+          setFeedbackData(reviewable.map(interview => ({
+            id: interview.id,
+            candidateName: interview.candidateName,
+            position: interview.position,
+            date: interview.date,
+            interviewType: interview.interviewType,
+            interviewers: interview.interviewers,
+            aggregate: aggregateScorecards(
+              scorecards.filter(scorecard => scorecard.interviewId === interview.id),
+              templates
+            )
+          })));
         }
       } catch (error) {
         console.error("Error in fetching interviews:", error);
@@ -124,6 +164,81 @@ const HRDashboardInterviews = () => {
     }
 
     fetchInterviews();
+  }, [reloadKey]);
+
+  const reloadInterviews = () => setReloadKey(key => key + 1);
+
+  const runInterviewAction = async (action, success) => {
+    try {
+      const result = await action();
+      toast({ title: success, description: Array.isArray(result) ? result.join(", ") : undefined });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleStatusChange = async (interview, status) => {
+    if (await runInterviewAction(() => updateInterviewStatus(interview.id, status), `Marked as ${status}`)) {
+      reloadInterviews();
+    }
+  };
+
+  const handleCancel = async () => {
+    const interview = cancelling;
+    if (await runInterviewAction(() => cancelInterview(interview.id, cancelReason), "Interview cancelled")) {
+      setCancelling(null);
+      setCancelReason("");
+      reloadInterviews();
+      // Tell both sides; the cancellation invite removes the calendar event
+      await runInterviewAction(() => emailInterviewInvite(interview.id), "Cancellation sent");
+    }
+  };
+
+  useEffect(() => {
+    async function fetchProctoredSessions() {
+      // One row per strike; group them into sessions for the overview
+      const { data, error } = await supabase
+        .from('proctoring_evidence')
+        .select('user_id, session_id, candidate_name, job_title, recorded_at, event')
+        .order('recorded_at', { ascending: false })
+        .limit(500);
+
+      if (error) {
+        console.error("Error fetching proctoring evidence:", error);
+        return;
+      }
+
+      const sessions = new Map();
+      for (const row of data || []) {
+        const event = row.event as { flagged?: boolean; action?: string } | null;
+        // Session ids are only unique per candidate
+        const key = `${row.user_id}:${row.session_id}`;
+        const session = sessions.get(key) || {
+          key,
+          sessionId: row.session_id,
+          userId: row.user_id,
+          candidateName: row.candidate_name || "Unknown Candidate",
+          position: row.job_title || "Unknown Position",
+          lastEventAt: row.recorded_at,
+          violations: 0,
+          flagged: false,
+          terminated: false
+        };
+        session.violations += 1;
+        session.flagged = session.flagged || !!event?.flagged;
+        session.terminated = session.terminated || event?.action === "terminate";
+        sessions.set(key, session);
+      }
+      setProctoredSessions(Array.from(sessions.values()));
+    }
+
+    fetchProctoredSessions();
   }, []);
 
   const getStatusBadgeClass = (status) => {
@@ -162,9 +277,14 @@ const HRDashboardInterviews = () => {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Interview Management</h1>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" /> Schedule Interview
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setAvailabilityOpen(true)}>
+              <CalendarClock className="mr-2 h-4 w-4" /> My Availability
+            </Button>
+            <Button onClick={() => setScheduling(true)}>
+              <Plus className="mr-2 h-4 w-4" /> Schedule Interview
+            </Button>
+          </div>
         </div>
 
         {loading ? (
@@ -173,11 +293,12 @@ const HRDashboardInterviews = () => {
           </div>
         ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full max-w-md grid-cols-4">
+            <TabsList className="grid w-full max-w-lg grid-cols-5">
               <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
               <TabsTrigger value="calendar">Calendar</TabsTrigger>
               <TabsTrigger value="feedback">Feedback</TabsTrigger>
               <TabsTrigger value="templates">Templates</TabsTrigger>
+              <TabsTrigger value="proctoring">Proctoring</TabsTrigger>
             </TabsList>
             
             <TabsContent value="upcoming" className="space-y-4">
@@ -190,7 +311,7 @@ const HRDashboardInterviews = () => {
                   <div className="space-y-4">
                     {interviews.length > 0 ? (
                       interviews
-                        .filter(interview => interview.status === "scheduled")
+                        .filter(interview => interview.status === "scheduled" || interview.status === "rescheduled")
                         .map((interview) => (
                           <Card key={interview.id}>
                             <CardContent className="p-4">
@@ -210,12 +331,50 @@ const HRDashboardInterviews = () => {
                                   </div>
                                 </div>
                                 <div className="flex gap-2">
-                                  <Button size="sm" variant="outline">
-                                    <Video className="h-4 w-4 mr-1" /> Join
-                                  </Button>
-                                  <Button size="sm" variant="default">
-                                    Details
-                                  </Button>
+                                  {interview.status === "rescheduled" && (
+                                    <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium self-center", getStatusBadgeClass("pending"))}>
+                                      Rescheduled
+                                    </span>
+                                  )}
+                                  {interview.videoLink ? (
+                                    <Button size="sm" variant="outline" asChild>
+                                      <a href={interview.videoLink} target="_blank" rel="noopener noreferrer">
+                                        <Video className="h-4 w-4 mr-1" /> Join
+                                      </a>
+                                    </Button>
+                                  ) : (
+                                    <Button size="sm" variant="outline" disabled>
+                                      <Video className="h-4 w-4 mr-1" /> Join
+                                    </Button>
+                                  )}
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button size="sm" variant="default">
+                                        Manage <MoreVertical className="h-4 w-4 ml-1" />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                      <DropdownMenuItem onSelect={() => setRescheduling(interview)}>
+                                        <CalendarClock className="h-4 w-4 mr-2" /> Reschedule
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem onSelect={() => runInterviewAction(() => downloadInterviewInvite(interview.id), "Invite downloaded")}>
+                                        <Download className="h-4 w-4 mr-2" /> Download invite (.ics)
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem onSelect={() => runInterviewAction(() => emailInterviewInvite(interview.id), "Invite sent")}>
+                                        <Mail className="h-4 w-4 mr-2" /> Email invite
+                                      </DropdownMenuItem>
+                                      <DropdownMenuSeparator />
+                                      <DropdownMenuItem onSelect={() => handleStatusChange(interview, "Completed")}>
+                                        <CheckCircle className="h-4 w-4 mr-2" /> Mark completed
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem onSelect={() => handleStatusChange(interview, "No Show")}>
+                                        <UserX className="h-4 w-4 mr-2" /> Mark no-show
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem className="text-red-600" onSelect={() => setCancelling(interview)}>
+                                        <XCircle className="h-4 w-4 mr-2" /> Cancel interview
+                                      </DropdownMenuItem>
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
                                 </div>
                               </div>
                               <div className="flex justify-between items-center mt-4 text-sm">
@@ -340,6 +499,7 @@ const HRDashboardInterviews = () => {
                               
                               {/* Find interviews for this day and time */}
                               {interviews.filter(interview => 
+                                interview.status !== "cancelled" &&
                                 interview.date === format(day, "yyyy-MM-dd") && 
                                 interview.time === slot.time
                               ).map(interview => (
@@ -390,44 +550,40 @@ const HRDashboardInterviews = () => {
                                   <Calendar className="h-3.5 w-3.5 mr-1 text-gray-400" />
                                   <span className="text-gray-500">{format(new Date(feedback.date), "MMM dd, yyyy")}</span>
                                   <span className="mx-2 text-gray-400">•</span>
-                                  <span className="text-gray-500">By {feedback.interviewer}</span>
+                                  <span className="text-gray-500">By {feedback.interviewers.join(", ")}</span>
                                 </div>
                               </div>
-                              <div className="flex">
-                                {Array.from({ length: 5 }).map((_, i) => (
-                                  <Star 
-                                    key={i}
-                                    className={cn(
-                                      "h-4 w-4",
-                                      i < feedback.rating ? "text-yellow-400 fill-yellow-400" : "text-gray-300"
-                                    )}
-                                  />
-                                ))}
+                              <div className="flex flex-col items-end gap-1">
+                                <ScorecardDecisionBadge decision={feedback.aggregate.decision} />
+                                {feedback.aggregate.panelists > 0 && (
+                                  <span className="text-xs text-gray-500">
+                                    {feedback.aggregate.weightedAverage.toFixed(1)} / 4 · {feedback.aggregate.panelists} scorecard{feedback.aggregate.panelists === 1 ? "" : "s"}
+                                  </span>
+                                )}
                               </div>
                             </div>
-                            
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-                              <div>
-                                <h4 className="text-sm font-medium text-gray-700">Feedback</h4>
-                                <p className="text-sm text-gray-600 mt-1">{feedback.notes}</p>
-                              </div>
-                            </div>
-                            
-                            <div className="flex justify-between items-center mt-4">
-                              <div>
-                                <span className="font-medium text-sm mr-2">Decision:</span>
-                                <span className={cn(
-                                  "px-2 py-0.5 rounded-full text-xs font-medium",
-                                  feedback.decision === "advance" ? "bg-green-100 text-green-700" : 
-                                  feedback.decision === "consider" ? "bg-yellow-100 text-yellow-700" : 
-                                  "bg-red-100 text-red-700"
-                                )}>
-                                  {feedback.decision === "advance" ? "Advance to Next Round" : 
-                                   feedback.decision === "consider" ? "Consider" : 
-                                   "Reject"}
-                                </span>
+
+                            {(feedback.aggregate.recommendationsDisagree || feedback.aggregate.competencies.some(c => c.disagreement)) && (
+                              <div className="flex items-center mt-3 text-sm text-yellow-700">
+                                <AlertCircle className="h-4 w-4 mr-1" />
+                                Panelists disagree on{" "}
+                                {feedback.aggregate.recommendationsDisagree
+                                  ? "the recommendation"
+                                  : feedback.aggregate.competencies.filter(c => c.disagreement).map(c => c.label.toLowerCase()).join(", ")}
                               </div>
-                              <Button variant="outline" size="sm">View Full Feedback</Button>
+                            )}
+
+                            <div className="flex justify-end items-center gap-2 mt-4">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setScoring({ id: feedback.id, candidateName: feedback.candidateName, interviewType: feedback.interviewType })}
+                              >
+                                <ClipboardList className="h-4 w-4 mr-1" /> My Scorecard
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => setReviewing(feedback)} disabled={feedback.aggregate.panelists === 0}>
+                                View Full Feedback
+                              </Button>
                             </div>
                           </CardContent>
                         </Card>
@@ -495,8 +651,112 @@ const HRDashboardInterviews = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="proctoring" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Proctoring Evidence</CardTitle>
+                  <CardDescription>Review violations recorded during AI interviews and verify their evidence chain</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {proctoredSessions.length > 0 ? (
+                      proctoredSessions.map((session) => (
+                        <Card key={session.key}>
+                          <CardContent className="p-4">
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <h3 className="font-medium">{session.candidateName}</h3>
+                                <p className="text-sm text-gray-500">{session.position}</p>
+                                <div className="flex items-center mt-1 text-sm">
+                                  <Calendar className="h-3.5 w-3.5 mr-1 text-gray-400" />
+                                  <span className="text-gray-500">{format(new Date(session.lastEventAt), "MMM dd, yyyy HH:mm")}</span>
+                                  <span className="mx-2 text-gray-400">•</span>
+                                  <span className="text-gray-500">{session.violations} violation{session.violations === 1 ? "" : "s"}</span>
+                                </div>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {session.terminated && (
+                                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Terminated</span>
+                                )}
+                                {session.flagged && (
+                                  <span className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700">
+                                    <ShieldAlert className="h-3 w-3 mr-1" /> Flagged
+                                  </span>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex justify-end mt-4">
+                              <Button variant="outline" size="sm" onClick={() => setEvidenceSession(session)}>
+                                View Evidence
+                              </Button>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ))
+                    ) : (
+                      <div className="text-center py-10 text-gray-500">
+                        No proctoring violations recorded.
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         )}
+
+        <ProctoringEvidenceDialog
+          sessionId={evidenceSession?.sessionId ?? null}
+          userId={evidenceSession?.userId ?? null}
+          candidateName={evidenceSession?.candidateName}
+          onClose={() => setEvidenceSession(null)}
+        />
+
+        <ScheduleInterviewDialog
+          open={scheduling || !!rescheduling}
+          interview={rescheduling}
+          onClose={() => {
+            setScheduling(false);
+            setRescheduling(null);
+          }}
+          onSaved={reloadInterviews}
+        />
+
+        <InterviewerAvailabilityDialog open={availabilityOpen} onClose={() => setAvailabilityOpen(false)} />
+
+        <ScorecardDialog interview={scoring} onClose={() => setScoring(null)} onSaved={reloadInterviews} />
+
+        <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Interview Feedback{reviewing ? ` — ${reviewing.candidateName}` : ""}</DialogTitle>
+              <DialogDescription>{reviewing?.position}</DialogDescription>
+            </DialogHeader>
+            {reviewing && <ScorecardSummary aggregate={reviewing.aggregate} />}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cancel interview{cancelling ? ` with ${cancelling.candidateName}` : ""}</DialogTitle>
+              <DialogDescription>
+                The candidate and interviewer are sent a cancellation that removes the event from their calendars.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              placeholder="Reason (optional, included in the cancellation)"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              rows={3}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCancelling(null)}>Keep interview</Button>
+              <Button variant="destructive" onClick={handleCancel}>Cancel interview</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
@@ -43,6 +43,12 @@ import {
 } from "lucide-react";
 import { useNavigate } from 'react-router-dom';
 import { interviewDataStorage, type InterviewSession } from '@/utils/interviewDataStorage';
+import {
+  alignToTurns,
+  emotionDistribution,
+  getSessionTimeSeries,
+  type TurnArc
+} from '@/utils/interviewTimeSeries';
 
 interface AnalysisData {
   overallScore: number;
@@ -85,6 +91,8 @@ interface AnalysisData {
         scores: Record<string, number>;
       }>;
     };
+    // Emotion and behavior windows for each interviewer question
+    turnArcs: TurnArc[];
     behaviorAnalysis: {
       eyeContactQuality: string;
       breaksInEyeContact: number;
@@ -140,6 +148,8 @@ const PostInterviewAnalysis: React.FC = () => {
     const loadAnalysis = async () => {
       try {
         console.log('🔍 Loading interview analysis...');
+        // Sessions are read from IndexedDB in the background
+        await interviewDataStorage.ready;
         
         // First try to get current session
         let session = interviewDataStorage.getCurrentSession();
@@ -270,44 +280,49 @@ const PostInterviewAnalysis: React.FC = () => {
   const generateDetailedAnalysis = (session: InterviewSession): AnalysisData => {
     const startTime = performance.now();
 
-    // Calculate emotion distribution
-    const emotionCounts = session.emotions.reduce((acc, emotion) => {
-      acc[emotion.dominant] = (acc[emotion.dominant] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const totalEmotions = session.emotions.length;
+    // Emotion and behavior metrics come from the downsampled series, not raw frames
+    const series = getSessionTimeSeries(session);
+    const distribution = emotionDistribution(series);
     const emotionAnalysis = {
-      neutral: (emotionCounts.neutral || 0) / totalEmotions * 100,
-      happy: (emotionCounts.happy || 0) / totalEmotions * 100,
-      surprised: (emotionCounts.surprised || 0) / totalEmotions * 100,
-      sad: (emotionCounts.sad || 0) / totalEmotions * 100,
-      angry: (emotionCounts.angry || 0) / totalEmotions * 100,
-      fearful: (emotionCounts.fearful || 0) / totalEmotions * 100,
-      disgusted: (emotionCounts.disgusted || 0) / totalEmotions * 100,
+      neutral: distribution.neutral || 0,
+      happy: distribution.happy || 0,
+      surprised: distribution.surprised || 0,
+      sad: distribution.sad || 0,
+      angry: distribution.angry || 0,
+      fearful: distribution.fearful || 0,
+      disgusted: distribution.disgusted || 0,
     };
 
-    // Calculate average confidence and create emotion timeline
-    const averageConfidence = session.emotions.reduce((sum, emotion) => sum + emotion.confidence, 0) / totalEmotions;
-    const emotionTimeline = session.emotions.map(emotion => ({
-      timestamp: emotion.timestamp,
-      dominant: emotion.dominant,
-      confidence: emotion.confidence,
-      scores: emotion.scores
+    // Calculate average confidence and create emotion timeline (one point per window)
+    const totalEmotions = series.emotions.reduce((sum, bucket) => sum + bucket.samples, 0);
+    const averageConfidence = series.emotions.reduce((sum, bucket) => sum + bucket.confidence.mean * bucket.samples, 0) / totalEmotions;
+    const emotionTimeline = series.emotions.map(bucket => ({
+      timestamp: new Date(bucket.start),
+      dominant: bucket.dominant,
+      confidence: bucket.confidence.mean,
+      scores: Object.fromEntries(Object.entries(bucket.scores).map(([emotion, stats]) => [emotion, stats.mean]))
     }));
+    const turnArcs = alignToTurns(session, series);
 
     // Calculate behavior metrics
+    const totalBehavior = series.behavior.reduce((sum, bucket) => sum + bucket.samples, 0);
+    const behaviorRatio = (ratio: (bucket: typeof series.behavior[number]) => number) => totalBehavior > 0
+      ? series.behavior.reduce((sum, bucket) => sum + ratio(bucket) * bucket.samples, 0) / totalBehavior
+      : 0;
+    const eyeContactRatio = behaviorRatio(bucket => bucket.eyeContactRatio);
+    const maxOf = (value: (bucket: typeof series.behavior[number]) => number) =>
+      series.behavior.reduce((max, bucket) => Math.max(max, value(bucket)), 0);
     const behaviorAnalysis = {
-      eyeContactQuality: session.behaviorAnalysis.length > 0 ? 
-        session.behaviorAnalysis.filter(b => b.eyeContact).length / session.behaviorAnalysis.length > 0.8 ? 'Excellent' : 
-        session.behaviorAnalysis.filter(b => b.eyeContact).length / session.behaviorAnalysis.length > 0.6 ? 'Good' : 'Poor' : 'Unknown',
-      // Use the maximum recorded breaks counter rather than summing per-frame samples
-      breaksInEyeContact: session.behaviorAnalysis.reduce((max, b) => Math.max(max, b.notFacingCounter), 0),
-      totalTimeLookingAway: session.behaviorAnalysis.reduce((sum, b) => sum + b.notFacingDuration, 0),
-      handPositioning: session.behaviorAnalysis.filter(b => !b.handPresence).length < session.behaviorAnalysis.length * 0.2 ? 'Optimal' : 'Needs Improvement',
-      postureQuality: session.behaviorAnalysis.filter(b => b.posture === 'good').length / session.behaviorAnalysis.length > 0.7 ? 'Professional' : 'Needs Improvement',
-      poorPostureEvents: session.behaviorAnalysis.reduce((sum, b) => sum + b.badPostureDetectionCounter, 0),
-      poorPostureDuration: session.behaviorAnalysis.reduce((sum, b) => sum + b.badPostureDuration, 0),
+      eyeContactQuality: totalBehavior > 0 ? 
+        eyeContactRatio > 0.8 ? 'Excellent' : 
+        eyeContactRatio > 0.6 ? 'Good' : 'Poor' : 'Unknown',
+      // Counters and durations are running totals, so use the maximum recorded value
+      breaksInEyeContact: maxOf(bucket => bucket.notFacingCounter),
+      totalTimeLookingAway: maxOf(bucket => bucket.notFacingDuration),
+      handPositioning: behaviorRatio(bucket => bucket.handPresenceRatio) > 0.8 ? 'Optimal' : 'Needs Improvement',
+      postureQuality: behaviorRatio(bucket => bucket.goodPostureRatio) > 0.7 ? 'Professional' : 'Needs Improvement',
+      poorPostureEvents: maxOf(bucket => bucket.badPostureDetectionCounter),
+      poorPostureDuration: maxOf(bucket => bucket.badPostureDuration),
     };
 
     // Calculate communication metrics with enhanced analysis
@@ -510,6 +525,7 @@ const PostInterviewAnalysis: React.FC = () => {
           averageConfidence,
           emotionTimeline,
         },
+        turnArcs,
         behaviorAnalysis,
         communicationAnalysis,
         audioAnalysis: {
@@ -1079,7 +1095,7 @@ const PostInterviewAnalysis: React.FC = () => {
                   
                   <div className="h-32 bg-gray-50 rounded-lg p-4 relative">
                     <div className="flex items-end justify-between h-full space-x-1">
-                      {analysisData.detailedAnalysis.emotionAnalysis.emotionTimeline.slice(0, 20).map((emotion, index) => (
+                      {analysisData.detailedAnalysis.emotionAnalysis.emotionTimeline.map((emotion, index) => (
                         <div
                           key={index}
                           className="flex-1 bg-gradient-to-t from-blue-500 to-purple-500 rounded-t"
@@ -1118,6 +1134,61 @@ const PostInterviewAnalysis: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Emotional arc per question */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5 text-indigo-600" />
+                  Emotional Arc by Question
+                </CardTitle>
+                <CardDescription>How emotion and eye contact developed while each question was asked and answered</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {analysisData.detailedAnalysis.turnArcs.length > 0 ? (
+                    analysisData.detailedAnalysis.turnArcs.map((turn) => (
+                      <div key={turn.questionIndex} className="border rounded-lg p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <p className="text-sm font-medium line-clamp-2">
+                            Q{turn.questionIndex + 1}. {turn.question.content}
+                          </p>
+                          <div className="flex items-center gap-2 shrink-0">
+                            {turn.dominant && <Badge variant="outline" className="capitalize">{turn.dominant}</Badge>}
+                            {turn.meanConfidence !== null && (
+                              <span className="text-xs text-gray-500">{(turn.meanConfidence * 100).toFixed(0)}% conf.</span>
+                            )}
+                            {turn.eyeContactRatio !== null && (
+                              <span className="text-xs text-gray-500">{(turn.eyeContactRatio * 100).toFixed(0)}% eye contact</span>
+                            )}
+                          </div>
+                        </div>
+                        {turn.emotions.length > 0 ? (
+                          <div className="h-12 bg-gray-50 rounded flex items-end space-x-0.5 p-1">
+                            {turn.emotions.map((bucket) => (
+                              <div
+                                key={bucket.start}
+                                className={`flex-1 rounded-t ${
+                                  ['happy', 'surprised'].includes(bucket.dominant) ? 'bg-green-500' :
+                                  ['sad', 'fearful', 'angry', 'disgusted'].includes(bucket.dominant) ? 'bg-red-400' :
+                                  'bg-blue-500'
+                                }`}
+                                style={{ height: `${bucket.confidence.mean * 100}%`, minHeight: '4px' }}
+                                title={`${bucket.dominant} (${(bucket.confidence.min * 100).toFixed(0)}–${(bucket.confidence.max * 100).toFixed(0)}% confidence) - ${new Date(bucket.start).toLocaleTimeString()}`}
+                              ></div>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-500">No emotion samples during this question</p>
+                        )}
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-gray-500">No interviewer questions recorded.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="highlights" className="space-y-6">
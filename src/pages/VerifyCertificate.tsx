@@ -5,43 +5,85 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useParams } from 'react-router-dom';
-import { CheckCircle, XCircle, Search, Shield } from "lucide-react";
+import { CheckCircle, XCircle, Search, Shield, Ban, Clock } from "lucide-react";
+import {
+  CertificateVerificationResult,
+  VERIFICATION_STATUS_LABELS,
+  verifyIssuedCertificate
+} from '@/utils/certificateVerification';
+import {
+  ANCHOR_STATUS_LABELS,
+  AnchorVerificationStatus,
+  fetchCertificateAnchors,
+  verifyCertificateAnchor
+} from '@/utils/certificateAnchoring';
+import { describeRevocation } from '@/utils/revocationRegistry';
+import type { CertificateAnchor } from '@/types/blockchain';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 const VerifyCertificate: React.FC = () => {
   const { certHash } = useParams<{ certHash: string }>();
-  const [verificationStatus, setVerificationStatus] = useState<'pending' | 'verified' | 'invalid'>('pending');
+  // Verified only once anchored; a valid certificate still queued for anchoring is 'anchoring'
+  const [verificationStatus, setVerificationStatus] = useState<'idle' | 'pending' | 'verified' | 'anchoring' | 'invalid'>('idle');
   const [searchInput, setSearchInput] = useState(certHash || '');
-  const [certificate, setCertificate] = useState<any>(null);
-  
-  // Simulate verification process
+  const [result, setResult] = useState<CertificateVerificationResult | null>(null);
+  const [anchor, setAnchor] = useState<CertificateAnchor | null>(null);
+  const [anchorStatus, setAnchorStatus] = useState<AnchorVerificationStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
   useEffect(() => {
     if (certHash) {
-      handleVerify();
+      handleVerify(certHash);
     }
   }, [certHash]);
-  
-  const handleVerify = () => {
-    // Mock verification - in a real app, this would check against blockchain
+
+  const handleVerify = async (identifier = searchInput) => {
+    const value = identifier.trim();
+    if (!value) return;
+
     setVerificationStatus('pending');
-    
-    setTimeout(() => {
-      if (searchInput && searchInput.length > 8) {
+    setError(null);
+
+    try {
+      // Certificate IDs are UUIDs; anything else is a certificate hash
+      const verification = await verifyIssuedCertificate(value, UUID_PATTERN.test(value) ? 'uniqueId' : 'certHash');
+
+      // The server checked the signature; batch membership is proven here from the inclusion proof
+      let proof: CertificateAnchor | null = null;
+      let proofStatus: AnchorVerificationStatus | null = null;
+      if (verification.valid && verification.certificate) {
+        const { id, certHash: hash } = verification.certificate;
+        proof = (await fetchCertificateAnchors([id]))[id] ?? null;
+        proofStatus = await verifyCertificateAnchor(hash, proof ?? undefined);
+      }
+
+      setResult(verification);
+      setAnchor(proof);
+      setAnchorStatus(proofStatus);
+      if (!verification.valid) {
+        setVerificationStatus('invalid');
+      } else if (!verification.certificate) {
+        // Private certificate: the server's word on its standing is all there is
         setVerificationStatus('verified');
-        setCertificate({
-          id: 'cert-123',
-          title: "Full Stack Web Development",
-          recipientName: "John Smith",
-          issueDate: "2023-05-15",
-          issuer: "QwiXEd360°",
-          skills: ["React", "Node.js", "MongoDB", "Express", "TypeScript"],
-        });
+      } else if (proofStatus === 'pending') {
+        setVerificationStatus('anchoring');
       } else {
-        setVerificationStatus('invalid');
-        setCertificate(null);
+        setVerificationStatus(proofStatus === 'anchored' ? 'verified' : 'invalid');
       }
-    }, 1500);
+    } catch (err) {
+      console.error("Certificate verification error:", err);
+      setResult(null);
+      setAnchor(null);
+      setAnchorStatus(null);
+      setError(err instanceof Error ? err.message : "Verification is unavailable right now.");
+      setVerificationStatus('invalid');
+    }
   };
-  
+
+  const certificate = result?.certificate;
+  const checks = result?.checks;
+
   return (
     <div className="container max-w-4xl mx-auto py-10 px-4">
       <div className="text-center mb-8">
@@ -50,10 +92,10 @@ const VerifyCertificate: React.FC = () => {
         </div>
         <h1 className="text-3xl font-bold mb-2">Certificate Verification</h1>
         <p className="text-muted-foreground max-w-lg mx-auto">
-          Verify the authenticity of certificates issued by QwiXEd360° using blockchain verification.
+          Verify the authenticity of certificates issued by QwiXEd360° against the issuer's digital signature.
         </p>
       </div>
-      
+
       <Card>
         <CardHeader>
           <CardTitle>Verify Certificate</CardTitle>
@@ -61,31 +103,31 @@ const VerifyCertificate: React.FC = () => {
         </CardHeader>
         <CardContent>
           <div className="flex gap-2">
-            <Input 
-              placeholder="Enter certificate ID or hash" 
+            <Input
+              placeholder="Enter certificate ID or hash"
               value={searchInput}
               onChange={(e) => setSearchInput(e.target.value)}
               className="flex-1"
             />
-            <Button onClick={handleVerify}>
+            <Button onClick={() => handleVerify()} disabled={verificationStatus === 'pending'}>
               <Search className="h-4 w-4 mr-2" />
               Verify
             </Button>
           </div>
         </CardContent>
       </Card>
-      
-      {verificationStatus === 'pending' && certHash && (
+
+      {verificationStatus === 'pending' && (
         <Card className="mt-6">
           <CardContent className="flex items-center justify-center py-8">
             <div className="text-center">
               <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-primary border-e-transparent"></div>
-              <p className="mt-4 text-muted-foreground">Verifying certificate on blockchain...</p>
+              <p className="mt-4 text-muted-foreground">Checking the issuer's signature and anchor proof...</p>
             </div>
           </CardContent>
         </Card>
       )}
-      
+
       {verificationStatus === 'verified' && certificate && (
         <Card className="mt-6 border-green-200">
           <CardHeader className="bg-green-50 text-green-700 rounded-t-lg">
@@ -94,7 +136,7 @@ const VerifyCertificate: React.FC = () => {
               <CardTitle>Certificate Verified</CardTitle>
             </div>
             <CardDescription className="text-green-600">
-              This certificate has been verified on the blockchain
+              {VERIFICATION_STATUS_LABELS.valid} {ANCHOR_STATUS_LABELS.anchored}
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-6 space-y-4">
@@ -102,45 +144,133 @@ const VerifyCertificate: React.FC = () => {
               <div>
                 <h3 className="font-bold text-lg">{certificate.title}</h3>
                 <p className="text-sm text-muted-foreground">Issued to: <span className="font-medium">{certificate.recipientName}</span></p>
-                <p className="text-sm text-muted-foreground">Issue Date: {new Date(certificate.issueDate).toLocaleDateString()}</p>
+                <p className="text-sm text-muted-foreground">Issue Date: {new Date(certificate.issuedAt).toLocaleDateString()}</p>
                 <p className="text-sm text-muted-foreground">Issuer: {certificate.issuer}</p>
+                <p className="text-sm text-muted-foreground">Score: {certificate.score}/100</p>
               </div>
               <div>
-                <p className="font-medium mb-2">Verified Skills:</p>
+                <p className="font-medium mb-2">Checks:</p>
                 <div className="flex flex-wrap gap-1">
-                  {certificate.skills.map((skill: string) => (
-                    <Badge key={skill} variant="outline">{skill}</Badge>
-                  ))}
+                  <Badge variant="outline">Data intact</Badge>
+                  <Badge variant="outline">Signature valid</Badge>
+                  <Badge variant="outline">Trusted issuer key</Badge>
+                  <Badge variant="outline">Not revoked</Badge>
+                  <Badge variant="outline">Anchored</Badge>
                 </div>
               </div>
             </div>
           </CardContent>
-          <CardFooter className="bg-gray-50">
-            <div className="text-xs text-muted-foreground">
-              Blockchain Verification ID: {certHash || '0x3a8d7c546f4e9c8a7b8f5e8c9d0a1b2c3d4e5f6a'}
+          <CardFooter className="bg-gray-50 flex-col items-start gap-1">
+            <div className="text-xs text-muted-foreground break-all">
+              Certificate hash: {certificate.certHash}
             </div>
+            {result?.issuerKey && (
+              <div className="text-xs text-muted-foreground break-all">
+                Signed with {result.issuerKey.algorithm} key {result.issuerKey.id}
+              </div>
+            )}
+            {anchor && (
+              <div className="text-xs text-muted-foreground break-all">
+                Anchor batch #{anchor.statement.sequence} root: {anchor.statement.root}
+              </div>
+            )}
           </CardFooter>
         </Card>
       )}
-      
+
+      {verificationStatus === 'verified' && !certificate && (
+        <Card className="mt-6 border-green-200">
+          <CardHeader className="bg-green-50 text-green-700 rounded-t-lg">
+            <div className="flex items-center">
+              <CheckCircle className="h-6 w-6 mr-2 text-green-600" />
+              <CardTitle>Certificate Valid</CardTitle>
+            </div>
+            <CardDescription className="text-green-600">
+              {VERIFICATION_STATUS_LABELS.valid}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            The holder keeps the details of this certificate private.
+          </CardContent>
+        </Card>
+      )}
+
+      {verificationStatus === 'anchoring' && certificate && (
+        <Card className="mt-6">
+          <CardHeader>
+            <div className="flex items-center">
+              <Clock className="h-6 w-6 mr-2 text-muted-foreground" />
+              <CardTitle>Not Yet Verified</CardTitle>
+            </div>
+            <CardDescription>
+              {ANCHOR_STATUS_LABELS.pending} Check again once the batch is anchored.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-sm">
+            <p className="font-medium">{certificate.title}</p>
+            <p className="text-muted-foreground">Issued to {certificate.recipientName} by {certificate.issuer} on {new Date(certificate.issuedAt).toLocaleDateString()}</p>
+            <p className="text-muted-foreground mt-2">The issuer's signature is valid and the certificate has not been revoked.</p>
+          </CardContent>
+        </Card>
+      )}
+
       {verificationStatus === 'invalid' && (
         <Card className="mt-6 border-red-200">
           <CardHeader className="bg-red-50 text-red-700 rounded-t-lg">
             <div className="flex items-center">
-              <XCircle className="h-6 w-6 mr-2 text-red-600" />
-              <CardTitle>Verification Failed</CardTitle>
+              {result?.status === 'revoked' ? (
+                <Ban className="h-6 w-6 mr-2 text-red-600" />
+              ) : (
+                <XCircle className="h-6 w-6 mr-2 text-red-600" />
+              )}
+              <CardTitle>{result?.status === 'revoked' ? "Certificate Revoked" : "Verification Failed"}</CardTitle>
             </div>
             <CardDescription className="text-red-600">
-              We could not verify this certificate on the blockchain
+              {error || (anchorStatus && anchorStatus !== 'anchored'
+                ? ANCHOR_STATUS_LABELS[anchorStatus]
+                : result && VERIFICATION_STATUS_LABELS[result.status])}
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-6">
-            <p>The certificate ID or hash you provided could not be verified. Please check the information and try again.</p>
-            <ul className="list-disc list-inside mt-4 text-sm text-muted-foreground space-y-1">
-              <li>Make sure you entered the correct certificate ID or hash</li>
-              <li>Check for any typos or missing characters</li>
-              <li>If you received this link directly, contact the sender to verify</li>
-            </ul>
+            {certificate && (
+              <div className="mb-4 text-sm">
+                <p className="font-medium">{certificate.title}</p>
+                <p className="text-muted-foreground">Issued to {certificate.recipientName} by {certificate.issuer} on {new Date(certificate.issuedAt).toLocaleDateString()}</p>
+                {result?.revocation && (
+                  <p className="text-red-700 mt-2">{describeRevocation(result.revocation)}</p>
+                )}
+                {result?.revocation?.supersededBy && (
+                  <p className="mt-1">
+                    Replaced by certificate{" "}
+                    <a href={`/verify-cert/${result.revocation.supersededBy}`} className="underline font-mono">
+                      {result.revocation.supersededBy}
+                    </a>
+                  </p>
+                )}
+              </div>
+            )}
+            {checks ? (
+              <ul className="space-y-1 text-sm">
+                <li>{checks.integrity ? "✓" : "✗"} Certificate data matches its hash</li>
+                <li>{checks.signature ? "✓" : "✗"} Issuer signature is valid</li>
+                <li>{checks.issuer ? "✓" : "✗"} Signing key belongs to the issuer</li>
+                <li>{checks.revoked ? "✗" : "✓"} Not revoked</li>
+                {anchorStatus && (
+                  <li>{anchorStatus === 'anchored' ? "✓" : "✗"} Included in a signed anchor batch</li>
+                )}
+              </ul>
+            ) : result?.isPublic === false ? (
+              <p className="text-sm text-muted-foreground">The holder keeps the details of this certificate private.</p>
+            ) : (
+              <>
+                <p>The certificate ID or hash you provided could not be verified. Please check the information and try again.</p>
+                <ul className="list-disc list-inside mt-4 text-sm text-muted-foreground space-y-1">
+                  <li>Make sure you entered the correct certificate ID or hash</li>
+                  <li>Check for any typos or missing characters</li>
+                  <li>If you received this link directly, contact the sender to verify</li>
+                </ul>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
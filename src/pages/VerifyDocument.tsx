@@ -7,7 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Fingerprint, QrCode } from 'lucide-react';
 
 const VerifyDocument = () => {
-  const { uniqueId } = useParams<{ uniqueId: string }>();
+  const { documentId: uniqueId } = useParams<{ documentId: string }>();
   const [isScanning, setIsScanning] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,32 +7,84 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { 
-  FileText, Upload, X, Download, CheckCircle, File as FileIcon, Plus, Search,
-  Copy, Link, AlertTriangle, RefreshCcw, Check, X as XIcon
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  FileText, Upload, X, Ban, History, Link, Loader2, RefreshCcw
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { Filter } from "lucide-react";
+import type { RegistryEntry, RegistryStatus, RevocationEvent } from "@/types/blockchain";
+import {
+  fetchIssuedEntries,
+  fetchRevocationHistory,
+  hashFile,
+  REGISTRY_STATUS_LABELS,
+  registerIssuedDocument,
+  revokeRegistryEntry
+} from "@/utils/revocationRegistry";
 
-interface Document {
-  id: string;
-  name: string;
-  type: string;
+// A file from the current upload and what the registry made of it
+interface RegisteredUpload {
+  fileName: string;
   size: string;
-  status: 'pending' | 'verified' | 'rejected';
-  hash?: string;
-  uploaded: string;
+  entry?: RegistryEntry;
+  // Already registered before this upload
+  existing?: boolean;
+  error?: string;
 }
 
+const ACTION_LABELS: Record<RevocationEvent['action'], string> = {
+  registered: 'Registered',
+  revoked: 'Revoked',
+  superseded: 'Superseded'
+};
+
 const BlockchainVerification = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const [processedCount, setProcessedCount] = useState(0);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [uploads, setUploads] = useState<RegisteredUpload[]>([]);
+  const [entries, setEntries] = useState<RegistryEntry[]>([]);
+  const [events, setEvents] = useState<RevocationEvent[]>([]);
+  const [historyEntry, setHistoryEntry] = useState<RegistryEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState('issued');
+  const [revoking, setRevoking] = useState<RegistryEntry | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
+  const [supersededBy, setSupersededBy] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
   const { toast } = useToast();
-  
+
+  const loadRegistry = useCallback(async (entryId?: string) => {
+    setIsLoading(true);
+    try {
+      const [issued, history] = await Promise.all([fetchIssuedEntries(), fetchRevocationHistory(entryId)]);
+      setEntries(issued);
+      setEvents(history);
+    } catch (error) {
+      console.error("Error loading the revocation registry:", error);
+      toast({
+        title: "Registry unavailable",
+        description: error instanceof Error ? error.message : "Could not load your issued documents",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRegistry();
+  }, [loadRegistry]);
+
   // Handle drag events
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -47,7 +99,7 @@ const BlockchainVerification = () => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
+
     const files = Array.from(e.dataTransfer.files);
     handleFiles(files);
   };
@@ -61,12 +113,12 @@ const BlockchainVerification = () => {
 
   const handleFiles = (files: File[]) => {
     // Filter for only PDF and Word documents
-    const validFiles = files.filter(file => 
-      file.type === 'application/pdf' || 
+    const validFiles = files.filter(file =>
+      file.type === 'application/pdf' ||
       file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
       file.type === 'application/msword'
     );
-    
+
     if (validFiles.length < files.length) {
       toast({
         title: "Invalid files",
@@ -74,7 +126,7 @@ const BlockchainVerification = () => {
         variant: "warning"
       });
     }
-    
+
     setUploadedFiles(prev => [...prev, ...validFiles]);
   };
 
@@ -82,76 +134,133 @@ const BlockchainVerification = () => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const processFiles = () => {
+  // Register each file under its SHA-256; a file registered before comes
+  // back with its current status
+  const processFiles = async () => {
     if (uploadedFiles.length === 0) return;
-    
-    setIsUploading(true);
-    setUploadProgress(0);
-    
-    // Simulate upload progress
-    const interval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          simulateVerification();
-          return 100;
-        }
-        return prev + 5;
-      });
-    }, 100);
+
+    setIsRegistering(true);
+    setProcessedCount(0);
+    const known = new Set(entries.map(entry => entry.id));
+    const results: RegisteredUpload[] = [];
+
+    for (const file of uploadedFiles) {
+      const upload: RegisteredUpload = { fileName: file.name, size: (file.size / 1024).toFixed(0) + ' KB' };
+      try {
+        upload.entry = await registerIssuedDocument(file.name, await hashFile(file));
+        upload.existing = known.has(upload.entry.id);
+      } catch (error) {
+        upload.error = error instanceof Error ? error.message : "Registration failed";
+      }
+      results.push(upload);
+      setProcessedCount(results.length);
+    }
+
+    setUploads(results);
+    setUploadedFiles([]);
+    setIsRegistering(false);
+    await loadRegistry(historyEntry?.id);
+
+    const failed = results.filter(upload => upload.error).length;
+    toast({
+      title: "Registration complete",
+      description: failed
+        ? `Registered ${results.length - failed} of ${results.length} documents`
+        : `Registered ${results.length} documents`,
+      variant: failed ? "destructive" : "default"
+    });
+  };
+
+  const clearAll = () => {
+    setUploadedFiles([]);
+    setUploads([]);
+    setProcessedCount(0);
+  };
+
+  const copyVerificationLink = async (entry: RegistryEntry) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/verify-document/${entry.subjectId}`);
+    toast({
+      title: "Link copied",
+      description: "Anyone with the link can check this document's status",
+    });
+  };
+
+  const openRevoke = (entry: RegistryEntry) => {
+    setRevoking(entry);
+    setRevokeReason('');
+    setSupersededBy('');
   };
 
-  const simulateVerification = () => {
-    setIsUploading(false);
-    setIsVerifying(true);
-    
-    // Mock document data after delay to simulate processing
-    setTimeout(() => {
-      const mockDocuments: Document[] = uploadedFiles.map((file, index) => ({
-        id: `doc-${Date.now()}-${index}`,
-        name: file.name,
-        type: file.type,
-        size: (file.size / 1024).toFixed(0) + ' KB',
-        status: Math.random() > 0.8 ? 'rejected' : 'verified',
-        hash: '0x' + Math.random().toString(36).substring(2, 15),
-        uploaded: new Date().toLocaleDateString()
-      }));
-      
-      setDocuments(mockDocuments);
-      setIsVerifying(false);
-      
+  const handleRevoke = async () => {
+    if (!revoking || !revokeReason.trim()) return;
+
+    setIsRevoking(true);
+    try {
+      const updated = await revokeRegistryEntry(revoking.id, revokeReason.trim(), supersededBy.trim() || undefined);
+      setUploads(prev => prev.map(upload => upload.entry?.id === updated.id ? { ...upload, entry: updated } : upload));
+      setRevoking(null);
+      await loadRegistry(historyEntry?.id);
+
+      toast({
+        title: `Document ${REGISTRY_STATUS_LABELS[updated.status].toLowerCase()}`,
+        description: `${updated.label} now fails verification`,
+      });
+    } catch (error) {
       toast({
-        title: "Verification complete",
-        description: `Successfully processed ${mockDocuments.length} documents`,
+        title: "Revocation failed",
+        description: error instanceof Error ? error.message : "Could not revoke this document",
+        variant: "destructive"
       });
-    }, 2000);
+    } finally {
+      setIsRevoking(false);
+    }
   };
 
-  const clearAll = () => {
-    setUploadedFiles([]);
-    setDocuments([]);
-    setUploadProgress(0);
+  const showHistory = async (entry: RegistryEntry | null) => {
+    setHistoryEntry(entry);
+    setActiveTab('history');
+    try {
+      setEvents(await fetchRevocationHistory(entry?.id));
+    } catch (error) {
+      console.error("Error loading the audit history:", error);
+    }
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: RegistryStatus) => {
     switch(status) {
-      case 'pending':
-        return <Badge variant="outline" className="text-amber-500 border-amber-500">Pending</Badge>;
-      case 'verified':
-        return <Badge className="bg-green-500">Verified</Badge>;
-      case 'rejected':
-        return <Badge variant="outline" className="text-red-500 border-red-500">Rejected</Badge>;
+      case 'active':
+        return <Badge className="bg-green-500">{REGISTRY_STATUS_LABELS.active}</Badge>;
+      case 'superseded':
+        return <Badge variant="outline" className="text-amber-500 border-amber-500">{REGISTRY_STATUS_LABELS.superseded}</Badge>;
+      case 'revoked':
+        return <Badge variant="outline" className="text-red-500 border-red-500">{REGISTRY_STATUS_LABELS.revoked}</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
   };
 
+  const entryActions = (entry: RegistryEntry) => (
+    <div className="flex gap-1">
+      <Button size="icon" variant="ghost" className="h-8 w-8" title="Copy verification link" onClick={() => copyVerificationLink(entry)}>
+        <Link className="h-4 w-4" />
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" title="Audit history" onClick={() => showHistory(entry)}>
+        <History className="h-4 w-4" />
+      </Button>
+      {entry.status === 'active' && (
+        <Button size="icon" variant="ghost" className="h-8 w-8 text-red-600" title="Revoke" onClick={() => openRevoke(entry)}>
+          <Ban className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+
   return (
     <div className="container mx-auto py-6 space-y-6">
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Blockchain Verification</h1>
-          <p className="text-muted-foreground">Upload and verify documents using blockchain technology</p>
+          <h1 className="text-3xl font-bold tracking-tight">Document Registry</h1>
+          <p className="text-muted-foreground">Register the documents you issue, and revoke or supersede them when they change</p>
         </div>
         <div className="flex items-center gap-2">
           <Button variant="outline" onClick={() => window.history.back()}>
@@ -160,195 +269,298 @@ const BlockchainVerification = () => {
         </div>
       </div>
 
-      {documents.length === 0 ? (
-        <Card>
-          <CardHeader>
-            <CardTitle>Bulk Document Upload</CardTitle>
-            <CardDescription>Upload multiple documents for blockchain verification</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div 
-              className={`border-2 border-dashed rounded-lg p-8 text-center ${
-                isDragging ? 'border-primary bg-primary/5' : 'border-border'
-              }`}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-            >
-              <div className="flex flex-col items-center justify-center space-y-4">
-                <div className="rounded-full bg-primary/10 p-4">
-                  <Upload className="h-8 w-8 text-primary" />
-                </div>
-                <div className="space-y-2">
-                  <h3 className="text-lg font-medium">Drag and drop documents</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Drop your files here or click to browse
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    Supports PDF and Word documents
-                  </p>
-                </div>
-                <Button variant="outline" onClick={() => document.getElementById('file-upload')?.click()}>
-                  Select Files
-                </Button>
-                <input 
-                  id="file-upload"
-                  type="file"
-                  multiple
-                  accept=".pdf,.doc,.docx"
-                  className="hidden"
-                  onChange={handleFileInput}
-                />
+      <Card>
+        <CardHeader>
+          <CardTitle>Bulk Document Registration</CardTitle>
+          <CardDescription>
+            Offer letters, certificates and other documents you issue. Each file is identified by its SHA-256 hash and gets a verification link.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div
+            className={`border-2 border-dashed rounded-lg p-8 text-center ${
+              isDragging ? 'border-primary bg-primary/5' : 'border-border'
+            }`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            <div className="flex flex-col items-center justify-center space-y-4">
+              <div className="rounded-full bg-primary/10 p-4">
+                <Upload className="h-8 w-8 text-primary" />
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium">Drag and drop documents</h3>
+                <p className="text-sm text-muted-foreground">
+                  Drop your files here or click to browse
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Supports PDF and Word documents. Files are hashed in your browser and never uploaded.
+                </p>
               </div>
+              <Button variant="outline" onClick={() => document.getElementById('file-upload')?.click()}>
+                Select Files
+              </Button>
+              <input
+                id="file-upload"
+                type="file"
+                multiple
+                accept=".pdf,.doc,.docx"
+                className="hidden"
+                onChange={handleFileInput}
+              />
             </div>
+          </div>
 
-            {uploadedFiles.length > 0 && (
-              <div className="mt-6">
-                <div className="flex justify-between items-center mb-4">
-                  <h3 className="font-medium">Selected Files ({uploadedFiles.length})</h3>
-                  <Button variant="ghost" size="sm" onClick={clearAll}>Clear All</Button>
-                </div>
-                <div className="space-y-2">
-                  {uploadedFiles.map((file, index) => (
-                    <div key={index} className="flex justify-between items-center p-2 bg-muted rounded-md">
-                      <div className="flex items-center space-x-2">
-                        <FileText className="h-4 w-4" />
-                        <span className="text-sm font-medium truncate max-w-[200px] md:max-w-md">
-                          {file.name}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {(file.size / 1024).toFixed(0)} KB
-                        </span>
-                      </div>
-                      <Button 
-                        variant="ghost" 
-                        size="icon" 
-                        className="h-6 w-6"
-                        onClick={() => removeFile(index)}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
+          {uploadedFiles.length > 0 && (
+            <div className="mt-6">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="font-medium">Selected Files ({uploadedFiles.length})</h3>
+                <Button variant="ghost" size="sm" onClick={clearAll}>Clear All</Button>
+              </div>
+              <div className="space-y-2">
+                {uploadedFiles.map((file, index) => (
+                  <div key={index} className="flex justify-between items-center p-2 bg-muted rounded-md">
+                    <div className="flex items-center space-x-2">
+                      <FileText className="h-4 w-4" />
+                      <span className="text-sm font-medium truncate max-w-[200px] md:max-w-md">
+                        {file.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {(file.size / 1024).toFixed(0)} KB
+                      </span>
                     </div>
-                  ))}
-                </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => removeFile(index)}
+                      disabled={isRegistering}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
               </div>
-            )}
+            </div>
+          )}
 
-            {isUploading && (
-              <div className="mt-6">
-                <div className="flex justify-between items-center mb-2">
-                  <p className="text-sm font-medium">Uploading...</p>
-                  <p className="text-sm">{uploadProgress}%</p>
-                </div>
-                <Progress value={uploadProgress} className="w-full h-2" />
-              </div>
-            )}
-            
-            {isVerifying && (
-              <div className="mt-6">
-                <div className="flex items-center justify-center space-x-2">
-                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent"></div>
-                  <p className="text-sm font-medium">Verifying documents on blockchain...</p>
-                </div>
+          {isRegistering && (
+            <div className="mt-6">
+              <div className="flex justify-between items-center mb-2">
+                <p className="text-sm font-medium">Registering...</p>
+                <p className="text-sm">{processedCount} / {uploadedFiles.length}</p>
               </div>
-            )}
-          </CardContent>
-          <CardFooter className="flex justify-end gap-2">
-            <Button variant="outline" onClick={clearAll} disabled={isUploading || isVerifying}>
-              Cancel
-            </Button>
-            <Button 
-              onClick={processFiles} 
-              disabled={uploadedFiles.length === 0 || isUploading || isVerifying}
-            >
-              Process {uploadedFiles.length} {uploadedFiles.length === 1 ? 'Document' : 'Documents'}
-            </Button>
-          </CardFooter>
-        </Card>
-      ) : (
-        <div>
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="text-2xl font-bold tracking-tight">Verification Results</h2>
-            
-            <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm" onClick={clearAll}>
-                New Upload
-              </Button>
-              <Button variant="outline" size="sm">
-                <Filter className="h-4 w-4 mr-2" />
-                Filter
-              </Button>
-              <Button size="sm">
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
+              <Progress value={(processedCount / uploadedFiles.length) * 100} className="w-full h-2" />
             </div>
-          </div>
-          
-          <Card>
-            <CardHeader>
-              <CardTitle>Verified Documents</CardTitle>
-              <CardDescription>List of documents verified on the blockchain</CardDescription>
-            </CardHeader>
-            <CardContent>
+          )}
+
+          {uploads.length > 0 && (
+            <div className="mt-6">
+              <h3 className="font-medium mb-2">This Upload</h3>
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Document Name</TableHead>
-                    <TableHead>Type</TableHead>
                     <TableHead>Size</TableHead>
                     <TableHead>Status</TableHead>
-                    <TableHead>Uploaded</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {documents.map((doc) => (
-                    <TableRow key={doc.id}>
-                      <TableCell className="font-medium">{doc.name}</TableCell>
-                      <TableCell>{doc.type}</TableCell>
-                      <TableCell>{doc.size}</TableCell>
+                  {uploads.map((upload, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-medium">{upload.fileName}</TableCell>
+                      <TableCell>{upload.size}</TableCell>
                       <TableCell>
-                        {doc.status === 'verified' ? (
+                        {upload.entry ? (
                           <div className="flex items-center gap-2">
-                            <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span className="text-green-500">Verified</span>
-                          </div>
-                        ) : doc.status === 'rejected' ? (
-                          <div className="flex items-center gap-2">
-                            <AlertTriangle className="h-4 w-4 text-red-500" />
-                            <span className="text-red-500">Rejected</span>
+                            {getStatusBadge(upload.entry.status)}
+                            {upload.existing && (
+                              <span className="text-xs text-muted-foreground">
+                                Registered {new Date(upload.entry.registeredAt).toLocaleDateString()} as {upload.entry.label}
+                              </span>
+                            )}
                           </div>
                         ) : (
-                          getStatusBadge(doc.status)
+                          <span className="text-sm text-red-500">{upload.error}</span>
                         )}
                       </TableCell>
-                      <TableCell>{doc.uploaded}</TableCell>
-                      <TableCell>
-                        <div className="flex gap-1">
-                          {doc.status === 'verified' && (
-                            <>
-                              <Button size="icon" variant="ghost" className="h-8 w-8">
-                                <Copy className="h-4 w-4" />
-                              </Button>
-                              <Button size="icon" variant="ghost" className="h-8 w-8">
-                                <Link className="h-4 w-4" />
-                              </Button>
-                            </>
-                          )}
-                          <Button size="icon" variant="ghost" className="h-8 w-8">
-                            <Download className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
+                      <TableCell>{upload.entry && entryActions(upload.entry)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={clearAll} disabled={isRegistering}>
+            Cancel
+          </Button>
+          <Button
+            onClick={processFiles}
+            disabled={uploadedFiles.length === 0 || isRegistering}
+          >
+            {isRegistering && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Register {uploadedFiles.length} {uploadedFiles.length === 1 ? 'Document' : 'Documents'}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <div className="flex justify-between items-center">
+          <TabsList>
+            <TabsTrigger value="issued">Issued Documents</TabsTrigger>
+            <TabsTrigger value="history">Audit History</TabsTrigger>
+          </TabsList>
+          <Button variant="outline" size="sm" onClick={() => loadRegistry(historyEntry?.id)} disabled={isLoading}>
+            <RefreshCcw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <TabsContent value="issued">
+          <Card>
+            <CardHeader>
+              <CardTitle>Issued Documents</CardTitle>
+              <CardDescription>Everything your organization has registered, with its current status</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  {isLoading ? "Loading..." : "No documents registered yet"}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Registered</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <p className="font-medium">{entry.label}</p>
+                          <p className="text-xs text-muted-foreground font-mono">{entry.subjectId}</p>
+                        </TableCell>
+                        <TableCell>{new Date(entry.registeredAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {getStatusBadge(entry.status)}
+                          {entry.status !== 'active' && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {entry.revokedAt && new Date(entry.revokedAt).toLocaleDateString()}
+                              {entry.revokedBy && ` by ${entry.revokedBy}`}
+                              {entry.reason && `: ${entry.reason}`}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>{entryActions(entry)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
           </Card>
-        </div>
-      )}
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>Audit History</CardTitle>
+                  <CardDescription>
+                    {historyEntry ? `Every change to ${historyEntry.label}` : "Every registration and revocation by your organization"}
+                  </CardDescription>
+                </div>
+                {historyEntry && (
+                  <Button variant="ghost" size="sm" onClick={() => showHistory(null)}>
+                    Show All
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {events.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No activity yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{event.label}</TableCell>
+                        <TableCell>{ACTION_LABELS[event.action]}</TableCell>
+                        <TableCell>{event.actorName ?? "—"}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{event.reason ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke {revoking?.label}</DialogTitle>
+            <DialogDescription>
+              Verifiers will see when and by whom it was revoked, and why. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="revoke-reason">Reason</Label>
+              <Textarea
+                id="revoke-reason"
+                placeholder="e.g. Offer withdrawn after the position was closed"
+                value={revokeReason}
+                onChange={(e) => setRevokeReason(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="superseded-by">Replaced by (optional)</Label>
+              <Input
+                id="superseded-by"
+                placeholder="Document ID of the new version"
+                value={supersededBy}
+                onChange={(e) => setSupersededBy(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                With a replacement the document is marked superseded and verifiers are pointed to the new version.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)} disabled={isRevoking}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevoke} disabled={isRevoking || !revokeReason.trim()}>
+              {isRevoking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {supersededBy.trim() ? "Supersede" : "Revoke"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,13 +1,28 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileText, Upload, X, Download, CheckCircle, Filter, Plus } from "lucide-react";
+import { FileText, Upload, X, Download, CheckCircle, Filter, Plus, UserPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { estimateYearsOfExperience } from "@/utils/resumeParser";
+import {
+  dedupeResumes,
+  expandResumeUploads,
+  MAX_BATCH_FILES,
+  parseResumesInPool,
+  rankCandidates,
+  RESUME_BATCH_ACCEPT,
+  type BulkCandidate,
+  type BulkParseProgress,
+  type RankedCandidate
+} from "@/utils/resumeBatch";
+import { importCandidatesForJob, type CandidateImportRow } from "@/utils/candidatesApi";
 
 interface ParsedCandidate {
   id: string;
@@ -21,26 +36,75 @@ interface ParsedCandidate {
   jdMatch: number;
   lastPosition: string;
   source: string;
+  duplicates: string[];
 }
 
+type TargetJob = Pick<Tables<"jobs">, "id" | "title" | "skills_required" | "requirements">;
+
+const toParsedCandidate = (candidate: RankedCandidate, index: number): ParsedCandidate => {
+  const { data } = candidate.parsed;
+  const firstDegree = data.education[0];
+  return {
+    id: `cand-${index}-${candidate.source}`,
+    name: data.name || candidate.source.replace(/\.[^.]+$/, ''),
+    email: data.email,
+    phone: data.phone || undefined,
+    experience: estimateYearsOfExperience(data),
+    skills: data.skills,
+    education: firstDegree
+      ? [[firstDegree.degree, firstDegree.field].filter(Boolean).join(' in '), firstDegree.institution].filter(Boolean).join(', ')
+      : '',
+    atsScore: candidate.score.overallScore,
+    // Keyword coverage against the selected job
+    jdMatch: candidate.score.keywordScore,
+    lastPosition: data.workExperience[0]?.position || '',
+    source: candidate.source,
+    duplicates: candidate.duplicates
+  };
+};
+
 const ResumeParser = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const [parseProgress, setParseProgress] = useState<BulkParseProgress | null>(null);
   const [isParsing, setIsParsing] = useState(false);
-  const [parsedCandidates, setParsedCandidates] = useState<ParsedCandidate[]>([]);
-  const [selectedJobRole, setSelectedJobRole] = useState("frontend-developer");
+  const [isImporting, setIsImporting] = useState(false);
+  const [candidates, setCandidates] = useState<BulkCandidate[]>([]);
+  const [jobs, setJobs] = useState<TargetJob[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState("");
   const { toast } = useToast();
-  
-  // Mock job roles
-  const jobRoles = [
-    { id: "frontend-developer", title: "Frontend Developer" },
-    { id: "backend-developer", title: "Backend Developer" },
-    { id: "ui-designer", title: "UI Designer" },
-    { id: "product-manager", title: "Product Manager" },
-    { id: "data-scientist", title: "Data Scientist" },
-  ];
+
+  useEffect(() => {
+    const fetchJobs = async () => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("id, title, skills_required, requirements")
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching jobs:", error);
+        return;
+      }
+      setJobs(data || []);
+      if (data?.length) setSelectedJobId(current => current || data[0].id);
+    };
+
+    fetchJobs();
+  }, []);
+
+  const selectedJob = jobs.find(job => job.id === selectedJobId) ?? null;
+
+  // Ranking follows the selected job, so it is derived rather than stored
+  const rankedCandidates = useMemo(() => rankCandidates(candidates, selectedJob), [candidates, selectedJob]);
+  const parsedCandidates = rankedCandidates.map(toParsedCandidate);
+
+  const topSkills = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const candidate of candidates) {
+      for (const skill of candidate.parsed.data.skills) counts.set(skill, (counts.get(skill) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 8).map(([skill]) => skill);
+  }, [candidates]);
   
   // Handle drag events
   const handleDragOver = (e: React.DragEvent) => {
@@ -66,84 +130,115 @@ const ResumeParser = () => {
       const files = Array.from(e.target.files);
       handleFiles(files);
     }
+    e.target.value = '';
   };
 
-  const handleFiles = (files: File[]) => {
-    // Filter for only PDF and Word documents
-    const validFiles = files.filter(file => 
-      file.type === 'application/pdf' || 
-      file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-      file.type === 'application/msword'
-    );
+  const handleFiles = async (files: File[]) => {
+    // Zip archives are replaced by the resumes inside them
+    const { files: validFiles, skipped } = await expandResumeUploads(files);
     
-    if (validFiles.length < files.length) {
+    if (skipped.length > 0) {
       toast({
         title: "Invalid files",
-        description: "Some files were skipped. Only PDF and Word documents are supported.",
+        description: `Skipped ${skipped.length} file(s). Only PDF, DOCX, TXT and zip archives of them are supported.`,
         variant: "warning"
       });
     }
     
-    setUploadedFiles(prev => [...prev, ...validFiles]);
+    setUploadedFiles(prev => {
+      const combined = [...prev, ...validFiles];
+      if (combined.length > MAX_BATCH_FILES) {
+        toast({
+          title: "Too many files",
+          description: `Only the first ${MAX_BATCH_FILES} resumes will be processed.`,
+          variant: "warning"
+        });
+      }
+      return combined.slice(0, MAX_BATCH_FILES);
+    });
   };
 
   const removeFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const processFiles = () => {
+  const processFiles = async () => {
     if (uploadedFiles.length === 0) return;
     
-    setIsUploading(true);
-    setUploadProgress(0);
-    
-    // Simulate upload progress
-    const interval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          simulateParsing();
-          return 100;
-        }
-        return prev + 5;
-      });
-    }, 100);
-  };
-
-  const simulateParsing = () => {
-    setIsUploading(false);
     setIsParsing(true);
+    setParseProgress({ done: 0, total: uploadedFiles.length, fileName: '' });
     
-    // Mock parsed data after delay to simulate processing
-    setTimeout(() => {
-      const mockCandidates: ParsedCandidate[] = uploadedFiles.map((file, index) => ({
-        id: `cand-${Date.now()}-${index}`,
-        name: `Candidate ${index + 1}`,
-        email: `candidate${index + 1}@example.com`,
-        phone: `+1 555-${Math.floor(1000 + Math.random() * 9000)}`,
-        experience: Math.floor(1 + Math.random() * 10),
-        skills: ['JavaScript', 'React', 'CSS', 'HTML', 'TypeScript'].slice(0, Math.floor(2 + Math.random() * 3)),
-        education: Math.random() > 0.5 ? "Bachelor's in Computer Science" : "Master's in IT",
-        atsScore: Math.floor(65 + Math.random() * 35),
-        jdMatch: Math.floor(60 + Math.random() * 40),
-        lastPosition: ['Software Engineer', 'Frontend Developer', 'Web Developer', 'UI Engineer'][Math.floor(Math.random() * 4)],
-        source: file.name
-      }));
+    try {
+      const results = await parseResumesInPool(uploadedFiles, { onProgress: setParseProgress });
+      const failed = results.filter(result => !result.parsed);
+      const merged = dedupeResumes(results);
+      const duplicateCount = merged.reduce((sum, candidate) => sum + candidate.duplicates.length, 0);
       
-      setParsedCandidates(mockCandidates);
-      setIsParsing(false);
+      setCandidates(merged);
+      
+      if (failed.length > 0) {
+        console.error("Resumes that could not be parsed:", failed.map(result => `${result.file.name}: ${result.error}`));
+        toast({
+          title: `${failed.length} resume(s) could not be read`,
+          description: failed.slice(0, 5).map(result => result.file.name).join(', ') + (failed.length > 5 ? '…' : ''),
+          variant: "destructive"
+        });
+      }
       
       toast({
         title: "Parsing complete",
-        description: `Successfully parsed ${mockCandidates.length} resumes`,
+        description: `Parsed ${results.length - failed.length} of ${results.length} resumes into ${merged.length} candidates` +
+          (duplicateCount ? ` (${duplicateCount} duplicates merged)` : ''),
       });
-    }, 2000);
+    } finally {
+      setIsParsing(false);
+      setParseProgress(null);
+    }
+  };
+
+  const importToJob = async () => {
+    if (!selectedJob) return;
+    
+    const rows: CandidateImportRow[] = rankedCandidates.map(candidate => {
+      const [firstName = '', ...lastName] = candidate.parsed.data.name.split(' ');
+      return {
+        firstName,
+        lastName: lastName.join(' '),
+        email: candidate.parsed.data.email,
+        phone: candidate.parsed.data.phone ?? null,
+        skills: candidate.parsed.data.skills,
+        experienceYears: estimateYearsOfExperience(candidate.parsed.data),
+        aiScore: candidate.score.overallScore,
+        source: candidate.source
+      };
+    });
+    
+    setIsImporting(true);
+    try {
+      const result = await importCandidatesForJob(selectedJob.id, rows);
+      toast({
+        title: "Candidates imported",
+        description: `${result.applicationsCreated} added to ${selectedJob.title} ` +
+          `(${result.candidatesCreated} new, ${result.candidatesReused} existing candidates` +
+          (result.applicationsSkipped ? `, ${result.applicationsSkipped} already applied` : '') +
+          (result.rejected.length ? `, ${result.rejected.length} without a usable name or email` : '') + ')',
+      });
+    } catch (error) {
+      console.error("Error importing candidates:", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "The candidates could not be imported.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
   };
 
   const clearAll = () => {
     setUploadedFiles([]);
-    setParsedCandidates([]);
-    setUploadProgress(0);
+    setCandidates([]);
+    setParseProgress(null);
   };
 
   return (
@@ -185,7 +280,7 @@ const ResumeParser = () => {
                     Drop your files here or click to browse
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Supports PDF and Word documents
+                    Supports PDF, DOCX and TXT files, or a zip of them
                   </p>
                 </div>
                 <Button variant="outline" onClick={() => document.getElementById('file-upload')?.click()}>
@@ -195,7 +290,7 @@ const ResumeParser = () => {
                   id="file-upload"
                   type="file"
                   multiple
-                  accept=".pdf,.doc,.docx"
+                  accept={RESUME_BATCH_ACCEPT}
                   className="hidden"
                   onChange={handleFileInput}
                 />
@@ -208,7 +303,7 @@ const ResumeParser = () => {
                   <h3 className="font-medium">Selected Files ({uploadedFiles.length})</h3>
                   <Button variant="ghost" size="sm" onClick={clearAll}>Clear All</Button>
                 </div>
-                <div className="space-y-2">
+                <div className="space-y-2 max-h-80 overflow-y-auto">
                   {uploadedFiles.map((file, index) => (
                     <div key={index} className="flex justify-between items-center p-2 bg-muted rounded-md">
                       <div className="flex items-center space-x-2">
@@ -234,32 +329,25 @@ const ResumeParser = () => {
               </div>
             )}
 
-            {isUploading && (
+            {isParsing && parseProgress && (
               <div className="mt-6">
                 <div className="flex justify-between items-center mb-2">
-                  <p className="text-sm font-medium">Uploading...</p>
-                  <p className="text-sm">{uploadProgress}%</p>
-                </div>
-                <Progress value={uploadProgress} className="w-full h-2" />
-              </div>
-            )}
-            
-            {isParsing && (
-              <div className="mt-6">
-                <div className="flex items-center justify-center space-x-2">
-                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent"></div>
-                  <p className="text-sm font-medium">Analyzing resumes with AI...</p>
+                  <p className="text-sm font-medium truncate">
+                    Parsing resumes{parseProgress.fileName ? `: ${parseProgress.fileName}` : '...'}
+                  </p>
+                  <p className="text-sm">{parseProgress.done} / {parseProgress.total}</p>
                 </div>
+                <Progress value={(parseProgress.done / parseProgress.total) * 100} className="w-full h-2" />
               </div>
             )}
           </CardContent>
           <CardFooter className="flex justify-end gap-2">
-            <Button variant="outline" onClick={clearAll} disabled={isUploading || isParsing}>
+            <Button variant="outline" onClick={clearAll} disabled={isParsing}>
               Cancel
             </Button>
             <Button 
               onClick={processFiles} 
-              disabled={uploadedFiles.length === 0 || isUploading || isParsing}
+              disabled={uploadedFiles.length === 0 || isParsing}
             >
               Process {uploadedFiles.length} {uploadedFiles.length === 1 ? 'Resume' : 'Resumes'}
             </Button>
@@ -281,10 +369,14 @@ const ResumeParser = () => {
                 <Filter className="h-4 w-4 mr-2" />
                 Filter
               </Button>
-              <Button size="sm">
+              <Button size="sm" variant="outline">
                 <Download className="h-4 w-4 mr-2" />
                 Export
               </Button>
+              <Button size="sm" onClick={importToJob} disabled={!selectedJob || isImporting}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {isImporting ? 'Importing...' : 'Add to Job'}
+              </Button>
             </div>
           </div>
           
@@ -294,19 +386,20 @@ const ResumeParser = () => {
                 <div className="flex justify-between items-center">
                   <div>
                     <CardTitle>Analyzed Resumes</CardTitle>
-                    <CardDescription>Select a job role to match candidates</CardDescription>
+                    <CardDescription>Candidates ranked against the selected job</CardDescription>
                   </div>
                   
                   <div className="flex items-center space-x-2">
                     <label className="text-sm">Match for:</label>
                     <select 
                       className="border rounded p-1 text-sm"
-                      value={selectedJobRole}
-                      onChange={(e) => setSelectedJobRole(e.target.value)}
+                      value={selectedJobId}
+                      onChange={(e) => setSelectedJobId(e.target.value)}
                     >
-                      {jobRoles.map(role => (
-                        <option key={role.id} value={role.id}>
-                          {role.title}
+                      {jobs.length === 0 && <option value="">No jobs posted</option>}
+                      {jobs.map(job => (
+                        <option key={job.id} value={job.id}>
+                          {job.title}
                         </option>
                       ))}
                     </select>
@@ -327,7 +420,7 @@ const ResumeParser = () => {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {parsedCandidates.sort((a, b) => b.jdMatch - a.jdMatch).map((candidate) => (
+                    {parsedCandidates.map((candidate) => (
                       <TableRow key={candidate.id}>
                         <TableCell>
                           <div>
@@ -379,6 +472,11 @@ const ResumeParser = () => {
                         </TableCell>
                         <TableCell className="text-xs text-muted-foreground">
                           {candidate.source}
+                          {candidate.duplicates.length > 0 && (
+                            <p title={candidate.duplicates.join(', ')}>
+                              +{candidate.duplicates.length} duplicate{candidate.duplicates.length === 1 ? '' : 's'}
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-1">
@@ -432,7 +530,7 @@ const ResumeParser = () => {
                   <div className="space-y-2">
                     <h3 className="font-medium">Top Skills Found</h3>
                     <div className="flex flex-wrap gap-2">
-                      {['JavaScript', 'React', 'TypeScript', 'CSS', 'HTML', 'Node.js'].map(skill => (
+                      {topSkills.map(skill => (
                         <div key={skill} className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm">
                           {skill}
                         </div>
@@ -11,6 +11,9 @@ export interface BlockchainDocument {
   verificationUrl: string;
   isVerified: boolean;
   tokenId?: number; // Adding tokenId as optional
+  // Credential NFT the document was minted as; unset for simulated mints
+  contractAddress?: string;
+  chainId?: number;
 }
 
 export interface Certificate {
@@ -35,6 +38,39 @@ export interface Certificate {
   contractAddress: string;
   smartContractStandard: string;
   validUntil?: string; // Adding validUntil as optional
+  // Issuer's base64url ES256 signature and the id of the key that made it
+  signature?: string;
+  issuerKeyId?: string;
+  // Inclusion proof in a signed anchor batch, once the certificate is anchored
+  anchor?: CertificateAnchor;
+}
+
+// Anchor log: a batch of certificate hashes under one signed Merkle root
+export interface AnchorStatement {
+  type: 'QwiXCertAnchorBatch';
+  sequence: number;
+  root: string;
+  leafCount: number;
+  // SHA-256 of the previous batch's canonical statement
+  previous: string | null;
+  anchoredAt: string;
+  issuer: string;
+  keyId: string;
+}
+
+export interface MerkleProofStep {
+  // Which side of the path the sibling is on
+  side: 'left' | 'right';
+  hash: string;
+}
+
+export interface CertificateAnchor {
+  certHash: string;
+  leafIndex: number;
+  proof: MerkleProofStep[];
+  statement: AnchorStatement;
+  // base64url ES256 signature over the canonical JSON of statement
+  signature: string;
 }
 
 // Adding missing interfaces
@@ -45,10 +81,70 @@ export interface DocumentUploadParams {
   ownerAddress: string;
 }
 
+// Revocation registry: a certificate or registered document's entry
+export type RegistrySubjectType = 'certificate' | 'document';
+
+export type RegistryStatus = 'active' | 'revoked' | 'superseded';
+
+export interface RegistryEntry {
+  id: string;
+  subjectType: RegistrySubjectType;
+  subjectId: string;
+  label: string;
+  contentHash: string | null;
+  issuerName: string;
+  registeredAt: string;
+  status: RegistryStatus;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  reason: string | null;
+  // Subject id of the replacement, for superseded entries
+  supersededBy: string | null;
+  statusListCredential: string;
+  statusListIndex: number;
+}
+
+export interface RevocationEvent {
+  id: string;
+  entryId: string;
+  action: 'registered' | 'revoked' | 'superseded';
+  reason: string | null;
+  actorName: string | null;
+  createdAt: string;
+  label: string;
+  subjectType: RegistrySubjectType;
+  subjectId: string;
+}
+
 export interface DocumentVerification {
   isValid: boolean;
   document?: BlockchainDocument;
   error?: string;
+  // The issuer's registry entry; null when no issuer registered the document
+  registryEntry?: RegistryEntry | null;
+  // The document's credential NFT; null when it was never minted on chain
+  onChain?: OnChainCredential | null;
+  onChainHistory?: CredentialHistoryEvent[];
+}
+
+// A credential NFT as read from the chain
+export interface OnChainCredential {
+  tokenId: number;
+  contractAddress: string;
+  chainId: number;
+  owner: string;
+  // The account that minted it
+  issuer: string;
+  tokenURI: string;
+}
+
+export interface CredentialHistoryEvent {
+  type: 'minted' | 'transferred';
+  from: string | null;
+  to: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string | null;
 }
 
 export interface UserActivity {
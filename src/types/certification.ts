@@ -35,6 +35,62 @@ export interface Question {
   correctAnswer?: string; // Adding this to fix compatibility issues with existing code
 }
 
+// A question as served by the certification-exams function, without its answer
+export interface ExamQuestion {
+  id: string;
+  topic: string | null;
+  text: string;
+  options: string[];
+}
+
+// Adaptive exams serve one question at a time, chosen from the ability shown so far
+export type ExamMode = 'fixed' | 'adaptive';
+
+export interface ExamAttempt {
+  id: string;
+  examId: string;
+  startedAt: string;
+  expiresAt: string;
+  // An attempt opened earlier and picked up again, e.g. after a reload
+  resumed: boolean;
+  mode: ExamMode;
+  // Adaptive attempts may stop before this many
+  maxQuestions: number;
+  answeredCount: number;
+}
+
+export interface ExamReviewItem {
+  questionId: string;
+  selectedIndex: number | null;
+  correct: boolean;
+}
+
+// Ability on a standard normal scale (0 is the average candidate) with its 95%
+// interval; scoreLower/scoreUpper are the same interval on the 0-100 score scale
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+  lower: number;
+  upper: number;
+  scoreLower: number;
+  scoreUpper: number;
+}
+
+export interface ExamResult {
+  attemptId: string;
+  mode: ExamMode;
+  // Percentile of the ability estimate
+  score: number;
+  passed: boolean;
+  passingScore: number;
+  correctCount: number;
+  questionCount: number;
+  ability: AbilityEstimate;
+  // When a failed exam can be taken again
+  retryAt: string | null;
+  review: ExamReviewItem[];
+}
+
 export interface BlockchainTransaction {
   hash: string;
   blockId: number;
@@ -90,6 +90,19 @@ export interface ResumeParserResponse {
   phone?: string;
 }
 
+// 0-1 per field: how sure the parser is that it found the right value
+// (0 means the field was not found and holds an empty value)
+export type ResumeFieldConfidence = Record<keyof ResumeParserResponse, number>;
+
+export interface ParsedResume {
+  data: ResumeParserResponse;
+  confidence: ResumeFieldConfidence;
+  // Full extracted text, for prompts and keyword matching
+  text: string;
+  // Headings that were recognized, in document order
+  sections: string[];
+}
+
 export interface VoiceAnalysis {
   paceScore: number;
   toneScore: number;
@@ -0,0 +1,97 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { readServerSentEvents } from './serverSentEvents';
+
+// Thin client for the ai-gateway edge function. Provider keys live server-side;
+// the browser only sends the prompt and the name of the backend to use.
+
+export type GatewayResponseFormat = 'text' | 'json';
+
+export interface GatewayResponse {
+  text: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  usage: { used: number; limit: number };
+}
+
+export class AIGatewayError extends Error {
+  status: number;
+  quotaExceeded: boolean;
+
+  constructor(message: string, status: number, quotaExceeded = false) {
+    super(message);
+    this.name = 'AIGatewayError';
+    this.status = status;
+    this.quotaExceeded = quotaExceeded;
+  }
+}
+
+const toGatewayError = async (error: Error): Promise<AIGatewayError> => {
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const body = await response.json().catch(() => ({}));
+    // The gateway attaches usage only when the caller's own quota is spent
+    return new AIGatewayError(body.error || error.message, response.status, response.status === 429 && !!body.usage);
+  }
+  return new AIGatewayError(error.message, 0);
+};
+
+export const invokeGateway = async (
+  prompt: string,
+  backend: string,
+  responseFormat: GatewayResponseFormat
+): Promise<GatewayResponse> => {
+  const { data, error } = await supabase.functions.invoke<GatewayResponse>('ai-gateway', {
+    body: { prompt, backend, responseFormat }
+  });
+
+  if (error) {
+    throw await toGatewayError(error);
+  }
+
+  return data;
+};
+
+interface GatewayStreamEvent {
+  delta?: string;
+  done?: boolean;
+  error?: string;
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Start a streaming completion. Resolves once the gateway has accepted the
+ * request (so HTTP failures can still fall back to another provider) and
+ * returns the token stream.
+ */
+export const streamGateway = async (
+  prompt: string,
+  backend: string,
+  signal?: AbortSignal
+): Promise<AsyncIterable<string>> => {
+  const { data, error } = await supabase.functions.invoke<Response>('ai-gateway', {
+    body: { prompt, backend, stream: true }
+  });
+
+  if (error) {
+    throw await toGatewayError(error);
+  }
+  if (!(data instanceof Response) || !data.body) {
+    throw new AIGatewayError('AI gateway did not return a stream', 502);
+  }
+
+  const body = data.body;
+  async function* tokens() {
+    for await (const event of readServerSentEvents<GatewayStreamEvent>(body, signal)) {
+      if (event.error) {
+        throw new AIGatewayError(event.error, 502);
+      }
+      if (event.delta) {
+        yield event.delta;
+      }
+    }
+  }
+  return tokens();
+};
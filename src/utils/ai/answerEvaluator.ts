@@ -1,5 +1,6 @@
 
-import { callGeminiWithStructuredOutput } from './geminiService';
+import { callUnifiedAIWithStructuredOutput } from './unifiedAIService';
+import { answerEvaluationSchema } from './schemas';
 import { StudentContext, AnswerEvaluation } from '@/types/aiQuestions';
 
 export const evaluateAnswerWithAI = async (
@@ -45,8 +46,8 @@ export const evaluateAnswerWithAI = async (
   `;
   
   try {
-    const evaluationResponse = await callGeminiWithStructuredOutput(evaluationPrompt);
-    return evaluationResponse as AnswerEvaluation;
+    const { data } = await callUnifiedAIWithStructuredOutput(evaluationPrompt, answerEvaluationSchema, 'gemini', { feature: 'interview' });
+    return data;
   } catch (error) {
     console.error('Answer evaluation failed:', error);
     return {
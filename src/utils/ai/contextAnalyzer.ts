@@ -1,5 +1,6 @@
 
-import { callGeminiWithStructuredOutput } from './geminiService';
+import { callUnifiedAIWithStructuredOutput } from './unifiedAIService';
+import { aiAnalysisSchema } from './schemas';
 import { StudentContext, AIAnalysis } from '@/types/aiQuestions';
 
 export const analyzeStudentWithAI = async (studentContext: StudentContext): Promise<AIAnalysis> => {
@@ -45,8 +46,8 @@ export const analyzeStudentWithAI = async (studentContext: StudentContext): Prom
   `;
   
   try {
-    const analysis = await callGeminiWithStructuredOutput(analysisPrompt);
-    return analysis as AIAnalysis;
+    const { data } = await callUnifiedAIWithStructuredOutput(analysisPrompt, aiAnalysisSchema, 'gemini', { feature: 'interview' });
+    return data;
   } catch (error) {
     console.error('AI analysis failed:', error);
     // Return fallback analysis
@@ -1,5 +1,6 @@
 
-import { callGeminiWithStructuredOutput } from './geminiService';
+import { callUnifiedAIWithStructuredOutput } from './unifiedAIService';
+import { followUpQuestionSchema } from './schemas';
 import { StudentContext, FollowUpQuestion } from '@/types/aiQuestions';
 
 export const generateFollowUpQuestion = async (
@@ -47,8 +48,8 @@ export const generateFollowUpQuestion = async (
   `;
   
   try {
-    const followUpResponse = await callGeminiWithStructuredOutput(followUpPrompt);
-    return followUpResponse as FollowUpQuestion;
+    const { data } = await callUnifiedAIWithStructuredOutput(followUpPrompt, followUpQuestionSchema, 'gemini', { feature: 'interview' });
+    return data;
   } catch (error) {
     console.error('Follow-up generation failed:', error);
     return {
@@ -0,0 +1,225 @@
+import { AIGatewayError, invokeGateway, streamGateway, type GatewayResponseFormat } from './aiGatewayClient';
+import { readServerSentEvents } from './serverSentEvents';
+
+// Registry of LLM providers the unified AI service can route to. Each provider
+// declares what it can do and how patiently it should be retried; features
+// (interview, ATS, career path) pick an ordered fallback chain of providers.
+
+export type AIFeature = 'interview' | 'ats' | 'careerPath' | 'general';
+
+export interface AIProviderCapabilities {
+  json: boolean;
+  streaming: boolean;
+}
+
+export interface AIProviderCallOptions {
+  responseFormat: GatewayResponseFormat;
+}
+
+export interface AIProviderResult {
+  text: string;
+  model?: string;
+}
+
+export interface AIProviderStreamOptions {
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;
+  capabilities: AIProviderCapabilities;
+  timeoutMs: number;
+  maxRetries: number;
+  call: (prompt: string, options: AIProviderCallOptions) => Promise<AIProviderResult>;
+  // Resolves once the provider accepted the request; only for streaming providers
+  stream?: (prompt: string, options: AIProviderStreamOptions) => Promise<AsyncIterable<string>>;
+}
+
+export class AIProviderError extends Error {
+  status: number;
+  retriable: boolean;
+
+  constructor(message: string, status: number, retriable: boolean) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.retriable = retriable;
+  }
+}
+
+const providers = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const unregisterProvider = (id: string) => {
+  providers.delete(id);
+};
+
+export const getProvider = (id: string): AIProvider | undefined => providers.get(id);
+
+export const listProviders = (): AIProvider[] => Array.from(providers.values());
+
+const toProviderError = (error: unknown) => {
+  if (error instanceof AIGatewayError) {
+    // A spent user quota applies to every gateway backend, so it is final
+    const retriable = !error.quotaExceeded && (error.status === 0 || error.status === 429 || error.status >= 500);
+    return new AIProviderError(error.message, error.status, retriable);
+  }
+  return error;
+};
+
+/**
+ * Providers backed by the ai-gateway edge function
+ */
+const gatewayProvider = (id: string, label: string, timeoutMs: number): AIProvider => ({
+  id,
+  label,
+  capabilities: { json: true, streaming: true },
+  timeoutMs,
+  maxRetries: 2,
+  call: async (prompt, { responseFormat }) => {
+    try {
+      const data = await invokeGateway(prompt, id, responseFormat);
+      return { text: data.text, model: data.model };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  },
+  stream: async (prompt, { signal }) => {
+    try {
+      return await streamGateway(prompt, id, signal);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+});
+
+registerProvider(gatewayProvider('gemini', 'Gemini', 30000));
+registerProvider(gatewayProvider('chatgpt', 'ChatGPT', 45000));
+registerProvider(gatewayProvider('grok', 'Grok', 45000));
+registerProvider(gatewayProvider('mock', 'Mock', 5000));
+
+/**
+ * Local OpenAI-compatible endpoint (e.g. an Ollama server) for development.
+ * Only registered when VITE_LOCAL_LLM_URL points at one.
+ */
+export const createOpenAICompatibleProvider = (
+  id: string,
+  label: string,
+  baseUrl: string,
+  model: string,
+  timeoutMs = 60000
+): AIProvider => {
+  const requestCompletion = async (
+    prompt: string,
+    responseFormat: GatewayResponseFormat,
+    stream: boolean,
+    signal?: AbortSignal
+  ) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.7,
+          stream,
+          ...(responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal
+      });
+    } catch (error) {
+      throw new AIProviderError(`${label} is unreachable: ${(error as Error).message}`, 0, true);
+    }
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `${label} call failed: ${response.status}`,
+        response.status,
+        response.status === 429 || response.status >= 500
+      );
+    }
+    return response;
+  };
+
+  return {
+    id,
+    label,
+    capabilities: { json: true, streaming: true },
+    timeoutMs,
+    maxRetries: 1,
+    call: async (prompt, { responseFormat }) => {
+      const response = await requestCompletion(prompt, responseFormat, false);
+      const data = await response.json();
+      return { text: data.choices?.[0]?.message?.content || '', model };
+    },
+    stream: async (prompt, { signal }) => {
+      const response = await requestCompletion(prompt, 'text', true, signal);
+      if (!response.body) {
+        throw new AIProviderError(`${label} did not return a stream`, 502, true);
+      }
+      const body = response.body;
+      async function* tokens() {
+        type Chunk = { choices?: { delta?: { content?: string } }[] };
+        for await (const event of readServerSentEvents<Chunk>(body, signal)) {
+          const token = event.choices?.[0]?.delta?.content;
+          if (token) yield token;
+        }
+      }
+      return tokens();
+    }
+  };
+};
+
+const localLLMUrl = import.meta.env.VITE_LOCAL_LLM_URL as string | undefined;
+if (localLLMUrl) {
+  registerProvider(createOpenAICompatibleProvider(
+    'local',
+    'Local LLM',
+    localLLMUrl,
+    (import.meta.env.VITE_LOCAL_LLM_MODEL as string | undefined) || 'llama3'
+  ));
+}
+
+/**
+ * Ordered fallback chains per feature. The backend a caller asks for is tried
+ * first, then the rest of the chain in order.
+ */
+const fallbackChains: Record<AIFeature, string[]> = {
+  interview: ['gemini', 'chatgpt', 'grok', 'local'],
+  ats: ['gemini', 'chatgpt', 'local'],
+  careerPath: ['gemini', 'chatgpt', 'local'],
+  general: ['gemini', 'local']
+};
+
+export const getFallbackChain = (feature: AIFeature): string[] => [...fallbackChains[feature]];
+
+export const setFallbackChain = (feature: AIFeature, chain: string[]) => {
+  fallbackChains[feature] = [...chain];
+};
+
+export const resolveProviderChain = (
+  preferred: string | undefined,
+  feature: AIFeature,
+  requireJson = false
+): AIProvider[] => {
+  const ids = preferred ? [preferred, ...fallbackChains[feature]] : fallbackChains[feature];
+  const seen = new Set<string>();
+  const chain: AIProvider[] = [];
+
+  for (const id of ids) {
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const provider = providers.get(id);
+    if (provider && (!requireJson || provider.capabilities.json)) {
+      chain.push(provider);
+    }
+  }
+
+  return chain;
+};
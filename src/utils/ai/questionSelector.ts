@@ -1,5 +1,6 @@
 
-import { callGeminiWithStructuredOutput } from './geminiService';
+import { callUnifiedAIWithStructuredOutput } from './unifiedAIService';
+import { aiGeneratedQuestionSchema } from './schemas';
 import { StudentContext, AIAnalysis, AIGeneratedQuestion } from '@/types/aiQuestions';
 
 export const selectOptimalQuestion = async (
@@ -45,8 +46,8 @@ export const selectOptimalQuestion = async (
   `;
   
   try {
-    const questionResponse = await callGeminiWithStructuredOutput(questionSelectionPrompt);
-    return questionResponse as AIGeneratedQuestion;
+    const { data } = await callUnifiedAIWithStructuredOutput(questionSelectionPrompt, aiGeneratedQuestionSchema, 'gemini', { feature: 'interview' });
+    return data;
   } catch (error) {
     console.error('Question selection failed:', error);
     // Return fallback question
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { AIAnalysis, AIGeneratedQuestion, AnswerEvaluation, FollowUpQuestion } from '@/types/aiQuestions';
+import type { CareerPath } from '@/types/career';
+import type { ATSScoreData } from '@/utils/atsScoreApi';
+import type { StructuredSchema } from './structuredOutput';
+
+// Schemas for every structured response we ask the models for. Numbers are
+// coerced and clamped because models often return "85" or 8.5 for a 0-100 score.
+// The casts pin the inferred types to our interfaces, since zod can't infer
+// required keys without strictNullChecks.
+
+const score = (min: number, max: number) =>
+  z.coerce.number().transform(value => Math.min(max, Math.max(min, Math.round(value))));
+
+const stringList = z.array(z.coerce.string()).default([]);
+
+export const answerEvaluationSchema = z.object({
+  relevance: score(0, 25),
+  clarity: score(0, 25),
+  depth: score(0, 25),
+  examples: score(0, 25),
+  overallScore: score(0, 100),
+  strengths: stringList,
+  improvements: stringList,
+  improvedAnswer: z.string(),
+  nextFocusArea: z.string()
+}) as StructuredSchema<AnswerEvaluation>;
+
+export const followUpQuestionSchema = z.object({
+  followUpQuestion: z.string().min(1),
+  purpose: z.string(),
+  expectedImprovement: z.string()
+}) as StructuredSchema<FollowUpQuestion>;
+
+export const aiAnalysisSchema = z.object({
+  readinessLevel: score(1, 10),
+  currentNeed: z.enum(['confidence boost', 'skill challenge', 'practice']),
+  recommendedDifficulty: z.enum(['easy', 'medium', 'hard']),
+  bestCategory: z.enum(['behavioral', 'technical', 'situational', 'motivational']),
+  focusArea: z.enum(['communication', 'technical skills', 'problem-solving'])
+}) as StructuredSchema<AIAnalysis>;
+
+export const aiGeneratedQuestionSchema = z.object({
+  question: z.string().min(1),
+  category: z.enum(['behavioral', 'technical', 'situational', 'motivational', 'problem-solving']),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  expectedAnswerLength: z.string(),
+  evaluationCriteria: stringList
+}) as StructuredSchema<AIGeneratedQuestion>;
+
+export const atsScoreSchema = z.object({
+  overallScore: score(1, 100),
+  keywordScore: score(1, 100),
+  formatScore: score(1, 100),
+  contentScore: score(1, 100),
+  suggestions: z.array(z.string()).min(1),
+  jobMatch: z.string().min(1)
+}) as StructuredSchema<ATSScoreData>;
+
+const careerNodeSchema = z.object({
+  title: z.string().min(1),
+  yearsFromNow: z.coerce.number().min(0),
+  salaryRange: z.string(),
+  description: z.string(),
+  stage: z.string(),
+  requiredSkills: z.array(z.object({
+    name: z.string(),
+    level: score(1, 5)
+  })),
+  skillGaps: z.array(z.object({
+    skill: z.string(),
+    suggestion: z.string(),
+    resourceUrl: z.string().optional()
+  })).optional()
+});
+
+// JSON-mode providers can't return a bare array, so accept { "paths": [...] } too
+export const careerPathsSchema = z.preprocess(
+  value => (value && typeof value === 'object' && !Array.isArray(value) && 'paths' in value ? value.paths : value),
+  z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().min(1),
+    type: z.enum(['ambitious', 'balanced', 'skills']),
+    description: z.string(),
+    nodes: z.array(careerNodeSchema).min(1),
+    title: z.string().optional()
+  })).min(1)
+) as StructuredSchema<CareerPath[]>;
@@ -0,0 +1,45 @@
+// Groups a token stream into sentences so text-to-speech can start speaking
+// the first sentence while the model is still generating the rest.
+
+// Words after which a period does not end the sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'vs', 'etc', 'e.g', 'i.e', 'st']);
+
+const SENTENCE_END = /[.!?]+["')\]]*(?=\s)|\n+/g;
+
+const endsWithAbbreviation = (text: string) => {
+  const lastWord = text.trim().split(/\s+/).pop() ?? '';
+  return ABBREVIATIONS.has(lastWord.replace(/\.+$/, '').toLowerCase()) || /^\d+\.$/.test(lastWord);
+};
+
+/**
+ * Yield complete sentences from `tokens`. Sentences shorter than `minLength`
+ * are merged with the next one so the voice doesn't stutter on "Great." or
+ * "Okay!"; whatever is left when the stream ends is flushed as a last chunk.
+ */
+export async function* chunkSentences(tokens: AsyncIterable<string>, minLength = 20): AsyncGenerator<string> {
+  let buffer = '';
+  let scanFrom = 0;
+
+  for await (const token of tokens) {
+    buffer += token;
+
+    SENTENCE_END.lastIndex = scanFrom;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(buffer))) {
+      const end = match.index + match[0].length;
+      const sentence = buffer.slice(0, end);
+      if (sentence.trim().length < minLength || (match[0].startsWith('.') && endsWithAbbreviation(sentence))) {
+        continue;
+      }
+      yield sentence.trim();
+      buffer = buffer.slice(end);
+      SENTENCE_END.lastIndex = 0;
+    }
+    // Re-scan a little of the tail: the next token may complete a boundary
+    scanFrom = Math.max(0, buffer.length - 3);
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
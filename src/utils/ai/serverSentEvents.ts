@@ -0,0 +1,33 @@
+/**
+ * Yield the JSON payload of every `data:` line in a server-sent event stream.
+ * Aborting `signal` cancels the underlying body so the server stops sending.
+ */
+export async function* readServerSentEvents<T = unknown>(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => { reader.cancel().catch(() => undefined); };
+  signal?.addEventListener('abort', cancel);
+  let buffer = '';
+
+  try {
+    while (!signal?.aborted) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') continue;
+        yield JSON.parse(data) as T;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    if (signal?.aborted) cancel();
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,131 @@
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+
+// Helpers for turning raw model text into schema-validated objects.
+// Models wrap JSON in code fences, add prose around it, or get cut off at the
+// token limit; these functions recover what they can before validation.
+
+export type StructuredSchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+export interface StructuredParseResult<T> {
+  success: boolean;
+  data?: T;
+  errors: string[];
+  raw: string;
+}
+
+/**
+ * Strip markdown code fences and any prose before the first JSON token
+ */
+export const extractJSONCandidate = (text: string): string => {
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[{[]/);
+  return start >= 0 ? body.slice(start).trim() : body.trim();
+};
+
+/**
+ * Best-effort repair of truncated or slightly malformed JSON: drops trailing
+ * text after the root value, removes trailing commas and dangling keys, and
+ * closes any open strings, arrays and objects.
+ */
+export const repairJSON = (candidate: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let end = candidate.length;
+
+  for (let i = 0; i < candidate.length; i++) {
+    const char = candidate[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+  }
+
+  let repaired = candidate.slice(0, end);
+  if (stack.length === 0) {
+    return repaired.replace(/,(\s*[}\]])/g, '$1');
+  }
+
+  if (inString) {
+    repaired += escaped ? '\\"' : '"';
+  }
+
+  // Trim whatever incomplete member the output was cut off in
+  for (let previous = ''; previous !== repaired;) {
+    previous = repaired;
+    repaired = repaired.replace(/\s+$/, '').replace(/,$/, '');
+    repaired = repaired.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '');
+    if (stack[stack.length - 1] === '}') {
+      repaired = repaired.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1');
+    }
+  }
+
+  return (repaired + stack.reverse().join('')).replace(/,(\s*[}\]])/g, '$1');
+};
+
+const formatIssue = (issue: ZodIssue) =>
+  `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`;
+
+/**
+ * Parse model output and validate it against a schema
+ */
+export const parseStructuredOutput = <T,>(text: string, schema: StructuredSchema<T>): StructuredParseResult<T> => {
+  const candidate = extractJSONCandidate(text);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJSON(candidate));
+    } catch (error) {
+      return { success: false, errors: [`Invalid JSON: ${(error as Error).message}`], raw: text };
+    }
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data, errors: [], raw: text };
+  }
+  return { success: false, errors: result.error.issues.map(formatIssue), raw: text };
+};
+
+export class StructuredOutputError extends Error {
+  errors: string[];
+  raw: string;
+
+  constructor(message: string, errors: string[], raw: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+    this.raw = raw;
+  }
+}
+
+/**
+ * Prompt sent back to the model when its previous answer failed validation
+ */
+export const buildRepairPrompt = (originalPrompt: string, previousOutput: string, errors: string[]) => `
+    ${originalPrompt}
+
+    Your previous response could not be used:
+    ---
+    ${previousOutput.slice(0, 4000)}
+    ---
+    It failed validation with these errors:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+
+    Return the corrected response as valid JSON only, matching the requested format exactly.
+  `;
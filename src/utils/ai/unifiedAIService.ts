@@ -1,54 +1,239 @@
+import {
+  AIProviderError,
+  resolveProviderChain,
+  type AIFeature,
+  type AIProvider
+} from './providerRegistry';
+import type { GatewayResponseFormat } from './aiGatewayClient';
+import {
+  buildRepairPrompt,
+  parseStructuredOutput,
+  StructuredOutputError,
+  type StructuredSchema
+} from './structuredOutput';
 
-import { callGeminiAI } from './geminiService';
-import { callChatGPTAI } from './chatgptService';
-import { callGrokAI } from './grokService';
+export { AIGatewayError } from './aiGatewayClient';
+export type { AIFeature } from './providerRegistry';
+export { StructuredOutputError } from './structuredOutput';
 
-export type AIBackend = 'gemini' | 'chatgpt' | 'grok';
+export type AIBackend = 'gemini' | 'chatgpt' | 'grok' | 'mock' | 'local';
+
+export interface AIAttempt {
+  provider: string;
+  attempt: number;
+  latencyMs: number;
+  error?: string;
+}
 
 export interface AIResponse {
   text: () => string;
+  // Provider that actually produced the answer, after retries and fallbacks
+  provider: string;
+  model?: string;
+  latencyMs: number;
+  attempts: AIAttempt[];
 }
 
-export const callUnifiedAI = async (
-  prompt: string, 
-  backend: AIBackend = 'gemini',
-  apiKey?: string
-): Promise<AIResponse> => {
-  try {
-    switch (backend) {
-      case 'chatgpt':
-        return await callChatGPTAI(prompt, apiKey);
-      case 'grok':
-        return await callGrokAI(prompt, apiKey);
-      case 'gemini':
-      default:
-        return await callGeminiAI(prompt, apiKey);
+export interface UnifiedAIOptions {
+  feature?: AIFeature;
+}
+
+const BASE_BACKOFF_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withTimeout = <T,>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new AIProviderError(`${label} timed out after ${timeoutMs}ms`, 408, true)),
+      timeoutMs
+    );
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+const isRetriable = (error: unknown) => error instanceof AIProviderError && error.retriable;
+
+const callWithRetries = async (
+  provider: AIProvider,
+  prompt: string,
+  responseFormat: GatewayResponseFormat,
+  attempts: AIAttempt[]
+) => {
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = performance.now();
+    try {
+      const result = await withTimeout(provider.call(prompt, { responseFormat }), provider.timeoutMs, provider.label);
+      const latencyMs = Math.round(performance.now() - startedAt);
+      attempts.push({ provider: provider.id, attempt, latencyMs });
+      return { ...result, latencyMs };
+    } catch (error) {
+      attempts.push({
+        provider: provider.id,
+        attempt,
+        latencyMs: Math.round(performance.now() - startedAt),
+        error: (error as Error).message
+      });
+
+      if (!isRetriable(error) || attempt > provider.maxRetries) {
+        throw error;
+      }
+
+      // Exponential backoff with jitter on 429/5xx/timeouts
+      const delay = BASE_BACKOFF_MS * 2 ** (attempt - 1) + Math.random() * BASE_BACKOFF_MS;
+      console.warn(`${provider.label} attempt ${attempt} failed, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
     }
-  } catch (error) {
-    console.error(`${backend} AI call failed:`, error);
-    
-    // Fallback to Gemini if other services fail
-    if (backend !== 'gemini') {
-      console.log('Falling back to Gemini service');
-      return await callGeminiAI(prompt, apiKey);
+  }
+};
+
+const callProviderChain = async (
+  prompt: string,
+  backend: AIBackend,
+  responseFormat: GatewayResponseFormat,
+  { feature = 'general' }: UnifiedAIOptions
+): Promise<AIResponse> => {
+  const chain = resolveProviderChain(backend, feature, responseFormat === 'json');
+  if (chain.length === 0) {
+    throw new Error(`No AI provider registered for ${backend} (${feature})`);
+  }
+
+  const attempts: AIAttempt[] = [];
+  let lastError: unknown;
+
+  for (const provider of chain) {
+    try {
+      const result = await callWithRetries(provider, prompt, responseFormat, attempts);
+      if (provider.id !== backend) {
+        console.log(`Answered by fallback provider ${provider.label} instead of ${backend}`);
+      }
+      return {
+        text: () => result.text,
+        provider: provider.id,
+        model: result.model,
+        latencyMs: result.latencyMs,
+        attempts
+      };
+    } catch (error) {
+      console.error(`${provider.label} AI call failed:`, error);
+      lastError = error;
+
+      // A spent quota or a bad request won't get better on another provider
+      if (error instanceof AIProviderError && !error.retriable && error.status >= 400 && error.status < 500) {
+        break;
+      }
     }
-    
-    throw error;
   }
+
+  throw lastError;
 };
 
-export const callUnifiedAIWithStructuredOutput = async (
+export const callUnifiedAI = async (
   prompt: string,
   backend: AIBackend = 'gemini',
-  apiKey?: string
-) => {
+  options: UnifiedAIOptions = {}
+): Promise<AIResponse> => {
+  return callProviderChain(prompt, backend, 'text', options);
+};
+
+export interface StructuredAIOptions extends UnifiedAIOptions {
+  // How many times to re-ask the model after a validation failure
+  maxRepairs?: number;
+}
+
+export interface StructuredAIResponse<T> {
+  data: T;
+  provider: string;
+  latencyMs: number;
+  repairs: number;
+}
+
+/**
+ * Ask for JSON matching `schema`. Malformed or invalid output is repaired
+ * locally where possible, otherwise the validation errors are fed back to
+ * the model for up to `maxRepairs` more attempts.
+ */
+export const callUnifiedAIWithStructuredOutput = async <T,>(
+  prompt: string,
+  schema: StructuredSchema<T>,
+  backend: AIBackend = 'gemini',
+  { maxRepairs = 2, ...options }: StructuredAIOptions = {}
+): Promise<StructuredAIResponse<T>> => {
   const structuredPrompt = `
     ${prompt}
-    
-    IMPORTANT: Return your response in valid JSON format only. 
+
+    IMPORTANT: Return your response in valid JSON format only.
     No additional text outside the JSON.
   `;
-  
-  const response = await callUnifiedAI(structuredPrompt, backend, apiKey);
-  return JSON.parse(response.text());
+
+  let currentPrompt = structuredPrompt;
+  let latencyMs = 0;
+
+  for (let repairs = 0; ; repairs++) {
+    const response = await callProviderChain(currentPrompt, backend, 'json', options);
+    latencyMs += response.latencyMs;
+
+    const result = parseStructuredOutput(response.text(), schema);
+    if (result.success) {
+      return { data: result.data, provider: response.provider, latencyMs, repairs };
+    }
+
+    console.warn(`Structured output from ${response.provider} failed validation:`, result.errors);
+    if (repairs >= maxRepairs) {
+      throw new StructuredOutputError(
+        `AI response failed validation after ${repairs + 1} attempts`,
+        result.errors,
+        result.raw
+      );
+    }
+    currentPrompt = buildRepairPrompt(structuredPrompt, result.raw, result.errors);
+  }
+};
+
+export interface StreamingAIOptions extends UnifiedAIOptions {
+  // Aborting stops the upstream generation (e.g. when the candidate barges in)
+  signal?: AbortSignal;
+}
+
+export interface StreamingAIResponse {
+  tokens: AsyncIterable<string>;
+  provider: string;
+  // Time until the provider accepted the request and started streaming
+  latencyMs: number;
+}
+
+/**
+ * Stream a text completion token by token. Streaming providers in the chain
+ * are tried in order until one accepts the request; if none can stream, the
+ * regular retrying chain is used and its answer is yielded as a single token.
+ */
+export const streamUnifiedAI = async (
+  prompt: string,
+  backend: AIBackend = 'gemini',
+  { signal, ...options }: StreamingAIOptions = {}
+): Promise<StreamingAIResponse> => {
+  const chain = resolveProviderChain(backend, options.feature ?? 'general')
+    .filter(provider => provider.capabilities.streaming && provider.stream);
+
+  for (const provider of chain) {
+    const startedAt = performance.now();
+    try {
+      const tokens = await withTimeout(provider.stream!(prompt, { signal }), provider.timeoutMs, provider.label);
+      return { tokens, provider: provider.id, latencyMs: Math.round(performance.now() - startedAt) };
+    } catch (error) {
+      console.error(`${provider.label} AI stream failed:`, error);
+      if (signal?.aborted) throw error;
+      if (error instanceof AIProviderError && !error.retriable && error.status >= 400 && error.status < 500) {
+        throw error;
+      }
+    }
+  }
+
+  const response = await callProviderChain(prompt, backend, 'text', options);
+  async function* single() {
+    yield response.text();
+  }
+  return { tokens: single(), provider: response.provider, latencyMs: response.latencyMs };
 };
@@ -0,0 +1,230 @@
+// HR AI agents: the ai_agents rows, the tasks queued against them and the
+// decisions they made. Tasks are run by the ai-agent-worker edge function;
+// the browser only queues, cancels and watches them.
+
+import { FunctionsHttpError, type RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+
+export type AiAgent = Tables<'ai_agents'>;
+export type AiAgentType = Enums<'ai_agent_type_option'>;
+export type AiAgentStatus = Enums<'ai_agent_status_option'>;
+export type AiAgentTaskStatus = Enums<'ai_agent_task_status'>;
+export type AiAgentDecision = Tables<'ai_agent_decisions'>;
+
+export type AiAgentTaskType =
+  | 'screen_applications'
+  | 'analyze_feedback'
+  | 'source_candidates'
+  | 'flag_unscheduled_interviews';
+
+export interface AiAgentTask extends Omit<Tables<'ai_agent_tasks'>, 'task_type' | 'params'> {
+  task_type: AiAgentTaskType;
+  params: { jobId?: string; limit?: number };
+}
+
+export interface AiAgentTaskOption {
+  type: AiAgentTaskType;
+  label: string;
+  description: string;
+  // Whether the task needs a job picked
+  needsJob: boolean;
+}
+
+// What each kind of agent can be asked to do; the worker enforces the same pairing
+export const TASK_TYPES_BY_AGENT: Record<AiAgentType, AiAgentTaskOption[]> = {
+  ResumeScreener: [
+    {
+      type: 'screen_applications',
+      label: 'Screen new applications',
+      description: 'Recommend advancing or rejecting every application still in Applied',
+      needsJob: true
+    }
+  ],
+  FeedbackAnalyzer: [
+    {
+      type: 'analyze_feedback',
+      label: 'Analyze interview feedback',
+      description: 'Summarize submitted scorecards and recommend a decision for candidates in Interviewing',
+      needsJob: true
+    }
+  ],
+  CandidateSourcer: [
+    {
+      type: 'source_candidates',
+      label: 'Source candidates',
+      description: 'Rank talent pool candidates who have not applied yet',
+      needsJob: true
+    }
+  ],
+  InterviewScheduler: [
+    {
+      type: 'flag_unscheduled_interviews',
+      label: 'Find unscheduled interviews',
+      description: 'List candidates in Interviewing with no interview on the calendar',
+      needsJob: false
+    }
+  ]
+};
+
+export const TASK_LABELS = Object.fromEntries(
+  Object.values(TASK_TYPES_BY_AGENT).flat().map(option => [option.type, option.label])
+) as Record<AiAgentTaskType, string>;
+
+// Tasks kept on the page per agent
+const RECENT_TASKS = 20;
+
+export class AiAgentsError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'AiAgentsError';
+    this.code = code;
+  }
+}
+
+// ---------- Agents ----------
+
+export const fetchAgents = async (): Promise<AiAgent[]> => {
+  const { data, error } = await supabase.from('ai_agents').select('*').order('agent_name');
+  if (error) throw new AiAgentsError(error.message, error.code);
+  return data ?? [];
+};
+
+/**
+ * Switch an agent on or off. Queued tasks of an inactive agent wait until it
+ * is active again. Status is the only column HR can write.
+ */
+export const setAgentStatus = async (agentId: string, status: Extract<AiAgentStatus, 'Active' | 'Inactive'>): Promise<void> => {
+  const { error } = await supabase
+    .from('ai_agents')
+    .update({ status })
+    .eq('id', agentId);
+  if (error) throw new AiAgentsError(error.message, error.code);
+};
+
+// ---------- Tasks ----------
+
+/**
+ * The most recent tasks of every agent, newest first
+ */
+export const fetchAgentTasks = async (): Promise<AiAgentTask[]> => {
+  const { data, error } = await supabase
+    .from('ai_agent_tasks')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(RECENT_TASKS * 10);
+  if (error) throw new AiAgentsError(error.message, error.code);
+
+  const perAgent = new Map<string, number>();
+  return ((data ?? []) as AiAgentTask[]).filter(task => {
+    const count = perAgent.get(task.agent_id) ?? 0;
+    perAgent.set(task.agent_id, count + 1);
+    return count < RECENT_TASKS;
+  });
+};
+
+/**
+ * Ask the worker to drain the queue now rather than on its next scheduled run
+ */
+export const runAgentWorker = async (): Promise<void> => {
+  const { error } = await supabase.functions.invoke('ai-agent-worker', { body: {} });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const body = await response.json().catch(() => ({}));
+      throw new AiAgentsError(body.error || error.message, String(response.status));
+    }
+    throw new AiAgentsError(error.message);
+  }
+};
+
+/**
+ * Queue a task for an agent on behalf of the current HR member's company and
+ * start the worker. The returned task is already queued even if starting the
+ * worker fails; it will be picked up on the next run.
+ */
+export const queueAgentTask = async (
+  agent: AiAgent,
+  taskType: AiAgentTaskType,
+  params: AiAgentTask['params'] = {}
+): Promise<AiAgentTask> => {
+  const option = agent.agent_type ? TASK_TYPES_BY_AGENT[agent.agent_type].find(item => item.type === taskType) : undefined;
+  if (!option) throw new AiAgentsError(`${agent.agent_name} can't run this task`);
+  if (option.needsJob && !params.jobId) throw new AiAgentsError('Choose a job for this task');
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new AiAgentsError('You must be signed in to run agents');
+
+  const { data: member, error: memberError } = await supabase
+    .from('hr_members')
+    .select('company_id')
+    .eq('user_profile_id', user.id)
+    .maybeSingle();
+  if (memberError) throw new AiAgentsError(memberError.message, memberError.code);
+  if (!member) throw new AiAgentsError('Only HR team members can run agents');
+
+  const { data, error } = await supabase
+    .from('ai_agent_tasks')
+    .insert({
+      agent_id: agent.id,
+      company_id: member.company_id,
+      task_type: taskType,
+      params,
+      created_by: user.id
+    })
+    .select()
+    .single();
+  if (error) throw new AiAgentsError(error.message, error.code);
+
+  // The worker can take a while; status arrives through the realtime channel
+  runAgentWorker().catch(workerError => console.error('Failed to start the AI agent worker:', workerError));
+
+  return data as AiAgentTask;
+};
+
+export const cancelAgentTask = async (taskId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('ai_agent_tasks')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('id', taskId)
+    .in('status', ['queued', 'running']);
+  if (error) throw new AiAgentsError(error.message, error.code);
+};
+
+/**
+ * Live inserts and updates of the company's tasks. Returns the unsubscribe.
+ */
+export const subscribeToAgentTasks = (onChange: (task: AiAgentTask) => void): (() => void) => {
+  const channel: RealtimeChannel = supabase
+    .channel('ai-agent-tasks')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'ai_agent_tasks' },
+      (payload) => {
+        if (payload.new && 'id' in payload.new) onChange(payload.new as AiAgentTask);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// ---------- Decisions ----------
+
+/**
+ * The calls a task's agent made, with whether HR agreed once it acted
+ */
+export const fetchTaskDecisions = async (taskId: string): Promise<AiAgentDecision[]> => {
+  const { data, error } = await supabase
+    .from('ai_agent_decisions')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at');
+  if (error) throw new AiAgentsError(error.message, error.code);
+  return data ?? [];
+};
@@ -0,0 +1,460 @@
+// Deterministic ATS scoring. Every score is computed from explicit rules over
+// the resume (and the target job, when there is one), so the same resume
+// always gets the same score and each point can be traced to a rule.
+
+import type { Tables } from '@/integrations/supabase/types';
+import { KNOWN_SKILLS } from '@/utils/resumeParser';
+
+// The resume builder's data shape, also produced by toATSResumeInput
+export interface ATSResumeInput {
+  personalInfo: {
+    firstName: string;
+    lastName: string;
+    jobTitle: string;
+    email: string;
+    phone: string;
+    location: string;
+    linkedinUrl?: string;
+    githubUrl?: string;
+  };
+  education: { degree: string; school: string; graduationDate: string; score?: string }[];
+  experience: { jobTitle: string; companyName: string; startDate: string; endDate?: string; description: string }[];
+  skills: { professional: string; technical: string; soft: string };
+  objective: string;
+}
+
+export type ATSJobTarget = Pick<Tables<'jobs'>, 'title' | 'skills_required' | 'requirements'>;
+
+export type ATSRuleCategory = 'keyword' | 'format' | 'content';
+
+export interface ATSRuleResult {
+  id: 'keyword-coverage' | 'section-completeness' | 'formatting-hazards' | 'date-gaps' | 'quantified-achievements';
+  label: string;
+  category: ATSRuleCategory;
+  score: number;
+  weight: number;
+  passed: boolean;
+  detail: string;
+  // Items behind the score: missing keywords, missing sections, gaps, hazards
+  evidence: string[];
+  suggestion?: string;
+}
+
+export interface ATSRuleBreakdown {
+  overallScore: number;
+  keywordScore: number;
+  formatScore: number;
+  contentScore: number;
+  rules: ATSRuleResult[];
+  matchedKeywords: string[];
+  missingKeywords: string[];
+}
+
+export interface ATSRuleOptions {
+  // Raw resume text, when scoring an uploaded file rather than builder data
+  text?: string;
+  job?: ATSJobTarget | null;
+}
+
+const PASS_SCORE = 70;
+// Same category weights the LLM prompt's overall score is judged against
+const CATEGORY_WEIGHTS: Record<ATSRuleCategory, number> = { keyword: 0.35, format: 0.25, content: 0.4 };
+// Employment gaps shorter than this are not worth flagging
+const GAP_MONTHS = 6;
+const MAX_JOB_KEYWORDS = 40;
+
+// ---------- Keyword normalization ----------
+
+// Spellings that ATS keyword matching should treat as the same skill
+const SYNONYM_GROUPS = [
+  ['javascript', 'js', 'ecmascript', 'es6'],
+  ['typescript', 'ts'],
+  ['node.js', 'node', 'nodejs'],
+  ['react', 'reactjs', 'react.js'],
+  ['vue', 'vuejs', 'vue.js'],
+  ['angular', 'angularjs'],
+  ['next.js', 'nextjs'],
+  ['postgresql', 'postgres', 'psql'],
+  ['mongodb', 'mongo'],
+  ['kubernetes', 'k8s'],
+  ['aws', 'amazon web services'],
+  ['gcp', 'google cloud', 'google cloud platform'],
+  ['azure', 'microsoft azure'],
+  ['machine learning', 'ml'],
+  ['artificial intelligence', 'ai'],
+  ['natural language processing', 'nlp'],
+  ['ci/cd', 'continuous integration', 'continuous delivery', 'continuous deployment'],
+  ['ux', 'user experience'],
+  ['ui', 'user interface'],
+  ['c#', 'csharp'],
+  ['.net', 'dotnet'],
+  ['go', 'golang'],
+  ['rest', 'restful', 'rest api', 'rest apis'],
+  ['sql', 'structured query language'],
+  ['excel', 'microsoft excel', 'ms excel'],
+  ['power bi', 'powerbi']
+];
+
+const STEM_RULES: [string, string][] = [
+  ['ational', 'ate'], ['ization', 'ize'], ['ations', 'ate'], ['ation', 'ate'], ['sses', 'ss'],
+  ['ments', ''], ['ment', ''], ['ings', ''], ['ing', ''], ['ies', 'y'], ['ied', 'y'], ['ers', 'er'], ['ed', ''], ['es', '']
+];
+
+/**
+ * Light suffix stripping so "managed", "manages" and "managing" all match "manage"
+ */
+const stem = (word: string) => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let stemmed = word;
+  const suffixRule = STEM_RULES.find(([suffix]) => word.endsWith(suffix) && word.length - suffix.length >= 3);
+  if (suffixRule) {
+    stemmed = word.slice(0, -suffixRule[0].length) + suffixRule[1];
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    stemmed = word.slice(0, -1);
+  }
+  return stemmed.length > 4 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+};
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/c\+\+/g, ' cplusplus ')
+    .replace(/c#/g, ' csharp ')
+    .replace(/(^|\s)\.net\b/g, ' dotnet ')
+    // node.js -> nodejs, but keep sentence boundaries apart
+    .replace(/([a-z])\.(js)\b/g, '$1$2')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem);
+
+const phraseKey = (phrase: string) => tokenize(phrase).join(' ');
+
+const synonymIndex = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  const keys = group.map(phraseKey);
+  keys.forEach(key => synonymIndex.set(key, keys));
+}
+
+const variantsOf = (keyword: string) => {
+  const key = phraseKey(keyword);
+  return synonymIndex.get(key) ?? [key];
+};
+
+// ---------- Job keywords ----------
+
+const REQUIREMENT_FILLER = /^(?:\d+\+?\s*(?:years?|yrs?)\s*(?:of\s+)?(?:experience\s+)?(?:with|in)?\s*|(?:strong|solid|good|excellent|proven|hands-on|working|deep)\s+|(?:experience|knowledge|proficiency|familiarity|expertise|understanding)\s+(?:with|in|of)\s+|(?:ability|able)\s+to\s+)+/i;
+
+/**
+ * The keywords a resume is checked against: the job's listed skills, short
+ * requirement items, and known skills named inside longer requirement sentences
+ */
+export const extractJobKeywords = (job: ATSJobTarget): string[] => {
+  const keywords: string[] = [...(job.skills_required ?? []).flatMap(skill => skill.split(/[,;]/))];
+
+  const requirements = job.requirements ?? '';
+  const fragments = requirements
+    .split(/\n|;|•|,|\.\s/)
+    .map(fragment => fragment.replace(/^[-*•\d.)\s]+/, '').replace(REQUIREMENT_FILLER, '').replace(/\.$/, '').trim());
+  keywords.push(...fragments.filter(fragment => {
+    const words = fragment.split(/\s+/).length;
+    return fragment.length > 1 && words <= 3;
+  }));
+
+  const requirementKey = ` ${tokenize(requirements).join(' ')} `;
+  const vocabulary = [...KNOWN_SKILLS, ...SYNONYM_GROUPS.map(group => group[0])];
+  keywords.push(...vocabulary.filter(term => variantsOf(term).some(key => requirementKey.includes(` ${key} `))));
+
+  const seen = new Set<string>();
+  return keywords
+    .map(keyword => keyword.trim())
+    .filter(keyword => {
+      const key = variantsOf(keyword)[0];
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_JOB_KEYWORDS);
+};
+
+// ---------- Resume text ----------
+
+const listedSkills = (resume: ATSResumeInput) =>
+  [resume.skills?.professional, resume.skills?.technical, resume.skills?.soft]
+    .filter(Boolean)
+    .flatMap(group => group.split(/[,;]/))
+    .map(skill => skill.trim())
+    .filter(Boolean);
+
+const flattenResume = (resume: ATSResumeInput) => {
+  const { personalInfo, education = [], experience = [], objective } = resume;
+  return [
+    `${personalInfo.firstName} ${personalInfo.lastName}`,
+    personalInfo.jobTitle,
+    [personalInfo.email, personalInfo.phone, personalInfo.location].filter(Boolean).join(' | '),
+    objective,
+    listedSkills(resume).join(', '),
+    ...experience.flatMap(exp => [`${exp.jobTitle} at ${exp.companyName}`, exp.description]),
+    ...education.map(edu => `${edu.degree} ${edu.school} ${edu.graduationDate}`)
+  ].filter(Boolean).join('\n');
+};
+
+// ---------- Rules ----------
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const rule = (result: Omit<ATSRuleResult, 'passed'>): ATSRuleResult => {
+  const score = clampScore(result.score);
+  return { ...result, score, passed: score >= PASS_SCORE };
+};
+
+const keywordCoverage = (resume: ATSResumeInput, text: string, jobKeywords: string[]) => {
+  if (jobKeywords.length === 0) {
+    const skills = listedSkills(resume);
+    return {
+      matched: skills,
+      missing: [] as string[],
+      result: rule({
+        id: 'keyword-coverage',
+        label: 'Keyword coverage',
+        category: 'keyword',
+        weight: 1,
+        score: 40 + skills.length * 6,
+        detail: `No target job selected; scored on the ${skills.length} skills listed`,
+        evidence: [],
+        suggestion: skills.length < 10 ? 'List at least 10 relevant skills, or pick a target job to check its keywords' : undefined
+      })
+    };
+  }
+
+  const resumeKey = ` ${tokenize(text).join(' ')} `;
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const keyword of jobKeywords) {
+    const found = variantsOf(keyword).some(key => resumeKey.includes(` ${key} `));
+    (found ? matched : missing).push(keyword);
+  }
+
+  return {
+    matched,
+    missing,
+    result: rule({
+      id: 'keyword-coverage',
+      label: 'Keyword coverage',
+      category: 'keyword',
+      weight: 1,
+      score: (matched.length / jobKeywords.length) * 100,
+      detail: `${matched.length} of ${jobKeywords.length} job keywords found`,
+      evidence: missing,
+      suggestion: missing.length
+        ? `Add the job keywords you genuinely have experience with: ${missing.slice(0, 6).join(', ')}`
+        : undefined
+    })
+  };
+};
+
+const sectionCompleteness = (resume: ATSResumeInput) => {
+  const { personalInfo, education = [], experience = [] } = resume;
+  const sections: [string, boolean][] = [
+    ['Email', !!personalInfo.email],
+    ['Phone', !!personalInfo.phone],
+    ['Summary', !!resume.objective?.trim()],
+    ['Experience', experience.length > 0],
+    ['Education', education.length > 0],
+    ['Skills', listedSkills(resume).length > 0]
+  ];
+  const missing = sections.filter(([, present]) => !present).map(([name]) => name);
+
+  return rule({
+    id: 'section-completeness',
+    label: 'Section completeness',
+    category: 'format',
+    weight: 1,
+    score: ((sections.length - missing.length) / sections.length) * 100,
+    detail: missing.length ? `Missing: ${missing.join(', ')}` : 'Contact details and all standard sections present',
+    evidence: missing,
+    suggestion: missing.length ? `Add the missing sections under standard headings: ${missing.join(', ')}` : undefined
+  });
+};
+
+const formattingHazards = (resume: ATSResumeInput, text: string) => {
+  // [hazard, penalty, advice]
+  const hazards: [string, number, string][] = [];
+  const lines = text.split('\n');
+  const words = text.split(/\s+/).filter(Boolean).length;
+
+  const tableLines = lines.filter(line => /\t.*\t/.test(line) || line.split('|').length > 3 || /[│┃┆║]/.test(line));
+  if (tableLines.length > 3) {
+    hazards.push(['Tables or multi-column layout', 20, 'Use a single-column layout without tables']);
+  }
+  if (/[\uE000-\uF8FF]|\p{Extended_Pictographic}/u.test(text)) {
+    hazards.push(['Icon fonts or emoji that parsers drop', 15, 'Replace icons and emoji with plain text labels']);
+  }
+  if (words < 150) {
+    hazards.push([`Very short (${words} words)`, 20, 'Describe your experience and projects in more detail']);
+  } else if (words > 1000) {
+    hazards.push([`Long (${words} words)`, 10, 'Trim the resume to at most two pages']);
+  }
+
+  const denseEntries = (resume.experience ?? []).filter(exp =>
+    (exp.description ?? '').split('\n').some(line => line.length > 300)
+  );
+  if (denseEntries.length) {
+    hazards.push(['Experience written as long paragraphs', 10, 'Break experience paragraphs into short bullet points']);
+  }
+
+  return rule({
+    id: 'formatting-hazards',
+    label: 'Formatting hazards',
+    category: 'format',
+    weight: 1,
+    score: 100 - hazards.reduce((sum, [, penalty]) => sum + penalty, 0),
+    detail: hazards.length ? `${hazards.length} issue${hazards.length === 1 ? '' : 's'} found` : 'No formatting issues found',
+    evidence: hazards.map(([hazard]) => hazard),
+    suggestion: hazards.length ? hazards.map(([, , advice]) => advice).join('; ') : undefined
+  });
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Month index (year * 12 + month) of a resume date; year-only dates count as
+ * January when they start a range and December when they end one
+ */
+const parseMonth = (value: string | undefined, edge: 'start' | 'end', now: number): number | null => {
+  const text = (value ?? '').trim().toLowerCase();
+  if (!text) return edge === 'end' ? now : null;
+  if (/present|current|now|till date|ongoing/.test(text)) return now;
+
+  const iso = text.match(/\b((?:19|20)\d{2})-(\d{1,2})/);
+  if (iso) return Number(iso[1]) * 12 + Number(iso[2]) - 1;
+  const numeric = text.match(/\b(\d{1,2})\/((?:19|20)\d{2})\b/);
+  if (numeric) return Number(numeric[2]) * 12 + Number(numeric[1]) - 1;
+  const named = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s*((?:19|20)\d{2})\b/);
+  if (named) return Number(named[2]) * 12 + MONTHS.indexOf(named[1]);
+  const year = text.match(/\b((?:19|20)\d{2})\b/);
+  if (year) return Number(year[1]) * 12 + (edge === 'start' ? 0 : 11);
+  return null;
+};
+
+const formatMonth = (month: number) =>
+  `${MONTHS[month % 12].replace(/^./, letter => letter.toUpperCase())} ${Math.floor(month / 12)}`;
+
+const dateGaps = (resume: ATSResumeInput, now: number) => {
+  const experience = resume.experience ?? [];
+  const issues: [string, number][] = [];
+  const ranges: [number, number][] = [];
+
+  for (const exp of experience) {
+    const start = parseMonth(exp.startDate, 'start', now);
+    const end = parseMonth(exp.endDate, 'end', now);
+    const name = exp.jobTitle || exp.companyName || 'An entry';
+    if (start === null || end === null) {
+      issues.push([`${name}: missing or unreadable dates`, 10]);
+    } else if (end < start) {
+      issues.push([`${name}: ends before it starts`, 10]);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  let coveredUntil = ranges[0]?.[1];
+  for (const [start, end] of ranges.slice(1)) {
+    const gap = start - coveredUntil - 1;
+    if (gap >= GAP_MONTHS) {
+      issues.push([`Gap of ${gap} months: ${formatMonth(coveredUntil)} to ${formatMonth(start)}`, 15]);
+    }
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+
+  const gapCount = issues.filter(([issue]) => issue.startsWith('Gap')).length;
+  return rule({
+    id: 'date-gaps',
+    label: 'Employment timeline',
+    category: 'content',
+    weight: 1,
+    score: 100 - issues.reduce((sum, [, penalty]) => sum + penalty, 0),
+    detail: experience.length === 0
+      ? 'No work history to check'
+      : issues.length
+        ? `${gapCount} gap${gapCount === 1 ? '' : 's'} of ${GAP_MONTHS}+ months, ${issues.length - gapCount} dating issue${issues.length - gapCount === 1 ? '' : 's'}`
+        : 'Continuous, fully dated work history',
+    evidence: issues.map(([issue]) => issue),
+    suggestion: issues.length
+      ? 'Give every role a start and end month, and briefly explain longer gaps (study, freelance work, caregiving)'
+      : undefined
+  });
+};
+
+// A statement counts as quantified when it carries a figure: 30%, $2M, 10k users, 3x
+const QUANTIFIED = /\d+(?:[.,]\d+)?\s*(?:%|x\b|k\b|m\b|\+)|[$€£₹]\s*\d|\b(?!(?:19|20)\d{2}\b)\d{2,}\b|\b\d+\s+(?:users|customers|clients|people|engineers|members|projects|teams|countries|hours|days|weeks|months)\b/i;
+// Half the bullets carrying a figure is treated as a full score
+const TARGET_QUANTIFIED_RATIO = 0.5;
+
+const quantifiedAchievements = (resume: ATSResumeInput) => {
+  const statements = (resume.experience ?? [])
+    .flatMap(exp => (exp.description ?? '').split(/\n|(?<=\.)\s+(?=[A-Z])/))
+    .map(statement => statement.replace(/^[-*•●▪◦·]\s*/, '').trim())
+    .filter(statement => statement.length > 15);
+  const quantified = statements.filter(statement => QUANTIFIED.test(statement));
+  const ratio = statements.length ? quantified.length / statements.length : 0;
+
+  return rule({
+    id: 'quantified-achievements',
+    label: 'Quantified achievements',
+    category: 'content',
+    weight: 1,
+    score: (ratio / TARGET_QUANTIFIED_RATIO) * 100,
+    detail: statements.length
+      ? `${quantified.length} of ${statements.length} experience statements include a measurable result`
+      : 'No experience statements to check',
+    evidence: statements.filter(statement => !QUANTIFIED.test(statement)).slice(0, 3),
+    suggestion: ratio < TARGET_QUANTIFIED_RATIO
+      ? 'Quantify results in your experience bullets (percentages, revenue, users, time saved)'
+      : undefined
+  });
+};
+
+const categoryScore = (rules: ATSRuleResult[], category: ATSRuleCategory) => {
+  const inCategory = rules.filter(result => result.category === category);
+  const totalWeight = inCategory.reduce((sum, result) => sum + result.weight, 0);
+  return totalWeight
+    ? clampScore(inCategory.reduce((sum, result) => sum + result.score * result.weight, 0) / totalWeight)
+    : 0;
+};
+
+/**
+ * Score a resume with the deterministic rules, optionally against a job
+ */
+export const scoreResumeWithRules = (resume: ATSResumeInput, options: ATSRuleOptions = {}): ATSRuleBreakdown => {
+  const text = options.text?.trim() || flattenResume(resume);
+  const today = new Date();
+  const now = today.getFullYear() * 12 + today.getMonth();
+
+  const keywords = keywordCoverage(resume, text, options.job ? extractJobKeywords(options.job) : []);
+  const rules = [
+    keywords.result,
+    sectionCompleteness(resume),
+    formattingHazards(resume, text),
+    dateGaps(resume, now),
+    quantifiedAchievements(resume)
+  ];
+
+  const keywordScore = categoryScore(rules, 'keyword');
+  const formatScore = categoryScore(rules, 'format');
+  const contentScore = categoryScore(rules, 'content');
+
+  return {
+    overallScore: clampScore(
+      keywordScore * CATEGORY_WEIGHTS.keyword +
+      formatScore * CATEGORY_WEIGHTS.format +
+      contentScore * CATEGORY_WEIGHTS.content
+    ),
+    keywordScore,
+    formatScore,
+    contentScore,
+    rules,
+    matchedKeywords: keywords.matched,
+    missingKeywords: keywords.missing
+  };
+};
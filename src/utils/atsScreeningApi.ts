@@ -0,0 +1,55 @@
+// Client for the ats-screening edge function. The function reads the uploaded
+// resume, scores it against the job and files the application; the browser
+// only submits which job and resume to use.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ATSScoreData } from '@/utils/atsScoreApi';
+
+export interface ScreeningScore extends ATSScoreData {
+  strengths: string[];
+  weaknesses: string[];
+  // 'keyword' when the model was unavailable and the fallback scorer was used
+  method: 'llm' | 'keyword';
+}
+
+export interface ScreeningResult {
+  application: Tables<'job_applications'>;
+  passed: boolean;
+  minimumScore: number;
+  ats: ScreeningScore;
+}
+
+export class ATSScreeningError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ATSScreeningError';
+    this.status = status;
+  }
+}
+
+/**
+ * Apply for a job with an uploaded resume (a path in the `resumes` bucket)
+ */
+export const submitScreenedApplication = async (
+  jobId: string,
+  resume: { path: string; name: string }
+): Promise<ScreeningResult> => {
+  const { data, error } = await supabase.functions.invoke<ScreeningResult>('ats-screening', {
+    body: { jobId, resumePath: resume.path, resumeFileName: resume.name }
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const body = await response.json().catch(() => ({}));
+      throw new ATSScreeningError(body.error || error.message, response.status);
+    }
+    throw new ATSScreeningError(error.message, 0);
+  }
+
+  return data;
+};
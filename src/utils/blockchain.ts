@@ -1,6 +1,19 @@
 import html2pdf from 'html2pdf.js';
-import { Certificate, BlockchainDocument, DocumentVerification } from '@/types/blockchain';
+import { Certificate, BlockchainDocument, DocumentVerification, OnChainCredential } from '@/types/blockchain';
 import QRCode from 'qrcode';
+import { issueCertificateForExam } from '@/utils/certificationExams';
+import {
+  CertificateVerificationResult,
+  VERIFICATION_STATUS_LABELS,
+  verifyIssuedCertificate
+} from '@/utils/certificateVerification';
+import { describeRevocation, fetchRegistryStatus } from '@/utils/revocationRegistry';
+import {
+  CREDENTIAL_CHAIN_MODE,
+  CredentialChainError,
+  getCredentialNFTClient,
+  isChainUnavailable
+} from '@/utils/credentialNFT';
 
 // Generate Certificate PDF
 export const generateCertificatePDF = async (elementId: string, fileName?: string): Promise<string> => {
@@ -59,121 +72,58 @@ const copyToClipboard = async (text: string): Promise<boolean> => {
   }
 };
 
-// Generate a certificate
+// Generate a certificate. Only the server can issue one: it checks the
+// signed-in user passed the test and signs the certificate with the issuer key.
 export const generateCertificate = async (
-  testId: string, 
-  title: string,
-  score: number, 
-  recipientName: string,
-  recipientEmail: string
-): Promise<Certificate> => {
-  const uniqueId = `cert-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
-  
-  const certHash = `qwix-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
-  
-  const txHash = `0x${Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-  
-  const certificate: Certificate = {
-    id: uniqueId,
-    testId,
-    title,
-    score,
-    issuedDate: new Date().toISOString(),
-    isPublic: true,
-    certHash,
-    txHash,
-    blockId: Math.floor(Math.random() * 1000000),
-    issuerName: "QwiXCert Authority",
-    holderName: recipientName,
-    holderEmail: recipientEmail,
-    vaultId: getQwixVaultIdByEmail(recipientEmail) || "default-vault",
-    recipientName,
-    recipientEmail,
-    uniqueId,
-    blockchainNetwork: "Polygon",
-    issuer: "QwiXCert Authority",
-    contractAddress: `0x${Array(40).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`,
-    smartContractStandard: "ERC-721"
-  };
-
-  return certificate;
-};
+  testId: string,
+  recipientName: string
+): Promise<Certificate> => issueCertificateForExam(testId, recipientName);
 
 // Certificate verification functions
 export const verifyCertificate = async (
   identifier: string, 
   method: 'certHash' | 'txHash' | 'blockId' | 'uniqueId' = 'certHash'
-): Promise<{ isValid: boolean; certificate?: Certificate; transaction?: any; error?: string }> => {
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  const certificates = getUserCertificates();
-  
-  let certificate;
-  
-  switch (method) {
-    case 'certHash':
-      certificate = certificates.find(cert => cert.certHash === identifier);
-      break;
-    case 'txHash':
-      certificate = certificates.find(cert => cert.txHash === identifier);
-      break;
-    case 'blockId':
-      certificate = certificates.find(cert => cert.blockId.toString() === identifier);
-      break;
-    case 'uniqueId':
-      certificate = certificates.find(cert => cert.uniqueId === identifier);
-      break;
-    default:
-      return { isValid: false, error: 'Invalid verification method' };
-  }
-  
-  if (certificate) {
-    const transaction = {
-      hash: certificate.txHash,
-      blockId: certificate.blockId,
-      confirmations: Math.floor(Math.random() * 1000),
-      timestamp: certificate.issuedDate,
-      status: 'confirmed' as const
-    };
-    
-    return { isValid: true, certificate, transaction };
+): Promise<{ isValid: boolean; certificate?: Certificate; verification?: CertificateVerificationResult; error?: string }> => {
+  if (method === 'txHash' || method === 'blockId') {
+    return { isValid: false, error: 'Certificates are not anchored on a blockchain; verify by certificate hash or ID' };
   }
   
-  return { isValid: false, error: 'Certificate not found' };
-};
-
-// Verify certificate from file
-export const verifyCertificateFromFile = async (file: File): Promise<{ isValid: boolean; certificate?: Certificate; error?: string }> => {
-  await new Promise(resolve => setTimeout(resolve, 1500));
+  const verification = await verifyIssuedCertificate(identifier, method);
+  const verified = verification.certificate;
   
-  if (file.type === 'application/pdf') {
-    const mockCertificate: Certificate = {
-      id: `cert-${Date.now()}`,
-      testId: 'mock-test-001',
-      title: 'Mock Certificate from File',
-      score: 85,
-      issuedDate: new Date().toISOString(),
-      isPublic: true,
-      certHash: `qwix-${Date.now().toString(36)}`,
-      txHash: `0x${Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`,
-      blockId: Math.floor(Math.random() * 1000000),
-      issuerName: 'QwiXCert Authority',
-      holderName: 'File Holder',
-      holderEmail: 'file@example.com',
-      vaultId: 'mock-vault-id',
-      recipientName: 'File Holder',
-      recipientEmail: 'file@example.com',
-      uniqueId: `file-cert-${Date.now()}`,
-      blockchainNetwork: 'Polygon',
-      issuer: 'QwiXCert Authority',
-      contractAddress: `0x${Array(40).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`,
-      smartContractStandard: 'ERC-721'
-    };
-    
-    return { isValid: true, certificate: mockCertificate };
-  }
+  const certificate: Certificate | undefined = verified && {
+    id: verified.id,
+    testId: verified.examId,
+    title: verified.title,
+    score: verified.score,
+    issuedDate: verified.issuedAt,
+    isPublic: true,
+    certHash: verified.certHash,
+    txHash: '',
+    blockId: 0,
+    issuerName: verified.issuer,
+    holderName: verified.recipientName,
+    holderEmail: '',
+    vaultId: '',
+    recipientName: verified.recipientName,
+    recipientEmail: '',
+    uniqueId: verified.id,
+    blockchainNetwork: 'Not anchored',
+    issuer: verified.issuer,
+    contractAddress: '',
+    smartContractStandard: '',
+    signature: verification.signature,
+    issuerKeyId: verification.issuerKey?.id
+  };
   
-  return { isValid: false, error: 'Invalid certificate file format. Please upload a PDF.' };
+  return {
+    isValid: verification.valid,
+    certificate,
+    verification,
+    error: verification.valid
+      ? undefined
+      : verification.revocation ? describeRevocation(verification.revocation) : VERIFICATION_STATUS_LABELS[verification.status]
+  };
 };
 
 // Get user certificates
@@ -223,11 +173,40 @@ export const getQwixVaultIdByEmail = (email: string): string | null => {
   return null;
 };
 
+// The issuer's registry entry decides: a revoked or superseded document fails
+// even when a copy is stored on this device, and a registered one verifies
+// on any device
+export const checkDocumentRegistry = async (
+  uniqueId: string,
+  document: BlockchainDocument | null
+): Promise<DocumentVerification> => {
+  const registryEntry = await fetchRegistryStatus('document', uniqueId);
+  
+  if (registryEntry && registryEntry.status !== 'active') {
+    return {
+      isValid: false,
+      document: document ?? undefined,
+      registryEntry,
+      error: describeRevocation(registryEntry) ?? undefined
+    };
+  }
+  if (!document && !registryEntry) {
+    return {
+      isValid: false,
+      registryEntry: null,
+      error: "Document not found"
+    };
+  }
+  return {
+    isValid: true,
+    document: document ?? undefined,
+    registryEntry
+  };
+};
+
 // Verify document by uniqueId - works without login
 export const verifyDocument = async (uniqueId: string): Promise<DocumentVerification> => {
   try {
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
     let foundDocument: BlockchainDocument | null = null;
     
     const vaultUsersStr = localStorage.getItem('qwixvault_users');
@@ -251,22 +230,12 @@ export const verifyDocument = async (uniqueId: string): Promise<DocumentVerifica
       }
     }
     
-    if (foundDocument) {
-      return {
-        isValid: true,
-        document: foundDocument
-      };
-    } else {
-      return {
-        isValid: false,
-        error: "Document not found or has been revoked"
-      };
-    }
+    return await checkDocumentOnChain(uniqueId, await checkDocumentRegistry(uniqueId, foundDocument));
   } catch (error) {
     console.error("Error verifying document:", error);
     return {
       isValid: false,
-      error: "Verification process failed"
+      error: error instanceof CredentialChainError ? error.message : "Verification process failed"
     };
   }
 };
@@ -282,3 +251,54 @@ export const generateVerificationQrCode = async (uniqueId: string): Promise<stri
     throw error;
   }
 };
+
+// The document's credential NFT must come from a trusted issuer and still
+// match the vault copy: same metadata URI, still held by the wallet it was
+// minted to. A token only backs a document the registry or a vault knows;
+// its id is just a string, so on its own it proves nothing.
+export const checkDocumentOnChain = async (
+  uniqueId: string,
+  verification: DocumentVerification
+): Promise<DocumentVerification> => {
+  if (CREDENTIAL_CHAIN_MODE === 'simulated') return verification;
+
+  const client = getCredentialNFTClient();
+  let onChain: OnChainCredential | null;
+  try {
+    onChain = await client.lookupCredential(uniqueId);
+  } catch (error) {
+    if (!isChainUnavailable(error)) throw error;
+    console.warn('Skipping the credential chain check:', error);
+    return verification;
+  }
+  const { document } = verification;
+
+  if (!onChain) {
+    // Documents minted in simulated mode have no contract to check against
+    return document?.contractAddress
+      ? { ...verification, isValid: false, onChain: null, error: "Credential token not found on chain" }
+      : { ...verification, onChain: null };
+  }
+
+  // Another minter's token for this id isn't this document's
+  if (!(await client.isTrustedIssuer(onChain.issuer))) {
+    return document?.contractAddress
+      ? { ...verification, isValid: false, onChain: null, error: "The credential token was not minted by a trusted issuer" }
+      : { ...verification, onChain: null };
+  }
+
+  const onChainHistory = await client.getHistory(onChain.tokenId);
+  const withToken = { ...verification, onChain, onChainHistory };
+
+  // Revoked, superseded or unknown to the registry and every vault
+  if (!verification.isValid) {
+    return withToken;
+  }
+  if (document && onChain.tokenURI !== document.ipfsUri) {
+    return { ...withToken, isValid: false, error: "The credential token doesn't match this document" };
+  }
+  if (document && !(await client.isOwner(onChain.tokenId, document.ownerAddress))) {
+    return { ...withToken, isValid: false, error: "The credential token is now held by another wallet" };
+  }
+  return withToken;
+};
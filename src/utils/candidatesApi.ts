@@ -0,0 +1,60 @@
+// Client for the candidates-handler edge function's bulk import, used by the
+// HR resume parser to file a batch of parsed resumes against a job.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface CandidateImportRow {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  skills: string[];
+  experienceYears: number;
+  aiScore: number;
+  // Resume file the candidate was parsed from
+  source: string;
+}
+
+export interface CandidateImportResult {
+  candidatesCreated: number;
+  candidatesReused: number;
+  applicationsCreated: number;
+  // Candidates that already had an application for the job
+  applicationsSkipped: number;
+  rejected: { source: string; reason: string }[];
+}
+
+export class CandidatesApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CandidatesApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Create candidates (or reuse existing ones by email) and their applications
+ * for a job in one request
+ */
+export const importCandidatesForJob = async (
+  jobId: string,
+  candidates: CandidateImportRow[]
+): Promise<CandidateImportResult> => {
+  const { data, error } = await supabase.functions.invoke<CandidateImportResult>('candidates-handler/candidates/batch', {
+    body: { jobId, candidates }
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const body = await response.json().catch(() => ({}));
+      throw new CandidatesApiError(body.error || error.message, response.status);
+    }
+    throw new CandidatesApiError(error.message, 0);
+  }
+
+  return data;
+};
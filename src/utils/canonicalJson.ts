@@ -0,0 +1,19 @@
+/**
+ * JSON with sorted object keys and undefined values dropped, so equal data
+ * always serializes (and hashes) the same way
+ */
+export const canonicalJSON = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
@@ -1,6 +1,8 @@
 
 import { CareerPath, CareerNode, SkillRequirement, SkillGap } from "@/types/career";
 import { transformText } from "@/utils/huggingFaceTransformer";
+import { callUnifiedAIWithStructuredOutput } from "@/utils/ai/unifiedAIService";
+import { careerPathsSchema } from "@/utils/ai/schemas";
 
 // Helper function to generate skill requirements
 const generateSkillRequirements = (skills: string[], level: number): SkillRequirement[] => {
@@ -120,11 +122,48 @@ const generateSkillsForRole = async (jobRole: string): Promise<string[]> => {
 
 // Main function to generate career paths
 export const generateCareerPaths = async (resumeData: any): Promise<CareerPath[]> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1500));
-  
-  // Get basic information from resume or job role
   const { currentRole } = resumeData;
+
+  const prompt = `
+    You are a career coach. Design three distinct 10-year career paths for someone currently working as a ${currentRole}.
+
+    Return JSON in this exact format:
+    {
+      "paths": [
+        {
+          "name": string,
+          "type": "ambitious" | "skills" | "balanced",
+          "description": "1-2 sentence summary of the path",
+          "nodes": [
+            {
+              "title": string,
+              "yearsFromNow": number,
+              "salaryRange": "$min - $max",
+              "description": string,
+              "stage": "Entry" | "Mid" | "Senior" | "Lead" | "Executive",
+              "requiredSkills": [{ "name": string, "level": 1-5 }],
+              "skillGaps": [{ "skill": string, "suggestion": string, "resourceUrl": string }]
+            }
+          ]
+        }
+      ]
+    }
+
+    Use exactly one path of each type: "ambitious" (leadership), "skills" (technical depth) and "balanced" (work-life balance).
+    Each path must have 5 nodes, the first being the current role at yearsFromNow 0 without skillGaps.
+  `;
+
+  try {
+    const { data } = await callUnifiedAIWithStructuredOutput(prompt, careerPathsSchema, 'gemini', { feature: 'careerPath' });
+    return data.map(path => ({ ...path, title: path.title || path.name }));
+  } catch (error) {
+    console.error("AI career path generation failed, using templates:", error);
+    return generateTemplateCareerPaths(currentRole);
+  }
+};
+
+// Template-based career paths used when the AI service is unavailable
+const generateTemplateCareerPaths = async (currentRole: string): Promise<CareerPath[]> => {
   
   // Generate skills based on the current role
   const skills = await generateSkillsForRole(currentRole);
@@ -0,0 +1,143 @@
+// Batched anchoring of QwiXCert certificates through the certificate-anchoring
+// edge function. Certificates are queued when issued or saved to the vault;
+// once a batch is anchored, the vault keeps each certificate's Merkle
+// inclusion proof with the batch's signed statement, and membership can be
+// proven offline from those plus the issuer's (cached) published keys.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { AnchorStatement, Certificate, CertificateAnchor } from '@/types/blockchain';
+import { canonicalJSON } from '@/utils/canonicalJson';
+import { merkleRootFromProof } from '@/utils/merkleTree';
+import { loadIssuerKeys } from '@/utils/verifiableCredentials';
+
+export type AnchorVerificationStatus =
+  | 'anchored'
+  | 'pending'
+  | 'invalid_proof'
+  | 'invalid_signature'
+  | 'untrusted_issuer'
+  | 'keys_unavailable';
+
+export class CertificateAnchoringError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CertificateAnchoringError';
+    this.status = status;
+  }
+}
+
+export const ANCHOR_STATUS_LABELS: Record<AnchorVerificationStatus, string> = {
+  anchored: "The certificate is in a batch whose root the issuer signed into the anchor log.",
+  pending: 'The certificate is queued for the next anchored batch.',
+  invalid_proof: "The inclusion proof doesn't lead from this certificate to the batch root.",
+  invalid_signature: "The issuer's signature does not match the batch statement.",
+  untrusted_issuer: 'The batch was not signed by a trusted key of its issuer.',
+  keys_unavailable: "The issuer's published keys could not be loaded. Connect once to verify proofs offline."
+};
+
+const invoke = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>('certificate-anchoring', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const details = await response.json().catch(() => ({}));
+      throw new CertificateAnchoringError(details.error || error.message, response.status);
+    }
+    throw new CertificateAnchoringError(error.message, 0);
+  }
+
+  return data as T;
+};
+
+/**
+ * Queue the holder's certificate for anchoring; its anchor if it already has one
+ */
+export const queueCertificateAnchor = async (certificateId: string) =>
+  (await invoke<{ anchor: CertificateAnchor | null }>({ action: 'enqueue', certificateId })).anchor;
+
+export const fetchCertificateAnchors = async (certificateIds: string[]) =>
+  (await invoke<{ anchors: Record<string, CertificateAnchor | null> }>({ action: 'proofs', certificateIds })).anchors;
+
+export const withAnchor = (certificate: Certificate, anchor: CertificateAnchor | null): Certificate =>
+  anchor
+    ? { ...certificate, anchor, blockchainNetwork: 'QwiXCert anchor log', blockId: anchor.statement.sequence }
+    : certificate;
+
+/**
+ * Fetch proofs for the server-issued certificates that don't have one yet.
+ * Offline, or while every batch is pending, the list comes back unchanged.
+ */
+export const attachCertificateAnchors = async (certificates: Certificate[]): Promise<Certificate[]> => {
+  const ids = certificates.filter((certificate) => certificate.signature && !certificate.anchor).map((certificate) => certificate.id);
+  if (ids.length === 0) return certificates;
+
+  try {
+    const anchors: Record<string, CertificateAnchor | null> = {};
+    for (let i = 0; i < ids.length; i += 100) {
+      Object.assign(anchors, await fetchCertificateAnchors(ids.slice(i, i + 100)));
+    }
+    return certificates.map((certificate) => withAnchor(certificate, anchors[certificate.id] ?? null));
+  } catch (error) {
+    console.warn('Certificate anchors unavailable:', error);
+    return certificates;
+  }
+};
+
+const base64UrlDecode = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const verifyStatementSignature = async (publicJwk: JsonWebKey, statement: AnchorStatement, signature: string) => {
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: publicJwk.kty, crv: publicJwk.crv, x: publicJwk.x, y: publicJwk.y },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(canonicalJSON(statement))
+    );
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+};
+
+/**
+ * Prove a certificate hash is in an anchored batch, without the server: the
+ * proof must lead to the signed root and the statement must carry a valid
+ * signature from a key the issuer published
+ */
+export const verifyCertificateAnchor = async (
+  certHash: string,
+  anchor: CertificateAnchor | undefined
+): Promise<AnchorVerificationStatus> => {
+  if (!anchor) return 'pending';
+
+  const { statement, signature } = anchor;
+  if (anchor.certHash !== certHash || (await merkleRootFromProof(certHash, anchor.proof)) !== statement.root) {
+    return 'invalid_proof';
+  }
+
+  const published = await loadIssuerKeys();
+  if (!published) return 'keys_unavailable';
+
+  const issuerKey = published.keys.find((key) => key.id === statement.keyId);
+  const trusted = !!issuerKey &&
+    issuerKey.issuer === statement.issuer &&
+    !issuerKey.revokedAt &&
+    (!issuerKey.retiredAt || new Date(statement.anchoredAt) < new Date(issuerKey.retiredAt));
+  if (!trusted) return 'untrusted_issuer';
+
+  return (await verifyStatementSignature(issuerKey.publicJwk, statement, signature)) ? 'anchored' : 'invalid_signature';
+};
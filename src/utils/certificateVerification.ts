@@ -0,0 +1,92 @@
+// Verification of QwiXCert certificates through the public certificate-verify
+// edge function. It works from any device without signing in: the server
+// checks the payload hash, the issuer's ES256 signature, that the signing key
+// belongs to the issuer, and the revocation registry.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { RegistryEntry } from '@/types/blockchain';
+
+export type CertificateVerificationStatus =
+  | 'valid'
+  | 'not_found'
+  | 'unsigned'
+  | 'tampered'
+  | 'invalid_signature'
+  | 'untrusted_issuer'
+  | 'revoked';
+
+export type CertificateLookupMethod = 'certHash' | 'uniqueId';
+
+export interface VerifiedCertificate {
+  id: string;
+  certHash: string;
+  examId: string;
+  title: string;
+  score: number;
+  recipientName: string;
+  issuer: string;
+  issuedAt: string;
+}
+
+export interface CertificateVerificationResult {
+  valid: boolean;
+  status: CertificateVerificationStatus;
+  // False when the holder made the certificate private; only valid and status are returned then
+  isPublic?: boolean;
+  checks?: {
+    // The payload still hashes to the certificate hash
+    integrity: boolean;
+    signature: boolean;
+    // The signing key is published for this issuer and was trusted when it signed
+    issuer: boolean;
+    revoked: boolean;
+  };
+  certificate?: VerifiedCertificate;
+  // The signed payload exactly as issued
+  payload?: Record<string, unknown>;
+  signature?: string;
+  issuerKey?: { id: string; issuer: string; algorithm: string; publicJwk: JsonWebKey } | null;
+  // The registry entry, when the certificate is revoked or superseded
+  revocation?: RegistryEntry | null;
+}
+
+export class CertificateVerificationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CertificateVerificationError';
+    this.status = status;
+  }
+}
+
+export const VERIFICATION_STATUS_LABELS: Record<CertificateVerificationStatus, string> = {
+  valid: 'The certificate is authentic and in good standing.',
+  not_found: 'No certificate matches this identifier.',
+  unsigned: 'This certificate was issued without a signature and cannot be verified.',
+  tampered: 'The certificate data no longer matches its hash.',
+  invalid_signature: "The issuer's signature does not match the certificate data.",
+  untrusted_issuer: 'The certificate was not signed by a trusted key of its issuer.',
+  revoked: 'The issuer has revoked this certificate.'
+};
+
+export const verifyIssuedCertificate = async (
+  identifier: string,
+  method: CertificateLookupMethod = 'certHash'
+): Promise<CertificateVerificationResult> => {
+  const { data, error } = await supabase.functions.invoke<CertificateVerificationResult>('certificate-verify', {
+    body: { identifier, method }
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const details = await response.json().catch(() => ({}));
+      throw new CertificateVerificationError(details.error || error.message, response.status);
+    }
+    throw new CertificateVerificationError(error.message, 0);
+  }
+
+  return data as CertificateVerificationResult;
+};
@@ -0,0 +1,185 @@
+// QwiXCert exams graded by the certification-exams edge function. The browser
+// never sees the answer key: it gets questions without answers, submits the
+// chosen options and receives the graded result. Certificates only come from
+// the server, for attempts it passed.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ExamAttempt, ExamQuestion, ExamResult, TestInfo } from '@/types/certification';
+import type { Certificate } from '@/types/blockchain';
+
+export class CertificationExamError extends Error {
+  status: number;
+  // Set when the exam is in its retake cooldown
+  retryAt?: string;
+  // A passed attempt that still needs its certificate issued
+  attemptId?: string;
+
+  constructor(message: string, status: number, details: { retryAt?: string; attemptId?: string } = {}) {
+    super(message);
+    this.name = 'CertificationExamError';
+    this.status = status;
+    this.retryAt = details.retryAt;
+    this.attemptId = details.attemptId;
+  }
+}
+
+const toTestInfo = (row: Tables<'certification_exams'>): TestInfo => ({
+  id: row.id,
+  title: row.title,
+  description: row.description,
+  timeLimit: row.time_limit_minutes,
+  questionCount: row.question_count,
+  topics: row.topics,
+  passingScore: row.passing_score,
+  category: row.category
+});
+
+/**
+ * A server-issued certificate in the shape the vault and certificate cards use.
+ * It is not anchored on a chain, so the chain fields are empty.
+ */
+export const toCertificate = (row: Tables<'issued_certificates'>): Certificate => ({
+  id: row.id,
+  testId: row.exam_id,
+  title: row.title,
+  score: row.score,
+  issuedDate: row.issued_at,
+  isPublic: row.is_public,
+  certHash: row.cert_hash,
+  txHash: '',
+  blockId: 0,
+  issuerName: row.issuer,
+  holderName: row.recipient_name,
+  holderEmail: row.recipient_email,
+  vaultId: '',
+  recipientName: row.recipient_name,
+  recipientEmail: row.recipient_email,
+  uniqueId: row.id,
+  blockchainNetwork: 'Not anchored',
+  issuer: row.issuer,
+  contractAddress: '',
+  smartContractStandard: '',
+  signature: row.signature ?? undefined,
+  issuerKeyId: row.key_id ?? undefined
+});
+
+const invokeExams = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>('certification-exams', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const details = await response.json().catch(() => ({}));
+      throw new CertificationExamError(details.error || error.message, response.status, details);
+    }
+    throw new CertificationExamError(error.message, 0);
+  }
+
+  return data as T;
+};
+
+// ---------- Catalogue ----------
+
+export const fetchExams = async (): Promise<TestInfo[]> => {
+  const { data, error } = await supabase.from('certification_exams').select('*').order('id');
+  if (error) throw new CertificationExamError(error.message, 0);
+  return (data ?? []).map(toTestInfo);
+};
+
+export const fetchExam = async (examId: string): Promise<TestInfo | null> => {
+  const { data, error } = await supabase.from('certification_exams').select('*').eq('id', examId).maybeSingle();
+  if (error) throw new CertificationExamError(error.message, 0);
+  return data ? toTestInfo(data) : null;
+};
+
+// ---------- Attempts ----------
+
+/**
+ * Open an attempt, or pick up the one already running. Throws with `retryAt`
+ * (status 429) during the cooldown after a failed attempt.
+ */
+export const startExam = (examId: string) =>
+  invokeExams<{ attempt: ExamAttempt; questions: ExamQuestion[] }>({ action: 'start', examId });
+
+/**
+ * Submit the chosen option index per question id for grading. For an
+ * adaptive attempt this ends it with the questions answered so far.
+ */
+export const submitExam = (attemptId: string, answers: Record<string, number>) =>
+  invokeExams<ExamResult>({ action: 'submit', attemptId, answers });
+
+export type AdaptiveStep =
+  | { done: false; question: ExamQuestion; answeredCount: number }
+  | { done: true; result: ExamResult };
+
+/**
+ * Answer the current question of an adaptive attempt: returns the next one,
+ * or the result once the ability estimate is precise enough
+ */
+export const answerExamQuestion = (attemptId: string, questionId: string, selectedIndex: number) =>
+  invokeExams<AdaptiveStep>({ action: 'answer', attemptId, questionId, selectedIndex });
+
+/**
+ * Score of one of the user's own attempts, used to resume a passed attempt
+ * whose certificate was never claimed
+ */
+export const fetchAttemptScore = async (attemptId: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('certification_attempts')
+    .select('score')
+    .eq('id', attemptId)
+    .maybeSingle();
+  if (error) throw new CertificationExamError(error.message, 0);
+  return data?.score ?? null;
+};
+
+// ---------- Certificates ----------
+
+/**
+ * The certificate for a passed attempt; asking again returns the same one
+ */
+export const issueExamCertificate = async (attemptId: string, recipientName: string): Promise<Certificate> => {
+  const { certificate } = await invokeExams<{ certificate: Tables<'issued_certificates'> }>({
+    action: 'issue',
+    attemptId,
+    recipientName
+  });
+  return toCertificate(certificate);
+};
+
+/**
+ * The certificate for the user's latest passed attempt at an exam
+ */
+export const issueCertificateForExam = async (examId: string, recipientName: string): Promise<Certificate> => {
+  const { certificate } = await invokeExams<{ certificate: Tables<'issued_certificates'> }>({
+    action: 'issue',
+    examId,
+    recipientName
+  });
+  return toCertificate(certificate);
+};
+
+/**
+ * The signed-in user's server-issued certificates, newest first
+ */
+export const fetchIssuedCertificates = async (): Promise<Certificate[]> => {
+  const { data, error } = await supabase
+    .from('issued_certificates')
+    .select('*')
+    .order('issued_at', { ascending: false });
+  if (error) throw new CertificationExamError(error.message, 0);
+  return (data ?? []).map(toCertificate);
+};
+
+/**
+ * Show or hide a certificate on the holder's public profile
+ */
+export const setCertificateVisibility = async (certificateId: string, isPublic: boolean) => {
+  const { error } = await supabase
+    .from('issued_certificates')
+    .update({ is_public: isPublic })
+    .eq('id', certificateId);
+  if (error) throw new CertificationExamError(error.message, 0);
+};
@@ -0,0 +1,231 @@
+import { canonicalJSON } from './canonicalJson';
+
+// Runs candidate code off the main thread. Every run happens in a dedicated
+// Web Worker, so an infinite loop or runaway allocation only takes down the
+// worker. A worker never sees `window` or the DOM, but it does share the
+// page's origin, so the worker strips its own global of network, storage and
+// messaging APIs before candidate code runs (see codeSandbox.worker.ts).
+// Expected test outputs stay on this side and are compared here, so code in
+// the worker cannot report its own tests as passed.
+
+export const SANDBOX_LANGUAGES = ['javascript', 'typescript', 'python'] as const;
+
+export type SandboxLanguage = typeof SANDBOX_LANGUAGES[number];
+
+export const SANDBOX_LANGUAGE_LABELS: Record<SandboxLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python'
+};
+
+export interface SandboxLimits {
+  // Wall clock for the candidate's code and all test cases, excluding runtime start-up
+  timeoutMs: number;
+  // Worker heap (JS) or interpreter memory (Python) before the run is stopped
+  memoryLimitMb: number;
+  // Combined stdout and stderr
+  maxOutputBytes: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 5000,
+  memoryLimitMb: 128,
+  maxOutputBytes: 64 * 1024
+};
+
+// Loading the Python interpreter downloads several MB on the first run
+const RUNTIME_LOAD_TIMEOUT_MS = 60000;
+
+export type SandboxStatus = 'ok' | 'error' | 'timeout' | 'memory-limit' | 'output-limit';
+
+export interface SandboxTestCase {
+  // Arguments passed to the entry point
+  args: unknown[];
+  // JSON of the expected return value; never sent to the worker
+  expected: string;
+}
+
+export interface SandboxRunRequest {
+  language: SandboxLanguage;
+  code: string;
+  // Function called with each test case's arguments
+  entryPoint?: string;
+  tests?: SandboxTestCase[];
+  limits?: Partial<SandboxLimits>;
+}
+
+export interface SandboxTestResult {
+  index: number;
+  passed: boolean;
+  // JSON of the returned value, or a printable form when it is not serializable
+  actual?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface SandboxResult {
+  status: SandboxStatus;
+  stdout: string;
+  stderr: string;
+  error?: string;
+  tests: SandboxTestResult[];
+  // Time spent running candidate code, excluding runtime start-up
+  durationMs: number;
+}
+
+// Protocol between this module and codeSandbox.worker.ts
+
+export interface SandboxWorkerRequest {
+  id: number;
+  language: SandboxLanguage;
+  code: string;
+  entryPoint?: string;
+  tests: { args: unknown[] }[];
+  memoryLimitMb: number;
+}
+
+export type SandboxWorkerMessage =
+  | { id: number; type: 'started' }
+  | { id: number; type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+  | { id: number; type: 'test'; index: number; actual?: string; error?: string; durationMs: number }
+  | { id: number; type: 'done'; status: 'ok' | 'error' | 'memory-limit'; error?: string };
+
+const createWorker = () =>
+  new Worker(new URL('./codeSandbox.worker.ts', import.meta.url), { type: 'module' });
+
+// The Python interpreter is expensive to start, so its worker is kept between
+// runs (each run gets a fresh namespace) until a run has to be killed.
+// JavaScript and TypeScript get a new worker every time.
+let pythonWorker: Worker | null = null;
+let pythonBusy = false;
+let nextRunId = 1;
+
+const acquireWorker = (language: SandboxLanguage): Worker => {
+  if (language !== 'python') return createWorker();
+  if (pythonWorker && pythonBusy) {
+    pythonWorker.terminate();
+    pythonWorker = null;
+  }
+  pythonWorker = pythonWorker ?? createWorker();
+  pythonBusy = true;
+  return pythonWorker;
+};
+
+const releaseWorker = (language: SandboxLanguage, worker: Worker, killed: boolean) => {
+  if (language !== 'python') {
+    worker.terminate();
+    return;
+  }
+  if (worker !== pythonWorker) return;
+  pythonBusy = false;
+  if (killed) {
+    worker.terminate();
+    pythonWorker = null;
+  }
+};
+
+const matchesExpected = (actual: string | undefined, expected: string): boolean => {
+  if (actual === undefined) return false;
+  try {
+    return canonicalJSON(JSON.parse(actual)) === canonicalJSON(JSON.parse(expected));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Run code in a sandboxed worker and, when an entry point is given, call it
+ * once per test case. Never rejects: failures are reported through `status`.
+ */
+export const runInSandbox = (request: SandboxRunRequest): Promise<SandboxResult> => {
+  const limits = { ...DEFAULT_SANDBOX_LIMITS, ...request.limits };
+  const tests = request.tests ?? [];
+  const id = nextRunId++;
+  const worker = acquireWorker(request.language);
+
+  return new Promise(resolve => {
+    const result: SandboxResult = { status: 'ok', stdout: '', stderr: '', tests: [], durationMs: 0 };
+    let outputBytes = 0;
+    let startedAt = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    let settled = false;
+
+    const finish = (status: SandboxStatus, error?: string, killed = status !== 'ok' && status !== 'error') => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      releaseWorker(request.language, worker, killed);
+
+      result.status = status;
+      result.error = error;
+      result.durationMs = startedAt ? Math.round(performance.now() - startedAt) : 0;
+      resolve(result);
+    };
+
+    const appendOutput = (stream: 'stdout' | 'stderr', text: string) => {
+      const remaining = limits.maxOutputBytes - outputBytes;
+      outputBytes += text.length;
+      result[stream] += text.length > remaining ? text.slice(0, Math.max(remaining, 0)) : text;
+      if (outputBytes > limits.maxOutputBytes) {
+        finish('output-limit', `Output exceeded ${Math.round(limits.maxOutputBytes / 1024)} KB`);
+      }
+    };
+
+    function handleMessage(event: MessageEvent<SandboxWorkerMessage>) {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case 'started':
+          startedAt = performance.now();
+          clearTimeout(timer);
+          timer = setTimeout(
+            () => finish('timeout', `Execution timed out after ${limits.timeoutMs / 1000}s`),
+            limits.timeoutMs
+          );
+          break;
+        case 'output':
+          appendOutput(message.stream, message.text);
+          break;
+        case 'test':
+          result.tests.push({
+            index: message.index,
+            passed: !message.error && matchesExpected(message.actual, tests[message.index]?.expected),
+            actual: message.actual,
+            error: message.error,
+            durationMs: message.durationMs
+          });
+          break;
+        case 'done':
+          finish(message.status, message.error);
+          break;
+      }
+    }
+
+    // Uncaught failures inside the worker itself, typically the engine giving up on memory
+    function handleError(event: ErrorEvent) {
+      event.preventDefault();
+      const message = event.message || 'The sandbox crashed';
+      finish(/memory|allocation/i.test(message) ? 'memory-limit' : 'error', message, true);
+    }
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    timer = setTimeout(
+      () => finish('timeout', `The ${SANDBOX_LANGUAGE_LABELS[request.language]} runtime did not start in time`),
+      RUNTIME_LOAD_TIMEOUT_MS
+    );
+
+    const message: SandboxWorkerRequest = {
+      id,
+      language: request.language,
+      code: request.code,
+      entryPoint: request.entryPoint,
+      tests: tests.map(test => ({ args: test.args })),
+      memoryLimitMb: limits.memoryLimitMb
+    };
+    worker.postMessage(message);
+  });
+};
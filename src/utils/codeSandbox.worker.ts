@@ -0,0 +1,325 @@
+import { transform } from 'sucrase';
+import type { SandboxWorkerMessage, SandboxWorkerRequest } from './codeSandbox';
+
+// Worker side of codeSandbox.ts. Runs one request at a time and reports
+// output, per-test return values and the final status back to the page.
+//
+// Candidate code can always reach the worker's real global object (e.g.
+// `Function("return this")()`, or `import js` in Python), so hiding names from
+// it isolates nothing. Instead lockDown() strips the global itself before the
+// first candidate code runs: whatever reaches it finds no network, no
+// same-origin storage and no way to message the page or spawn a fresh worker.
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/';
+
+// Minimal surface of the Pyodide API used here
+interface PythonNamespace {
+  get(name: string): unknown;
+  set(name: string, value: unknown): void;
+  destroy(): void;
+}
+
+interface PyodideRuntime {
+  runPython(code: string, options?: { globals?: PythonNamespace }): unknown;
+  runPythonAsync(code: string, options?: { globals?: PythonNamespace }): Promise<unknown>;
+  setStdout(options: { batched: (line: string) => void }): void;
+  setStderr(options: { batched: (line: string) => void }): void;
+  globals: { get(name: string): () => PythonNamespace };
+  _module: { HEAP8: Int8Array };
+}
+
+const scope = self as unknown as Worker;
+// Captured before lockDown() removes postMessage from the worker
+const postToPage = scope.postMessage.bind(scope);
+const post = (message: SandboxWorkerMessage) => postToPage(message);
+// Candidate JavaScript is compiled with this once lockDown() has replaced Function
+const compileFunction = Function;
+
+let currentRunId = 0;
+
+class MemoryLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryLimitError';
+  }
+}
+
+const formatError = (error: unknown): string =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+const isMemoryError = (error: unknown): boolean =>
+  error instanceof MemoryLimitError ||
+  (error instanceof RangeError && /array length|allocation failed|out of memory/i.test(error.message));
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  try {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// JSON when possible, so the page can compare it with the expected output
+const serializeResult = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const emit = (stream: 'stdout' | 'stderr', text: string) =>
+  post({ id: currentRunId, type: 'output', stream, text });
+
+// ---------- Lockdown ----------
+
+// Worker APIs that reach the network, same-origin storage or other browsing
+// contexts, and the worker's own messaging
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'indexedDB',
+  'caches',
+  'cookieStore',
+  'importScripts',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+  'postMessage',
+  'close',
+  'onmessage'
+];
+
+let lockedDown = false;
+
+// Pins a property to undefined on the object and everything it inherits it from
+const removeProperty = (target: object, name: string) => {
+  for (let owner: object | null = target; owner; owner = Object.getPrototypeOf(owner)) {
+    if (!Object.prototype.hasOwnProperty.call(owner, name)) continue;
+    try {
+      Object.defineProperty(owner, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Non-configurable on a prototype: shadowed on the target below
+    }
+  }
+  if ((target as Record<string, unknown>)[name] !== undefined) {
+    Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false });
+  }
+};
+
+const blockedCodeGeneration = function () {
+  throw new EvalError('Code generation from strings is disabled in the sandbox');
+};
+// `instanceof Function` keeps working for candidate code
+blockedCodeGeneration.prototype = Function.prototype;
+
+/**
+ * Strip the worker down before candidate code first runs; runtimes have to
+ * be loaded by then, since fetch goes too. Applies for the worker's lifetime.
+ */
+const lockDown = () => {
+  if (lockedDown) return;
+  lockedDown = true;
+
+  for (const name of BLOCKED_GLOBALS) removeProperty(self, name);
+  // navigator.storage opens the origin-private file system
+  removeProperty(navigator, 'storage');
+
+  // The constructors behind every kind of function, so no function hands
+  // candidate code a way to compile new code in the global scope
+  const functionKinds = [function () {}, async function () {}, function* () {}, async function* () {}];
+  for (const fn of functionKinds) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', {
+      value: blockedCodeGeneration,
+      writable: false,
+      configurable: false
+    });
+  }
+  for (const name of ['Function', 'eval']) {
+    Object.defineProperty(self, name, { value: blockedCodeGeneration, writable: false, configurable: false });
+  }
+};
+
+// ---------- JavaScript / TypeScript ----------
+
+// Chromium exposes the heap size; elsewhere only allocation failures are caught
+const usedHeapMb = (): number | null => {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize / (1024 * 1024) : null;
+};
+
+const runJavaScript = async (request: SandboxWorkerRequest, source: string) => {
+  const checkMemory = () => {
+    const used = usedHeapMb();
+    if (used !== null && used > request.memoryLimitMb) {
+      throw new MemoryLimitError(`Memory limit of ${request.memoryLimitMb} MB exceeded`);
+    }
+  };
+
+  const write = (stream: 'stdout' | 'stderr') => (...args: unknown[]) => {
+    emit(stream, `${args.map(formatValue).join(' ')}\n`);
+    checkMemory();
+  };
+  const sandboxConsole = {
+    log: write('stdout'),
+    info: write('stdout'),
+    debug: write('stdout'),
+    warn: write('stderr'),
+    error: write('stderr')
+  };
+
+  const entryPoint = request.entryPoint && /^[A-Za-z_$][\w$]*$/.test(request.entryPoint)
+    ? request.entryPoint
+    : null;
+  const body = `"use strict";\n${source}\n;return ${
+    entryPoint ? `typeof ${entryPoint} === "function" ? ${entryPoint} : undefined` : 'undefined'
+  };`;
+
+  const program = compileFunction('console', body);
+  lockDown();
+  post({ id: request.id, type: 'started' });
+  const entry = program(sandboxConsole);
+  checkMemory();
+
+  if (request.tests.length === 0) return;
+  if (typeof entry !== 'function') {
+    throw new Error(`Function ${request.entryPoint} is not defined`);
+  }
+
+  for (const [index, test] of request.tests.entries()) {
+    const started = performance.now();
+    try {
+      const value = await entry(...test.args);
+      checkMemory();
+      post({ id: request.id, type: 'test', index, actual: serializeResult(value), durationMs: Math.round(performance.now() - started) });
+    } catch (error) {
+      if (isMemoryError(error)) throw error;
+      post({ id: request.id, type: 'test', index, error: formatError(error), durationMs: Math.round(performance.now() - started) });
+    }
+  }
+};
+
+const transpileTypeScript = (code: string): string =>
+  transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+
+// ---------- Python ----------
+
+let pyodidePromise: Promise<PyodideRuntime> | null = null;
+
+const loadPython = (): Promise<PyodideRuntime> => {
+  if (!pyodidePromise) {
+    pyodidePromise = import(/* @vite-ignore */ `${PYODIDE_URL}pyodide.mjs`)
+      .then(({ loadPyodide }) => loadPyodide({ indexURL: PYODIDE_URL }) as Promise<PyodideRuntime>)
+      .then(pyodide => {
+        pyodide.setStdout({ batched: line => emit('stdout', `${line}\n`) });
+        pyodide.setStderr({ batched: line => emit('stderr', `${line}\n`) });
+        return pyodide;
+      })
+      .catch(error => {
+        pyodidePromise = null;
+        throw error;
+      });
+  }
+  return pyodidePromise;
+};
+
+const PYTHON_CALL = `
+import json
+__sandbox_result = json.dumps(globals()[__sandbox_entry](*json.loads(__sandbox_args)), default=repr)
+`;
+
+// Python tracebacks are long; the last line names the actual error
+const pythonErrorSummary = (error: unknown): string => {
+  const lines = (error instanceof Error ? error.message : String(error)).trim().split('\n');
+  return lines[lines.length - 1];
+};
+
+const isPythonMemoryError = (error: unknown): boolean =>
+  error instanceof MemoryLimitError || /^MemoryError\b/.test(pythonErrorSummary(error));
+
+const runPython = async (request: SandboxWorkerRequest) => {
+  const pyodide = await loadPython();
+  lockDown();
+  const namespace = pyodide.globals.get('dict')();
+  // WebAssembly memory only grows, so measure relative to where this run started
+  const heapAtStart = pyodide._module.HEAP8.length;
+  const checkMemory = () => {
+    const grownMb = (pyodide._module.HEAP8.length - heapAtStart) / (1024 * 1024);
+    if (grownMb > request.memoryLimitMb) {
+      throw new MemoryLimitError(`Memory limit of ${request.memoryLimitMb} MB exceeded`);
+    }
+  };
+
+  try {
+    post({ id: request.id, type: 'started' });
+    try {
+      await pyodide.runPythonAsync(request.code, { globals: namespace });
+    } catch (error) {
+      if (!isPythonMemoryError(error)) emit('stderr', `${error instanceof Error ? error.message : error}\n`);
+      throw error;
+    }
+    checkMemory();
+
+    if (request.tests.length === 0) return;
+    namespace.set('__sandbox_entry', request.entryPoint ?? '');
+    if (!pyodide.runPython('callable(globals().get(__sandbox_entry))', { globals: namespace })) {
+      throw new Error(`Function ${request.entryPoint} is not defined`);
+    }
+
+    for (const [index, test] of request.tests.entries()) {
+      const started = performance.now();
+      try {
+        namespace.set('__sandbox_args', JSON.stringify(test.args));
+        pyodide.runPython(PYTHON_CALL, { globals: namespace });
+        checkMemory();
+        post({ id: request.id, type: 'test', index, actual: namespace.get('__sandbox_result') as string, durationMs: Math.round(performance.now() - started) });
+      } catch (error) {
+        if (isPythonMemoryError(error)) throw error;
+        post({ id: request.id, type: 'test', index, error: pythonErrorSummary(error), durationMs: Math.round(performance.now() - started) });
+      }
+    }
+  } finally {
+    namespace.destroy();
+  }
+};
+
+// ---------- Dispatch ----------
+
+scope.addEventListener('message', async (event: MessageEvent<SandboxWorkerRequest>) => {
+  const request = event.data;
+  currentRunId = request.id;
+
+  try {
+    if (request.language === 'python') {
+      await runPython(request);
+    } else {
+      let source = request.code;
+      if (request.language === 'typescript') {
+        try {
+          source = transpileTypeScript(request.code);
+        } catch (error) {
+          post({ id: request.id, type: 'started' });
+          post({ id: request.id, type: 'done', status: 'error', error: `TypeScript: ${error instanceof Error ? error.message : error}` });
+          return;
+        }
+      }
+      await runJavaScript(request, source);
+    }
+    post({ id: request.id, type: 'done', status: 'ok' });
+  } catch (error) {
+    if (request.language === 'python' ? isPythonMemoryError(error) : isMemoryError(error)) {
+      post({ id: request.id, type: 'done', status: 'memory-limit', error: error instanceof MemoryLimitError ? error.message : formatError(error) });
+    } else {
+      post({
+        id: request.id,
+        type: 'done',
+        status: 'error',
+        error: request.language === 'python' ? pythonErrorSummary(error) : formatError(error)
+      });
+    }
+  }
+});
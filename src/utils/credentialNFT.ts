@@ -0,0 +1,400 @@
+import {
+  BrowserProvider,
+  Contract,
+  ContractFactory,
+  EventLog,
+  JsonRpcProvider,
+  Network,
+  ZeroAddress,
+  getAddress,
+  isError,
+  type Signer
+} from 'ethers';
+import { CREDENTIAL_NFT_ABI, CREDENTIAL_NFT_BYTECODE } from '@/contracts/credentialNFT';
+import type { CredentialHistoryEvent, OnChainCredential } from '@/types/blockchain';
+
+// Client for the CredentialNFT contract (contracts/CredentialNFT.sol): mints
+// vault documents as ERC-721 tokens and reads them back for verification.
+//
+// In development it talks to a local dev chain (anvil, `hardhat node` or
+// ganache on http://127.0.0.1:8545), signs with the node's first unlocked
+// account and deploys the contract there on first mint. In production
+// VITE_CREDENTIAL_CHAIN_RPC_URL and VITE_CREDENTIAL_NFT_ADDRESS (plus
+// VITE_CREDENTIAL_NFT_DEPLOY_BLOCK, where history starts) point at the deployed
+// contract and the user's browser wallet signs; that wallet has to be one of
+// the contract's minters. VITE_CREDENTIAL_TRUSTED_ISSUERS lists the minter
+// addresses whose tokens count for verification (on a dev chain, the node's
+// first account). VITE_CREDENTIAL_CHAIN_MODE=simulated keeps the old fake
+// mint for demos without a chain, and so do production builds without an RPC
+// URL and dev builds with no node running.
+
+export type CredentialChainMode = 'chain' | 'simulated';
+
+const CONFIGURED_RPC_URL = import.meta.env.VITE_CREDENTIAL_CHAIN_RPC_URL as string | undefined;
+
+export const CREDENTIAL_CHAIN_MODE: CredentialChainMode =
+  import.meta.env.VITE_CREDENTIAL_CHAIN_MODE === 'simulated' || (!CONFIGURED_RPC_URL && !import.meta.env.DEV)
+    ? 'simulated'
+    : 'chain';
+
+const DEV_RPC_URL = 'http://127.0.0.1:8545';
+const RPC_TIMEOUT_MS = 5000;
+
+export interface CredentialNFTConfig {
+  rpcUrl: string;
+  // The deployed contract; without one, the contract is deployed on first mint
+  // when deployIfMissing is set (dev chains) and reads find nothing
+  contractAddress?: string;
+  deployBlock?: number;
+  deployIfMissing?: boolean;
+  // Signs mints; defaults to the RPC node's first unlocked account
+  getSigner?: () => Promise<Signer>;
+  // Issuers whose tokens verify; without any, only the default signer's
+  // tokens do, and only on dev chains (deployIfMissing)
+  trustedIssuers?: string[];
+}
+
+export interface MintedCredential extends OnChainCredential {
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface CredentialNFTClient {
+  mint: (to: string, credentialId: string, tokenURI: string) => Promise<MintedCredential>;
+  // The token minted for a credential id, or null if there is none
+  lookupCredential: (credentialId: string) => Promise<OnChainCredential | null>;
+  getTokenURI: (tokenId: number) => Promise<string>;
+  isOwner: (tokenId: number, address: string) => Promise<boolean>;
+  getHistory: (tokenId: number) => Promise<CredentialHistoryEvent[]>;
+  isTrustedIssuer: (address: string) => Promise<boolean>;
+}
+
+export type CredentialChainErrorCode =
+  | 'not_configured'
+  | 'unavailable'
+  | 'wrong_network'
+  | 'already_minted'
+  | 'not_minter'
+  | 'not_found'
+  | 'rejected';
+
+export class CredentialChainError extends Error {
+  code: CredentialChainErrorCode;
+
+  constructor(message: string, code: CredentialChainErrorCode) {
+    super(message);
+    this.name = 'CredentialChainError';
+    this.code = code;
+  }
+}
+
+interface Deployment {
+  address: string;
+  deployBlock: number;
+}
+
+// Versioned with the contract: addresses of older builds aren't reused
+const deploymentKey = (chainId: number) => `qwix_credential_nft_v2_${chainId}`;
+
+const loadDeployment = (chainId: number): Deployment | null => {
+  try {
+    const stored = globalThis.localStorage?.getItem(deploymentKey(chainId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveDeployment = (chainId: number, deployment: Deployment) => {
+  try {
+    globalThis.localStorage?.setItem(deploymentKey(chainId), JSON.stringify(deployment));
+  } catch {
+    // Only costs a redeploy on the next page load
+  }
+};
+
+// ethers retries an unreachable RPC forever, so ask for the chain id once
+// with a timeout and hand the provider a fixed network
+const probeChainId = async (rpcUrl: string) => {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      signal: AbortSignal.timeout(RPC_TIMEOUT_MS)
+    });
+    const { result } = await response.json();
+    return Number(BigInt(result));
+  } catch (error) {
+    console.error('Credential chain unreachable:', error);
+    throw new CredentialChainError(`The credential chain at ${rpcUrl} is not reachable`, 'unavailable');
+  }
+};
+
+const sameAddress = (a: string, b: string) => {
+  try {
+    return getAddress(a) === getAddress(b);
+  } catch {
+    return false;
+  }
+};
+
+const revertReason = (error: unknown) =>
+  isError(error, 'CALL_EXCEPTION') ? error.reason ?? '' : '';
+
+export const createCredentialNFTClient = (config: CredentialNFTConfig): CredentialNFTClient => {
+  let connection: Promise<{ provider: JsonRpcProvider; chainId: number }> | null = null;
+  let deployment: Deployment | null = config.contractAddress
+    ? { address: config.contractAddress, deployBlock: config.deployBlock ?? 0 }
+    : null;
+
+  const connect = () => {
+    if (!connection) {
+      connection = probeChainId(config.rpcUrl).then((chainId) => {
+        const network = Network.from(chainId);
+        return { provider: new JsonRpcProvider(config.rpcUrl, network, { staticNetwork: network }), chainId };
+      });
+      // Try again on the next call once the node is up
+      connection.catch(() => { connection = null; });
+    }
+    return connection;
+  };
+
+  // The contract to read from; null on a dev chain it hasn't been deployed to yet
+  const resolveDeployment = async () => {
+    const { provider, chainId } = await connect();
+    if (deployment) return deployment;
+    if (!config.deployIfMissing) {
+      throw new CredentialChainError('No credential contract address is configured', 'not_configured');
+    }
+
+    // Dev chains restart empty, so a remembered address may hold no code
+    const stored = loadDeployment(chainId);
+    if (stored && (await provider.getCode(stored.address)) !== '0x') {
+      deployment = stored;
+    }
+    return deployment;
+  };
+
+  const readContract = async () => {
+    const resolved = await resolveDeployment();
+    if (!resolved) return null;
+    const { provider } = await connect();
+    return new Contract(resolved.address, CREDENTIAL_NFT_ABI, provider);
+  };
+
+  const signer = async () => {
+    const { provider, chainId } = await connect();
+    const selected = config.getSigner ? await config.getSigner() : await provider.getSigner();
+    const signerNetwork = await selected.provider?.getNetwork();
+    if (signerNetwork && Number(signerNetwork.chainId) !== chainId) {
+      throw new CredentialChainError(`Switch your wallet to chain ${chainId} to mint credentials`, 'wrong_network');
+    }
+    return selected;
+  };
+
+  const writeContract = async (minter: Signer) => {
+    let resolved = await resolveDeployment();
+    if (!resolved) {
+      const { chainId } = await connect();
+      const factory = new ContractFactory(CREDENTIAL_NFT_ABI, CREDENTIAL_NFT_BYTECODE, minter);
+      const deployed = await factory.deploy();
+      const receipt = await deployed.deploymentTransaction()?.wait();
+      resolved = { address: await deployed.getAddress(), deployBlock: receipt?.blockNumber ?? 0 };
+      deployment = resolved;
+      saveDeployment(chainId, resolved);
+    }
+    return new Contract(resolved.address, CREDENTIAL_NFT_ABI, minter);
+  };
+
+  const describeToken = async (contract: Contract, tokenId: number): Promise<OnChainCredential> => {
+    const { chainId } = await connect();
+    const [owner, issuer, tokenURI] = await Promise.all([
+      contract.ownerOf(tokenId),
+      contract.issuerOf(tokenId),
+      contract.tokenURI(tokenId)
+    ]);
+    return {
+      tokenId,
+      contractAddress: await contract.getAddress(),
+      chainId,
+      owner,
+      issuer,
+      tokenURI
+    };
+  };
+
+  const findTokenId = async (contract: Contract, credentialId: string) => {
+    try {
+      return Number(await contract.tokenOfCredential(credentialId));
+    } catch (error) {
+      if (revertReason(error).includes('unknown credential')) return null;
+      throw error;
+    }
+  };
+
+  const existingContract = async () => {
+    const contract = await readContract();
+    if (!contract) {
+      throw new CredentialChainError('The credential contract has not been deployed yet', 'not_found');
+    }
+    return contract;
+  };
+
+  const callToken = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+      return await call();
+    } catch (error) {
+      if (revertReason(error).includes('nonexistent token')) {
+        throw new CredentialChainError('No credential token with this id', 'not_found');
+      }
+      throw error;
+    }
+  };
+
+  return {
+    mint: async (to, credentialId, tokenURI) => {
+      const minter = await signer();
+      const contract = await writeContract(minter);
+      // Not every node returns the revert reason when estimating gas
+      if (!(await contract.isMinter(await minter.getAddress()))) {
+        throw new CredentialChainError('This wallet is not allowed to mint credentials', 'not_minter');
+      }
+      if (await findTokenId(contract, credentialId) !== null) {
+        throw new CredentialChainError('This document has already been minted', 'already_minted');
+      }
+
+      try {
+        const tx = await contract.mint(to, credentialId, tokenURI);
+        const receipt = await tx.wait();
+        const minted = receipt.logs
+          .map((log) => contract.interface.parseLog(log))
+          .find((event) => event?.name === 'CredentialMinted');
+
+        return {
+          ...(await describeToken(contract, Number(minted.args.tokenId))),
+          txHash: receipt.hash,
+          blockNumber: receipt.blockNumber
+        };
+      } catch (error) {
+        if (revertReason(error).includes('already minted')) {
+          throw new CredentialChainError('This document has already been minted', 'already_minted');
+        }
+        if (revertReason(error).includes('not a minter')) {
+          throw new CredentialChainError('This wallet is not allowed to mint credentials', 'not_minter');
+        }
+        if (isError(error, 'ACTION_REJECTED')) {
+          throw new CredentialChainError('The mint was rejected in your wallet', 'rejected');
+        }
+        throw error;
+      }
+    },
+
+    lookupCredential: async (credentialId) => {
+      const contract = await readContract();
+      if (!contract) return null;
+
+      const tokenId = await findTokenId(contract, credentialId);
+      return tokenId === null ? null : describeToken(contract, tokenId);
+    },
+
+    getTokenURI: async (tokenId) => {
+      const contract = await existingContract();
+      return callToken(() => contract.tokenURI(tokenId));
+    },
+
+    isOwner: async (tokenId, address) => {
+      const contract = await existingContract();
+      return sameAddress(await callToken(() => contract.ownerOf(tokenId)), address);
+    },
+
+    // Rebuilt from the Transfer events for the token, oldest first
+    getHistory: async (tokenId) => {
+      const contract = await existingContract();
+      const { provider } = await connect();
+      const logs = await contract.queryFilter(contract.filters.Transfer(null, null, tokenId), deployment.deployBlock);
+      const blocks = new Map<number, string>();
+
+      await Promise.all([...new Set(logs.map((log) => log.blockNumber))].map(async (blockNumber) => {
+        const block = await provider.getBlock(blockNumber);
+        if (block) blocks.set(blockNumber, new Date(block.timestamp * 1000).toISOString());
+      }));
+
+      return logs
+        .filter((log): log is EventLog => log instanceof EventLog)
+        .map((log) => {
+          const [from, to] = log.args;
+          const minted = from === ZeroAddress;
+          return {
+            type: minted ? 'minted' as const : 'transferred' as const,
+            from: minted ? null : from,
+            to,
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+            timestamp: blocks.get(log.blockNumber) ?? null
+          };
+        });
+    },
+
+    isTrustedIssuer: async (address) => {
+      if (config.trustedIssuers?.length) {
+        return config.trustedIssuers.some((issuer) => sameAddress(issuer, address));
+      }
+      if (!config.deployIfMissing || config.getSigner) return false;
+
+      const { provider } = await connect();
+      return sameAddress(await (await provider.getSigner()).getAddress(), address);
+    }
+  };
+};
+
+const browserSigner = async () => {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    throw new CredentialChainError('Connect a browser wallet to mint credentials', 'not_configured');
+  }
+  return new BrowserProvider(window.ethereum).getSigner();
+};
+
+let defaultClient: CredentialNFTClient | null = null;
+
+/**
+ * The client for this build's chain (see the top of this file)
+ */
+export const getCredentialNFTClient = (): CredentialNFTClient => {
+  if (defaultClient) return defaultClient;
+
+  const rpcUrl = CONFIGURED_RPC_URL || (import.meta.env.DEV ? DEV_RPC_URL : undefined);
+  if (!rpcUrl) {
+    throw new CredentialChainError('No credential chain RPC URL is configured', 'not_configured');
+  }
+
+  const contractAddress = import.meta.env.VITE_CREDENTIAL_NFT_ADDRESS as string | undefined;
+  const trustedIssuers = (import.meta.env.VITE_CREDENTIAL_TRUSTED_ISSUERS as string | undefined)
+    ?.split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  defaultClient = createCredentialNFTClient({
+    rpcUrl,
+    contractAddress,
+    deployBlock: Number(import.meta.env.VITE_CREDENTIAL_NFT_DEPLOY_BLOCK ?? 0) || 0,
+    deployIfMissing: import.meta.env.DEV,
+    getSigner: import.meta.env.DEV ? undefined : browserSigner,
+    trustedIssuers
+  });
+  return defaultClient;
+};
+
+/**
+ * Whether a chain error only means there is no chain to use: none is
+ * configured, or it can't be reached. Verification then rests on the registry
+ * and the vault copies alone.
+ */
+export const isChainUnavailable = (error: unknown) =>
+  error instanceof CredentialChainError && (error.code === 'not_configured' || error.code === 'unavailable');
+
+/**
+ * Whether a chain error means the default dev node isn't running, in which
+ * case dev builds fall back to the simulated mint
+ */
+export const isDevChainMissing = (error: unknown) =>
+  !CONFIGURED_RPC_URL && error instanceof CredentialChainError && error.code === 'unavailable';
@@ -420,11 +420,16 @@ export class EnterpriseTTS {
       };
 
       utterance.onerror = (event) => {
-        console.error('TTS Error:', event);
         if (this.boundaryFallbackTimer) {
           clearInterval(this.boundaryFallbackTimer);
           this.boundaryFallbackTimer = null;
         }
+        // stop() cancels the utterance on purpose, e.g. when the candidate barges in
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          resolve();
+          return;
+        }
+        console.error('TTS Error:', event);
         reject(new Error(`TTS error: ${event.error}`));
       };
 
@@ -449,7 +454,10 @@ export class EnterpriseTTS {
       window.speechSynthesis.cancel();
     }
     this.isSpeaking = false;
+    // Settle queued callers so nobody keeps awaiting speech that will never play
+    const dropped = this.speechQueue;
     this.speechQueue = [];
+    dropped.forEach(({ resolve }) => resolve());
   }
 
   isCurrentlySpeaking(): boolean {
@@ -556,6 +564,30 @@ export class EnterpriseSpeechManager {
     await this.tts.speak(text, options);
   }
 
+  /**
+   * Speak sentences as they arrive from a streaming response. Each sentence is
+   * forwarded to the avatar right before its own utterance; aborting `signal`
+   * cuts the current sentence off and drops the rest.
+   */
+  async speakStream(sentences: AsyncIterable<string>, options: Record<string, unknown> = {}, signal?: AbortSignal): Promise<void> {
+    const onAbort = () => this.stopSpeaking();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let speaking: Promise<void> = Promise.resolve();
+
+    try {
+      for await (const sentence of sentences) {
+        if (signal?.aborted) break;
+        speaking = speaking.then(() => {
+          if (signal?.aborted) return;
+          return this.speak(sentence, options).catch(error => console.error('🗣️ Error speaking sentence:', error));
+        });
+      }
+      await speaking;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
   stopSpeaking(): void {
     this.tts.stop();
   }
@@ -1,11 +1,11 @@
 
 import { InterviewSettings } from '@/components/interview/InterviewSetup';
 import { InterviewMessage, InterviewFeedback, InterviewQuestion } from '@/types/interview';
+import { callUnifiedAI } from '@/utils/ai/unifiedAIService';
 
 // Analyze resume and generate questions based on the resume and job details
 export const analyzeResumeAndGenerateQuestions = async (
-  settings: InterviewSettings,
-  apiKey: string
+  settings: InterviewSettings
 ): Promise<InterviewQuestion[]> => {
   try {
     console.log('Analyzing resume and generating questions...');
@@ -49,36 +49,11 @@ export const analyzeResumeAndGenerateQuestions = async (
     6. Do not include any other text, explanations, or numbering.
     `;
     
-    // Make API call to Gemini
-    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': apiKey,
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
-    
-    const data = await response.json();
+    // Make API call to Gemini through the ai-gateway
+    const response = await callUnifiedAI(prompt, 'gemini', { feature: 'interview' });
     
     // Extract the questions from the response
-    const text = data.candidates[0].content.parts[0].text.trim();
+    const text = response.text().trim();
     
     // Split by newlines and filter out empty strings
     const questionsText = text.split('\n').filter(q => q.trim() !== '');
@@ -161,8 +136,7 @@ export const evaluateAnswer = async (
   question: string,
   answer: string,
   jobTitle: string,
-  jobLevel: string,
-  apiKey: string
+  jobLevel: string
 ): Promise<string> => {
   try {
     console.log('Evaluating answer...');
@@ -186,34 +160,9 @@ export const evaluateAnswer = async (
     Format your response with markdown for better readability (use bold, bullets, etc).
     `;
     
-    // Make API call to Gemini
-    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': apiKey,
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
-    
-    const data = await response.json();
-    const feedback = data.candidates[0].content.parts[0].text.trim();
+    // Make API call to Gemini through the ai-gateway
+    const response = await callUnifiedAI(prompt, 'gemini', { feature: 'interview' });
+    const feedback = response.text().trim();
     
     return feedback;
     
@@ -229,8 +178,7 @@ export const evaluateAnswer = async (
 export const generateInterviewSummary = async (
   messages: InterviewMessage[],
   jobTitle: string,
-  jobLevel: string,
-  apiKey: string
+  jobLevel: string
 ): Promise<string> => {
   try {
     console.log('Generating interview summary...');
@@ -284,34 +232,9 @@ export const generateInterviewSummary = async (
     Format your response in markdown for better readability. Be specific, constructive, and actionable in your feedback.
     `;
     
-    // Make API call to Gemini
-    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': apiKey,
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
-    
-    const data = await response.json();
-    const summary = data.candidates[0].content.parts[0].text.trim();
+    // Make API call to Gemini through the ai-gateway
+    const response = await callUnifiedAI(prompt, 'gemini', { feature: 'interview' });
+    const summary = response.text().trim();
     
     return summary;
     
@@ -361,8 +284,7 @@ export const generateInterviewFeedback = async (
   messages: InterviewMessage[],
   voiceAnalysis: any,
   postureAnalysis: any,
-  settings: InterviewSettings,
-  apiKey: string
+  settings: InterviewSettings
 ): Promise<InterviewFeedback> => {
   try {
     // This is a mock implementation that would normally call an AI API
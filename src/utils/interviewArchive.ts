@@ -0,0 +1,358 @@
+import { z } from 'zod';
+import { sha256 } from 'js-sha256';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { canonicalJSON } from './canonicalJson';
+import type { InterviewSession } from './interviewDataStorage';
+
+// Interview archive format
+//
+// An archive is a single JSON document, or a zip holding that document as
+// `interview.json` next to the media files it lists under `media/`:
+//
+//   {
+//     "format": "interview-archive",
+//     "version": 2,
+//     "exportedAt": "2026-10-19T09:30:00.000Z",
+//     "session": { ...InterviewSession, every Date as an ISO 8601 string },
+//     "media": [
+//       { "path": "media/answer-1.webm", "type": "video/webm", "size": 48213, "sha256": "<hex>" }
+//     ],
+//     "integrity": { "algorithm": "sha256", "hash": "<hex>" }
+//   }
+//
+// `integrity.hash` is the SHA-256 of the canonical JSON (sorted keys) of the
+// document without its `integrity` field. Media files are covered through
+// their manifest entries, so a modified recording fails its own hash.
+//
+// Older shapes are migrated on import, one version at a time:
+//   0  a bare session object, as kept in localStorage by early builds
+//   1  { version: '1.0', exportDate, session } from the first exportSession
+//   2  current
+
+export const ARCHIVE_FORMAT = 'interview-archive';
+export const ARCHIVE_VERSION = 2;
+
+const ARCHIVE_DOCUMENT = 'interview.json';
+
+export class InterviewArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterviewArchiveError';
+  }
+}
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date');
+
+const sessionSchema = z.object({
+  sessionId: z.string().min(1),
+  candidateName: z.string(),
+  jobTitle: z.string(),
+  duration: z.number(),
+  aiBackend: z.string(),
+  startTime: isoDate,
+  endTime: isoDate.optional(),
+  messages: z.array(z.object({
+    role: z.enum(['hr', 'candidate']),
+    content: z.string(),
+    timestamp: isoDate,
+    messageId: z.string()
+  }).passthrough()),
+  emotions: z.array(z.object({
+    dominant: z.string(),
+    confidence: z.number(),
+    scores: z.record(z.string(), z.number()),
+    icon: z.string(),
+    timestamp: isoDate
+  }).passthrough()),
+  behaviorAnalysis: z.array(z.object({
+    handPresence: z.boolean(),
+    eyeContact: z.boolean(),
+    posture: z.enum(['good', 'poor']),
+    timestamp: isoDate
+  }).passthrough()),
+  objectDetections: z.array(z.object({
+    class: z.string(),
+    score: z.number(),
+    bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+    timestamp: isoDate
+  }).passthrough()),
+  confidenceScore: z.number(),
+  engagementScore: z.number(),
+  attentivenessScore: z.number(),
+  questionCount: z.number(),
+  isComplete: z.boolean()
+}).passthrough();
+
+const mediaEntrySchema = z.object({
+  path: z.string().regex(/^media\/[^/]+$/, 'Media must live directly under media/'),
+  type: z.string(),
+  size: z.number().int().min(0),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/)
+});
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(ARCHIVE_VERSION),
+  exportedAt: isoDate,
+  session: sessionSchema,
+  media: z.array(mediaEntrySchema),
+  integrity: z.object({
+    algorithm: z.literal('sha256'),
+    hash: z.string()
+  })
+});
+
+export type ArchiveMediaEntry = z.infer<typeof mediaEntrySchema>;
+
+export interface InterviewArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  exportedAt: string;
+  session: Record<string, unknown>;
+  media: ArchiveMediaEntry[];
+  integrity: { algorithm: 'sha256'; hash: string };
+}
+
+export interface ArchiveMedia {
+  path: string;
+  type: string;
+  blob: Blob;
+}
+
+export interface InterviewArchiveImport {
+  session: InterviewSession;
+  media: ArchiveMedia[];
+  // Version the archive was written in, before migration
+  sourceVersion: number;
+  // False for legacy archives, which carry no integrity hash
+  verified: boolean;
+}
+
+type RawArchive = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawArchive =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Fill in what older builds did not record yet, so legacy sessions pass the
+ * current schema
+ */
+const normalizeLegacySession = (session: RawArchive): RawArchive => {
+  const list = (value: unknown) => (Array.isArray(value) ? value : []);
+  const startTime = session.startTime ?? new Date(0).toISOString();
+
+  return {
+    ...session,
+    candidateName: session.candidateName ?? 'Unknown',
+    jobTitle: session.jobTitle ?? 'Unknown Position',
+    duration: session.duration ?? 15,
+    aiBackend: session.aiBackend ?? 'gemini',
+    startTime,
+    endTime: session.endTime ?? undefined,
+    messages: list(session.messages).map((message: RawArchive, index) => ({
+      ...message,
+      timestamp: message.timestamp ?? startTime,
+      messageId: message.messageId ?? `msg_legacy_${index}`
+    })),
+    emotions: list(session.emotions).map((emotion: RawArchive) => ({
+      scores: {},
+      icon: '',
+      ...emotion,
+      timestamp: emotion.timestamp ?? startTime
+    })),
+    behaviorAnalysis: list(session.behaviorAnalysis).map((behavior: RawArchive) => ({
+      ...behavior,
+      timestamp: behavior.timestamp ?? startTime
+    })),
+    objectDetections: list(session.objectDetections).map((detection: RawArchive) => ({
+      ...detection,
+      timestamp: detection.timestamp ?? startTime
+    })),
+    confidenceScore: session.confidenceScore ?? 0,
+    engagementScore: session.engagementScore ?? 0,
+    attentivenessScore: session.attentivenessScore ?? 0,
+    questionCount: session.questionCount ?? 0,
+    isComplete: session.isComplete ?? !!session.endTime
+  };
+};
+
+// Each migrator lifts an archive from its key version to the next one
+const MIGRATORS: Record<number, (archive: RawArchive) => RawArchive> = {
+  0: session => ({ version: '1.0', exportDate: new Date().toISOString(), session }),
+  1: legacy => ({
+    format: ARCHIVE_FORMAT,
+    version: 2,
+    exportedAt: legacy.exportDate ?? new Date().toISOString(),
+    session: normalizeLegacySession(isObject(legacy.session) ? legacy.session : {}),
+    media: []
+  })
+};
+
+const detectVersion = (raw: RawArchive): number => {
+  if (raw.format === ARCHIVE_FORMAT && typeof raw.version === 'number') return raw.version;
+  if (raw.version === '1.0' && isObject(raw.session)) return 1;
+  if (typeof raw.sessionId === 'string' && Array.isArray(raw.messages)) return 0;
+  throw new InterviewArchiveError('This file is not an interview archive');
+};
+
+const hashArchive = (archive: Omit<InterviewArchive, 'integrity'>): string =>
+  sha256(canonicalJSON({
+    format: archive.format,
+    version: archive.version,
+    exportedAt: archive.exportedAt,
+    session: archive.session,
+    media: archive.media
+  }));
+
+const reviveSession = (session: RawArchive): InterviewSession => {
+  const withDate = <T extends { timestamp: unknown }>(items: T[]) =>
+    items.map(item => ({ ...item, timestamp: new Date(item.timestamp as string) }));
+  const typed = session as unknown as InterviewSession;
+
+  return {
+    ...typed,
+    startTime: new Date(typed.startTime),
+    endTime: typed.endTime ? new Date(typed.endTime) : undefined,
+    messages: withDate(typed.messages),
+    emotions: withDate(typed.emotions),
+    behaviorAnalysis: withDate(typed.behaviorAnalysis),
+    objectDetections: withDate(typed.objectDetections)
+  };
+};
+
+/**
+ * Validate an archive document, migrating older versions first
+ */
+const loadArchiveDocument = (raw: unknown): { archive: InterviewArchive; sourceVersion: number } => {
+  if (!isObject(raw)) {
+    throw new InterviewArchiveError('This file is not an interview archive');
+  }
+
+  const sourceVersion = detectVersion(raw);
+  if (sourceVersion > ARCHIVE_VERSION) {
+    throw new InterviewArchiveError(
+      `This archive was written by a newer version (v${sourceVersion}); update the app to import it`
+    );
+  }
+
+  let migrated = raw;
+  for (let version = sourceVersion; version < ARCHIVE_VERSION; version++) {
+    migrated = MIGRATORS[version](migrated);
+  }
+  if (sourceVersion < ARCHIVE_VERSION) {
+    migrated = { ...migrated, integrity: { algorithm: 'sha256', hash: hashArchive(migrated as unknown as InterviewArchive) } };
+  }
+
+  const result = archiveSchema.safeParse(migrated);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new InterviewArchiveError(`Invalid archive: ${issue.path.join('.') || 'document'} – ${issue.message}`);
+  }
+
+  const archive = result.data as unknown as InterviewArchive;
+  if (sourceVersion === ARCHIVE_VERSION && hashArchive(archive) !== archive.integrity.hash) {
+    throw new InterviewArchiveError('Archive integrity check failed: its contents were modified');
+  }
+  return { archive, sourceVersion };
+};
+
+const parseJSON = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InterviewArchiveError('This file is not valid JSON');
+  }
+};
+
+/**
+ * Build the archive document for a session. Media is described by its
+ * manifest entries; the files themselves go into the zip.
+ */
+export const createInterviewArchive = (session: InterviewSession, media: ArchiveMediaEntry[] = []): InterviewArchive => {
+  const body = {
+    format: ARCHIVE_FORMAT as typeof ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION as typeof ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    // JSON round trip turns every Date into an ISO string
+    session: JSON.parse(JSON.stringify(session)) as Record<string, unknown>,
+    media
+  };
+  return { ...body, integrity: { algorithm: 'sha256', hash: hashArchive(body) } };
+};
+
+export const serializeInterviewArchive = (session: InterviewSession): string =>
+  JSON.stringify(createInterviewArchive(session), null, 2);
+
+/**
+ * Archive a session as a Blob: plain JSON, or a zip when media is attached
+ */
+export const exportInterviewArchive = async (session: InterviewSession, media: ArchiveMedia[] = []): Promise<Blob> => {
+  if (media.length === 0) {
+    return new Blob([serializeInterviewArchive(session)], { type: 'application/json' });
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const manifest: ArchiveMediaEntry[] = [];
+  for (const item of media) {
+    const bytes = new Uint8Array(await item.blob.arrayBuffer());
+    files[item.path] = bytes;
+    manifest.push({ path: item.path, type: item.type, size: bytes.byteLength, sha256: sha256(bytes) });
+  }
+  files[ARCHIVE_DOCUMENT] = strToU8(JSON.stringify(createInterviewArchive(session, manifest), null, 2));
+
+  // Recordings are already compressed; only the document is deflated
+  const zipped = zipSync(
+    Object.fromEntries(Object.entries(files).map(([path, bytes]) => [
+      path,
+      [bytes, { level: path === ARCHIVE_DOCUMENT ? 6 : 0 }]
+    ]))
+  );
+  return new Blob([zipped], { type: 'application/zip' });
+};
+
+/**
+ * Import a JSON archive (no media)
+ */
+export const parseInterviewArchive = (text: string): InterviewArchiveImport => {
+  const { archive, sourceVersion } = loadArchiveDocument(parseJSON(text));
+  if (archive.media.length > 0) {
+    throw new InterviewArchiveError('This archive lists media files; import the .zip it came in');
+  }
+  return { session: reviveSession(archive.session), media: [], sourceVersion, verified: sourceVersion === ARCHIVE_VERSION };
+};
+
+/**
+ * Import an archive file, either JSON or zip with media
+ */
+export const readInterviewArchive = async (file: Blob): Promise<InterviewArchiveImport> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  // Zip files start with "PK"
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  if (!isZip) {
+    return parseInterviewArchive(strFromU8(bytes));
+  }
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    throw new InterviewArchiveError('This zip file is damaged');
+  }
+  if (!entries[ARCHIVE_DOCUMENT]) {
+    throw new InterviewArchiveError(`The zip does not contain ${ARCHIVE_DOCUMENT}`);
+  }
+
+  const { archive, sourceVersion } = loadArchiveDocument(parseJSON(strFromU8(entries[ARCHIVE_DOCUMENT])));
+  const media = archive.media.map(entry => {
+    const content = entries[entry.path];
+    if (!content) {
+      throw new InterviewArchiveError(`Media file ${entry.path} is missing from the zip`);
+    }
+    if (content.byteLength !== entry.size || sha256(content) !== entry.sha256) {
+      throw new InterviewArchiveError(`Media file ${entry.path} was modified`);
+    }
+    return { path: entry.path, type: entry.type, blob: new Blob([content], { type: entry.type }) };
+  });
+
+  return { session: reviveSession(archive.session), media, sourceVersion, verified: sourceVersion === ARCHIVE_VERSION };
+};
@@ -0,0 +1,216 @@
+// IndexedDB persistence for interview sessions. Session metadata lives in one
+// store; the high-volume streams (messages, emotions, behavior samples,
+// detections) are appended one record at a time to a second store instead of
+// rewriting the whole session on every frame.
+
+export const INTERVIEW_STREAMS = ['messages', 'emotions', 'behaviorAnalysis', 'objectDetections'] as const;
+
+export type InterviewStream = typeof INTERVIEW_STREAMS[number];
+
+// IndexedDB cannot index booleans, so flags are stored as 0/1
+type Flag = 0 | 1;
+
+export interface StoredSession {
+  sessionId: string;
+  // Session fields without the stream arrays; Dates survive structured clone
+  data: Record<string, unknown>;
+  updatedAt: number;
+  synced: Flag;
+  // Tombstone: the session is gone locally and still has to be deleted remotely
+  deleted: Flag;
+}
+
+export interface StoredRecord {
+  recordId: string;
+  sessionId: string;
+  stream: InterviewStream;
+  // Insertion order within the session
+  seq: number;
+  data: Record<string, unknown>;
+  synced: Flag;
+}
+
+// Media attached to a session (e.g. recordings imported from an archive); local only
+export interface StoredMedia {
+  // `${sessionId}:${path}`
+  key: string;
+  sessionId: string;
+  // Path inside an interview archive, e.g. media/answer-1.webm
+  path: string;
+  type: string;
+  blob: Blob;
+}
+
+const DB_NAME = 'interview_data';
+const DB_VERSION = 3;
+const SESSIONS = 'sessions';
+const RECORDS = 'records';
+const MEDIA = 'media';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDBAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openInterviewDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        const sessions = db.createObjectStore(SESSIONS, { keyPath: 'sessionId' });
+        sessions.createIndex('synced', 'synced');
+      }
+      if (!db.objectStoreNames.contains(RECORDS)) {
+        const records = db.createObjectStore(RECORDS, { keyPath: 'recordId' });
+        records.createIndex('sessionId', 'sessionId');
+        records.createIndex('synced', 'synced');
+      }
+      // Lets a single stream of a session be read without the others
+      const records = request.transaction!.objectStore(RECORDS);
+      if (!records.indexNames.contains('sessionStream')) {
+        records.createIndex('sessionStream', ['sessionId', 'stream']);
+      }
+      if (!db.objectStoreNames.contains(MEDIA)) {
+        const media = db.createObjectStore(MEDIA, { keyPath: 'key' });
+        media.createIndex('sessionId', 'sessionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const putSession = async (session: StoredSession): Promise<void> => {
+  const db = await openInterviewDB();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+};
+
+export const putRecords = async (records: StoredRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openInterviewDB();
+  const tx = db.transaction(RECORDS, 'readwrite');
+  const store = tx.objectStore(RECORDS);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+export const getStoredSessions = async (): Promise<StoredSession[]> => {
+  const db = await openInterviewDB();
+  return requestToPromise(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+};
+
+export const getStoredRecords = async (sessionId?: string): Promise<StoredRecord[]> => {
+  const db = await openInterviewDB();
+  const store = db.transaction(RECORDS).objectStore(RECORDS);
+  const records = await requestToPromise<StoredRecord[]>(
+    sessionId ? store.index('sessionId').getAll(sessionId) : store.getAll()
+  );
+  return records.sort((a, b) => a.seq - b.seq);
+};
+
+export const getStoredStream = async (sessionId: string, stream: InterviewStream): Promise<StoredRecord[]> => {
+  const db = await openInterviewDB();
+  const index = db.transaction(RECORDS).objectStore(RECORDS).index('sessionStream');
+  const records = await requestToPromise<StoredRecord[]>(index.getAll([sessionId, stream]));
+  return records.sort((a, b) => a.seq - b.seq);
+};
+
+/**
+ * Everything still waiting to be synced (the offline queue)
+ */
+export const getUnsynced = async (): Promise<{ sessions: StoredSession[]; records: StoredRecord[] }> => {
+  const db = await openInterviewDB();
+  const tx = db.transaction([SESSIONS, RECORDS]);
+  const [sessions, records] = await Promise.all([
+    requestToPromise<StoredSession[]>(tx.objectStore(SESSIONS).index('synced').getAll(0)),
+    requestToPromise<StoredRecord[]>(tx.objectStore(RECORDS).index('synced').getAll(0))
+  ]);
+  return { sessions, records: records.sort((a, b) => a.seq - b.seq) };
+};
+
+/**
+ * Mark rows as synced, unless they changed again since they were read
+ */
+export const markSessionSynced = async (sessionId: string, updatedAt: number): Promise<void> => {
+  const db = await openInterviewDB();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const store = tx.objectStore(SESSIONS);
+  const current = await requestToPromise<StoredSession | undefined>(store.get(sessionId));
+  if (current && current.updatedAt === updatedAt) {
+    store.put({ ...current, synced: 1 });
+  }
+  await transactionDone(tx);
+};
+
+export const markRecordsSynced = async (recordIds: string[]): Promise<void> => {
+  if (recordIds.length === 0) return;
+  const db = await openInterviewDB();
+  const tx = db.transaction(RECORDS, 'readwrite');
+  const store = tx.objectStore(RECORDS);
+  for (const recordId of recordIds) {
+    const record = await requestToPromise<StoredRecord | undefined>(store.get(recordId));
+    if (record) store.put({ ...record, synced: 1 });
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Remove a session with its records and media locally
+ */
+export const deleteStoredSession = async (sessionId: string): Promise<void> => {
+  const db = await openInterviewDB();
+  const tx = db.transaction([SESSIONS, RECORDS, MEDIA], 'readwrite');
+  tx.objectStore(SESSIONS).delete(sessionId);
+  for (const name of [RECORDS, MEDIA]) {
+    const store = tx.objectStore(name);
+    const keys = await requestToPromise(store.index('sessionId').getAllKeys(sessionId));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(tx);
+};
+
+export const deleteStoredRecords = async (sessionId: string): Promise<void> => {
+  const db = await openInterviewDB();
+  const tx = db.transaction(RECORDS, 'readwrite');
+  const records = tx.objectStore(RECORDS);
+  const keys = await requestToPromise(records.index('sessionId').getAllKeys(sessionId));
+  keys.forEach(key => records.delete(key));
+  await transactionDone(tx);
+};
+
+export const putSessionMedia = async (media: StoredMedia[]): Promise<void> => {
+  if (media.length === 0) return;
+  const db = await openInterviewDB();
+  const tx = db.transaction(MEDIA, 'readwrite');
+  const store = tx.objectStore(MEDIA);
+  media.forEach(item => store.put(item));
+  await transactionDone(tx);
+};
+
+export const getSessionMedia = async (sessionId: string): Promise<StoredMedia[]> => {
+  const db = await openInterviewDB();
+  return requestToPromise(db.transaction(MEDIA).objectStore(MEDIA).index('sessionId').getAll(sessionId));
+};
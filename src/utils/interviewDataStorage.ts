@@ -1,11 +1,52 @@
 // Interview Data Storage Utility
-// Manages temporary local storage of interview data with timestamps, emotions, and behavior analysis
+// Stores interview data with timestamps, emotions, and behavior analysis in IndexedDB
+// and syncs it to Supabase for the signed-in user
+
+import type { ProctoringPolicy, ViolationType } from './proctoringPolicy';
+import type { ProctoringEvent } from './unifiedDetectionManager';
+import {
+  INTERVIEW_STREAMS,
+  deleteStoredRecords,
+  deleteStoredSession,
+  getStoredRecords,
+  getStoredStream,
+  getSessionMedia,
+  getStoredSessions,
+  isIndexedDBAvailable,
+  putRecords,
+  putSession,
+  putSessionMedia,
+  type InterviewStream,
+  type StoredRecord,
+  type StoredSession
+} from './interviewDataDB';
+import { pullRemoteSessions, syncInterviewData } from './interviewDataSync';
+import {
+  InterviewArchiveError,
+  exportInterviewArchive,
+  parseInterviewArchive,
+  readInterviewArchive,
+  serializeInterviewArchive,
+  type ArchiveMedia,
+  type InterviewArchiveImport
+} from './interviewArchive';
+import {
+  addBehaviorSample,
+  addEmotionSample,
+  buildTimeSeries,
+  createTimeSeries,
+  getSessionTimeSeries,
+  type SessionTimeSeries
+} from './interviewTimeSeries';
 
 export interface InterviewMessage {
   role: 'hr' | 'candidate';
   content: string;
   timestamp: Date;
   messageId: string;
+  // AI provider that produced an hr message, and its latency
+  provider?: string;
+  latencyMs?: number;
 }
 
 export interface EmotionData {
@@ -59,6 +100,15 @@ export interface InterviewSession {
   // Violation counters
   phoneWarningCount?: number;
   multiplePeopleWarningCount?: number;
+  violationCounts?: Partial<Record<ViolationType, number>>;
+  // Policy the interview was proctored under and every strike it produced
+  proctoringPolicy?: ProctoringPolicy;
+  proctoringEvents?: ProctoringEvent[];
+  flaggedForReview?: boolean;
+  // Hash of the last entry in the server-side evidence chain (see proctoringEvidence)
+  evidenceHeadHash?: string;
+  // Emotion and behavior samples downsampled into fixed windows (see interviewTimeSeries)
+  timeSeries?: SessionTimeSeries;
   confidenceScore: number;
   engagementScore: number;
   attentivenessScore: number;
@@ -79,7 +129,8 @@ export interface InterviewDataStorage {
   addEmotion: (emotion: Omit<EmotionData, 'timestamp'>) => void;
   addBehaviorAnalysis: (behavior: Omit<BehaviorAnalysis, 'timestamp'>) => void;
   addObjectDetection: (detection: Omit<ObjectDetection, 'timestamp'>) => void;
-  addViolation: (type: 'phone' | 'multiplePeople') => void;
+  addViolation: (type: ViolationType) => void;
+  addProctoringEvent: (event: ProctoringEvent, evidenceHash?: string) => void;
   updateScores: (scores: { confidenceScore?: number; engagementScore?: number; attentivenessScore?: number }) => void;
   completeSession: () => InterviewSession | null;
   getCurrentSession: () => InterviewSession | null;
@@ -90,124 +141,290 @@ export interface InterviewDataStorage {
   importSession: (sessionData: string) => boolean;
 }
 
+type SessionFields = Omit<InterviewSession, InterviewStream>;
+
+type StreamItem<K extends InterviewStream> = InterviewSession[K][number];
+
+/**
+ * Revive Date fields of a session parsed from JSON
+ */
+const reviveSession = (session: InterviewSession): InterviewSession => {
+  const reviveTimestamps = <T extends { timestamp: Date }>(items: T[] = []): T[] =>
+    items.map(item => ({ ...item, timestamp: new Date(item.timestamp) }));
+
+  return {
+    ...session,
+    startTime: new Date(session.startTime),
+    endTime: session.endTime ? new Date(session.endTime) : undefined,
+    messages: reviveTimestamps(session.messages),
+    emotions: reviveTimestamps(session.emotions),
+    behaviorAnalysis: reviveTimestamps(session.behaviorAnalysis),
+    objectDetections: reviveTimestamps(session.objectDetections)
+  };
+};
+
+const splitSession = (session: InterviewSession): SessionFields => {
+  const { messages, emotions, behaviorAnalysis, objectDetections, ...fields } = session;
+  return fields;
+};
+
+const byStartTimeDesc = (a: InterviewSession, b: InterviewSession) =>
+  new Date(b.startTime).getTime() - new Date(a.startTime).getTime();
+
+// A finished session whose rollup is stored needs no raw samples for reports
+const hasSummary = (stored: StoredSession) => !!stored.data.isComplete && !!stored.data.timeSeries;
+
+/**
+ * Interview sessions kept in memory for synchronous reads and persisted to
+ * IndexedDB in the background: session fields as one row, streams as
+ * append-only records. Unsynced rows form the offline queue that is pushed to
+ * Supabase whenever the user is signed in and online. Completed sessions are
+ * loaded as summaries (fields, time series and messages); their emotion,
+ * behavior and detection records are read on demand by loadSessionStreams.
+ */
 class InterviewDataManager implements InterviewDataStorage {
-  private storageKey = 'interview_data';
+  // Legacy localStorage keys, migrated into IndexedDB on first load
   private currentSessionKey = 'current_interview_session';
   private completedSessionsKey = 'completed_interview_sessions';
 
-  // Add the missing properties to satisfy the interface
+  private current: InterviewSession | null = null;
+  private completed: InterviewSession[] = [];
+  private listeners = new Set<() => void>();
+  // Sessions in memory without their raw emotion, behavior and detection records
+  private summaryOnly = new Set<string>();
+  private writes: Promise<void> = Promise.resolve();
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private persistent = isIndexedDBAvailable();
+
+  // Resolves once stored (and remote) sessions have been loaded
+  readonly ready: Promise<void>;
+
   get currentSession(): InterviewSession | null {
-    return this.loadCurrentSession();
+    return this.current;
   }
 
   get completedSessions(): InterviewSession[] {
-    return this.loadCompletedSessions();
+    return this.completed;
   }
 
   constructor() {
-    this.initializeStorage();
+    if (!this.persistent) {
+      console.warn('IndexedDB unavailable, interview data will not be persisted');
+    }
+    this.ready = this.persistent ? this.initializeStorage() : Promise.resolve();
   }
 
-  private initializeStorage(): void {
-    // Ensure storage keys exist
-    if (!localStorage.getItem(this.currentSessionKey)) {
-      localStorage.setItem(this.currentSessionKey, 'null');
-    }
-    if (!localStorage.getItem(this.completedSessionsKey)) {
-      localStorage.setItem(this.completedSessionsKey, '[]');
+  private async initializeStorage(): Promise<void> {
+    try {
+      await this.migrateLocalStorage();
+
+      const storedSessions = await getStoredSessions();
+      const loaded = await Promise.all(storedSessions
+        .filter(stored => !stored.deleted)
+        .map(async stored => this.assembleLoaded(
+          stored,
+          hasSummary(stored) ? await getStoredStream(stored.sessionId, 'messages') : await getStoredRecords(stored.sessionId)
+        )));
+      this.mergeSessions(loaded);
+      console.log(`📂 Loaded ${loaded.length} interview sessions from IndexedDB`);
+
+      const known = new Set(storedSessions.map(stored => stored.sessionId));
+      const remote = await pullRemoteSessions(known);
+      if (remote.length > 0) {
+        for (const { session, records: remoteRecords } of remote) {
+          await putSession(session);
+          await putRecords(remoteRecords);
+        }
+        this.mergeSessions(remote.map(({ session, records: remoteRecords }) => this.assembleLoaded(session, remoteRecords)));
+        console.log(`☁️ Pulled ${remote.length} interview sessions from the server`);
+      }
+    } catch (error) {
+      console.error('Error loading interview data:', error);
     }
+    this.scheduleSync(0);
   }
 
-  private generateSessionId(): string {
-    return `interview_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
+  /**
+   * Move sessions saved by the old localStorage implementation into IndexedDB
+   */
+  private async migrateLocalStorage(): Promise<void> {
+    const legacy: InterviewSession[] = [];
+    try {
+      const current = JSON.parse(localStorage.getItem(this.currentSessionKey) || 'null');
+      const completed = JSON.parse(localStorage.getItem(this.completedSessionsKey) || '[]');
+      if (current) legacy.push(current);
+      if (Array.isArray(completed)) legacy.push(...completed);
+    } catch (error) {
+      console.error('Error reading legacy interview data:', error);
+      return;
+    }
+    if (legacy.length === 0) return;
 
-  private generateMessageId(): string {
-    return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    for (const session of legacy.map(reviveSession)) {
+      await putSession(this.toStoredSession(session));
+      await putRecords(INTERVIEW_STREAMS.flatMap(stream =>
+        (session[stream] || []).map((item, index) => this.toStoredRecord(session.sessionId, stream, index, item))
+      ));
+    }
+    localStorage.removeItem(this.currentSessionKey);
+    localStorage.removeItem(this.completedSessionsKey);
+    console.log(`📦 Migrated ${legacy.length} interview sessions from localStorage`);
   }
 
-  private saveCurrentSession(session: InterviewSession | null): void {
-    try {
-      localStorage.setItem(this.currentSessionKey, JSON.stringify(session));
-    } catch (error) {
-      console.error('Error saving current session:', error);
+  /**
+   * Assemble a session read from storage, keeping only the messages of one
+   * that has a stored summary. A finished session without one gets its
+   * rollup built and saved, so the next load can skip its raw records.
+   */
+  private assembleLoaded(stored: StoredSession, records: StoredRecord[]): InterviewSession {
+    if (hasSummary(stored)) {
+      this.summaryOnly.add(stored.sessionId);
+      return this.assembleSession(stored, records.filter(record => record.stream === 'messages'));
     }
+
+    const session = this.assembleSession(stored, records);
+    if (session.isComplete) this.saveSession(session);
+    return session;
   }
 
-  private loadCurrentSession(): InterviewSession | null {
-    try {
-      const sessionData = localStorage.getItem(this.currentSessionKey);
-      if (sessionData && sessionData !== 'null') {
-        const session = JSON.parse(sessionData);
-        // Convert string timestamps back to Date objects
-        session.startTime = new Date(session.startTime);
-        session.endTime = session.endTime ? new Date(session.endTime) : undefined;
-        session.messages = session.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-        session.emotions = session.emotions.map((emotion: any) => ({
-          ...emotion,
-          timestamp: new Date(emotion.timestamp)
-        }));
-        session.behaviorAnalysis = session.behaviorAnalysis.map((behavior: any) => ({
-          ...behavior,
-          timestamp: new Date(behavior.timestamp)
-        }));
-        session.objectDetections = session.objectDetections.map((detection: any) => ({
-          ...detection,
-          timestamp: new Date(detection.timestamp)
-        }));
-        return session;
-      }
-      return null;
-    } catch (error) {
-      console.error('Error loading current session:', error);
-      return null;
+  private assembleSession(stored: StoredSession, records: StoredRecord[]): InterviewSession {
+    const session = {
+      ...(stored.data as unknown as SessionFields),
+      messages: [],
+      emotions: [],
+      behaviorAnalysis: [],
+      objectDetections: []
+    } as InterviewSession;
+    records
+      .filter(record => record.sessionId === stored.sessionId)
+      .forEach(record => (session[record.stream] as unknown[]).push(record.data));
+    // The open window of an unfinished session is only in the raw samples
+    if (!session.isComplete || !session.timeSeries) {
+      session.timeSeries = buildTimeSeries(session.emotions, session.behaviorAnalysis);
     }
+    return session;
   }
 
-  private saveCompletedSessions(sessions: InterviewSession[]): void {
-    try {
-      localStorage.setItem(this.completedSessionsKey, JSON.stringify(sessions));
-    } catch (error) {
-      console.error('Error saving completed sessions:', error);
+  /**
+   * Add loaded sessions to memory without overwriting anything recorded since
+   */
+  private mergeSessions(sessions: InterviewSession[]): void {
+    const inMemory = new Set(this.getAllSessions().map(session => session.sessionId));
+    const fresh = sessions.filter(session => !inMemory.has(session.sessionId));
+
+    if (!this.current) {
+      // The most recent unfinished session is resumed as the current one
+      const resumable = fresh.filter(session => !session.isComplete).sort(byStartTimeDesc)[0];
+      if (resumable) this.current = resumable;
     }
+    this.completed = [...this.completed, ...fresh.filter(session => session !== this.current)].sort(byStartTimeDesc);
+    this.notify();
   }
 
-  private loadCompletedSessions(): InterviewSession[] {
-    try {
-      const sessionsData = localStorage.getItem(this.completedSessionsKey);
-      if (sessionsData) {
-        const sessions = JSON.parse(sessionsData);
-        // Convert string timestamps back to Date objects
-        return sessions.map((session: any) => ({
-          ...session,
-          startTime: new Date(session.startTime),
-          endTime: session.endTime ? new Date(session.endTime) : undefined,
-          messages: session.messages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          })),
-          emotions: session.emotions.map((emotion: any) => ({
-            ...emotion,
-            timestamp: new Date(emotion.timestamp)
-          })),
-          behaviorAnalysis: session.behaviorAnalysis.map((behavior: any) => ({
-            ...behavior,
-            timestamp: new Date(behavior.timestamp)
-          })),
-          objectDetections: session.objectDetections.map((detection: any) => ({
-            ...detection,
-            timestamp: new Date(detection.timestamp)
-          }))
-        }));
-      }
-      return [];
-    } catch (error) {
-      console.error('Error loading completed sessions:', error);
-      return [];
+  private toStoredSession(session: InterviewSession, deleted = false): StoredSession {
+    return {
+      sessionId: session.sessionId,
+      data: { ...splitSession(session) } as Record<string, unknown>,
+      updatedAt: Date.now(),
+      synced: 0,
+      deleted: deleted ? 1 : 0
+    };
+  }
+
+  private toStoredRecord<K extends InterviewStream>(
+    sessionId: string,
+    stream: K,
+    seq: number,
+    item: StreamItem<K>
+  ): StoredRecord {
+    return {
+      recordId: `${sessionId}:${stream}:${seq}`,
+      sessionId,
+      stream,
+      seq,
+      data: { ...item } as Record<string, unknown>,
+      synced: 0
+    };
+  }
+
+  /**
+   * Queue an IndexedDB write; writes run in order
+   */
+  private persist(task: () => Promise<void>): void {
+    if (!this.persistent) return;
+    this.writes = this.writes
+      .then(() => this.ready)
+      .then(task)
+      .catch(error => console.error('Error writing interview data:', error));
+    this.scheduleSync();
+  }
+
+  private saveSession(session: InterviewSession): void {
+    const stored = this.toStoredSession(session);
+    this.persist(() => putSession(stored));
+    this.notify();
+  }
+
+  private appendToStream<K extends InterviewStream>(session: InterviewSession, stream: K, item: StreamItem<K>): void {
+    const items = session[stream] as StreamItem<K>[];
+    items.push(item);
+    const record = this.toStoredRecord(session.sessionId, stream, items.length - 1, item);
+    this.persist(() => putRecords([record]));
+    this.notify();
+  }
+
+  /**
+   * Update the session's rollup; the session row is only rewritten when a
+   * window closes, not on every sample
+   */
+  private addToTimeSeries(session: InterviewSession, add: (series: SessionTimeSeries) => boolean): void {
+    if (!session.timeSeries) {
+      session.timeSeries = buildTimeSeries(session.emotions, session.behaviorAnalysis);
+      this.saveSession(session);
+      return;
     }
+    if (add(session.timeSeries)) {
+      this.saveSession(session);
+    }
+  }
+
+  private removeSession(session: InterviewSession): void {
+    const tombstone = this.toStoredSession(session, true);
+    this.persist(async () => {
+      await deleteStoredRecords(session.sessionId);
+      await putSession(tombstone);
+    });
+  }
+
+  private scheduleSync(delayMs = 5000): void {
+    if (!this.persistent || this.syncTimer) return;
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.writes.then(syncInterviewData);
+    }, delayMs);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Called whenever sessions change, including when stored or remote
+   * sessions finish loading. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private generateSessionId(): string {
+    return `interview_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private generateMessageId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   startNewSession(sessionData: Partial<InterviewSession>): string {
@@ -231,16 +448,22 @@ class InterviewDataManager implements InterviewDataStorage {
       attentivenessScore: 90,
       questionCount: 0,
       isComplete: false,
+      timeSeries: createTimeSeries(),
       ...sessionData
     };
 
-    this.saveCurrentSession(newSession);
+    // An unfinished previous session stays in the history
+    if (this.current) {
+      this.completed = [this.current, ...this.completed];
+    }
+    this.current = newSession;
+    this.saveSession(newSession);
     console.log('📝 Started new interview session:', sessionId);
     return sessionId;
   }
 
   addMessage(message: Omit<InterviewMessage, 'messageId'>): void {
-    const currentSession = this.loadCurrentSession();
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to add message to');
       return;
@@ -252,13 +475,12 @@ class InterviewDataManager implements InterviewDataStorage {
       timestamp: new Date()
     };
 
-    currentSession.messages.push(messageWithId);
-    this.saveCurrentSession(currentSession);
+    this.appendToStream(currentSession, 'messages', messageWithId);
     console.log('📝 Added message to session:', messageWithId.messageId);
   }
 
   addEmotion(emotion: Omit<EmotionData, 'timestamp'>): void {
-    const currentSession = this.loadCurrentSession();
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to add emotion to');
       return;
@@ -269,13 +491,13 @@ class InterviewDataManager implements InterviewDataStorage {
       timestamp: new Date()
     };
 
-    currentSession.emotions.push(emotionWithTimestamp);
-    this.saveCurrentSession(currentSession);
+    this.appendToStream(currentSession, 'emotions', emotionWithTimestamp);
+    this.addToTimeSeries(currentSession, series => addEmotionSample(series, emotionWithTimestamp));
     console.log('😊 Added emotion data to session:', emotion.dominant);
   }
 
   addBehaviorAnalysis(behavior: Omit<BehaviorAnalysis, 'timestamp'>): void {
-    const currentSession = this.loadCurrentSession();
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to add behavior analysis to');
       return;
@@ -286,13 +508,13 @@ class InterviewDataManager implements InterviewDataStorage {
       timestamp: new Date()
     };
 
-    currentSession.behaviorAnalysis.push(behaviorWithTimestamp);
-    this.saveCurrentSession(currentSession);
+    this.appendToStream(currentSession, 'behaviorAnalysis', behaviorWithTimestamp);
+    this.addToTimeSeries(currentSession, series => addBehaviorSample(series, behaviorWithTimestamp));
     console.log('📊 Added behavior analysis to session');
   }
 
   addObjectDetection(detection: Omit<ObjectDetection, 'timestamp'>): void {
-    const currentSession = this.loadCurrentSession();
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to add object detection to');
       return;
@@ -303,28 +525,49 @@ class InterviewDataManager implements InterviewDataStorage {
       timestamp: new Date()
     };
 
-    currentSession.objectDetections.push(detectionWithTimestamp);
-    this.saveCurrentSession(currentSession);
+    this.appendToStream(currentSession, 'objectDetections', detectionWithTimestamp);
     console.log('🔍 Added object detection to session:', detection.class);
   }
 
-  addViolation(type: 'phone' | 'multiplePeople'): void {
-    const currentSession = this.loadCurrentSession();
+  addViolation(type: ViolationType): void {
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to add violation to');
       return;
     }
     if (type === 'phone') {
       currentSession.phoneWarningCount = (currentSession.phoneWarningCount || 0) + 1;
-    } else {
+    } else if (type === 'multiplePeople') {
       currentSession.multiplePeopleWarningCount = (currentSession.multiplePeopleWarningCount || 0) + 1;
     }
-    this.saveCurrentSession(currentSession);
+    currentSession.violationCounts = {
+      ...currentSession.violationCounts,
+      [type]: (currentSession.violationCounts?.[type] || 0) + 1
+    };
+    this.saveSession(currentSession);
     console.log('⚠️ Added violation to session:', type);
   }
 
+  addProctoringEvent(event: ProctoringEvent, evidenceHash?: string): void {
+    const currentSession = this.current;
+    if (!currentSession) {
+      console.warn('No active session to add proctoring event to');
+      return;
+    }
+    currentSession.proctoringEvents = [...(currentSession.proctoringEvents || []), event];
+    if (event.flagged) {
+      currentSession.flaggedForReview = true;
+    }
+    if (evidenceHash) {
+      currentSession.evidenceHeadHash = evidenceHash;
+    }
+    // addViolation saves the session
+    this.addViolation(event.type);
+    console.log('🛡️ Added proctoring event to session:', event.type, event.action);
+  }
+
   updateScores(scores: { confidenceScore?: number; engagementScore?: number; attentivenessScore?: number }): void {
-    const currentSession = this.loadCurrentSession();
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to update scores for');
       return;
@@ -340,12 +583,12 @@ class InterviewDataManager implements InterviewDataStorage {
       currentSession.attentivenessScore = scores.attentivenessScore;
     }
 
-    this.saveCurrentSession(currentSession);
+    this.saveSession(currentSession);
     console.log('📈 Updated scores:', scores);
   }
 
   completeSession(): InterviewSession | null {
-    const currentSession = this.loadCurrentSession();
+    const currentSession = this.current;
     if (!currentSession) {
       console.warn('No active session to complete');
       return null;
@@ -355,42 +598,59 @@ class InterviewDataManager implements InterviewDataStorage {
     currentSession.isComplete = true;
 
     // Move to completed sessions
-    const completedSessions = this.loadCompletedSessions();
-    completedSessions.unshift(currentSession); // Add to beginning
-    this.saveCompletedSessions(completedSessions);
-
-    // Clear current session
-    this.saveCurrentSession(null);
+    this.completed = [currentSession, ...this.completed]; // Add to beginning
+    this.current = null;
+    this.saveSession(currentSession);
+    this.scheduleSync(0);
 
     console.log('✅ Completed interview session:', currentSession.sessionId);
     return currentSession;
   }
 
   getCurrentSession(): InterviewSession | null {
-    return this.loadCurrentSession();
+    return this.current;
   }
 
   getAllSessions(): InterviewSession[] {
-    const currentSession = this.loadCurrentSession();
-    const completedSessions = this.loadCompletedSessions();
-    
-    const allSessions = [...completedSessions];
-    if (currentSession) {
-      allSessions.unshift(currentSession);
-    }
-    
-    return allSessions;
+    return this.current ? [this.current, ...this.completed] : [...this.completed];
+  }
+
+  /**
+   * A session with its raw emotion, behavior and detection records, reading
+   * them from IndexedDB if it was loaded as a summary
+   */
+  async loadSessionStreams(sessionId: string): Promise<InterviewSession | null> {
+    await this.ready;
+    const session = this.getAllSessions().find(s => s.sessionId === sessionId);
+    if (!session || !this.summaryOnly.has(sessionId)) return session ?? null;
+
+    const records = await getStoredRecords(sessionId);
+    session.emotions = [];
+    session.behaviorAnalysis = [];
+    session.objectDetections = [];
+    records
+      .filter(record => record.stream !== 'messages')
+      .forEach(record => (session[record.stream] as unknown[]).push(record.data));
+    this.summaryOnly.delete(sessionId);
+    return session;
   }
 
   clearCurrentSession(): void {
-    this.saveCurrentSession(null);
+    if (this.current) {
+      this.removeSession(this.current);
+      this.current = null;
+      this.notify();
+    }
     console.log('🗑️ Cleared current session');
   }
 
   clearAllData(): void {
+    this.getAllSessions().forEach(session => this.removeSession(session));
+    this.current = null;
+    this.completed = [];
     localStorage.removeItem(this.currentSessionKey);
     localStorage.removeItem(this.completedSessionsKey);
-    this.initializeStorage();
+    this.notify();
     console.log('🗑️ Cleared all interview data');
   }
 
@@ -402,41 +662,38 @@ class InterviewDataManager implements InterviewDataStorage {
       console.warn('Session not found for export:', sessionId);
       return null;
     }
+    if (this.summaryOnly.has(sessionId)) {
+      console.warn('Raw records not loaded, export with exportArchive instead:', sessionId);
+      return null;
+    }
 
     try {
-      const exportData = {
-        version: '1.0',
-        exportDate: new Date().toISOString(),
-        session: session
-      };
-      
-      return JSON.stringify(exportData, null, 2);
+      return serializeInterviewArchive(session);
     } catch (error) {
       console.error('Error exporting session:', error);
       return null;
     }
   }
 
-  importSession(sessionData: string): boolean {
-    try {
-      const importData = JSON.parse(sessionData);
-      
-      if (!importData.session || !importData.session.sessionId) {
-        console.error('Invalid session data format');
-        return false;
-      }
+  /**
+   * Export a session as an interview archive, zipped together with its media
+   * when it has any
+   */
+  async exportArchive(sessionId: string): Promise<Blob | null> {
+    const session = await this.loadSessionStreams(sessionId);
+    if (!session) {
+      console.warn('Session not found for export:', sessionId);
+      return null;
+    }
 
-      const completedSessions = this.loadCompletedSessions();
-      const existingIndex = completedSessions.findIndex(s => s.sessionId === importData.session.sessionId);
-      
-      if (existingIndex >= 0) {
-        completedSessions[existingIndex] = importData.session;
-      } else {
-        completedSessions.push(importData.session);
-      }
+    const media = this.persistent ? await getSessionMedia(sessionId) : [];
+    return exportInterviewArchive(session, media);
+  }
 
-      this.saveCompletedSessions(completedSessions);
-      console.log('📥 Imported session:', importData.session.sessionId);
+  importSession(sessionData: string): boolean {
+    try {
+      const { session } = parseInterviewArchive(sessionData);
+      this.storeImportedSession(session, []);
       return true;
     } catch (error) {
       console.error('Error importing session:', error);
@@ -444,6 +701,48 @@ class InterviewDataManager implements InterviewDataStorage {
     }
   }
 
+  /**
+   * Import an archive file (JSON or zip). Throws InterviewArchiveError when
+   * the file is invalid or fails its integrity check.
+   */
+  async importArchive(file: Blob): Promise<InterviewArchiveImport> {
+    const result = await readInterviewArchive(file);
+    this.storeImportedSession(result.session, result.media);
+    return result;
+  }
+
+  private storeImportedSession(session: InterviewSession, media: ArchiveMedia[]): void {
+    if (this.current?.sessionId === session.sessionId) {
+      throw new InterviewArchiveError('This session is still in progress on this device');
+    }
+
+    this.summaryOnly.delete(session.sessionId);
+    const existingIndex = this.completed.findIndex(s => s.sessionId === session.sessionId);
+    if (existingIndex >= 0) {
+      this.completed[existingIndex] = session;
+    } else {
+      this.completed = [...this.completed, session].sort(byStartTimeDesc);
+    }
+
+    const stored = this.toStoredSession(session);
+    const records = INTERVIEW_STREAMS.flatMap(stream =>
+      session[stream].map((item, index) => this.toStoredRecord(session.sessionId, stream, index, item))
+    );
+    this.persist(async () => {
+      // Replace rather than merge the streams of a re-imported session
+      await deleteStoredRecords(session.sessionId);
+      await putSession(stored);
+      await putRecords(records);
+      await putSessionMedia(media.map(item => ({
+        key: `${session.sessionId}:${item.path}`,
+        sessionId: session.sessionId,
+        ...item
+      })));
+    });
+    this.notify();
+    console.log('📥 Imported session:', session.sessionId);
+  }
+
   // Utility methods for data analysis
   getSessionStats(sessionId: string): any {
     const allSessions = this.getAllSessions();
@@ -455,12 +754,19 @@ class InterviewDataManager implements InterviewDataStorage {
     const hrMessages = session.messages.filter(m => m.role === 'hr').length;
     const candidateMessages = session.messages.filter(m => m.role === 'candidate').length;
     
-    const avgEmotionConfidence = session.emotions.length > 0 
-      ? session.emotions.reduce((sum, e) => sum + e.confidence, 0) / session.emotions.length 
+    // Aggregates come from the downsampled series rather than the raw frames
+    const series = getSessionTimeSeries(session);
+    const totalEmotions = series.emotions.reduce((sum, bucket) => sum + bucket.samples, 0);
+    const totalBehaviorAnalysis = series.behavior.reduce((sum, bucket) => sum + bucket.samples, 0);
+
+    const avgEmotionConfidence = totalEmotions > 0 
+      ? series.emotions.reduce((sum, bucket) => sum + bucket.confidence.mean * bucket.samples, 0) / totalEmotions 
       : 0;
     
-    const dominantEmotions = session.emotions.reduce((acc, emotion) => {
-      acc[emotion.dominant] = (acc[emotion.dominant] || 0) + 1;
+    const dominantEmotions = series.emotions.reduce((acc, bucket) => {
+      Object.entries(bucket.dominantCounts).forEach(([emotion, count]) => {
+        acc[emotion] = (acc[emotion] || 0) + count;
+      });
       return acc;
     }, {} as Record<string, number>);
 
@@ -475,10 +781,10 @@ class InterviewDataManager implements InterviewDataStorage {
       totalMessages,
       hrMessages,
       candidateMessages,
-      totalEmotions: session.emotions.length,
+      totalEmotions,
       avgEmotionConfidence,
       dominantEmotions,
-      totalBehaviorAnalysis: session.behaviorAnalysis.length,
+      totalBehaviorAnalysis,
       totalObjectDetections: session.objectDetections.length,
       finalScores: {
         confidence: session.confidenceScore,
@@ -491,37 +797,47 @@ class InterviewDataManager implements InterviewDataStorage {
     };
   }
 
-  // Auto-save functionality
+  // Push the offline queue once pending writes have landed
   autoSave(): void {
-    const currentSession = this.loadCurrentSession();
-    if (currentSession) {
-      this.saveCurrentSession(currentSession);
-      console.log('💾 Auto-saved current session');
-    }
+    if (!this.persistent) return;
+    this.writes.then(syncInterviewData);
   }
 
-  // Clean up old sessions (keep last 50)
+  // Keep IndexedDB small: drop local copies of old sessions (keep last 50)
+  // once they are safely stored on the server
   cleanupOldSessions(maxSessions: number = 50): void {
-    const completedSessions = this.loadCompletedSessions();
-    if (completedSessions.length > maxSessions) {
-      const sessionsToKeep = completedSessions.slice(0, maxSessions);
-      this.saveCompletedSessions(sessionsToKeep);
-      console.log(`🧹 Cleaned up old sessions, kept ${sessionsToKeep.length} most recent`);
-    }
+    if (this.completed.length <= maxSessions) return;
+    const candidates = new Set(this.completed.slice(maxSessions).map(session => session.sessionId));
+
+    this.persist(async () => {
+      const stored = await getStoredSessions();
+      const removable = stored
+        .filter(session => candidates.has(session.sessionId) && session.synced && !session.deleted)
+        .map(session => session.sessionId);
+      for (const sessionId of removable) {
+        await deleteStoredSession(sessionId);
+      }
+      if (removable.length > 0) {
+        this.completed = this.completed.filter(session => !removable.includes(session.sessionId));
+        this.notify();
+        console.log(`🧹 Cleaned up ${removable.length} old sessions already synced to the server`);
+      }
+    });
   }
 }
 
 // Create and export singleton instance
 export const interviewDataStorage = new InterviewDataManager();
 
-// Auto-save every 30 seconds
 if (typeof window !== 'undefined') {
+  // Retry the sync queue every 30 seconds and as soon as the connection returns
   setInterval(() => {
     interviewDataStorage.autoSave();
   }, 30000);
+  window.addEventListener('online', () => interviewDataStorage.autoSave());
 
-  // Clean up old sessions on page load
-  interviewDataStorage.cleanupOldSessions();
+  // Clean up old sessions once stored sessions are loaded
+  interviewDataStorage.ready.then(() => interviewDataStorage.cleanupOldSessions());
 }
 
-export default interviewDataStorage; 
\ No newline at end of file
+export default interviewDataStorage;
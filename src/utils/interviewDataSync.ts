@@ -0,0 +1,237 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import {
+  deleteStoredSession,
+  getUnsynced,
+  markRecordsSynced,
+  markSessionSynced,
+  type InterviewStream,
+  type StoredRecord,
+  type StoredSession
+} from './interviewDataDB';
+
+// Background sync of the local interview store to Supabase. Sessions go to
+// interview_sessions and stream records to interview_session_records; both
+// are upserted by their client-side ids, so replaying the queue is harmless.
+
+const RECORD_BATCH_SIZE = 200;
+
+// Matches PostgREST's default max-rows, so a shorter page is the last one
+const REMOTE_PAGE_SIZE = 1000;
+
+// Session fields with their own column; everything else is kept in metadata
+const SESSION_COLUMNS = [
+  'sessionId',
+  'candidateName',
+  'jobTitle',
+  'duration',
+  'aiBackend',
+  'startTime',
+  'endTime',
+  'isComplete',
+  'questionCount',
+  'confidenceScore',
+  'engagementScore',
+  'attentivenessScore'
+];
+
+const toTimestamp = (value: unknown): string | null =>
+  value ? new Date(value as string | number | Date).toISOString() : null;
+
+const toSessionRow = (stored: StoredSession, userId: string) => {
+  const { data } = stored;
+  const metadata = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !SESSION_COLUMNS.includes(key))
+  );
+
+  return {
+    session_id: stored.sessionId,
+    user_id: userId,
+    candidate_name: (data.candidateName as string) ?? null,
+    job_title: (data.jobTitle as string) ?? null,
+    duration: (data.duration as number) ?? null,
+    ai_backend: (data.aiBackend as string) ?? null,
+    started_at: toTimestamp(data.startTime) ?? new Date().toISOString(),
+    ended_at: toTimestamp(data.endTime),
+    is_complete: !!data.isComplete,
+    question_count: (data.questionCount as number) ?? 0,
+    confidence_score: (data.confidenceScore as number) ?? null,
+    engagement_score: (data.engagementScore as number) ?? null,
+    attentiveness_score: (data.attentivenessScore as number) ?? null,
+    metadata: JSON.parse(JSON.stringify(metadata)) as Json,
+    updated_at: new Date(stored.updatedAt).toISOString()
+  };
+};
+
+const toRecordRow = (record: StoredRecord, userId: string) => {
+  const { timestamp, ...data } = record.data;
+  return {
+    id: record.recordId,
+    session_id: record.sessionId,
+    user_id: userId,
+    stream: record.stream,
+    seq: record.seq,
+    recorded_at: toTimestamp(timestamp) ?? new Date().toISOString(),
+    data: JSON.parse(JSON.stringify(data)) as Json
+  };
+};
+
+let syncing: Promise<void> | null = null;
+
+const runSync = async () => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { sessions, records } = await getUnsynced();
+  if (sessions.length === 0 && records.length === 0) return;
+
+  // Records can only be pushed once their session row exists remotely
+  const blocked = new Set<string>();
+
+  for (const stored of sessions) {
+    if (stored.deleted) {
+      const { error } = await supabase.from('interview_sessions').delete().eq('session_id', stored.sessionId);
+      if (error) {
+        console.error('❌ Failed to delete synced interview session:', error);
+        continue;
+      }
+      // Remote records go with the session (on delete cascade)
+      await deleteStoredSession(stored.sessionId);
+      blocked.add(stored.sessionId);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('interview_sessions')
+      .upsert(toSessionRow(stored, user.id), { onConflict: 'session_id' });
+    if (error) {
+      console.error('❌ Failed to sync interview session:', error);
+      blocked.add(stored.sessionId);
+      continue;
+    }
+    await markSessionSynced(stored.sessionId, stored.updatedAt);
+  }
+
+  const pending = records.filter(record => !blocked.has(record.sessionId));
+  for (let start = 0; start < pending.length; start += RECORD_BATCH_SIZE) {
+    const batch = pending.slice(start, start + RECORD_BATCH_SIZE);
+    const { error } = await supabase
+      .from('interview_session_records')
+      .upsert(batch.map(record => toRecordRow(record, user.id)), { onConflict: 'id' });
+    if (error) {
+      console.error('❌ Failed to sync interview records:', error);
+      return;
+    }
+    await markRecordsSynced(batch.map(record => record.recordId));
+  }
+
+  console.log(`☁️ Synced ${sessions.length} interview sessions and ${pending.length} records`);
+};
+
+/**
+ * Push everything in the offline queue. Concurrent calls share one run;
+ * failures leave the rows queued for the next attempt.
+ */
+export const syncInterviewData = (): Promise<void> => {
+  if (!syncing) {
+    syncing = runSync()
+      .catch(error => console.error('❌ Interview data sync error:', error))
+      .finally(() => {
+        syncing = null;
+      });
+  }
+  return syncing;
+};
+
+type RemoteRecordRow = Pick<
+  Tables<'interview_session_records'>,
+  'id' | 'session_id' | 'stream' | 'seq' | 'recorded_at' | 'data'
+>;
+
+// One session's records in (seq, id) order, a page at a time
+const fetchSessionRecords = async (sessionId: string) => {
+  const rows: RemoteRecordRow[] = [];
+  for (let from = 0; ; from += REMOTE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('interview_session_records')
+      .select('id, session_id, stream, seq, recorded_at, data')
+      .eq('session_id', sessionId)
+      .order('seq', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + REMOTE_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...data);
+    if (data.length < REMOTE_PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Fetch the signed-in user's most recent sessions that are not stored
+ * locally yet (e.g. recorded on another device)
+ */
+export const pullRemoteSessions = async (
+  knownSessionIds: Set<string>,
+  limit = 20
+): Promise<{ session: StoredSession; records: StoredRecord[] }[]> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return [];
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data: rows, error } = await supabase
+    .from('interview_sessions')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('❌ Failed to load remote interview sessions:', error);
+    return [];
+  }
+
+  const missing = (rows || []).filter(row => !knownSessionIds.has(row.session_id));
+  if (missing.length === 0) return [];
+
+  let recordRows: RemoteRecordRow[][];
+  try {
+    recordRows = await Promise.all(missing.map(row => fetchSessionRecords(row.session_id)));
+  } catch (recordsError) {
+    console.error('❌ Failed to load remote interview records:', recordsError);
+    return [];
+  }
+
+  return missing.map((row, index) => ({
+    session: {
+      sessionId: row.session_id,
+      data: {
+        ...(row.metadata as Record<string, unknown> | null),
+        sessionId: row.session_id,
+        candidateName: row.candidate_name ?? 'Unknown',
+        jobTitle: row.job_title ?? 'Unknown Position',
+        duration: row.duration ?? 15,
+        aiBackend: row.ai_backend ?? 'gemini',
+        startTime: new Date(row.started_at),
+        endTime: row.ended_at ? new Date(row.ended_at) : undefined,
+        isComplete: row.is_complete,
+        questionCount: row.question_count,
+        confidenceScore: row.confidence_score ?? 0,
+        engagementScore: row.engagement_score ?? 0,
+        attentivenessScore: row.attentiveness_score ?? 0
+      },
+      updatedAt: new Date(row.updated_at).getTime(),
+      synced: 1,
+      deleted: 0
+    },
+    records: recordRows[index].map(record => ({
+      recordId: record.id,
+      sessionId: record.session_id,
+      stream: record.stream as InterviewStream,
+      seq: record.seq,
+      data: { ...(record.data as Record<string, unknown> | null), timestamp: new Date(record.recorded_at) },
+      synced: 1
+    }))
+  }));
+};
@@ -0,0 +1,393 @@
+// Interview scheduling for HR: availability, open-slot search and the
+// interview lifecycle. The check_interview_schedule trigger enforces the same
+// rules in the database, so findOpenSlots is a guide rather than the guard.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+
+export type InterviewStatus = Enums<'interview_status_type'>;
+export type InterviewType = Enums<'interview_type_option'>;
+export type InterviewerAvailability = Tables<'interviewer_availability'>;
+export type CandidateAvailability = Tables<'candidate_availability'>;
+
+export type Interviewer = Pick<Tables<'hr_members'>, 'id' | 'first_name' | 'last_name' | 'email' | 'user_profile_id'>;
+
+// Statuses that occupy a calendar slot
+export const ACTIVE_INTERVIEW_STATUSES: InterviewStatus[] = ['Scheduled', 'Rescheduled'];
+export const DEFAULT_INTERVIEW_MINUTES = 45;
+
+export interface BusyInterval {
+  interviewId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduleInterviewInput {
+  applicationId: string;
+  interviewerId: string | null;
+  scheduledDate: Date;
+  durationMinutes: number;
+  interviewType: InterviewType;
+  videoLink?: string | null;
+}
+
+export interface WeeklyHours {
+  weekday: number;
+  startTime: string;
+  endTime: string;
+}
+
+export class InterviewSchedulingError extends Error {
+  // Postgres error code: 23P01 for a double booking, 23514 for outside availability
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'InterviewSchedulingError';
+    this.code = code;
+  }
+}
+
+// ---------- Time zones ----------
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Indexed like interviewer_availability.weekday
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * The weekday, calendar date and minute of day an instant falls on in a time zone
+ */
+const wallClock = (instant: Date, timeZone: string) => {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(instant).map(part => [part.type, part.value]));
+  return {
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+};
+
+// 'HH:MM' or 'HH:MM:SS' to minutes past midnight
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// ---------- Open slots ----------
+
+const withinInterviewerHours = (start: Date, end: Date, hours: InterviewerAvailability[]) =>
+  hours.length === 0 || hours.some(slot => {
+    const from = wallClock(start, slot.timezone);
+    const to = wallClock(end, slot.timezone);
+    return from.weekday === slot.weekday
+      && from.date === to.date
+      && from.minutes >= timeToMinutes(slot.start_time)
+      && to.minutes <= timeToMinutes(slot.end_time);
+  });
+
+const withinCandidateWindows = (start: Date, end: Date, windows: CandidateAvailability[], now: Date) => {
+  const upcoming = windows.filter(window => new Date(window.ends_at) > now);
+  return upcoming.length === 0 || upcoming.some(window =>
+    new Date(window.starts_at) <= start && new Date(window.ends_at) >= end
+  );
+};
+
+interface SlotContext {
+  interviewerHours: InterviewerAvailability[];
+  candidateWindows: CandidateAvailability[];
+  busy: BusyInterval[];
+  now?: Date;
+}
+
+/**
+ * Why an interview can't go in [start, end), or null when it can. Mirrors the
+ * rules of the check_interview_schedule trigger.
+ */
+export const slotProblem = (
+  start: Date,
+  end: Date,
+  { interviewerHours, candidateWindows, busy, now = new Date() }: SlotContext
+): string | null => {
+  if (start < now) return 'This time is in the past';
+  if (busy.some(interval => interval.start < end && start < interval.end)) {
+    return 'The interviewer or candidate already has an interview at this time';
+  }
+  if (!withinInterviewerHours(start, end, interviewerHours)) return "This is outside the interviewer's working hours";
+  if (!withinCandidateWindows(start, end, candidateWindows, now)) return 'The candidate is not available at this time';
+  return null;
+};
+
+/**
+ * Start times on `day` (local calendar day) at which both people are free,
+ * every `stepMinutes`
+ */
+export const findOpenSlots = ({
+  day,
+  durationMinutes,
+  stepMinutes = 30,
+  ...context
+}: SlotContext & { day: Date; durationMinutes: number; stepMinutes?: number }): Date[] => {
+  const slots: Date[] = [];
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+  for (let start = dayStart; start < dayEnd; start = new Date(start.getTime() + stepMinutes * 60000)) {
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+    if (!slotProblem(start, end, context)) slots.push(start);
+  }
+
+  return slots;
+};
+
+// ---------- Data ----------
+
+/**
+ * HR members of the current user's company who can run interviews
+ */
+export const fetchInterviewers = async (): Promise<{ interviewers: Interviewer[]; currentMemberId: string | null }> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new InterviewSchedulingError('You need to be signed in');
+
+  const { data: member, error: memberError } = await supabase
+    .from('hr_members')
+    .select('id, company_id')
+    .eq('user_profile_id', user.id)
+    .maybeSingle();
+  if (memberError) throw new InterviewSchedulingError(memberError.message, memberError.code);
+  if (!member) return { interviewers: [], currentMemberId: null };
+
+  const { data, error } = await supabase
+    .from('hr_members')
+    .select('id, first_name, last_name, email, user_profile_id')
+    .eq('company_id', member.company_id)
+    .eq('status', 'Active')
+    .order('first_name');
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+
+  return { interviewers: data ?? [], currentMemberId: member.id };
+};
+
+export const fetchInterviewerAvailability = async (hrMemberId: string): Promise<InterviewerAvailability[]> => {
+  const { data, error } = await supabase
+    .from('interviewer_availability')
+    .select('*')
+    .eq('hr_member_id', hrMemberId)
+    .order('weekday')
+    .order('start_time');
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+  return data ?? [];
+};
+
+/**
+ * Replace an interviewer's weekly hours
+ */
+export const saveInterviewerAvailability = async (
+  hrMemberId: string,
+  hours: WeeklyHours[],
+  timezone = browserTimeZone()
+): Promise<void> => {
+  const invalid = hours.find(slot => timeToMinutes(slot.startTime) >= timeToMinutes(slot.endTime));
+  if (invalid) {
+    throw new InterviewSchedulingError(`${WEEKDAY_NAMES[invalid.weekday]}: the end time must be after the start time`);
+  }
+
+  const { error: deleteError } = await supabase.from('interviewer_availability').delete().eq('hr_member_id', hrMemberId);
+  if (deleteError) throw new InterviewSchedulingError(deleteError.message, deleteError.code);
+  if (hours.length === 0) return;
+
+  const { error } = await supabase.from('interviewer_availability').insert(
+    hours.map(slot => ({
+      hr_member_id: hrMemberId,
+      weekday: slot.weekday,
+      start_time: slot.startTime,
+      end_time: slot.endTime,
+      timezone
+    }))
+  );
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+};
+
+export const fetchCandidateAvailability = async (candidateId: string): Promise<CandidateAvailability[]> => {
+  const { data, error } = await supabase
+    .from('candidate_availability')
+    .select('*')
+    .eq('candidate_id', candidateId)
+    .gte('ends_at', new Date().toISOString())
+    .order('starts_at');
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+  return data ?? [];
+};
+
+/**
+ * Live interviews of an interviewer and a candidate that overlap [from, to)
+ */
+export const fetchBusyIntervals = async ({
+  interviewerId,
+  candidateId,
+  from,
+  to,
+  excludeInterviewId
+}: {
+  interviewerId: string | null;
+  candidateId: string;
+  from: Date;
+  to: Date;
+  excludeInterviewId?: string;
+}): Promise<BusyInterval[]> => {
+  const overlapping = () => supabase
+    .from('interviews')
+    .select('id, scheduled_date, ends_at, duration_minutes, applications!inner ( candidate_id )')
+    .in('status', ACTIVE_INTERVIEW_STATUSES)
+    .lt('scheduled_date', to.toISOString())
+    .gt('ends_at', from.toISOString());
+
+  const results = await Promise.all([
+    overlapping().eq('applications.candidate_id', candidateId),
+    ...(interviewerId ? [overlapping().eq('interviewer_id', interviewerId)] : [])
+  ]);
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw new InterviewSchedulingError(failed.error.message, failed.error.code);
+
+  const rows = new Map(results.flatMap(result => result.data ?? []).map(row => [row.id, row]));
+  rows.delete(excludeInterviewId ?? '');
+
+  return [...rows.values()].map(row => {
+    const start = new Date(row.scheduled_date);
+    return {
+      interviewId: row.id,
+      start,
+      end: row.ends_at
+        ? new Date(row.ends_at)
+        : new Date(start.getTime() + (row.duration_minutes || DEFAULT_INTERVIEW_MINUTES) * 60000)
+    };
+  });
+};
+
+// ---------- Lifecycle ----------
+
+export const scheduleInterview = async (input: ScheduleInterviewInput): Promise<Tables<'interviews'>> => {
+  const { data, error } = await supabase
+    .from('interviews')
+    .insert({
+      application_id: input.applicationId,
+      interviewer_id: input.interviewerId,
+      scheduled_date: input.scheduledDate.toISOString(),
+      duration_minutes: input.durationMinutes,
+      interview_type: input.interviewType,
+      video_link: input.videoLink || null,
+      status: 'Scheduled'
+    })
+    .select()
+    .single();
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+  return data;
+};
+
+/**
+ * Move an interview. The database marks it Rescheduled and bumps the invite
+ * sequence so calendar apps update the existing event.
+ */
+export const rescheduleInterview = async (
+  interviewId: string,
+  changes: { scheduledDate: Date; durationMinutes?: number; interviewerId?: string | null; videoLink?: string | null }
+): Promise<Tables<'interviews'>> => {
+  const { data, error } = await supabase
+    .from('interviews')
+    .update({
+      scheduled_date: changes.scheduledDate.toISOString(),
+      ...(changes.durationMinutes !== undefined && { duration_minutes: changes.durationMinutes }),
+      ...(changes.interviewerId !== undefined && { interviewer_id: changes.interviewerId }),
+      ...(changes.videoLink !== undefined && { video_link: changes.videoLink || null })
+    })
+    .eq('id', interviewId)
+    .select()
+    .single();
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+  return data;
+};
+
+export const cancelInterview = async (interviewId: string, reason?: string): Promise<Tables<'interviews'>> => {
+  const { data, error } = await supabase
+    .from('interviews')
+    .update({ status: 'Cancelled', cancellation_reason: reason?.trim() || null })
+    .eq('id', interviewId)
+    .select()
+    .single();
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+  return data;
+};
+
+export const updateInterviewStatus = async (
+  interviewId: string,
+  status: Extract<InterviewStatus, 'Completed' | 'No Show'>
+): Promise<Tables<'interviews'>> => {
+  const { data, error } = await supabase
+    .from('interviews')
+    .update({ status })
+    .eq('id', interviewId)
+    .select()
+    .single();
+  if (error) throw new InterviewSchedulingError(error.message, error.code);
+  return data;
+};
+
+// ---------- Invites ----------
+
+const invokeInvites = async <T>(interviewId: string, delivery: 'download' | 'email'): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>('interview-invites', {
+    body: { interviewId, delivery }
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const body = await response.json().catch(() => ({}));
+      throw new InterviewSchedulingError(body.error || error.message, String(response.status));
+    }
+    throw new InterviewSchedulingError(error.message);
+  }
+
+  return data as T;
+};
+
+/**
+ * Download the interview's .ics invite (a cancellation once it is cancelled)
+ */
+export const downloadInterviewInvite = async (interviewId: string): Promise<void> => {
+  const ics = await invokeInvites<string>(interviewId, 'download');
+
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `interview-${interviewId}.ics`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Email the invite to the candidate and interviewer; returns the recipients
+ */
+export const emailInterviewInvite = async (interviewId: string): Promise<string[]> => {
+  const { sent } = await invokeInvites<{ sent: string[] }>(interviewId, 'email');
+  return sent;
+};
@@ -0,0 +1,309 @@
+// Structured interview scorecards: templates of weighted competencies with
+// rubric anchors, the panelists' filled-in scorecards, and their aggregation
+// into a hire / no-hire recommendation.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { InterviewType } from '@/utils/interviewScheduling';
+
+export const RATING_SCALE = [1, 2, 3, 4] as const;
+
+export type ScorecardRecommendation = 'strong_no_hire' | 'no_hire' | 'hire' | 'strong_hire';
+
+export const RECOMMENDATIONS: { value: ScorecardRecommendation; label: string }[] = [
+  { value: 'strong_no_hire', label: 'Strong no hire' },
+  { value: 'no_hire', label: 'No hire' },
+  { value: 'hire', label: 'Hire' },
+  { value: 'strong_hire', label: 'Strong hire' }
+];
+
+// Average rating (1-4) a panel needs for a hire recommendation, and below
+// which it is a no-hire regardless of votes
+const HIRE_THRESHOLD = 2.5;
+const NO_HIRE_THRESHOLD = 2;
+// Panelists this many points apart on a competency are flagged for the debrief
+const DISAGREEMENT_SPREAD = 2;
+
+export interface ScorecardCompetency {
+  key: string;
+  label: string;
+  description: string;
+  weight: number;
+  // Meaning of ratings 1 to 4
+  anchors: string[];
+}
+
+export interface ScorecardTemplate {
+  id: string;
+  name: string;
+  interviewType: InterviewType;
+  competencies: ScorecardCompetency[];
+}
+
+export interface CompetencyRating {
+  rating: number;
+  notes: string;
+}
+
+export interface Scorecard {
+  id: string;
+  interviewId: string;
+  templateId: string;
+  interviewerId: string;
+  interviewerName: string;
+  recommendation: ScorecardRecommendation | null;
+  notes: string;
+  status: 'draft' | 'submitted';
+  submittedAt: string | null;
+  ratings: Record<string, CompetencyRating>;
+}
+
+export interface CompetencyAggregate {
+  key: string;
+  label: string;
+  weight: number;
+  ratings: { interviewerName: string; rating: number; notes: string }[];
+  average: number;
+  // Highest minus lowest rating
+  spread: number;
+  disagreement: boolean;
+}
+
+export type PanelDecision = 'hire' | 'no_hire' | 'mixed' | 'pending';
+
+export interface ScorecardAggregate {
+  decision: PanelDecision;
+  panelists: number;
+  // Mean of each panelist's weighted rating, 1-4
+  weightedAverage: number;
+  votes: Record<ScorecardRecommendation, number>;
+  // Panelists split between hire and no-hire
+  recommendationsDisagree: boolean;
+  competencies: CompetencyAggregate[];
+  scorecards: Scorecard[];
+}
+
+export class ScorecardError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'ScorecardError';
+    this.code = code;
+  }
+}
+
+type ScorecardRow = Tables<'interview_scorecards'> & {
+  interviewer: Pick<Tables<'hr_members'>, 'first_name' | 'last_name'> | null;
+  scorecard_ratings: Tables<'scorecard_ratings'>[];
+};
+
+const toTemplate = (row: Tables<'scorecard_templates'>): ScorecardTemplate => ({
+  id: row.id,
+  name: row.name,
+  interviewType: row.interview_type,
+  competencies: row.competencies as unknown as ScorecardCompetency[]
+});
+
+const toScorecard = (row: ScorecardRow): Scorecard => ({
+  id: row.id,
+  interviewId: row.interview_id,
+  templateId: row.template_id,
+  interviewerId: row.interviewer_id,
+  interviewerName: row.interviewer ? `${row.interviewer.first_name} ${row.interviewer.last_name}` : 'Interviewer',
+  recommendation: row.recommendation as ScorecardRecommendation | null,
+  notes: row.notes ?? '',
+  status: row.status as Scorecard['status'],
+  submittedAt: row.submitted_at,
+  ratings: Object.fromEntries(
+    row.scorecard_ratings.map(rating => [rating.competency_key, { rating: rating.rating, notes: rating.notes ?? '' }])
+  )
+});
+
+// ---------- Aggregation ----------
+
+/**
+ * A panelist's ratings weighted by the template, 1-4
+ */
+export const weightedRating = (scorecard: Scorecard, template: ScorecardTemplate) => {
+  let total = 0;
+  let weights = 0;
+  for (const competency of template.competencies) {
+    const rated = scorecard.ratings[competency.key];
+    if (!rated) continue;
+    total += rated.rating * competency.weight;
+    weights += competency.weight;
+  }
+  return weights > 0 ? total / weights : 0;
+};
+
+/**
+ * Combine the submitted scorecards of one or more interviews. Competencies are
+ * matched by key across templates, so a candidate's panel, technical and
+ * behavioral rounds roll up into one view.
+ */
+export const aggregateScorecards = (
+  scorecards: Scorecard[],
+  templates: Map<string, ScorecardTemplate>
+): ScorecardAggregate => {
+  const submitted = scorecards.filter(scorecard => scorecard.status === 'submitted' && templates.has(scorecard.templateId));
+  const votes: Record<ScorecardRecommendation, number> = { strong_no_hire: 0, no_hire: 0, hire: 0, strong_hire: 0 };
+  submitted.forEach(scorecard => {
+    if (scorecard.recommendation) votes[scorecard.recommendation]++;
+  });
+
+  const competencies = new Map<string, CompetencyAggregate>();
+  for (const scorecard of submitted) {
+    for (const competency of templates.get(scorecard.templateId)!.competencies) {
+      const rated = scorecard.ratings[competency.key];
+      if (!rated) continue;
+      const entry = competencies.get(competency.key) ?? {
+        key: competency.key,
+        label: competency.label,
+        weight: competency.weight,
+        ratings: [],
+        average: 0,
+        spread: 0,
+        disagreement: false
+      };
+      entry.ratings.push({ interviewerName: scorecard.interviewerName, rating: rated.rating, notes: rated.notes });
+      competencies.set(competency.key, entry);
+    }
+  }
+  for (const entry of competencies.values()) {
+    const values = entry.ratings.map(({ rating }) => rating);
+    entry.average = values.reduce((sum, value) => sum + value, 0) / values.length;
+    entry.spread = Math.max(...values) - Math.min(...values);
+    entry.disagreement = entry.spread >= DISAGREEMENT_SPREAD;
+  }
+
+  const weightedAverage = submitted.length > 0
+    ? submitted.reduce((sum, scorecard) => sum + weightedRating(scorecard, templates.get(scorecard.templateId)!), 0) / submitted.length
+    : 0;
+  const hireVotes = votes.hire + votes.strong_hire;
+  const noHireVotes = votes.no_hire + votes.strong_no_hire;
+
+  let decision: PanelDecision;
+  if (submitted.length === 0) decision = 'pending';
+  else if (noHireVotes === 0 && weightedAverage >= HIRE_THRESHOLD) decision = 'hire';
+  else if (hireVotes === 0 || weightedAverage < NO_HIRE_THRESHOLD) decision = 'no_hire';
+  else decision = 'mixed';
+
+  return {
+    decision,
+    panelists: submitted.length,
+    weightedAverage,
+    votes,
+    recommendationsDisagree: hireVotes > 0 && noHireVotes > 0,
+    competencies: [...competencies.values()].sort((a, b) => b.weight - a.weight),
+    scorecards: submitted
+  };
+};
+
+// ---------- Data ----------
+
+/**
+ * The company's template for an interview type, or the built-in one
+ */
+export const fetchScorecardTemplate = async (interviewType: InterviewType): Promise<ScorecardTemplate | null> => {
+  const { data, error } = await supabase
+    .from('scorecard_templates')
+    .select('*')
+    .eq('interview_type', interviewType)
+    .order('company_id', { ascending: true, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new ScorecardError(error.message, error.code);
+  return data ? toTemplate(data) : null;
+};
+
+/**
+ * Scorecards for a set of interviews with the templates they were filled on
+ */
+export const fetchScorecards = async (
+  interviewIds: string[]
+): Promise<{ scorecards: Scorecard[]; templates: Map<string, ScorecardTemplate> }> => {
+  if (interviewIds.length === 0) return { scorecards: [], templates: new Map() };
+
+  const { data, error } = await supabase
+    .from('interview_scorecards')
+    .select('*, interviewer:hr_members!interview_scorecards_interviewer_id_fkey ( first_name, last_name ), scorecard_ratings ( * )')
+    .in('interview_id', interviewIds);
+  if (error) throw new ScorecardError(error.message, error.code);
+
+  const scorecards = ((data ?? []) as ScorecardRow[]).map(toScorecard);
+  const templateIds = [...new Set(scorecards.map(scorecard => scorecard.templateId))];
+  if (templateIds.length === 0) return { scorecards, templates: new Map() };
+
+  const { data: templateRows, error: templateError } = await supabase
+    .from('scorecard_templates')
+    .select('*')
+    .in('id', templateIds);
+  if (templateError) throw new ScorecardError(templateError.message, templateError.code);
+
+  return { scorecards, templates: new Map((templateRows ?? []).map(row => [row.id, toTemplate(row)])) };
+};
+
+/**
+ * Every scorecard from every interview of an application
+ */
+export const fetchApplicationScorecards = async (applicationId: string) => {
+  const { data, error } = await supabase.from('interviews').select('id').eq('application_id', applicationId);
+  if (error) throw new ScorecardError(error.message, error.code);
+  return fetchScorecards((data ?? []).map(interview => interview.id));
+};
+
+/**
+ * Save the current interviewer's scorecard, submitting it when `submit` is set.
+ * Submitted scorecards are final.
+ */
+export const saveScorecard = async ({
+  interviewId,
+  templateId,
+  interviewerId,
+  recommendation,
+  notes,
+  ratings,
+  submit
+}: {
+  interviewId: string;
+  templateId: string;
+  interviewerId: string;
+  recommendation: ScorecardRecommendation | null;
+  notes: string;
+  ratings: Record<string, CompetencyRating>;
+  submit: boolean;
+}): Promise<void> => {
+  if (submit && !recommendation) throw new ScorecardError('Choose a recommendation before submitting');
+
+  const { data: scorecard, error } = await supabase
+    .from('interview_scorecards')
+    .upsert(
+      { interview_id: interviewId, template_id: templateId, interviewer_id: interviewerId, recommendation, notes: notes.trim() || null },
+      { onConflict: 'interview_id,interviewer_id' }
+    )
+    .select('id')
+    .single();
+  if (error) throw new ScorecardError(error.message, error.code);
+
+  const rows = Object.entries(ratings).map(([competencyKey, { rating, notes: ratingNotes }]) => ({
+    scorecard_id: scorecard.id,
+    competency_key: competencyKey,
+    rating,
+    notes: ratingNotes.trim() || null
+  }));
+  if (rows.length > 0) {
+    const { error: ratingsError } = await supabase
+      .from('scorecard_ratings')
+      .upsert(rows, { onConflict: 'scorecard_id,competency_key' });
+    if (ratingsError) throw new ScorecardError(ratingsError.message, ratingsError.code);
+  }
+
+  if (submit) {
+    const { error: submitError } = await supabase
+      .from('interview_scorecards')
+      .update({ status: 'submitted' })
+      .eq('id', scorecard.id);
+    if (submitError) throw new ScorecardError(submitError.message, submitError.code);
+  }
+};
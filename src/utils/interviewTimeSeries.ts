@@ -0,0 +1,304 @@
+import type { BehaviorAnalysis, EmotionData, InterviewMessage, InterviewSession } from './interviewDataStorage';
+
+// Downsampled emotion and behavior streams. Raw samples arrive several times a
+// second; reports only need fixed windows (min/mean/max per window) and how
+// those windows line up with the conversation, so sessions keep a rolling
+// aggregate next to the raw frames.
+
+export const DEFAULT_WINDOW_MS = 10000;
+
+export const EMOTION_KEYS = ['happy', 'sad', 'surprised', 'neutral', 'disgusted', 'angry', 'fearful'] as const;
+
+export type EmotionKey = typeof EMOTION_KEYS[number];
+
+export interface SeriesStats {
+  min: number;
+  mean: number;
+  max: number;
+}
+
+export interface EmotionBucket {
+  // Window start (epoch ms); the window covers [start, start + windowMs)
+  start: number;
+  samples: number;
+  dominant: string;
+  // How often each emotion was the dominant one in this window
+  dominantCounts: Record<string, number>;
+  confidence: SeriesStats;
+  scores: Record<EmotionKey, SeriesStats>;
+}
+
+export interface BehaviorBucket {
+  start: number;
+  samples: number;
+  // Share of samples with eye contact / hands visible / good posture (0-1)
+  eyeContactRatio: number;
+  handPresenceRatio: number;
+  goodPostureRatio: number;
+  // The tracker reports running counters, so the window keeps their maximum
+  notFacingCounter: number;
+  notFacingDuration: number;
+  badPostureDetectionCounter: number;
+  badPostureDuration: number;
+}
+
+export interface SessionTimeSeries {
+  windowMs: number;
+  emotions: EmotionBucket[];
+  behavior: BehaviorBucket[];
+}
+
+export interface TurnArc {
+  // 0-based index of the interviewer question
+  questionIndex: number;
+  question: InterviewMessage;
+  answer?: InterviewMessage;
+  start: number;
+  end: number;
+  emotions: EmotionBucket[];
+  behavior: BehaviorBucket[];
+  dominant: string | null;
+  meanConfidence: number | null;
+  eyeContactRatio: number | null;
+}
+
+const windowStart = (timestamp: number, windowMs: number) => Math.floor(timestamp / windowMs) * windowMs;
+
+const toMs = (timestamp: Date | string | number) => new Date(timestamp).getTime();
+
+const newStats = (value: number): SeriesStats => ({ min: value, mean: value, max: value });
+
+// Running mean: the bucket already holds `count` samples before this one
+const addToStats = (stats: SeriesStats, value: number, count: number): SeriesStats => ({
+  min: Math.min(stats.min, value),
+  mean: stats.mean + (value - stats.mean) / (count + 1),
+  max: Math.max(stats.max, value)
+});
+
+const runningRatio = (ratio: number, value: boolean, count: number) =>
+  ratio + ((value ? 1 : 0) - ratio) / (count + 1);
+
+const topKey = (counts: Record<string, number>) =>
+  Object.entries(counts).reduce((best, entry) => (entry[1] > best[1] ? entry : best), ['', -1])[0];
+
+export const createTimeSeries = (windowMs = DEFAULT_WINDOW_MS): SessionTimeSeries => ({
+  windowMs,
+  emotions: [],
+  behavior: []
+});
+
+/**
+ * Fold one emotion sample into the series. Samples are expected in time
+ * order; returns true when the sample opened a new window.
+ */
+export const addEmotionSample = (series: SessionTimeSeries, emotion: EmotionData): boolean => {
+  const start = windowStart(toMs(emotion.timestamp), series.windowMs);
+  const last = series.emotions[series.emotions.length - 1];
+
+  if (!last || last.start !== start) {
+    series.emotions.push({
+      start,
+      samples: 1,
+      dominant: emotion.dominant,
+      dominantCounts: { [emotion.dominant]: 1 },
+      confidence: newStats(emotion.confidence),
+      scores: Object.fromEntries(
+        EMOTION_KEYS.map(key => [key, newStats(emotion.scores?.[key] ?? 0)])
+      ) as Record<EmotionKey, SeriesStats>
+    });
+    return true;
+  }
+
+  const count = last.samples;
+  last.dominantCounts[emotion.dominant] = (last.dominantCounts[emotion.dominant] || 0) + 1;
+  last.dominant = topKey(last.dominantCounts);
+  last.confidence = addToStats(last.confidence, emotion.confidence, count);
+  EMOTION_KEYS.forEach(key => {
+    last.scores[key] = addToStats(last.scores[key], emotion.scores?.[key] ?? 0, count);
+  });
+  last.samples = count + 1;
+  return false;
+};
+
+export const addBehaviorSample = (series: SessionTimeSeries, behavior: BehaviorAnalysis): boolean => {
+  const start = windowStart(toMs(behavior.timestamp), series.windowMs);
+  const last = series.behavior[series.behavior.length - 1];
+
+  if (!last || last.start !== start) {
+    series.behavior.push({
+      start,
+      samples: 1,
+      eyeContactRatio: behavior.eyeContact ? 1 : 0,
+      handPresenceRatio: behavior.handPresence ? 1 : 0,
+      goodPostureRatio: behavior.posture === 'good' ? 1 : 0,
+      notFacingCounter: behavior.notFacingCounter,
+      notFacingDuration: behavior.notFacingDuration,
+      badPostureDetectionCounter: behavior.badPostureDetectionCounter,
+      badPostureDuration: behavior.badPostureDuration
+    });
+    return true;
+  }
+
+  const count = last.samples;
+  last.eyeContactRatio = runningRatio(last.eyeContactRatio, behavior.eyeContact, count);
+  last.handPresenceRatio = runningRatio(last.handPresenceRatio, behavior.handPresence, count);
+  last.goodPostureRatio = runningRatio(last.goodPostureRatio, behavior.posture === 'good', count);
+  last.notFacingCounter = Math.max(last.notFacingCounter, behavior.notFacingCounter);
+  last.notFacingDuration = Math.max(last.notFacingDuration, behavior.notFacingDuration);
+  last.badPostureDetectionCounter = Math.max(last.badPostureDetectionCounter, behavior.badPostureDetectionCounter);
+  last.badPostureDuration = Math.max(last.badPostureDuration, behavior.badPostureDuration);
+  last.samples = count + 1;
+  return false;
+};
+
+/**
+ * Build a series from raw samples (sessions recorded before rollups existed)
+ */
+export const buildTimeSeries = (
+  emotions: EmotionData[],
+  behavior: BehaviorAnalysis[],
+  windowMs = DEFAULT_WINDOW_MS
+): SessionTimeSeries => {
+  const series = createTimeSeries(windowMs);
+  const byTime = <T extends { timestamp: Date }>(items: T[]) =>
+    [...items].sort((a, b) => toMs(a.timestamp) - toMs(b.timestamp));
+  byTime(emotions).forEach(emotion => addEmotionSample(series, emotion));
+  byTime(behavior).forEach(sample => addBehaviorSample(series, sample));
+  return series;
+};
+
+/**
+ * Merge adjacent windows into coarser ones (e.g. 1s into 10s)
+ */
+export const resampleTimeSeries = (series: SessionTimeSeries, windowMs: number): SessionTimeSeries => {
+  if (windowMs <= series.windowMs) return series;
+
+  const mergeStats = (a: SeriesStats, aCount: number, b: SeriesStats, bCount: number): SeriesStats => ({
+    min: Math.min(a.min, b.min),
+    mean: (a.mean * aCount + b.mean * bCount) / (aCount + bCount),
+    max: Math.max(a.max, b.max)
+  });
+  const mergeRatio = (a: number, aCount: number, b: number, bCount: number) =>
+    (a * aCount + b * bCount) / (aCount + bCount);
+
+  const emotions: EmotionBucket[] = [];
+  for (const bucket of series.emotions) {
+    const start = windowStart(bucket.start, windowMs);
+    const last = emotions[emotions.length - 1];
+    if (!last || last.start !== start) {
+      emotions.push({ ...bucket, start, dominantCounts: { ...bucket.dominantCounts }, scores: { ...bucket.scores } });
+      continue;
+    }
+    Object.entries(bucket.dominantCounts).forEach(([key, count]) => {
+      last.dominantCounts[key] = (last.dominantCounts[key] || 0) + count;
+    });
+    last.dominant = topKey(last.dominantCounts);
+    last.confidence = mergeStats(last.confidence, last.samples, bucket.confidence, bucket.samples);
+    EMOTION_KEYS.forEach(key => {
+      last.scores[key] = mergeStats(last.scores[key], last.samples, bucket.scores[key], bucket.samples);
+    });
+    last.samples += bucket.samples;
+  }
+
+  const behavior: BehaviorBucket[] = [];
+  for (const bucket of series.behavior) {
+    const start = windowStart(bucket.start, windowMs);
+    const last = behavior[behavior.length - 1];
+    if (!last || last.start !== start) {
+      behavior.push({ ...bucket, start });
+      continue;
+    }
+    last.eyeContactRatio = mergeRatio(last.eyeContactRatio, last.samples, bucket.eyeContactRatio, bucket.samples);
+    last.handPresenceRatio = mergeRatio(last.handPresenceRatio, last.samples, bucket.handPresenceRatio, bucket.samples);
+    last.goodPostureRatio = mergeRatio(last.goodPostureRatio, last.samples, bucket.goodPostureRatio, bucket.samples);
+    last.notFacingCounter = Math.max(last.notFacingCounter, bucket.notFacingCounter);
+    last.notFacingDuration = Math.max(last.notFacingDuration, bucket.notFacingDuration);
+    last.badPostureDetectionCounter = Math.max(last.badPostureDetectionCounter, bucket.badPostureDetectionCounter);
+    last.badPostureDuration = Math.max(last.badPostureDuration, bucket.badPostureDuration);
+    last.samples += bucket.samples;
+  }
+
+  return { windowMs, emotions, behavior };
+};
+
+/**
+ * The session's series at the requested resolution, preferring the stored
+ * rollup over recomputing from raw samples
+ */
+export const getSessionTimeSeries = (session: InterviewSession, windowMs = DEFAULT_WINDOW_MS): SessionTimeSeries => {
+  const stored = session.timeSeries;
+  if (stored && stored.windowMs <= windowMs && windowMs % stored.windowMs === 0) {
+    return resampleTimeSeries(stored, windowMs);
+  }
+  return buildTimeSeries(session.emotions, session.behaviorAnalysis, windowMs);
+};
+
+/**
+ * Split the series into interviewer turns: each question runs until the
+ * next one (or the end of the session) and includes the answer given to it
+ */
+export const alignToTurns = (session: InterviewSession, series: SessionTimeSeries): TurnArc[] => {
+  const messages = [...session.messages].sort((a, b) => toMs(a.timestamp) - toMs(b.timestamp));
+  const questions = messages.filter(message => message.role === 'hr');
+  const lastSampleEnd = Math.max(
+    0,
+    ...series.emotions.map(bucket => bucket.start + series.windowMs),
+    ...series.behavior.map(bucket => bucket.start + series.windowMs)
+  );
+  const sessionEnd = session.endTime ? toMs(session.endTime) : lastSampleEnd;
+
+  return questions.map((question, questionIndex) => {
+    const start = toMs(question.timestamp);
+    const next = questions[questionIndex + 1];
+    const end = Math.max(start, next ? toMs(next.timestamp) : sessionEnd);
+    // Each window belongs to the turn its start falls in
+    const from = windowStart(start, series.windowMs);
+    const to = next ? windowStart(end, series.windowMs) : Infinity;
+    const inTurn = (bucket: { start: number }) => bucket.start >= from && bucket.start < to;
+
+    const emotions = series.emotions.filter(inTurn);
+    const behavior = series.behavior.filter(inTurn);
+    const emotionSamples = emotions.reduce((sum, bucket) => sum + bucket.samples, 0);
+    const behaviorSamples = behavior.reduce((sum, bucket) => sum + bucket.samples, 0);
+    const dominantCounts = emotions.reduce((acc, bucket) => {
+      Object.entries(bucket.dominantCounts).forEach(([key, count]) => {
+        acc[key] = (acc[key] || 0) + count;
+      });
+      return acc;
+    }, {} as Record<string, number>);
+
+    return {
+      questionIndex,
+      question,
+      answer: messages.find(message =>
+        message.role === 'candidate' && toMs(message.timestamp) >= start && toMs(message.timestamp) < end
+      ),
+      start,
+      end,
+      emotions,
+      behavior,
+      dominant: emotionSamples > 0 ? topKey(dominantCounts) : null,
+      meanConfidence: emotionSamples > 0
+        ? emotions.reduce((sum, bucket) => sum + bucket.confidence.mean * bucket.samples, 0) / emotionSamples
+        : null,
+      eyeContactRatio: behaviorSamples > 0
+        ? behavior.reduce((sum, bucket) => sum + bucket.eyeContactRatio * bucket.samples, 0) / behaviorSamples
+        : null
+    };
+  });
+};
+
+/**
+ * Whole-session emotion distribution (percent of samples per dominant emotion)
+ */
+export const emotionDistribution = (series: SessionTimeSeries): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  let total = 0;
+  series.emotions.forEach(bucket => {
+    Object.entries(bucket.dominantCounts).forEach(([key, count]) => {
+      counts[key] = (counts[key] || 0) + count;
+      total += count;
+    });
+  });
+  return Object.fromEntries(Object.entries(counts).map(([key, count]) => [key, total > 0 ? count / total * 100 : 0]));
+};
@@ -0,0 +1,31 @@
+// Verifies Merkle inclusion proofs built by supabase/functions/_shared/merkleTree.ts:
+// a leaf is SHA-256(0x00 || certificate hash), a node SHA-256(0x01 || left || right).
+
+import type { MerkleProofStep } from '@/types/blockchain';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+
+const sha256 = async (prefix: number, ...parts: Uint8Array[]) => {
+  const data = new Uint8Array(1 + parts.reduce((length, part) => length + part.length, 0));
+  data[0] = prefix;
+  let offset = 1;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+/**
+ * The root a certificate hash and its proof lead to
+ */
+export const merkleRootFromProof = async (certHash: string, proof: MerkleProofStep[]) => {
+  let node = await sha256(0x00, fromHex(certHash));
+  for (const step of proof) {
+    const sibling = fromHex(step.hash);
+    node = step.side === 'left' ? await sha256(0x01, sibling, node) : await sha256(0x01, node, sibling);
+  }
+  return toHex(node);
+};
@@ -0,0 +1,115 @@
+// Hiring pipeline data for the HR board. Stage changes go through the
+// move_application_stage database function, which validates the transition,
+// logs it to activity_logs and notifies the candidate.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, type Enums, type Tables } from '@/integrations/supabase/types';
+
+export type PipelineStage = Enums<'candidate_pipeline_status_type'>;
+
+// Board columns, in the enum's order
+export const PIPELINE_STAGES: readonly PipelineStage[] = Constants.public.Enums.candidate_pipeline_status_type;
+
+export type PipelineTransitions = Record<PipelineStage, PipelineStage[]>;
+
+export type PipelineCandidate = Pick<
+  Tables<'candidates'>,
+  'id' | 'first_name' | 'last_name' | 'email' | 'skills' | 'experience_years' | 'user_profile_id'
+>;
+
+export interface PipelineApplication extends Tables<'applications'> {
+  candidate: PipelineCandidate | null;
+}
+
+export interface PipelineTransitionLog {
+  id: string;
+  timestamp: string;
+  actorId: string | null;
+  fromStage: PipelineStage;
+  toStage: PipelineStage;
+  note: string | null;
+}
+
+export class PipelineError extends Error {
+  // Postgres error code, e.g. 22023 for a disallowed transition
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'PipelineError';
+    this.code = code;
+  }
+}
+
+/**
+ * The allowed moves out of each stage
+ */
+export const fetchPipelineTransitions = async (): Promise<PipelineTransitions> => {
+  const { data, error } = await supabase.from('pipeline_stage_transitions').select('from_stage, to_stage');
+  if (error) throw new PipelineError(error.message, error.code);
+
+  const transitions = Object.fromEntries(PIPELINE_STAGES.map(stage => [stage, []])) as PipelineTransitions;
+  for (const { from_stage, to_stage } of data ?? []) {
+    transitions[from_stage].push(to_stage);
+  }
+  return transitions;
+};
+
+/**
+ * All applications for a job with their candidates
+ */
+export const fetchJobPipeline = async (jobId: string): Promise<PipelineApplication[]> => {
+  const { data, error } = await supabase
+    .from('applications')
+    .select('*, candidate:candidates!applications_candidate_id_fkey (id, first_name, last_name, email, skills, experience_years, user_profile_id)')
+    .eq('job_id', jobId)
+    .order('updated_at', { ascending: false });
+  if (error) throw new PipelineError(error.message, error.code);
+
+  return (data ?? []) as PipelineApplication[];
+};
+
+/**
+ * Move an application to another stage. Rejected by the database when the
+ * transition is not allowed or the caller is not on the job's hiring team.
+ */
+export const moveApplicationStage = async (
+  applicationId: string,
+  toStage: PipelineStage,
+  note?: string
+): Promise<Tables<'applications'>> => {
+  const { data, error } = await supabase.rpc('move_application_stage', {
+    p_application_id: applicationId,
+    p_to_stage: toStage,
+    p_note: note
+  });
+  if (error) throw new PipelineError(error.message, error.code);
+
+  return data;
+};
+
+/**
+ * Stage history of an application, newest first
+ */
+export const fetchTransitionHistory = async (applicationId: string): Promise<PipelineTransitionLog[]> => {
+  const { data, error } = await supabase
+    .from('activity_logs')
+    .select('id, timestamp, user_profile_id, details')
+    .eq('entity_type', 'application')
+    .eq('entity_id', applicationId)
+    .eq('activity_type', 'application_stage_changed')
+    .order('timestamp', { ascending: false });
+  if (error) throw new PipelineError(error.message, error.code);
+
+  return (data ?? []).map(log => {
+    const details = (log.details ?? {}) as { from_stage?: PipelineStage; to_stage?: PipelineStage; note?: string | null };
+    return {
+      id: log.id,
+      timestamp: log.timestamp,
+      actorId: log.user_profile_id,
+      fromStage: details.from_stage ?? 'Applied',
+      toStage: details.to_stage ?? 'Applied',
+      note: details.note ?? null
+    };
+  });
+};
@@ -0,0 +1,236 @@
+import { sha256 } from 'js-sha256';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { canonicalJSON } from './canonicalJson';
+import type { ProctoringEvent } from './unifiedDetectionManager';
+
+// Tamper-evident evidence trail for proctoring violations. Every entry holds
+// the policy decision, the detections and a downscaled camera frame, and is
+// hashed together with the previous entry's hash; editing, reordering or
+// removing an entry breaks every hash after it. Entries cut off the end are
+// caught by the head hash the session keeps (evidenceHeadHash).
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface EvidenceDetection {
+  class: string;
+  score: number;
+  bbox: [number, number, number, number];
+}
+
+export interface EvidenceEntry {
+  sessionId: string;
+  sequence: number;
+  timestamp: string;
+  event: ProctoringEvent;
+  detections: EvidenceDetection[];
+  // JPEG data URL; hashed separately so the chain can be checked without it
+  snapshot: string | null;
+  snapshotHash: string | null;
+  previousHash: string;
+  hash: string;
+}
+
+export interface EvidenceVerification {
+  valid: boolean;
+  checked: number;
+  // Sequence number of the first entry that fails, if any
+  brokenAt?: number;
+  reason?: string;
+}
+
+export const hashEvidenceEntry = (entry: Omit<EvidenceEntry, 'hash' | 'snapshot'>): string =>
+  sha256(canonicalJSON({
+    sessionId: entry.sessionId,
+    sequence: entry.sequence,
+    // Epoch ms rather than the ISO string, which Postgres re-formats
+    timestamp: new Date(entry.timestamp).getTime(),
+    event: entry.event,
+    detections: entry.detections,
+    snapshotHash: entry.snapshotHash,
+    previousHash: entry.previousHash
+  }));
+
+/**
+ * Grab a downscaled JPEG of the current video frame
+ */
+export const captureSnapshot = (video: HTMLVideoElement | null, maxWidth = 320, quality = 0.6): string | null => {
+  if (!video || video.readyState < 2 || !video.videoWidth) return null;
+  try {
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+  } catch (error) {
+    console.error('Error capturing evidence snapshot:', error);
+    return null;
+  }
+};
+
+/**
+ * Recompute every hash and link in the chain, and check that it reaches the
+ * head recorded with the session when there is one
+ */
+export const verifyEvidenceChain = (entries: EvidenceEntry[], headHash?: string | null): EvidenceVerification => {
+  const ordered = [...entries].sort((a, b) => a.sequence - b.sequence);
+  let previousHash = GENESIS_HASH;
+
+  for (let index = 0; index < ordered.length; index++) {
+    const entry = ordered[index];
+    const fail = (reason: string): EvidenceVerification =>
+      ({ valid: false, checked: index, brokenAt: entry.sequence, reason });
+
+    if (entry.sequence !== index) {
+      return fail(`Expected entry #${index}, found #${entry.sequence} (entry missing)`);
+    }
+    if (entry.previousHash !== previousHash) {
+      return fail('Link to the previous entry does not match');
+    }
+    if (entry.snapshot && sha256(entry.snapshot) !== entry.snapshotHash) {
+      return fail('Snapshot was modified');
+    }
+    if (hashEvidenceEntry(entry) !== entry.hash) {
+      return fail('Entry contents were modified');
+    }
+    previousHash = entry.hash;
+  }
+
+  // Entries after the head were recorded after the session last synced
+  if (headHash && !ordered.some(entry => entry.hash === headHash)) {
+    return {
+      valid: false,
+      checked: ordered.length,
+      brokenAt: ordered.length,
+      reason: 'Chain ends before the last entry the session recorded (entries missing)'
+    };
+  }
+
+  return { valid: true, checked: ordered.length };
+};
+
+interface EvidenceRow {
+  session_id: string;
+  sequence: number;
+  recorded_at: string;
+  event: Json;
+  detections: Json;
+  snapshot: string | null;
+  snapshot_hash: string | null;
+  previous_hash: string;
+  hash: string;
+}
+
+export const evidenceEntryFromRow = (row: EvidenceRow): EvidenceEntry => ({
+  sessionId: row.session_id,
+  sequence: row.sequence,
+  timestamp: row.recorded_at,
+  event: row.event as unknown as ProctoringEvent,
+  detections: (row.detections as unknown as EvidenceDetection[]) || [],
+  snapshot: row.snapshot,
+  snapshotHash: row.snapshot_hash,
+  previousHash: row.previous_hash,
+  hash: row.hash
+});
+
+export interface EvidenceLogContext {
+  sessionId: string;
+  candidateName: string;
+  jobId?: string | null;
+  jobTitle?: string;
+}
+
+/**
+ * Append-only evidence log for one interview session. Entries are chained
+ * locally and uploaded in order; a failed upload is retried with the next one.
+ */
+export const createEvidenceLog = (context: EvidenceLogContext) => {
+  let previousHash = GENESIS_HASH;
+  let sequence = 0;
+  const pending: EvidenceEntry[] = [];
+  let uploading: Promise<void> = Promise.resolve();
+
+  const upload = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      console.warn('🔒 Not signed in, keeping evidence locally only');
+      return;
+    }
+
+    while (pending.length > 0) {
+      const entry = pending[0];
+      const { error } = await supabase.from('proctoring_evidence').insert({
+        user_id: user.id,
+        session_id: entry.sessionId,
+        job_id: context.jobId ?? null,
+        candidate_name: context.candidateName,
+        job_title: context.jobTitle ?? null,
+        sequence: entry.sequence,
+        recorded_at: entry.timestamp,
+        event: entry.event as unknown as Json,
+        detections: entry.detections as unknown as Json,
+        snapshot: entry.snapshot,
+        snapshot_hash: entry.snapshotHash,
+        previous_hash: entry.previousHash,
+        hash: entry.hash
+      });
+      if (error) {
+        console.error('❌ Failed to upload proctoring evidence:', error);
+        return;
+      }
+      pending.shift();
+    }
+  };
+
+  const append = (event: ProctoringEvent, detections: EvidenceDetection[], snapshot: string | null): EvidenceEntry => {
+    const unsigned = {
+      sessionId: context.sessionId,
+      sequence,
+      timestamp: new Date(event.timestamp).toISOString(),
+      event,
+      detections,
+      snapshotHash: snapshot ? sha256(snapshot) : null,
+      previousHash
+    };
+    const entry: EvidenceEntry = { ...unsigned, snapshot, hash: hashEvidenceEntry(unsigned) };
+
+    previousHash = entry.hash;
+    sequence += 1;
+    pending.push(entry);
+    uploading = uploading.then(upload).catch(error => console.error('❌ Evidence upload error:', error));
+    return entry;
+  };
+
+  return {
+    append,
+    getHeadHash: () => previousHash,
+    flush: () => uploading
+  };
+};
+
+/**
+ * Load the evidence log of one candidate's session (HR view)
+ */
+export const fetchEvidenceLog = async (sessionId: string, userId: string): Promise<EvidenceEntry[]> => {
+  const { data, error } = await supabase
+    .from('proctoring_evidence')
+    .select('session_id, sequence, recorded_at, event, detections, snapshot, snapshot_hash, previous_hash, hash')
+    .eq('user_id', userId)
+    .eq('session_id', sessionId)
+    .order('sequence', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(evidenceEntryFromRow);
+};
+
+/**
+ * The hash of the session's last evidence entry, as recorded with the session;
+ * null when the session hasn't synced one
+ */
+export const fetchEvidenceHead = async (sessionId: string, userId: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('proctoring_evidence_head', { p_session_id: sessionId, p_user_id: userId });
+
+  if (error) throw error;
+  return data ?? null;
+};
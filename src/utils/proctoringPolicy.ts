@@ -0,0 +1,213 @@
+import { z } from 'zod';
+
+// Proctoring policies decide which violations the detection manager watches for,
+// how long a condition must persist before it counts, how strikes decay and what
+// happens as they add up. A policy is plain JSON so it can be stored on a job
+// and copied into every interview session run under it.
+
+export const VIOLATION_TYPES = [
+  'phone',
+  'multiplePeople',
+  'noFace',
+  'lookingAway',
+  'tabSwitch',
+  'secondScreen',
+  'book',
+  'secondVoice'
+] as const;
+
+export type ViolationType = typeof VIOLATION_TYPES[number];
+
+// Ordered from mildest to most severe
+export const PROCTORING_ACTIONS = ['warn', 'pause', 'flag', 'terminate'] as const;
+
+export type ProctoringAction = typeof PROCTORING_ACTIONS[number];
+
+export interface EscalationStep {
+  // Action applies once the active strike count for the type reaches this value
+  atStrike: number;
+  action: ProctoringAction;
+}
+
+export interface ViolationRule {
+  enabled: boolean;
+  // How long the condition must persist before it counts as a strike
+  graceMs: number;
+  // Minimum time between two strikes of the same type
+  cooldownMs: number;
+  // Contribution of one strike to the weighted session score
+  weight: number;
+  escalation: EscalationStep[];
+}
+
+export interface ProctoringPolicy {
+  version: 1;
+  name: string;
+  // How long detection is suspended after a 'pause' action
+  pauseMs: number;
+  // Strikes older than this expire; 0 keeps them for the whole interview
+  strikeDecayMs: number;
+  // Weighted score across all types that flags the session / ends the interview; 0 disables
+  flagAtScore: number;
+  terminateAtScore: number;
+  rules: Record<ViolationType, ViolationRule>;
+}
+
+export const VIOLATION_LABELS: Record<ViolationType, string> = {
+  phone: 'Mobile phone',
+  multiplePeople: 'Multiple people',
+  noFace: 'Face not visible',
+  lookingAway: 'Looking away',
+  tabSwitch: 'Tab switch',
+  secondScreen: 'Second screen',
+  book: 'Book or notes',
+  secondVoice: 'Second voice'
+};
+
+const escalate = (...actions: ProctoringAction[]): EscalationStep[] =>
+  actions.map((action, index) => ({ atStrike: index + 1, action }));
+
+const rule = (overrides: Partial<ViolationRule> = {}): ViolationRule => ({
+  enabled: true,
+  graceMs: 0,
+  cooldownMs: 5000,
+  weight: 1,
+  escalation: escalate('pause', 'pause', 'terminate'),
+  ...overrides
+});
+
+/**
+ * Default policy. Phone and multiple-people keep the original behaviour:
+ * warn and pause for 5s on each strike, terminate on the third.
+ */
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  version: 1,
+  name: 'Standard',
+  pauseMs: 5000,
+  strikeDecayMs: 0,
+  flagAtScore: 4,
+  terminateAtScore: 0,
+  rules: {
+    phone: rule({ weight: 2 }),
+    multiplePeople: rule({ weight: 2 }),
+    noFace: rule({ graceMs: 7000, cooldownMs: 10000, escalation: escalate('warn', 'pause', 'flag') }),
+    lookingAway: rule({ graceMs: 8000, cooldownMs: 20000, weight: 0.5, escalation: escalate('warn', 'warn', 'flag') }),
+    tabSwitch: rule({ graceMs: 1000, escalation: escalate('warn', 'pause', 'flag') }),
+    secondScreen: rule({ graceMs: 2000, weight: 1.5, escalation: escalate('warn', 'pause', 'flag') }),
+    book: rule({ graceMs: 2000, escalation: escalate('warn', 'pause', 'flag') }),
+    secondVoice: rule({ graceMs: 1500, cooldownMs: 15000, weight: 1.5, escalation: escalate('warn', 'flag') })
+  }
+};
+
+export const PROCTORING_POLICY_PRESETS: Record<string, ProctoringPolicy> = {
+  standard: DEFAULT_PROCTORING_POLICY,
+  lenient: {
+    ...DEFAULT_PROCTORING_POLICY,
+    name: 'Lenient',
+    strikeDecayMs: 5 * 60 * 1000,
+    flagAtScore: 6,
+    rules: {
+      ...DEFAULT_PROCTORING_POLICY.rules,
+      phone: rule({ weight: 2, escalation: escalate('warn', 'pause', 'flag') }),
+      multiplePeople: rule({ weight: 2, escalation: escalate('warn', 'pause', 'flag') }),
+      lookingAway: rule({ enabled: false }),
+      secondVoice: rule({ enabled: false })
+    }
+  },
+  strict: {
+    ...DEFAULT_PROCTORING_POLICY,
+    name: 'Strict',
+    flagAtScore: 2,
+    terminateAtScore: 6,
+    rules: {
+      ...DEFAULT_PROCTORING_POLICY.rules,
+      phone: rule({ weight: 3, escalation: escalate('pause', 'terminate') }),
+      multiplePeople: rule({ weight: 3, escalation: escalate('pause', 'terminate') }),
+      noFace: rule({ graceMs: 4000, escalation: escalate('pause', 'flag', 'terminate') }),
+      lookingAway: rule({ graceMs: 5000, cooldownMs: 15000, escalation: escalate('warn', 'flag') }),
+      tabSwitch: rule({ escalation: escalate('pause', 'flag', 'terminate') }),
+      secondScreen: rule({ graceMs: 1000, weight: 2, escalation: escalate('pause', 'terminate') }),
+      book: rule({ graceMs: 1000, weight: 2, escalation: escalate('pause', 'terminate') }),
+      secondVoice: rule({ graceMs: 1000, weight: 2, escalation: escalate('warn', 'flag', 'terminate') })
+    }
+  }
+};
+
+const ruleSchema = z.object({
+  enabled: z.boolean(),
+  graceMs: z.number().min(0),
+  cooldownMs: z.number().min(0),
+  weight: z.number().min(0),
+  escalation: z.array(z.object({
+    atStrike: z.number().int().min(1),
+    action: z.enum(PROCTORING_ACTIONS)
+  }))
+}).partial();
+
+const policySchema = z.object({
+  version: z.literal(1).optional(),
+  name: z.string().optional(),
+  pauseMs: z.number().min(0).optional(),
+  strikeDecayMs: z.number().min(0).optional(),
+  flagAtScore: z.number().min(0).optional(),
+  terminateAtScore: z.number().min(0).optional(),
+  rules: z.record(z.string(), ruleSchema).optional()
+});
+
+/**
+ * Validate a stored policy (e.g. jobs.proctoring_policy) and fill in anything
+ * it leaves out from the default policy. Unknown violation types are ignored;
+ * an invalid policy falls back to the default instead of breaking the interview.
+ */
+export const parseProctoringPolicy = (value: unknown): ProctoringPolicy => {
+  if (value === null || value === undefined) {
+    return DEFAULT_PROCTORING_POLICY;
+  }
+
+  const result = policySchema.safeParse(value);
+  if (!result.success) {
+    console.warn('Invalid proctoring policy, using default:', result.error.issues);
+    return DEFAULT_PROCTORING_POLICY;
+  }
+
+  const { rules = {}, ...settings } = result.data;
+  const merged: ProctoringPolicy = {
+    ...DEFAULT_PROCTORING_POLICY,
+    ...settings,
+    version: 1,
+    rules: { ...DEFAULT_PROCTORING_POLICY.rules }
+  };
+  for (const type of VIOLATION_TYPES) {
+    if (rules[type]) {
+      merged.rules[type] = { ...DEFAULT_PROCTORING_POLICY.rules[type], ...(rules[type] as Partial<ViolationRule>) };
+    }
+  }
+  return merged;
+};
+
+/**
+ * Action for the given number of active strikes, or null when the policy
+ * does nothing yet at that count
+ */
+export const resolveAction = (rule: ViolationRule, strikes: number): ProctoringAction | null => {
+  let action: ProctoringAction | null = null;
+  let reached = 0;
+  for (const step of rule.escalation) {
+    if (step.atStrike <= strikes && step.atStrike >= reached) {
+      action = step.action;
+      reached = step.atStrike;
+    }
+  }
+  return action;
+};
+
+/**
+ * Number of strikes after which a rule terminates the interview, if it ever does
+ */
+export const strikesToTerminate = (rule: ViolationRule): number | null => {
+  const steps = rule.escalation.filter(step => step.action === 'terminate');
+  return steps.length ? Math.min(...steps.map(step => step.atStrike)) : null;
+};
+
+export const findPolicyPreset = (policy: ProctoringPolicy): string | undefined =>
+  Object.keys(PROCTORING_POLICY_PRESETS).find(key => PROCTORING_POLICY_PRESETS[key].name === policy.name);
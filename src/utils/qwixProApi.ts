@@ -1,44 +1,16 @@
 
-import { apiKeys } from "./apiKeys";
-
-// Updated API URL - the issue might be with the model name or endpoint
-const API_URL = "https://generativelanguage.googleapis.com/v1/models/gemini-1.0-pro:generateContent";
+import { callUnifiedAI, type AIFeature } from "./ai/unifiedAIService";
 
 /**
- * Generate content using the Gemini API for QwiX Pro Builder
+ * Generate content for QwiX Pro Builder through the ai-gateway
  * @param prompt The prompt to send to the API
- * @param apiKeyType The type of API key to use (default, career, or layoff)
+ * @param feature Feature whose provider fallback chain to use
  * @returns The generated content
  */
-export const generateQwiXProContent = async (prompt: string, apiKeyType: 'default' | 'career' | 'layoff' = 'default'): Promise<string> => {
-  // Select the appropriate API key based on the type
-  let apiKey = apiKeys.GEMINI_API_KEY;
-  if (apiKeyType === 'career') {
-    apiKey = apiKeys.CAREER_SIMULATOR_API_KEY;
-  } else if (apiKeyType === 'layoff') {
-    apiKey = apiKeys.LAYOFF_TOOLKIT_API_KEY;
-  }
-
+export const generateQwiXProContent = async (prompt: string, feature: AIFeature = 'general'): Promise<string> => {
   try {
-    const response = await fetch(`${API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: prompt }]
-        }]
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`API error: ${errorData.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.candidates[0].content.parts[0].text;
+    const response = await callUnifiedAI(prompt, 'gemini', { feature });
+    return response.text();
   } catch (error) {
     console.error("Error generating content with Gemini API:", error);
     throw error;
@@ -0,0 +1,284 @@
+// Bulk resume ingestion for HR: expands zip uploads, parses resumes in a pool
+// of workers (resumeBatch.worker.ts), merges duplicate candidates and ranks
+// them against a job with the deterministic ATS rules.
+
+import { unzip, type Unzipped } from 'fflate';
+import type { ParsedResume } from '@/types/interview';
+import { scoreResumeWithRules, type ATSJobTarget, type ATSRuleBreakdown } from '@/utils/atsRuleEngine';
+import { isSupportedResumeFile, resumeParser, RESUME_ACCEPT, toATSResumeInput } from '@/utils/resumeParser';
+
+// For <input accept> on bulk uploads
+export const RESUME_BATCH_ACCEPT = `${RESUME_ACCEPT},.zip`;
+export const MAX_BATCH_FILES = 1000;
+// A worker that takes longer than this on one file is assumed stuck
+const PARSE_TIMEOUT_MS = 60000;
+const NAME_SIMILARITY = 0.9;
+
+export interface ResumeBatchWorkerRequest {
+  id: number;
+  file: File;
+}
+
+export type ResumeBatchWorkerMessage =
+  | { id: number; type: 'parsed'; parsed: ParsedResume }
+  | { id: number; type: 'failed'; message: string; needsOcr: boolean };
+
+export interface BulkParseProgress {
+  done: number;
+  total: number;
+  fileName: string;
+}
+
+export interface BulkParseResult {
+  file: File;
+  parsed: ParsedResume | null;
+  error?: string;
+}
+
+export interface BulkCandidate {
+  parsed: ParsedResume;
+  source: string;
+  // Files merged into this candidate because they are the same person
+  duplicates: string[];
+}
+
+export interface RankedCandidate extends BulkCandidate {
+  score: ATSRuleBreakdown;
+}
+
+const isZip = (file: File) => file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name);
+
+const unzipAsync = (data: Uint8Array) => new Promise<Unzipped>((resolve, reject) => {
+  unzip(data, {
+    // Skip macOS resource forks and anything that is not a resume
+    filter: entry => !entry.name.startsWith('__MACOSX/') && /\.(pdf|docx|txt)$/i.test(entry.name)
+  }, (error, files) => (error ? reject(error) : resolve(files)));
+});
+
+/**
+ * Replace zip archives in an upload with the resumes inside them
+ */
+export const expandResumeUploads = async (files: File[]): Promise<{ files: File[]; skipped: string[] }> => {
+  const expanded: File[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (isZip(file)) {
+      try {
+        const entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+        for (const [path, data] of Object.entries(entries)) {
+          const name = path.split('/').pop() || path;
+          // A name-based File: the parser falls back to the extension when type is empty
+          expanded.push(new File([data], name));
+        }
+      } catch (error) {
+        console.error(`Error reading ${file.name}:`, error);
+        skipped.push(file.name);
+      }
+    } else if (isSupportedResumeFile(file)) {
+      expanded.push(file);
+    } else {
+      skipped.push(file.name);
+    }
+  }
+
+  return { files: expanded, skipped };
+};
+
+const createParseWorker = () =>
+  new Worker(new URL('./resumeBatch.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Parse one file on a worker. Resolves with a failure (never rejects) and
+ * flags the worker as unusable when it crashed or timed out.
+ */
+const parseOnWorker = (worker: Worker, id: number, file: File) =>
+  new Promise<{ message: ResumeBatchWorkerMessage; workerLost: boolean }>((resolve) => {
+    const finish = (message: ResumeBatchWorkerMessage, workerLost = false) => {
+      clearTimeout(timer);
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('error', onError);
+      resolve({ message, workerLost });
+    };
+    const onMessage = (event: MessageEvent<ResumeBatchWorkerMessage>) => {
+      if (event.data.id === id) finish(event.data);
+    };
+    const onError = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish({ id, type: 'failed', message: event.message || 'The parser crashed on this file', needsOcr: false }, true);
+    };
+    const timer = setTimeout(() => {
+      finish({ id, type: 'failed', message: 'Parsing timed out', needsOcr: false }, true);
+    }, PARSE_TIMEOUT_MS);
+
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', onError);
+    worker.postMessage({ id, file } satisfies ResumeBatchWorkerRequest);
+  });
+
+/**
+ * Parse many resumes in parallel workers. Scanned PDFs need OCR, which only
+ * runs on the page, so they are parsed one at a time after the pool finishes.
+ * Results are in the order of `files`; failures carry an error instead of a resume.
+ */
+export const parseResumesInPool = async (
+  files: File[],
+  options: { concurrency?: number; onProgress?: (progress: BulkParseProgress) => void } = {}
+): Promise<BulkParseResult[]> => {
+  const concurrency = options.concurrency ?? Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+  const results: BulkParseResult[] = files.map(file => ({ file, parsed: null }));
+  const needsOcr: number[] = [];
+  let next = 0;
+  let done = 0;
+
+  const report = (index: number) => {
+    done++;
+    options.onProgress?.({ done, total: files.length, fileName: files[index].name });
+  };
+
+  const lane = async () => {
+    let worker = createParseWorker();
+    try {
+      while (next < files.length) {
+        const index = next++;
+        const { message, workerLost } = await parseOnWorker(worker, index, files[index]);
+        if (workerLost) {
+          worker.terminate();
+          worker = createParseWorker();
+        }
+
+        if (message.type === 'parsed') {
+          results[index].parsed = message.parsed;
+        } else if (message.needsOcr) {
+          needsOcr.push(index);
+          continue;
+        } else {
+          results[index].error = message.message;
+        }
+        report(index);
+      }
+    } finally {
+      worker.terminate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, lane));
+
+  for (const index of needsOcr) {
+    try {
+      results[index].parsed = await resumeParser(files[index]);
+    } catch (error) {
+      results[index].error = error instanceof Error ? error.message : String(error);
+    }
+    report(index);
+  }
+
+  return results;
+};
+
+// ---------- De-duplication ----------
+
+const emailKey = (email: string) => email.trim().toLowerCase();
+
+// Last 10 digits, so +1 (555) 010-2000 and 555-010-2000 compare equal
+const phoneKey = (phone?: string) => {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+// Token-sorted, so "Doe, Jane" and "Jane Doe" compare equal
+const nameKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+
+/**
+ * Levenshtein similarity in [0, 1]
+ */
+const similarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+const completeness = (parsed: ParsedResume) => {
+  const values = Object.values(parsed.confidence);
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+/**
+ * Merge resumes of the same person: same email, same phone number, or a
+ * near-identical name when at least one side has no email to tell them apart
+ */
+export const dedupeResumes = (results: BulkParseResult[]): BulkCandidate[] => {
+  const parsed = results.filter((result): result is BulkParseResult & { parsed: ParsedResume } => !!result.parsed);
+  const keys = parsed.map(({ parsed: resume }) => ({
+    email: emailKey(resume.data.email),
+    phone: phoneKey(resume.data.phone),
+    name: nameKey(resume.data.name)
+  }));
+
+  // Union-find over every pair; batches are at most MAX_BATCH_FILES
+  const parent = parsed.map((_, index) => index);
+  const emails = keys.map(({ email }) => new Set(email ? [email] : []));
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const union = (i: number, j: number) => {
+    const [rootI, rootJ] = [find(i), find(j)];
+    if (rootI === rootJ) return;
+    parent[rootJ] = rootI;
+    emails[rootJ].forEach(email => emails[rootI].add(email));
+  };
+  // A name match must not chain two people with different emails together
+  // through a third resume that has none
+  const emailsConflict = (i: number, j: number) => {
+    const [a, b] = [emails[find(i)], emails[find(j)]];
+    return a.size > 0 && b.size > 0 && ![...a].some(email => b.has(email));
+  };
+
+  for (let i = 0; i < parsed.length; i++) {
+    for (let j = i + 1; j < parsed.length; j++) {
+      const a = keys[i];
+      const b = keys[j];
+      const sameContact = (a.email && a.email === b.email) || (a.phone && a.phone === b.phone);
+      const sameName = (!a.email || !b.email) && similarity(a.name, b.name) >= NAME_SIMILARITY && !emailsConflict(i, j);
+      if (sameContact || sameName) union(i, j);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  parsed.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  return [...groups.values()].map(members => {
+    // Keep the most completely parsed copy
+    const [best, ...rest] = [...members].sort((a, b) => completeness(parsed[b].parsed) - completeness(parsed[a].parsed));
+    return {
+      parsed: parsed[best].parsed,
+      source: parsed[best].file.name,
+      duplicates: rest.map(index => parsed[index].file.name)
+    };
+  });
+};
+
+/**
+ * Score each candidate against a job (or generally, without one), best first
+ */
+export const rankCandidates = (candidates: BulkCandidate[], job: ATSJobTarget | null): RankedCandidate[] =>
+  candidates
+    .map(candidate => ({
+      ...candidate,
+      score: scoreResumeWithRules(toATSResumeInput(candidate.parsed), { job, text: candidate.parsed.text })
+    }))
+    .sort((a, b) => b.score.overallScore - a.score.overallScore || b.score.keywordScore - a.score.keywordScore);
@@ -0,0 +1,23 @@
+import { resumeParser, ResumeOcrRequiredError } from './resumeParser';
+import type { ResumeBatchWorkerMessage, ResumeBatchWorkerRequest } from './resumeBatch';
+
+// Worker side of resumeBatch.ts. Parses one resume per request; scanned PDFs
+// are handed back to the page, which is the only place OCR can run.
+
+const scope = self as unknown as Worker;
+const post = (message: ResumeBatchWorkerMessage) => scope.postMessage(message);
+
+scope.onmessage = async (event: MessageEvent<ResumeBatchWorkerRequest>) => {
+  const { id, file } = event.data;
+  try {
+    const parsed = await resumeParser(file);
+    post({ id, type: 'parsed', parsed });
+  } catch (error) {
+    post({
+      id,
+      type: 'failed',
+      message: error instanceof Error ? error.message : String(error),
+      needsOcr: error instanceof ResumeOcrRequiredError
+    });
+  }
+};
@@ -1,104 +1,590 @@
+// Local resume parsing: extracts the text of a PDF, DOCX or TXT resume in the
+// browser and recovers its sections into a ResumeParserResponse, with a
+// confidence per field. Nothing is uploaded; PDF.js and Tesseract (OCR for
+// scanned PDFs) are loaded from the CDN on first use.
 
-// This is a mock implementation of a resume parser with enhanced AI capabilities
-// In a real application, this would use actual PDF parsing libraries and AI models
+import { strFromU8, unzipSync } from 'fflate';
+import type { ParsedResume, ResumeFieldConfidence, ResumeParserResponse } from '@/types/interview';
 
-import { toast } from "@/components/ui/use-toast";
+export class ResumeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResumeParseError';
+  }
+}
 
-export const resumeParser = async (file: File) => {
-  return new Promise((resolve, reject) => {
-    try {
-      // Check if the file is valid
-      if (!file || !(file instanceof File)) {
-        reject(new Error("Invalid file provided"));
-        return;
-      }
-      
-      // Check if it's a PDF
-      if (file.type !== "application/pdf") {
-        toast({
-          title: "Invalid file format",
-          description: "Please upload a PDF file",
-          variant: "destructive"
-        });
-        reject(new Error("Invalid file format. Please upload a PDF file."));
-        return;
+// Scanned PDFs are OCR'd with a canvas, which only exists on the page, not in workers
+export class ResumeOcrRequiredError extends ResumeParseError {
+  constructor() {
+    super('This PDF has no text layer and has to be read with OCR');
+    this.name = 'ResumeOcrRequiredError';
+  }
+}
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// For <input accept> and drop zones
+export const RESUME_ACCEPT = '.pdf,.docx,.txt';
+export const RESUME_MIME_TYPES = ['application/pdf', DOCX_TYPE, 'text/plain'];
+
+// Browsers leave file.type empty for some DOCX/TXT files, so fall back to the extension
+export const isSupportedResumeFile = (file: File) =>
+  RESUME_MIME_TYPES.includes(file.type) || /\.(pdf|docx|txt)$/i.test(file.name);
+
+export type ResumeProgressCallback = (message: string) => void;
+
+// ---------- Text extraction ----------
+
+// The ESM build, so the same loader works on the page and in resumeBatch.worker
+const PDFJS_CDN_BASE = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build';
+const TESSERACT_URL = 'https://cdn.jsdelivr.net/npm/tesseract.js@4/dist/tesseract.min.js';
+// Below this many characters a PDF is treated as scanned and OCR'd
+const MIN_TEXT_LAYER_CHARS = 50;
+
+// Minimal surface of the PDF.js and Tesseract globals used here
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  hasEOL?: boolean;
+}
+
+interface PdfViewport {
+  width: number;
+  height: number;
+}
+
+interface PdfPage {
+  getTextContent(): Promise<{ items: PdfTextItem[] }>;
+  getViewport(options: { scale: number }): PdfViewport;
+  render(options: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }): { promise: Promise<void> };
+}
+
+interface PdfDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfPage>;
+}
+
+interface PdfJsLib {
+  GlobalWorkerOptions: { workerSrc: string };
+  getDocument(source: { data: ArrayBuffer }): { promise: Promise<PdfDocument> };
+}
+
+interface TesseractLib {
+  recognize(
+    image: string,
+    language: string,
+    options?: { logger?: (message: { status?: string; progress?: number }) => void }
+  ): Promise<{ data?: { text?: string } }>;
+}
+
+type ResumeWindow = Window & { Tesseract?: TesseractLib };
+
+const loadScript = (src: string) => new Promise<void>((resolve, reject) => {
+  const existing = document.querySelector<HTMLScriptElement>(`script[src="${src}"]`);
+  if (existing?.dataset.loaded) {
+    resolve();
+    return;
+  }
+  const script = existing ?? document.createElement('script');
+  script.addEventListener('load', () => {
+    script.dataset.loaded = 'true';
+    resolve();
+  });
+  script.addEventListener('error', () => reject(new Error(`Failed to load script: ${src}`)));
+  if (!existing) {
+    script.src = src;
+    script.async = true;
+    document.body.appendChild(script);
+  }
+});
+
+const ensurePdfJs = async (): Promise<PdfJsLib> => {
+  const pdfjsLib: PdfJsLib = await import(/* @vite-ignore */ `${PDFJS_CDN_BASE}/pdf.min.mjs`);
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `${PDFJS_CDN_BASE}/pdf.worker.min.mjs`;
+  return pdfjsLib;
+};
+
+const ensureTesseract = async (): Promise<TesseractLib> => {
+  await loadScript(TESSERACT_URL);
+  const tesseract = (window as ResumeWindow).Tesseract;
+  if (!tesseract) throw new Error('Tesseract not available');
+  return tesseract;
+};
+
+/**
+ * Rebuild lines from PDF.js text items, which carry no newlines of their own
+ */
+const pageToText = (items: PdfTextItem[]): string => {
+  const lines: string[] = [];
+  let line = '';
+  let lastY: number | null = null;
+
+  for (const item of items) {
+    const y = item.transform[5];
+    if (lastY !== null && Math.abs(y - lastY) > 2 && line) {
+      lines.push(line);
+      line = '';
+    }
+    line += item.str;
+    lastY = y;
+    if (item.hasEOL) {
+      lines.push(line);
+      line = '';
+      lastY = null;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+};
+
+const ocrPdf = async (pdf: PdfDocument, onProgress?: ResumeProgressCallback): Promise<string> => {
+  onProgress?.('Loading OCR engine...');
+  const tesseract = await ensureTesseract();
+
+  let fullText = '';
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    onProgress?.(`Rendering page ${pageNum} of ${pdf.numPages}...`);
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 2 });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Failed to create canvas context');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    const { data } = await tesseract.recognize(canvas.toDataURL('image/png'), 'eng', {
+      logger: (message) => {
+        if (message.status && message.progress != null) {
+          onProgress?.(`${message.status} (page ${pageNum}): ${Math.round(message.progress * 100)}%`);
+        }
       }
-      
-      // For demo purposes, show a toast to indicate AI processing
-      toast({
-        title: "AI Resume Analysis",
-        description: "Analyzing your resume with our AI model...",
-      });
-      
-      // Simulate AI parsing delay
-      setTimeout(() => {
-        const fileReader = new FileReader();
-        
-        fileReader.onload = () => {
-          // In a real implementation, we would use an AI model to extract information
-          // from the PDF. For this demo, we'll use mock data based on the file name.
-          
-          // Extract filename and use it to create a simulated varied response
-          const fileName = file.name.toLowerCase();
-          let jobRole = "Software Developer";
-          let years = 3;
-          
-          // Simple logic to generate different mock data based on filename
-          if (fileName.includes("senior") || fileName.includes("sr")) {
-            jobRole = "Senior Software Developer";
-            years = 5;
-          } else if (fileName.includes("lead") || fileName.includes("manager")) {
-            jobRole = "Technical Lead";
-            years = 7;
-          } else if (fileName.includes("junior") || fileName.includes("jr")) {
-            jobRole = "Junior Developer";
-            years = 1;
-          }
-          
-          // Generate more relevant skills based on job role
-          let skills = ["JavaScript", "React", "Node.js", "TypeScript", "HTML", "CSS", "Git"];
-          
-          if (jobRole.toLowerCase().includes("senior") || jobRole.toLowerCase().includes("lead")) {
-            skills = [...skills, "System Architecture", "Team Leadership", "Project Management"];
-          }
-          
-          if (fileName.includes("data") || fileName.includes("ml") || fileName.includes("ai")) {
-            skills = ["Python", "TensorFlow", "PyTorch", "SQL", "Data Analysis", "Machine Learning", "Statistics"];
-            jobRole = fileName.includes("senior") ? "Senior Data Scientist" : "Data Scientist";
-          }
-          
-          // Create mock resume data
-          const mockResumeData = {
-            currentRole: jobRole,
-            yearsOfExperience: years,
-            skills: skills,
-            softSkills: ["Communication", "Problem Solving", "Teamwork", "Critical Thinking", "Adaptability"],
-            education: fileName.includes("phd") 
-              ? ["PhD in Computer Science", "Master of Science in Computer Science", "Bachelor of Science in Computer Science"]
-              : fileName.includes("master") 
-                ? ["Master of Science in Computer Science", "Bachelor of Science in Computer Science"] 
-                : ["Bachelor of Science in Computer Science"],
-            certifications: jobRole.includes("Data") 
-              ? ["TensorFlow Developer Certificate", "AWS Certified Data Analytics"] 
-              : ["AWS Certified Developer", "Microsoft Certified: Azure Developer Associate"]
-          };
-          
-          // In a real implementation, we would use the PDF content to extract this information
-          console.log("Resume successfully parsed:", mockResumeData);
-          resolve(mockResumeData);
-        };
-        
-        fileReader.onerror = () => {
-          reject(new Error("Error reading the file."));
-        };
-        
-        // Start reading the file as text
-        fileReader.readAsText(file);
-      }, 2000); // Simulate AI processing time
-      
-    } catch (error) {
-      console.error("Error parsing resume:", error);
-      reject(error);
+    });
+    fullText += `${(data?.text || '').trim()}\n\n`;
+  }
+  return fullText;
+};
+
+const extractPdfText = async (file: Blob, onProgress?: ResumeProgressCallback): Promise<string> => {
+  onProgress?.('Loading PDF reader...');
+  const pdfjsLib = await ensurePdfJs();
+
+  onProgress?.('Reading PDF...');
+  const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  const pages: string[] = [];
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    pages.push(pageToText((await page.getTextContent()).items));
+  }
+  const text = pages.join('\n\n');
+
+  // Scanned resumes have no text layer
+  if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) return text;
+  if (typeof document === 'undefined') throw new ResumeOcrRequiredError();
+  return ocrPdf(pdf, onProgress);
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'"
+};
+
+// A .docx is a zip; the body text lives in word/document.xml
+const extractDocxText = async (file: Blob): Promise<string> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      filter: entry => entry.name === 'word/document.xml'
+    });
+  } catch {
+    throw new ResumeParseError('This Word document is damaged or not a DOCX file');
+  }
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {
+    throw new ResumeParseError('This Word document has no body');
+  }
+  return strFromU8(documentXml)
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity]);
+};
+
+const normalizeText = (text: string) =>
+  text
+    .replace(/\r/g, '')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Extract the plain text of a PDF, DOCX or TXT resume
+ */
+export const extractResumeText = async (
+  file: File,
+  onProgress?: ResumeProgressCallback
+): Promise<string> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let text: string;
+  if (file.type === 'application/pdf' || extension === 'pdf') {
+    text = await extractPdfText(file, onProgress);
+  } else if (file.type === DOCX_TYPE || extension === 'docx') {
+    text = await extractDocxText(file);
+  } else if (file.type === 'text/plain' || extension === 'txt') {
+    text = await file.text();
+  } else if (extension === 'doc') {
+    throw new ResumeParseError('Legacy .doc files cannot be read. Please save the resume as PDF or DOCX.');
+  } else {
+    throw new ResumeParseError('Unsupported file type. Please upload a PDF, DOCX or TXT file.');
+  }
+
+  text = normalizeText(text);
+  if (!text) {
+    throw new ResumeParseError('No text could be extracted from this resume.');
+  }
+  return text;
+};
+
+// ---------- Section recovery ----------
+
+type SectionKey = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'projects';
+
+const SECTION_HEADINGS: Record<SectionKey, RegExp> = {
+  summary: /^(professional |career )?(summary|profile|objective|about me)$/,
+  experience: /^(work |professional |relevant )?(experience|employment( history)?|work history|career history)$/,
+  education: /^(education|academic (background|qualifications)|educational qualifications|qualifications)$/,
+  skills: /^((technical|key|core|professional) )?(skills|competencies|technologies|tech stack|skills (and|&) (tools|technologies))$/,
+  certifications: /^(certifications?|certificates?|licenses?( (and|&) certifications)?|courses (and|&) certifications)$/,
+  projects: /^((personal|academic|key) )?(projects|achievements|awards)$/
+};
+
+const headingOf = (line: string): SectionKey | null => {
+  if (line.length > 40) return null;
+  const normalized = line.toLowerCase().replace(/[:\-–—_|•]+$/, '').replace(/\s+/g, ' ').trim();
+  const match = (Object.keys(SECTION_HEADINGS) as SectionKey[]).find(key => SECTION_HEADINGS[key].test(normalized));
+  return match ?? null;
+};
+
+const splitSections = (lines: string[]) => {
+  const sections: Partial<Record<SectionKey, string[]>> = {};
+  const order: string[] = [];
+  const header: string[] = [];
+  let current: string[] = header;
+
+  for (const line of lines) {
+    const heading = headingOf(line);
+    if (heading) {
+      // Repeated headings (e.g. two Experience blocks) are merged
+      current = sections[heading] ?? (sections[heading] = []);
+      order.push(heading);
+    } else if (line) {
+      current.push(line);
     }
+  }
+  return { header, sections, order };
+};
+
+const BULLET = /^[-*•●▪◦·‣➢►]\s*/;
+const stripBullet = (line: string) => line.replace(BULLET, '').trim();
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/;
+const LINKEDIN = /(?:https?:\/\/)?(?:www\.)?linkedin\.com\/in\/[\w-]+\/?/i;
+const GITHUB = /(?:https?:\/\/)?(?:www\.)?github\.com\/[\w-]+\/?/i;
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s*(?:19|20)\\d{2}|\\d{1,2}/(?:19|20)\\d{2}|(?:19|20)\\d{2})`;
+const DATE_RANGE = new RegExp(`${DATE}\\s*(?:-|–|—|to)\\s*(?:${DATE}|present|current|now|till date)`, 'i');
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+
+// "Master" alone is too common (Scrum Master) to count as a degree
+const DEGREE = /\b(bachelor(?:'s)?|master(?:'s|\s+of|\s+in|\s+degree)|b\.\s?(?:s|a|sc|tech|e|com)\b\.?|m\.\s?(?:s|a|sc|tech|e)\b\.?|b(?:sc|tech|com)\b|m(?:sc|tech)\b|mba|ph\.?\s?d\.?|doctorate|associate(?:'s)? degree|diploma|high school)/i;
+const INSTITUTION = /(?:[A-Z][\w.&'-]*\s+){0,5}(?:University|College|Institute|School|Academy|Polytechnic)(?:\s+of(?:\s+[A-Z][\w.&'-]*)+)?/;
+
+const JOB_TITLE_WORDS = /\b(engineer|developer|manager|intern|analyst|designer|lead|consultant|specialist|director|scientist|architect|administrator|officer|associate|coordinator|assistant|programmer|tester|executive|head|founder|researcher)\b/i;
+
+// Recognized when a resume has no Skills section (and in job requirements, see atsRuleEngine)
+export const KNOWN_SKILLS = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Rust', 'Ruby', 'PHP', 'Kotlin', 'Swift', 'SQL',
+  'React', 'Angular', 'Vue', 'Next.js', 'Node.js', 'Express', 'Django', 'Flask', 'Spring', '.NET', 'HTML', 'CSS',
+  'Tailwind', 'GraphQL', 'REST', 'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'AWS', 'Azure', 'GCP', 'Docker',
+  'Kubernetes', 'Terraform', 'Git', 'Linux', 'CI/CD', 'Machine Learning', 'Deep Learning', 'TensorFlow', 'PyTorch',
+  'Pandas', 'NumPy', 'Data Analysis', 'Excel', 'Power BI', 'Tableau', 'Figma', 'Agile', 'Scrum', 'Jira',
+  'Project Management', 'Communication', 'Leadership', 'Teamwork', 'Problem Solving'
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const uniqueBy = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const parseName = (header: string[], email: string) => {
+  const emailName = email.split('@')[0]?.toLowerCase() ?? '';
+
+  for (const line of header.slice(0, 5)) {
+    const candidate = line.split(/[|,]/)[0].trim();
+    const words = candidate.split(/\s+/);
+    const looksLikeName = words.length >= 2 && words.length <= 4 && candidate.length <= 40 &&
+      !/[\d@/:]/.test(candidate) && words.every(word => /^[A-Z][A-Za-z.'-]*$/.test(word));
+    if (looksLikeName) {
+      const title = words.map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ');
+      const matchesEmail = words.some(word => word.length > 2 && emailName.includes(word.toLowerCase()));
+      return { value: title, confidence: matchesEmail ? 0.95 : 0.8 };
+    }
+  }
+
+  // Fall back to the email's local part, e.g. jane.doe@...
+  const parts = emailName.split(/[._-]+/).filter(part => /^[a-z]{2,}$/.test(part));
+  if (parts.length >= 2) {
+    return { value: parts.map(part => part[0].toUpperCase() + part.slice(1)).join(' '), confidence: 0.35 };
+  }
+  return { value: '', confidence: 0 };
+};
+
+const parseSkills = (lines: string[] | undefined, text: string) => {
+  if (lines?.length) {
+    const skills = uniqueBy(
+      lines
+        // Drop group labels such as "Languages:"
+        .map(line => stripBullet(line).replace(/^[A-Za-z /&]{2,30}:\s*/, ''))
+        .flatMap(line => line.split(/[,;|•·●▪◦]|\s{2,}/))
+        .map(skill => skill.replace(/^(and|&)\s+/i, '').replace(/\.$/, '').trim())
+        .filter(skill => skill.length > 0 && skill.length <= 40)
+    );
+    return { value: skills, confidence: skills.length >= 3 ? 0.9 : skills.length ? 0.7 : 0 };
+  }
+
+  const found = KNOWN_SKILLS.filter(skill =>
+    new RegExp(`(^|[^\\w+#.])${escapeRegExp(skill)}($|[^\\w+#])`, 'i').test(text)
+  );
+  return { value: found, confidence: found.length ? 0.5 : 0 };
+};
+
+const parseExperience = (lines: string[] | undefined) => {
+  if (!lines?.length) return { value: [] as ResumeParserResponse['workExperience'], confidence: 0 };
+
+  const dated = lines.map((line, index) => (DATE_RANGE.test(line) ? index : -1)).filter(index => index >= 0);
+  if (dated.length === 0) {
+    // A section without dates: keep the text as one entry so nothing is lost
+    return {
+      value: [{ company: '', position: stripBullet(lines[0]), duration: '', description: lines.slice(1).map(stripBullet).join('\n') }],
+      confidence: 0.3
+    };
+  }
+
+  // Each entry is a dated line plus up to two header lines right above it
+  const starts = dated.map((index, k) => {
+    const boundary = k === 0 ? 0 : dated[k - 1] + 1;
+    let start = index;
+    while (start > boundary && index - start < 2 && !BULLET.test(lines[start - 1]) && lines[start - 1].length < 80) {
+      start--;
+    }
+    return start;
   });
+
+  const entries = dated.map((index, k) => {
+    const duration = lines[index].match(DATE_RANGE)?.[0] ?? '';
+    const headerText = lines.slice(starts[k], index + 1).join(' | ').replace(duration, '');
+    const parts = headerText
+      .split(/\s+(?:at|@)\s+|\s*[|–—,]\s*|\s+-\s+/)
+      .map(part => part.replace(/[()]/g, '').trim())
+      .filter(Boolean);
+    const position = parts.find(part => JOB_TITLE_WORDS.test(part)) ?? parts[0] ?? '';
+    const company = parts.find(part => part !== position) ?? '';
+    const end = k + 1 < dated.length ? starts[k + 1] : lines.length;
+    const description = lines.slice(index + 1, end).map(stripBullet).join('\n');
+
+    const score = (position ? 0.35 : 0) + (company ? 0.3 : 0) + (duration ? 0.2 : 0) + (description ? 0.15 : 0);
+    return { entry: { company, position, duration, description }, score };
+  });
+
+  return { value: entries.map(({ entry }) => entry), confidence: average(entries.map(({ score }) => score)) };
+};
+
+const parseEducation = (lines: string[] | undefined, allLines: string[]) => {
+  const fromSection = !!lines?.length;
+  const source = fromSection ? lines : allLines.filter(line => DEGREE.test(line));
+  if (!source.length) return { value: [] as ResumeParserResponse['education'], confidence: 0 };
+
+  // A new entry starts whenever a second degree or institution shows up
+  const blocks: string[][] = [];
+  let block: string[] = [];
+  let hasDegree = false;
+  let hasInstitution = false;
+  for (const line of source) {
+    const degreeLine = DEGREE.test(line);
+    const institutionLine = INSTITUTION.test(line);
+    if (block.length && ((degreeLine && hasDegree) || (institutionLine && hasInstitution))) {
+      blocks.push(block);
+      block = [];
+      hasDegree = false;
+      hasInstitution = false;
+    }
+    block.push(stripBullet(line));
+    hasDegree = hasDegree || degreeLine;
+    hasInstitution = hasInstitution || institutionLine;
+  }
+  if (block.length) blocks.push(block);
+
+  const entries = blocks.map(blockLines => {
+    const text = blockLines.join(' | ');
+    const degreeSegment = text.split(/\s*[|,–—]\s*/).find(segment => DEGREE.test(segment)) ?? '';
+    const [degreeText, field = ''] = degreeSegment.split(/\s+in\s+/i);
+    const degree = degreeText.replace(/\s+(?:from|at)\s+.*$/i, '').replace(YEAR, '');
+    const institution = text.match(INSTITUTION)?.[0].trim() ?? '';
+    const years = text.match(YEAR);
+    const date = years ? years[years.length - 1] : '';
+
+    const score = (degree ? 0.35 : 0) + (institution ? 0.35 : 0) + (date ? 0.15 : 0) + (field ? 0.15 : 0);
+    return { entry: { institution, degree: degree.trim(), field: field.trim(), date }, score };
+  }).filter(({ entry }) => entry.degree || entry.institution);
+
+  const confidence = average(entries.map(({ score }) => score)) * (fromSection ? 1 : 0.6);
+  return { value: entries.map(({ entry }) => entry), confidence };
+};
+
+const parseCertifications = (lines: string[] | undefined, allLines: string[]) => {
+  if (lines?.length) {
+    const certifications = uniqueBy(lines.map(stripBullet).filter(line => line.length <= 120));
+    return { value: certifications, confidence: certifications.length ? 0.85 : 0 };
+  }
+  const mentioned = uniqueBy(
+    allLines.filter(line => /certifi/i.test(line) && !headingOf(line) && line.length <= 120).map(stripBullet)
+  );
+  return { value: mentioned, confidence: mentioned.length ? 0.5 : 0 };
+};
+
+/**
+ * Recover the structured fields of a resume from its plain text
+ */
+export const parseResumeText = (text: string): ParsedResume => {
+  const allLines = text.split('\n').map(line => line.trim());
+  const { header, sections, order } = splitSections(allLines);
+
+  const email = text.match(EMAIL)?.[0] ?? '';
+  const phoneMatch = (header.join('\n') || text).match(PHONE)?.[0] ?? '';
+  const phoneDigits = phoneMatch.replace(/\D/g, '').length;
+  const phone = phoneDigits >= 10 && phoneDigits <= 15 ? phoneMatch.trim() : '';
+
+  const name = parseName(header.length ? header : allLines, email);
+  const skills = parseSkills(sections.skills, text);
+  const experience = parseExperience(sections.experience);
+  const education = parseEducation(sections.education, allLines);
+  const certifications = parseCertifications(sections.certifications, allLines);
+
+  const data: ResumeParserResponse = {
+    name: name.value,
+    email,
+    phone: phone || undefined,
+    skills: skills.value,
+    workExperience: experience.value,
+    education: education.value,
+    certifications: certifications.value
+  };
+
+  const confidence: ResumeFieldConfidence = {
+    name: round2(name.confidence),
+    email: email ? 0.95 : 0,
+    phone: phone ? 0.85 : 0,
+    skills: round2(skills.confidence),
+    workExperience: round2(experience.confidence),
+    education: round2(education.confidence),
+    certifications: round2(certifications.confidence)
+  };
+
+  return { data, confidence, text, sections: order };
+};
+
+/**
+ * Extract and parse a resume file
+ */
+export const resumeParser = async (
+  file: File,
+  onProgress?: ResumeProgressCallback
+): Promise<ParsedResume> => {
+  const text = await extractResumeText(file, onProgress);
+  onProgress?.('Recovering resume sections...');
+  const parsed = parseResumeText(text);
+  console.log('📄 Resume parsed:', parsed.sections, parsed.confidence);
+  return parsed;
+};
+
+/**
+ * Years of experience summed over the parsed date ranges (overlaps are not merged)
+ */
+export const estimateYearsOfExperience = (resume: ResumeParserResponse): number => {
+  const now = new Date().getFullYear();
+  const years = resume.workExperience.reduce((total, job) => {
+    const found = job.duration.match(YEAR)?.map(Number) ?? [];
+    if (found.length === 0) return total;
+    const end = /present|current|now|till date/i.test(job.duration) ? now : found[found.length - 1];
+    return total + Math.max(0, end - found[0]);
+  }, 0);
+  return Math.min(years, 50);
+};
+
+/**
+ * Shape a parsed resume like the resume builder's data, which the ATS
+ * scoring prompt (generateATSScore) expects
+ */
+export const toATSResumeInput = (parsed: ParsedResume) => {
+  const { data, text } = parsed;
+  const { sections } = splitSections(text.split('\n').map(line => line.trim()));
+  const [firstName = '', ...lastName] = data.name.split(' ');
+
+  return {
+    personalInfo: {
+      firstName,
+      lastName: lastName.join(' '),
+      jobTitle: data.workExperience[0]?.position ?? '',
+      email: data.email,
+      phone: data.phone ?? '',
+      location: '',
+      linkedinUrl: text.match(LINKEDIN)?.[0] ?? '',
+      githubUrl: text.match(GITHUB)?.[0] ?? ''
+    },
+    education: data.education.map(entry => ({
+      degree: [entry.degree, entry.field].filter(Boolean).join(' in '),
+      school: entry.institution,
+      graduationDate: entry.date,
+      score: ''
+    })),
+    experience: data.workExperience.map(job => {
+      const [startDate = '', endDate = ''] = job.duration.split(/\s*(?:-|–|—|to)\s*/i);
+      return {
+        jobTitle: job.position,
+        companyName: job.company,
+        startDate,
+        endDate,
+        description: job.description
+      };
+    }),
+    skills: {
+      professional: '',
+      technical: data.skills.join(', '),
+      soft: ''
+    },
+    objective: sections.summary?.join(' ') ?? ''
+  };
 };
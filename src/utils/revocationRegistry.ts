@@ -0,0 +1,80 @@
+// The revocation registry behind the revocation-registry edge function.
+// Every issued certificate and every document an organization registers
+// owns a bit in a published status list; revoking or superseding it records
+// when, by whom and why. Anyone can check a status; HR members register and
+// revoke their organization's documents and read its audit history.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { RegistryEntry, RegistryStatus, RegistrySubjectType, RevocationEvent } from '@/types/blockchain';
+
+export class RevocationRegistryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RevocationRegistryError';
+    this.status = status;
+  }
+}
+
+export const REGISTRY_STATUS_LABELS: Record<RegistryStatus, string> = {
+  active: 'Active',
+  revoked: 'Revoked',
+  superseded: 'Superseded'
+};
+
+const invoke = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>('revocation-registry', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const details = await response.json().catch(() => ({}));
+      throw new RevocationRegistryError(details.error || error.message, response.status);
+    }
+    throw new RevocationRegistryError(error.message, 0);
+  }
+
+  return data as T;
+};
+
+/**
+ * "Revoked on <date> by <issuer>: <reason>", for verifiers
+ */
+export const describeRevocation = (entry: RegistryEntry) => {
+  if (entry.status === 'active') return null;
+  const verb = entry.status === 'superseded' ? 'Superseded' : 'Revoked';
+  const when = entry.revokedAt ? ` on ${new Date(entry.revokedAt).toLocaleDateString()}` : '';
+  const who = entry.revokedBy ? ` by ${entry.revokedBy}` : '';
+  return `${verb}${when}${who}${entry.reason ? `: ${entry.reason}` : ''}`;
+};
+
+// ---------- Public ----------
+
+export const fetchRegistryStatus = async (subjectType: RegistrySubjectType, subjectId: string) => {
+  const result = await invoke<{ registered: boolean; entry?: RegistryEntry }>({ action: 'status', subjectType, subjectId });
+  return result.registered ? result.entry! : null;
+};
+
+// ---------- Issuers ----------
+
+export const registerIssuedDocument = async (label: string, contentHash?: string, subjectId?: string) =>
+  (await invoke<{ entry: RegistryEntry }>({ action: 'register', label, contentHash, subjectId })).entry;
+
+export const revokeRegistryEntry = async (entryId: string, reason: string, supersededBy?: string) =>
+  (await invoke<{ entry: RegistryEntry }>({ action: 'revoke', entryId, reason, supersededBy })).entry;
+
+export const fetchIssuedEntries = async () =>
+  (await invoke<{ entries: RegistryEntry[] }>({ action: 'list' })).entries;
+
+export const fetchRevocationHistory = async (entryId?: string) =>
+  (await invoke<{ events: RevocationEvent[] }>({ action: 'history', entryId })).events;
+
+/**
+ * Hex SHA-256 of a file, the content hash the registry keeps for documents
+ */
+export const hashFile = async (file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
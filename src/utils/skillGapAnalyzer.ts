@@ -1,5 +1,5 @@
 
-import { GEMINI_API_KEY } from "@/utils/apiKeys";
+import { callUnifiedAI } from "@/utils/ai/unifiedAIService";
 
 // Define types for the API responses
 interface SkillGapAnalysisResult {
@@ -24,14 +24,12 @@ interface LearningResource {
 
 /**
  * Generate a skill gap analysis and learning path for a target job role
- * using the Gemini API
+ * through the ai-gateway
  */
 export const generateSkillGapAnalysis = async (
   currentSkills: string,
   targetJobRole: string
 ): Promise<SkillGapAnalysisResult> => {
-  const API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent";
-  
   const prompt = `
     Act as a career advisor specialized in tech and professional roles. Create a comprehensive skill gap analysis and learning path for someone transitioning to the role of "${targetJobRole}".
 
@@ -55,30 +53,8 @@ export const generateSkillGapAnalysis = async (
   `;
 
   try {
-    const response = await fetch(`${API_URL}?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: prompt }]
-        }],
-        generationConfig: {
-          temperature: 0.2,
-          topP: 0.8,
-          topK: 40
-        }
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`API error: ${errorData.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
-    const textResponse = data.candidates[0].content.parts[0].text;
+    const response = await callUnifiedAI(prompt, 'gemini', { feature: 'careerPath' });
+    const textResponse = response.text();
     
     // Extract the JSON from the response
     try {
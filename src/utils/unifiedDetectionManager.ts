@@ -1,104 +1,201 @@
+import {
+  DEFAULT_PROCTORING_POLICY,
+  VIOLATION_LABELS,
+  VIOLATION_TYPES,
+  resolveAction,
+  strikesToTerminate,
+  type ProctoringAction,
+  type ProctoringPolicy,
+  type ViolationType
+} from './proctoringPolicy';
+
 export type DetectionSnapshot = {
   now: number;
   isInterviewStarted: boolean;
   phoneDetected: boolean;
   peopleCount: number; // count of detections with class person/human
+  // Optional signals; a missing value means "no information", not a violation
+  faceVisible?: boolean;
+  lookingAway?: boolean;
+  tabHidden?: boolean;
+  secondScreenDetected?: boolean;
+  bookDetected?: boolean;
+  // Nothing feeds this yet; the rule stays idle until an audio speaker-count signal exists
+  secondVoiceDetected?: boolean;
 };
 
-export type WarningType = 'phone' | 'multiplePeople';
+export type WarningType = ViolationType;
+
+export type ProctoringEvent = {
+  type: ViolationType;
+  action: ProctoringAction;
+  strikes: number;
+  // Weighted score over all active strikes after this one
+  score: number;
+  // Whether the session is flagged for review as of this event
+  flagged: boolean;
+  message: string;
+  timestamp: number;
+};
 
 export type DetectionManagerCallbacks = {
   onWarning: (type: WarningType, nextCount: number, message: string) => void;
   onResume: () => void;
   onTerminate: (type: WarningType, finalCount: number, message: string) => void;
+  onPause?: (pauseMs: number) => void;
+  onFlag?: (type: WarningType, count: number, message: string) => void;
+  // Every strike, whatever the action, for the session record
+  onViolation?: (event: ProctoringEvent) => void;
 };
 
 export type DetectionManagerConfig = {
-  pauseMs?: number; // default 5000
+  policy?: ProctoringPolicy;
+  pauseMs?: number; // overrides policy.pauseMs
+};
+
+const isViolating = (type: ViolationType, snap: DetectionSnapshot): boolean => {
+  switch (type) {
+    case 'phone':
+      return snap.phoneDetected;
+    case 'multiplePeople':
+      return snap.peopleCount > 1;
+    case 'noFace':
+      return snap.faceVisible === false;
+    case 'lookingAway':
+      return snap.lookingAway === true;
+    case 'tabSwitch':
+      return snap.tabHidden === true;
+    case 'secondScreen':
+      return snap.secondScreenDetected === true;
+    case 'book':
+      return snap.bookDetected === true;
+    case 'secondVoice':
+      return snap.secondVoiceDetected === true;
+  }
+};
+
+const buildMessage = (type: ViolationType, action: ProctoringAction, strikes: number, terminateAt: number | null) => {
+  const label = VIOLATION_LABELS[type];
+  switch (action) {
+    case 'terminate':
+      return '🚫 Interview terminated due to repeated violations.';
+    case 'flag':
+      return `⚠️ ${label} detected again. This interview has been flagged for review.`;
+    default:
+      return terminateAt
+        ? `⚠️ ${label} detected. This is Warning ${strikes}/${terminateAt}. Continued violation will result in interview termination.`
+        : `⚠️ ${label} detected. Please correct this to continue the interview.`;
+  }
 };
 
 export function createDetectionManager(cb: DetectionManagerCallbacks, cfg: DetectionManagerConfig = {}) {
-  const pauseMs = typeof cfg.pauseMs === 'number' ? cfg.pauseMs : 5000;
+  const policy = cfg.policy ?? DEFAULT_PROCTORING_POLICY;
+  const pauseMs = typeof cfg.pauseMs === 'number' ? cfg.pauseMs : policy.pauseMs;
 
-  // Persistent counters
-  let phoneCount = 0;
-  let peopleCountWarnings = 0;
+  // Strike timestamps per type, pruned as they decay
+  let strikes = new Map<ViolationType, number[]>();
+  // When each currently violating condition started (for grace windows)
+  let activeSince = new Map<ViolationType, number>();
+  let lastStrikeAt = new Map<ViolationType, number>();
 
   // Pause state
   let pauseUntil = 0;
-
-  // Cooldowns
-  let lastPhoneWarning = 0;
-  let lastPeopleWarning = 0;
-
-  // Duplicate suppression for people by count+second
-  let lastPeopleHash = '';
+  let flagged = false;
+  let terminated = false;
 
   const isPaused = (now: number) => now < pauseUntil;
 
   const startPause = (now: number) => {
     pauseUntil = now + pauseMs;
+    cb.onPause?.(pauseMs);
   };
 
-  const process = (snap: DetectionSnapshot) => {
-    const { now, isInterviewStarted, phoneDetected, peopleCount } = snap;
-    if (!isInterviewStarted) return;
-    if (isPaused(now)) return;
+  const activeStrikes = (type: ViolationType, now: number) => {
+    const list = strikes.get(type) ?? [];
+    const live = policy.strikeDecayMs > 0 ? list.filter(at => now - at < policy.strikeDecayMs) : list;
+    strikes.set(type, live);
+    return live.length;
+  };
 
-    // Single-person only (and no phone): do nothing
-    if (!phoneDetected && (peopleCount === 0 || peopleCount === 1)) return;
-
-    // Phone flow
-    if (phoneDetected) {
-      // cooldown 5s, single warning per event
-      if (now - lastPhoneWarning < pauseMs) return;
-      phoneCount += 1;
-      lastPhoneWarning = now;
-      const msg = `⚠️ Mobile phone detected. This is Warning ${phoneCount}/3. Continued violation will result in interview termination.`;
-      cb.onWarning('phone', phoneCount, msg);
-      startPause(now);
-      // Auto resume handled by caller after pause window; we notify resume when pause elapses
-      // Termination on 3rd
-      if (phoneCount >= 3) {
-        cb.onTerminate('phone', phoneCount, '🚫 Interview terminated due to repeated violations.');
-      }
-      return; // do not process people in same frame
+  const weightedScore = (now: number) =>
+    VIOLATION_TYPES.reduce((sum, type) => sum + activeStrikes(type, now) * policy.rules[type].weight, 0);
+
+  const strike = (type: ViolationType, now: number) => {
+    const rule = policy.rules[type];
+    strikes.set(type, [...(strikes.get(type) ?? []), now]);
+    lastStrikeAt.set(type, now);
+    // The condition has to persist through a fresh grace window to count again
+    activeSince.delete(type);
+
+    const count = activeStrikes(type, now);
+    const score = weightedScore(now);
+    let action = resolveAction(rule, count) ?? 'warn';
+    if (policy.terminateAtScore > 0 && score >= policy.terminateAtScore) {
+      action = 'terminate';
+    }
+
+    const message = buildMessage(type, action, count, strikesToTerminate(rule));
+    const newlyFlagged = !flagged && (
+      action === 'flag' || action === 'terminate' || (policy.flagAtScore > 0 && score >= policy.flagAtScore)
+    );
+    flagged = flagged || newlyFlagged;
+    cb.onViolation?.({ type, action, strikes: count, score, flagged, message, timestamp: now });
+
+    if (action === 'terminate') {
+      terminated = true;
+      cb.onWarning(type, count, message);
+      cb.onTerminate(type, count, message);
+      return;
     }
 
-    // Multiple people flow
-    if (peopleCount > 1) {
-      const hash = `${peopleCount}-${Math.floor(now / 1000)}`;
-      if (hash === lastPeopleHash) return; // duplicate within same second
-      if (now - lastPeopleWarning < pauseMs) return; // cooldown
-
-      lastPeopleHash = hash;
-      peopleCountWarnings += 1;
-      lastPeopleWarning = now;
-      const msg = `⚠️ Multiple people detected. This is Warning ${peopleCountWarnings}/3. Continued violation will result in interview termination.`;
-      cb.onWarning('multiplePeople', peopleCountWarnings, msg);
+    if (newlyFlagged || action === 'flag') {
+      cb.onFlag?.(type, count, message);
+    }
+    if (action !== 'flag') {
+      cb.onWarning(type, count, message);
+    }
+    if (action === 'pause') {
       startPause(now);
-      if (peopleCountWarnings >= 3) {
-        cb.onTerminate('multiplePeople', peopleCountWarnings, '🚫 Interview terminated due to repeated violations.');
+    }
+  };
+
+  const process = (snap: DetectionSnapshot) => {
+    const { now, isInterviewStarted } = snap;
+    if (!isInterviewStarted || terminated) return;
+    if (isPaused(now)) return;
+
+    // Rules are checked in policy order; at most one strike per frame
+    for (const type of VIOLATION_TYPES) {
+      const rule = policy.rules[type];
+      if (!rule.enabled || !isViolating(type, snap)) {
+        activeSince.delete(type);
+        continue;
       }
+
+      const since = activeSince.get(type) ?? now;
+      activeSince.set(type, since);
+      if (now - since < rule.graceMs) continue;
+      if (now - (lastStrikeAt.get(type) ?? -Infinity) < rule.cooldownMs) continue;
+
+      strike(type, now);
       return;
     }
   };
 
   const tick = (now: number) => {
-    if (!isPaused(now)) return;
-    if (now >= pauseUntil) {
+    if (pauseUntil > 0 && now >= pauseUntil) {
       pauseUntil = 0;
       cb.onResume();
     }
   };
 
   const reset = () => {
-    phoneCount = 0;
-    peopleCountWarnings = 0;
+    strikes = new Map();
+    activeSince = new Map();
+    lastStrikeAt = new Map();
     pauseUntil = 0;
-    lastPhoneWarning = 0;
-    lastPeopleWarning = 0;
-    lastPeopleHash = '';
+    flagged = false;
+    terminated = false;
   };
 
   return {
@@ -106,8 +203,10 @@ export function createDetectionManager(cb: DetectionManagerCallbacks, cfg: Detec
     tick,
     isPaused,
     reset,
-    getCounts: () => ({ phone: phoneCount, multiplePeople: peopleCountWarnings })
+    policy,
+    isFlagged: () => flagged,
+    getCounts: () => Object.fromEntries(
+      VIOLATION_TYPES.map(type => [type, activeStrikes(type, Date.now())])
+    ) as Record<ViolationType, number>
   };
 }
-
-
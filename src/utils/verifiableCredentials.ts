@@ -0,0 +1,415 @@
+// Portable QwiXCert certificates: W3C Verifiable Credentials and Open Badges
+// 3.0 credentials exported by the certificate-credentials edge function, and
+// offline verification of ones handed to us as JSON.
+//
+// Credentials carry an ecdsa-jcs-2019 Data Integrity proof made with the
+// issuer key, and name the issuer by the did:key of that key, so the proof
+// can be checked in the browser without asking the server about the
+// credential. The issuer's published keys (certificate_issuer_keys) decide
+// whether the key is trusted; the last copy fetched is kept for when we are
+// offline.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { canonicalJSON } from './canonicalJson';
+
+export type CredentialFormat = 'vc' | 'openbadge';
+
+export interface DataIntegrityProof {
+  type: string;
+  cryptosuite: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue: string;
+  '@context'?: unknown;
+}
+
+export interface PortableCredential {
+  '@context': string[];
+  id?: string;
+  type: string[];
+  issuer: string | { id: string; name?: string; type?: string[] };
+  validFrom?: string;
+  validUntil?: string;
+  name?: string;
+  credentialSubject: Record<string, unknown>;
+  proof?: DataIntegrityProof;
+  [property: string]: unknown;
+}
+
+export interface PublishedIssuerKey {
+  id: string;
+  issuer: string;
+  algorithm: string;
+  publicJwk: JsonWebKey;
+  retiredAt: string | null;
+  revokedAt: string | null;
+}
+
+export type CredentialVerificationStatus =
+  | 'valid'
+  | 'malformed'
+  | 'unsupported_proof'
+  | 'invalid_signature'
+  | 'untrusted_issuer'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'keys_unavailable';
+
+export interface CredentialSummary {
+  format: CredentialFormat;
+  certificateId?: string;
+  certificateHash?: string;
+  title: string;
+  recipientName?: string;
+  issuerName?: string;
+  issuerId: string;
+  issuedAt?: string;
+  score?: number;
+}
+
+export interface CredentialVerificationResult {
+  valid: boolean;
+  status: CredentialVerificationStatus;
+  checks?: {
+    // The Data Integrity proof matches the credential and the key in its DID
+    proof: boolean;
+    // That key is published for the issuer named in the credential and was
+    // trusted when the proof was made
+    issuer: boolean;
+    // Inside validFrom / validUntil
+    validity: boolean;
+  };
+  summary?: CredentialSummary;
+  issuerKey?: PublishedIssuerKey;
+  // When the issuer keys used were fetched; older than now when offline
+  keysFetchedAt?: string;
+}
+
+export class CredentialExportError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CredentialExportError';
+    this.status = status;
+  }
+}
+
+export const CREDENTIAL_STATUS_LABELS: Record<CredentialVerificationStatus, string> = {
+  valid: "The credential's proof is valid and was made with a trusted issuer key.",
+  malformed: 'This file is not a verifiable credential.',
+  unsupported_proof: 'The credential has no ecdsa-jcs-2019 proof from a did:key issuer.',
+  invalid_signature: 'The proof does not match the credential: it was altered after signing.',
+  untrusted_issuer: 'The credential was not signed with a published key of its issuer.',
+  not_yet_valid: 'The credential is not valid yet.',
+  expired: 'The credential has expired.',
+  keys_unavailable: "The issuer's published keys could not be loaded. Connect once to verify credentials offline."
+};
+
+// ---------- Export ----------
+
+export const exportCertificateCredential = async (
+  certificateId: string,
+  format: CredentialFormat
+): Promise<PortableCredential> => {
+  const { data, error } = await supabase.functions.invoke<{ credential: PortableCredential }>('certificate-credentials', {
+    body: { certificateId, format }
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response: Response = error.context;
+      const details = await response.json().catch(() => ({}));
+      throw new CredentialExportError(details.error || error.message, response.status);
+    }
+    throw new CredentialExportError(error.message, 0);
+  }
+
+  return data!.credential;
+};
+
+export const downloadCredential = (credential: PortableCredential, fileName: string) => {
+  const blob = new Blob([JSON.stringify(credential, null, 2)], { type: 'application/ld+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ---------- Issuer keys ----------
+
+const ISSUER_KEYS_CACHE = 'qwixcert_issuer_keys';
+
+/**
+ * The issuer's published keys, from the registry when we can reach it and
+ * from the last copy fetched otherwise
+ */
+export const loadIssuerKeys = async (): Promise<{ keys: PublishedIssuerKey[]; fetchedAt: string } | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('certificate_issuer_keys')
+      .select('id, issuer, algorithm, public_jwk, retired_at, revoked_at');
+    if (error) throw error;
+
+    const keys = (data ?? []).map((row) => ({
+      id: row.id,
+      issuer: row.issuer,
+      algorithm: row.algorithm,
+      publicJwk: row.public_jwk as JsonWebKey,
+      retiredAt: row.retired_at,
+      revokedAt: row.revoked_at
+    }));
+    const fetched = { keys, fetchedAt: new Date().toISOString() };
+    localStorage.setItem(ISSUER_KEYS_CACHE, JSON.stringify(fetched));
+    return fetched;
+  } catch (error) {
+    console.warn('Issuer keys unavailable, using the cached copy:', error);
+    const cached = localStorage.getItem(ISSUER_KEYS_CACHE);
+    return cached ? JSON.parse(cached) : null;
+  }
+};
+
+// ---------- Encodings ----------
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const base58btcDecode = (text: string) => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character: ${char}`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (let i = 0; i < text.length && text[i] === '1'; i++) bytes.push(0);
+  return new Uint8Array(bytes.reverse());
+};
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const bytesToBigInt = (bytes: Uint8Array) =>
+  bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+const bigIntToBytes = (value: bigint, length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+};
+
+// ---------- did:key ----------
+
+// Multicodec varint prefix for a compressed P-256 public key (0x1200)
+const P256_PUBLIC_KEY_CODEC = [0x80, 0x24];
+
+// P-256 field prime and curve constant b (y² = x³ - 3x + b)
+const P256_P = 2n ** 256n - 2n ** 224n + 2n ** 192n + 2n ** 96n - 1n;
+const P256_B = BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b');
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint) => {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+};
+
+/**
+ * Public JWK of a P-256 did:key, recovering y from the compressed point
+ */
+export const jwkFromDidKey = (did: string): JsonWebKey => {
+  if (!did.startsWith('did:key:z')) {
+    throw new Error('Not a base58btc did:key');
+  }
+  const bytes = base58btcDecode(did.slice('did:key:z'.length));
+  if (bytes.length !== 35 || bytes[0] !== P256_PUBLIC_KEY_CODEC[0] || bytes[1] !== P256_PUBLIC_KEY_CODEC[1]) {
+    throw new Error('did:key is not a P-256 key');
+  }
+  const prefix = bytes[2];
+  const xBytes = bytes.slice(3);
+  const x = bytesToBigInt(xBytes);
+  const ySquared = ((x ** 3n - 3n * x + P256_B) % P256_P + P256_P) % P256_P;
+  // p ≡ 3 (mod 4), so the square root is a power
+  let y = modPow(ySquared, (P256_P + 1n) / 4n, P256_P);
+  if ((y * y) % P256_P !== ySquared || (prefix !== 0x02 && prefix !== 0x03)) {
+    throw new Error('did:key is not a point on P-256');
+  }
+  if (Number(y & 1n) !== (prefix & 1)) {
+    y = P256_P - y;
+  }
+  return { kty: 'EC', crv: 'P-256', x: base64UrlEncode(xBytes), y: base64UrlEncode(bigIntToBytes(y, 32)) };
+};
+
+// RFC 7638, matching the ids in certificate_issuer_keys
+const jwkThumbprint = async (jwk: JsonWebKey) => {
+  const members = { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJSON(members)));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+// ---------- Verification ----------
+
+interface OpenBadgeSubject {
+  identifier?: { identityType: string; hashed: boolean; identityHash: string }[];
+  achievement?: { name?: string };
+  result?: { value?: string }[];
+}
+
+interface CertificateSubject {
+  name?: string;
+  certification?: { title?: string; score?: number; certificateHash?: string };
+}
+
+const sha256 = async (value: unknown) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJSON(value))));
+
+const verifyProof = async (credential: PortableCredential, proof: DataIntegrityProof, publicJwk: JsonWebKey) => {
+  try {
+    const { proof: _proof, ...unsecured } = credential;
+    const { proofValue, ...options } = proof;
+    if (!proofValue.startsWith('z')) return false;
+
+    const proofHash = await sha256({ ...options, '@context': options['@context'] ?? unsecured['@context'] });
+    const documentHash = await sha256(unsecured);
+    const publicKey = await crypto.subtle.importKey('jwk', publicJwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      base58btcDecode(proofValue.slice(1)),
+      new Uint8Array([...proofHash, ...documentHash])
+    );
+  } catch {
+    // Malformed key or proof value
+    return false;
+  }
+};
+
+const summarize = (credential: PortableCredential): CredentialSummary => {
+  const issuer = typeof credential.issuer === 'string' ? { id: credential.issuer } : credential.issuer;
+  const certificateId = credential.id?.startsWith('urn:uuid:') ? credential.id.slice('urn:uuid:'.length) : undefined;
+  const base = {
+    certificateId,
+    issuerName: issuer.name,
+    issuerId: issuer.id,
+    issuedAt: credential.validFrom
+  };
+
+  if (credential.type.includes('OpenBadgeCredential')) {
+    const subject = credential.credentialSubject as OpenBadgeSubject;
+    const name = (subject.identifier ?? []).find((identity) => identity.identityType === 'name' && !identity.hashed);
+    const score = (subject.result ?? [])[0]?.value;
+    return {
+      ...base,
+      format: 'openbadge',
+      title: subject.achievement?.name ?? credential.name ?? 'Open Badge',
+      recipientName: name?.identityHash,
+      score: score !== undefined ? Number(score) : undefined
+    };
+  }
+  const subject = credential.credentialSubject as CertificateSubject;
+  return {
+    ...base,
+    format: 'vc',
+    certificateHash: subject.certification?.certificateHash,
+    title: subject.certification?.title ?? credential.name ?? 'Verifiable Credential',
+    recipientName: subject.name,
+    score: subject.certification?.score
+  };
+};
+
+/**
+ * Parse an imported file; throws when it isn't a credential at all
+ */
+export const parseCredential = (text: string): PortableCredential => {
+  const credential = JSON.parse(text);
+  if (
+    !credential || typeof credential !== 'object' ||
+    !Array.isArray(credential['@context']) ||
+    !Array.isArray(credential.type) || !credential.type.includes('VerifiableCredential') ||
+    !credential.issuer || !credential.credentialSubject
+  ) {
+    throw new Error('The file is not a W3C Verifiable Credential');
+  }
+  return credential;
+};
+
+/**
+ * Check an exported credential in the browser: its proof, that the proof
+ * key is one the issuer published and hadn't retired or revoked by then,
+ * and its validity period. Revocation of the certificate itself can only be
+ * checked online, against the certificate id in the credential.
+ */
+export const verifyCredential = async (credential: PortableCredential): Promise<CredentialVerificationResult> => {
+  let summary: CredentialSummary;
+  try {
+    summary = summarize(credential);
+  } catch {
+    return { valid: false, status: 'malformed' };
+  }
+
+  const proof = credential.proof;
+  const did = summary.issuerId;
+  if (
+    !proof || Array.isArray(proof) ||
+    proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'ecdsa-jcs-2019' ||
+    proof.proofPurpose !== 'assertionMethod' ||
+    typeof did !== 'string' || !did.startsWith('did:key:') ||
+    proof.verificationMethod?.split('#')[0] !== did
+  ) {
+    return { valid: false, status: 'unsupported_proof', summary };
+  }
+
+  let publicJwk: JsonWebKey;
+  try {
+    publicJwk = jwkFromDidKey(did);
+  } catch {
+    return { valid: false, status: 'unsupported_proof', summary };
+  }
+
+  const proofValid = await verifyProof(credential, proof, publicJwk);
+
+  const published = await loadIssuerKeys();
+  const kid = await jwkThumbprint(publicJwk);
+  const issuerKey = published?.keys.find((key) => key.id === kid);
+  const issuerTrusted = !!issuerKey &&
+    issuerKey.issuer === summary.issuerName &&
+    !issuerKey.revokedAt &&
+    (!issuerKey.retiredAt || new Date(proof.created) < new Date(issuerKey.retiredAt));
+
+  const now = Date.now();
+  const notYetValid = !!credential.validFrom && new Date(credential.validFrom).getTime() > now;
+  const expired = !!credential.validUntil && new Date(credential.validUntil).getTime() <= now;
+
+  let status: CredentialVerificationStatus = 'valid';
+  if (!proofValid) status = 'invalid_signature';
+  else if (!published) status = 'keys_unavailable';
+  else if (!issuerTrusted) status = 'untrusted_issuer';
+  else if (notYetValid) status = 'not_yet_valid';
+  else if (expired) status = 'expired';
+
+  return {
+    valid: status === 'valid',
+    status,
+    checks: { proof: proofValid, issuer: issuerTrusted, validity: !notYetValid && !expired },
+    summary,
+    issuerKey,
+    keysFetchedAt: published?.fetchedAt
+  };
+};
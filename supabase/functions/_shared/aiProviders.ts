@@ -0,0 +1,286 @@
+// Server-side LLM provider adapters used by the ai-gateway function.
+// Keys are read from the function environment and never reach the browser.
+
+export type ResponseFormat = "text" | "json";
+
+export interface ProviderRequest {
+  prompt: string;
+  responseFormat: ResponseFormat;
+  systemPrompt?: string;
+}
+
+export interface ProviderResult {
+  text: string;
+  model: string;
+}
+
+export type ProviderHandler = (request: ProviderRequest) => Promise<ProviderResult>;
+
+export interface ProviderStream {
+  model: string;
+  chunks: AsyncIterable<string>;
+}
+
+// Resolves once the upstream has accepted the request, so HTTP errors are
+// thrown before any tokens have been sent to the client.
+export type ProviderStreamHandler = (request: ProviderRequest, signal: AbortSignal) => Promise<ProviderStream>;
+
+// Thrown when an upstream provider answers with a non-2xx status, so the
+// gateway can forward 429/5xx to the client instead of collapsing to 500.
+export class UpstreamError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const DEFAULT_SYSTEM_PROMPT = `You are Ava, a professional AI interview coach. You conduct realistic job interviews with a warm, encouraging, yet professional demeanor.
+
+            Your personality traits:
+            - Friendly and approachable, but maintains professional boundaries
+            - Encouraging and supportive while providing constructive feedback
+            - Asks thoughtful follow-up questions to dive deeper into responses
+            - Provides specific, actionable advice for improvement
+            - Uses a conversational tone that puts candidates at ease
+            - Occasionally uses phrases like "That's a great point" or "I appreciate your honesty"
+            - Balances challenge with support to help candidates grow
+
+            Your interview style:
+            - Ask one question at a time and wait for responses
+            - Provide brief encouraging feedback before moving to the next question
+            - Use behavioral interview techniques (STAR method prompts)
+            - Adapt difficulty based on the candidate's experience level
+            - Focus on both technical skills and soft skills
+            - End with constructive summary feedback`;
+
+const requireKey = (name: string) => {
+  const key = Deno.env.get(name);
+  if (!key) {
+    throw new UpstreamError(`${name} is not configured`, 503);
+  }
+  return key;
+};
+
+// Yields the JSON payload of every `data:` line in a server-sent event stream
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+        if (!data || data === "[DONE]") continue;
+        yield JSON.parse(data);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+const geminiText = (data: GeminiResponse): string =>
+  data.candidates?.[0]?.content?.parts?.map((part: { text?: string }) => part.text ?? "").join("") ?? "";
+
+const geminiRequest = (
+  method: "generateContent" | "streamGenerateContent",
+  { prompt, responseFormat, systemPrompt }: ProviderRequest,
+  signal?: AbortSignal,
+) => {
+  const key = requireKey("GEMINI_API_KEY");
+  const model = Deno.env.get("GEMINI_MODEL") ?? "gemini-2.0-flash";
+  const query = method === "streamGenerateContent" ? `alt=sse&key=${key}` : `key=${key}`;
+
+  const response = fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?${query}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...(systemPrompt ? { systemInstruction: { parts: [{ text: systemPrompt }] } } : {}),
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.7,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 1024,
+          ...(responseFormat === "json" ? { responseMimeType: "application/json" } : {}),
+        },
+      }),
+      signal,
+    },
+  );
+  return { model, response };
+};
+
+const callGemini: ProviderHandler = async (request) => {
+  const { model, response: pending } = geminiRequest("generateContent", request);
+  const response = await pending;
+
+  if (!response.ok) {
+    throw new UpstreamError(`Gemini API call failed: ${response.status}`, response.status);
+  }
+
+  return { text: geminiText(await response.json()), model };
+};
+
+const streamGemini: ProviderStreamHandler = async (request, signal) => {
+  const { model, response: pending } = geminiRequest("streamGenerateContent", request, signal);
+  const response = await pending;
+
+  if (!response.ok || !response.body) {
+    throw new UpstreamError(`Gemini API call failed: ${response.status}`, response.status);
+  }
+
+  async function* chunks() {
+    for await (const event of readServerSentEvents(response.body!)) {
+      const text = geminiText(event);
+      if (text) yield text;
+    }
+  }
+  return { model, chunks: chunks() };
+};
+
+interface OpenAICompatibleConfig {
+  url: string;
+  keyName: string;
+  modelEnv: string;
+  defaultModel: string;
+  temperature: number;
+}
+
+// ChatGPT and Grok both speak the OpenAI chat completions protocol.
+const openAIRequest = (
+  config: OpenAICompatibleConfig,
+  { prompt, responseFormat, systemPrompt }: ProviderRequest,
+  stream: boolean,
+  signal?: AbortSignal,
+) => {
+  const key = requireKey(config.keyName);
+  const model = Deno.env.get(config.modelEnv) ?? config.defaultModel;
+
+  const response = fetch(config.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${key}`,
+    },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: "system", content: systemPrompt ?? DEFAULT_SYSTEM_PROMPT },
+        { role: "user", content: prompt },
+      ],
+      temperature: config.temperature,
+      max_tokens: 1024,
+      stream,
+      ...(responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+    }),
+    signal,
+  });
+  return { model, response };
+};
+
+const openAICompatible = (config: OpenAICompatibleConfig): ProviderHandler => async (request) => {
+  const { model, response: pending } = openAIRequest(config, request, false);
+  const response = await pending;
+
+  if (!response.ok) {
+    throw new UpstreamError(`${model} API call failed: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  return { text: data.choices?.[0]?.message?.content ?? "", model };
+};
+
+const openAICompatibleStream = (config: OpenAICompatibleConfig): ProviderStreamHandler => async (request, signal) => {
+  const { model, response: pending } = openAIRequest(config, request, true, signal);
+  const response = await pending;
+
+  if (!response.ok || !response.body) {
+    throw new UpstreamError(`${model} API call failed: ${response.status}`, response.status);
+  }
+
+  async function* chunks() {
+    for await (const event of readServerSentEvents(response.body!)) {
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+  return { model, chunks: chunks() };
+};
+
+const CHATGPT_CONFIG: OpenAICompatibleConfig = {
+  url: "https://api.openai.com/v1/chat/completions",
+  keyName: "OPENAI_API_KEY",
+  modelEnv: "OPENAI_MODEL",
+  defaultModel: "gpt-4o",
+  temperature: 0.7,
+};
+
+const GROK_CONFIG: OpenAICompatibleConfig = {
+  url: "https://api.x.ai/v1/chat/completions",
+  keyName: "GROK_API_KEY",
+  modelEnv: "GROK_MODEL",
+  defaultModel: "grok-3-latest",
+  temperature: 0,
+};
+
+// Deterministic offline provider for local development and tests.
+const mockText = ({ prompt, responseFormat }: ProviderRequest) => {
+  const excerpt = prompt.trim().replace(/\s+/g, " ").slice(0, 120);
+  return responseFormat === "json"
+    ? JSON.stringify({ mock: true, prompt: excerpt })
+    : `[mock] ${excerpt}`;
+};
+
+const callMock: ProviderHandler = async (request) => ({ text: mockText(request), model: "mock" });
+
+const streamMock: ProviderStreamHandler = async (request) => {
+  async function* chunks() {
+    for (const word of mockText(request).split(/(?<= )/)) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      yield word;
+    }
+  }
+  return { model: "mock", chunks: chunks() };
+};
+
+const providers = new Map<string, ProviderHandler>([
+  ["gemini", callGemini],
+  ["chatgpt", openAICompatible(CHATGPT_CONFIG)],
+  ["grok", openAICompatible(GROK_CONFIG)],
+  ["mock", callMock],
+]);
+
+const streamers = new Map<string, ProviderStreamHandler>([
+  ["gemini", streamGemini],
+  ["chatgpt", openAICompatibleStream(CHATGPT_CONFIG)],
+  ["grok", openAICompatibleStream(GROK_CONFIG)],
+  ["mock", streamMock],
+]);
+
+export const registerProvider = (name: string, handler: ProviderHandler, streamer?: ProviderStreamHandler) => {
+  providers.set(name, handler);
+  if (streamer) {
+    streamers.set(name, streamer);
+  } else {
+    streamers.delete(name);
+  }
+};
+
+export const getProvider = (name: string): ProviderHandler | undefined => providers.get(name);
+
+export const getStreamingProvider = (name: string): ProviderStreamHandler | undefined => streamers.get(name);
+
+export const listProviders = () => Array.from(providers.keys());
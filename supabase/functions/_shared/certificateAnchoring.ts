@@ -0,0 +1,15 @@
+// Batched anchoring of certificate hashes (see the certificate_anchoring
+// migration): certificates wait in a queue until the certificate-anchoring
+// function signs a Merkle root over them and stores their inclusion proofs.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Queue a certificate for the next batch; queuing it again changes nothing
+ */
+export const queueForAnchoring = async (supabaseAdmin: SupabaseClient, certificateId: string, certHash: string) => {
+  const { error } = await supabaseAdmin
+    .from("certificate_anchors")
+    .upsert({ certificate_id: certificateId, cert_hash: certHash }, { onConflict: "certificate_id", ignoreDuplicates: true });
+  if (error) throw error;
+};
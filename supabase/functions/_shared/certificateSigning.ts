@@ -0,0 +1,93 @@
+// Issuer signatures for QwiXCert certificates: ES256 (ECDSA P-256 with
+// SHA-256) over the canonical JSON of the certificate payload, encoded as
+// base64url of the raw r||s bytes. The private key is a JWK in the
+// CERT_ISSUER_PRIVATE_JWK secret; its public half is published in
+// certificate_issuer_keys under its RFC 7638 thumbprint.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { canonicalJSON } from "./canonicalJson.ts";
+
+export const ISSUER_NAME = Deno.env.get("CERT_ISSUER_NAME") || "QwiXCert Authority";
+
+const ALGORITHM = { name: "ECDSA", namedCurve: "P-256" };
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" };
+
+export interface IssuerKey {
+  kid: string;
+  issuer: string;
+  publicJwk: JsonWebKey;
+  privateKey: CryptoKey;
+}
+
+export const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+export const base64UrlDecode = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(text.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const publicPart = (jwk: JsonWebKey): JsonWebKey => ({ kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y });
+
+// RFC 7638: SHA-256 over the required members in lexicographic order
+export const jwkThumbprint = async (jwk: JsonWebKey) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJSON(publicPart(jwk))));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+let issuerKey: Promise<IssuerKey> | null = null;
+
+/**
+ * The configured signing key, imported once per instance
+ */
+export const loadIssuerKey = () => {
+  issuerKey ??= (async () => {
+    const secret = Deno.env.get("CERT_ISSUER_PRIVATE_JWK");
+    if (!secret) {
+      throw new Error("CERT_ISSUER_PRIVATE_JWK is not configured");
+    }
+    const jwk = JSON.parse(secret) as JsonWebKey;
+    if (jwk.kty !== "EC" || jwk.crv !== "P-256" || !jwk.d) {
+      throw new Error("CERT_ISSUER_PRIVATE_JWK must be a private P-256 EC key");
+    }
+    const privateKey = await crypto.subtle.importKey("jwk", jwk, ALGORITHM, false, ["sign"]);
+    return { kid: await jwkThumbprint(jwk), issuer: ISSUER_NAME, publicJwk: publicPart(jwk), privateKey };
+  })();
+  // A bad secret shouldn't stay cached after it is fixed
+  issuerKey.catch(() => { issuerKey = null; });
+  return issuerKey;
+};
+
+/**
+ * Make sure the key's public half is in the registry before it signs anything
+ */
+export const publishIssuerKey = async (supabaseAdmin: SupabaseClient, key: IssuerKey) => {
+  const { error } = await supabaseAdmin
+    .from("certificate_issuer_keys")
+    .upsert({ id: key.kid, issuer: key.issuer, public_jwk: key.publicJwk }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+};
+
+export const signPayload = async (key: IssuerKey, payload: unknown) => {
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    key.privateKey,
+    new TextEncoder().encode(canonicalJSON(payload)),
+  );
+  return base64UrlEncode(new Uint8Array(signature));
+};
+
+export const verifyPayloadSignature = async (publicJwk: JsonWebKey, payload: unknown, signature: string) => {
+  try {
+    const publicKey = await crypto.subtle.importKey("jwk", publicPart(publicJwk), ALGORITHM, false, ["verify"]);
+    return await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(canonicalJSON(payload)),
+    );
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+};
@@ -0,0 +1,89 @@
+// W3C Data Integrity proofs with the ecdsa-jcs-2019 cryptosuite, made with
+// the certificate issuer key (see certificateSigning.ts). The issuer is
+// identified by the did:key of its public key, so wallets can check a
+// credential without calling back here.
+//
+// https://www.w3.org/TR/vc-di-ecdsa/#ecdsa-jcs-2019
+
+import { canonicalJSON } from "./canonicalJson.ts";
+import { base64UrlDecode, type IssuerKey } from "./certificateSigning.ts";
+
+export const VC_CONTEXT = "https://www.w3.org/ns/credentials/v2";
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Multicodec varint prefix for a compressed P-256 public key (0x1200)
+const P256_PUBLIC_KEY_CODEC = [0x80, 0x24];
+
+export interface DataIntegrityProof {
+  type: "DataIntegrityProof";
+  cryptosuite: "ecdsa-jcs-2019";
+  created: string;
+  verificationMethod: string;
+  proofPurpose: "assertionMethod";
+  proofValue: string;
+}
+
+export const base58btcEncode = (bytes: Uint8Array) => {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  let text = "";
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) text += "1";
+  for (let i = digits.length - 1; i >= 0; i--) text += BASE58_ALPHABET[digits[i]];
+  return text;
+};
+
+/**
+ * did:key for a P-256 public JWK: multibase base58btc of the multicodec
+ * prefixed, compressed public point
+ */
+export const didKeyFromJwk = (jwk: JsonWebKey) => {
+  const x = base64UrlDecode(jwk.x!);
+  const y = base64UrlDecode(jwk.y!);
+  const bytes = new Uint8Array([...P256_PUBLIC_KEY_CODEC, y[y.length - 1] % 2 === 0 ? 0x02 : 0x03, ...x]);
+  return `did:key:z${base58btcEncode(bytes)}`;
+};
+
+export const verificationMethodFor = (key: IssuerKey) => {
+  const did = didKeyFromJwk(key.publicJwk);
+  return `${did}#${did.slice("did:key:".length)}`;
+};
+
+const sha256 = async (value: unknown) =>
+  new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJSON(value))));
+
+/**
+ * Sign a credential. The proof covers the canonical JSON of the proof
+ * options (with the credential's @context) followed by that of the
+ * credential, hashed separately and concatenated.
+ */
+export const addDataIntegrityProof = async <T extends Record<string, unknown>>(key: IssuerKey, document: T) => {
+  const { proof: _existing, ...unsecured } = document;
+  const options = {
+    type: "DataIntegrityProof" as const,
+    cryptosuite: "ecdsa-jcs-2019" as const,
+    created: new Date().toISOString().replace(/\.\d{3}Z$/, "Z"),
+    verificationMethod: verificationMethodFor(key),
+    proofPurpose: "assertionMethod" as const,
+  };
+  const proofHash = await sha256({ ...options, "@context": unsecured["@context"] });
+  const documentHash = await sha256(unsecured);
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    key.privateKey,
+    new Uint8Array([...proofHash, ...documentHash]),
+  );
+  const proof: DataIntegrityProof = { ...options, proofValue: `z${base58btcEncode(new Uint8Array(signature))}` };
+  return { ...unsecured, proof } as Omit<T, "proof"> & { proof: DataIntegrityProof };
+};
@@ -0,0 +1,110 @@
+// Minimal RFC 5545 writer for interview invites: one VEVENT per calendar,
+// CRLF line endings, 75-octet line folding and TEXT escaping.
+
+export type CalendarMethod = "REQUEST" | "CANCEL";
+
+export interface CalendarPerson {
+  email: string;
+  name?: string;
+}
+
+export interface CalendarEvent {
+  // Stable across reschedules; clients match updates to events by UID
+  uid: string;
+  // Must increase every time the event changes
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  organizer: CalendarPerson;
+  attendees: CalendarPerson[];
+  cancelled?: boolean;
+}
+
+const PRODUCT_ID = "-//Mahayudh//Interview Scheduler//EN";
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// YYYYMMDDTHHMMSSZ
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// TEXT values escape backslash, semicolon, comma and newlines (3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Parameter values with separators must be quoted, and cannot contain quotes
+const paramValue = (value: string) => {
+  const cleaned = value.replace(/"/g, "'");
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+/**
+ * Fold a content line into 75-octet chunks without splitting a UTF-8 character
+ */
+const foldLine = (line: string) => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const person = (property: string, who: CalendarPerson, params: string[] = []) => {
+  const name = who.name ? [`CN=${paramValue(who.name)}`] : [];
+  return `${[property, ...name, ...params].join(";")}:mailto:${who.email}`;
+};
+
+/**
+ * Serialise an event as an iCalendar object. REQUEST invites or updates the
+ * attendees; CANCEL removes the event from their calendars.
+ */
+export const buildCalendar = (event: CalendarEvent, method: CalendarMethod = event.cancelled ? "CANCEL" : "REQUEST") => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `STATUS:${method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+    person("ORGANIZER", event.organizer),
+    ...event.attendees.map((attendee) =>
+      person("ATTENDEE", attendee, ["CUTYPE=INDIVIDUAL", "ROLE=REQ-PARTICIPANT", "PARTSTAT=NEEDS-ACTION", "RSVP=TRUE"])
+    ),
+    ...(method === "REQUEST"
+      ? ["BEGIN:VALARM", "ACTION:DISPLAY", "DESCRIPTION:Interview reminder", "TRIGGER:-PT15M", "END:VALARM"]
+      : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
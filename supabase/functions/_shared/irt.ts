@@ -0,0 +1,184 @@
+// Two-parameter logistic (2PL) item response model for certification exams.
+// Each question has a difficulty b and a discrimination a; a candidate of
+// ability theta answers it correctly with probability 1 / (1 + e^(-a(theta - b))).
+// Abilities are on a standard normal scale: 0 is the average candidate.
+
+export interface ItemParameters {
+  difficulty: number;
+  discrimination: number;
+}
+
+export interface ItemResponse {
+  item: ItemParameters;
+  correct: boolean;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+}
+
+// Parameter ranges kept during calibration so sparse data can't run off
+const MIN_DISCRIMINATION = 0.2;
+const MAX_DISCRIMINATION = 3;
+const MAX_ABS_DIFFICULTY = 4;
+
+// Quadrature points for the ability posterior
+const THETA_GRID = Array.from({ length: 161 }, (_, i) => -4 + i * 0.05);
+
+export const DEFAULT_ITEM: ItemParameters = { difficulty: 0, discrimination: 1 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const probabilityCorrect = (theta: number, item: ItemParameters) =>
+  1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+
+// Fisher information: how much an answer to this item narrows the estimate at theta
+export const itemInformation = (theta: number, item: ItemParameters) => {
+  const p = probabilityCorrect(theta, item);
+  return item.discrimination * item.discrimination * p * (1 - p);
+};
+
+/**
+ * Expected a posteriori ability with a standard normal prior. Unlike maximum
+ * likelihood it stays finite when every answer so far is right (or wrong).
+ */
+export const estimateAbility = (responses: ItemResponse[]): AbilityEstimate => {
+  const logPosterior = THETA_GRID.map((theta) =>
+    responses.reduce((sum, { item, correct }) => {
+      const p = clamp(probabilityCorrect(theta, item), 1e-9, 1 - 1e-9);
+      return sum + Math.log(correct ? p : 1 - p);
+    }, -theta * theta / 2)
+  );
+  const peak = Math.max(...logPosterior);
+  const weights = logPosterior.map((value) => Math.exp(value - peak));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const theta = THETA_GRID.reduce((sum, point, i) => sum + point * weights[i], 0) / total;
+  const variance = THETA_GRID.reduce((sum, point, i) => sum + (point - theta) ** 2 * weights[i], 0) / total;
+  return { theta, standardError: Math.sqrt(variance) };
+};
+
+/**
+ * Index of the item to ask next: the most informative at the current
+ * estimate, picked at random among the top few so the same opening items
+ * aren't shown to every candidate.
+ */
+export const selectNextItem = (theta: number, items: ItemParameters[], randomness = 3): number => {
+  if (items.length === 0) return -1;
+  const ranked = items
+    .map((item, index) => ({ index, information: itemInformation(theta, item) }))
+    .sort((a, b) => b.information - a.information)
+    .slice(0, randomness);
+  return ranked[crypto.getRandomValues(new Uint32Array(1))[0] % ranked.length].index;
+};
+
+// Standard normal CDF (Abramowitz and Stegun 26.2.17)
+export const normalCdf = (x: number) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+};
+
+/**
+ * 0-100 score for an ability: the share of the reference population below it
+ */
+export const scaledScore = (theta: number) => Math.round(normalCdf(theta) * 100);
+
+// ---------- Calibration ----------
+
+export interface CalibrationResponse {
+  personId: string;
+  itemId: string;
+  correct: boolean;
+}
+
+export interface CalibratedItem extends ItemParameters {
+  responseCount: number;
+}
+
+// MAP fit of one item's slope/intercept given the candidates' abilities.
+// Priors: discrimination ~ N(1, 0.5^2), intercept ~ N(0, 2^2).
+const fitItem = (start: ItemParameters, observations: { theta: number; correct: boolean }[]): ItemParameters => {
+  let a = start.discrimination;
+  let c = -start.discrimination * start.difficulty;
+
+  for (let iteration = 0; iteration < 25; iteration++) {
+    let gradA = -(a - 1) / 0.25;
+    let gradC = -c / 4;
+    let hessAA = -1 / 0.25;
+    let hessAC = 0;
+    let hessCC = -1 / 4;
+    for (const { theta, correct } of observations) {
+      const p = 1 / (1 + Math.exp(-(a * theta + c)));
+      const residual = (correct ? 1 : 0) - p;
+      const weight = p * (1 - p);
+      gradA += residual * theta;
+      gradC += residual;
+      hessAA -= weight * theta * theta;
+      hessAC -= weight * theta;
+      hessCC -= weight;
+    }
+    const determinant = hessAA * hessCC - hessAC * hessAC;
+    if (Math.abs(determinant) < 1e-12) break;
+    const stepA = (hessCC * gradA - hessAC * gradC) / determinant;
+    const stepC = (hessAA * gradC - hessAC * gradA) / determinant;
+    a = clamp(a - stepA, MIN_DISCRIMINATION, MAX_DISCRIMINATION);
+    c -= stepC;
+    if (Math.abs(stepA) < 1e-4 && Math.abs(stepC) < 1e-4) break;
+  }
+
+  return { discrimination: a, difficulty: clamp(-c / a, -MAX_ABS_DIFFICULTY, MAX_ABS_DIFFICULTY) };
+};
+
+/**
+ * Re-estimate item parameters from past responses by alternating between
+ * candidate abilities and item fits. Items with fewer than `minResponses`
+ * answers keep their current parameters.
+ */
+export const calibrateItems = (
+  responses: CalibrationResponse[],
+  items: Map<string, ItemParameters>,
+  minResponses = 20,
+  rounds = 5,
+): Map<string, CalibratedItem> => {
+  const params = new Map(items);
+  const byPerson = new Map<string, CalibrationResponse[]>();
+  const byItem = new Map<string, CalibrationResponse[]>();
+  for (const response of responses) {
+    if (!params.has(response.itemId)) continue;
+    if (!byPerson.has(response.personId)) byPerson.set(response.personId, []);
+    if (!byItem.has(response.itemId)) byItem.set(response.itemId, []);
+    byPerson.get(response.personId)!.push(response);
+    byItem.get(response.itemId)!.push(response);
+  }
+
+  for (let round = 0; round < rounds; round++) {
+    const abilities = new Map<string, number>();
+    for (const [personId, answered] of byPerson) {
+      abilities.set(personId, estimateAbility(answered.map((response) => ({
+        item: params.get(response.itemId)!,
+        correct: response.correct,
+      }))).theta);
+    }
+    // EAP estimates are pulled toward the prior; rescale them to the unit
+    // normal the item parameters are defined against
+    const values = [...abilities.values()];
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const spread = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length) || 1;
+    for (const [personId, theta] of abilities) {
+      abilities.set(personId, (theta - mean) / spread);
+    }
+
+    for (const [itemId, answered] of byItem) {
+      if (answered.length < minResponses) continue;
+      params.set(itemId, fitItem(params.get(itemId)!, answered.map((response) => ({
+        theta: abilities.get(response.personId)!,
+        correct: response.correct,
+      }))));
+    }
+  }
+
+  return new Map([...params].map(([itemId, item]) => [itemId, { ...item, responseCount: byItem.get(itemId)?.length ?? 0 }]));
+};
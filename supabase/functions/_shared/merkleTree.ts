@@ -0,0 +1,65 @@
+// Merkle trees over certificate hashes for batched anchoring, matching
+// src/utils/merkleTree.ts so proofs built here verify in the browser.
+// Hashing follows RFC 6962: a leaf is SHA-256(0x00 || certificate hash) and a
+// node SHA-256(0x01 || left || right), so a node can never pass for a leaf.
+// A level with an odd node out carries it up unpaired.
+
+export interface ProofStep {
+  // Which side of the path the sibling is on
+  side: "left" | "right";
+  hash: string;
+}
+
+export interface MerkleTree {
+  root: string;
+  // proofs[i] leads from leaf i to the root
+  proofs: ProofStep[][];
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+
+const sha256 = async (prefix: number, ...parts: Uint8Array[]) => {
+  const data = new Uint8Array(1 + parts.reduce((length, part) => length + part.length, 0));
+  data[0] = prefix;
+  let offset = 1;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+};
+
+export const leafHash = async (certHash: string) => toHex(await sha256(0x00, fromHex(certHash)));
+
+/**
+ * Root of the tree over the certificate hashes, in order, and every leaf's proof
+ */
+export const buildMerkleTree = async (certHashes: string[]): Promise<MerkleTree> => {
+  if (certHashes.length === 0) {
+    throw new Error("A Merkle tree needs at least one leaf");
+  }
+
+  let level = await Promise.all(certHashes.map((certHash) => sha256(0x00, fromHex(certHash))));
+  const positions = certHashes.map((_, index) => index);
+  const proofs: ProofStep[][] = certHashes.map(() => []);
+
+  while (level.length > 1) {
+    positions.forEach((position, leaf) => {
+      const sibling = position ^ 1;
+      if (sibling < level.length) {
+        proofs[leaf].push({ side: position % 2 ? "left" : "right", hash: toHex(level[sibling]) });
+      }
+      positions[leaf] = position >> 1;
+    });
+
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await sha256(0x01, level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+
+  return { root: toHex(level[0]), proofs };
+};
@@ -0,0 +1,75 @@
+// Plain-text extraction for resumes stored in the `resumes` bucket.
+// Supports the formats ResumeDropzone accepts, except legacy binary .doc.
+
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { strFromU8, unzipSync } from "https://esm.sh/fflate@0.8.2";
+
+export class ResumeExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResumeExtractionError";
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&apos;": "'",
+};
+
+const normalizeWhitespace = (text: string) =>
+  text
+    .replace(/\r/g, "")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/\n\s*\n\s*\n+/g, "\n\n")
+    .trim();
+
+const extractPdf = async (bytes: Uint8Array) => {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: true });
+  return Array.isArray(text) ? text.join("\n") : text;
+};
+
+// A .docx is a zip; the body text lives in word/document.xml
+const extractDocx = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes, { filter: (file) => file.name === "word/document.xml" });
+  const documentXml = files["word/document.xml"];
+  if (!documentXml) {
+    throw new ResumeExtractionError("The Word document has no body");
+  }
+  return strFromU8(documentXml)
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:br\/>/g, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity]);
+};
+
+/**
+ * Extract the text of a resume file, picking the parser from its name
+ * (and the file signature for PDFs)
+ */
+export const extractResumeText = async (bytes: Uint8Array, fileName: string): Promise<string> => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const isPdf = bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46; // %PDF
+
+  let text: string;
+  if (isPdf || extension === "pdf") {
+    text = await extractPdf(bytes);
+  } else if (extension === "docx") {
+    text = extractDocx(bytes);
+  } else if (extension === "txt") {
+    text = new TextDecoder().decode(bytes);
+  } else {
+    throw new ResumeExtractionError(`Cannot read .${extension} resumes; upload a PDF or DOCX file`);
+  }
+
+  text = normalizeWhitespace(text);
+  if (!text) {
+    // Typically a scanned PDF without a text layer
+    throw new ResumeExtractionError("No text could be extracted from the resume");
+  }
+  return text;
+};
@@ -0,0 +1,141 @@
+// The revocation registry (see the revocation_registry migration): every
+// issued certificate and registered document owns a bit in a status list,
+// and its entry records who revoked it, when and why.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+
+export type SubjectType = "certificate" | "document";
+
+export interface StatusListEntry {
+  id: string;
+  list_id: string;
+  list_index: number;
+  subject_type: SubjectType;
+  subject_id: string;
+  content_hash: string | null;
+  label: string;
+  issuer_company_id: string | null;
+  issuer_name: string;
+  registered_by: string | null;
+  registered_at: string;
+  status: "active" | "revoked" | "superseded";
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revoked_by_name: string | null;
+  revocation_reason: string | null;
+  superseded_by: string | null;
+}
+
+export interface Registration {
+  subjectType: SubjectType;
+  subjectId: string;
+  label: string;
+  issuerName: string;
+  issuerCompanyId?: string | null;
+  contentHash?: string | null;
+  registeredBy?: string | null;
+  registeredByName?: string | null;
+}
+
+/**
+ * Public URL of a status list credential, served by revocation-registry
+ */
+export const statusListUrl = (listId: string) => `${SUPABASE_URL}/functions/v1/revocation-registry?list=${listId}`;
+
+/**
+ * Where a credential's revocation bit lives, as a Bitstring Status List entry
+ */
+export const credentialStatusFor = (entry: StatusListEntry) => ({
+  id: `${statusListUrl(entry.list_id)}#${entry.list_index}`,
+  type: "BitstringStatusListEntry",
+  statusPurpose: "revocation",
+  statusListIndex: String(entry.list_index),
+  statusListCredential: statusListUrl(entry.list_id),
+});
+
+/**
+ * What verifiers are shown about an entry
+ */
+export const publicStatus = (entry: StatusListEntry) => ({
+  id: entry.id,
+  subjectType: entry.subject_type,
+  subjectId: entry.subject_id,
+  label: entry.label,
+  contentHash: entry.content_hash,
+  issuerName: entry.issuer_name,
+  registeredAt: entry.registered_at,
+  status: entry.status,
+  revokedAt: entry.revoked_at,
+  revokedBy: entry.revoked_by_name,
+  reason: entry.revocation_reason,
+  supersededBy: entry.superseded_by,
+  statusListCredential: statusListUrl(entry.list_id),
+  statusListIndex: entry.list_index,
+});
+
+export const loadEntry = async (supabaseAdmin: SupabaseClient, subjectType: SubjectType, subjectId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from("status_list_entries")
+    .select("*")
+    .eq("subject_type", subjectType)
+    .eq("subject_id", subjectId)
+    .maybeSingle<StatusListEntry>();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Give a subject its bit in a status list. Registering the same subject (or
+ * the same file for the same issuer) again returns the existing entry.
+ */
+export const registerSubject = async (supabaseAdmin: SupabaseClient, registration: Registration): Promise<StatusListEntry> => {
+  const existing = await loadEntry(supabaseAdmin, registration.subjectType, registration.subjectId);
+  if (existing) return existing;
+  if (registration.contentHash) {
+    let query = supabaseAdmin.from("status_list_entries").select("*").eq("content_hash", registration.contentHash);
+    query = registration.issuerCompanyId
+      ? query.eq("issuer_company_id", registration.issuerCompanyId)
+      : query.is("issuer_company_id", null);
+    const { data: sameFile, error: sameFileError } = await query.maybeSingle<StatusListEntry>();
+    if (sameFileError) throw sameFileError;
+    if (sameFile) return sameFile;
+  }
+
+  const { data: slot, error: slotError } = await supabaseAdmin.rpc("allocate_status_list_index").single<{ list_id: string; list_index: number }>();
+  if (slotError) throw slotError;
+
+  const { data: entry, error: insertError } = await supabaseAdmin
+    .from("status_list_entries")
+    .insert({
+      list_id: slot.list_id,
+      list_index: slot.list_index,
+      subject_type: registration.subjectType,
+      subject_id: registration.subjectId,
+      content_hash: registration.contentHash ?? null,
+      label: registration.label,
+      issuer_company_id: registration.issuerCompanyId ?? null,
+      issuer_name: registration.issuerName,
+      registered_by: registration.registeredBy ?? null,
+    })
+    .select()
+    .single<StatusListEntry>();
+  if (insertError) {
+    // Registered by a concurrent request, which the lookups above now find;
+    // the bit allocated here stays unused
+    if (insertError.code === "23505") {
+      return registerSubject(supabaseAdmin, registration);
+    }
+    throw insertError;
+  }
+
+  const { error: eventError } = await supabaseAdmin.from("revocation_events").insert({
+    entry_id: entry.id,
+    action: "registered",
+    actor_id: registration.registeredBy ?? null,
+    actor_name: registration.registeredByName ?? registration.issuerName,
+  });
+  if (eventError) throw eventError;
+  return entry;
+};
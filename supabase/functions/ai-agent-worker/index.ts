@@ -0,0 +1,628 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getProvider } from "../_shared/aiProviders.ts";
+import { extractResumeText } from "../_shared/resumeText.ts";
+
+// Drains the ai_agent_tasks queue. Each claimed task runs one batch of work
+// through the shared AI providers; long tasks are put back on the queue with
+// their progress so no single invocation outlives the edge function limits.
+// Failed tasks are retried with backoff and, once out of attempts, put the
+// agent into the Error state until one of its tasks succeeds again.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Backend from _shared/aiProviders.ts the agents think with
+const AGENT_PROVIDER = Deno.env.get("AI_AGENT_PROVIDER") || "gemini";
+// Stop claiming new tasks after this long so the invocation ends in time
+const TIME_BUDGET_MS = 100_000;
+// Items handled per claim before the task goes back on the queue
+const BATCH_SIZE = 5;
+const MAX_RESUME_CHARS = 12000;
+const DEFAULT_MINIMUM_SCORE = 70;
+// Candidates from the talent pool shortlisted for the model to rank
+const SOURCING_POOL_SIZE = 25;
+
+type TaskType = "screen_applications" | "analyze_feedback" | "source_candidates" | "flag_unscheduled_interviews";
+
+interface AgentTask {
+  id: string;
+  agent_id: string;
+  company_id: string;
+  task_type: TaskType;
+  params: Record<string, unknown>;
+  progress_done: number;
+  progress_total: number | null;
+  attempts: number;
+  max_attempts: number;
+  created_by: string | null;
+}
+
+interface AgentJob {
+  id: string;
+  title: string;
+  description: string;
+  requirements: string | null;
+  skills_required: string[] | null;
+  experience_level: string | null;
+  ats_minimum_score: number | null;
+  company_id: string;
+}
+
+// What a handler reports back for one batch
+interface BatchOutcome {
+  done: number;
+  total: number;
+  finished: boolean;
+  result?: Record<string, unknown>;
+}
+
+// The agent types allowed to run each task
+const TASK_AGENT_TYPES: Record<TaskType, string> = {
+  screen_applications: "ResumeScreener",
+  analyze_feedback: "FeedbackAnalyzer",
+  source_candidates: "CandidateSourcer",
+  flag_unscheduled_interviews: "InterviewScheduler",
+};
+
+// Errors that retrying won't fix, e.g. a deleted job
+class PermanentTaskError extends Error {}
+
+// A task HR cancelled while the worker had it
+class TaskCancelledError extends Error {}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const clamp = (value: unknown, min: number, max: number) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : null;
+};
+
+const fullName = (person: { first_name: string; last_name: string }) =>
+  `${person.first_name} ${person.last_name === "-" ? "" : person.last_name}`.trim();
+
+// Runs a prompt through the configured provider and records it against the
+// user who queued the task, like requests through the ai-gateway function
+const askModel = async (
+  supabaseAdmin: SupabaseClient,
+  task: AgentTask,
+  prompt: string,
+): Promise<Record<string, unknown>> => {
+  const provider = getProvider(AGENT_PROVIDER);
+  if (!provider) {
+    throw new PermanentTaskError(`Unknown agent provider '${AGENT_PROVIDER}'`);
+  }
+
+  const startedAt = Date.now();
+  const { text, model } = await provider({ prompt, responseFormat: "json" });
+
+  if (task.created_by) {
+    const { error: usageError } = await supabaseAdmin
+      .from("ai_gateway_usage")
+      .insert({
+        user_id: task.created_by,
+        provider: AGENT_PROVIDER,
+        model,
+        prompt_chars: prompt.length,
+        response_chars: text.length,
+        latency_ms: Date.now() - startedAt,
+      });
+    if (usageError) {
+      console.error("Failed to record AI usage:", usageError);
+    }
+  }
+
+  return JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+};
+
+const loadJob = async (supabaseAdmin: SupabaseClient, task: AgentTask): Promise<AgentJob> => {
+  const jobId = task.params.jobId;
+  if (typeof jobId !== "string") {
+    throw new PermanentTaskError("The task has no jobId");
+  }
+  const { data: job, error } = await supabaseAdmin
+    .from("jobs")
+    .select("id, title, description, requirements, skills_required, experience_level, ats_minimum_score, company_id")
+    .eq("id", jobId)
+    .maybeSingle<AgentJob>();
+  if (error) throw error;
+  if (!job || job.company_id !== task.company_id) {
+    throw new PermanentTaskError("Job not found");
+  }
+  return job;
+};
+
+const describeJob = (job: AgentJob) => `Title: ${job.title}
+Experience level: ${job.experience_level || "Not specified"}
+Required skills: ${(job.skills_required || []).join(", ") || "Not specified"}
+Description:
+${job.description}
+${job.requirements ? `Requirements:\n${job.requirements}` : ""}`;
+
+// Applications this agent hasn't made a call on yet, out of `applicationIds`
+const undecided = async (supabaseAdmin: SupabaseClient, task: AgentTask, applicationIds: string[]) => {
+  if (applicationIds.length === 0) return [];
+  const { data, error } = await supabaseAdmin
+    .from("ai_agent_decisions")
+    .select("application_id")
+    .eq("agent_id", task.agent_id)
+    .in("application_id", applicationIds);
+  if (error) throw error;
+  const decided = new Set((data ?? []).map((row) => row.application_id));
+  return applicationIds.filter((id) => !decided.has(id));
+};
+
+const parseDecision = (parsed: Record<string, unknown>) => {
+  const decision = parsed.decision === "advance" || parsed.decision === "reject" ? parsed.decision : null;
+  if (!decision) {
+    throw new Error("Model response is missing a decision");
+  }
+  return {
+    decision,
+    confidence: clamp(parsed.confidence, 0, 1),
+    score: parsed.score === undefined ? null : Math.round(clamp(parsed.score, 0, 100) ?? 0),
+    rationale: typeof parsed.rationale === "string" ? parsed.rationale.slice(0, 2000) : null,
+  };
+};
+
+const decisionCounts = async (supabaseAdmin: SupabaseClient, task: AgentTask) => {
+  const { data, error } = await supabaseAdmin
+    .from("ai_agent_decisions")
+    .select("decision")
+    .eq("task_id", task.id);
+  if (error) throw error;
+  const rows = data ?? [];
+  return {
+    decisions: rows.length,
+    advance: rows.filter((row) => row.decision === "advance").length,
+    reject: rows.filter((row) => row.decision === "reject").length,
+  };
+};
+
+// ---------- ResumeScreener ----------
+
+// The uploaded resume when the candidate applied through the job board,
+// otherwise what the candidate profile says
+const candidateResume = async (
+  supabaseAdmin: SupabaseClient,
+  candidate: { user_profile_id: string | null; first_name: string; last_name: string; experience_years: number | null; skills: string[] | null },
+  jobId: string,
+) => {
+  if (candidate.user_profile_id) {
+    const { data: upload } = await supabaseAdmin
+      .from("job_applications")
+      .select("resume_file_path, resume_file_name")
+      .eq("user_id", candidate.user_profile_id)
+      .eq("job_id", jobId)
+      .not("resume_file_path", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (upload?.resume_file_path) {
+      const { data: file } = await supabaseAdmin.storage.from("resumes").download(upload.resume_file_path);
+      if (file) {
+        try {
+          return await extractResumeText(
+            new Uint8Array(await file.arrayBuffer()),
+            upload.resume_file_name || upload.resume_file_path.split("/").pop(),
+          );
+        } catch (error) {
+          console.error("Falling back to the candidate profile:", error.message);
+        }
+      }
+    }
+  }
+
+  return `Name: ${fullName(candidate)}
+Years of experience: ${candidate.experience_years ?? "Unknown"}
+Skills: ${(candidate.skills || []).join(", ") || "None listed"}
+(No resume on file; this is the candidate profile.)`;
+};
+
+const screenApplications = async (supabaseAdmin: SupabaseClient, task: AgentTask, progress: (done: number, total: number) => Promise<void>): Promise<BatchOutcome> => {
+  const job = await loadJob(supabaseAdmin, task);
+  const minimumScore = job.ats_minimum_score || DEFAULT_MINIMUM_SCORE;
+
+  const { data: applications, error } = await supabaseAdmin
+    .from("applications")
+    .select("id, candidate_id")
+    .eq("job_id", job.id)
+    .eq("pipeline_stage", "Applied")
+    .order("created_at");
+  if (error) throw error;
+
+  const pending = await undecided(supabaseAdmin, task, (applications ?? []).map((application) => application.id));
+  let done = (await decisionCounts(supabaseAdmin, task)).decisions;
+  const total = done + pending.length;
+
+  for (const applicationId of pending.slice(0, BATCH_SIZE)) {
+    await progress(done, total);
+    const application = applications!.find((row) => row.id === applicationId)!;
+    const { data: candidate, error: candidateError } = await supabaseAdmin
+      .from("candidates")
+      .select("id, user_profile_id, first_name, last_name, experience_years, skills")
+      .eq("id", application.candidate_id)
+      .single();
+    if (candidateError) throw candidateError;
+
+    const resume = await candidateResume(supabaseAdmin, candidate, job.id);
+    const parsed = await askModel(supabaseAdmin, task, `
+You are a resume screening agent for a hiring team. Decide whether this
+applicant should advance to screening for the job below. HR will review your
+call, so be calibrated: a candidate scoring ${minimumScore} or more usually advances.
+
+JOB
+${describeJob(job)}
+
+RESUME
+${resume.slice(0, MAX_RESUME_CHARS)}
+
+Return ONLY JSON in this exact format:
+{
+  "decision": "advance" | "reject",
+  "confidence": number between 0 and 1,
+  "score": integer fit score from 0 to 100,
+  "rationale": one or two sentences citing the resume
+}`);
+    const decision = parseDecision(parsed);
+
+    const { error: insertError } = await supabaseAdmin
+      .from("ai_agent_decisions")
+      .insert({ task_id: task.id, agent_id: task.agent_id, application_id: application.id, candidate_id: candidate.id, ...decision });
+    if (insertError) throw insertError;
+
+    if (decision.score !== null) {
+      const { error: scoreError } = await supabaseAdmin
+        .from("applications")
+        .update({ ai_score: decision.score })
+        .eq("id", application.id);
+      if (scoreError) throw scoreError;
+    }
+    done++;
+  }
+
+  const finished = pending.length <= BATCH_SIZE;
+  return {
+    done,
+    total,
+    finished,
+    result: finished ? { jobId: job.id, ...(await decisionCounts(supabaseAdmin, task)) } : undefined,
+  };
+};
+
+// ---------- FeedbackAnalyzer ----------
+
+const analyzeFeedback = async (supabaseAdmin: SupabaseClient, task: AgentTask, progress: (done: number, total: number) => Promise<void>): Promise<BatchOutcome> => {
+  const job = await loadJob(supabaseAdmin, task);
+
+  // Interviewing applications with at least one submitted scorecard
+  const { data: scorecards, error } = await supabaseAdmin
+    .from("interview_scorecards")
+    .select("recommendation, notes, template_id, scorecard_ratings ( competency_key, rating, notes ), interviews!inner ( application_id, interview_type, applications!inner ( id, candidate_id, job_id, pipeline_stage ) )")
+    .eq("status", "submitted")
+    .eq("interviews.applications.job_id", job.id)
+    .eq("interviews.applications.pipeline_stage", "Interviewing");
+  if (error) throw error;
+
+  const byApplication = new Map<string, { candidateId: string; scorecards: typeof scorecards }>();
+  for (const scorecard of scorecards ?? []) {
+    const application = scorecard.interviews.applications;
+    const entry = byApplication.get(application.id) ?? { candidateId: application.candidate_id, scorecards: [] };
+    entry.scorecards.push(scorecard);
+    byApplication.set(application.id, entry);
+  }
+
+  const pending = await undecided(supabaseAdmin, task, [...byApplication.keys()]);
+  let done = (await decisionCounts(supabaseAdmin, task)).decisions;
+  const total = done + pending.length;
+
+  const templateIds = [...new Set((scorecards ?? []).map((scorecard) => scorecard.template_id))];
+  const { data: templates, error: templateError } = templateIds.length
+    ? await supabaseAdmin.from("scorecard_templates").select("id, competencies").in("id", templateIds)
+    : { data: [], error: null };
+  if (templateError) throw templateError;
+  const labels = new Map<string, string>();
+  for (const template of templates ?? []) {
+    for (const competency of template.competencies as { key: string; label: string }[]) {
+      labels.set(competency.key, competency.label);
+    }
+  }
+
+  for (const applicationId of pending.slice(0, BATCH_SIZE)) {
+    await progress(done, total);
+    const entry = byApplication.get(applicationId)!;
+    const feedback = entry.scorecards.map((scorecard, index) => `Interviewer ${index + 1} (${scorecard.interviews.interview_type || "Interview"}): ${scorecard.recommendation}
+${scorecard.scorecard_ratings.map((rating) => `- ${labels.get(rating.competency_key) || rating.competency_key}: ${rating.rating}/4${rating.notes ? ` (${rating.notes})` : ""}`).join("\n")}
+${scorecard.notes ? `Notes: ${scorecard.notes}` : ""}`).join("\n\n");
+
+    const parsed = await askModel(supabaseAdmin, task, `
+You are analysing interview panel feedback for the job "${job.title}".
+Weigh the evidence in the scorecards below (ratings are 1 to 4) and recommend
+whether the candidate should advance to an offer. Point out where the panel
+disagrees.
+
+FEEDBACK
+${feedback}
+
+Return ONLY JSON in this exact format:
+{
+  "decision": "advance" | "reject",
+  "confidence": number between 0 and 1,
+  "rationale": two or three sentences summarising the panel's evidence
+}`);
+    const decision = parseDecision(parsed);
+
+    const { error: insertError } = await supabaseAdmin
+      .from("ai_agent_decisions")
+      .insert({ task_id: task.id, agent_id: task.agent_id, application_id: applicationId, candidate_id: entry.candidateId, ...decision });
+    if (insertError) throw insertError;
+    done++;
+  }
+
+  const finished = pending.length <= BATCH_SIZE;
+  return {
+    done,
+    total,
+    finished,
+    result: finished ? { jobId: job.id, ...(await decisionCounts(supabaseAdmin, task)) } : undefined,
+  };
+};
+
+// ---------- CandidateSourcer ----------
+
+const sourceCandidates = async (supabaseAdmin: SupabaseClient, task: AgentTask): Promise<BatchOutcome> => {
+  const job = await loadJob(supabaseAdmin, task);
+  const limit = Math.round(clamp(task.params.limit, 1, 20) ?? 10);
+
+  const { data: applied, error: appliedError } = await supabaseAdmin
+    .from("applications")
+    .select("candidate_id")
+    .eq("job_id", job.id);
+  if (appliedError) throw appliedError;
+  const alreadyApplied = new Set((applied ?? []).map((row) => row.candidate_id));
+
+  const { data: candidates, error } = await supabaseAdmin
+    .from("candidates")
+    .select("id, first_name, last_name, experience_years, skills")
+    .not("current_status", "in", "(Hired,Withdrawn)");
+  if (error) throw error;
+
+  // Shortlist by skill overlap so the prompt stays small
+  const required = (job.skills_required || []).map((skill) => skill.toLowerCase());
+  const shortlist = (candidates ?? [])
+    .filter((candidate) => !alreadyApplied.has(candidate.id))
+    .map((candidate) => ({
+      candidate,
+      overlap: (candidate.skills || []).filter((skill: string) => required.includes(skill.toLowerCase())).length,
+    }))
+    .sort((a, b) => b.overlap - a.overlap || (b.candidate.experience_years ?? 0) - (a.candidate.experience_years ?? 0))
+    .slice(0, SOURCING_POOL_SIZE)
+    .map(({ candidate }) => candidate);
+
+  if (shortlist.length === 0) {
+    return { done: 0, total: 0, finished: true, result: { jobId: job.id, matches: [] } };
+  }
+
+  const parsed = await askModel(supabaseAdmin, task, `
+You are a sourcing agent. Rank the talent pool candidates below for the job
+and keep at most ${limit} worth reaching out to.
+
+JOB
+${describeJob(job)}
+
+CANDIDATES
+${shortlist.map((candidate) => `${candidate.id}: ${candidate.experience_years ?? "?"} years; skills: ${(candidate.skills || []).join(", ") || "none listed"}`).join("\n")}
+
+Return ONLY JSON in this exact format:
+{
+  "matches": [{ "candidateId": string, "score": integer 0-100, "reason": string }]
+}`);
+
+  const byId = new Map(shortlist.map((candidate) => [candidate.id, candidate]));
+  const matches = (Array.isArray(parsed.matches) ? parsed.matches : [])
+    .filter((match): match is { candidateId: string; score: unknown; reason: unknown } => byId.has(match?.candidateId))
+    .slice(0, limit)
+    .map((match) => ({
+      candidateId: match.candidateId,
+      name: fullName(byId.get(match.candidateId)!),
+      score: Math.round(clamp(match.score, 0, 100) ?? 0),
+      reason: typeof match.reason === "string" ? match.reason : "",
+    }));
+
+  return { done: shortlist.length, total: shortlist.length, finished: true, result: { jobId: job.id, matches } };
+};
+
+// ---------- InterviewScheduler ----------
+
+// Applications sitting in Interviewing with no interview on the calendar
+const flagUnscheduledInterviews = async (supabaseAdmin: SupabaseClient, task: AgentTask): Promise<BatchOutcome> => {
+  let query = supabaseAdmin
+    .from("applications")
+    .select("id, updated_at, candidates ( first_name, last_name ), jobs!inner ( id, title, company_id ), interviews ( status, scheduled_date )")
+    .eq("pipeline_stage", "Interviewing")
+    .eq("jobs.company_id", task.company_id);
+  if (typeof task.params.jobId === "string") {
+    query = query.eq("job_id", task.params.jobId);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  const unscheduled = (data ?? [])
+    .filter((application) => !application.interviews.some(
+      (interview: { status: string | null; scheduled_date: string }) =>
+        (interview.status === "Scheduled" || interview.status === "Rescheduled") && interview.scheduled_date >= now,
+    ))
+    .map((application) => ({
+      applicationId: application.id,
+      candidateName: application.candidates ? fullName(application.candidates) : "Candidate",
+      jobTitle: application.jobs.title,
+      inStageSince: application.updated_at,
+    }));
+
+  return {
+    done: data?.length ?? 0,
+    total: data?.length ?? 0,
+    finished: true,
+    result: { unscheduled },
+  };
+};
+
+const HANDLERS: Record<TaskType, (supabaseAdmin: SupabaseClient, task: AgentTask, progress: (done: number, total: number) => Promise<void>) => Promise<BatchOutcome>> = {
+  screen_applications: screenApplications,
+  analyze_feedback: analyzeFeedback,
+  source_candidates: sourceCandidates,
+  flag_unscheduled_interviews: flagUnscheduledInterviews,
+};
+
+// ---------- Runtime ----------
+
+const runTask = async (supabaseAdmin: SupabaseClient, task: AgentTask) => {
+  // Every write is conditional on the task still being ours, so a cancel
+  // from the page is never overwritten
+  const updateTask = (fields: Record<string, unknown>) =>
+    supabaseAdmin
+      .from("ai_agent_tasks")
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq("id", task.id)
+      .eq("status", "running");
+
+  // Live progress for the page; also where a cancelled task notices it
+  const progress = async (done: number, total: number) => {
+    const { data, error } = await updateTask({ progress_done: done, progress_total: total }).select("id");
+    if (error) throw error;
+    if (!data || data.length === 0) throw new TaskCancelledError();
+  };
+
+  try {
+    const { data: agent, error: agentError } = await supabaseAdmin
+      .from("ai_agents")
+      .select("agent_type")
+      .eq("id", task.agent_id)
+      .single();
+    if (agentError) throw agentError;
+    const handler = HANDLERS[task.task_type];
+    if (!handler || TASK_AGENT_TYPES[task.task_type] !== agent.agent_type) {
+      throw new PermanentTaskError(`${agent.agent_type} agents can't run ${task.task_type} tasks`);
+    }
+
+    const outcome = await handler(supabaseAdmin, task, progress);
+
+    if (!outcome.finished) {
+      // Back on the queue for the next batch; batches don't count as attempts
+      await updateTask({
+        status: "queued",
+        attempts: task.attempts - 1,
+        progress_done: outcome.done,
+        progress_total: outcome.total,
+        locked_at: null,
+        run_after: new Date().toISOString(),
+      });
+      return "requeued";
+    }
+
+    await updateTask({
+      status: "succeeded",
+      progress_done: outcome.done,
+      progress_total: outcome.total,
+      result: outcome.result ?? {},
+      locked_at: null,
+      finished_at: new Date().toISOString(),
+    });
+    // A success clears an earlier failure
+    await supabaseAdmin.from("ai_agents").update({ status: "Active" }).eq("id", task.agent_id).eq("status", "Error");
+    await supabaseAdmin.rpc("refresh_ai_agent_stats", { p_agent_id: task.agent_id });
+    return "succeeded";
+  } catch (error) {
+    if (error instanceof TaskCancelledError) {
+      return "cancelled";
+    }
+    console.error(`Agent task ${task.id} failed:`, error);
+
+    const retry = !(error instanceof PermanentTaskError) && task.attempts < task.max_attempts;
+    if (retry) {
+      await updateTask({
+        status: "queued",
+        error: error.message,
+        locked_at: null,
+        run_after: new Date(Date.now() + task.attempts * task.attempts * 60_000).toISOString(),
+      });
+      return "retrying";
+    }
+
+    await updateTask({
+      status: "failed",
+      error: error.message,
+      locked_at: null,
+      finished_at: new Date().toISOString(),
+    });
+    await supabaseAdmin
+      .from("ai_agents")
+      .update({ status: "Error", last_activity: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq("id", task.agent_id);
+    return "failed";
+  }
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    // Scheduled runs call with the service role key; otherwise only HR members
+    // may kick the worker
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      const supabase = createClient(
+        SUPABASE_URL!,
+        SUPABASE_ANON_KEY!,
+        { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+      );
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        console.error("User auth error:", userError);
+        return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+      }
+      const { data: member } = await supabaseAdmin
+        .from("hr_members")
+        .select("id")
+        .eq("user_profile_id", user.id)
+        .limit(1)
+        .maybeSingle();
+      if (!member) {
+        return json({ error: "Only HR team members can run AI agents" }, 403);
+      }
+    }
+
+    const startedAt = Date.now();
+    const processed: { taskId: string; outcome: string }[] = [];
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: task, error: claimError } = await supabaseAdmin.rpc("claim_ai_agent_task");
+      if (claimError) throw claimError;
+      // The function returns a row of nulls when the queue is empty
+      if (!task?.id) break;
+
+      processed.push({ taskId: task.id, outcome: await runTask(supabaseAdmin, task as AgentTask) });
+    }
+
+    return json({ processed }, 200);
+
+  } catch (error) {
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,204 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  getProvider,
+  getStreamingProvider,
+  listProviders,
+  UpstreamError,
+  type ResponseFormat,
+} from "../_shared/aiProviders.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"); // Needed to write usage rows
+
+// Requests allowed per user in a rolling 24h window
+const DAILY_QUOTA = parseInt(Deno.env.get("AI_GATEWAY_DAILY_QUOTA") || "200");
+// Set to "mock" to answer every request offline regardless of the requested backend
+const FORCED_PROVIDER = Deno.env.get("AI_GATEWAY_PROVIDER");
+const MAX_PROMPT_LENGTH = 32000;
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const upstreamFailure = (error: UpstreamError, providerName: string) => {
+  console.error(`Provider ${providerName} failed:`, error.message);
+  // Pass rate limits through, report everything else as a bad gateway
+  const status = error.status === 429 || error.status === 503 ? error.status : 502;
+  return json({ error: error.message, provider: providerName, upstreamStatus: error.status }, status);
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+    );
+
+    // Get the authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error("User auth error:", userError);
+      return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+    }
+
+    const { prompt, backend = "gemini", responseFormat = "text", systemPrompt, stream = false } = await req.json();
+
+    if (typeof prompt !== "string" || !prompt.trim()) {
+      return json({ error: "Prompt is required" }, 400);
+    }
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return json({ error: `Prompt exceeds ${MAX_PROMPT_LENGTH} characters` }, 413);
+    }
+
+    const providerName = FORCED_PROVIDER || backend;
+    const provider = getProvider(providerName);
+    const streamer = stream ? getStreamingProvider(providerName) : undefined;
+    if (!provider || (stream && !streamer)) {
+      return json({ error: `Unknown backend '${backend}'. Available: ${listProviders().join(", ")}` }, 400);
+    }
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    // Reserve a slot in the per-user quota before spending provider credits;
+    // counting and logging happen in one locked step so parallel requests can't overshoot
+    const { data: reservation, error: reserveError } = await supabaseAdmin
+      .rpc("reserve_ai_gateway_usage", {
+        p_user_id: user.id,
+        p_provider: providerName,
+        p_prompt_chars: prompt.length,
+        p_limit: DAILY_QUOTA,
+      })
+      .single<{ usage_id: string | null; used: number }>();
+    if (reserveError) throw reserveError;
+
+    const { usage_id: usageId, used } = reservation;
+    if (!usageId) {
+      return json({ error: "Daily AI quota exceeded", usage: { used, limit: DAILY_QUOTA } }, 429);
+    }
+
+    const providerRequest = {
+      prompt,
+      responseFormat: (responseFormat === "json" ? "json" : "text") as ResponseFormat,
+      systemPrompt,
+    };
+
+    const settleUsage = async (model: string, responseChars: number, latencyMs: number) => {
+      const { error: usageError } = await supabaseAdmin
+        .from("ai_gateway_usage")
+        .update({ model, response_chars: responseChars, latency_ms: latencyMs })
+        .eq("id", usageId);
+      if (usageError) {
+        console.error("Failed to record AI usage:", usageError);
+      }
+    };
+
+    // The provider turned the request down before generating anything
+    const releaseUsage = async () => {
+      const { error: usageError } = await supabaseAdmin.from("ai_gateway_usage").delete().eq("id", usageId);
+      if (usageError) {
+        console.error("Failed to release AI usage reservation:", usageError);
+      }
+    };
+
+    const startedAt = Date.now();
+
+    if (streamer) {
+      // Stream tokens back as server-sent events: {"delta"} per chunk, then {"done"}
+      const upstreamAbort = new AbortController();
+      let upstream;
+      try {
+        upstream = await streamer(providerRequest, upstreamAbort.signal);
+      } catch (error) {
+        await releaseUsage();
+        if (error instanceof UpstreamError) return upstreamFailure(error, providerName);
+        throw error;
+      }
+
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (payload: unknown) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+          let responseChars = 0;
+          try {
+            for await (const delta of upstream.chunks) {
+              responseChars += delta.length;
+              send({ delta });
+            }
+            send({
+              done: true,
+              provider: providerName,
+              model: upstream.model,
+              latencyMs: Date.now() - startedAt,
+              usage: { used, limit: DAILY_QUOTA },
+            });
+          } catch (error) {
+            if (!upstreamAbort.signal.aborted) {
+              console.error(`Stream from ${providerName} failed:`, error);
+              send({ error: error.message, provider: providerName });
+            }
+          } finally {
+            await settleUsage(upstream.model, responseChars, Date.now() - startedAt);
+            try {
+              controller.close();
+            } catch {
+              // Already closed because the client went away
+            }
+          }
+        },
+        cancel() {
+          // Client barged in or navigated away; stop paying for tokens
+          upstreamAbort.abort();
+        },
+      });
+
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+        status: 200,
+      });
+    }
+
+    let result;
+    try {
+      result = await provider(providerRequest);
+    } catch (error) {
+      await releaseUsage();
+      if (error instanceof UpstreamError) return upstreamFailure(error, providerName);
+      throw error;
+    }
+    const latencyMs = Date.now() - startedAt;
+
+    await settleUsage(result.model, result.text.length, latencyMs);
+
+    return json({
+      text: result.text,
+      provider: providerName,
+      model: result.model,
+      latencyMs,
+      usage: { used, limit: DAILY_QUOTA },
+    }, 200);
+
+  } catch (error) {
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
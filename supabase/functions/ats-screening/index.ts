@@ -0,0 +1,396 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getProvider } from "../_shared/aiProviders.ts";
+import { extractResumeText, ResumeExtractionError } from "../_shared/resumeText.ts";
+
+// Screens a job application against the candidate's uploaded resume and
+// records the outcome. Everything that decides whether the application goes
+// to HR happens here, with the service role, so the browser only ever sees
+// the result.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Backend from _shared/aiProviders.ts used for scoring
+const SCREENING_PROVIDER = Deno.env.get("ATS_SCREENING_PROVIDER") || "gemini";
+const DEFAULT_MINIMUM_SCORE = 70;
+// Resume text sent to the model; longer resumes are cut off
+const MAX_RESUME_CHARS = 15000;
+
+interface ScreeningScore {
+  overallScore: number;
+  keywordScore: number;
+  formatScore: number;
+  contentScore: number;
+  strengths: string[];
+  weaknesses: string[];
+  suggestions: string[];
+  jobMatch: string;
+  method: "llm" | "keyword";
+}
+
+interface ScreenedJob {
+  id: string;
+  title: string;
+  description: string;
+  requirements: string | null;
+  skills_required: string[] | null;
+  experience_level: string | null;
+  education_requirements: string | null;
+  ats_minimum_score: number | null;
+  company_id: string;
+  company_name: string | null;
+  location: string | null;
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const clampScore = (value: unknown) => {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : null;
+};
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string").slice(0, 6) : [];
+
+const buildPrompt = (job: ScreenedJob, resumeText: string) => `
+You are an Applicant Tracking System screening a resume for one specific job.
+Score how well the resume fits THIS job, not resumes in general.
+
+JOB
+Title: ${job.title}
+Experience level: ${job.experience_level || "Not specified"}
+Required skills: ${(job.skills_required || []).join(", ") || "Not specified"}
+Education: ${job.education_requirements || "Not specified"}
+Description:
+${job.description}
+${job.requirements ? `Requirements:\n${job.requirements}` : ""}
+
+RESUME
+${resumeText.slice(0, MAX_RESUME_CHARS)}
+
+All scores are integers from 0 to 100:
+- keywordScore: coverage of the required skills and job terminology
+- formatScore: how cleanly the resume parses (sections, dates, contact details)
+- contentScore: relevance and impact of the experience for this job
+- overallScore: overall fit for this job
+
+Return ONLY JSON in this exact format:
+{
+  "overallScore": number,
+  "keywordScore": number,
+  "formatScore": number,
+  "contentScore": number,
+  "strengths": [string],
+  "weaknesses": [string],
+  "suggestions": [string, string, string],
+  "jobMatch": string
+}`;
+
+const scoreWithModel = async (job: ScreenedJob, resumeText: string): Promise<ScreeningScore> => {
+  const provider = getProvider(SCREENING_PROVIDER);
+  if (!provider) {
+    throw new Error(`Unknown screening provider '${SCREENING_PROVIDER}'`);
+  }
+
+  const { text } = await provider({ prompt: buildPrompt(job, resumeText), responseFormat: "json" });
+  const parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+
+  const scores = ["overallScore", "keywordScore", "formatScore", "contentScore"].map((key) => clampScore(parsed[key]));
+  if (scores.some((score) => score === null)) {
+    throw new Error("Model response is missing scores");
+  }
+  const [overallScore, keywordScore, formatScore, contentScore] = scores as number[];
+
+  return {
+    overallScore,
+    keywordScore,
+    formatScore,
+    contentScore,
+    strengths: stringList(parsed.strengths),
+    weaknesses: stringList(parsed.weaknesses),
+    suggestions: stringList(parsed.suggestions),
+    jobMatch: typeof parsed.jobMatch === "string" ? parsed.jobMatch : "",
+    method: "llm",
+  };
+};
+
+const SECTION_PATTERNS = [/experience|employment/i, /education/i, /skills/i, /projects?|achievements/i];
+
+// Used when the model is unavailable so that applications are never blocked
+// on an outage; deterministic for the same resume and job.
+const scoreWithKeywords = (job: ScreenedJob, resumeText: string): ScreeningScore => {
+  const text = resumeText.toLowerCase();
+  const skills = (job.skills_required || []).map((skill) => skill.trim()).filter(Boolean);
+  const matched = skills.filter((skill) => text.includes(skill.toLowerCase()));
+  const missing = skills.filter((skill) => !matched.includes(skill));
+
+  const titleTerms = job.title.toLowerCase().split(/\W+/).filter((term) => term.length > 2);
+  const titleCoverage = titleTerms.length
+    ? titleTerms.filter((term) => text.includes(term)).length / titleTerms.length
+    : 0;
+
+  const keywordScore = Math.round(skills.length ? (matched.length / skills.length) * 100 : titleCoverage * 100);
+  const sections = SECTION_PATTERNS.filter((pattern) => pattern.test(resumeText)).length;
+  const hasContact = /@/.test(resumeText) && /\d{3}/.test(resumeText);
+  const formatScore = Math.round((sections / SECTION_PATTERNS.length) * 80 + (hasContact ? 20 : 0));
+  const words = resumeText.split(/\s+/).length;
+  const contentScore = Math.round(Math.min(1, words / 400) * 60 + titleCoverage * 40);
+  const overallScore = Math.round(keywordScore * 0.5 + formatScore * 0.2 + contentScore * 0.3);
+
+  return {
+    overallScore,
+    keywordScore,
+    formatScore,
+    contentScore,
+    strengths: matched.length ? [`Mentions required skills: ${matched.join(", ")}`] : [],
+    weaknesses: missing.length ? [`Missing required skills: ${missing.join(", ")}`] : [],
+    suggestions: [
+      ...(missing.length ? [`Show experience with ${missing.slice(0, 3).join(", ")} if you have it`] : []),
+      ...(sections < SECTION_PATTERNS.length ? ["Use clear Experience, Education, Skills and Projects headings"] : []),
+      ...(!hasContact ? ["Add an email address and phone number"] : []),
+    ],
+    jobMatch: `Matches ${matched.length} of ${skills.length} required skills for ${job.title}.`,
+    method: "keyword",
+  };
+};
+
+// The HR side (applications, activity, kanban) works on candidates, so make
+// sure the applicant has one
+const ensureCandidate = async (supabaseAdmin: ReturnType<typeof createClient>, user: { id: string; email?: string; user_metadata?: Record<string, unknown> }) => {
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from("candidates")
+    .select("id")
+    .eq("user_profile_id", user.id)
+    .maybeSingle();
+  if (lookupError) throw lookupError;
+  if (existing) return existing.id as string;
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("full_name, email, phone_number")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  const email = profile?.email || user.email || "";
+  const fullName = (profile?.full_name || (user.user_metadata?.full_name as string) || email.split("@")[0] || "Candidate").trim();
+  const [firstName, ...rest] = fullName.split(/\s+/);
+
+  const { data: created, error: createError } = await supabaseAdmin
+    .from("candidates")
+    .insert({
+      user_profile_id: user.id,
+      first_name: firstName,
+      last_name: rest.join(" ") || "-",
+      email,
+      phone: profile?.phone_number ?? null,
+    })
+    .select("id")
+    .single();
+  if (createError) throw createError;
+  return created.id as string;
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+    );
+
+    // Get the authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error("User auth error:", userError);
+      return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+    }
+
+    const { jobId, resumePath, resumeFileName } = await req.json();
+    if (typeof jobId !== "string" || typeof resumePath !== "string") {
+      return json({ error: "jobId and resumePath are required" }, 400);
+    }
+    // ResumeDropzone uploads to <user id>/<file>; never read someone else's resume
+    if (!resumePath.startsWith(`${user.id}/`)) {
+      return json({ error: "Resume does not belong to the current user" }, 403);
+    }
+    const fileName = typeof resumeFileName === "string" && resumeFileName ? resumeFileName : resumePath.split("/").pop()!;
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    const { data: job, error: jobError } = await supabaseAdmin
+      .from("jobs")
+      .select("id, title, description, requirements, skills_required, experience_level, education_requirements, ats_minimum_score, company_id, company_name, location")
+      .eq("id", jobId)
+      .maybeSingle<ScreenedJob>();
+    if (jobError) throw jobError;
+    if (!job) {
+      return json({ error: "Job not found" }, 404);
+    }
+
+    // One screening per job, so a rejected score cannot be re-rolled
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from("job_applications")
+      .select("id")
+      .eq("user_id", user.id)
+      .eq("job_id", job.id)
+      .limit(1);
+    if (previousError) throw previousError;
+    if (previous && previous.length > 0) {
+      return json({ error: "You have already applied for this job" }, 409);
+    }
+
+    const { data: file, error: downloadError } = await supabaseAdmin.storage.from("resumes").download(resumePath);
+    if (downloadError || !file) {
+      console.error("Resume download error:", downloadError);
+      return json({ error: "Resume not found" }, 404);
+    }
+
+    let resumeText: string;
+    try {
+      resumeText = await extractResumeText(new Uint8Array(await file.arrayBuffer()), fileName);
+    } catch (error) {
+      if (error instanceof ResumeExtractionError) {
+        return json({ error: error.message }, 422);
+      }
+      throw error;
+    }
+
+    let score: ScreeningScore;
+    try {
+      score = await scoreWithModel(job, resumeText);
+    } catch (error) {
+      console.error(`Model scoring via ${SCREENING_PROVIDER} failed, using keyword scoring:`, error.message);
+      score = scoreWithKeywords(job, resumeText);
+    }
+
+    const minimumScore = job.ats_minimum_score || DEFAULT_MINIMUM_SCORE;
+    const passed = score.overallScore >= minimumScore;
+
+    const { data: application, error: applicationError } = await supabaseAdmin
+      .from("job_applications")
+      .insert({
+        user_id: user.id,
+        job_id: job.id,
+        job_title: job.title,
+        company: job.company_name || "Unknown Company",
+        location: job.location,
+        status: passed ? "ATS Approved" : "ATS Rejected",
+        progress: passed ? 40 : 10,
+        resume_file_path: resumePath,
+        resume_file_name: fileName,
+        application_status: passed ? "approved" : "rejected",
+        rating: score.overallScore,
+      })
+      .select()
+      .single();
+    if (applicationError) {
+      // A concurrent submit for the same job got there first
+      if (applicationError.code === "23505") {
+        return json({ error: "You have already applied for this job" }, 409);
+      }
+      throw applicationError;
+    }
+
+    const { error: scanError } = await supabaseAdmin
+      .from("ats_scan_results")
+      .insert({
+        user_id: user.id,
+        job_id: job.id,
+        application_id: application.id,
+        file_name: fileName,
+        file_size: file.size,
+        overall_score: score.overallScore,
+        keyword_score: score.keywordScore,
+        format_score: score.formatScore,
+        content_score: score.contentScore,
+        strengths: score.strengths,
+        weaknesses: score.weaknesses,
+        suggestions: score.suggestions,
+        job_match: score.jobMatch,
+        scoring_method: score.method,
+      });
+    if (scanError) {
+      console.error("Error storing ATS results:", scanError);
+    }
+
+    // Mirror the outcome into the HR pipeline
+    const candidateId = await ensureCandidate(supabaseAdmin, user);
+    const pipelineFields = {
+      ai_score: score.overallScore,
+      pipeline_stage: passed ? "Screening" : "Rejected",
+      status: passed ? "Under Review" : "Rejected",
+    };
+    const { data: pipelineRow } = await supabaseAdmin
+      .from("applications")
+      .select("id")
+      .eq("candidate_id", candidateId)
+      .eq("job_id", job.id)
+      .maybeSingle();
+    const { error: pipelineError } = pipelineRow
+      ? await supabaseAdmin.from("applications").update(pipelineFields).eq("id", pipelineRow.id)
+      : await supabaseAdmin.from("applications").insert({ candidate_id: candidateId, job_id: job.id, ...pipelineFields });
+    if (pipelineError) {
+      console.error("Error updating the application pipeline:", pipelineError);
+    }
+
+    // Notify HR members if application is approved
+    if (passed) {
+      const { data: hrMembers } = await supabaseAdmin
+        .from("hr_members")
+        .select("user_profile_id")
+        .eq("company_id", job.company_id);
+
+      if (hrMembers && hrMembers.length > 0) {
+        const { error: notifyError } = await supabaseAdmin
+          .from("notifications")
+          .insert(hrMembers.map((hr) => ({
+            user_id: hr.user_profile_id,
+            title: "New Qualified Application",
+            message: `New application received for ${job.title} position (ATS Score: ${score.overallScore}/100)`,
+            type: "info",
+            related_application_id: application.id,
+          })));
+        if (notifyError) {
+          console.error("Error notifying HR members:", notifyError);
+        }
+      }
+    }
+
+    return json({
+      application,
+      passed,
+      minimumScore,
+      ats: {
+        overallScore: score.overallScore,
+        keywordScore: score.keywordScore,
+        formatScore: score.formatScore,
+        contentScore: score.contentScore,
+        strengths: score.strengths,
+        weaknesses: score.weaknesses,
+        suggestions: score.suggestions,
+        jobMatch: score.jobMatch,
+        method: score.method,
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
@@ -5,6 +5,176 @@ import { corsHeaders } from "../_shared/cors.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Largest batch accepted by POST /candidates/batch
+const MAX_BATCH_SIZE = 1000;
+// Keeps `.in()` filters well under URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+interface ImportRow {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  skills: string[];
+  experienceYears: number;
+  aiScore: number;
+  source: string;
+}
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// POST /candidates/batch: bulk-import parsed resumes as candidates with an
+// application for one job. Candidates are matched to existing rows by email.
+// Writes use the service role because applications can no longer be inserted
+// by users directly (see the ats_screening migration), so the caller's HR
+// membership and the job's company are checked here first.
+const importCandidateBatch = async (
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  body: { jobId?: string; candidates?: ImportRow[] },
+) => {
+  const { jobId, candidates } = body;
+  if (!jobId || !Array.isArray(candidates) || candidates.length === 0) {
+    return jsonResponse({ error: "jobId and a non-empty candidates array are required" }, 400);
+  }
+  if (candidates.length > MAX_BATCH_SIZE) {
+    return jsonResponse({ error: `A batch can hold at most ${MAX_BATCH_SIZE} candidates` }, 400);
+  }
+
+  const { data: hrMember } = await supabase
+    .from("hr_members")
+    .select("id, company_id")
+    .eq("user_profile_id", userId)
+    .maybeSingle();
+  if (!hrMember) {
+    return jsonResponse({ error: "Only HR members can import candidates" }, 403);
+  }
+
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, company_id")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (!job) {
+    return jsonResponse({ error: "Job not found" }, 404);
+  }
+  if (job.company_id !== hrMember.company_id) {
+    return jsonResponse({ error: "This job belongs to another company" }, 403);
+  }
+
+  // Validate and de-duplicate within the batch by email
+  const rejected: { source: string; reason: string }[] = [];
+  const rows = new Map<string, ImportRow>();
+  for (const row of candidates) {
+    const email = String(row.email ?? "").trim().toLowerCase();
+    const source = String(row.source ?? "");
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      rejected.push({ source, reason: "No valid email address" });
+    } else if (!String(row.firstName ?? "").trim()) {
+      rejected.push({ source, reason: "No name" });
+    } else if (rows.has(email)) {
+      rejected.push({ source, reason: `Duplicate of ${rows.get(email)!.source}` });
+    } else {
+      rows.set(email, { ...row, email });
+    }
+  }
+  if (rows.size === 0) {
+    return jsonResponse({ candidatesCreated: 0, candidatesReused: 0, applicationsCreated: 0, applicationsSkipped: 0, rejected }, 200);
+  }
+
+  const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+  const emails = [...rows.keys()];
+
+  const candidateIds = new Map<string, string>();
+  for (const emailChunk of chunk(emails, LOOKUP_CHUNK_SIZE)) {
+    const { data, error } = await supabaseAdmin.from("candidates").select("id, email").in("email", emailChunk);
+    if (error) throw error;
+    for (const candidate of data ?? []) candidateIds.set(candidate.email.toLowerCase(), candidate.id);
+  }
+  const candidatesReused = candidateIds.size;
+
+  const newCandidates = emails
+    .filter((email) => !candidateIds.has(email))
+    .map((email) => {
+      const row = rows.get(email)!;
+      return {
+        first_name: row.firstName.trim(),
+        last_name: row.lastName?.trim() || "-",
+        email,
+        phone: row.phone || null,
+        skills: Array.isArray(row.skills) ? row.skills.slice(0, 50) : [],
+        experience_years: Number.isFinite(row.experienceYears) ? row.experienceYears : null,
+        overall_score: Number.isFinite(row.aiScore) ? row.aiScore : null,
+        current_status: "Applied",
+      };
+    });
+
+  const createdIds: string[] = [];
+  if (newCandidates.length > 0) {
+    const { data, error } = await supabaseAdmin.from("candidates").insert(newCandidates).select("id, email");
+    if (error) throw error;
+    for (const candidate of data ?? []) {
+      candidateIds.set(candidate.email.toLowerCase(), candidate.id);
+      createdIds.push(candidate.id);
+    }
+  }
+
+  const alreadyApplied = new Set<string>();
+  for (const idChunk of chunk([...candidateIds.values()], LOOKUP_CHUNK_SIZE)) {
+    const { data, error } = await supabaseAdmin
+      .from("applications")
+      .select("candidate_id")
+      .eq("job_id", jobId)
+      .in("candidate_id", idChunk);
+    if (error) throw error;
+    for (const application of data ?? []) alreadyApplied.add(application.candidate_id);
+  }
+
+  const now = new Date().toISOString();
+  const newApplications = emails
+    .filter((email) => !alreadyApplied.has(candidateIds.get(email)!))
+    .map((email) => {
+      const row = rows.get(email)!;
+      return {
+        candidate_id: candidateIds.get(email)!,
+        job_id: jobId,
+        hr_member_id: hrMember.id,
+        ai_score: Number.isFinite(row.aiScore) ? row.aiScore : null,
+        pipeline_stage: "Applied",
+        status: "Received",
+        application_date: now,
+        notes: `Bulk import from ${row.source}`,
+      };
+    });
+
+  if (newApplications.length > 0) {
+    const { error } = await supabaseAdmin.from("applications").insert(newApplications);
+    if (error) {
+      // Don't leave candidates behind without the applications they were created for
+      if (createdIds.length > 0) {
+        await supabaseAdmin.from("candidates").delete().in("id", createdIds);
+      }
+      throw error;
+    }
+  }
+
+  return jsonResponse({
+    candidatesCreated: createdIds.length,
+    candidatesReused,
+    applicationsCreated: newApplications.length,
+    applicationsSkipped: emails.length - newApplications.length,
+    rejected,
+  }, 201);
+};
 
 serve(async (req) => {
   // Handle preflight OPTIONS request
@@ -35,6 +205,11 @@ serve(async (req) => {
     const id = pathSegments[2]; // 'candidate-id' or undefined
     const subResource = pathSegments[3]; // 'status' or undefined
 
+    if (resource === "candidates" && id === "batch" && req.method === "POST") {
+      // POST /api/candidates/batch (Bulk import parsed resumes for a job)
+      return await importCandidateBatch(supabase, user.id, await req.json());
+    }
+
     if (resource === "candidates") {
       if (req.method === "GET") {
         if (id) {
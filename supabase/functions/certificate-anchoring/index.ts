@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { canonicalJSON, sha256Hex } from "../_shared/canonicalJson.ts";
+import { loadIssuerKey, publishIssuerKey, signPayload } from "../_shared/certificateSigning.ts";
+import { queueForAnchoring } from "../_shared/certificateAnchoring.ts";
+import { buildMerkleTree, type ProofStep } from "../_shared/merkleTree.ts";
+
+// Batched anchoring of certificate hashes (see the certificate_anchoring
+// migration). Certificates are queued when they are issued. "anchor", run on
+// a schedule with the service role, turns the queue into one Merkle tree,
+// appends its signed root to the anchor log and stores every certificate's
+// inclusion proof, so one signature covers the whole batch. Proofs and the
+// log are public: a proof plus its signed batch statement is all a verifier
+// needs, offline.
+//
+// POST { action: "enqueue", certificateId }   -> the holder queues a certificate; its anchor once it has one
+// POST { action: "anchor" }                   -> service role: anchor the queue as one batch
+// POST { action: "proofs", certificateIds }   -> anchors for up to 100 certificates (null while pending)
+// POST { action: "log", after? }              -> up to 100 batches after a sequence, oldest first
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// PostgREST returns at most this many rows, so it also caps a batch
+const MAX_BATCH_SIZE = 1000;
+const PAGE_SIZE = 100;
+
+interface AnchorStatement {
+  type: "QwiXCertAnchorBatch";
+  sequence: number;
+  root: string;
+  leafCount: number;
+  // SHA-256 of the previous batch's canonical statement
+  previous: string | null;
+  anchoredAt: string;
+  issuer: string;
+  keyId: string;
+}
+
+interface AnchoredRow {
+  certificate_id: string;
+  cert_hash: string;
+  leaf_index: number;
+  proof: ProofStep[];
+  anchor_batches: { statement: AnchorStatement; signature: string };
+}
+
+class AnchoringRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// What a holder keeps to prove their certificate is in an anchored batch
+const publicAnchor = (row: AnchoredRow) => ({
+  certHash: row.cert_hash,
+  leafIndex: row.leaf_index,
+  proof: row.proof,
+  statement: row.anchor_batches.statement,
+  signature: row.anchor_batches.signature,
+});
+
+const loadAnchors = async (supabaseAdmin: SupabaseClient, certificateIds: string[]) => {
+  const { data, error } = await supabaseAdmin
+    .from("certificate_anchors")
+    .select("certificate_id, cert_hash, leaf_index, proof, anchor_batches!inner (statement, signature)")
+    .in("certificate_id", certificateIds);
+  if (error) throw error;
+
+  const anchors: Record<string, ReturnType<typeof publicAnchor> | null> = {};
+  for (const id of certificateIds) anchors[id] = null;
+  for (const row of (data ?? []) as unknown as AnchoredRow[]) {
+    anchors[row.certificate_id] = publicAnchor(row);
+  }
+  return anchors;
+};
+
+const enqueue = async (req: Request, supabaseAdmin: SupabaseClient, certificateId: unknown) => {
+  if (typeof certificateId !== "string" || !UUID_PATTERN.test(certificateId)) {
+    throw new AnchoringRequestError("certificateId is required", 400);
+  }
+
+  const supabase = createClient(
+    SUPABASE_URL!,
+    SUPABASE_ANON_KEY!,
+    { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+  );
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    console.error("User auth error:", userError);
+    throw new AnchoringRequestError("Unauthorized: " + (userError?.message || "User not found"), 401);
+  }
+
+  // Only digests of issued certificates get queued, and only by their holder
+  const { data: certificate, error } = await supabaseAdmin
+    .from("issued_certificates")
+    .select("id, cert_hash")
+    .eq("id", certificateId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!certificate) {
+    throw new AnchoringRequestError("Certificate not found", 404);
+  }
+
+  await queueForAnchoring(supabaseAdmin, certificate.id, certificate.cert_hash);
+  return (await loadAnchors(supabaseAdmin, [certificate.id]))[certificate.id];
+};
+
+// One batch: the oldest queued certificates, up to MAX_BATCH_SIZE of them
+const anchorQueue = async (supabaseAdmin: SupabaseClient) => {
+  const { data: pending, error: pendingError } = await supabaseAdmin
+    .from("certificate_anchors")
+    .select("certificate_id, cert_hash")
+    .is("batch_id", null)
+    .order("queued_at")
+    .order("certificate_id")
+    .limit(MAX_BATCH_SIZE);
+  if (pendingError) throw pendingError;
+  if (!pending || pending.length === 0) return null;
+
+  const { data: previous, error: previousError } = await supabaseAdmin
+    .from("anchor_batches")
+    .select("sequence, statement")
+    .order("sequence", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (previousError) throw previousError;
+
+  const tree = await buildMerkleTree(pending.map((row) => row.cert_hash));
+  const key = await loadIssuerKey();
+  await publishIssuerKey(supabaseAdmin, key);
+
+  const statement: AnchorStatement = {
+    type: "QwiXCertAnchorBatch",
+    sequence: (previous?.sequence ?? 0) + 1,
+    root: tree.root,
+    leafCount: pending.length,
+    previous: previous ? await sha256Hex(canonicalJSON(previous.statement)) : null,
+    anchoredAt: new Date().toISOString(),
+    issuer: key.issuer,
+    keyId: key.kid,
+  };
+
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from("anchor_batches")
+    .insert({
+      sequence: statement.sequence,
+      root: statement.root,
+      leaf_count: statement.leafCount,
+      previous_hash: statement.previous,
+      statement,
+      signature: await signPayload(key, statement),
+      key_id: key.kid,
+      anchored_at: statement.anchoredAt,
+    })
+    .select("id")
+    .single();
+  if (batchError) {
+    // Another run appended this sequence first; its batch took these certificates
+    if (batchError.code === "23505") {
+      throw new AnchoringRequestError("Another anchoring run is in progress", 409);
+    }
+    throw batchError;
+  }
+
+  const { error: proofError } = await supabaseAdmin
+    .from("certificate_anchors")
+    .upsert(pending.map((row, index) => ({
+      certificate_id: row.certificate_id,
+      cert_hash: row.cert_hash,
+      batch_id: batch.id,
+      leaf_index: index,
+      proof: tree.proofs[index],
+    })), { onConflict: "certificate_id" });
+  if (proofError) throw proofError;
+
+  return statement;
+};
+
+const anchorLog = async (supabaseAdmin: SupabaseClient, after: unknown) => {
+  const { data, error } = await supabaseAdmin
+    .from("anchor_batches")
+    .select("sequence, root, leaf_count, previous_hash, statement, signature, key_id, anchored_at")
+    .gt("sequence", Number.isInteger(after) ? after as number : 0)
+    .order("sequence")
+    .limit(PAGE_SIZE);
+  if (error) throw error;
+
+  return (data ?? []).map((batch) => ({
+    sequence: batch.sequence,
+    root: batch.root,
+    leafCount: batch.leaf_count,
+    previousHash: batch.previous_hash,
+    statement: batch.statement,
+    signature: batch.signature,
+    keyId: batch.key_id,
+    anchoredAt: batch.anchored_at,
+  }));
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+    const body = await req.json();
+
+    switch (body.action) {
+      case "enqueue":
+        return json({ anchor: await enqueue(req, supabaseAdmin, body.certificateId) }, 200);
+
+      case "anchor": {
+        const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+        if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+          return json({ error: "Anchoring runs with the service role" }, 403);
+        }
+        const statement = await anchorQueue(supabaseAdmin);
+        return json(statement ? { anchored: true, batch: statement } : { anchored: false }, 200);
+      }
+
+      case "proofs": {
+        const ids = Array.isArray(body.certificateIds)
+          ? body.certificateIds.filter((id: unknown) => typeof id === "string" && UUID_PATTERN.test(id))
+          : [];
+        if (ids.length === 0 || ids.length > PAGE_SIZE) {
+          return json({ error: `certificateIds must list 1 to ${PAGE_SIZE} certificate ids` }, 400);
+        }
+        return json({ anchors: await loadAnchors(supabaseAdmin, ids) }, 200);
+      }
+
+      case "log":
+        return json({ batches: await anchorLog(supabaseAdmin, body.after) }, 200);
+
+      default:
+        return json({ error: "action must be enqueue, anchor, proofs or log" }, 400);
+    }
+
+  } catch (error) {
+    if (error instanceof AnchoringRequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { sha256Hex } from "../_shared/canonicalJson.ts";
+import { loadIssuerKey, publishIssuerKey, type IssuerKey } from "../_shared/certificateSigning.ts";
+import { addDataIntegrityProof, didKeyFromJwk, VC_CONTEXT } from "../_shared/dataIntegrity.ts";
+import { credentialStatusFor, loadEntry, registerSubject, type StatusListEntry } from "../_shared/revocationRegistry.ts";
+
+// Exports a QwiXCert certificate in a portable format, so holders can put it
+// in third-party wallets and on their profiles:
+//   vc        -> W3C Verifiable Credential (Data Model 2.0)
+//   openbadge -> Open Badges 3.0 OpenBadgeCredential
+// Both are signed by the issuer key with a Data Integrity proof (see
+// _shared/dataIntegrity.ts) and point at the certificate's bit in the
+// revocation registry's status list. Only the holder can export, and revoked
+// certificates can't be exported.
+//
+// POST { certificateId, format: "vc" | "openbadge" } -> { credential }
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const OPEN_BADGES_CONTEXT = "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface IssuedCertificate {
+  id: string;
+  user_id: string;
+  exam_id: string;
+  title: string;
+  score: number;
+  recipient_name: string;
+  recipient_email: string;
+  issued_at: string;
+  cert_hash: string;
+}
+
+interface ExamDetails {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  topics: string[];
+  passing_score: number;
+}
+
+class CredentialRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const loadCertificate = async (supabaseAdmin: SupabaseClient, certificateId: unknown, userId: string) => {
+  if (typeof certificateId !== "string" || !UUID_PATTERN.test(certificateId)) {
+    throw new CredentialRequestError("certificateId is required", 400);
+  }
+  const { data, error } = await supabaseAdmin
+    .from("issued_certificates")
+    .select("id, user_id, exam_id, title, score, recipient_name, recipient_email, issued_at, cert_hash")
+    .eq("id", certificateId)
+    .maybeSingle<IssuedCertificate>();
+  if (error) throw error;
+  if (!data || data.user_id !== userId) {
+    throw new CredentialRequestError("Certificate not found", 404);
+  }
+  return data;
+};
+
+const loadStatusEntry = async (supabaseAdmin: SupabaseClient, certificate: IssuedCertificate, issuerName: string) => {
+  const entry = await loadEntry(supabaseAdmin, "certificate", certificate.id) ??
+    await registerSubject(supabaseAdmin, {
+      subjectType: "certificate",
+      subjectId: certificate.id,
+      label: `${certificate.title} - ${certificate.recipient_name}`,
+      issuerName,
+    });
+  if (entry.status !== "active") {
+    throw new CredentialRequestError("This certificate has been revoked", 409);
+  }
+  return entry;
+};
+
+const loadExamDetails = async (supabaseAdmin: SupabaseClient, examId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from("certification_exams")
+    .select("id, title, description, category, topics, passing_score")
+    .eq("id", examId)
+    .single<ExamDetails>();
+  if (error) throw error;
+  return data;
+};
+
+// Fields both formats share: the credential is named after the certificate
+// and dated from its issue, not from the export
+const credentialBase = (certificate: IssuedCertificate, entry: StatusListEntry, key: IssuerKey) => ({
+  id: `urn:uuid:${certificate.id}`,
+  issuer: { id: didKeyFromJwk(key.publicJwk), name: key.issuer },
+  validFrom: new Date(certificate.issued_at).toISOString(),
+  name: certificate.title,
+  credentialStatus: credentialStatusFor(entry),
+});
+
+const verifiableCredential = (certificate: IssuedCertificate, entry: StatusListEntry, key: IssuerKey) => {
+  const base = credentialBase(certificate, entry, key);
+  return {
+    "@context": [VC_CONTEXT],
+    type: ["VerifiableCredential", "QwiXCertCertificate"],
+    ...base,
+    credentialSubject: {
+      name: certificate.recipient_name,
+      certification: {
+        examId: certificate.exam_id,
+        title: certificate.title,
+        score: certificate.score,
+        certificateHash: certificate.cert_hash,
+      },
+    },
+  };
+};
+
+const openBadgeCredential = async (
+  certificate: IssuedCertificate,
+  entry: StatusListEntry,
+  exam: ExamDetails,
+  key: IssuerKey,
+) => {
+  const base = credentialBase(certificate, entry, key);
+  const achievementId = `urn:qwixcert:achievement:${exam.id}`;
+
+  // The email is only ever published salted and hashed
+  const identifier: Record<string, unknown>[] = [
+    { type: "IdentityObject", identityType: "name", hashed: false, identityHash: certificate.recipient_name },
+  ];
+  if (certificate.recipient_email) {
+    const salt = crypto.randomUUID().replace(/-/g, "");
+    identifier.push({
+      type: "IdentityObject",
+      identityType: "emailAddress",
+      hashed: true,
+      salt,
+      identityHash: `sha256$${await sha256Hex(certificate.recipient_email.toLowerCase() + salt)}`,
+    });
+  }
+
+  return {
+    "@context": [VC_CONTEXT, OPEN_BADGES_CONTEXT],
+    type: ["VerifiableCredential", "OpenBadgeCredential"],
+    ...base,
+    issuer: { ...base.issuer, type: ["Profile"] },
+    credentialSubject: {
+      type: ["AchievementSubject"],
+      identifier,
+      achievement: {
+        id: achievementId,
+        type: ["Achievement"],
+        achievementType: "Certificate",
+        name: exam.title,
+        description: exam.description,
+        criteria: {
+          narrative: `Pass the ${exam.title} certification exam, scoring at least ${exam.passing_score} out of 100.`,
+        },
+        tag: [exam.category, ...exam.topics],
+        resultDescription: [{
+          id: `${achievementId}#score`,
+          type: ["ResultDescription"],
+          name: "Score",
+          resultType: "ScaledScore",
+          valueMin: "0",
+          valueMax: "100",
+        }],
+      },
+      result: [{
+        type: ["Result"],
+        resultDescription: `${achievementId}#score`,
+        value: String(certificate.score),
+      }],
+    },
+  };
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+    );
+
+    // Get the authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error("User auth error:", userError);
+      return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+    }
+
+    const { certificateId, format } = await req.json();
+    if (format !== "vc" && format !== "openbadge") {
+      return json({ error: "format must be vc or openbadge" }, 400);
+    }
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+    const certificate = await loadCertificate(supabaseAdmin, certificateId, user.id);
+    const key = await loadIssuerKey();
+    await publishIssuerKey(supabaseAdmin, key);
+    const entry = await loadStatusEntry(supabaseAdmin, certificate, key.issuer);
+
+    const unsigned = format === "vc"
+      ? verifiableCredential(certificate, entry, key)
+      : await openBadgeCredential(certificate, entry, await loadExamDetails(supabaseAdmin, certificate.exam_id), key);
+
+    return json({ credential: await addDataIntegrityProof(key, unsigned) }, 200);
+
+  } catch (error) {
+    if (error instanceof CredentialRequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
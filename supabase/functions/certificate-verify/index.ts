@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { canonicalJSON, sha256Hex } from "../_shared/canonicalJson.ts";
+import { verifyPayloadSignature } from "../_shared/certificateSigning.ts";
+import { loadEntry, publicStatus } from "../_shared/revocationRegistry.ts";
+
+// Public verification of QwiXCert certificates, for recruiters opening a
+// /verify-cert link on their own device. No sign-in is needed. A certificate
+// is valid when its payload still hashes to its certHash, the signature
+// checks out against a published issuer key that belongs to the named
+// issuer and was trusted when it signed, and the revocation registry doesn't
+// list it as revoked or superseded. Certificates the holder has made private
+// only report whether they are valid, with nothing about the holder or exam.
+//
+// POST { identifier, method?: "certHash" | "uniqueId" }
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type VerificationStatus =
+  | "valid"
+  | "not_found"
+  | "unsigned"
+  | "tampered"
+  | "invalid_signature"
+  | "untrusted_issuer"
+  | "revoked";
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const { identifier, method = "certHash" } = await req.json();
+    if (typeof identifier !== "string" || !identifier.trim()) {
+      return json({ error: "identifier is required" }, 400);
+    }
+    if (method !== "certHash" && method !== "uniqueId") {
+      return json({ error: "method must be certHash or uniqueId" }, 400);
+    }
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+    const value = identifier.trim();
+
+    if (method === "uniqueId" && !UUID_PATTERN.test(value)) {
+      return json({ valid: false, status: "not_found" }, 200);
+    }
+    const { data: row, error } = await supabaseAdmin
+      .from("issued_certificates")
+      .select("id, cert_hash, payload, signature, key_id, issued_at, is_public")
+      .eq(method === "certHash" ? "cert_hash" : "id", value)
+      .maybeSingle();
+    if (error) throw error;
+    if (!row) {
+      return json({ valid: false, status: "not_found" }, 200);
+    }
+
+    const payload = row.payload as Record<string, unknown>;
+    const { data: key, error: keyError } = row.key_id
+      ? await supabaseAdmin
+        .from("certificate_issuer_keys")
+        .select("id, issuer, algorithm, public_jwk, retired_at, revoked_at")
+        .eq("id", row.key_id)
+        .maybeSingle()
+      : { data: null, error: null };
+    if (keyError) throw keyError;
+    const entry = await loadEntry(supabaseAdmin, "certificate", row.id);
+
+    const integrity = await sha256Hex(canonicalJSON(payload)) === row.cert_hash;
+    const signature = !!(key && row.signature && await verifyPayloadSignature(key.public_jwk, payload, row.signature));
+    const issuer = !!key &&
+      key.issuer === payload.issuer &&
+      key.id === payload.issuerKeyId &&
+      !key.revoked_at &&
+      (!key.retired_at || new Date(row.issued_at) < new Date(key.retired_at));
+    const revoked = !!entry && entry.status !== "active";
+
+    let status: VerificationStatus = "valid";
+    if (!row.signature) status = "unsigned";
+    else if (!integrity) status = "tampered";
+    else if (!signature) status = "invalid_signature";
+    else if (!issuer) status = "untrusted_issuer";
+    else if (revoked) status = "revoked";
+
+    if (!row.is_public) {
+      return json({ valid: status === "valid", status, isPublic: false }, 200);
+    }
+
+    return json({
+      valid: status === "valid",
+      status,
+      isPublic: true,
+      checks: { integrity, signature, issuer, revoked },
+      // The signed fields exactly as issued; the holder's email is never shown
+      certificate: {
+        id: row.id,
+        certHash: row.cert_hash,
+        examId: payload.examId,
+        title: payload.title,
+        score: payload.score,
+        recipientName: payload.recipientName,
+        issuer: payload.issuer,
+        issuedAt: payload.issuedAt,
+      },
+      payload,
+      signature: row.signature,
+      issuerKey: key ? { id: key.id, issuer: key.issuer, algorithm: key.algorithm, publicJwk: key.public_jwk } : null,
+      revocation: revoked ? publicStatus(entry) : null,
+    }, 200);
+
+  } catch (error) {
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
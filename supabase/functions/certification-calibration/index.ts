@@ -0,0 +1,246 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getProvider } from "../_shared/aiProviders.ts";
+import { calibrateItems, type CalibrationResponse, type ItemParameters } from "../_shared/irt.ts";
+
+// Maintains the QwiXCert question banks used by certification-exams.
+//
+// POST { action: "calibrate", examId? }      -> re-fit item difficulty/discrimination from past responses
+// POST { action: "generate", examId, count } -> draft new questions with the model and add them to the bank
+//
+// Scheduled runs call with the service role key; otherwise only HR members.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const GENERATOR_PROVIDER = Deno.env.get("CERT_QUESTION_PROVIDER") || "gemini";
+// Items need this many answers before their parameters are re-fitted
+const MIN_RESPONSES = Number(Deno.env.get("CERT_CALIBRATION_MIN_RESPONSES") || 20);
+const MAX_GENERATED = 25;
+const PAGE_SIZE = 1000;
+
+// Starting difficulty for a drafted item until responses calibrate it
+const DIFFICULTY_PRIORS: Record<string, number> = { easy: -1, medium: 0, hard: 1 };
+
+class CalibrationRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const calibrateExam = async (supabaseAdmin: SupabaseClient, examId: string) => {
+  const { data: questions, error: questionsError } = await supabaseAdmin
+    .from("certification_questions")
+    .select("id, difficulty, discrimination")
+    .eq("exam_id", examId);
+  if (questionsError) throw questionsError;
+  if (!questions || questions.length === 0) {
+    return { examId, responses: 0, calibrated: 0 };
+  }
+
+  const responses: CalibrationResponse[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error: pageError } = await supabaseAdmin
+      .from("certification_responses")
+      .select("attempt_id, question_id, correct")
+      .in("question_id", questions.map((question) => question.id))
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (pageError) throw pageError;
+    responses.push(...(page ?? []).map((row) => ({ personId: row.attempt_id, itemId: row.question_id, correct: row.correct })));
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  const current = new Map<string, ItemParameters>(
+    questions.map((question) => [question.id, { difficulty: question.difficulty, discrimination: question.discrimination }])
+  );
+  const calibrated = calibrateItems(responses, current, MIN_RESPONSES);
+
+  const calibratedAt = new Date().toISOString();
+  let updated = 0;
+  for (const [id, item] of calibrated) {
+    const enough = item.responseCount >= MIN_RESPONSES;
+    const { error } = await supabaseAdmin
+      .from("certification_questions")
+      .update({
+        response_count: item.responseCount,
+        ...(enough ? { difficulty: item.difficulty, discrimination: item.discrimination, calibrated_at: calibratedAt } : {}),
+      })
+      .eq("id", id);
+    if (error) throw error;
+    if (enough) updated++;
+  }
+
+  return { examId, responses: responses.length, calibrated: updated };
+};
+
+const generateQuestions = async (supabaseAdmin: SupabaseClient, userId: string | null, examId: unknown, count: unknown) => {
+  if (typeof examId !== "string") {
+    throw new CalibrationRequestError("examId is required", 400);
+  }
+  const wanted = Math.min(MAX_GENERATED, Math.max(1, Number.isInteger(count) ? count as number : 10));
+  const { data: exam, error: examError } = await supabaseAdmin
+    .from("certification_exams")
+    .select("id, title, topics")
+    .eq("id", examId)
+    .maybeSingle();
+  if (examError) throw examError;
+  if (!exam) {
+    throw new CalibrationRequestError("Exam not found", 404);
+  }
+
+  const provider = getProvider(GENERATOR_PROVIDER);
+  if (!provider) {
+    throw new CalibrationRequestError(`Unknown question provider '${GENERATOR_PROVIDER}'`, 500);
+  }
+
+  const prompt = `
+You write questions for the "${exam.title}" certification exam, covering: ${exam.topics.join(", ")}.
+Write ${wanted} multiple-choice questions that test professional judgement, not definitions.
+Spread them across easy, medium and hard, and make every distractor plausible.
+
+Return ONLY a JSON array where each item is:
+{
+  "topic": one of the topics above,
+  "text": the question,
+  "options": exactly 4 answer strings,
+  "correctOptionIndex": index of the correct option (0-3),
+  "difficulty": "easy" | "medium" | "hard",
+  "explanation": one sentence on why the answer is correct
+}`;
+
+  const startedAt = Date.now();
+  const { text, model } = await provider({ prompt, responseFormat: "json" });
+  if (userId) {
+    const { error: usageError } = await supabaseAdmin
+      .from("ai_gateway_usage")
+      .insert({
+        user_id: userId,
+        provider: GENERATOR_PROVIDER,
+        model,
+        prompt_chars: prompt.length,
+        response_chars: text.length,
+        latency_ms: Date.now() - startedAt,
+      });
+    if (usageError) {
+      console.error("Failed to record AI usage:", usageError);
+    }
+  }
+
+  const parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  const drafts = (Array.isArray(parsed) ? parsed : [])
+    .filter((item) =>
+      typeof item?.text === "string" &&
+      Array.isArray(item.options) &&
+      item.options.length === 4 &&
+      item.options.every((option: unknown) => typeof option === "string") &&
+      Number.isInteger(item.correctOptionIndex) &&
+      item.correctOptionIndex >= 0 &&
+      item.correctOptionIndex < 4
+    )
+    .map((item) => ({
+      exam_id: exam.id,
+      topic: typeof item.topic === "string" ? item.topic : null,
+      text: item.text.trim(),
+      options: item.options,
+      correct_option_index: item.correctOptionIndex,
+      explanation: typeof item.explanation === "string" ? item.explanation : null,
+      difficulty: DIFFICULTY_PRIORS[item.difficulty] ?? 0,
+      discrimination: 1,
+    }));
+
+  if (drafts.length === 0) {
+    throw new CalibrationRequestError("The model returned no usable questions", 502);
+  }
+
+  // Questions already in the bank are skipped
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from("certification_questions")
+    .upsert(drafts, { onConflict: "exam_id,text", ignoreDuplicates: true })
+    .select("id");
+  if (insertError) throw insertError;
+
+  return { examId: exam.id, generated: drafts.length, inserted: inserted?.length ?? 0 };
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    let userId: string | null = null;
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      const supabase = createClient(
+        SUPABASE_URL!,
+        SUPABASE_ANON_KEY!,
+        { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+      );
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        console.error("User auth error:", userError);
+        return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+      }
+      const { data: member } = await supabaseAdmin
+        .from("hr_members")
+        .select("id")
+        .eq("user_profile_id", user.id)
+        .limit(1)
+        .maybeSingle();
+      if (!member) {
+        return json({ error: "Only HR team members can manage question banks" }, 403);
+      }
+      userId = user.id;
+    }
+
+    const body = await req.json();
+
+    switch (body.action) {
+      case "calibrate": {
+        let examIds: string[];
+        if (typeof body.examId === "string") {
+          examIds = [body.examId];
+        } else {
+          const { data: exams, error: examsError } = await supabaseAdmin.from("certification_exams").select("id");
+          if (examsError) throw examsError;
+          examIds = (exams ?? []).map((exam) => exam.id);
+        }
+        const results = [];
+        for (const examId of examIds) {
+          results.push(await calibrateExam(supabaseAdmin, examId));
+        }
+        return json({ exams: results }, 200);
+      }
+      case "generate":
+        return json(await generateQuestions(supabaseAdmin, userId, body.examId, body.count), 200);
+      default:
+        return json({ error: "action must be calibrate or generate" }, 400);
+    }
+
+  } catch (error) {
+    if (error instanceof CalibrationRequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
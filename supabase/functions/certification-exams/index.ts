@@ -0,0 +1,672 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { canonicalJSON, sha256Hex } from "../_shared/canonicalJson.ts";
+import { loadIssuerKey, publishIssuerKey, signPayload } from "../_shared/certificateSigning.ts";
+import { registerSubject } from "../_shared/revocationRegistry.ts";
+import { queueForAnchoring } from "../_shared/certificateAnchoring.ts";
+import { estimateAbility, scaledScore, selectNextItem, type ItemParameters } from "../_shared/irt.ts";
+
+// Serves QwiXCert exams and grades them. The answer key stays in the
+// database; the browser gets questions without answers, submits its choices
+// here, and only learns which answers were right after the attempt is closed.
+// Certificates are issued here too, only for attempts this function passed,
+// signed with the issuer key (see _shared/certificateSigning.ts), given
+// their place in the revocation registry and queued for the next anchored
+// batch (see certificate-anchoring).
+//
+// Attempts are scored by ability (see _shared/irt.ts). Adaptive exams serve
+// one question at a time, each picked from the running estimate, and close
+// the attempt once the estimate is precise enough.
+//
+// POST { action: "start", examId }                 -> open (or resume) an attempt
+// POST { action: "submit", attemptId, answers }    -> grade it; answers are { questionId: optionIndex }
+// POST { action: "answer", attemptId, questionId, selectedIndex } -> adaptive: next question or the result
+// POST { action: "issue", attemptId, recipientName } -> certificate for a passed attempt
+//      (or { examId } instead of attemptId: the latest passed attempt at that exam)
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Submissions are accepted this long after the timer runs out, for network lag
+const SUBMIT_GRACE_MS = 2 * 60 * 1000;
+
+interface Exam {
+  id: string;
+  title: string;
+  time_limit_minutes: number;
+  question_count: number;
+  passing_score: number;
+  cooldown_hours: number;
+  adaptive: boolean;
+  target_standard_error: number;
+  min_questions: number;
+}
+
+interface Attempt {
+  id: string;
+  exam_id: string;
+  user_id: string;
+  question_ids: string[];
+  status: "in_progress" | "submitted" | "expired";
+  started_at: string;
+  expires_at: string;
+  submitted_at: string | null;
+  score: number | null;
+  passed: boolean | null;
+  mode: "fixed" | "adaptive";
+}
+
+interface BankItem extends ItemParameters {
+  id: string;
+}
+
+interface GradedAnswer {
+  questionId: string;
+  selectedIndex: number | null;
+  correct: boolean;
+  item: ItemParameters;
+}
+
+class ExamRequestError extends Error {
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, status: number, details?: Record<string, unknown>) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const shuffle = <T>(items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = crypto.getRandomValues(new Uint32Array(1))[0] % (i + 1);
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const loadExam = async (supabaseAdmin: SupabaseClient, examId: unknown): Promise<Exam> => {
+  if (typeof examId !== "string") {
+    throw new ExamRequestError("examId is required", 400);
+  }
+  const { data, error } = await supabaseAdmin
+    .from("certification_exams")
+    .select("id, title, time_limit_minutes, question_count, passing_score, cooldown_hours, adaptive, target_standard_error, min_questions")
+    .eq("id", examId)
+    .eq("is_active", true)
+    .maybeSingle<Exam>();
+  if (error) throw error;
+  if (!data) {
+    throw new ExamRequestError("Exam not found", 404);
+  }
+  return data;
+};
+
+const loadAttempt = async (supabaseAdmin: SupabaseClient, attemptId: unknown, userId: string): Promise<Attempt> => {
+  if (typeof attemptId !== "string") {
+    throw new ExamRequestError("attemptId is required", 400);
+  }
+  const { data, error } = await supabaseAdmin
+    .from("certification_attempts")
+    .select("*")
+    .eq("id", attemptId)
+    .maybeSingle<Attempt>();
+  if (error) throw error;
+  if (!data || data.user_id !== userId) {
+    throw new ExamRequestError("Attempt not found", 404);
+  }
+  return data;
+};
+
+// Questions as the candidate sees them, in the attempt's order
+const servedQuestions = async (supabaseAdmin: SupabaseClient, attempt: Attempt) => {
+  const { data, error } = await supabaseAdmin
+    .from("certification_questions")
+    .select("id, topic, text, options")
+    .in("id", attempt.question_ids);
+  if (error) throw error;
+  const byId = new Map((data ?? []).map((question) => [question.id, question]));
+  return attempt.question_ids.map((id) => byId.get(id)).filter(Boolean);
+};
+
+// Close attempts whose time (plus grace) ran out without a submission
+const expireStaleAttempts = async (supabaseAdmin: SupabaseClient, userId: string, examId: string) => {
+  const { error } = await supabaseAdmin
+    .from("certification_attempts")
+    .update({ status: "expired", score: 0, passed: false })
+    .eq("user_id", userId)
+    .eq("exam_id", examId)
+    .eq("status", "in_progress")
+    .lt("expires_at", new Date(Date.now() - SUBMIT_GRACE_MS).toISOString());
+  if (error) throw error;
+};
+
+const retryAtAfter = (attempt: Pick<Attempt, "submitted_at" | "expires_at">, exam: Exam) =>
+  new Date(new Date(attempt.submitted_at ?? attempt.expires_at).getTime() + exam.cooldown_hours * 60 * 60 * 1000);
+
+const startAttempt = async (supabaseAdmin: SupabaseClient, userId: string, examId: unknown) => {
+  const exam = await loadExam(supabaseAdmin, examId);
+  await expireStaleAttempts(supabaseAdmin, userId, exam.id);
+
+  const { data: certificate, error: certificateError } = await supabaseAdmin
+    .from("issued_certificates")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("exam_id", exam.id)
+    .limit(1)
+    .maybeSingle();
+  if (certificateError) throw certificateError;
+  if (certificate) {
+    throw new ExamRequestError("You are already certified for this exam", 409, { certificateId: certificate.id });
+  }
+
+  const { data: attempts, error: attemptsError } = await supabaseAdmin
+    .from("certification_attempts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("exam_id", exam.id)
+    .order("started_at", { ascending: false })
+    .limit(1);
+  if (attemptsError) throw attemptsError;
+  const latest = attempts?.[0] as Attempt | undefined;
+
+  // Reloading the page picks the running attempt back up with its own clock
+  if (latest?.status === "in_progress") {
+    const answered = latest.mode === "adaptive" ? await adaptiveAnswers(supabaseAdmin, latest.id) : [];
+    // The last answer was recorded but the next question never served
+    if (latest.mode === "adaptive" && answered.length === latest.question_ids.length) {
+      const step = await advanceAdaptive(supabaseAdmin, latest, exam, answered);
+      if (step.done) {
+        throw new ExamRequestError(
+          "This attempt has been completed",
+          409,
+          step.result.passed ? { attemptId: latest.id } : { retryAt: step.result.retryAt },
+        );
+      }
+    }
+    const answeredCount = answered.length;
+    return { exam, attempt: latest, questions: await servedQuestions(supabaseAdmin, latest), resumed: true, answeredCount };
+  }
+
+  if (latest?.passed) {
+    throw new ExamRequestError("You passed this exam; claim your certificate", 409, { attemptId: latest.id });
+  }
+  if (latest) {
+    const retryAt = retryAtAfter(latest, exam);
+    if (retryAt.getTime() > Date.now()) {
+      throw new ExamRequestError("This exam is in its retake cooldown", 429, { retryAt: retryAt.toISOString() });
+    }
+  }
+
+  const bank = await loadBank(supabaseAdmin, exam.id);
+  if (bank.length === 0) {
+    throw new ExamRequestError("This exam has no questions yet", 503);
+  }
+
+  // Adaptive attempts start with the item most informative for an average
+  // candidate and grow one question at a time
+  const questionIds = exam.adaptive
+    ? [bank[selectNextItem(0, bank)].id]
+    : shuffle(bank.map((question) => question.id)).slice(0, exam.question_count);
+  const { data: attempt, error: insertError } = await supabaseAdmin
+    .from("certification_attempts")
+    .insert({
+      exam_id: exam.id,
+      user_id: userId,
+      question_ids: questionIds,
+      mode: exam.adaptive ? "adaptive" : "fixed",
+      ability: exam.adaptive ? 0 : null,
+      ability_standard_error: exam.adaptive ? 1 : null,
+      expires_at: new Date(Date.now() + exam.time_limit_minutes * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single<Attempt>();
+  if (insertError) {
+    // Another tab opened one at the same moment
+    if (insertError.code === "23505") {
+      throw new ExamRequestError("An attempt is already in progress", 409);
+    }
+    throw insertError;
+  }
+
+  return { exam, attempt, questions: await servedQuestions(supabaseAdmin, attempt), resumed: false, answeredCount: 0 };
+};
+
+const assertAcceptingAnswers = async (supabaseAdmin: SupabaseClient, attempt: Attempt, exam: Exam) => {
+  if (Date.now() > new Date(attempt.expires_at).getTime() + SUBMIT_GRACE_MS) {
+    await expireStaleAttempts(supabaseAdmin, attempt.user_id, exam.id);
+    throw new ExamRequestError("The time limit for this attempt has passed", 410, {
+      retryAt: retryAtAfter(attempt, exam).toISOString(),
+    });
+  }
+};
+
+// Close the attempt with its ability estimate. The 0-100 score is the
+// estimate's percentile, so passing_score is compared on that scale.
+// An attempt that ended before enough answers were in can't pass.
+const closeAttempt = async (
+  supabaseAdmin: SupabaseClient,
+  attempt: Attempt,
+  exam: Exam,
+  graded: GradedAnswer[],
+  complete = true,
+) => {
+  const { theta, standardError } = estimateAbility(graded);
+  const correctCount = graded.filter((answer) => answer.correct).length;
+  const score = scaledScore(theta);
+  const passed = complete && score >= exam.passing_score;
+  const submittedAt = new Date().toISOString();
+  const chosen = Object.fromEntries(
+    graded.filter((answer) => answer.selectedIndex !== null).map((answer) => [answer.questionId, answer.selectedIndex])
+  );
+
+  const { data: closed, error: updateError } = await supabaseAdmin
+    .from("certification_attempts")
+    .update({
+      status: "submitted",
+      submitted_at: submittedAt,
+      answers: chosen,
+      correct_count: correctCount,
+      score,
+      passed,
+      ability: theta,
+      ability_standard_error: standardError,
+    })
+    .eq("id", attempt.id)
+    .eq("status", "in_progress")
+    .select("id");
+  if (updateError) throw updateError;
+  if (!closed || closed.length === 0) {
+    throw new ExamRequestError("This attempt has already been closed", 409);
+  }
+
+  // 95% interval, on both the ability and the score scale
+  const lower = theta - 1.96 * standardError;
+  const upper = theta + 1.96 * standardError;
+  return {
+    attemptId: attempt.id,
+    mode: attempt.mode,
+    score,
+    passed,
+    passingScore: exam.passing_score,
+    correctCount,
+    questionCount: graded.length,
+    ability: { theta, standardError, lower, upper, scoreLower: scaledScore(lower), scoreUpper: scaledScore(upper) },
+    retryAt: passed ? null : retryAtAfter({ submitted_at: submittedAt, expires_at: attempt.expires_at }, exam).toISOString(),
+    // Whether each answer was right, never which option was
+    review: graded.map(({ questionId, selectedIndex, correct }) => ({ questionId, selectedIndex, correct })),
+  };
+};
+
+const submitAttempt = async (supabaseAdmin: SupabaseClient, userId: string, attemptId: unknown, answers: unknown) => {
+  const attempt = await loadAttempt(supabaseAdmin, attemptId, userId);
+  if (attempt.status !== "in_progress") {
+    throw new ExamRequestError("This attempt has already been closed", 409);
+  }
+  const exam = await loadExam(supabaseAdmin, attempt.exam_id);
+  await assertAcceptingAnswers(supabaseAdmin, attempt, exam);
+
+  // Adaptive answers are already recorded one by one; submitting ends the
+  // attempt early (or on time-out). The question left open counts as wrong.
+  if (attempt.mode === "adaptive") {
+    const graded = await adaptiveAnswers(supabaseAdmin, attempt.id);
+    const complete = graded.length >= exam.min_questions;
+    const current = attempt.question_ids[attempt.question_ids.length - 1];
+    if (!graded.some((answer) => answer.questionId === current)) {
+      const { data: item } = await supabaseAdmin
+        .from("certification_questions")
+        .select("difficulty, discrimination")
+        .eq("id", current)
+        .maybeSingle();
+      graded.push({ questionId: current, selectedIndex: null, correct: false, item: item ?? { difficulty: 0, discrimination: 1 } });
+      await recordResponses(supabaseAdmin, attempt, graded.slice(-1));
+    }
+    return closeAttempt(supabaseAdmin, attempt, exam, graded, complete);
+  }
+
+  const submitted = answers && typeof answers === "object" ? answers as Record<string, unknown> : {};
+  const { data: key, error: keyError } = await supabaseAdmin
+    .from("certification_questions")
+    .select("id, correct_option_index, difficulty, discrimination")
+    .in("id", attempt.question_ids);
+  if (keyError) throw keyError;
+  const keyById = new Map((key ?? []).map((question) => [question.id, question]));
+
+  // Only answers to the served questions count; unanswered ones are wrong
+  const graded: GradedAnswer[] = attempt.question_ids.map((questionId) => {
+    const value = submitted[questionId];
+    const selectedIndex = Number.isInteger(value) ? value as number : null;
+    const question = keyById.get(questionId);
+    return {
+      questionId,
+      selectedIndex,
+      correct: selectedIndex !== null && question?.correct_option_index === selectedIndex,
+      item: { difficulty: question?.difficulty ?? 0, discrimination: question?.discrimination ?? 1 },
+    };
+  });
+
+  const result = await closeAttempt(supabaseAdmin, attempt, exam, graded);
+  await recordResponses(supabaseAdmin, attempt, graded);
+  return result;
+};
+
+// Responses feed item calibration; losing them must not fail the grading
+const recordResponses = async (supabaseAdmin: SupabaseClient, attempt: Attempt, graded: GradedAnswer[]) => {
+  const { error } = await supabaseAdmin
+    .from("certification_responses")
+    .upsert(graded.map((answer) => ({
+      attempt_id: attempt.id,
+      question_id: answer.questionId,
+      user_id: attempt.user_id,
+      selected_index: answer.selectedIndex,
+      correct: answer.correct,
+    })), { onConflict: "attempt_id,question_id", ignoreDuplicates: true });
+  if (error) {
+    console.error("Failed to record certification responses:", error);
+  }
+};
+
+// ---------- Adaptive attempts ----------
+
+const loadBank = async (supabaseAdmin: SupabaseClient, examId: string): Promise<BankItem[]> => {
+  const { data, error } = await supabaseAdmin
+    .from("certification_questions")
+    .select("id, difficulty, discrimination")
+    .eq("exam_id", examId)
+    .eq("is_active", true);
+  if (error) throw error;
+  return data ?? [];
+};
+
+// An adaptive attempt's answers so far, in the order given
+const adaptiveAnswers = async (supabaseAdmin: SupabaseClient, attemptId: string): Promise<GradedAnswer[]> => {
+  const { data, error } = await supabaseAdmin
+    .from("certification_responses")
+    .select("question_id, selected_index, correct, certification_questions(difficulty, discrimination)")
+    .eq("attempt_id", attemptId)
+    .order("answered_at");
+  if (error) throw error;
+  return (data ?? []).map((response) => {
+    const item = response.certification_questions as unknown as ItemParameters | null;
+    return {
+      questionId: response.question_id,
+      selectedIndex: response.selected_index,
+      correct: response.correct,
+      item: item ?? { difficulty: 0, discrimination: 1 },
+    };
+  });
+};
+
+const answerQuestion = async (
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  attemptId: unknown,
+  questionId: unknown,
+  selectedIndex: unknown,
+) => {
+  const attempt = await loadAttempt(supabaseAdmin, attemptId, userId);
+  if (attempt.status !== "in_progress") {
+    throw new ExamRequestError("This attempt has already been closed", 409);
+  }
+  if (attempt.mode !== "adaptive") {
+    throw new ExamRequestError("Only adaptive attempts are answered one question at a time", 400);
+  }
+  const exam = await loadExam(supabaseAdmin, attempt.exam_id);
+  await assertAcceptingAnswers(supabaseAdmin, attempt, exam);
+
+  const current = attempt.question_ids[attempt.question_ids.length - 1];
+  if (questionId !== current) {
+    throw new ExamRequestError("Answer the current question", 409);
+  }
+  if (!Number.isInteger(selectedIndex)) {
+    throw new ExamRequestError("selectedIndex is required", 400);
+  }
+
+  const { data: key, error: keyError } = await supabaseAdmin
+    .from("certification_questions")
+    .select("correct_option_index")
+    .eq("id", current)
+    .single();
+  if (keyError) throw keyError;
+
+  // The unique (attempt, question) key makes a double submit fail here
+  const { error: responseError } = await supabaseAdmin
+    .from("certification_responses")
+    .insert({
+      attempt_id: attempt.id,
+      question_id: current,
+      user_id: userId,
+      selected_index: selectedIndex,
+      correct: key.correct_option_index === selectedIndex,
+    });
+  if (responseError) {
+    if (responseError.code === "23505") {
+      throw new ExamRequestError("This question was already answered", 409);
+    }
+    throw responseError;
+  }
+
+  return advanceAdaptive(supabaseAdmin, attempt, exam, await adaptiveAnswers(supabaseAdmin, attempt.id));
+};
+
+// Close the attempt once the estimate is precise enough (or questions run
+// out); otherwise serve the most informative unused question
+const advanceAdaptive = async (supabaseAdmin: SupabaseClient, attempt: Attempt, exam: Exam, graded: GradedAnswer[]) => {
+  const { theta, standardError } = estimateAbility(graded);
+  const served = new Set(attempt.question_ids);
+  const remaining = (await loadBank(supabaseAdmin, exam.id)).filter((item) => !served.has(item.id));
+
+  const precise = graded.length >= exam.min_questions && standardError <= exam.target_standard_error;
+  if (precise || graded.length >= exam.question_count || remaining.length === 0) {
+    return { done: true as const, result: await closeAttempt(supabaseAdmin, attempt, exam, graded) };
+  }
+
+  const next = remaining[selectNextItem(theta, remaining)];
+  attempt.question_ids = [...attempt.question_ids, next.id];
+  const { error: updateError } = await supabaseAdmin
+    .from("certification_attempts")
+    .update({ question_ids: attempt.question_ids, ability: theta, ability_standard_error: standardError })
+    .eq("id", attempt.id)
+    .eq("status", "in_progress");
+  if (updateError) throw updateError;
+
+  const { data: question, error: questionError } = await supabaseAdmin
+    .from("certification_questions")
+    .select("id, topic, text, options")
+    .eq("id", next.id)
+    .single();
+  if (questionError) throw questionError;
+
+  return { done: false as const, question, answeredCount: graded.length };
+};
+
+const latestPassedAttempt = async (supabaseAdmin: SupabaseClient, userId: string, examId: unknown) => {
+  if (typeof examId !== "string") {
+    throw new ExamRequestError("attemptId or examId is required", 400);
+  }
+  const { data, error } = await supabaseAdmin
+    .from("certification_attempts")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("exam_id", examId)
+    .eq("passed", true)
+    .order("submitted_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new ExamRequestError("Certificates are only issued for passed attempts", 403);
+  }
+  return data.id as string;
+};
+
+// Register the certificate for revocation and queue it for anchoring. Both
+// are idempotent, so a retry after either failed finishes the job.
+const completeIssuance = async (
+  supabaseAdmin: SupabaseClient,
+  certificate: { id: string; title: string; recipient_name: string; issuer: string; cert_hash: string },
+) => {
+  await registerSubject(supabaseAdmin, {
+    subjectType: "certificate",
+    subjectId: certificate.id,
+    label: `${certificate.title} - ${certificate.recipient_name}`,
+    issuerName: certificate.issuer,
+  });
+  await queueForAnchoring(supabaseAdmin, certificate.id, certificate.cert_hash);
+  return certificate;
+};
+
+const issueCertificate = async (
+  supabaseAdmin: SupabaseClient,
+  user: { id: string; email?: string },
+  attemptId: unknown,
+  examId: unknown,
+  recipientName: unknown,
+) => {
+  const attempt = await loadAttempt(
+    supabaseAdmin,
+    attemptId ?? await latestPassedAttempt(supabaseAdmin, user.id, examId),
+    user.id,
+  );
+  if (attempt.status !== "submitted" || !attempt.passed) {
+    throw new ExamRequestError("Certificates are only issued for passed attempts", 403);
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("issued_certificates")
+    .select("*")
+    .eq("attempt_id", attempt.id)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) return completeIssuance(supabaseAdmin, existing);
+
+  const name = typeof recipientName === "string" ? recipientName.trim().slice(0, 120) : "";
+  if (!name) {
+    throw new ExamRequestError("recipientName is required", 400);
+  }
+  const exam = await loadExam(supabaseAdmin, attempt.exam_id);
+  const key = await loadIssuerKey();
+  await publishIssuerKey(supabaseAdmin, key);
+
+  const id = crypto.randomUUID();
+  const payload = {
+    id,
+    attemptId: attempt.id,
+    examId: exam.id,
+    title: exam.title,
+    score: attempt.score,
+    recipientName: name,
+    issuer: key.issuer,
+    issuerKeyId: key.kid,
+    issuedAt: new Date().toISOString(),
+  };
+
+  const { data: certificate, error: insertError } = await supabaseAdmin
+    .from("issued_certificates")
+    .insert({
+      id,
+      attempt_id: attempt.id,
+      exam_id: exam.id,
+      user_id: user.id,
+      title: exam.title,
+      score: attempt.score,
+      recipient_name: name,
+      recipient_email: user.email ?? "",
+      issuer: key.issuer,
+      issued_at: payload.issuedAt,
+      payload,
+      cert_hash: await sha256Hex(canonicalJSON(payload)),
+      signature: await signPayload(key, payload),
+      key_id: key.kid,
+    })
+    .select()
+    .single();
+  if (insertError) {
+    // Issued by a concurrent request
+    if (insertError.code === "23505") {
+      const { data: raced, error: racedError } = await supabaseAdmin
+        .from("issued_certificates")
+        .select("*")
+        .eq("attempt_id", attempt.id)
+        .single();
+      if (racedError) throw racedError;
+      return completeIssuance(supabaseAdmin, raced);
+    }
+    throw insertError;
+  }
+
+  return completeIssuance(supabaseAdmin, certificate);
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+    );
+
+    // Get the authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error("User auth error:", userError);
+      return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+    }
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+    const body = await req.json();
+
+    switch (body.action) {
+      case "start": {
+        const { exam, attempt, questions, resumed, answeredCount } = await startAttempt(supabaseAdmin, user.id, body.examId);
+        return json({
+          attempt: {
+            id: attempt.id,
+            examId: exam.id,
+            startedAt: attempt.started_at,
+            expiresAt: attempt.expires_at,
+            resumed,
+            mode: attempt.mode,
+            maxQuestions: exam.question_count,
+            answeredCount,
+          },
+          questions,
+        }, 200);
+      }
+      case "submit":
+        return json(await submitAttempt(supabaseAdmin, user.id, body.attemptId, body.answers), 200);
+      case "answer":
+        return json(await answerQuestion(supabaseAdmin, user.id, body.attemptId, body.questionId, body.selectedIndex), 200);
+      case "issue":
+        return json({ certificate: await issueCertificate(supabaseAdmin, user, body.attemptId, body.examId, body.recipientName) }, 200);
+      default:
+        return json({ error: "action must be start, submit, answer or issue" }, 400);
+    }
+
+  } catch (error) {
+    if (error instanceof ExamRequestError) {
+      return json({ error: error.message, ...error.details }, error.status);
+    }
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { buildCalendar, type CalendarPerson } from "../_shared/icalendar.ts";
+
+// Builds the .ics invite for an interview and either returns it for download
+// or emails it to the candidate and interviewer. Cancelled interviews produce
+// a METHOD:CANCEL invite that removes the event from their calendars.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Email goes out through Resend; without a key only downloads work
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const INVITE_FROM_EMAIL = Deno.env.get("INVITE_FROM_EMAIL") || "interviews@mahayudh.app";
+
+interface InviteInterview {
+  id: string;
+  scheduled_date: string;
+  ends_at: string | null;
+  duration_minutes: number | null;
+  interview_type: string | null;
+  status: string | null;
+  video_link: string | null;
+  ics_uid: string;
+  ics_sequence: number;
+  cancellation_reason: string | null;
+  applications: {
+    candidates: { first_name: string; last_name: string; email: string; user_profile_id: string | null } | null;
+    jobs: { title: string; company_id: string; company_name: string | null } | null;
+  } | null;
+  hr_members: { first_name: string; last_name: string; email: string } | null;
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const fullName = (person: { first_name: string; last_name: string }) =>
+  `${person.first_name} ${person.last_name === "-" ? "" : person.last_name}`.trim();
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      SUPABASE_URL!,
+      SUPABASE_ANON_KEY!,
+      { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return json({ error: "Unauthorized: " + (userError?.message || "User not found") }, 401);
+    }
+
+    const { interviewId, delivery = "download" } = await req.json();
+    if (typeof interviewId !== "string") {
+      return json({ error: "interviewId is required" }, 400);
+    }
+    if (delivery !== "download" && delivery !== "email") {
+      return json({ error: "delivery must be 'download' or 'email'" }, 400);
+    }
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    const { data: interview, error: interviewError } = await supabaseAdmin
+      .from("interviews")
+      .select(`
+        id, scheduled_date, ends_at, duration_minutes, interview_type, status, video_link,
+        ics_uid, ics_sequence, cancellation_reason,
+        applications (
+          candidates ( first_name, last_name, email, user_profile_id ),
+          jobs ( title, company_id, company_name )
+        ),
+        hr_members ( first_name, last_name, email )
+      `)
+      .eq("id", interviewId)
+      .maybeSingle<InviteInterview>();
+    if (interviewError) throw interviewError;
+
+    const candidate = interview?.applications?.candidates;
+    const job = interview?.applications?.jobs;
+    if (!interview || !candidate || !job) {
+      return json({ error: "Interview not found" }, 404);
+    }
+
+    const { data: hrMember } = await supabaseAdmin
+      .from("hr_members")
+      .select("first_name, last_name, email")
+      .eq("user_profile_id", user.id)
+      .eq("company_id", job.company_id)
+      .maybeSingle();
+
+    // The hiring team can download or send; the candidate can download their own
+    const isCandidate = candidate.user_profile_id === user.id;
+    if (!hrMember && !(isCandidate && delivery === "download")) {
+      return json({ error: "You do not have access to this interview" }, 403);
+    }
+
+    const interviewer = interview.hr_members;
+    const organizer: CalendarPerson = interviewer
+      ? { email: interviewer.email, name: fullName(interviewer) }
+      : hrMember
+        ? { email: hrMember.email, name: fullName(hrMember) }
+        : { email: INVITE_FROM_EMAIL, name: job.company_name || "Hiring team" };
+    const candidatePerson: CalendarPerson = { email: candidate.email, name: fullName(candidate) };
+    const attendees = [candidatePerson, ...(interviewer ? [organizer] : [])];
+
+    const start = new Date(interview.scheduled_date);
+    const end = interview.ends_at
+      ? new Date(interview.ends_at)
+      : new Date(start.getTime() + (interview.duration_minutes || 45) * 60000);
+    const cancelled = interview.status === "Cancelled";
+    const summary = `${interview.interview_type || "Interview"}: ${fullName(candidate)} for ${job.title}`;
+    const description = [
+      `${interview.interview_type || "Interview"} interview for the ${job.title} position${job.company_name ? ` at ${job.company_name}` : ""}.`,
+      interview.video_link ? `Join: ${interview.video_link}` : "",
+      cancelled && interview.cancellation_reason ? `Cancelled: ${interview.cancellation_reason}` : "",
+    ].filter(Boolean).join("\n\n");
+
+    const ics = buildCalendar({
+      uid: interview.ics_uid,
+      sequence: interview.ics_sequence,
+      start,
+      end,
+      summary,
+      description,
+      location: interview.video_link || undefined,
+      url: interview.video_link || undefined,
+      organizer,
+      attendees,
+      cancelled,
+    });
+    const method = cancelled ? "CANCEL" : "REQUEST";
+
+    if (delivery === "download") {
+      return new Response(ics, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": `text/calendar; charset=utf-8; method=${method}`,
+          "Content-Disposition": `attachment; filename="interview-${interview.id}.ics"`,
+        },
+        status: 200,
+      });
+    }
+
+    if (!RESEND_API_KEY) {
+      return json({ error: "Email delivery is not configured; download the invite instead" }, 503);
+    }
+
+    const recipients = attendees.map((attendee) => attendee.email);
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${RESEND_API_KEY}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        from: INVITE_FROM_EMAIL,
+        to: recipients,
+        subject: `${cancelled ? "Cancelled" : interview.ics_sequence > 0 ? "Updated" : "Invitation"}: ${summary}`,
+        text: `${description}\n\nWhen: ${start.toUTCString()} - ${end.toUTCString()}`,
+        attachments: [{ filename: "invite.ics", content: encodeBase64(new TextEncoder().encode(ics)) }],
+      }),
+    });
+    if (!response.ok) {
+      console.error("Invite email failed:", response.status, await response.text());
+      return json({ error: "The invite email could not be sent" }, 502);
+    }
+
+    const { error: logError } = await supabaseAdmin.from("activity_logs").insert({
+      activity_type: "interview_invite_sent",
+      entity_type: "interview",
+      entity_id: interview.id,
+      user_profile_id: user.id,
+      description: `${method === "CANCEL" ? "Cancellation" : "Invite"} for ${summary} sent to ${recipients.join(", ")}`,
+      details: { method, sequence: interview.ics_sequence, recipients },
+    });
+    if (logError) {
+      console.error("Error logging invite:", logError);
+    }
+
+    return json({ sent: recipients, method }, 200);
+  } catch (error) {
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
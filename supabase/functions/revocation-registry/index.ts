@@ -0,0 +1,354 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { base64UrlEncode, ISSUER_NAME, loadIssuerKey, publishIssuerKey } from "../_shared/certificateSigning.ts";
+import { addDataIntegrityProof, didKeyFromJwk, VC_CONTEXT } from "../_shared/dataIntegrity.ts";
+import {
+  loadEntry,
+  publicStatus,
+  registerSubject,
+  statusListUrl,
+  type StatusListEntry,
+} from "../_shared/revocationRegistry.ts";
+
+// Revocation registry for certificates and documents (see
+// _shared/revocationRegistry.ts). Anyone can check a status or fetch a
+// status list; issuers register documents, revoke or supersede what they
+// issued, and read their audit history.
+//
+// Organizations issue documents through their HR members, who can only
+// manage their own company's entries. QwiXCert exam certificates are issued
+// by the platform and can only be revoked with the service role.
+//
+// GET  ?list=<id>                                         -> signed BitstringStatusListCredential
+// POST { action: "status", subjectType, subjectId }       -> public status of one subject
+// POST { action: "register", label, contentHash?, subjectId? } -> register an issued document
+// POST { action: "revoke", entryId, reason, supersededBy? }    -> revoke or supersede an entry
+// POST { action: "list" }                                 -> the caller's issued entries
+// POST { action: "history", entryId? }                    -> the caller's audit events
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+const PAGE_SIZE = 1000;
+const MAX_REASON_LENGTH = 500;
+
+// Who is managing entries: an HR member for their company, or the platform
+interface Issuer {
+  userId: string | null;
+  name: string;
+  companyId: string | null;
+  companyName: string;
+}
+
+class RegistryRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const resolveIssuer = async (req: Request, supabaseAdmin: SupabaseClient): Promise<Issuer> => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (token === SUPABASE_SERVICE_ROLE_KEY) {
+    return { userId: null, name: ISSUER_NAME, companyId: null, companyName: ISSUER_NAME };
+  }
+
+  const supabase = createClient(
+    SUPABASE_URL!,
+    SUPABASE_ANON_KEY!,
+    { global: { headers: { Authorization: req.headers.get("Authorization")! } } }
+  );
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    console.error("User auth error:", userError);
+    throw new RegistryRequestError("Unauthorized: " + (userError?.message || "User not found"), 401);
+  }
+
+  const { data: member, error: memberError } = await supabaseAdmin
+    .from("hr_members")
+    .select("first_name, last_name, company_id, companies:company_id (name)")
+    .eq("user_profile_id", user.id)
+    .limit(1)
+    .maybeSingle();
+  if (memberError) throw memberError;
+  if (!member) {
+    throw new RegistryRequestError("Only HR team members can manage issued documents", 403);
+  }
+  const company = member.companies as unknown as { name: string } | null;
+  const companyName = company?.name ?? "Unknown organization";
+  return {
+    userId: user.id,
+    name: `${member.first_name} ${member.last_name} (${companyName})`,
+    companyId: member.company_id,
+    companyName,
+  };
+};
+
+const canManage = (issuer: Issuer, entry: StatusListEntry) =>
+  issuer.companyId ? entry.issuer_company_id === issuer.companyId : entry.issuer_company_id === null;
+
+// Revoked bits of a list, GZIP-compressed and multibase base64url encoded
+// as a Bitstring Status List, signed by the issuer key
+const statusListCredential = async (supabaseAdmin: SupabaseClient, listId: string) => {
+  const { data: list, error } = await supabaseAdmin
+    .from("status_lists")
+    .select("id, size")
+    .eq("id", listId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!list) {
+    throw new RegistryRequestError("Status list not found", 404);
+  }
+
+  // The first index is the most significant bit of the first byte
+  const bits = new Uint8Array(Math.ceil(list.size / 8));
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error: pageError } = await supabaseAdmin
+      .from("status_list_entries")
+      .select("list_index")
+      .eq("list_id", listId)
+      .neq("status", "active")
+      .order("list_index")
+      .range(from, from + PAGE_SIZE - 1);
+    if (pageError) throw pageError;
+    for (const { list_index } of page ?? []) {
+      bits[list_index >> 3] |= 0x80 >> (list_index & 7);
+    }
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+  const compressed = await new Response(
+    new Blob([bits]).stream().pipeThrough(new CompressionStream("gzip")),
+  ).arrayBuffer();
+
+  const key = await loadIssuerKey();
+  await publishIssuerKey(supabaseAdmin, key);
+  const url = statusListUrl(listId);
+  return addDataIntegrityProof(key, {
+    "@context": [VC_CONTEXT],
+    id: url,
+    type: ["VerifiableCredential", "BitstringStatusListCredential"],
+    issuer: { id: didKeyFromJwk(key.publicJwk), name: key.issuer },
+    validFrom: new Date().toISOString(),
+    credentialSubject: {
+      id: `${url}#list`,
+      type: "BitstringStatusList",
+      statusPurpose: "revocation",
+      encodedList: `u${base64UrlEncode(new Uint8Array(compressed))}`,
+    },
+  });
+};
+
+const registerDocument = async (
+  supabaseAdmin: SupabaseClient,
+  issuer: Issuer,
+  label: unknown,
+  contentHash: unknown,
+  subjectId: unknown,
+) => {
+  if (!issuer.companyId) {
+    throw new RegistryRequestError("Documents are registered by the organization that issues them", 400);
+  }
+  const name = typeof label === "string" ? label.trim().slice(0, 200) : "";
+  if (!name) {
+    throw new RegistryRequestError("label is required", 400);
+  }
+  if (contentHash !== undefined && (typeof contentHash !== "string" || !SHA256_PATTERN.test(contentHash))) {
+    throw new RegistryRequestError("contentHash must be a hex SHA-256 digest", 400);
+  }
+  if (subjectId !== undefined && (typeof subjectId !== "string" || !subjectId.trim())) {
+    throw new RegistryRequestError("subjectId must be a document id", 400);
+  }
+
+  const id = (subjectId as string | undefined)?.trim() ?? crypto.randomUUID();
+  const existing = await loadEntry(supabaseAdmin, "document", id);
+  if (existing && !canManage(issuer, existing)) {
+    throw new RegistryRequestError("This document id is registered by another issuer", 409);
+  }
+
+  return registerSubject(supabaseAdmin, {
+    subjectType: "document",
+    subjectId: id,
+    label: name,
+    issuerName: issuer.companyName,
+    issuerCompanyId: issuer.companyId,
+    contentHash: contentHash as string | undefined,
+    registeredBy: issuer.userId,
+    registeredByName: issuer.name,
+  });
+};
+
+const revokeEntry = async (
+  supabaseAdmin: SupabaseClient,
+  issuer: Issuer,
+  entryId: unknown,
+  reason: unknown,
+  supersededBy: unknown,
+) => {
+  if (typeof entryId !== "string" || !UUID_PATTERN.test(entryId)) {
+    throw new RegistryRequestError("entryId is required", 400);
+  }
+  const why = typeof reason === "string" ? reason.trim().slice(0, MAX_REASON_LENGTH) : "";
+  if (!why) {
+    throw new RegistryRequestError("A reason is required to revoke", 400);
+  }
+  const replacement = typeof supersededBy === "string" && supersededBy.trim() ? supersededBy.trim() : null;
+
+  const { data: entry, error } = await supabaseAdmin
+    .from("status_list_entries")
+    .select("*")
+    .eq("id", entryId)
+    .maybeSingle<StatusListEntry>();
+  if (error) throw error;
+  if (!entry || !canManage(issuer, entry)) {
+    throw new RegistryRequestError("Entry not found", 404);
+  }
+  if (replacement && replacement === entry.subject_id) {
+    throw new RegistryRequestError("An entry can't supersede itself", 400);
+  }
+
+  const status = replacement ? "superseded" : "revoked";
+  const revokedAt = new Date().toISOString();
+  // Revocation is final; the status guard keeps a concurrent revoke from overwriting this one
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from("status_list_entries")
+    .update({
+      status,
+      revoked_at: revokedAt,
+      revoked_by: issuer.userId,
+      revoked_by_name: issuer.name,
+      revocation_reason: why,
+      superseded_by: replacement,
+    })
+    .eq("id", entry.id)
+    .eq("status", "active")
+    .select()
+    .maybeSingle<StatusListEntry>();
+  if (updateError) throw updateError;
+  if (!updated) {
+    throw new RegistryRequestError("This entry has already been revoked", 409);
+  }
+
+  const { error: eventError } = await supabaseAdmin.from("revocation_events").insert({
+    entry_id: entry.id,
+    action: status,
+    reason: why,
+    actor_id: issuer.userId,
+    actor_name: issuer.name,
+    created_at: revokedAt,
+  });
+  if (eventError) throw eventError;
+  return updated;
+};
+
+const listEntries = async (supabaseAdmin: SupabaseClient, issuer: Issuer) => {
+  let query = supabaseAdmin.from("status_list_entries").select("*");
+  query = issuer.companyId ? query.eq("issuer_company_id", issuer.companyId) : query.is("issuer_company_id", null);
+  const { data, error } = await query.order("registered_at", { ascending: false }).limit(500);
+  if (error) throw error;
+  return (data as StatusListEntry[]).map(publicStatus);
+};
+
+const auditHistory = async (supabaseAdmin: SupabaseClient, issuer: Issuer, entryId: unknown) => {
+  let query = supabaseAdmin
+    .from("revocation_events")
+    .select("id, entry_id, action, reason, actor_name, created_at, status_list_entries!inner (label, subject_type, subject_id, issuer_company_id)");
+  query = issuer.companyId
+    ? query.eq("status_list_entries.issuer_company_id", issuer.companyId)
+    : query.is("status_list_entries.issuer_company_id", null);
+  if (typeof entryId === "string") {
+    query = query.eq("entry_id", entryId);
+  }
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(200);
+  if (error) throw error;
+
+  return (data ?? []).map((event) => {
+    const entry = event.status_list_entries as unknown as { label: string; subject_type: string; subject_id: string };
+    return {
+      id: event.id,
+      entryId: event.entry_id,
+      action: event.action,
+      reason: event.reason,
+      actorName: event.actor_name,
+      createdAt: event.created_at,
+      label: entry.label,
+      subjectType: entry.subject_type,
+      subjectId: entry.subject_id,
+    };
+  });
+};
+
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    // Status lists are fetched by wallets and verifiers, often without a key
+    if (req.method === "GET") {
+      const listId = new URL(req.url).searchParams.get("list");
+      if (!listId || !UUID_PATTERN.test(listId)) {
+        return json({ error: "list is required" }, 400);
+      }
+      const credential = await statusListCredential(supabaseAdmin, listId);
+      return new Response(JSON.stringify(credential), {
+        headers: { ...corsHeaders, "Content-Type": "application/vc+ld+json", "Cache-Control": "public, max-age=300" },
+        status: 200,
+      });
+    }
+
+    if (req.method !== "POST") {
+      return json({ error: "Method Not Allowed" }, 405);
+    }
+
+    const body = await req.json();
+
+    if (body.action === "status") {
+      const { subjectType, subjectId } = body;
+      if (subjectType !== "certificate" && subjectType !== "document") {
+        return json({ error: "subjectType must be certificate or document" }, 400);
+      }
+      if (typeof subjectId !== "string" || !subjectId.trim()) {
+        return json({ error: "subjectId is required" }, 400);
+      }
+      const entry = await loadEntry(supabaseAdmin, subjectType, subjectId.trim());
+      return json(entry ? { registered: true, entry: publicStatus(entry) } : { registered: false }, 200);
+    }
+
+    const issuer = await resolveIssuer(req, supabaseAdmin);
+
+    switch (body.action) {
+      case "register":
+        return json({ entry: publicStatus(await registerDocument(supabaseAdmin, issuer, body.label, body.contentHash, body.subjectId)) }, 200);
+      case "revoke":
+        return json({ entry: publicStatus(await revokeEntry(supabaseAdmin, issuer, body.entryId, body.reason, body.supersededBy)) }, 200);
+      case "list":
+        return json({ entries: await listEntries(supabaseAdmin, issuer) }, 200);
+      case "history":
+        return json({ events: await auditHistory(supabaseAdmin, issuer, body.entryId) }, 200);
+      default:
+        return json({ error: "action must be status, register, revoke, list or history" }, 400);
+    }
+
+  } catch (error) {
+    if (error instanceof RegistryRequestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Error in Edge Function:", error);
+    return json({ error: error.message }, 500);
+  }
+});
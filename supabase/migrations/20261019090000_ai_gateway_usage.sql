@@ -0,0 +1,62 @@
+-- Per-request usage log for the ai-gateway edge function, used for quotas.
+create table if not exists public.ai_gateway_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null,
+  model text,
+  prompt_chars integer not null default 0,
+  response_chars integer not null default 0,
+  latency_ms integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_gateway_usage_user_created_idx
+  on public.ai_gateway_usage (user_id, created_at desc);
+
+alter table public.ai_gateway_usage enable row level security;
+
+-- Users may read their own usage; writes happen with the service role only.
+create policy "Users can view their own AI usage"
+  on public.ai_gateway_usage for select
+  using (auth.uid() = user_id);
+
+-- Counts the user's requests in the last 24h and, when under the limit, logs
+-- this one before the provider is called. The per-user lock makes concurrent
+-- requests queue here, so they can't all pass the same count. usage_id is null
+-- when the quota is used up; the gateway fills in the response once it has it.
+create or replace function public.reserve_ai_gateway_usage(
+  p_user_id uuid,
+  p_provider text,
+  p_prompt_chars integer,
+  p_limit integer
+)
+returns table (usage_id uuid, used integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reserved uuid;
+  current_count integer;
+begin
+  perform pg_advisory_xact_lock(hashtext('ai_gateway_usage:' || p_user_id::text));
+
+  select count(*) into current_count
+  from ai_gateway_usage
+  where user_id = p_user_id and created_at >= now() - interval '24 hours';
+
+  if current_count >= p_limit then
+    return query select null::uuid, current_count;
+    return;
+  end if;
+
+  insert into ai_gateway_usage (user_id, provider, prompt_chars)
+  values (p_user_id, p_provider, p_prompt_chars)
+  returning id into reserved;
+
+  return query select reserved, current_count + 1;
+end;
+$$;
+
+revoke execute on function public.reserve_ai_gateway_usage(uuid, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.reserve_ai_gateway_usage(uuid, text, integer, integer) to service_role;
@@ -0,0 +1,7 @@
+-- Proctoring policy applied to AI interviews run for a job.
+-- Null means the application's default policy.
+alter table public.jobs
+  add column if not exists proctoring_policy jsonb;
+
+comment on column public.jobs.proctoring_policy is
+  'Serialized ProctoringPolicy (see src/utils/proctoringPolicy.ts); null uses the default policy';
@@ -0,0 +1,46 @@
+-- Hash-chained evidence log of proctoring violations during AI interviews.
+-- Rows are append-only for clients: there are no update or delete policies.
+create table if not exists public.proctoring_evidence (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  session_id text not null,
+  job_id uuid references public.jobs (id) on delete set null,
+  candidate_name text,
+  job_title text,
+  sequence integer not null,
+  recorded_at timestamptz not null,
+  event jsonb not null,
+  detections jsonb not null default '[]'::jsonb,
+  snapshot text,
+  snapshot_hash text,
+  previous_hash text not null,
+  hash text not null,
+  created_at timestamptz not null default now(),
+  -- Session ids are generated on the client, so a chain is one user's rows
+  unique (user_id, session_id, sequence)
+);
+
+create index if not exists proctoring_evidence_job_idx
+  on public.proctoring_evidence (job_id, created_at desc);
+
+alter table public.proctoring_evidence enable row level security;
+
+create policy "Candidates can append their own evidence"
+  on public.proctoring_evidence for insert
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can view their own evidence"
+  on public.proctoring_evidence for select
+  using (auth.uid() = user_id);
+
+-- Only the hiring team of the company the interview was for
+create policy "HR members can view evidence for their company's jobs"
+  on public.proctoring_evidence for select
+  using (
+    exists (
+      select 1
+      from public.jobs j
+      join public.hr_members hm on hm.company_id = j.company_id
+      where j.id = proctoring_evidence.job_id and hm.user_profile_id = auth.uid()
+    )
+  );
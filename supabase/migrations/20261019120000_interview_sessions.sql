@@ -0,0 +1,52 @@
+-- Interview sessions recorded in the browser, synced from the local IndexedDB
+-- store. Ids are generated client-side so re-sending the offline queue is an upsert.
+create table if not exists public.interview_sessions (
+  session_id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  candidate_name text,
+  job_title text,
+  duration integer,
+  ai_backend text,
+  started_at timestamptz not null,
+  ended_at timestamptz,
+  is_complete boolean not null default false,
+  question_count integer not null default 0,
+  confidence_score numeric,
+  engagement_score numeric,
+  attentiveness_score numeric,
+  -- Proctoring policy, events, violation counts and other session fields
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists interview_sessions_user_idx
+  on public.interview_sessions (user_id, started_at desc);
+
+-- Append-only streams of a session: messages, emotions, behavior samples, detections
+create table if not exists public.interview_session_records (
+  id text primary key,
+  session_id text not null references public.interview_sessions (session_id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  stream text not null check (stream in ('messages', 'emotions', 'behaviorAnalysis', 'objectDetections')),
+  seq integer not null,
+  recorded_at timestamptz not null,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists interview_session_records_session_idx
+  on public.interview_session_records (session_id, stream, seq);
+
+alter table public.interview_sessions enable row level security;
+alter table public.interview_session_records enable row level security;
+
+create policy "Users manage their own interview sessions"
+  on public.interview_sessions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own interview records"
+  on public.interview_session_records for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
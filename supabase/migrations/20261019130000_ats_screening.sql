@@ -0,0 +1,47 @@
+-- Server-side ATS screening (supabase/functions/ats-screening).
+-- Applications and their screening results are written by the function with
+-- the service role; applicants can no longer create or re-score them.
+
+alter table public.ats_scan_results
+  add column if not exists job_id uuid references public.jobs (id) on delete set null,
+  add column if not exists application_id uuid references public.job_applications (id) on delete cascade,
+  add column if not exists scoring_method text check (scoring_method in ('llm', 'keyword'));
+
+comment on column public.ats_scan_results.scoring_method is
+  'How a screening score was produced: llm, or keyword when the model was unavailable. Null for self-service scans from the ATS scanner';
+
+create index if not exists ats_scan_results_application_idx
+  on public.ats_scan_results (application_id);
+
+-- One application per job, so only one of several concurrent submits is recorded
+create unique index if not exists job_applications_user_job_idx
+  on public.job_applications (user_id, job_id);
+
+-- Applications are only created through the screening function
+revoke insert on public.job_applications from anon, authenticated;
+revoke insert on public.applications from anon, authenticated;
+
+-- HR may still adjust status and rating; the applicant may not touch the outcome
+create or replace function public.protect_screening_outcome()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null and auth.uid() = old.user_id and (
+    new.rating is distinct from old.rating
+    or new.status is distinct from old.status
+    or new.application_status is distinct from old.application_status
+    or new.progress is distinct from old.progress
+    or new.job_id is distinct from old.job_id
+  ) then
+    raise exception 'Screening results can only be changed by the hiring team'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_screening_outcome on public.job_applications;
+create trigger protect_screening_outcome
+  before update on public.job_applications
+  for each row execute function public.protect_screening_outcome();
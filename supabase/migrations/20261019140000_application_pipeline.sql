@@ -0,0 +1,179 @@
+-- Hiring pipeline board (HRDashboard/Candidates). Applications move between
+-- candidate_pipeline_status_type stages only through move_application_stage,
+-- which checks the transition against pipeline_stage_transitions, logs it to
+-- activity_logs and notifies the candidate, all in one transaction.
+
+create table if not exists public.pipeline_stage_transitions (
+  from_stage public.candidate_pipeline_status_type not null,
+  to_stage public.candidate_pipeline_status_type not null,
+  primary key (from_stage, to_stage),
+  check (from_stage <> to_stage)
+);
+
+comment on table public.pipeline_stage_transitions is
+  'Allowed moves between hiring pipeline stages; anything not listed is rejected by move_application_stage';
+
+insert into public.pipeline_stage_transitions (from_stage, to_stage) values
+  ('Applied', 'Screening'), ('Applied', 'Rejected'), ('Applied', 'On Hold'), ('Applied', 'Withdrawn'),
+  ('Screening', 'Assessment'), ('Screening', 'Interviewing'), ('Screening', 'Rejected'), ('Screening', 'On Hold'), ('Screening', 'Withdrawn'),
+  ('Assessment', 'Interviewing'), ('Assessment', 'Rejected'), ('Assessment', 'On Hold'), ('Assessment', 'Withdrawn'),
+  ('Interviewing', 'Assessment'), ('Interviewing', 'Offer Extended'), ('Interviewing', 'Rejected'), ('Interviewing', 'On Hold'), ('Interviewing', 'Withdrawn'),
+  ('Offer Extended', 'Offer Accepted'), ('Offer Extended', 'Offer Rejected'), ('Offer Extended', 'Withdrawn'),
+  ('Offer Accepted', 'Hired'), ('Offer Accepted', 'Withdrawn'),
+  ('Offer Rejected', 'Offer Extended'),
+  ('On Hold', 'Applied'), ('On Hold', 'Screening'), ('On Hold', 'Assessment'), ('On Hold', 'Interviewing'), ('On Hold', 'Rejected'), ('On Hold', 'Withdrawn'),
+  -- Reopening a rejected application restarts it at screening
+  ('Rejected', 'Screening')
+on conflict do nothing;
+
+alter table public.pipeline_stage_transitions enable row level security;
+
+drop policy if exists "Pipeline transitions are readable by signed-in users" on public.pipeline_stage_transitions;
+create policy "Pipeline transitions are readable by signed-in users"
+  on public.pipeline_stage_transitions for select
+  to authenticated
+  using (true);
+
+-- Set by move_application_stage for the rest of its transaction
+create or replace function public.guard_pipeline_stage()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null
+    and coalesce(current_setting('app.pipeline_move', true), '') <> 'on' then
+    raise exception 'Pipeline stages can only be changed with move_application_stage'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_pipeline_stage on public.applications;
+create trigger guard_pipeline_stage
+  before update of pipeline_stage on public.applications
+  for each row
+  when (new.pipeline_stage is distinct from old.pipeline_stage)
+  execute function public.guard_pipeline_stage();
+
+create or replace function public.move_application_stage(
+  p_application_id uuid,
+  p_to_stage public.candidate_pipeline_status_type,
+  p_note text default null
+)
+returns public.applications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_application public.applications;
+  v_job public.jobs;
+  v_candidate public.candidates;
+  v_from_stage public.candidate_pipeline_status_type;
+  v_status public.application_status_type;
+  v_job_application_id uuid;
+begin
+  select * into v_application from public.applications where id = p_application_id for update;
+  if not found then
+    raise exception 'Application not found' using errcode = 'P0002';
+  end if;
+
+  select * into v_job from public.jobs where id = v_application.job_id;
+  if not exists (
+    select 1 from public.hr_members
+    where user_profile_id = auth.uid() and company_id = v_job.company_id
+  ) then
+    raise exception 'Only the hiring team for this job can move its applications'
+      using errcode = '42501';
+  end if;
+
+  v_from_stage := coalesce(v_application.pipeline_stage, 'Applied');
+  if v_from_stage = p_to_stage then
+    return v_application;
+  end if;
+
+  if not exists (
+    select 1 from public.pipeline_stage_transitions
+    where from_stage = v_from_stage and to_stage = p_to_stage
+  ) then
+    raise exception 'Cannot move an application from % to %', v_from_stage, p_to_stage
+      using errcode = '22023';
+  end if;
+
+  -- Keep the coarser application status in step with the stage
+  v_status := case p_to_stage
+    when 'Applied' then 'Received'
+    when 'Screening' then 'Under Review'
+    when 'Assessment' then 'Assessment Sent'
+    when 'Interviewing' then 'Interview Scheduled'
+    when 'Offer Extended' then 'Offer Extended'
+    when 'Offer Accepted' then 'Offer Extended'
+    when 'Offer Rejected' then 'Rejected'
+    when 'Hired' then 'Hired'
+    when 'Rejected' then 'Rejected'
+    when 'Withdrawn' then 'Withdrawn'
+    else v_application.status
+  end;
+
+  perform set_config('app.pipeline_move', 'on', true);
+  update public.applications
+  set pipeline_stage = p_to_stage,
+      status = v_status,
+      updated_at = now()
+  where id = p_application_id
+  returning * into v_application;
+  perform set_config('app.pipeline_move', 'off', true);
+
+  select * into v_candidate from public.candidates where id = v_application.candidate_id;
+
+  insert into public.activity_logs (activity_type, entity_type, entity_id, user_profile_id, description, details)
+  values (
+    'application_stage_changed',
+    'application',
+    p_application_id,
+    auth.uid(),
+    format('%s %s moved from %s to %s for %s', v_candidate.first_name, v_candidate.last_name, v_from_stage, p_to_stage, v_job.title),
+    jsonb_build_object(
+      'from_stage', v_from_stage,
+      'to_stage', p_to_stage,
+      'job_id', v_job.id,
+      'candidate_id', v_candidate.id,
+      'note', p_note
+    )
+  );
+
+  -- Only candidates with an account can be notified; bulk-imported ones have none
+  if v_candidate.user_profile_id is not null then
+    select id into v_job_application_id
+    from public.job_applications
+    where user_id = v_candidate.user_profile_id and job_id = v_job.id
+    limit 1;
+
+    insert into public.notifications (user_id, title, message, type, related_application_id)
+    values (
+      v_candidate.user_profile_id,
+      'Application Status Update',
+      case p_to_stage
+        when 'Rejected' then format('Your application for %s was not selected to move forward', v_job.title)
+        when 'Offer Rejected' then format('Your offer for %s has been closed', v_job.title)
+        else format('Your application for %s moved to %s', v_job.title, p_to_stage)
+      end,
+      case
+        when p_to_stage in ('Rejected', 'Offer Rejected') then 'error'
+        when p_to_stage in ('Offer Extended', 'Hired') then 'success'
+        else 'info'
+      end,
+      v_job_application_id
+    );
+  end if;
+
+  return v_application;
+end;
+$$;
+
+revoke all on function public.move_application_stage(uuid, public.candidate_pipeline_status_type, text) from public, anon;
+grant execute on function public.move_application_stage(uuid, public.candidate_pipeline_status_type, text) to authenticated;
+
+create index if not exists activity_logs_entity_idx
+  on public.activity_logs (entity_type, entity_id, "timestamp" desc);
@@ -0,0 +1,226 @@
+-- Interview scheduling (HRDashboard/Interviews). Interviewers publish weekly
+-- working hours, candidates can offer time windows, and every write to
+-- interviews is checked against both plus the calendars of the interviewer
+-- and the candidate, so double-booking is impossible from any client.
+
+-- Weekly hours, in the interviewer's own time zone
+create table if not exists public.interviewer_availability (
+  id uuid primary key default gen_random_uuid(),
+  hr_member_id uuid not null references public.hr_members(id) on delete cascade,
+  -- 0 = Sunday, as extract(dow)
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  timezone text not null default 'UTC',
+  created_at timestamptz not null default now(),
+  check (start_time < end_time)
+);
+
+create index if not exists interviewer_availability_member_idx
+  on public.interviewer_availability (hr_member_id, weekday);
+
+-- One-off windows a candidate is free in
+create table if not exists public.candidate_availability (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  check (starts_at < ends_at)
+);
+
+create index if not exists candidate_availability_candidate_idx
+  on public.candidate_availability (candidate_id, starts_at);
+
+alter table public.interviewer_availability enable row level security;
+alter table public.candidate_availability enable row level security;
+
+drop policy if exists "HR members read availability in their company" on public.interviewer_availability;
+create policy "HR members read availability in their company"
+  on public.interviewer_availability for select
+  to authenticated
+  using (exists (
+    select 1
+    from public.hr_members interviewer
+    join public.hr_members viewer on viewer.company_id = interviewer.company_id
+    where interviewer.id = interviewer_availability.hr_member_id
+      and viewer.user_profile_id = auth.uid()
+  ));
+
+drop policy if exists "HR members manage their own availability" on public.interviewer_availability;
+create policy "HR members manage their own availability"
+  on public.interviewer_availability for all
+  to authenticated
+  using (exists (
+    select 1 from public.hr_members
+    where id = interviewer_availability.hr_member_id and user_profile_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.hr_members
+    where id = interviewer_availability.hr_member_id and user_profile_id = auth.uid()
+  ));
+
+drop policy if exists "Candidates manage their own availability" on public.candidate_availability;
+create policy "Candidates manage their own availability"
+  on public.candidate_availability for all
+  to authenticated
+  using (exists (
+    select 1 from public.candidates
+    where id = candidate_availability.candidate_id and user_profile_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.candidates
+    where id = candidate_availability.candidate_id and user_profile_id = auth.uid()
+  ));
+
+-- HR can read (and record on the candidate's behalf) windows of anyone who
+-- applied to one of their company's jobs
+drop policy if exists "HR members manage availability of their applicants" on public.candidate_availability;
+create policy "HR members manage availability of their applicants"
+  on public.candidate_availability for all
+  to authenticated
+  using (exists (
+    select 1
+    from public.applications a
+    join public.jobs j on j.id = a.job_id
+    join public.hr_members hm on hm.company_id = j.company_id
+    where a.candidate_id = candidate_availability.candidate_id
+      and hm.user_profile_id = auth.uid()
+  ))
+  with check (exists (
+    select 1
+    from public.applications a
+    join public.jobs j on j.id = a.job_id
+    join public.hr_members hm on hm.company_id = j.company_id
+    where a.candidate_id = candidate_availability.candidate_id
+      and hm.user_profile_id = auth.uid()
+  ));
+
+-- Calendar fields. ics_uid and ics_sequence identify an invite across
+-- reschedules so calendar apps update the event instead of adding another.
+alter table public.interviews
+  add column if not exists ends_at timestamptz,
+  add column if not exists ics_uid text not null default (gen_random_uuid()::text || '@mahayudh'),
+  add column if not exists ics_sequence integer not null default 0,
+  add column if not exists cancellation_reason text;
+
+update public.interviews
+set ends_at = scheduled_date + make_interval(mins => coalesce(duration_minutes, 45))
+where ends_at is null;
+
+create unique index if not exists interviews_ics_uid_key on public.interviews (ics_uid);
+create index if not exists interviews_interviewer_time_idx on public.interviews (interviewer_id, scheduled_date);
+create index if not exists interviews_application_time_idx on public.interviews (application_id, scheduled_date);
+
+drop policy if exists "HR members manage interviews for their company's jobs" on public.interviews;
+create policy "HR members manage interviews for their company's jobs"
+  on public.interviews for all
+  to authenticated
+  using (exists (
+    select 1
+    from public.applications a
+    join public.jobs j on j.id = a.job_id
+    join public.hr_members hm on hm.company_id = j.company_id
+    where a.id = interviews.application_id and hm.user_profile_id = auth.uid()
+  ))
+  with check (exists (
+    select 1
+    from public.applications a
+    join public.jobs j on j.id = a.job_id
+    join public.hr_members hm on hm.company_id = j.company_id
+    where a.id = interviews.application_id and hm.user_profile_id = auth.uid()
+  ));
+
+create or replace function public.check_interview_schedule()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_candidate_id uuid;
+  v_conflict record;
+begin
+  new.ends_at := new.scheduled_date + make_interval(mins => coalesce(new.duration_minutes, 45));
+
+  if tg_op = 'UPDATE' then
+    -- Moving an interview is a reschedule; calendar clients need a higher
+    -- SEQUENCE to replace the event they already have
+    if new.scheduled_date is distinct from old.scheduled_date
+      or new.duration_minutes is distinct from old.duration_minutes
+      or new.interviewer_id is distinct from old.interviewer_id then
+      new.ics_sequence := old.ics_sequence + 1;
+      if new.status = 'Scheduled' and old.status in ('Scheduled', 'Rescheduled') then
+        new.status := 'Rescheduled';
+      end if;
+    elsif new.status is distinct from old.status then
+      new.ics_sequence := old.ics_sequence + 1;
+    end if;
+  end if;
+
+  -- Only live interviews occupy the calendar
+  if new.status not in ('Scheduled', 'Rescheduled') then
+    return new;
+  end if;
+
+  select candidate_id into v_candidate_id from public.applications where id = new.application_id;
+
+  -- Serialise concurrent bookings for the same people
+  if new.interviewer_id is not null then
+    perform pg_advisory_xact_lock(hashtext('interviewer:' || new.interviewer_id::text));
+  end if;
+  perform pg_advisory_xact_lock(hashtext('candidate:' || v_candidate_id::text));
+
+  select i.id, i.scheduled_date, (i.interviewer_id = new.interviewer_id) as same_interviewer
+  into v_conflict
+  from public.interviews i
+  join public.applications a on a.id = i.application_id
+  where i.id <> new.id
+    and i.status in ('Scheduled', 'Rescheduled')
+    and (i.interviewer_id = new.interviewer_id or a.candidate_id = v_candidate_id)
+    and tstzrange(i.scheduled_date, i.ends_at) && tstzrange(new.scheduled_date, new.ends_at)
+  limit 1;
+
+  if found then
+    raise exception '% already has an interview at %',
+      case when v_conflict.same_interviewer then 'The interviewer' else 'The candidate' end,
+      to_char(v_conflict.scheduled_date at time zone 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')
+      using errcode = '23P01';
+  end if;
+
+  -- Interviewers without published hours can be booked at any time
+  if new.interviewer_id is not null
+    and exists (select 1 from public.interviewer_availability where hr_member_id = new.interviewer_id)
+    and not exists (
+      select 1 from public.interviewer_availability av
+      where av.hr_member_id = new.interviewer_id
+        and extract(dow from new.scheduled_date at time zone av.timezone) = av.weekday
+        and (new.scheduled_date at time zone av.timezone)::time >= av.start_time
+        and (new.ends_at at time zone av.timezone)::time <= av.end_time
+        and (new.ends_at at time zone av.timezone)::date = (new.scheduled_date at time zone av.timezone)::date
+    ) then
+    raise exception 'The interview is outside the interviewer''s working hours'
+      using errcode = '23514';
+  end if;
+
+  -- Likewise, candidates who offered windows are only booked inside one
+  if exists (select 1 from public.candidate_availability where candidate_id = v_candidate_id and ends_at > now())
+    and not exists (
+      select 1 from public.candidate_availability
+      where candidate_id = v_candidate_id
+        and starts_at <= new.scheduled_date
+        and ends_at >= new.ends_at
+    ) then
+    raise exception 'The interview is outside the times the candidate is available'
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_interview_schedule on public.interviews;
+create trigger check_interview_schedule
+  before insert or update on public.interviews
+  for each row
+  execute function public.check_interview_schedule();
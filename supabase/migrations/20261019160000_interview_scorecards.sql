@@ -0,0 +1,211 @@
+-- Structured interview scorecards. Each interview type has a template of
+-- weighted competencies with a rubric anchor for every rating; each panelist
+-- fills one scorecard per interview, and the app aggregates the submitted
+-- ones into a hire / no-hire recommendation.
+
+-- competencies: [{ key, label, description, weight, anchors: [rating 1..4 text] }]
+create table if not exists public.scorecard_templates (
+  id uuid primary key default gen_random_uuid(),
+  -- Null for the built-in template a company gets until it defines its own
+  company_id uuid references public.companies(id) on delete cascade,
+  interview_type public.interview_type_option not null,
+  name text not null,
+  competencies jsonb not null check (jsonb_typeof(competencies) = 'array' and jsonb_array_length(competencies) > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique nulls not distinct (company_id, interview_type)
+);
+
+create table if not exists public.interview_scorecards (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid not null references public.interviews(id) on delete cascade,
+  template_id uuid not null references public.scorecard_templates(id),
+  interviewer_id uuid not null references public.hr_members(id) on delete cascade,
+  recommendation text check (recommendation in ('strong_no_hire', 'no_hire', 'hire', 'strong_hire')),
+  notes text,
+  status text not null default 'draft' check (status in ('draft', 'submitted')),
+  submitted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (interview_id, interviewer_id),
+  check (status = 'draft' or recommendation is not null)
+);
+
+create table if not exists public.scorecard_ratings (
+  id uuid primary key default gen_random_uuid(),
+  scorecard_id uuid not null references public.interview_scorecards(id) on delete cascade,
+  competency_key text not null,
+  rating smallint not null check (rating between 1 and 4),
+  notes text,
+  unique (scorecard_id, competency_key)
+);
+
+create index if not exists interview_scorecards_interview_idx on public.interview_scorecards (interview_id);
+
+alter table public.scorecard_templates enable row level security;
+alter table public.interview_scorecards enable row level security;
+alter table public.scorecard_ratings enable row level security;
+
+drop policy if exists "HR members read scorecard templates" on public.scorecard_templates;
+create policy "HR members read scorecard templates"
+  on public.scorecard_templates for select
+  to authenticated
+  using (
+    company_id is null
+    or exists (select 1 from public.hr_members where company_id = scorecard_templates.company_id and user_profile_id = auth.uid())
+  );
+
+drop policy if exists "HR members manage their company's templates" on public.scorecard_templates;
+create policy "HR members manage their company's templates"
+  on public.scorecard_templates for all
+  to authenticated
+  using (exists (select 1 from public.hr_members where company_id = scorecard_templates.company_id and user_profile_id = auth.uid()))
+  with check (exists (select 1 from public.hr_members where company_id = scorecard_templates.company_id and user_profile_id = auth.uid()));
+
+-- The whole hiring team sees every scorecard for its interviews
+drop policy if exists "HR members read scorecards for their company's interviews" on public.interview_scorecards;
+create policy "HR members read scorecards for their company's interviews"
+  on public.interview_scorecards for select
+  to authenticated
+  using (exists (
+    select 1
+    from public.interviews i
+    join public.applications a on a.id = i.application_id
+    join public.jobs j on j.id = a.job_id
+    join public.hr_members hm on hm.company_id = j.company_id
+    where i.id = interview_scorecards.interview_id and hm.user_profile_id = auth.uid()
+  ));
+
+drop policy if exists "Interviewers create their own scorecards" on public.interview_scorecards;
+create policy "Interviewers create their own scorecards"
+  on public.interview_scorecards for insert
+  to authenticated
+  with check (exists (
+    select 1
+    from public.interviews i
+    join public.applications a on a.id = i.application_id
+    join public.jobs j on j.id = a.job_id
+    join public.hr_members hm on hm.company_id = j.company_id
+    where i.id = interview_scorecards.interview_id
+      and hm.id = interview_scorecards.interviewer_id
+      and hm.user_profile_id = auth.uid()
+  ));
+
+-- Submitted scorecards are final so panelists can't revise after seeing others
+drop policy if exists "Interviewers edit their own draft scorecards" on public.interview_scorecards;
+create policy "Interviewers edit their own draft scorecards"
+  on public.interview_scorecards for update
+  to authenticated
+  using (
+    status = 'draft'
+    and exists (select 1 from public.hr_members where id = interview_scorecards.interviewer_id and user_profile_id = auth.uid())
+  )
+  with check (exists (select 1 from public.hr_members where id = interview_scorecards.interviewer_id and user_profile_id = auth.uid()));
+
+drop policy if exists "HR members read ratings they can see the scorecard of" on public.scorecard_ratings;
+create policy "HR members read ratings they can see the scorecard of"
+  on public.scorecard_ratings for select
+  to authenticated
+  using (exists (select 1 from public.interview_scorecards where id = scorecard_ratings.scorecard_id));
+
+drop policy if exists "Interviewers manage ratings on their draft scorecards" on public.scorecard_ratings;
+create policy "Interviewers manage ratings on their draft scorecards"
+  on public.scorecard_ratings for all
+  to authenticated
+  using (exists (
+    select 1
+    from public.interview_scorecards sc
+    join public.hr_members hm on hm.id = sc.interviewer_id
+    where sc.id = scorecard_ratings.scorecard_id and sc.status = 'draft' and hm.user_profile_id = auth.uid()
+  ))
+  with check (exists (
+    select 1
+    from public.interview_scorecards sc
+    join public.hr_members hm on hm.id = sc.interviewer_id
+    where sc.id = scorecard_ratings.scorecard_id and sc.status = 'draft' and hm.user_profile_id = auth.uid()
+  ));
+
+-- A scorecard can only be submitted once every competency is rated
+create or replace function public.check_scorecard_submission()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_missing text;
+begin
+  if new.status = 'submitted' and old.status = 'draft' then
+    select string_agg(c->>'label', ', ')
+    into v_missing
+    from public.scorecard_templates t
+    cross join jsonb_array_elements(t.competencies) c
+    where t.id = new.template_id
+      and not exists (
+        select 1 from public.scorecard_ratings r
+        where r.scorecard_id = new.id and r.competency_key = c->>'key'
+      );
+
+    if v_missing is not null then
+      raise exception 'Rate every competency before submitting (missing: %)', v_missing
+        using errcode = '23514';
+    end if;
+    new.submitted_at := now();
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists check_scorecard_submission on public.interview_scorecards;
+create trigger check_scorecard_submission
+  before update on public.interview_scorecards
+  for each row
+  execute function public.check_scorecard_submission();
+
+insert into public.scorecard_templates (company_id, interview_type, name, competencies) values
+  (null, 'Technical', 'Technical interview', '[
+    {"key": "problem_solving", "label": "Problem solving", "description": "Breaks the problem down and reaches a working approach", "weight": 3,
+     "anchors": ["Could not make progress without the answer", "Reached a partial approach with heavy hints", "Solved it with minor hints", "Solved it cleanly and discussed alternatives"]},
+    {"key": "code_quality", "label": "Code quality", "description": "Correct, readable and tested code", "weight": 2,
+     "anchors": ["Code did not work", "Worked with notable bugs or poor structure", "Correct and readable", "Correct, idiomatic and covers edge cases"]},
+    {"key": "technical_depth", "label": "Technical depth", "description": "Understands the tools and trade-offs of the role", "weight": 2,
+     "anchors": ["Gaps in fundamentals", "Surface knowledge only", "Solid working knowledge", "Deep expertise, explains trade-offs"]},
+    {"key": "communication", "label": "Communication", "description": "Explains their thinking while working", "weight": 1,
+     "anchors": ["Hard to follow", "Explained only when asked", "Clear throughout", "Clear and checked understanding with the interviewer"]}
+  ]'::jsonb),
+  (null, 'Behavioral', 'Behavioral interview', '[
+    {"key": "ownership", "label": "Ownership", "description": "Takes responsibility for outcomes", "weight": 2,
+     "anchors": ["Deflected responsibility", "Owned only assigned work", "Owned outcomes end to end", "Drove outcomes beyond their remit"]},
+    {"key": "collaboration", "label": "Collaboration", "description": "Works well with others and handles conflict", "weight": 2,
+     "anchors": ["Examples show friction", "Cooperates when things go well", "Resolves disagreements constructively", "Makes the people around them better"]},
+    {"key": "adaptability", "label": "Adaptability", "description": "Learns and adjusts when things change", "weight": 1,
+     "anchors": ["Resists change", "Adapts slowly", "Adjusts readily", "Seeks out change and learns fast"]},
+    {"key": "communication", "label": "Communication", "description": "Structured, concise answers", "weight": 1,
+     "anchors": ["Unstructured and vague", "Rambling but relevant", "Clear and structured", "Crisp, specific and compelling"]}
+  ]'::jsonb),
+  (null, 'HR Round', 'HR round', '[
+    {"key": "motivation", "label": "Motivation", "description": "Interest in the role and company", "weight": 2,
+     "anchors": ["No clear interest", "Generic interest", "Specific reasons for this role", "Compelling, well-researched motivation"]},
+    {"key": "values_fit", "label": "Values", "description": "Alignment with company values", "weight": 2,
+     "anchors": ["Conflicts with our values", "Neutral", "Aligned", "Strongly embodies our values"]},
+    {"key": "expectations", "label": "Expectations", "description": "Compensation, notice and logistics fit", "weight": 1,
+     "anchors": ["Far apart", "Significant gaps", "Workable", "Fully aligned"]}
+  ]'::jsonb),
+  (null, 'Panel', 'Panel interview', '[
+    {"key": "role_skills", "label": "Role skills", "description": "Skills the role needs day to day", "weight": 3,
+     "anchors": ["Missing core skills", "Some gaps", "Meets the bar", "Raises the bar"]},
+    {"key": "problem_solving", "label": "Problem solving", "description": "Reasoning through open questions", "weight": 2,
+     "anchors": ["Struggled", "Needed guidance", "Reasoned well", "Insightful"]},
+    {"key": "communication", "label": "Communication", "description": "Engages the whole panel", "weight": 1,
+     "anchors": ["Hard to follow", "Adequate", "Clear", "Excellent"]},
+    {"key": "team_fit", "label": "Team fit", "description": "How they would work with the team", "weight": 1,
+     "anchors": ["Concerns", "Some reservations", "Good fit", "Would strengthen the team"]}
+  ]'::jsonb),
+  (null, 'Screening Call', 'Screening call', '[
+    {"key": "experience_match", "label": "Experience match", "description": "Background against the job requirements", "weight": 2,
+     "anchors": ["Does not match", "Partial match", "Good match", "Exceeds requirements"]},
+    {"key": "communication", "label": "Communication", "description": "Clarity on the call", "weight": 1,
+     "anchors": ["Hard to follow", "Adequate", "Clear", "Excellent"]},
+    {"key": "interest", "label": "Interest", "description": "Engagement with the opportunity", "weight": 1,
+     "anchors": ["Not interested", "Lukewarm", "Interested", "Very keen"]}
+  ]'::jsonb)
+on conflict (company_id, interview_type) do nothing;
@@ -0,0 +1,265 @@
+-- Job runtime for the HR AI agents (HRDashboard/AIAgents). HR queues tasks
+-- against an agent; the ai-agent-worker edge function claims them, runs them
+-- through the shared AI providers and records one decision per candidate.
+-- When HR later moves the application, the decision is scored against what
+-- HR actually did, which is where ai_agents.accuracy_rate comes from.
+--
+-- The worker runs whenever the page queues a task. To also drain the queue on
+-- a schedule, invoke it from pg_cron with the service role key, e.g.
+--   select cron.schedule('ai-agent-worker', '* * * * *', $$
+--     select net.http_post('https://<project>.functions.supabase.co/ai-agent-worker',
+--       headers := jsonb_build_object('Authorization', 'Bearer <service role key>'))
+--   $$);
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'ai_agent_task_status') then
+    create type public.ai_agent_task_status as enum ('queued', 'running', 'succeeded', 'failed', 'cancelled');
+  end if;
+end
+$$;
+
+create table if not exists public.ai_agent_tasks (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.ai_agents(id) on delete cascade,
+  company_id uuid not null references public.companies(id) on delete cascade,
+  -- screen_applications | analyze_feedback | source_candidates | flag_unscheduled_interviews
+  task_type text not null,
+  params jsonb not null default '{}'::jsonb,
+  status public.ai_agent_task_status not null default 'queued',
+  progress_done integer not null default 0,
+  progress_total integer,
+  result jsonb,
+  error text,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  started_at timestamptz,
+  finished_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists ai_agent_tasks_queue_idx on public.ai_agent_tasks (status, run_after);
+create index if not exists ai_agent_tasks_agent_idx on public.ai_agent_tasks (agent_id, created_at desc);
+
+-- One row per candidate an agent made a call on. hr_decision is filled in
+-- from the pipeline when HR acts on the same application.
+create table if not exists public.ai_agent_decisions (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.ai_agent_tasks(id) on delete cascade,
+  agent_id uuid not null references public.ai_agents(id) on delete cascade,
+  application_id uuid references public.applications(id) on delete cascade,
+  candidate_id uuid references public.candidates(id) on delete cascade,
+  decision text not null check (decision in ('advance', 'reject')),
+  confidence numeric check (confidence between 0 and 1),
+  score integer check (score between 0 and 100),
+  rationale text,
+  hr_decision text check (hr_decision in ('advance', 'reject')),
+  hr_decided_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_agent_decisions_application_idx on public.ai_agent_decisions (application_id);
+create index if not exists ai_agent_decisions_agent_idx on public.ai_agent_decisions (agent_id, created_at desc);
+
+alter table public.ai_agent_tasks enable row level security;
+alter table public.ai_agent_decisions enable row level security;
+
+drop policy if exists "HR members read their company's agent tasks" on public.ai_agent_tasks;
+create policy "HR members read their company's agent tasks"
+  on public.ai_agent_tasks for select
+  to authenticated
+  using (exists (select 1 from public.hr_members where company_id = ai_agent_tasks.company_id and user_profile_id = auth.uid()));
+
+drop policy if exists "HR members queue tasks for their company" on public.ai_agent_tasks;
+create policy "HR members queue tasks for their company"
+  on public.ai_agent_tasks for insert
+  to authenticated
+  with check (
+    status = 'queued'
+    and created_by = auth.uid()
+    and exists (select 1 from public.hr_members where company_id = ai_agent_tasks.company_id and user_profile_id = auth.uid())
+  );
+
+-- HR can only cancel; everything else is written by the worker
+drop policy if exists "HR members cancel their company's queued tasks" on public.ai_agent_tasks;
+create policy "HR members cancel their company's queued tasks"
+  on public.ai_agent_tasks for update
+  to authenticated
+  using (
+    status in ('queued', 'running')
+    and exists (select 1 from public.hr_members where company_id = ai_agent_tasks.company_id and user_profile_id = auth.uid())
+  )
+  with check (status = 'cancelled');
+
+drop policy if exists "HR members read their company's agent decisions" on public.ai_agent_decisions;
+create policy "HR members read their company's agent decisions"
+  on public.ai_agent_decisions for select
+  to authenticated
+  using (exists (
+    select 1
+    from public.ai_agent_tasks t
+    join public.hr_members hm on hm.company_id = t.company_id
+    where t.id = ai_agent_decisions.task_id and hm.user_profile_id = auth.uid()
+  ));
+
+-- Agents are shared across companies. HR members may only switch one on or
+-- off: status is the one column they can write, and only to Active or
+-- Inactive. Stats, configuration and the Error state come from the worker.
+drop policy if exists "HR members switch agents on and off" on public.ai_agents;
+create policy "HR members switch agents on and off"
+  on public.ai_agents for update
+  to authenticated
+  using (exists (select 1 from public.hr_members where user_profile_id = auth.uid()))
+  with check (
+    status in ('Active', 'Inactive')
+    and exists (select 1 from public.hr_members where user_profile_id = auth.uid())
+  );
+
+revoke update on public.ai_agents from authenticated;
+grant update (status) on public.ai_agents to authenticated;
+
+create or replace function public.touch_ai_agent()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_ai_agent on public.ai_agents;
+create trigger touch_ai_agent
+  before update of status on public.ai_agents
+  for each row
+  when (new.status is distinct from old.status)
+  execute function public.touch_ai_agent();
+
+-- Live task status on the page
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'ai_agent_tasks'
+  ) then
+    alter publication supabase_realtime add table public.ai_agent_tasks;
+  end if;
+end
+$$;
+
+-- Hand the next runnable task to a worker. Tasks of agents that are switched
+-- off wait; tasks whose worker died mid-run are picked up again after the lock
+-- times out.
+create or replace function public.claim_ai_agent_task(p_lock_timeout interval default interval '10 minutes')
+returns public.ai_agent_tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_task public.ai_agent_tasks;
+begin
+  select t.* into v_task
+  from public.ai_agent_tasks t
+  join public.ai_agents a on a.id = t.agent_id
+  where a.status in ('Active', 'Error')
+    and (
+      (t.status = 'queued' and t.run_after <= now())
+      or (t.status = 'running' and t.locked_at < now() - p_lock_timeout)
+    )
+  order by t.run_after, t.created_at
+  limit 1
+  for update of t skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  update public.ai_agent_tasks
+  set status = 'running',
+      attempts = attempts + 1,
+      locked_at = now(),
+      started_at = coalesce(started_at, now()),
+      error = null,
+      updated_at = now()
+  where id = v_task.id
+  returning * into v_task;
+
+  return v_task;
+end;
+$$;
+
+revoke all on function public.claim_ai_agent_task(interval) from public, anon, authenticated;
+
+-- Recompute an agent's accuracy (share of its decisions HR agreed with) and
+-- completed task count
+create or replace function public.refresh_ai_agent_stats(p_agent_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.ai_agents a
+  set accuracy_rate = coalesce((
+        select round(100.0 * count(*) filter (where d.decision = d.hr_decision) / nullif(count(*), 0), 1)
+        from public.ai_agent_decisions d
+        where d.agent_id = p_agent_id and d.hr_decision is not null
+      ), a.accuracy_rate),
+      tasks_completed = (
+        select count(*) from public.ai_agent_tasks t
+        where t.agent_id = p_agent_id and t.status = 'succeeded'
+      ),
+      last_activity = now(),
+      updated_at = now()
+  where a.id = p_agent_id;
+$$;
+
+revoke all on function public.refresh_ai_agent_stats(uuid) from public, anon, authenticated;
+
+-- Score agent decisions when HR moves the application out of the stage the
+-- agent looked at
+create or replace function public.record_ai_agent_outcome()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_outcome text;
+  v_agent_id uuid;
+begin
+  v_outcome := case
+    when new.pipeline_stage in ('Rejected', 'Offer Rejected') then 'reject'
+    when new.pipeline_stage in ('Screening', 'Assessment', 'Interviewing', 'Offer Extended', 'Offer Accepted', 'Hired') then 'advance'
+    else null
+  end;
+  if v_outcome is null then
+    return new;
+  end if;
+
+  for v_agent_id in
+    with scored as (
+      update public.ai_agent_decisions
+      set hr_decision = v_outcome, hr_decided_at = now()
+      where application_id = new.id and hr_decision is null
+      returning agent_id
+    )
+    select distinct agent_id from scored
+  loop
+    perform public.refresh_ai_agent_stats(v_agent_id);
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_ai_agent_outcome on public.applications;
+create trigger record_ai_agent_outcome
+  after update of pipeline_stage on public.applications
+  for each row
+  when (new.pipeline_stage is distinct from old.pipeline_stage)
+  execute function public.record_ai_agent_outcome();
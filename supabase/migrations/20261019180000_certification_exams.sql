@@ -0,0 +1,235 @@
+-- Server-graded QwiXCert exams. The question bank and its answer key are only
+-- readable with the service role: the certification-exams edge function
+-- serves questions without answers, grades submitted attempts, enforces the
+-- retake cooldown and is the only writer of issued certificates.
+
+create table if not exists public.certification_exams (
+  id text primary key,
+  title text not null,
+  description text not null,
+  category text not null,
+  topics text[] not null default '{}',
+  time_limit_minutes integer not null check (time_limit_minutes > 0),
+  -- Questions drawn from the bank per attempt
+  question_count integer not null check (question_count > 0),
+  passing_score integer not null check (passing_score between 0 and 100),
+  -- Wait after a failed or abandoned attempt before the next one
+  cooldown_hours integer not null default 24,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.certification_questions (
+  id uuid primary key default gen_random_uuid(),
+  exam_id text not null references public.certification_exams(id) on delete cascade,
+  topic text,
+  text text not null,
+  options jsonb not null check (jsonb_typeof(options) = 'array' and jsonb_array_length(options) between 2 and 6),
+  correct_option_index smallint not null,
+  explanation text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  unique (exam_id, text),
+  check (correct_option_index >= 0 and correct_option_index < jsonb_array_length(options))
+);
+
+create table if not exists public.certification_attempts (
+  id uuid primary key default gen_random_uuid(),
+  exam_id text not null references public.certification_exams(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- The questions served, in order
+  question_ids uuid[] not null,
+  status text not null default 'in_progress' check (status in ('in_progress', 'submitted', 'expired')),
+  started_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  submitted_at timestamptz,
+  -- { question id: chosen option index }
+  answers jsonb,
+  correct_count integer,
+  score integer check (score between 0 and 100),
+  passed boolean,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists certification_attempts_user_exam_idx
+  on public.certification_attempts (user_id, exam_id, started_at desc);
+
+-- At most one open attempt per user and exam
+create unique index if not exists certification_attempts_open_idx
+  on public.certification_attempts (user_id, exam_id)
+  where status = 'in_progress';
+
+create table if not exists public.issued_certificates (
+  id uuid primary key default gen_random_uuid(),
+  attempt_id uuid not null unique references public.certification_attempts(id) on delete restrict,
+  exam_id text not null references public.certification_exams(id),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  score integer not null,
+  recipient_name text not null,
+  recipient_email text not null,
+  issuer text not null,
+  issued_at timestamptz not null default now(),
+  -- The certificate fields exactly as hashed
+  payload jsonb not null,
+  -- SHA-256 of the canonical JSON of payload
+  cert_hash text not null unique,
+  is_public boolean not null default true
+);
+
+create index if not exists issued_certificates_user_idx on public.issued_certificates (user_id, issued_at desc);
+
+alter table public.certification_exams enable row level security;
+alter table public.certification_questions enable row level security;
+alter table public.certification_attempts enable row level security;
+alter table public.issued_certificates enable row level security;
+
+drop policy if exists "Anyone can read active exams" on public.certification_exams;
+create policy "Anyone can read active exams"
+  on public.certification_exams for select
+  using (is_active);
+
+-- certification_questions deliberately has no policies: the answer key never
+-- leaves the edge function
+
+drop policy if exists "Users read their own attempts" on public.certification_attempts;
+create policy "Users read their own attempts"
+  on public.certification_attempts for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users read their own certificates" on public.issued_certificates;
+create policy "Users read their own certificates"
+  on public.issued_certificates for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Holders may hide a certificate; nothing else about it can change
+drop policy if exists "Users change the visibility of their certificates" on public.issued_certificates;
+create policy "Users change the visibility of their certificates"
+  on public.issued_certificates for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+revoke update on public.issued_certificates from authenticated;
+grant update (is_public) on public.issued_certificates to authenticated;
+
+insert into public.certification_exams (id, title, description, category, topics, time_limit_minutes, question_count, passing_score) values
+  ('resume-01', 'Professional Resume Building', 'Master the art of creating ATS-friendly resumes', 'Career Development',
+    array['Resume Structure', 'ATS Optimization', 'Content Writing', 'Formatting'], 20, 8, 70),
+  ('ats-02', 'ATS Optimization Specialist', 'Learn advanced techniques for beating ATS systems', 'Technical Skills',
+    array['Keyword Optimization', 'ATS Algorithms', 'Format Compatibility', 'Parsing Technology'], 30, 8, 75),
+  ('career-03', 'Career Development Fundamentals', 'Essential strategies for career growth and advancement', 'Career Development',
+    array['Networking', 'Professional Development', 'Industry Trends', 'Job Search Strategy'], 25, 8, 70),
+  ('interview-04', 'Interview Mastery', 'Ace your interviews with proven techniques', 'Soft Skills',
+    array['Common Questions', 'STAR Method', 'Body Language', 'Follow-up Strategy'], 20, 8, 75),
+  ('web3-05', 'Blockchain & Web3 Basics', 'Essential knowledge for modern technology careers', 'Technical Skills',
+    array['Blockchain Fundamentals', 'Cryptocurrency', 'Smart Contracts', 'Decentralized Apps'], 30, 8, 70),
+  ('aiml-06', 'AI & Machine Learning Essentials', 'Key concepts in artificial intelligence for your resume', 'Technical Skills',
+    array['ML Fundamentals', 'Neural Networks', 'NLP', 'AI Applications'], 40, 8, 75)
+on conflict (id) do nothing;
+
+insert into public.certification_questions (exam_id, topic, text, options, correct_option_index) values
+  ('resume-01', 'Resume Structure', 'What is the recommended length for a professional resume?',
+    '["1 page", "1-2 pages", "3-4 pages", "5+ pages"]', 1),
+  ('resume-01', 'Content Writing', 'Which of the following should NOT be included in a modern resume?',
+    '["Skills section", "Professional experience", "Objective statement", "Education"]', 2),
+  ('resume-01', 'Formatting', 'What format do most Applicant Tracking Systems (ATS) prefer?',
+    '[".pdf", ".docx", ".txt", "Any format is fine"]', 0),
+  ('resume-01', 'ATS Optimization', 'What is the purpose of using keywords in your resume?',
+    '["To make it look more professional", "To match ATS search parameters", "To impress hiring managers", "To fill up space"]', 1),
+  ('resume-01', 'Resume Structure', 'Which resume section should typically come first?',
+    '["Educational background", "Work experience", "Contact information and summary", "References"]', 2),
+  ('resume-01', 'Content Writing', 'Which bullet point is strongest?',
+    '["Responsible for the sales pipeline", "Worked on many sales projects", "Grew pipeline revenue 30% in two quarters by rebuilding lead scoring", "Helped the sales team"]', 2),
+  ('resume-01', 'Resume Structure', 'In what order should work experience usually be listed?',
+    '["Alphabetically by employer", "Reverse chronological", "Chronological", "By salary"]', 1),
+  ('resume-01', 'Formatting', 'Which layout choice is most likely to break ATS parsing?',
+    '["Standard section headings", "A single-column layout", "Text placed inside tables and text boxes", "A common font such as Arial"]', 2),
+
+  ('ats-02', 'Keyword Optimization', 'Where should you look first for the keywords to target?',
+    '["A generic list of buzzwords", "The job description", "Your previous resume", "The company logo"]', 1),
+  ('ats-02', 'Keyword Optimization', 'How should an acronym such as SEO appear on an ATS-friendly resume?',
+    '["Only as the acronym", "Only spelled out", "Spelled out once with the acronym, e.g. Search Engine Optimization (SEO)", "It should be avoided"]', 2),
+  ('ats-02', 'ATS Algorithms', 'What does keyword stuffing usually lead to?',
+    '["A guaranteed interview", "Lower credibility with recruiters once the resume is read", "Faster parsing", "Higher salary offers"]', 1),
+  ('ats-02', 'Parsing Technology', 'What does an ATS parser do with a resume?',
+    '["Prints it for the recruiter", "Extracts fields such as contact details, experience and skills into structured data", "Checks spelling only", "Translates it"]', 1),
+  ('ats-02', 'Format Compatibility', 'Which section heading is an ATS most likely to recognise?',
+    '["Where I''ve Been", "My Journey", "Work Experience", "Stuff I Did"]', 2),
+  ('ats-02', 'Format Compatibility', 'Why can headers and footers cause problems?',
+    '["They use too much ink", "Some parsers skip their content, losing contact details placed there", "They are not allowed in PDFs", "They change the font"]', 1),
+  ('ats-02', 'ATS Algorithms', 'A knockout question in an application is used to',
+    '["Rank candidates by personality", "Automatically filter out candidates who miss a hard requirement", "Schedule interviews", "Score cover letters"]', 1),
+  ('ats-02', 'Parsing Technology', 'Which date format parses most reliably?',
+    '["Summer ''21 - now", "06/2021 - Present", "Last few years", "2021ish"]', 1),
+
+  ('career-03', 'Networking', 'What is an informational interview?',
+    '["A job interview for an internal role", "A conversation to learn about a role or industry from someone working in it", "A recorded video interview", "A salary negotiation"]', 1),
+  ('career-03', 'Networking', 'What is the most effective way to keep a professional network active?',
+    '["Only reach out when you need a job", "Offer help and stay in touch regularly", "Connect with as many strangers as possible", "Send the same message to everyone"]', 1),
+  ('career-03', 'Professional Development', 'A SMART goal is',
+    '["Specific, Measurable, Achievable, Relevant and Time-bound", "Simple, Modern, Agile, Rapid and Tested", "Set by your manager only", "Any goal written down"]', 0),
+  ('career-03', 'Professional Development', 'What is the main benefit of having a mentor?',
+    '["They guarantee a promotion", "Guidance and perspective from someone further along the path", "They do your work for you", "They replace formal training"]', 1),
+  ('career-03', 'Job Search Strategy', 'What share of roles are commonly filled through referrals and networking rather than job boards alone?',
+    '["Almost none", "A significant share", "Exactly 10%", "All of them"]', 1),
+  ('career-03', 'Job Search Strategy', 'How should you tailor applications?',
+    '["Send one resume to every job", "Adjust your resume and cover letter to each role''s requirements", "Only change the company name", "Tailoring is unnecessary"]', 1),
+  ('career-03', 'Industry Trends', 'Why track industry trends during a career?',
+    '["To spot skills that will be in demand and plan learning ahead", "To change jobs every month", "It matters only for executives", "To avoid learning new tools"]', 0),
+  ('career-03', 'Professional Development', 'Which is the best evidence of a new skill for employers?',
+    '["Saying you are a fast learner", "A project or result where you applied it", "Listing it without context", "A screenshot of a course page"]', 1),
+
+  ('interview-04', 'STAR Method', 'What does STAR stand for?',
+    '["Situation, Task, Action, Result", "Skills, Training, Ability, Role", "Start, Talk, Answer, Review", "Strategy, Team, Approach, Return"]', 0),
+  ('interview-04', 'STAR Method', 'Which part of a STAR answer deserves the most detail?',
+    '["Situation", "Task", "Action", "None of them"]', 2),
+  ('interview-04', 'Common Questions', 'How should you answer "What is your greatest weakness?"',
+    '["Say you have none", "Name a real weakness and what you are doing to improve it", "Name a strength disguised as a weakness", "Refuse to answer"]', 1),
+  ('interview-04', 'Common Questions', 'What is the best answer to "Do you have any questions for us?"',
+    '["No, you covered everything", "Only ask about salary", "Ask prepared questions about the role, team and success in the job", "Ask when you can go home"]', 2),
+  ('interview-04', 'Body Language', 'Which body language signals engagement?',
+    '["Crossed arms", "Checking your phone", "Steady eye contact and an open posture", "Looking at the door"]', 2),
+  ('interview-04', 'Follow-up Strategy', 'When should you send a thank-you note after an interview?',
+    '["Within 24 hours", "After a month", "Only if you get the offer", "Never"]', 0),
+  ('interview-04', 'Common Questions', 'How long should an answer to "Tell me about yourself" usually be?',
+    '["10 seconds", "About one to two minutes", "Ten minutes", "As long as possible"]', 1),
+  ('interview-04', 'Follow-up Strategy', 'What belongs in a follow-up message?',
+    '["A request to reconsider a rejection", "Thanks, a specific point from the conversation and continued interest", "Your full resume again", "Salary demands"]', 1),
+
+  ('web3-05', 'Blockchain Fundamentals', 'What is blockchain technology primarily designed to provide?',
+    '["Faster internet speeds", "Decentralized, tamper-proof record-keeping", "Advanced artificial intelligence", "Cross-platform mobile applications"]', 1),
+  ('web3-05', 'Smart Contracts', 'What is a smart contract?',
+    '["A legally binding document", "A physical contract with embedded microchips", "Self-executing code stored on a blockchain", "An AI-negotiated agreement"]', 2),
+  ('web3-05', 'Cryptocurrency', 'What does NFT stand for?',
+    '["New Financial Technology", "Network File Transfer", "Non-Fungible Token", "National FinTech Treasury"]', 2),
+  ('web3-05', 'Decentralized Apps', 'Which of these is NOT a feature of decentralized applications (dApps)?',
+    '["Open-source code", "Uses blockchain technology", "Centralized control", "Token-based incentives"]', 2),
+  ('web3-05', 'Cryptocurrency', 'What is the main purpose of cryptocurrency wallets?',
+    '["To store actual coins digitally", "To secure private keys and manage digital assets", "To mine new cryptocurrencies", "To convert between different currencies"]', 1),
+  ('web3-05', 'Blockchain Fundamentals', 'What links each block to the previous one?',
+    '["A timestamp only", "The hash of the previous block", "The miner''s name", "A random number"]', 1),
+  ('web3-05', 'Smart Contracts', 'What is gas on Ethereum?',
+    '["A token for voting", "The fee for the computation a transaction uses", "A type of wallet", "A mining pool"]', 1),
+  ('web3-05', 'Blockchain Fundamentals', 'Which consensus mechanism does Ethereum use today?',
+    '["Proof of Work", "Proof of Stake", "Proof of Authority", "Delegated Byzantine Voting"]', 1),
+
+  ('aiml-06', 'ML Fundamentals', 'What is supervised learning?',
+    '["Learning from labelled examples", "Learning without any data", "Clustering unlabelled data only", "Hand-written rules"]', 0),
+  ('aiml-06', 'ML Fundamentals', 'Overfitting means a model',
+    '["Performs well on training data but poorly on new data", "Is too small to learn anything", "Trains too quickly", "Uses too little memory"]', 0),
+  ('aiml-06', 'ML Fundamentals', 'Why hold out a test set?',
+    '["To train faster", "To estimate performance on data the model has not seen", "To increase accuracy on training data", "It is not needed"]', 1),
+  ('aiml-06', 'Neural Networks', 'What does an activation function add to a neural network?',
+    '["Non-linearity", "More training data", "Labels", "Storage"]', 0),
+  ('aiml-06', 'Neural Networks', 'Backpropagation is used to',
+    '["Collect data", "Compute gradients to update the weights", "Deploy the model", "Visualise the network"]', 1),
+  ('aiml-06', 'NLP', 'What is tokenization in NLP?',
+    '["Encrypting text", "Splitting text into units such as words or subwords", "Translating text", "Counting documents"]', 1),
+  ('aiml-06', 'NLP', 'Word embeddings represent words as',
+    '["Images", "Dense vectors where similar words are close together", "Random IDs", "Sound waves"]', 1),
+  ('aiml-06', 'AI Applications', 'Which metric suits an imbalanced fraud detection problem better than accuracy?',
+    '["Precision and recall", "Model size", "Training time", "Number of features"]', 0)
+on conflict (exam_id, text) do nothing;
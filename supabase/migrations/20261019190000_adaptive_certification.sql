@@ -0,0 +1,59 @@
+-- Adaptive QwiXCert exams. Questions carry 2PL item parameters (difficulty
+-- and discrimination) that the certification-calibration edge function
+-- re-estimates from past responses. Adaptive exams serve one question at a
+-- time, choosing each from the running ability estimate, and stop once the
+-- estimate is precise enough. Every attempt is now scored by ability: the
+-- 0-100 score is the share of the reference population below the estimate,
+-- so passing_score reads as a percentile.
+
+alter table public.certification_exams
+  -- Switch an exam on once its bank is large enough and calibrated
+  add column if not exists adaptive boolean not null default false,
+  -- Adaptive attempts stop once the ability standard error is at or below this
+  add column if not exists target_standard_error real not null default 0.35 check (target_standard_error > 0),
+  -- ...but not before this many answers; question_count is the upper bound
+  add column if not exists min_questions integer not null default 5 check (min_questions > 0);
+
+alter table public.certification_questions
+  -- b: the ability at which a candidate has even odds of answering correctly
+  add column if not exists difficulty real not null default 0,
+  -- a: how sharply the item separates candidates around its difficulty
+  add column if not exists discrimination real not null default 1 check (discrimination > 0),
+  add column if not exists response_count integer not null default 0,
+  add column if not exists calibrated_at timestamptz;
+
+alter table public.certification_attempts
+  add column if not exists mode text not null default 'fixed' check (mode in ('fixed', 'adaptive')),
+  add column if not exists ability real,
+  add column if not exists ability_standard_error real;
+
+-- One row per answered question, the data item calibration runs on. Like
+-- the question bank it is only read by the edge functions.
+create table if not exists public.certification_responses (
+  id uuid primary key default gen_random_uuid(),
+  attempt_id uuid not null references public.certification_attempts(id) on delete cascade,
+  question_id uuid not null references public.certification_questions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  selected_index smallint,
+  correct boolean not null,
+  answered_at timestamptz not null default now(),
+  unique (attempt_id, question_id)
+);
+
+create index if not exists certification_responses_question_idx
+  on public.certification_responses (question_id);
+
+alter table public.certification_responses enable row level security;
+
+-- Backfill responses from attempts graded before this migration
+insert into public.certification_responses (attempt_id, question_id, user_id, selected_index, correct, answered_at)
+select a.id,
+       q.id,
+       a.user_id,
+       (a.answers ->> q.id::text)::smallint,
+       coalesce((a.answers ->> q.id::text)::smallint = q.correct_option_index, false),
+       a.submitted_at
+from public.certification_attempts a
+join public.certification_questions q on q.id = any (a.question_ids)
+where a.status = 'submitted'
+on conflict (attempt_id, question_id) do nothing;
@@ -0,0 +1,31 @@
+-- Signed QwiXCert certificates. The certification-exams function signs each
+-- certificate payload with the issuer's ES256 (ECDSA P-256) key; the public
+-- half is published here so the certificate-verify function, and anyone
+-- else, can check signatures. Keys are identified by their RFC 7638 JWK
+-- thumbprint.
+
+create table if not exists public.certificate_issuer_keys (
+  id text primary key,
+  issuer text not null,
+  algorithm text not null default 'ES256',
+  public_jwk jsonb not null,
+  created_at timestamptz not null default now(),
+  -- No longer used for signing; certificates it signed before this stay valid
+  retired_at timestamptz,
+  -- Compromised: nothing it signed can be trusted
+  revoked_at timestamptz
+);
+
+alter table public.certificate_issuer_keys enable row level security;
+
+drop policy if exists "Anyone can read issuer keys" on public.certificate_issuer_keys;
+create policy "Anyone can read issuer keys"
+  on public.certificate_issuer_keys for select
+  using (true);
+
+alter table public.issued_certificates
+  -- base64url ES256 signature over the canonical JSON of payload
+  add column if not exists signature text,
+  add column if not exists key_id text references public.certificate_issuer_keys(id),
+  add column if not exists revoked_at timestamptz,
+  add column if not exists revocation_reason text;
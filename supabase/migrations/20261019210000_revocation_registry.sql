@@ -0,0 +1,148 @@
+-- Revocation registry for issued certificates and documents, in the style of
+-- the W3C Bitstring Status List: every registered credential owns one bit in
+-- a status list, set once it is revoked or superseded, so a verifier can
+-- fetch a whole list at once without revealing which credential it checks.
+-- Each entry also keeps when, by whom and why, and every change is recorded
+-- in revocation_events. Only the edge functions write here.
+
+create table if not exists public.status_lists (
+  id uuid primary key default gen_random_uuid(),
+  purpose text not null default 'revocation' check (purpose = 'revocation'),
+  -- Bits in the list; the spec's minimum, so a list doesn't narrow down its holders
+  size integer not null default 131072 check (size > 0),
+  next_index integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.status_list_entries (
+  id uuid primary key default gen_random_uuid(),
+  list_id uuid not null references public.status_lists(id),
+  list_index integer not null,
+  subject_type text not null check (subject_type in ('certificate', 'document')),
+  -- issued_certificates.id for certificates, the document's uniqueId for documents
+  subject_id text not null,
+  -- SHA-256 (hex) of a document file, so its issuer can find it from the file
+  content_hash text,
+  label text not null,
+  -- The organization that issued it; null for QwiXCert exam certificates
+  issuer_company_id uuid references public.companies(id) on delete set null,
+  issuer_name text not null,
+  registered_by uuid references auth.users(id) on delete set null,
+  registered_at timestamptz not null default now(),
+  status text not null default 'active' check (status in ('active', 'revoked', 'superseded')),
+  revoked_at timestamptz,
+  revoked_by uuid references auth.users(id) on delete set null,
+  -- Who verifiers are told revoked it, kept as it was at the time
+  revoked_by_name text,
+  revocation_reason text,
+  -- Subject id of the replacement, for superseded entries
+  superseded_by text,
+  unique (list_id, list_index),
+  unique (subject_type, subject_id)
+);
+
+create index if not exists status_list_entries_issuer_idx
+  on public.status_list_entries (issuer_company_id, registered_at desc);
+create unique index if not exists status_list_entries_content_idx
+  on public.status_list_entries (issuer_company_id, content_hash)
+  where content_hash is not null;
+
+create table if not exists public.revocation_events (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.status_list_entries(id) on delete cascade,
+  action text not null check (action in ('registered', 'revoked', 'superseded')),
+  reason text,
+  actor_id uuid references auth.users(id) on delete set null,
+  actor_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists revocation_events_entry_idx on public.revocation_events (entry_id, created_at desc);
+
+alter table public.status_lists enable row level security;
+alter table public.status_list_entries enable row level security;
+alter table public.revocation_events enable row level security;
+
+-- No policies: statuses are read through the revocation-registry function,
+-- which publishes the lists and only shows issuers their own entries
+
+-- Takes the next free bit, opening a new list when the current one is full
+create or replace function public.allocate_status_list_index()
+returns table (list_id uuid, list_index integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target uuid;
+  allocated integer;
+begin
+  select l.id into target
+  from status_lists l
+  where l.next_index < l.size
+  order by l.created_at
+  limit 1
+  for update;
+
+  if target is null then
+    insert into status_lists default values returning id into target;
+  end if;
+
+  update status_lists
+  set next_index = next_index + 1
+  where id = target
+  returning next_index - 1 into allocated;
+
+  return query select target, allocated;
+end;
+$$;
+
+revoke execute on function public.allocate_status_list_index() from public, anon, authenticated;
+grant execute on function public.allocate_status_list_index() to service_role;
+
+-- Register the certificates issued so far, carrying over their revocations
+do $$
+declare
+  certificate record;
+  slot record;
+  new_entry uuid;
+begin
+  for certificate in
+    select c.*
+    from public.issued_certificates c
+    where not exists (
+      select 1 from public.status_list_entries e
+      where e.subject_type = 'certificate' and e.subject_id = c.id::text
+    )
+    order by c.issued_at
+  loop
+    select * into slot from public.allocate_status_list_index();
+
+    insert into public.status_list_entries (
+      list_id, list_index, subject_type, subject_id, label, issuer_name, registered_at,
+      status, revoked_at, revoked_by_name, revocation_reason
+    ) values (
+      slot.list_id, slot.list_index, 'certificate', certificate.id::text,
+      certificate.title || ' - ' || certificate.recipient_name, certificate.issuer, certificate.issued_at,
+      case when certificate.revoked_at is null then 'active' else 'revoked' end,
+      certificate.revoked_at,
+      case when certificate.revoked_at is null then null else certificate.issuer end,
+      certificate.revocation_reason
+    )
+    returning id into new_entry;
+
+    insert into public.revocation_events (entry_id, action, actor_name, created_at)
+    values (new_entry, 'registered', certificate.issuer, certificate.issued_at);
+
+    if certificate.revoked_at is not null then
+      insert into public.revocation_events (entry_id, action, reason, actor_name, created_at)
+      values (new_entry, 'revoked', certificate.revocation_reason, certificate.issuer, certificate.revoked_at);
+    end if;
+  end loop;
+end;
+$$;
+
+-- The registry is now the only record of revocation
+alter table public.issued_certificates
+  drop column if exists revoked_at,
+  drop column if exists revocation_reason;
@@ -0,0 +1,82 @@
+-- Batched anchoring of certificate hashes. Issued certificates wait in
+-- certificate_anchors until the certificate-anchoring function builds a
+-- Merkle tree over the queue (see _shared/merkleTree.ts), signs its root with
+-- the issuer key and appends it to anchor_batches. Each certificate then
+-- keeps its inclusion proof, so a holder can prove membership offline from
+-- the proof and the signed root.
+--
+-- anchor_batches is an append-only log: every batch statement commits to the
+-- hash of the one before it, and rows can't be changed or deleted.
+--
+-- To anchor on a schedule, invoke the function from pg_cron with the service
+-- role key, e.g.
+--   select cron.schedule('certificate-anchoring', '*/15 * * * *', $$
+--     select net.http_post('https://<project>.functions.supabase.co/certificate-anchoring',
+--       headers := jsonb_build_object('Authorization', 'Bearer <service role key>'),
+--       body := '{"action": "anchor"}'::jsonb)
+--   $$);
+
+create table if not exists public.anchor_batches (
+  id uuid primary key default gen_random_uuid(),
+  sequence integer not null unique check (sequence > 0),
+  root text not null,
+  leaf_count integer not null check (leaf_count > 0),
+  -- SHA-256 of the previous batch's canonical statement; null for the first
+  previous_hash text,
+  -- What the issuer signed: { type, sequence, root, leafCount, previous, anchoredAt, issuer, keyId }
+  statement jsonb not null,
+  signature text not null,
+  key_id text not null references public.certificate_issuer_keys(id),
+  anchored_at timestamptz not null default now(),
+  check ((sequence = 1) = (previous_hash is null))
+);
+
+create or replace function public.reject_anchor_batch_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'anchor_batches is append-only';
+end;
+$$;
+
+drop trigger if exists anchor_batches_append_only on public.anchor_batches;
+create trigger anchor_batches_append_only
+  before update or delete on public.anchor_batches
+  for each row execute function public.reject_anchor_batch_changes();
+
+drop trigger if exists anchor_batches_no_truncate on public.anchor_batches;
+create trigger anchor_batches_no_truncate
+  before truncate on public.anchor_batches
+  for each statement execute function public.reject_anchor_batch_changes();
+
+create table if not exists public.certificate_anchors (
+  certificate_id uuid primary key references public.issued_certificates(id) on delete cascade,
+  cert_hash text not null,
+  queued_at timestamptz not null default now(),
+  -- Set together once the certificate is anchored
+  batch_id uuid references public.anchor_batches(id),
+  leaf_index integer,
+  -- Sibling hashes from the leaf up: [{ "side": "left" | "right", "hash": "<hex>" }]
+  proof jsonb
+);
+
+create index if not exists certificate_anchors_pending_idx
+  on public.certificate_anchors (queued_at)
+  where batch_id is null;
+create index if not exists certificate_anchors_batch_idx on public.certificate_anchors (batch_id, leaf_index);
+
+alter table public.anchor_batches enable row level security;
+alter table public.certificate_anchors enable row level security;
+
+-- The log is public so anyone can audit it; proofs are served by the function
+drop policy if exists "Anyone can read anchor batches" on public.anchor_batches;
+create policy "Anyone can read anchor batches"
+  on public.anchor_batches for select
+  using (true);
+
+-- Queue the certificates issued so far
+insert into public.certificate_anchors (certificate_id, cert_hash, queued_at)
+select id, cert_hash, issued_at
+from public.issued_certificates
+on conflict (certificate_id) do nothing;
@@ -0,0 +1,32 @@
+-- The head of a session's evidence chain (the hash of its last entry) is kept
+-- with the session, apart from the evidence rows, so a chain cut short at the
+-- end can be told from a complete one. HR members can't read interview
+-- sessions, so they get just the head, and only for sessions whose evidence
+-- they can see. The session must belong to the user whose chain is checked.
+create or replace function public.proctoring_evidence_head(p_session_id text, p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.metadata ->> 'evidenceHeadHash'
+  from interview_sessions s
+  where s.session_id = p_session_id
+    and s.user_id = p_user_id
+    and (
+      s.user_id = auth.uid()
+      or exists (
+        select 1
+        from proctoring_evidence e
+        join jobs j on j.id = e.job_id
+        join hr_members hm on hm.company_id = j.company_id
+        where e.session_id = s.session_id
+          and e.user_id = s.user_id
+          and hm.user_profile_id = auth.uid()
+      )
+    );
+$$;
+
+revoke execute on function public.proctoring_evidence_head(text, uuid) from public, anon;
+grant execute on function public.proctoring_evidence_head(text, uuid) to authenticated;